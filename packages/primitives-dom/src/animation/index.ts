@@ -1,7 +1,13 @@
 /**
- * Animation utilities for presence management.
+ * Animation utilities for presence management and swipe gestures.
  */
 
 export { createPresence } from "./presence.js";
 export { prefersReducedMotion, onMotionPreferenceChange } from "./motion-preference.js";
+export {
+  createSwipeDismiss,
+  type SwipeDirection,
+  type SwipeDismiss,
+  type SwipeDismissOptions,
+} from "./swipe-dismiss.js";
 export type { AnimationState, Presence, PresenceOptions } from "./types.js";
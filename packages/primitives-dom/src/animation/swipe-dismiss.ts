@@ -0,0 +1,177 @@
+/**
+ * Pointer swipe-to-dismiss for toasts and similar transient surfaces.
+ *
+ * While the pointer drags in the dismiss direction, the element follows via
+ * the `--ds-swipe-x` / `--ds-swipe-y` custom properties and carries
+ * `data-swipe="move"`. Releasing past the threshold (or flicking) sets
+ * `data-swipe="end"` and calls `onDismiss`; otherwise the offset resets and
+ * `data-swipe="cancel"` lets CSS animate it back. With reduced motion the
+ * element does not follow the pointer, but a completed swipe still dismisses.
+ */
+
+import { prefersReducedMotion } from "./motion-preference.js";
+
+export type SwipeDirection = "left" | "right" | "up" | "down";
+
+/**
+ * Options for swipe-to-dismiss.
+ */
+export interface SwipeDismissOptions {
+  /** Direction that dismisses */
+  direction: SwipeDirection;
+
+  /**
+   * Distance in pixels past which releasing dismisses.
+   * @default 50
+   */
+  threshold?: number;
+
+  /** Called when a swipe completes */
+  onDismiss: () => void;
+
+  /** Called when a drag starts, e.g. to pause an auto-dismiss timer */
+  onSwipeStart?: () => void;
+
+  /** Called when a drag is released without dismissing */
+  onSwipeCancel?: () => void;
+}
+
+/**
+ * A swipe-to-dismiss handler attached to an element.
+ */
+export interface SwipeDismiss {
+  /** Removes listeners and resets the element */
+  destroy: () => void;
+}
+
+/** Release speed in px/ms that dismisses regardless of distance */
+const FLICK_VELOCITY = 0.5;
+
+/** Movement in px before a press counts as a drag (keeps clicks working) */
+const DRAG_SLOP = 5;
+
+/**
+ * Makes an element dismissible by swiping it with a pointer.
+ *
+ * @example
+ * ```ts
+ * const swipe = createSwipeDismiss(toastElement, {
+ *   direction: "right",
+ *   onDismiss: () => controller.dismiss(id),
+ * });
+ *
+ * // Later
+ * swipe.destroy();
+ * ```
+ */
+export function createSwipeDismiss(
+  element: HTMLElement,
+  options: SwipeDismissOptions
+): SwipeDismiss {
+  const { direction, threshold = 50, onDismiss, onSwipeStart, onSwipeCancel } = options;
+  const horizontal = direction === "left" || direction === "right";
+  const sign = direction === "right" || direction === "down" ? 1 : -1;
+
+  let pointerId: number | null = null;
+  let startX = 0;
+  let startY = 0;
+  let startTime = 0;
+  let distance = 0;
+  let dragging = false;
+  let suppressClick = false;
+
+  function setOffset(offset: number): void {
+    element.style.setProperty(horizontal ? "--ds-swipe-x" : "--ds-swipe-y", `${offset}px`);
+  }
+
+  function clearOffset(): void {
+    element.style.removeProperty("--ds-swipe-x");
+    element.style.removeProperty("--ds-swipe-y");
+  }
+
+  function handlePointerDown(event: PointerEvent): void {
+    if (event.button !== 0 || pointerId !== null) return;
+    pointerId = event.pointerId;
+    suppressClick = false;
+    startX = event.clientX;
+    startY = event.clientY;
+    startTime = event.timeStamp;
+    distance = 0;
+    dragging = false;
+  }
+
+  function handlePointerMove(event: PointerEvent): void {
+    if (event.pointerId !== pointerId) return;
+
+    const delta = horizontal ? event.clientX - startX : event.clientY - startY;
+    // Only the dismiss direction moves the element
+    distance = Math.max(0, delta * sign);
+
+    if (!dragging) {
+      if (distance < DRAG_SLOP) return;
+      dragging = true;
+      element.setPointerCapture?.(event.pointerId);
+      element.setAttribute("data-swipe", "move");
+      onSwipeStart?.();
+    }
+
+    if (!prefersReducedMotion()) {
+      setOffset(distance * sign);
+    }
+  }
+
+  function handlePointerUp(event: PointerEvent): void {
+    if (event.pointerId !== pointerId) return;
+    pointerId = null;
+    if (!dragging) return;
+    dragging = false;
+    suppressClick = true;
+
+    const elapsed = Math.max(event.timeStamp - startTime, 1);
+    if (distance >= threshold || distance / elapsed >= FLICK_VELOCITY) {
+      element.setAttribute("data-swipe", "end");
+      onDismiss();
+    } else {
+      clearOffset();
+      element.setAttribute("data-swipe", "cancel");
+      onSwipeCancel?.();
+    }
+  }
+
+  function handlePointerCancel(event: PointerEvent): void {
+    if (event.pointerId !== pointerId) return;
+    pointerId = null;
+    if (dragging) {
+      dragging = false;
+      clearOffset();
+      element.setAttribute("data-swipe", "cancel");
+      onSwipeCancel?.();
+    }
+  }
+
+  // A drag that ends on a button must not also press it
+  function handleClick(event: MouseEvent): void {
+    if (!suppressClick) return;
+    suppressClick = false;
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  element.addEventListener("pointerdown", handlePointerDown);
+  element.addEventListener("pointermove", handlePointerMove);
+  element.addEventListener("pointerup", handlePointerUp);
+  element.addEventListener("pointercancel", handlePointerCancel);
+  element.addEventListener("click", handleClick, true);
+
+  return {
+    destroy: () => {
+      element.removeEventListener("pointerdown", handlePointerDown);
+      element.removeEventListener("pointermove", handlePointerMove);
+      element.removeEventListener("pointerup", handlePointerUp);
+      element.removeEventListener("pointercancel", handlePointerCancel);
+      element.removeEventListener("click", handleClick, true);
+      clearOffset();
+      element.removeAttribute("data-swipe");
+    },
+  };
+}
@@ -1,8 +1,17 @@
 /**
  * Combobox behavior primitive.
  * Manages combobox input, async loading, multi-select tags, and ARIA state.
+ *
+ * Options with a `group` are listed together, groups in order of their first
+ * (best-ranked) option. Async loaders get an `AbortSignal` that aborts when a
+ * newer query loads, and may return pages with a `nextCursor`; `loadMore()`
+ * appends the next page.
  */
 
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+import { type FilterFunction, type MatchRange, rankItems } from "../search/fuzzy-match.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -11,6 +20,22 @@ export interface Option<T = string> {
   value: T;
   label: string;
   disabled?: boolean;
+  /** Extra search terms, ranked below label matches */
+  keywords?: string[];
+  /** Group label; options sharing a group are listed together */
+  group?: string;
+}
+
+/** A page of async results. Pass `nextCursor` back to load the next page. */
+export interface OptionPage<T = string> {
+  items: Option<T>[];
+  nextCursor?: string | null;
+}
+
+export interface OptionGroup<T = string> {
+  /** Group label, or null for ungrouped options */
+  label: string | null;
+  options: Option<T>[];
 }
 
 export interface ComboboxBehaviorOptions<T = string, Multi extends boolean = false> {
@@ -26,10 +51,21 @@ export interface ComboboxBehaviorOptions<T = string, Multi extends boolean = fal
   creatable?: boolean;
   /** Called when new value is created */
   onCreateValue?: (value: string) => void;
-  /** Async item loader */
-  loadItems?: (query: string) => Promise<Option<T>[]>;
+  /**
+   * Async item loader. The signal aborts when a newer query loads. Return an
+   * `OptionPage` to paginate; its cursor is passed back for the next page.
+   */
+  loadItems?: (
+    query: string,
+    signal: AbortSignal,
+    cursor?: string
+  ) => Promise<Option<T>[] | OptionPage<T>>;
+  /** Called when an async load starts, settles or fails */
+  onLoadStateChange?: (state: ComboboxBehaviorState<T, Multi>) => void;
   /** Static items */
   items?: Option<T>[];
+  /** Custom matcher for static items; defaults to ranked fuzzy matching */
+  filter?: FilterFunction;
   /** Debounce delay for async (ms) */
   debounce?: number;
   /** Virtualization threshold */
@@ -38,6 +74,8 @@ export interface ComboboxBehaviorOptions<T = string, Multi extends boolean = fal
   disabled?: boolean;
   /** Custom ID generator */
   generateId?: () => string;
+  /** Message overrides for the tag labels */
+  messages?: Partial<Messages>;
 }
 
 export interface ComboboxBehaviorState<T = string, Multi extends boolean = false> {
@@ -48,6 +86,10 @@ export interface ComboboxBehaviorState<T = string, Multi extends boolean = false
   options: Option<T>[];
   filteredOptions: Option<T>[];
   loading: boolean;
+  /** Whether a further page is being loaded */
+  loadingMore: boolean;
+  /** Whether the async loader has more pages */
+  hasMore: boolean;
   error: Error | null;
   virtualized: boolean;
 }
@@ -74,6 +116,19 @@ export interface ComboboxOptionProps {
   id: string;
   "aria-selected": boolean;
   "aria-disabled"?: boolean;
+  /** Position among the filtered options, for windowed rendering */
+  "aria-posinset"?: number;
+  /** Number of filtered options, or -1 while more pages can load */
+  "aria-setsize"?: number;
+}
+
+export interface ComboboxGroupProps {
+  role: "group";
+  "aria-labelledby": string;
+}
+
+export interface ComboboxGroupLabelProps {
+  id: string;
 }
 
 export interface ComboboxTagProps {
@@ -98,6 +153,18 @@ export interface ComboboxBehavior<T = string, Multi extends boolean = false> {
   /** Update input value */
   setInputValue(value: string): void;
 
+  /** Replace the options, re-applying the current query */
+  setItems(items: Option<T>[]): void;
+
+  /** Load async results for a query now, cancelling a pending debounced load */
+  load(query?: string): Promise<void>;
+
+  /** Load the next page of async results, if any */
+  loadMore(): Promise<void>;
+
+  /** Filtered options split into groups, in display order */
+  getGroups(): OptionGroup<T>[];
+
   /** Select a value */
   select(value: T): void;
 
@@ -131,6 +198,15 @@ export interface ComboboxBehavior<T = string, Multi extends boolean = false> {
   /** Get props for tag (multi-select) */
   getTagProps(value: T, label: string): ComboboxTagProps;
 
+  /** Get ARIA props for a group container */
+  getGroupProps(label: string): ComboboxGroupProps;
+
+  /** Get props for a group's label element */
+  getGroupLabelProps(label: string): ComboboxGroupLabelProps;
+
+  /** Matched ranges of an option's label for the current query, for highlighting */
+  getMatchRanges(value: T): MatchRange[];
+
   /** Cleanup */
   destroy(): void;
 }
@@ -145,6 +221,42 @@ function defaultGenerateId(): string {
   return `combobox-${++idCounter}`;
 }
 
+/**
+ * Split options into groups. Groups appear in order of their first option,
+ * so ranked options keep the best group first.
+ *
+ * @example
+ * ```ts
+ * groupOptions([
+ *   { value: "a", label: "Apple", group: "Fruit" },
+ *   { value: "c", label: "Carrot", group: "Vegetables" },
+ *   { value: "b", label: "Banana", group: "Fruit" },
+ * ]);
+ * // [{ label: "Fruit", options: [Apple, Banana] }, { label: "Vegetables", options: [Carrot] }]
+ * ```
+ */
+export function groupOptions<T>(options: Option<T>[]): OptionGroup<T>[] {
+  const groups = new Map<string | null, OptionGroup<T>>();
+  for (const option of options) {
+    const label = option.group ?? null;
+    const group = groups.get(label);
+    if (group) {
+      group.options.push(option);
+    } else {
+      groups.set(label, { label, options: [option] });
+    }
+  }
+  return Array.from(groups.values());
+}
+
+function inGroupOrder<T>(options: Option<T>[]): Option<T>[] {
+  return groupOptions(options).flatMap((group) => group.options);
+}
+
+function toPage<T>(result: Option<T>[] | OptionPage<T>): OptionPage<T> {
+  return Array.isArray(result) ? { items: result } : result;
+}
+
 /**
  * Creates a combobox behavior primitive.
  *
@@ -175,11 +287,14 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     creatable = false,
     onCreateValue,
     loadItems,
+    onLoadStateChange,
     items: staticItems = [],
+    filter,
     debounce = 300,
     virtualizationThreshold = 100,
     disabled = false,
     generateId = defaultGenerateId,
+    messages,
   } = options;
 
   // Generate stable IDs
@@ -194,18 +309,30 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     inputValue: "",
     highlightedValue: null,
     options: staticItems,
-    filteredOptions: staticItems,
+    filteredOptions: inGroupOrder(staticItems),
     loading: false,
+    loadingMore: false,
+    hasMore: false,
     error: null,
     virtualized: staticItems.length > virtualizationThreshold,
   };
 
+  // Label match ranges of the filtered options, keyed by value
+  let matchRanges = new Map<T, MatchRange[]>();
+
   // Debounce timer
   let debounceTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Abort controller for async requests
   let abortController: AbortController | null = null;
 
+  // Query and cursor of the next async page
+  let loadedQuery = "";
+  let nextCursor: string | null = null;
+
+  // Group label element IDs, keyed by label
+  const groupIds = new Map<string, string>();
+
   // Helpers
   function getEnabledOptions(): Option<T>[] {
     return state.filteredOptions.filter((opt) => !opt.disabled);
@@ -217,9 +344,14 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
   }
 
   function filterOptions(query: string): Option<T>[] {
-    if (!query) return state.options;
-    const lowerQuery = query.toLowerCase();
-    return state.options.filter((opt) => opt.label.toLowerCase().includes(lowerQuery));
+    const ranked = rankItems(
+      state.options,
+      query,
+      (opt) => ({ text: opt.label, keywords: opt.keywords }),
+      filter
+    );
+    matchRanges = new Map(ranked.map((result) => [result.item.value, result.ranges]));
+    return inGroupOrder(ranked.map((result) => result.item));
   }
 
   function isSelected(value: T): boolean {
@@ -234,20 +366,26 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
 
     // Cancel previous request
     abortController?.abort();
-    abortController = new AbortController();
+    const controller = new AbortController();
+    abortController = controller;
 
-    state = { ...state, loading: true, error: null };
+    state = { ...state, loading: true, loadingMore: false, error: null };
+    onLoadStateChange?.(state);
 
     try {
-      const results = await loadItems(query);
+      const page = toPage(await loadItems(query, controller.signal));
       // Check if this request was aborted
-      if (abortController?.signal.aborted) return;
+      if (controller.signal.aborted) return;
 
+      const results = page.items;
+      loadedQuery = query;
+      nextCursor = page.nextCursor ?? null;
       state = {
         ...state,
         options: results,
-        filteredOptions: results,
+        filteredOptions: inGroupOrder(results),
         loading: false,
+        hasMore: nextCursor !== null,
         virtualized: results.length > virtualizationThreshold,
       };
 
@@ -259,13 +397,14 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
         }
       }
     } catch (err) {
-      if (abortController?.signal.aborted) return;
+      if (controller.signal.aborted) return;
       state = {
         ...state,
         loading: false,
         error: err instanceof Error ? err : new Error(String(err)),
       };
     }
+    onLoadStateChange?.(state);
   }
 
   function handleInputChange(query: string): void {
@@ -300,13 +439,54 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     }
   }
 
+  function load(query = state.inputValue): Promise<void> {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+    return loadAsync(query);
+  }
+
+  async function loadMore(): Promise<void> {
+    if (!loadItems || nextCursor === null || state.loading || state.loadingMore) return;
+
+    const controller = abortController ?? new AbortController();
+    abortController = controller;
+    state = { ...state, loadingMore: true, error: null };
+    onLoadStateChange?.(state);
+
+    try {
+      const page = toPage(await loadItems(loadedQuery, controller.signal, nextCursor));
+      if (controller.signal.aborted) return;
+
+      const options = [...state.options, ...page.items];
+      nextCursor = page.nextCursor ?? null;
+      state = {
+        ...state,
+        options,
+        filteredOptions: inGroupOrder(options),
+        loadingMore: false,
+        hasMore: nextCursor !== null,
+        virtualized: options.length > virtualizationThreshold,
+      };
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      state = {
+        ...state,
+        loadingMore: false,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+    onLoadStateChange?.(state);
+  }
+
   // Public API
   function open(): void {
     if (disabled) return;
     state = { ...state, open: true };
 
-    // Load initial options if async
-    if (loadItems && state.options.length === 0) {
+    // Load initial options if async, unless a query is already on its way
+    if (loadItems && state.options.length === 0 && !debounceTimer && !state.loading) {
       loadAsync("");
     }
   }
@@ -325,6 +505,28 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     }
   }
 
+  function setItems(items: Option<T>[]): void {
+    state = { ...state, options: items };
+    const filtered = loadItems ? inGroupOrder(items) : filterOptions(state.inputValue);
+    state = {
+      ...state,
+      filteredOptions: filtered,
+      virtualized: filtered.length > virtualizationThreshold,
+    };
+
+    // Drop a highlight that is no longer listed
+    if (
+      state.highlightedValue !== null &&
+      !filtered.some((opt) => opt.value === state.highlightedValue)
+    ) {
+      state = { ...state, highlightedValue: null };
+    }
+  }
+
+  function getGroups(): OptionGroup<T>[] {
+    return groupOptions(state.filteredOptions);
+  }
+
   function select(value: T): void {
     if (disabled) return;
 
@@ -452,22 +654,49 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
   function getOptionProps(value: T, _label: string): ComboboxOptionProps {
     const option = state.options.find((opt) => opt.value === value);
     const isDisabled = option?.disabled ?? false;
+    const index = state.filteredOptions.findIndex((opt) => opt.value === value);
 
     return {
       role: "option",
       id: `${baseId}-option-${value}`,
       "aria-selected": isSelected(value),
       "aria-disabled": isDisabled ? true : undefined,
+      "aria-posinset": index === -1 ? undefined : index + 1,
+      "aria-setsize": index === -1 ? undefined : state.hasMore ? -1 : state.filteredOptions.length,
     };
   }
 
   function getTagProps(_value: T, label: string): ComboboxTagProps {
     return {
       role: "listitem",
-      "aria-label": `${label}, press Delete to remove`,
+      "aria-label": getMessage("combobox.removeTag", { label }, { messages }),
     };
   }
 
+  function getGroupLabelId(label: string): string {
+    let id = groupIds.get(label);
+    if (!id) {
+      id = `${baseId}-group-${groupIds.size + 1}`;
+      groupIds.set(label, id);
+    }
+    return id;
+  }
+
+  function getGroupProps(label: string): ComboboxGroupProps {
+    return {
+      role: "group",
+      "aria-labelledby": getGroupLabelId(label),
+    };
+  }
+
+  function getGroupLabelProps(label: string): ComboboxGroupLabelProps {
+    return { id: getGroupLabelId(label) };
+  }
+
+  function getMatchRanges(value: T): MatchRange[] {
+    return matchRanges.get(value) ?? [];
+  }
+
   function destroy(): void {
     if (debounceTimer) {
       clearTimeout(debounceTimer);
@@ -490,6 +719,10 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     open,
     close,
     setInputValue,
+    setItems,
+    load,
+    loadMore,
+    getGroups,
     select,
     remove,
     clear,
@@ -503,6 +736,9 @@ export function createComboboxBehavior<T = string, Multi extends boolean = false
     getListboxProps,
     getOptionProps,
     getTagProps,
+    getGroupProps,
+    getGroupLabelProps,
+    getMatchRanges,
     destroy,
   };
 }
@@ -0,0 +1,546 @@
+/**
+ * DateField behavior primitive.
+ * Manages a segmented date input (day, month, year) whose segment order and
+ * separators follow the locale.
+ */
+
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DateSegment = "day" | "month" | "year";
+
+/**
+ * A piece of the field layout: an editable segment or a literal separator.
+ */
+export type DateFieldPart = { type: DateSegment } | { type: "literal"; value: string };
+
+export interface DateFieldBehaviorOptions {
+  /** Initial date value */
+  defaultValue?: Date | null;
+  /** Called when the date changes; null while any segment is empty */
+  onValueChange?: (value: Date | null) => void;
+  /** Called when the focused segment changes */
+  onFocusedSegmentChange?: (segment: DateSegment | null) => void;
+  /** Locale for segment order, separators and month names */
+  locale?: string;
+  /** Minimum valid date */
+  minDate?: Date;
+  /** Maximum valid date */
+  maxDate?: Date;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Read-only state */
+  readOnly?: boolean;
+  /** Message overrides for the segment labels and placeholders */
+  messages?: Partial<Messages>;
+}
+
+export interface DateFieldBehaviorState {
+  /** Segment values; month is 1-based */
+  segments: Record<DateSegment, number | null>;
+  /** The date, once every segment is filled */
+  value: Date | null;
+  focusedSegment: DateSegment | null;
+  /** Whether the date falls outside minDate/maxDate */
+  invalid: boolean;
+  disabled: boolean;
+  readOnly: boolean;
+}
+
+export interface DateSegmentProps {
+  role: "spinbutton";
+  tabIndex: number;
+  inputMode: "numeric";
+  "aria-valuemin": number;
+  "aria-valuemax": number;
+  "aria-valuenow"?: number;
+  "aria-valuetext": string;
+  "aria-label": string;
+  "aria-invalid"?: boolean;
+  "aria-disabled"?: boolean;
+  "aria-readonly"?: boolean;
+}
+
+export interface DateFieldBehavior {
+  /** Current state */
+  readonly state: DateFieldBehaviorState;
+
+  /** Segments and separators in locale order */
+  getParts(): DateFieldPart[];
+
+  /** Editable segments in locale order */
+  getSegments(): DateSegment[];
+
+  /** Increment segment value */
+  increment(segment: DateSegment): void;
+
+  /** Decrement segment value */
+  decrement(segment: DateSegment): void;
+
+  /** Set or clear a segment value */
+  setSegmentValue(segment: DateSegment, value: number | null): void;
+
+  /** Set full date value */
+  setValue(value: Date | null): void;
+
+  /** Clear all segments */
+  clear(): void;
+
+  /** Focus a segment */
+  focusSegment(segment: DateSegment): void;
+
+  /** Focus next segment */
+  focusNextSegment(): void;
+
+  /** Focus previous segment */
+  focusPreviousSegment(): void;
+
+  /** Clear focus */
+  blur(): void;
+
+  /** Get segment props */
+  getSegmentProps(segment: DateSegment): DateSegmentProps;
+
+  /** Get display value for a segment (placeholder while empty) */
+  getSegmentDisplayValue(segment: DateSegment): string;
+
+  /** Handle keyboard events on segment */
+  handleSegmentKeyDown(segment: DateSegment, event: KeyboardEvent): boolean;
+
+  /** Cleanup */
+  destroy(): void;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+const MAX_YEAR = 9999;
+
+/**
+ * Reference date for reading the locale's layout. Day and month differ and
+ * are both two digits so no locale collapses them.
+ */
+const LAYOUT_SAMPLE = new Date(2000, 10, 22);
+
+/**
+ * Read segment order and separators from Intl.DateTimeFormat.
+ */
+function getLocaleParts(locale: string): DateFieldPart[] {
+  const formatter = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+
+  const parts: DateFieldPart[] = [];
+  for (const part of formatter.formatToParts(LAYOUT_SAMPLE)) {
+    if (part.type === "day" || part.type === "month" || part.type === "year") {
+      parts.push({ type: part.type });
+    } else {
+      // Merge adjacent literals (e.g. era or bidi marks next to a separator)
+      const last = parts[parts.length - 1];
+      if (last?.type === "literal") {
+        last.value += part.value;
+      } else {
+        parts.push({ type: "literal", value: part.value });
+      }
+    }
+  }
+  return parts;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+/**
+ * Build a local date, keeping two-digit years literal (new Date() maps 0-99 to 1900s).
+ */
+function toDate(year: number, month: number, day: number): Date {
+  const date = new Date(2000, month - 1, day);
+  date.setFullYear(year);
+  return date;
+}
+
+function startOfDay(date: Date): number {
+  return toDate(date.getFullYear(), date.getMonth() + 1, date.getDate()).getTime();
+}
+
+/**
+ * Creates a date field behavior primitive.
+ *
+ * @example
+ * ```ts
+ * const dateField = createDateFieldBehavior({
+ *   locale: "de-DE",
+ *   onValueChange: (value) => console.log('Date:', value),
+ * });
+ *
+ * dateField.getParts();
+ * // [{ type: "day" }, { type: "literal", value: "." }, { type: "month" }, ...]
+ * ```
+ */
+export function createDateFieldBehavior(options: DateFieldBehaviorOptions = {}): DateFieldBehavior {
+  const {
+    defaultValue = null,
+    onValueChange,
+    onFocusedSegmentChange,
+    locale = "en-US",
+    minDate,
+    maxDate,
+    disabled = false,
+    readOnly = false,
+    messages,
+  } = options;
+
+  const parts = getLocaleParts(locale);
+  const segmentOrder = parts.flatMap((part) => (part.type === "literal" ? [] : [part.type]));
+  const monthFormatter = new Intl.DateTimeFormat(locale, { month: "long" });
+
+  // Digits typed into the focused segment so far
+  let typed = "";
+
+  let state: DateFieldBehaviorState = {
+    segments: { day: null, month: null, year: null },
+    value: null,
+    focusedSegment: null,
+    invalid: false,
+    disabled,
+    readOnly,
+  };
+  state = { ...state, ...resolve(segmentsFromDate(defaultValue)) };
+
+  // Helpers
+  function segmentsFromDate(date: Date | null): Record<DateSegment, number | null> {
+    if (!date || Number.isNaN(date.getTime())) {
+      return { day: null, month: null, year: null };
+    }
+    return { day: date.getDate(), month: date.getMonth() + 1, year: date.getFullYear() };
+  }
+
+  function isOutOfRange(date: Date): boolean {
+    const time = date.getTime();
+    if (minDate && time < startOfDay(minDate)) return true;
+    if (maxDate && time > startOfDay(maxDate)) return true;
+    return false;
+  }
+
+  /**
+   * Constrain the day to the month and derive value/invalid from segments.
+   */
+  function resolve(
+    segments: Record<DateSegment, number | null>
+  ): Pick<DateFieldBehaviorState, "segments" | "value" | "invalid"> {
+    const { year, month } = segments;
+    let { day } = segments;
+    if (day !== null && month !== null) {
+      day = Math.min(day, daysInMonth(year ?? 2000, month));
+    }
+
+    const next = { ...segments, day };
+    if (next.day === null || month === null || year === null) {
+      return { segments: next, value: null, invalid: false };
+    }
+
+    const value = toDate(year, month, next.day);
+    return { segments: next, value, invalid: isOutOfRange(value) };
+  }
+
+  function updateSegments(segments: Record<DateSegment, number | null>): void {
+    const previous = state.value;
+    state = { ...state, ...resolve(segments) };
+
+    const changed =
+      previous === null || state.value === null
+        ? previous !== state.value
+        : previous.getTime() !== state.value.getTime();
+    if (changed) {
+      onValueChange?.(state.value);
+    }
+  }
+
+  function getRange(segment: DateSegment): { min: number; max: number } {
+    switch (segment) {
+      case "day": {
+        const { month, year } = state.segments;
+        return { min: 1, max: month === null ? 31 : daysInMonth(year ?? 2000, month) };
+      }
+      case "month":
+        return { min: 1, max: 12 };
+      case "year":
+        return { min: 1, max: MAX_YEAR };
+    }
+  }
+
+  function getToday(segment: DateSegment): number {
+    const today = new Date();
+    switch (segment) {
+      case "day":
+        return today.getDate();
+      case "month":
+        return today.getMonth() + 1;
+      case "year":
+        return today.getFullYear();
+    }
+  }
+
+  function canEdit(): boolean {
+    return !state.disabled && !state.readOnly;
+  }
+
+  function setFocusedSegment(segment: DateSegment | null): void {
+    if (state.focusedSegment === segment) return;
+    typed = "";
+    state = { ...state, focusedSegment: segment };
+    onFocusedSegmentChange?.(segment);
+  }
+
+  // Public API
+  function step(segment: DateSegment, delta: 1 | -1): void {
+    if (!canEdit()) return;
+    typed = "";
+
+    const current = state.segments[segment];
+    let next: number;
+    if (current === null) {
+      next = getToday(segment);
+    } else if (segment === "year") {
+      next = Math.min(Math.max(current + delta, 1), MAX_YEAR);
+    } else {
+      // Day and month wrap within their range
+      const { min, max } = getRange(segment);
+      next = current + delta > max ? min : current + delta < min ? max : current + delta;
+    }
+
+    updateSegments({ ...state.segments, [segment]: next });
+  }
+
+  function increment(segment: DateSegment): void {
+    step(segment, 1);
+  }
+
+  function decrement(segment: DateSegment): void {
+    step(segment, -1);
+  }
+
+  function setSegmentValue(segment: DateSegment, value: number | null): void {
+    if (!canEdit()) return;
+    if (value === null) {
+      updateSegments({ ...state.segments, [segment]: null });
+      return;
+    }
+    if (Number.isNaN(value)) return;
+
+    const { min, max } = getRange(segment);
+    const clamped = Math.min(Math.max(Math.trunc(value), min), max);
+    updateSegments({ ...state.segments, [segment]: clamped });
+  }
+
+  function setValue(value: Date | null): void {
+    typed = "";
+    updateSegments(segmentsFromDate(value));
+  }
+
+  function clear(): void {
+    if (!canEdit()) return;
+    typed = "";
+    updateSegments({ day: null, month: null, year: null });
+  }
+
+  function focusSegment(segment: DateSegment): void {
+    setFocusedSegment(segment);
+  }
+
+  function focusNextSegment(): void {
+    const index = state.focusedSegment ? segmentOrder.indexOf(state.focusedSegment) : -1;
+    const next = segmentOrder[index + 1];
+    if (next) setFocusedSegment(next);
+  }
+
+  function focusPreviousSegment(): void {
+    const index = state.focusedSegment
+      ? segmentOrder.indexOf(state.focusedSegment)
+      : segmentOrder.length;
+    const previous = segmentOrder[index - 1];
+    if (previous) setFocusedSegment(previous);
+  }
+
+  function blur(): void {
+    setFocusedSegment(null);
+  }
+
+  /**
+   * Apply a typed digit. Advances to the next segment once no further digit
+   * could produce a valid value (e.g. "4" in a month, or the 4th year digit).
+   */
+  function typeDigit(segment: DateSegment, digit: string): void {
+    const maxDigits = segment === "year" ? 4 : 2;
+    const { max } = getRange(segment);
+
+    let buffer = typed + digit;
+    if (Number.parseInt(buffer, 10) > max) {
+      buffer = digit;
+    }
+    typed = buffer;
+
+    const number = Number.parseInt(buffer, 10);
+    if (number > 0) {
+      updateSegments({ ...state.segments, [segment]: number });
+    }
+
+    if (buffer.length >= maxDigits || number * 10 > max) {
+      typed = "";
+      if (number > 0) focusNextSegment();
+    }
+  }
+
+  function getSegmentProps(segment: DateSegment): DateSegmentProps {
+    const value = state.segments[segment];
+    const { min, max } = getRange(segment);
+
+    let valueText: string;
+    if (value === null) {
+      valueText = getMessage("dateField.empty", undefined, { messages });
+    } else if (segment === "month") {
+      valueText = monthFormatter.format(new Date(2000, value - 1, 1));
+    } else {
+      valueText = String(value);
+    }
+
+    const props: DateSegmentProps = {
+      role: "spinbutton",
+      tabIndex: state.disabled ? -1 : 0,
+      inputMode: "numeric",
+      "aria-valuemin": min,
+      "aria-valuemax": max,
+      "aria-valuetext": valueText,
+      "aria-label": getMessage(`dateField.${segment}`, undefined, { messages }),
+    };
+
+    if (value !== null) {
+      props["aria-valuenow"] = value;
+    }
+    if (state.invalid) {
+      props["aria-invalid"] = true;
+    }
+    if (state.disabled) {
+      props["aria-disabled"] = true;
+    }
+    if (state.readOnly) {
+      props["aria-readonly"] = true;
+    }
+
+    return props;
+  }
+
+  function getSegmentDisplayValue(segment: DateSegment): string {
+    const value = state.segments[segment];
+    const pending = state.focusedSegment === segment && typed !== "" && typed !== String(value);
+
+    if (pending) {
+      return segment === "year" ? typed : typed.padStart(2, "0");
+    }
+    if (value === null) {
+      return getMessage(`dateField.${segment}Placeholder`, undefined, { messages });
+    }
+    return segment === "year" ? String(value) : String(value).padStart(2, "0");
+  }
+
+  function handleSegmentKeyDown(segment: DateSegment, event: KeyboardEvent): boolean {
+    if (state.disabled) return false;
+    // Leave shortcuts (e.g. Alt+ArrowDown to open a picker) to the host
+    if (event.altKey || event.ctrlKey || event.metaKey) return false;
+
+    switch (event.key) {
+      case "ArrowUp":
+        event.preventDefault();
+        increment(segment);
+        return true;
+      case "ArrowDown":
+        event.preventDefault();
+        decrement(segment);
+        return true;
+      case "ArrowRight":
+        event.preventDefault();
+        focusNextSegment();
+        return true;
+      case "ArrowLeft":
+        event.preventDefault();
+        focusPreviousSegment();
+        return true;
+      case "Home":
+        event.preventDefault();
+        setSegmentValue(segment, getRange(segment).min);
+        return true;
+      case "End":
+        event.preventDefault();
+        setSegmentValue(segment, getRange(segment).max);
+        return true;
+      case "Backspace":
+      case "Delete":
+        event.preventDefault();
+        if (!canEdit()) return true;
+        if (typed.length > 1) {
+          typed = typed.slice(0, -1);
+          setSegmentValue(segment, Number.parseInt(typed, 10) || null);
+        } else if (state.segments[segment] === null) {
+          typed = "";
+          focusPreviousSegment();
+        } else {
+          typed = "";
+          setSegmentValue(segment, null);
+        }
+        return true;
+      case "Tab":
+        // Let natural tab behavior work, but track focus
+        return false;
+      default:
+        if (/^\d$/.test(event.key)) {
+          event.preventDefault();
+          if (canEdit()) typeDigit(segment, event.key);
+          return true;
+        }
+        // Typed separators advance, like a plain text input
+        if (
+          event.key.length === 1 &&
+          parts.some((part) => part.type === "literal" && part.value.includes(event.key))
+        ) {
+          event.preventDefault();
+          focusNextSegment();
+          return true;
+        }
+    }
+
+    return false;
+  }
+
+  function destroy(): void {
+    // No cleanup needed
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    getParts: () => parts.map((part) => ({ ...part })),
+    getSegments: () => [...segmentOrder],
+    increment,
+    decrement,
+    setSegmentValue,
+    setValue,
+    clear,
+    focusSegment,
+    focusNextSegment,
+    focusPreviousSegment,
+    blur,
+    getSegmentProps,
+    getSegmentDisplayValue,
+    handleSegmentKeyDown,
+    destroy,
+  };
+}
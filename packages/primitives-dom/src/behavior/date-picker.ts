@@ -3,6 +3,10 @@
  * Manages date selection, calendar navigation, and ARIA state.
  */
 
+import { getDirection, mirrorArrowKey } from "../direction/direction.js";
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -14,6 +18,22 @@ export interface DateRange {
   end: Date | null;
 }
 
+/**
+ * Marks dates that cannot be selected. Return a string to give the reason
+ * screen readers announce, or `true` for a generic "Unavailable".
+ */
+export type DateUnavailablePredicate = (date: Date) => boolean | string;
+
+/**
+ * A named range for the preset rail, resolved relative to today.
+ */
+export interface DateRangePreset {
+  /** Label shown in the rail */
+  label: string;
+  /** Resolve the range for a given today */
+  getRange: (today: Date) => DateRange;
+}
+
 export interface DatePickerBehaviorOptions {
   /** Selection mode: single date or date range */
   mode?: DatePickerMode;
@@ -33,6 +53,14 @@ export interface DatePickerBehaviorOptions {
   minDate?: Date;
   /** Maximum selectable date */
   maxDate?: Date;
+  /** Marks dates unavailable, optionally with a reason */
+  isDateUnavailable?: DateUnavailablePredicate;
+  /** Minimum nights between range start and end */
+  minNights?: number;
+  /** Maximum nights between range start and end */
+  maxNights?: number;
+  /** Number of months shown side by side */
+  numberOfMonths?: number;
   /** Locale for date formatting (e.g., "en-US", "de-DE") */
   locale?: string;
   /** First day of week (0 = Sunday, 1 = Monday) */
@@ -43,6 +71,8 @@ export interface DatePickerBehaviorOptions {
   readOnly?: boolean;
   /** Custom ID generator */
   generateId?: () => string;
+  /** Message overrides for unavailable reasons */
+  messages?: Partial<Messages>;
 }
 
 export interface DatePickerBehaviorState {
@@ -52,6 +82,8 @@ export interface DatePickerBehaviorState {
   selectedRange: DateRange;
   focusedDate: Date;
   viewingMonth: Date;
+  /** Date under the pointer while choosing a range end */
+  hoveredDate: Date | null;
   isSelectingRange: boolean;
   disabled: boolean;
 }
@@ -86,6 +118,15 @@ export interface DatePickerBehavior {
   /** Select a date */
   selectDate(date: Date): void;
 
+  /** Set the selected date without notifying (single mode) */
+  setValue(date: Date | null): void;
+
+  /** Select a complete range (e.g. from a preset) */
+  selectRange(range: DateRange): void;
+
+  /** Set the date previewed as range end, or null */
+  hoverDate(date: Date | null): void;
+
   /** Focus a date (keyboard navigation) */
   focusDate(date: Date): void;
 
@@ -125,9 +166,18 @@ export interface DatePickerBehavior {
   /** Focus end of week */
   focusEndOfWeek(): void;
 
+  /** Handle keyboard navigation in the calendar grid; returns true if handled */
+  handleCalendarKeyDown(event: KeyboardEvent): boolean;
+
   /** Check if a date is selectable */
   isDateSelectable(date: Date): boolean;
 
+  /** Get the reason a date is unavailable, or null */
+  getUnavailableReason(date: Date): string | null;
+
+  /** Check if a date is in the tentative range while choosing an end */
+  isInPreviewRange(date: Date): boolean;
+
   /** Check if a date is in the selected range */
   isInRange(date: Date): boolean;
 
@@ -137,8 +187,11 @@ export interface DatePickerBehavior {
   /** Check if a date is the range end */
   isRangeEnd(date: Date): boolean;
 
-  /** Get days for current month grid */
-  getMonthDays(): Date[];
+  /** Get first days of the visible months */
+  getVisibleMonths(): Date[];
+
+  /** Get days for a month grid (defaults to the viewing month) */
+  getMonthDays(month?: Date): Date[];
 
   /** Get weekday names for current locale */
   getWeekdayNames(): string[];
@@ -152,8 +205,8 @@ export interface DatePickerBehavior {
   /** Parse a date string */
   parseDate(dateString: string): Date | null;
 
-  /** Get ARIA props for grid */
-  getGridProps(): CalendarGridProps;
+  /** Get ARIA props for a month grid (defaults to the viewing month) */
+  getGridProps(month?: Date): CalendarGridProps;
 
   /** Get ARIA props for cell */
   getCellProps(date: Date): CalendarCellProps;
@@ -174,10 +227,6 @@ function isSameDay(date1: Date, date2: Date): boolean {
   );
 }
 
-function isSameMonth(date1: Date, date2: Date): boolean {
-  return date1.getFullYear() === date2.getFullYear() && date1.getMonth() === date2.getMonth();
-}
-
 function addDays(date: Date, days: number): Date {
   const result = new Date(date);
   result.setDate(result.getDate() + days);
@@ -190,6 +239,13 @@ function addMonths(date: Date, months: number): Date {
   return result;
 }
 
+/** Adds months, clamping the day to the target month's length */
+function shiftMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  target.setDate(Math.min(date.getDate(), endOfMonth(target).getDate()));
+  return target;
+}
+
 function addYears(date: Date, years: number): Date {
   const result = new Date(date);
   result.setFullYear(result.getFullYear() + years);
@@ -210,6 +266,15 @@ function endOfWeek(date: Date, firstDayOfWeek: number): Date {
   return result;
 }
 
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function nightsBetween(from: Date, to: Date): number {
+  // Round to absorb DST shifts
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86_400_000);
+}
+
 function startOfMonth(date: Date): Date {
   return new Date(date.getFullYear(), date.getMonth(), 1);
 }
@@ -256,6 +321,67 @@ function getMonthDays(date: Date, firstDayOfWeek: number): Date[] {
   return days;
 }
 
+// =============================================================================
+// Presets
+// =============================================================================
+
+/**
+ * Resolve a preset to a range of whole days.
+ */
+export function resolveDateRangePreset(
+  preset: DateRangePreset,
+  today: Date = new Date()
+): DateRange {
+  const { start, end } = preset.getRange(startOfDay(today));
+  return { start: start && startOfDay(start), end: end && startOfDay(end) };
+}
+
+/**
+ * Built-in presets: today, last 7 and 30 days, this month, quarter and year.
+ *
+ * @example
+ * ```ts
+ * const [, lastWeek] = getDefaultDateRangePresets();
+ * resolveDateRangePreset(lastWeek, new Date(2026, 0, 10));
+ * // { start: 2026-01-04, end: 2026-01-10 }
+ * ```
+ */
+export function getDefaultDateRangePresets(
+  options: { messages?: Partial<Messages> } = {}
+): DateRangePreset[] {
+  const label = (key: keyof Messages) => getMessage(key, undefined, options);
+
+  return [
+    { label: label("calendar.preset.today"), getRange: (today) => ({ start: today, end: today }) },
+    {
+      label: label("calendar.preset.last7Days"),
+      getRange: (today) => ({ start: addDays(today, -6), end: today }),
+    },
+    {
+      label: label("calendar.preset.last30Days"),
+      getRange: (today) => ({ start: addDays(today, -29), end: today }),
+    },
+    {
+      label: label("calendar.preset.thisMonth"),
+      getRange: (today) => ({ start: startOfMonth(today), end: endOfMonth(today) }),
+    },
+    {
+      label: label("calendar.preset.thisQuarter"),
+      getRange: (today) => {
+        const start = new Date(today.getFullYear(), today.getMonth() - (today.getMonth() % 3), 1);
+        return { start, end: endOfMonth(addMonths(start, 2)) };
+      },
+    },
+    {
+      label: label("calendar.preset.thisYear"),
+      getRange: (today) => ({
+        start: new Date(today.getFullYear(), 0, 1),
+        end: new Date(today.getFullYear(), 11, 31),
+      }),
+    },
+  ];
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -298,11 +424,16 @@ export function createDatePickerBehavior(
     onOpenChange,
     minDate,
     maxDate,
+    isDateUnavailable,
+    minNights,
+    maxNights,
+    numberOfMonths = 1,
     locale = "en-US",
     firstDayOfWeek = 0,
     disabled = false,
     readOnly = false,
     generateId = defaultGenerateId,
+    messages,
   } = options;
 
   // Generate stable IDs
@@ -321,6 +452,7 @@ export function createDatePickerBehavior(
     selectedRange: defaultRange,
     focusedDate: defaultValue ?? today,
     viewingMonth: defaultValue ?? today,
+    hoveredDate: null,
     isSelectingRange: false,
     disabled,
   };
@@ -335,11 +467,60 @@ export function createDatePickerBehavior(
   });
 
   // Helpers
+  function getPredicateReason(date: Date): string | null {
+    const result = isDateUnavailable?.(date);
+    if (!result) return null;
+    return typeof result === "string"
+      ? result
+      : getMessage("calendar.unavailable", undefined, { messages });
+  }
+
+  function getUnavailableReason(date: Date): string | null {
+    const reason = getPredicateReason(date);
+    if (reason) return reason;
+
+    // While choosing a range end, enforce the stay length and keep the range contiguous
+    const start = state.selectedRange.start;
+    if (mode !== "range" || !state.isSelectingRange || !start) return null;
+
+    const nights = Math.abs(nightsBetween(start, date));
+    if (minNights && nights < minNights) {
+      return getMessage("calendar.minNights", { count: minNights }, { messages });
+    }
+    if (maxNights && nights > maxNights) {
+      return getMessage("calendar.maxNights", { count: maxNights }, { messages });
+    }
+    if (isDateUnavailable) {
+      const step = date < start ? -1 : 1;
+      for (let i = 1; i < nights; i++) {
+        if (getPredicateReason(addDays(start, i * step))) {
+          return getMessage("calendar.rangeUnavailable", undefined, { messages });
+        }
+      }
+    }
+    return null;
+  }
+
   function isDateSelectable(date: Date): boolean {
     if (disabled || readOnly) return false;
     if (minDate && isDateBefore(date, minDate)) return false;
     if (maxDate && isDateAfter(date, maxDate)) return false;
-    return true;
+    return getUnavailableReason(date) === null;
+  }
+
+  function isInPreviewRange(date: Date): boolean {
+    const { hoveredDate, isSelectingRange, selectedRange } = state;
+    if (mode !== "range" || !isSelectingRange || !selectedRange.start || !hoveredDate) {
+      return false;
+    }
+    if (!isDateSelectable(hoveredDate)) return false;
+
+    const [from, to] =
+      hoveredDate < selectedRange.start
+        ? [hoveredDate, selectedRange.start]
+        : [selectedRange.start, hoveredDate];
+    const day = startOfDay(date);
+    return day >= startOfDay(from) && day <= startOfDay(to);
   }
 
   function isInRange(date: Date): boolean {
@@ -413,6 +594,7 @@ export function createDatePickerBehavior(
         state = {
           ...state,
           selectedRange: range,
+          hoveredDate: null,
           isSelectingRange: false,
         };
         onRangeChange?.(range);
@@ -421,13 +603,43 @@ export function createDatePickerBehavior(
     }
   }
 
+  function setValue(date: Date | null): void {
+    state = {
+      ...state,
+      selectedDate: date,
+      focusedDate: date ?? state.focusedDate,
+      viewingMonth: date ? startOfMonth(date) : state.viewingMonth,
+    };
+  }
+
+  function selectRange(range: DateRange): void {
+    if (disabled || readOnly || mode !== "range") return;
+
+    state = {
+      ...state,
+      selectedRange: range,
+      hoveredDate: null,
+      isSelectingRange: false,
+      viewingMonth: range.start ?? state.viewingMonth,
+    };
+    onRangeChange?.(range);
+    close();
+  }
+
+  function hoverDate(date: Date | null): void {
+    state = { ...state, hoveredDate: date };
+  }
+
   function focusDate(date: Date): void {
     state = { ...state, focusedDate: date };
     onFocusedDateChange?.(date);
 
-    // Update viewing month if focused date is in different month
-    if (!isSameMonth(date, state.viewingMonth)) {
+    // Scroll the visible months only when the focused date leaves them
+    const first = startOfMonth(state.viewingMonth);
+    if (date < first) {
       state = { ...state, viewingMonth: date };
+    } else if (date >= addMonths(first, numberOfMonths)) {
+      state = { ...state, viewingMonth: addMonths(startOfMonth(date), 1 - numberOfMonths) };
     }
   }
 
@@ -480,8 +692,59 @@ export function createDatePickerBehavior(
     focusDate(endOfWeek(state.focusedDate, firstDayOfWeek));
   }
 
-  function getMonthDaysForView(): Date[] {
-    return getMonthDays(state.viewingMonth, firstDayOfWeek);
+  function handleCalendarKeyDown(event: KeyboardEvent): boolean {
+    if (disabled) return false;
+
+    const target = event.currentTarget instanceof Element ? event.currentTarget : null;
+    const { focusedDate } = state;
+
+    switch (mirrorArrowKey(event.key, getDirection(target))) {
+      case "ArrowLeft":
+        focusPreviousDay();
+        break;
+      case "ArrowRight":
+        focusNextDay();
+        break;
+      case "ArrowUp":
+        focusPreviousWeek();
+        break;
+      case "ArrowDown":
+        focusNextWeek();
+        break;
+      case "Home":
+        focusStartOfWeek();
+        break;
+      case "End":
+        focusEndOfWeek();
+        break;
+      case "PageUp":
+        focusDate(shiftMonths(focusedDate, event.shiftKey ? -12 : -1));
+        break;
+      case "PageDown":
+        focusDate(shiftMonths(focusedDate, event.shiftKey ? 12 : 1));
+        break;
+      case "Enter":
+      case " ":
+        selectDate(focusedDate);
+        break;
+      case "Escape":
+        close();
+        break;
+      default:
+        return false;
+    }
+
+    event.preventDefault();
+    return true;
+  }
+
+  function getVisibleMonths(): Date[] {
+    const first = startOfMonth(state.viewingMonth);
+    return Array.from({ length: numberOfMonths }, (_, i) => addMonths(first, i));
+  }
+
+  function getMonthDaysForView(month: Date = state.viewingMonth): Date[] {
+    return getMonthDays(month, firstDayOfWeek);
   }
 
   function getWeekdayNames(): string[] {
@@ -511,9 +774,9 @@ export function createDatePickerBehavior(
     return parsed;
   }
 
-  function getGridProps(): CalendarGridProps {
-    const monthName = monthFormatter.format(state.viewingMonth);
-    const year = state.viewingMonth.getFullYear();
+  function getGridProps(month: Date = state.viewingMonth): CalendarGridProps {
+    const monthName = monthFormatter.format(month);
+    const year = month.getFullYear();
     return {
       role: "grid",
       "aria-label": `${monthName} ${year}`,
@@ -551,6 +814,9 @@ export function createDatePickerBehavior(
     close,
     toggle,
     selectDate,
+    setValue,
+    selectRange,
+    hoverDate,
     focusDate,
     previousMonth,
     nextMonth,
@@ -564,10 +830,14 @@ export function createDatePickerBehavior(
     focusNextWeek,
     focusStartOfWeek,
     focusEndOfWeek,
+    handleCalendarKeyDown,
     isDateSelectable,
+    getUnavailableReason,
+    isInPreviewRange,
     isInRange,
     isRangeStart,
     isRangeEnd,
+    getVisibleMonths,
     getMonthDays: getMonthDaysForView,
     getWeekdayNames,
     getMonthNames,
@@ -1,8 +1,14 @@
 /**
  * FileUpload behavior primitive.
  * Manages file selection, validation, drag-and-drop, and upload state.
+ * With a transport it also uploads the files through an upload queue.
  */
 
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+import type { UploadTransport } from "../upload/transport.js";
+import { type UploadQueue, type UploadStatus, createUploadQueue } from "../upload/upload-queue.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -21,7 +27,7 @@ export interface FileInfo {
   /** Upload progress (0-100) */
   progress: number;
   /** Upload status */
-  status: "pending" | "uploading" | "success" | "error";
+  status: UploadStatus;
   /** Error message if status is error */
   error?: string;
   /** Preview URL (for images) */
@@ -53,8 +59,52 @@ export interface FileUploadBehaviorOptions {
   onError?: (error: FileUploadError) => void;
   /** Custom ID generator */
   generateId?: () => string;
+  /** Message overrides for error messages and the dropzone label */
+  messages?: Partial<Messages>;
+  /**
+   * Uploads added files through this transport. Without one, the caller
+   * reports progress and status with `updateProgress` and `updateStatus`.
+   */
+  transport?: UploadTransport;
+  /** Start uploading as soon as files are added (default: true) */
+  autoUpload?: boolean;
+  /** Maximum simultaneous uploads (default: 3) */
+  concurrency?: number;
+  /** Automatic retries after a failed upload attempt (default: 3) */
+  retries?: number;
+  /** Delay in ms before the first retry, doubled for each retry (default: 1000) */
+  retryDelay?: number;
+  /** Called when a file's upload progress or status changes */
+  onFileUpdate?: (file: FileInfo) => void;
+  /** Called with the server response when a file finishes uploading */
+  onUploadSuccess?: (file: FileInfo, response: unknown) => void;
+  /** Called when a file's upload fails after all retries */
+  onUploadError?: (file: FileInfo, error: unknown) => void;
+  /**
+   * Files to start with, e.g. kept by an element that was moved in the
+   * document. Uploads that were in progress are queued again.
+   */
+  files?: FileInfo[];
 }
 
+/** Behavior options that can change after creation */
+export type FileUploadBehaviorSettings = Pick<
+  FileUploadBehaviorOptions,
+  | "accept"
+  | "maxFiles"
+  | "maxSize"
+  | "minSize"
+  | "multiple"
+  | "dragDrop"
+  | "disabled"
+  | "messages"
+  | "transport"
+  | "autoUpload"
+  | "concurrency"
+  | "retries"
+  | "retryDelay"
+>;
+
 export interface FileUploadError {
   type: "too-many-files" | "file-too-large" | "file-too-small" | "invalid-type";
   message: string;
@@ -107,6 +157,15 @@ export interface FileUploadBehavior {
   /** Update file status */
   updateStatus(id: string, status: FileInfo["status"], error?: string): void;
 
+  /** Upload pending files through the transport, or one file by ID */
+  upload(id?: string): void;
+
+  /** Cancel a file's upload */
+  cancelUpload(id: string): void;
+
+  /** Upload a failed or canceled file again */
+  retryUpload(id: string): void;
+
   /** Handle drag enter */
   handleDragEnter(event: DragEvent): void;
 
@@ -131,6 +190,12 @@ export interface FileUploadBehavior {
   /** Get hidden input props */
   getInputProps(): FileUploadInputProps;
 
+  /**
+   * Update options in place. Files and running uploads are kept; a new
+   * transport is used for uploads that start afterwards.
+   */
+  setOptions(options: FileUploadBehaviorSettings): void;
+
   /** Cleanup */
   destroy(): void;
 }
@@ -202,6 +267,17 @@ export function createFileUploadBehavior(
   options: FileUploadBehaviorOptions = {}
 ): FileUploadBehavior {
   const {
+    onFilesAdd,
+    onFileRemove,
+    onFilesChange,
+    onError,
+    generateId = defaultGenerateId,
+    onFileUpdate,
+    onUploadSuccess,
+    onUploadError,
+    files: initialFiles = [],
+  } = options;
+  let {
     accept = "",
     maxFiles = Number.POSITIVE_INFINITY,
     maxSize = null,
@@ -209,16 +285,19 @@ export function createFileUploadBehavior(
     multiple = false,
     dragDrop = true,
     disabled = false,
-    onFilesAdd,
-    onFileRemove,
-    onFilesChange,
-    onError,
-    generateId = defaultGenerateId,
+    messages,
+    transport,
+    autoUpload = true,
+    concurrency,
+    retries,
+    retryDelay,
   } = options;
 
   // Internal state
   let state: FileUploadBehaviorState = {
-    files: [],
+    files: initialFiles.map((file) =>
+      file.status === "uploading" ? { ...file, status: "pending", progress: 0 } : file
+    ),
     isDragging: false,
     disabled,
     multiple,
@@ -231,13 +310,49 @@ export function createFileUploadBehavior(
   // Track drag counter for nested elements
   let dragCounter = 0;
 
+  // Created with the first transport and kept, so uploads survive option changes
+  let queue: UploadQueue | null = null;
+
+  function createQueue(uploadTransport: UploadTransport): UploadQueue {
+    return createUploadQueue({
+      transport: uploadTransport,
+      concurrency,
+      retries,
+      retryDelay,
+      onProgress: (id, progress) => updateProgress(id, progress),
+      onStatusChange: (id, status, error) => {
+        updateStatus(
+          id,
+          status,
+          status === "error" ? getMessage("fileUpload.uploadFailed", {}, { messages }) : undefined
+        );
+        const file = state.files.find((f) => f.id === id);
+        if (file && status === "error") onUploadError?.(file, error);
+      },
+      onSuccess: (id, response) => {
+        const file = state.files.find((f) => f.id === id);
+        if (file) onUploadSuccess?.(file, response);
+      },
+    });
+  }
+
+  if (transport) {
+    queue = createQueue(transport);
+    // Restart interrupted uploads, and start pending ones when uploading automatically
+    for (const file of initialFiles) {
+      if (file.status === "uploading" || (autoUpload && file.status === "pending")) {
+        queue.add(file.id, file.file);
+      }
+    }
+  }
+
   // Helpers
   function validateFile(file: File): FileUploadError | null {
     // Check file type
     if (accept && !matchesAccept(file, accept)) {
       return {
         type: "invalid-type",
-        message: `File type "${file.type || "unknown"}" is not accepted`,
+        message: getMessage("fileUpload.invalidType", { type: file.type || "none" }, { messages }),
         file,
       };
     }
@@ -246,7 +361,11 @@ export function createFileUploadBehavior(
     if (maxSize !== null && file.size > maxSize) {
       return {
         type: "file-too-large",
-        message: `File size (${formatBytes(file.size)}) exceeds maximum (${formatBytes(maxSize)})`,
+        message: getMessage(
+          "fileUpload.fileTooLarge",
+          { size: formatBytes(file.size), max: formatBytes(maxSize) },
+          { messages }
+        ),
         file,
       };
     }
@@ -255,7 +374,11 @@ export function createFileUploadBehavior(
     if (minSize !== null && file.size < minSize) {
       return {
         type: "file-too-small",
-        message: `File size (${formatBytes(file.size)}) is below minimum (${formatBytes(minSize)})`,
+        message: getMessage(
+          "fileUpload.fileTooSmall",
+          { size: formatBytes(file.size), min: formatBytes(minSize) },
+          { messages }
+        ),
         file,
       };
     }
@@ -293,7 +416,7 @@ export function createFileUploadBehavior(
     if (availableSlots <= 0) {
       onError?.({
         type: "too-many-files",
-        message: `Maximum of ${maxFiles} files allowed`,
+        message: getMessage("fileUpload.tooManyFiles", { max: maxFiles }, { messages }),
       });
       return;
     }
@@ -316,9 +439,10 @@ export function createFileUploadBehavior(
 
     // In single mode, replace existing file
     if (!multiple) {
-      // Revoke old preview URLs
+      // Revoke old preview URLs and stop replaced uploads
       for (const f of state.files) {
         if (f.preview) URL.revokeObjectURL(f.preview);
+        queue?.remove(f.id);
       }
       state = { ...state, files: validFiles };
     } else {
@@ -327,6 +451,12 @@ export function createFileUploadBehavior(
 
     onFilesAdd?.(validFiles);
     onFilesChange?.(state.files);
+
+    if (queue && transport && autoUpload) {
+      for (const file of validFiles) {
+        queue.add(file.id, file.file);
+      }
+    }
   }
 
   function removeFile(id: string): void {
@@ -337,6 +467,7 @@ export function createFileUploadBehavior(
     if (file.preview) {
       URL.revokeObjectURL(file.preview);
     }
+    queue?.remove(id);
 
     state = {
       ...state,
@@ -351,6 +482,7 @@ export function createFileUploadBehavior(
     // Revoke all preview URLs
     for (const file of state.files) {
       if (file.preview) URL.revokeObjectURL(file.preview);
+      queue?.remove(file.id);
     }
 
     state = { ...state, files: [] };
@@ -369,6 +501,7 @@ export function createFileUploadBehavior(
     } as FileInfo;
 
     state = { ...state, files: updatedFiles };
+    onFileUpdate?.(updatedFiles[fileIndex] as FileInfo);
   }
 
   function updateStatus(id: string, status: FileInfo["status"], error?: string): void {
@@ -387,6 +520,33 @@ export function createFileUploadBehavior(
     } as FileInfo;
 
     state = { ...state, files: updatedFiles };
+    onFileUpdate?.(updatedFiles[fileIndex] as FileInfo);
+  }
+
+  function upload(id?: string): void {
+    if (!queue || !transport) return;
+    for (const file of state.files) {
+      if ((id === undefined || file.id === id) && file.status === "pending") {
+        queue.add(file.id, file.file);
+      }
+    }
+  }
+
+  function cancelUpload(id: string): void {
+    queue?.cancel(id);
+  }
+
+  function retryUpload(id: string): void {
+    if (!queue || !transport) return;
+    if (queue.getStatus(id)) {
+      queue.retry(id);
+      return;
+    }
+    // Not queued yet, or failed before the element was moved
+    const file = state.files.find((f) => f.id === id);
+    if (file && file.status !== "uploading" && file.status !== "success") {
+      queue.add(file.id, file.file);
+    }
   }
 
   function handleDragEnter(event: DragEvent): void {
@@ -451,9 +611,7 @@ export function createFileUploadBehavior(
     const props: FileUploadDropzoneProps = {
       role: "button",
       tabIndex: state.disabled ? -1 : 0,
-      "aria-label": multiple
-        ? "Drop files here or click to upload"
-        : "Drop file here or click to upload",
+      "aria-label": getMessage("fileUpload.dropzone", { multiple }, { messages }),
     };
 
     if (state.disabled) {
@@ -477,7 +635,34 @@ export function createFileUploadBehavior(
     return props;
   }
 
+  function setOptions(newOptions: FileUploadBehaviorSettings): void {
+    if (newOptions.accept !== undefined) accept = newOptions.accept;
+    if (newOptions.maxFiles !== undefined) maxFiles = newOptions.maxFiles;
+    // An unset size removes the limit
+    if ("maxSize" in newOptions) maxSize = newOptions.maxSize ?? null;
+    if ("minSize" in newOptions) minSize = newOptions.minSize ?? null;
+    if (newOptions.multiple !== undefined) multiple = newOptions.multiple;
+    if (newOptions.dragDrop !== undefined) dragDrop = newOptions.dragDrop;
+    if (newOptions.disabled !== undefined) disabled = newOptions.disabled;
+    if ("messages" in newOptions) messages = newOptions.messages;
+    if (newOptions.autoUpload !== undefined) autoUpload = newOptions.autoUpload;
+    if (newOptions.concurrency !== undefined) concurrency = newOptions.concurrency;
+    if (newOptions.retries !== undefined) retries = newOptions.retries;
+    if (newOptions.retryDelay !== undefined) retryDelay = newOptions.retryDelay;
+    if ("transport" in newOptions) transport = newOptions.transport;
+
+    if (transport && !queue) {
+      queue = createQueue(transport);
+    } else {
+      queue?.setOptions({ transport, concurrency, retries, retryDelay });
+    }
+
+    state = { ...state, disabled, multiple, accept, maxFiles, maxSize, minSize };
+  }
+
   function destroy(): void {
+    queue?.destroy();
+
     // Revoke all preview URLs
     for (const file of state.files) {
       if (file.preview) URL.revokeObjectURL(file.preview);
@@ -493,6 +678,9 @@ export function createFileUploadBehavior(
     clearFiles,
     updateProgress,
     updateStatus,
+    upload,
+    cancelUpload,
+    retryUpload,
     handleDragEnter,
     handleDragLeave,
     handleDragOver,
@@ -501,6 +689,7 @@ export function createFileUploadBehavior(
     validateFile,
     getDropzoneProps,
     getInputProps,
+    setOptions,
     destroy,
   };
 }
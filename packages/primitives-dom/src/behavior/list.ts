@@ -5,6 +5,9 @@
  * following the WAI-ARIA Listbox pattern.
  */
 
+import { getDirection, mirrorArrowKey } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+
 export type ListSelectionMode = "single" | "multiple" | "none";
 export type ListOrientation = "vertical" | "horizontal";
 
@@ -21,6 +24,12 @@ export interface ListBehaviorOptions {
    */
   orientation?: ListOrientation;
 
+  /**
+   * Text direction; ArrowLeft and ArrowRight swap in `"rtl"`.
+   * Resolved from the event target's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
+
   /**
    * Enable typeahead navigation.
    * @default true
@@ -125,6 +134,7 @@ export function createListBehavior(options: ListBehaviorOptions = {}): ListBehav
   const {
     selectionMode = "single",
     orientation = "vertical",
+    dir,
     typeahead = true,
     typeaheadTimeout = 500,
     onSelectionChange,
@@ -156,7 +166,7 @@ export function createListBehavior(options: ListBehaviorOptions = {}): ListBehav
     const prevKey = orientation === "vertical" ? "ArrowUp" : "ArrowLeft";
     const nextKey = orientation === "vertical" ? "ArrowDown" : "ArrowRight";
 
-    switch (event.key) {
+    switch (mirrorArrowKey(event.key, dir ?? getDirection(event.target as Element | null))) {
       case prevKey: {
         event.preventDefault();
         const prevIndex = currentIndex > 0 ? currentIndex - 1 : itemIds.length - 1;
@@ -3,20 +3,30 @@
  * Provides state management, ARIA computation, roving focus, type-ahead, and keyboard handling for menus.
  *
  * Uses createOverlayBehavior internally for open/close state and dismissal handling.
+ * Submenus nested in a menu use createSubmenuBehavior.
  */
 
+import { getDirection, mirrorArrowKey } from "../direction/direction.js";
 import { type RovingFocus, createRovingFocus } from "../keyboard/roving-focus.js";
 import { type TypeAhead, createTypeAhead } from "../keyboard/type-ahead.js";
-import type { DismissReason } from "../layer/dismissable-layer.js";
 import {
-  type OverlayBehavior,
-  createOverlayBehavior,
-} from "../overlay/create-overlay-behavior.js";
+  type DismissReason,
+  type DismissableLayer,
+  createDismissableLayer,
+} from "../layer/dismissable-layer.js";
+import { type OverlayBehavior, createOverlayBehavior } from "../overlay/create-overlay-behavior.js";
 import {
   type AnchorPosition,
   type Placement,
   createAnchorPosition,
 } from "../positioning/anchor-position.js";
+import {
+  type Point,
+  type Triangle,
+  getSafeTriangle,
+  isPointInTriangle,
+} from "../positioning/safe-triangle.js";
+import type { TextDirection } from "../types.js";
 
 // =============================================================================
 // Types
@@ -27,6 +37,8 @@ export interface MenuBehaviorOptions {
   defaultOpen?: boolean;
   /** Placement relative to trigger */
   placement?: Placement;
+  /** Text direction for logical placements (resolved from the trigger's `dir` when not set) */
+  dir?: TextDirection;
   /** Offset from trigger in pixels */
   offset?: number;
   /** Whether to flip placement on viewport edge */
@@ -123,6 +135,82 @@ export interface MenuBehavior {
   destroy(): void;
 }
 
+export interface SubmenuBehaviorOptions {
+  /**
+   * Placement relative to the sub-trigger, flipped to the opposite side when
+   * it doesn't fit. The default `"end-start"` opens on the right in LTR and
+   * on the left in RTL.
+   */
+  placement?: Placement;
+  /**
+   * Text direction; the keys that open and close the submenu swap in
+   * `"rtl"`. Resolved from the sub-trigger's `dir` when not set.
+   */
+  dir?: TextDirection;
+  /** Offset from the sub-trigger in pixels */
+  offset?: number;
+  /** Whether to flip placement on viewport edge */
+  flip?: boolean;
+  /** Whether to loop navigation at ends */
+  loop?: boolean;
+  /** Selector of the submenu items */
+  itemSelector?: string;
+  /** Delay in milliseconds before hovering the sub-trigger opens the submenu */
+  openDelay?: number;
+  /** Time in milliseconds the pointer may take to cross the safe triangle into the submenu */
+  closeDelay?: number;
+  /** Callback when open state changes */
+  onOpenChange?: (open: boolean) => void;
+  /** Custom ID generator */
+  generateId?: () => string;
+}
+
+export interface SubmenuBehaviorState {
+  open: boolean;
+}
+
+export interface SubmenuBehaviorContext {
+  triggerId: string;
+  contentId: string;
+  triggerElement: HTMLElement | null;
+  contentElement: HTMLElement | null;
+}
+
+export interface SubmenuTriggerProps extends MenuTriggerProps {
+  role: "menuitem";
+}
+
+export interface SubmenuBehavior {
+  /** Current state */
+  readonly state: SubmenuBehaviorState;
+  /** Internal context */
+  readonly context: SubmenuBehaviorContext;
+  /** Open the submenu, focusing its first or last item, or leaving focus alone */
+  open(focus?: "first" | "last" | false): void;
+  /** Close the submenu, returning focus to the sub-trigger if it was inside */
+  close(): void;
+  /** Get props for the sub-trigger element */
+  getTriggerProps(): SubmenuTriggerProps;
+  /** Get props for the sub-content element */
+  getContentProps(): MenuContentProps;
+  /** Handle sub-trigger keyboard events (ArrowRight, Enter and Space open) */
+  handleTriggerKeyDown(event: KeyboardEvent): void;
+  /** Handle sub-trigger click */
+  handleTriggerClick(): void;
+  /** Handle pointer entering the sub-trigger (opens after `openDelay`) */
+  handleTriggerPointerEnter(): void;
+  /** Handle pointer leaving the sub-trigger (starts the safe triangle) */
+  handleTriggerPointerLeave(event: PointerEvent): void;
+  /** Handle sub-content keyboard events (ArrowLeft closes) */
+  handleContentKeyDown(event: KeyboardEvent): void;
+  /** Set sub-trigger element reference */
+  setTriggerElement(element: HTMLElement | null): void;
+  /** Set sub-content element and activate positioning/focus */
+  setContentElement(element: HTMLElement | null): void;
+  /** Cleanup resources */
+  destroy(): void;
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -133,6 +221,15 @@ function defaultGenerateId(): string {
   return `menu-${++idCounter}`;
 }
 
+const ITEM_SELECTOR = '[role="menuitem"]:not([aria-disabled="true"])';
+
+/**
+ * Whether an item belongs to the menu itself rather than a submenu nested in it.
+ */
+function isOwnItem(menu: HTMLElement, item: HTMLElement): boolean {
+  return item.closest('[role="menu"]') === menu;
+}
+
 /**
  * Creates a menu behavior primitive.
  *
@@ -161,6 +258,7 @@ export function createMenuBehavior(options: MenuBehaviorOptions = {}): MenuBehav
   const {
     defaultOpen = false,
     placement = "bottom-start",
+    dir,
     offset = 4,
     flip = true,
     loop = true,
@@ -354,9 +452,10 @@ export function createMenuBehavior(options: MenuBehaviorOptions = {}): MenuBehav
       // Create roving focus
       rovingFocus = createRovingFocus({
         container: element,
-        selector: '[role="menuitem"]:not([aria-disabled="true"])',
+        selector: ITEM_SELECTOR,
         direction: "vertical",
         loop,
+        filter: (item) => isOwnItem(element, item),
         onFocus: (_element: HTMLElement, index: number) => {
           send({ type: "FOCUS_ITEM", index });
         },
@@ -378,6 +477,7 @@ export function createMenuBehavior(options: MenuBehaviorOptions = {}): MenuBehav
           anchor: context.triggerElement,
           floating: element,
           placement,
+          dir,
           offset,
           flip,
         });
@@ -455,3 +555,315 @@ export function createMenuBehavior(options: MenuBehaviorOptions = {}): MenuBehav
     destroy,
   };
 }
+
+/**
+ * Creates a submenu behavior primitive for a sub-trigger item and the
+ * submenu it opens, nested inside a menu.
+ *
+ * The submenu opens with ArrowRight, Enter, Space, click, or after hovering
+ * the sub-trigger for `openDelay`, and closes with ArrowLeft or Escape,
+ * returning focus to the sub-trigger. ArrowLeft and ArrowRight swap in RTL.
+ * When the pointer leaves the sub-trigger, moving inside the safe triangle
+ * towards the submenu keeps it open; moving over any other item of the
+ * parent menu closes it.
+ *
+ * Escape and outside clicks are handled by a nested dismissable layer, so
+ * Escape closes one level at a time while an outside click closes them all.
+ *
+ * @example
+ * ```ts
+ * const submenu = createSubmenuBehavior({
+ *   onOpenChange: (open) => (subContent.hidden = !open),
+ * });
+ *
+ * submenu.setTriggerElement(subTrigger);
+ * subTrigger.addEventListener("keydown", submenu.handleTriggerKeyDown);
+ * subTrigger.addEventListener("pointerenter", submenu.handleTriggerPointerEnter);
+ * subTrigger.addEventListener("pointerleave", submenu.handleTriggerPointerLeave);
+ * subContent.addEventListener("keydown", submenu.handleContentKeyDown);
+ *
+ * // When open and shown, set content element
+ * submenu.setContentElement(subContent);
+ * ```
+ */
+export function createSubmenuBehavior(options: SubmenuBehaviorOptions = {}): SubmenuBehavior {
+  const {
+    placement = "end-start",
+    dir,
+    offset = 0,
+    flip = true,
+    loop = true,
+    itemSelector = ITEM_SELECTOR,
+    openDelay = 100,
+    closeDelay = 300,
+    onOpenChange,
+    generateId = () => `submenu-${++idCounter}`,
+  } = options;
+
+  const baseId = generateId();
+  const context: SubmenuBehaviorContext = {
+    triggerId: `${baseId}-trigger`,
+    contentId: `${baseId}-content`,
+    triggerElement: null,
+    contentElement: null,
+  };
+
+  let isOpen = false;
+  let pendingFocus: "first" | "last" | false = false;
+  let openTimer: ReturnType<typeof setTimeout> | undefined;
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+  let graceArea: Triangle | null = null;
+
+  let rovingFocus: RovingFocus | null = null;
+  let typeAhead: TypeAhead | null = null;
+  let anchorPosition: AnchorPosition | null = null;
+  let dismissLayer: DismissableLayer | null = null;
+
+  function getItems(): HTMLElement[] {
+    const content = context.contentElement;
+    if (!content) return [];
+    return Array.from(content.querySelectorAll<HTMLElement>(itemSelector)).filter((item) =>
+      isOwnItem(content, item)
+    );
+  }
+
+  function focusItem(which: "first" | "last"): void {
+    const items = getItems();
+    const index = which === "first" ? 0 : items.length - 1;
+    if (items[index]) rovingFocus?.setFocusedIndex(index);
+  }
+
+  function clearTimers(): void {
+    clearTimeout(openTimer);
+    clearTimeout(graceTimer);
+    openTimer = undefined;
+    graceTimer = undefined;
+    graceArea = null;
+  }
+
+  function cleanupUtilities(): void {
+    rovingFocus?.destroy();
+    typeAhead?.reset();
+    anchorPosition?.destroy();
+    dismissLayer?.deactivate();
+    rovingFocus = null;
+    typeAhead = null;
+    anchorPosition = null;
+    dismissLayer = null;
+  }
+
+  function open(focus: "first" | "last" | false = "first"): void {
+    clearTimers();
+
+    if (isOpen) {
+      if (focus) focusItem(focus);
+      return;
+    }
+
+    isOpen = true;
+    pendingFocus = focus;
+    document.addEventListener("pointermove", handleDocumentPointerMove);
+    onOpenChange?.(true);
+  }
+
+  function close(): void {
+    clearTimers();
+    if (!isOpen) return;
+
+    isOpen = false;
+    pendingFocus = false;
+    document.removeEventListener("pointermove", handleDocumentPointerMove);
+
+    // Don't leave focus behind in the hidden submenu
+    if (context.contentElement?.contains(document.activeElement)) {
+      context.triggerElement?.focus();
+    }
+
+    onOpenChange?.(false);
+  }
+
+  /**
+   * Closes the submenu once the pointer moves over the parent menu outside
+   * the sub-trigger and the safe triangle. Leaving the menu altogether keeps
+   * it open.
+   */
+  function handleDocumentPointerMove(event: PointerEvent): void {
+    const { triggerElement, contentElement } = context;
+    const target = event.target as Node | null;
+    if (!triggerElement || !target) return;
+
+    if (triggerElement.contains(target) || contentElement?.contains(target)) {
+      clearTimeout(graceTimer);
+      graceArea = null;
+      return;
+    }
+
+    const point: Point = { x: event.clientX, y: event.clientY };
+    if (graceArea && isPointInTriangle(point, graceArea)) return;
+
+    const parentMenu = triggerElement.parentElement?.closest('[role="menu"]');
+    if (parentMenu?.contains(target)) close();
+  }
+
+  function getTriggerProps(): SubmenuTriggerProps {
+    return {
+      id: context.triggerId,
+      role: "menuitem",
+      "aria-haspopup": "menu",
+      "aria-expanded": isOpen ? "true" : "false",
+      "aria-controls": context.contentId,
+    };
+  }
+
+  function getContentProps(): MenuContentProps {
+    return {
+      id: context.contentId,
+      role: "menu",
+      "aria-labelledby": context.triggerId,
+      "aria-orientation": "vertical",
+      tabIndex: -1,
+    };
+  }
+
+  function getKey(event: KeyboardEvent): string {
+    return mirrorArrowKey(event.key, dir ?? getDirection(context.triggerElement));
+  }
+
+  function handleTriggerKeyDown(event: KeyboardEvent): void {
+    switch (getKey(event)) {
+      case "ArrowRight":
+      case "Enter":
+      case " ":
+        event.preventDefault();
+        event.stopPropagation();
+        open("first");
+        break;
+    }
+  }
+
+  function handleTriggerClick(): void {
+    open(false);
+  }
+
+  function handleTriggerPointerEnter(): void {
+    clearTimers();
+    if (isOpen) return;
+
+    openTimer = setTimeout(() => open(false), openDelay);
+  }
+
+  function handleTriggerPointerLeave(event: PointerEvent): void {
+    clearTimeout(openTimer);
+    openTimer = undefined;
+
+    const content = context.contentElement;
+    if (!isOpen || !content) return;
+
+    graceArea = getSafeTriangle(
+      { x: event.clientX, y: event.clientY },
+      content.getBoundingClientRect()
+    );
+    clearTimeout(graceTimer);
+    graceTimer = setTimeout(() => {
+      graceArea = null;
+    }, closeDelay);
+  }
+
+  function handleContentKeyDown(event: KeyboardEvent): void {
+    // Tab bubbles up so the whole menu can handle it
+    if (event.key === "Tab") return;
+
+    // Keep the parent menu's roving focus and type-ahead out of the submenu
+    event.stopPropagation();
+
+    if (getKey(event) === "ArrowLeft") {
+      event.preventDefault();
+      close();
+      return;
+    }
+
+    typeAhead?.handleKeyDown(event);
+  }
+
+  function setTriggerElement(element: HTMLElement | null): void {
+    context.triggerElement = element;
+  }
+
+  function setContentElement(element: HTMLElement | null): void {
+    cleanupUtilities();
+    context.contentElement = element;
+
+    if (!element || !isOpen) return;
+
+    rovingFocus = createRovingFocus({
+      container: element,
+      selector: itemSelector,
+      direction: "vertical",
+      loop,
+      filter: (item) => isOwnItem(element, item),
+    });
+
+    typeAhead = createTypeAhead({
+      items: getItems,
+      getText: (item: HTMLElement) => item.textContent?.trim() ?? "",
+      onMatch: (_item: HTMLElement, index: number) => {
+        rovingFocus?.setFocusedIndex(index);
+      },
+    });
+
+    dismissLayer = createDismissableLayer({
+      container: element,
+      excludeElements: context.triggerElement ? [context.triggerElement] : [],
+      nested: true,
+      onDismiss: close,
+    });
+    dismissLayer.activate();
+
+    if (context.triggerElement) {
+      anchorPosition = createAnchorPosition({
+        anchor: context.triggerElement,
+        floating: element,
+        placement,
+        dir,
+        offset,
+        flip,
+        padding: 8,
+        autoUpdate: true,
+      });
+      anchorPosition.update();
+    }
+
+    if (pendingFocus) {
+      focusItem(pendingFocus);
+      pendingFocus = false;
+    }
+  }
+
+  function destroy(): void {
+    clearTimers();
+    cleanupUtilities();
+    document.removeEventListener("pointermove", handleDocumentPointerMove);
+    isOpen = false;
+  }
+
+  return {
+    get state(): SubmenuBehaviorState {
+      return { open: isOpen };
+    },
+    get context() {
+      return context;
+    },
+    open,
+    close,
+    getTriggerProps,
+    getContentProps,
+    handleTriggerKeyDown,
+    handleTriggerClick,
+    handleTriggerPointerEnter,
+    handleTriggerPointerLeave,
+    handleContentKeyDown,
+    setTriggerElement,
+    setContentElement,
+    destroy,
+  };
+}
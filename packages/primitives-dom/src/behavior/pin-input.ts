@@ -3,6 +3,9 @@
  * Manages PIN/OTP input focus auto-advance, paste handling, backspace navigation, and ARIA state.
  */
 
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -22,6 +25,8 @@ export interface PinInputBehaviorOptions {
   disabled?: boolean;
   /** Custom ID generator */
   generateId?: () => string;
+  /** Message overrides for the field labels */
+  messages?: Partial<Messages>;
 }
 
 export interface PinInputBehaviorState {
@@ -126,6 +131,7 @@ export function createPinInputBehavior(options: PinInputBehaviorOptions = {}): P
     alphanumeric = false,
     disabled = false,
     generateId = defaultGenerateId,
+    messages,
   } = options;
 
   // Generate stable IDs
@@ -288,7 +294,7 @@ export function createPinInputBehavior(options: PinInputBehaviorOptions = {}): P
   function getContainerProps(): PinInputContainerProps {
     return {
       role: "group",
-      "aria-label": `PIN input with ${length} digits`,
+      "aria-label": getMessage("pinInput.label", { length }, { messages }),
     };
   }
 
@@ -298,7 +304,7 @@ export function createPinInputBehavior(options: PinInputBehaviorOptions = {}): P
       inputMode: alphanumeric ? "text" : "numeric",
       maxLength: 1,
       autoComplete: "one-time-code",
-      "aria-label": `Digit ${index + 1} of ${length}`,
+      "aria-label": getMessage("pinInput.digit", { index: index + 1, length }, { messages }),
       tabIndex: state.disabled ? -1 : 0,
     };
   }
@@ -3,6 +3,9 @@
  * Manages slider thumb dragging, keyboard control, range constraints, and ARIA state.
  */
 
+import { getDirection } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -30,6 +33,11 @@ export interface SliderBehaviorOptions {
   range?: boolean;
   /** Orientation */
   orientation?: "horizontal" | "vertical";
+  /**
+   * Text direction; a horizontal slider runs from right to left in `"rtl"`.
+   * Resolved from the track element's `dir` when not set.
+   */
+  dir?: TextDirection;
   /** Disabled state */
   disabled?: boolean;
   /** Custom ID generator */
@@ -178,6 +186,7 @@ export function createSliderBehavior(options: SliderBehaviorOptions = {}): Slide
     largeStep = step * 10,
     range = false,
     orientation = "horizontal",
+    dir,
     disabled = false,
     generateId = defaultGenerateId,
   } = options;
@@ -253,8 +262,8 @@ export function createSliderBehavior(options: SliderBehaviorOptions = {}): Slide
     const rect = trackElement.getBoundingClientRect();
 
     if (state.orientation === "horizontal") {
-      const x = event.clientX - rect.left;
-      return clamp((x / rect.width) * 100, 0, 100);
+      const percent = clamp(((event.clientX - rect.left) / rect.width) * 100, 0, 100);
+      return (dir ?? getDirection(trackElement)) === "rtl" ? 100 - percent : percent;
     }
 
     // Vertical: top is max, bottom is min (inverted)
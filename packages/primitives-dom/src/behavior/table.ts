@@ -7,11 +7,33 @@
 
 export type SortDirection = "asc" | "desc" | "none";
 
+/**
+ * One key of a sort model.
+ */
+export interface SortDescriptor {
+  column: string;
+  direction: Exclude<SortDirection, "none">;
+}
+
+/**
+ * Ordered sort keys, primary key first.
+ */
+export type SortModel = SortDescriptor[];
+
 export interface SortState {
+  /** Primary sort column */
   column: string | null;
+  /** Primary sort direction */
   direction: SortDirection;
+  /** All sort keys in priority order */
+  model: SortModel;
 }
 
+/**
+ * Compare two cell values. Return a negative number when `a` sorts first.
+ */
+export type SortComparator = (a: unknown, b: unknown) => number;
+
 export interface SelectionState {
   selectedRows: Set<string>;
   mode: "single" | "multiple" | "none";
@@ -21,7 +43,18 @@ export interface TableBehaviorOptions {
   /**
    * Initial sort state.
    */
-  initialSort?: SortState;
+  initialSort?: Pick<SortState, "column" | "direction">;
+
+  /**
+   * Initial multi-column sort model. Takes precedence over `initialSort`.
+   */
+  initialSortModel?: SortModel;
+
+  /**
+   * Maximum number of sort keys kept by additive sorting.
+   * @default Infinity
+   */
+  maxSortKeys?: number;
 
   /**
    * Selection mode.
@@ -52,15 +85,32 @@ export interface TableBehavior {
   selectionState: SelectionState;
 
   /**
-   * Toggle sort on a column.
+   * Toggle sort on a column (asc -> desc -> none).
+   * With `additive`, the column is added to or cycled within the existing
+   * sort model instead of replacing it (e.g. Shift+click).
    */
-  toggleSort(column: string): void;
+  toggleSort(column: string, additive?: boolean): void;
 
   /**
-   * Set sort explicitly.
+   * Set sort explicitly, replacing the sort model with a single key.
    */
   setSort(column: string, direction: SortDirection): void;
 
+  /**
+   * Replace the whole sort model.
+   */
+  setSortModel(model: SortModel): void;
+
+  /**
+   * Get the 1-based priority of a column in the sort model (0 if unsorted).
+   */
+  getSortPriority(column: string): number;
+
+  /**
+   * Get the sort direction of a column.
+   */
+  getSortDirection(column: string): SortDirection;
+
   /**
    * Clear sorting.
    */
@@ -125,6 +175,10 @@ export interface TableBehavior {
  * // Toggle sort on name column
  * table.toggleSort("name");
  *
+ * // Shift+click: add age as a secondary key
+ * table.toggleSort("age", true);
+ * // table.sortState.model -> [{ column: "name", direction: "asc" }, { column: "age", direction: "asc" }]
+ *
  * // Toggle row selection
  * table.toggleRowSelection("row-1");
  * ```
@@ -132,13 +186,20 @@ export interface TableBehavior {
 export function createTableBehavior(options: TableBehaviorOptions = {}): TableBehavior {
   const {
     initialSort = { column: null, direction: "none" },
+    initialSortModel,
+    maxSortKeys = Number.POSITIVE_INFINITY,
     selectionMode = "none",
     onSortChange,
     onSelectionChange,
   } = options;
 
   // State
-  let sortState: SortState = { ...initialSort };
+  let sortState: SortState = toSortState(
+    initialSortModel ??
+      (initialSort.column && initialSort.direction !== "none"
+        ? [{ column: initialSort.column, direction: initialSort.direction }]
+        : [])
+  );
   const selectionState: SelectionState = {
     selectedRows: new Set(),
     mode: selectionMode,
@@ -152,33 +213,56 @@ export function createTableBehavior(options: TableBehaviorOptions = {}): TableBe
     onSelectionChange?.(selectionState.selectedRows);
   }
 
-  function toggleSort(column: string): void {
-    if (sortState.column === column) {
-      // Cycle through: asc -> desc -> none
-      if (sortState.direction === "asc") {
-        sortState = { column, direction: "desc" };
-      } else if (sortState.direction === "desc") {
-        sortState = { column: null, direction: "none" };
-      } else {
-        sortState = { column, direction: "asc" };
-      }
+  function toggleSort(column: string, additive = false): void {
+    const current = sortState.model.find((key) => key.column === column);
+
+    // Cycle through: asc -> desc -> none
+    let next: SortDescriptor | null = { column, direction: "asc" };
+    if (current?.direction === "asc") {
+      next = { column, direction: "desc" };
+    } else if (current?.direction === "desc") {
+      next = null;
+    }
+
+    let model: SortModel;
+    if (!additive) {
+      model = next ? [next] : [];
+    } else if (current) {
+      // Keep the column's priority while cycling its direction
+      model = sortState.model.flatMap((key) =>
+        key.column !== column ? [key] : next ? [next] : []
+      );
     } else {
-      // New column, start with asc
-      sortState = { column, direction: "asc" };
+      // Drop the oldest keys once the limit is reached
+      model = [...sortState.model, { column, direction: "asc" as const }].slice(-maxSortKeys);
     }
+    sortState = toSortState(model);
     notifySortChange();
   }
 
   function setSort(column: string, direction: SortDirection): void {
-    sortState = { column, direction };
+    sortState = toSortState(direction === "none" ? [] : [{ column, direction }]);
+    notifySortChange();
+  }
+
+  function setSortModel(model: SortModel): void {
+    sortState = toSortState(model.slice(0, maxSortKeys));
     notifySortChange();
   }
 
   function clearSort(): void {
-    sortState = { column: null, direction: "none" };
+    sortState = toSortState([]);
     notifySortChange();
   }
 
+  function getSortPriority(column: string): number {
+    return sortState.model.findIndex((key) => key.column === column) + 1;
+  }
+
+  function getSortDirection(column: string): SortDirection {
+    return sortState.model.find((key) => key.column === column)?.direction ?? "none";
+  }
+
   function toggleRowSelection(rowId: string): void {
     if (selectionState.mode === "none") return;
 
@@ -248,6 +332,9 @@ export function createTableBehavior(options: TableBehaviorOptions = {}): TableBe
     },
     toggleSort,
     setSort,
+    setSortModel,
+    getSortPriority,
+    getSortDirection,
     clearSort,
     toggleRowSelection,
     selectRow,
@@ -260,6 +347,108 @@ export function createTableBehavior(options: TableBehaviorOptions = {}): TableBe
   };
 }
 
+function toSortState(model: SortModel): SortState {
+  const primary = model[0];
+  return {
+    column: primary?.column ?? null,
+    direction: primary?.direction ?? "none",
+    model,
+  };
+}
+
+export interface SortDataOptions {
+  /**
+   * Custom comparators by column, used instead of the default comparison.
+   */
+  comparators?: Record<string, SortComparator>;
+
+  /**
+   * Locale(s) for string collation.
+   * @default the runtime's default locale
+   */
+  locale?: string | string[];
+
+  /**
+   * Options for string collation, e.g. `{ numeric: true, sensitivity: "base" }`.
+   */
+  collatorOptions?: Intl.CollatorOptions;
+}
+
+/**
+ * Default value comparison: strings by locale collation, dates by time,
+ * booleans and numbers numerically, anything else by its string form.
+ */
+function compareValues(a: unknown, b: unknown, collator: Intl.Collator): number {
+  if (typeof a === "string" && typeof b === "string") {
+    return collator.compare(a, b);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (
+    (typeof a === "number" || typeof a === "boolean") &&
+    (typeof b === "number" || typeof b === "boolean")
+  ) {
+    return Number(a) - Number(b);
+  }
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Sort data by a sort model (primary key first). Empty values sort last in
+ * ascending order and first in descending order.
+ *
+ * @example
+ * ```ts
+ * const sorted = sortDataByModel(
+ *   users,
+ *   [{ column: "lastName", direction: "asc" }, { column: "age", direction: "desc" }],
+ *   (user, column) => user[column],
+ *   { locale: "sv-SE", comparators: { status: compareStatus } }
+ * );
+ * ```
+ */
+export function sortDataByModel<T>(
+  data: T[],
+  model: SortModel,
+  getValue: (item: T, column: string) => unknown,
+  options: SortDataOptions = {}
+): T[] {
+  if (model.length === 0) {
+    return data;
+  }
+
+  const { comparators = {}, locale, collatorOptions } = options;
+  const collator = new Intl.Collator(locale, collatorOptions);
+
+  return [...data].sort((a, b) => {
+    for (const { column, direction } of model) {
+      const valueA = getValue(a, column);
+      const valueB = getValue(b, column);
+
+      let comparison: number;
+      // Handle null/undefined
+      if (valueA == null && valueB == null) {
+        comparison = 0;
+      } else if (valueA == null) {
+        return direction === "asc" ? 1 : -1;
+      } else if (valueB == null) {
+        return direction === "asc" ? -1 : 1;
+      } else {
+        const comparator = comparators[column];
+        comparison = comparator
+          ? comparator(valueA, valueB)
+          : compareValues(valueA, valueB, collator);
+      }
+
+      if (comparison !== 0) {
+        return direction === "asc" ? comparison : -comparison;
+      }
+    }
+    return 0;
+  });
+}
+
 /**
  * Sort data by a column.
  *
@@ -272,33 +461,12 @@ export function sortData<T>(
   data: T[],
   column: string | null,
   direction: SortDirection,
-  getValue: (item: T) => string | number | Date | null | undefined
+  getValue: (item: T) => string | number | Date | null | undefined,
+  options: SortDataOptions = {}
 ): T[] {
   if (!column || direction === "none") {
     return data;
   }
 
-  const sorted = [...data].sort((a, b) => {
-    const valueA = getValue(a);
-    const valueB = getValue(b);
-
-    // Handle null/undefined
-    if (valueA == null && valueB == null) return 0;
-    if (valueA == null) return direction === "asc" ? 1 : -1;
-    if (valueB == null) return direction === "asc" ? -1 : 1;
-
-    // Compare values
-    let comparison = 0;
-    if (typeof valueA === "string" && typeof valueB === "string") {
-      comparison = valueA.localeCompare(valueB);
-    } else if (valueA instanceof Date && valueB instanceof Date) {
-      comparison = valueA.getTime() - valueB.getTime();
-    } else {
-      comparison = (valueA as number) - (valueB as number);
-    }
-
-    return direction === "asc" ? comparison : -comparison;
-  });
-
-  return sorted;
+  return sortDataByModel(data, [{ column, direction }], (item) => getValue(item), options);
 }
@@ -5,6 +5,7 @@
  */
 
 import { type RovingFocus, createRovingFocus } from "../keyboard/roving-focus.js";
+import type { TextDirection } from "../types.js";
 
 // =============================================================================
 // Types
@@ -18,6 +19,8 @@ export interface TabsBehaviorOptions {
   defaultValue?: string;
   /** Tab orientation (affects arrow key navigation) */
   orientation?: TabsOrientation;
+  /** Text direction (resolved from the tab list's `dir` when not set) */
+  dir?: TextDirection;
   /** Activation mode: automatic selects on focus, manual requires Enter/Space */
   activationMode?: TabsActivationMode;
   /** Whether to loop navigation at ends */
@@ -141,6 +144,7 @@ export function createTabsBehavior(options: TabsBehaviorOptions = {}): TabsBehav
   const {
     defaultValue = "",
     orientation = "horizontal",
+    dir,
     activationMode = "automatic",
     loop = true,
     onValueChange,
@@ -330,6 +334,7 @@ export function createTabsBehavior(options: TabsBehaviorOptions = {}): TabsBehav
         container: element,
         selector: '[role="tab"]:not([aria-disabled="true"])',
         direction,
+        dir,
         loop,
         skipDisabled: true,
         onFocus: (focusedElement) => {
@@ -3,12 +3,20 @@
  * Manages time selection with segments (hours, minutes, seconds, period).
  */
 
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+
 // =============================================================================
 // Types
 // =============================================================================
 
 export type TimeSegment = "hour" | "minute" | "second" | "period";
 
+/**
+ * A piece of the picker layout: an editable segment or a literal separator.
+ */
+export type TimePickerPart = { type: TimeSegment } | { type: "literal"; value: string };
+
 export interface TimeValue {
   hour: number;
   minute: number;
@@ -16,11 +24,11 @@ export interface TimeValue {
 }
 
 export interface TimePickerBehaviorOptions {
-  /** Initial time value */
-  defaultValue?: TimeValue;
+  /** Initial time value; a Date is read as its wall-clock time in `timeZone` */
+  defaultValue?: TimeValue | Date;
   /** Called on value change */
   onValueChange?: (value: TimeValue) => void;
-  /** 12-hour or 24-hour format */
+  /** 12-hour or 24-hour format; defaults to the locale's hour cycle */
   hourFormat?: 12 | 24;
   /** Show seconds */
   showSeconds?: boolean;
@@ -34,8 +42,12 @@ export interface TimePickerBehaviorOptions {
   maxTime?: TimeValue;
   /** Disabled state */
   disabled?: boolean;
-  /** Locale for formatting */
+  /** Locale for the hour cycle, period labels and segment order */
   locale?: string;
+  /** IANA time zone the value is expressed in; defaults to the runtime's zone */
+  timeZone?: string;
+  /** Message overrides for the segment labels */
+  messages?: Partial<Messages>;
 }
 
 export interface TimePickerBehaviorState {
@@ -71,8 +83,11 @@ export interface TimePickerBehavior {
   /** Set segment value */
   setSegmentValue(segment: TimeSegment, value: number | string): void;
 
-  /** Set full time value */
-  setValue(value: TimeValue): void;
+  /** Set full time value; a Date is read as its wall-clock time in `timeZone` */
+  setValue(value: TimeValue | Date): void;
+
+  /** Get the instant for a time on the reference date's day in `timeZone` */
+  toDate(value?: TimeValue, reference?: Date): Date;
 
   /** Parse time from string */
   parseTime(input: string): TimeValue | null;
@@ -92,6 +107,12 @@ export interface TimePickerBehavior {
   /** Clear focus */
   blur(): void;
 
+  /** Get editable segments in locale order */
+  getSegments(): TimeSegment[];
+
+  /** Get segments and literal separators in locale order */
+  getParts(): TimePickerPart[];
+
   /** Get segment props */
   getSegmentProps(segment: TimeSegment): TimeSegmentProps;
 
@@ -109,6 +130,123 @@ export interface TimePickerBehavior {
 // Implementation
 // =============================================================================
 
+/**
+ * Reference time for reading the locale's layout: afternoon, so the day
+ * period differs from the morning sample, with distinct hour and minute.
+ */
+const LAYOUT_SAMPLE = new Date(2000, 0, 1, 21, 45, 30);
+
+/**
+ * Read the locale's preferred hour cycle.
+ */
+function getLocaleHourFormat(locale: string): 12 | 24 {
+  const { hourCycle, hour12 } = new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+  }).resolvedOptions();
+  if (hourCycle) return hourCycle === "h11" || hourCycle === "h12" ? 12 : 24;
+  return hour12 ? 12 : 24;
+}
+
+/**
+ * Read the locale's AM and PM labels from Intl.DateTimeFormat.
+ */
+function getLocalePeriodLabels(locale: string): Record<"AM" | "PM", string> {
+  const formatter = new Intl.DateTimeFormat(locale, { hour: "numeric", hourCycle: "h12" });
+  const label = (hour: number, fallback: string) =>
+    formatter.formatToParts(new Date(2000, 0, 1, hour)).find((part) => part.type === "dayPeriod")
+      ?.value ?? fallback;
+  return { AM: label(9, "AM"), PM: label(21, "PM") };
+}
+
+/**
+ * Read segment order and separators from Intl.DateTimeFormat.
+ */
+function getLocaleParts(
+  locale: string,
+  hourFormat: 12 | 24,
+  showSeconds: boolean
+): TimePickerPart[] {
+  const formatter = new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+    minute: "2-digit",
+    second: showSeconds ? "2-digit" : undefined,
+    hourCycle: hourFormat === 12 ? "h12" : "h23",
+  });
+
+  const parts: TimePickerPart[] = [];
+  for (const part of formatter.formatToParts(LAYOUT_SAMPLE)) {
+    if (part.type === "hour" || part.type === "minute" || part.type === "second") {
+      parts.push({ type: part.type });
+    } else if (part.type === "dayPeriod") {
+      parts.push({ type: "period" });
+    } else {
+      // Merge adjacent literals (e.g. bidi marks next to a separator)
+      const last = parts[parts.length - 1];
+      if (last?.type === "literal") {
+        last.value += part.value;
+      } else {
+        parts.push({ type: "literal", value: part.value });
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * Read the calendar date and wall-clock time of an instant in a time zone.
+ */
+export function getZonedParts(date: Date, timeZone: string | undefined) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+  return {
+    year: values.year ?? 0,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+    hour: values.hour ?? 0,
+    minute: values.minute ?? 0,
+    second: values.second ?? 0,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds.
+ */
+function getTimeZoneOffset(instant: number, timeZone: string | undefined): number {
+  const zoned = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant at which a time zone's wall clock reads `wallClock`, given as
+ * milliseconds as if the wall clock were UTC.
+ */
+export function getZonedInstant(wallClock: number, timeZone: string | undefined): Date {
+  // Correct by the zone offset, then again in case the first guess crossed a DST change
+  let instant = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  instant = wallClock - getTimeZoneOffset(instant, timeZone);
+  return new Date(instant);
+}
+
 /**
  * Convert 24h time to 12h time with period.
  */
@@ -136,16 +274,26 @@ function pad2(n: number): string {
   return n.toString().padStart(2, "0");
 }
 
+/**
+ * Strip case, spaces and dots so "p. m.", "PM" and "pm" compare equal.
+ */
+function normalizePeriodLabel(label: string, locale: string): string {
+  return label.toLocaleLowerCase(locale).replace(/[\s.]/g, "");
+}
+
 /**
  * Creates a time picker behavior primitive.
  *
  * @example
  * ```ts
  * const timePicker = createTimePickerBehavior({
- *   hourFormat: 12,
+ *   locale: "de-DE",
+ *   timeZone: "Europe/Berlin",
  *   showSeconds: false,
  *   onValueChange: (value) => console.log('Time:', value),
  * });
+ *
+ * timePicker.state.hourFormat; // 24
  * ```
  */
 export function createTimePickerBehavior(
@@ -154,20 +302,29 @@ export function createTimePickerBehavior(
   const {
     defaultValue = { hour: 0, minute: 0, second: 0 },
     onValueChange,
-    hourFormat = 12,
+    locale = "en-US",
+    timeZone,
+    hourFormat = getLocaleHourFormat(locale),
     showSeconds = false,
     minuteStep = 1,
     secondStep = 1,
     minTime,
     maxTime,
     disabled = false,
-    locale: _locale = "en-US",
+    messages,
   } = options;
 
-  // Internal state
-  const initialPeriod = to12Hour(defaultValue.hour).period;
+  const parts = getLocaleParts(locale, hourFormat, showSeconds);
+  const segmentOrder = parts.flatMap((part) => (part.type === "literal" ? [] : [part.type]));
+  const periodLabels = getLocalePeriodLabels(locale);
+
+  // Characters typed into the period segment so far
+  let typedPeriod = "";
+
+  const initialValue = toTimeValue(defaultValue);
+  const initialPeriod = to12Hour(initialValue.hour).period;
   let state: TimePickerBehaviorState = {
-    value: { ...defaultValue },
+    value: initialValue,
     focusedSegment: null,
     hourFormat,
     showSeconds,
@@ -175,15 +332,32 @@ export function createTimePickerBehavior(
     disabled,
   };
 
-  // Segment order for navigation
-  const getSegmentOrder = (): TimeSegment[] => {
-    const segments: TimeSegment[] = ["hour", "minute"];
-    if (showSeconds) segments.push("second");
-    if (hourFormat === 12) segments.push("period");
-    return segments;
-  };
-
   // Helpers
+  function toTimeValue(value: TimeValue | Date): TimeValue {
+    if (!(value instanceof Date)) return { ...value };
+    const { hour, minute, second } = getZonedParts(value, timeZone);
+    return { hour, minute, second };
+  }
+
+  /**
+   * Match typed text against the localized period labels, falling back to
+   * Latin "a"/"p" so AM/PM can always be typed.
+   */
+  function resolvePeriod(input: string): "AM" | "PM" | "pending" | null {
+    const typed = normalizePeriodLabel(input, locale);
+    if (!typed) return null;
+
+    const matches = (["AM", "PM"] as const).filter((period) =>
+      normalizePeriodLabel(periodLabels[period], locale).startsWith(typed)
+    );
+    if (matches.length === 1) return matches[0] ?? null;
+    if (matches.length > 1) return "pending";
+
+    if ("am".startsWith(typed)) return "AM";
+    if ("pm".startsWith(typed)) return "PM";
+    return null;
+  }
+
   function clamp(value: number, min: number, max: number): number {
     return Math.min(Math.max(value, min), max);
   }
@@ -317,12 +491,12 @@ export function createTimePickerBehavior(
     const newValue = { ...currentValue };
 
     if (segment === "period") {
-      const periodValue = String(value).toUpperCase();
-      if (periodValue === "AM" || periodValue === "A") {
+      const periodValue = resolvePeriod(String(value));
+      if (periodValue === "AM") {
         if (currentValue.hour >= 12) {
           newValue.hour = currentValue.hour - 12;
         }
-      } else if (periodValue === "PM" || periodValue === "P") {
+      } else if (periodValue === "PM") {
         if (currentValue.hour < 12) {
           newValue.hour = currentValue.hour + 12;
         }
@@ -353,9 +527,15 @@ export function createTimePickerBehavior(
     updateValue(newValue);
   }
 
-  function setValue(value: TimeValue): void {
+  function setValue(value: TimeValue | Date): void {
     if (state.disabled) return;
-    updateValue(value);
+    updateValue(toTimeValue(value));
+  }
+
+  function toDate(value?: TimeValue, reference: Date = new Date()): Date {
+    const { hour, minute, second } = value ?? state.value;
+    const { year, month, day } = getZonedParts(reference, timeZone);
+    return getZonedInstant(Date.UTC(year, month - 1, day, hour, minute, second), timeZone);
   }
 
   function parseTime(input: string): TimeValue | null {
@@ -410,11 +590,13 @@ export function createTimePickerBehavior(
   }
 
   function focusSegment(segment: TimeSegment): void {
+    typedPeriod = "";
     state = { ...state, focusedSegment: segment };
   }
 
   function focusNextSegment(): void {
-    const segments = getSegmentOrder();
+    typedPeriod = "";
+    const segments = segmentOrder;
     const currentIndex = state.focusedSegment ? segments.indexOf(state.focusedSegment) : -1;
 
     if (currentIndex < segments.length - 1) {
@@ -424,7 +606,8 @@ export function createTimePickerBehavior(
   }
 
   function focusPreviousSegment(): void {
-    const segments = getSegmentOrder();
+    typedPeriod = "";
+    const segments = segmentOrder;
     const currentIndex = state.focusedSegment
       ? segments.indexOf(state.focusedSegment)
       : segments.length;
@@ -436,6 +619,7 @@ export function createTimePickerBehavior(
   }
 
   function blur(): void {
+    typedPeriod = "";
     state = { ...state, focusedSegment: null };
   }
 
@@ -455,13 +639,13 @@ export function createTimePickerBehavior(
           valueMin = 1;
           valueMax = 12;
           valueText = String(hour);
-          label = "Hour";
+          label = getMessage("timePicker.hour", undefined, { messages });
         } else {
           valueNow = value.hour;
           valueMin = 0;
           valueMax = 23;
           valueText = pad2(value.hour);
-          label = "Hour";
+          label = getMessage("timePicker.hour", undefined, { messages });
         }
         break;
       case "minute":
@@ -469,21 +653,21 @@ export function createTimePickerBehavior(
         valueMin = 0;
         valueMax = 59;
         valueText = pad2(value.minute);
-        label = "Minute";
+        label = getMessage("timePicker.minute", undefined, { messages });
         break;
       case "second":
         valueNow = value.second;
         valueMin = 0;
         valueMax = 59;
         valueText = pad2(value.second);
-        label = "Second";
+        label = getMessage("timePicker.second", undefined, { messages });
         break;
       case "period":
         valueNow = state.period === "AM" ? 0 : 1;
         valueMin = 0;
         valueMax = 1;
-        valueText = state.period;
-        label = "AM/PM";
+        valueText = periodLabels[state.period];
+        label = getMessage("timePicker.period", undefined, { messages });
         break;
     }
 
@@ -518,7 +702,7 @@ export function createTimePickerBehavior(
       case "second":
         return pad2(value.second);
       case "period":
-        return state.period;
+        return periodLabels[state.period];
     }
   }
 
@@ -552,10 +736,28 @@ export function createTimePickerBehavior(
           setSegmentValue(segment, event.key);
           return true;
         }
-        // Handle AM/PM keys
-        if (segment === "period" && /^[aApP]$/i.test(event.key)) {
+        // Handle typed period labels, which may take several keys (e.g. 午前/午後)
+        if (
+          segment === "period" &&
+          event.key.length === 1 &&
+          !event.altKey &&
+          !event.ctrlKey &&
+          !event.metaKey
+        ) {
+          let period = resolvePeriod(typedPeriod + event.key);
+          if (period === null && typedPeriod) {
+            typedPeriod = "";
+            period = resolvePeriod(event.key);
+          }
+          if (period === null) return false;
+
           event.preventDefault();
-          setSegmentValue(segment, event.key);
+          if (period === "pending") {
+            typedPeriod += event.key;
+          } else {
+            typedPeriod = "";
+            setSegmentValue(segment, period);
+          }
           return true;
         }
     }
@@ -575,12 +777,15 @@ export function createTimePickerBehavior(
     decrement,
     setSegmentValue,
     setValue,
+    toDate,
     parseTime,
     formatTime,
     focusSegment,
     focusNextSegment,
     focusPreviousSegment,
     blur,
+    getSegments: () => [...segmentOrder],
+    getParts: () => parts.map((part) => ({ ...part })),
     getSegmentProps,
     getSegmentDisplayValue,
     handleSegmentKeyDown,
@@ -1,11 +1,25 @@
 /**
  * Tree behavior utilities for hierarchical navigation.
  *
- * Provides keyboard navigation, expand/collapse, and selection
- * following the WAI-ARIA TreeView pattern.
+ * Provides keyboard navigation, expand/collapse, selection (including
+ * tri-state checkboxes), lazy child loading and node moves following the
+ * WAI-ARIA TreeView pattern, plus flattening of nested data for
+ * virtualized rendering.
  */
 
-export type TreeSelectionMode = "single" | "multiple" | "none";
+import { getDirection, mirrorArrowKey } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+
+export type TreeSelectionMode = "single" | "multiple" | "checkbox" | "none";
+
+/** Check state of an item in checkbox mode; `"mixed"` when some descendants are checked */
+export type TreeCheckedState = "checked" | "unchecked" | "mixed";
+
+/** Load state of an item's lazily loaded children */
+export type TreeLoadState = "idle" | "loading" | "loaded" | "error";
+
+/** Where a moved item lands relative to the target item */
+export type TreeDropPosition = "before" | "after" | "inside";
 
 export interface TreeItem {
   id: string;
@@ -13,6 +27,54 @@ export interface TreeItem {
   expanded?: boolean;
   selected?: boolean;
   disabled?: boolean;
+  /** Whether the item has children that are not loaded yet */
+  hasChildren?: boolean;
+}
+
+/**
+ * A node of nested tree data, for rendering a tree from data.
+ */
+export interface TreeDataNode {
+  id: string;
+  label: string;
+  children?: TreeDataNode[];
+  /** Whether the node has children that are not loaded yet */
+  hasChildren?: boolean;
+  /** Whether the node starts expanded */
+  expanded?: boolean;
+  /** Whether the node starts selected (checked in checkbox mode) */
+  selected?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * A visible node with its position, as rendered in a flat list.
+ */
+export interface FlatTreeNode<T extends TreeDataNode = TreeDataNode> {
+  node: T;
+  id: string;
+  parentId: string | undefined;
+  /** Nesting depth, 1 for root nodes (aria-level) */
+  level: number;
+  /** Number of siblings, including the node (aria-setsize) */
+  setSize: number;
+  /** Position among siblings, 1-based (aria-posinset) */
+  posInSet: number;
+  /** Whether the node has children, loaded or not */
+  expandable: boolean;
+  expanded: boolean;
+}
+
+export interface TreeMove {
+  /** The moved item */
+  sourceId: string;
+  /** The item it is dropped on */
+  targetId: string;
+  position: TreeDropPosition;
+  /** The new parent, or null for the root */
+  parentId: string | null;
+  /** Index among the new siblings, not counting the moved item */
+  index: number;
 }
 
 export interface TreeBehaviorOptions {
@@ -28,7 +90,7 @@ export interface TreeBehaviorOptions {
   onExpandChange?: (id: string, expanded: boolean) => void;
 
   /**
-   * Callback when selection changes.
+   * Callback when selection changes. In checkbox mode, receives the checked IDs.
    */
   onSelectionChange?: (selectedIds: Set<string>) => void;
 
@@ -36,6 +98,35 @@ export interface TreeBehaviorOptions {
    * Callback when an item is activated (Enter key or double-click).
    */
   onActivate?: (id: string) => void;
+
+  /**
+   * Loads an item's children on its first expand. Expanding an item whose
+   * load failed tries again.
+   */
+  loadChildren?: (id: string) => Promise<void>;
+
+  /**
+   * Callback when an item's load state changes.
+   */
+  onLoadStateChange?: (id: string, state: TreeLoadState, error?: unknown) => void;
+
+  /**
+   * Whether Alt+Arrow keys move the focused item: Up/Down past its siblings,
+   * Right into the previous sibling, Left out of its parent.
+   * @default false
+   */
+  reorderable?: boolean;
+
+  /**
+   * Callback before an item moves; return false to cancel the move.
+   */
+  onMove?: (move: TreeMove) => boolean | undefined;
+
+  /**
+   * Text direction; in `"rtl"` ArrowLeft expands and ArrowRight collapses.
+   * Resolved from the event target's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
 }
 
 export interface TreeBehavior {
@@ -54,6 +145,12 @@ export interface TreeBehavior {
    */
   focusedId: string | null;
 
+  /**
+   * Checked item IDs in checkbox mode. Parents are included once all
+   * their children are checked.
+   */
+  checkedIds: Set<string>;
+
   /**
    * Handle keyboard navigation.
    */
@@ -103,6 +200,62 @@ export interface TreeBehavior {
    */
   clearSelection(): void;
 
+  /**
+   * Check or uncheck an item and its descendants, then update its ancestors.
+   */
+  setChecked(id: string, checked: boolean, items: TreeItem[]): void;
+
+  /**
+   * Toggle an item's check state; a mixed item becomes checked.
+   */
+  toggleChecked(id: string, items: TreeItem[]): void;
+
+  /**
+   * Get an item's check state.
+   */
+  getCheckedState(id: string, items: TreeItem[]): TreeCheckedState;
+
+  /**
+   * Get the check state of every item at once, e.g. for rendering.
+   */
+  getCheckedStates(items: TreeItem[]): Map<string, TreeCheckedState>;
+
+  /**
+   * Check items whose parent is checked, e.g. after children load.
+   */
+  syncChecked(items: TreeItem[]): void;
+
+  /**
+   * Get the load state of an item's children.
+   */
+  getLoadState(id: string): TreeLoadState;
+
+  /**
+   * Load an item's children, e.g. to retry after an error.
+   */
+  loadChildren(id: string): Promise<void>;
+
+  /**
+   * Resolve a move, or null when it is not allowed (onto itself, into
+   * its own subtree, or onto a disabled item).
+   */
+  getMove(
+    sourceId: string,
+    targetId: string,
+    position: TreeDropPosition,
+    items: TreeItem[]
+  ): TreeMove | null;
+
+  /**
+   * Move an item; returns the move, or null if it is not allowed or canceled.
+   */
+  moveItem(
+    sourceId: string,
+    targetId: string,
+    position: TreeDropPosition,
+    items: TreeItem[]
+  ): TreeMove | null;
+
   /**
    * Focus an item.
    */
@@ -124,16 +277,49 @@ export interface TreeBehavior {
  *   onExpandChange: (id, expanded) => console.log(id, expanded),
  *   onSelectionChange: (selected) => console.log([...selected]),
  * });
+ *
+ * // Checkboxes, lazy children and moves
+ * const permissions = createTreeBehavior({
+ *   selectionMode: "checkbox",
+ *   loadChildren: (id) => fetchRoles(id).then(addRoles),
+ *   reorderable: true,
+ *   onMove: (move) => confirm(`Move ${move.sourceId}?`),
+ * });
  * ```
  */
 export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehavior {
-  const { selectionMode = "single", onExpandChange, onSelectionChange, onActivate } = options;
+  const {
+    selectionMode = "single",
+    dir,
+    reorderable = false,
+    onExpandChange,
+    onSelectionChange,
+    onActivate,
+    onLoadStateChange,
+    onMove,
+  } = options;
 
   // State
   const selectedIds = new Set<string>();
   const expandedIds = new Set<string>();
+  const checkedIds = new Set<string>();
+  const loadStates = new Map<string, TreeLoadState>();
   let focusedId: string | null = null;
 
+  /** Groups items by parent ID; root items are under `undefined` */
+  function getChildMap(items: TreeItem[]): Map<string | undefined, TreeItem[]> {
+    const childMap = new Map<string | undefined, TreeItem[]>();
+    for (const item of items) {
+      const siblings = childMap.get(item.parentId);
+      if (siblings) {
+        siblings.push(item);
+      } else {
+        childMap.set(item.parentId, [item]);
+      }
+    }
+    return childMap;
+  }
+
   function getVisibleItems(items: TreeItem[]): TreeItem[] {
     const result: TreeItem[] = [];
     const itemMap = new Map(items.map((item) => [item.id, item]));
@@ -161,6 +347,17 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
   ): void {
     if (!focusedId) return;
 
+    const key = mirrorArrowKey(event.key, dir ?? getDirection(event.target as Element | null));
+
+    if (reorderable && event.altKey && key.startsWith("Arrow")) {
+      event.preventDefault();
+      const item = items.find((candidate) => candidate.id === focusedId);
+      if (item && !item.disabled) {
+        moveWithKeyboard(key, item, items);
+      }
+      return;
+    }
+
     const visibleItems = getVisibleItems(items);
     const currentIndex = visibleItems.findIndex((item) => item.id === focusedId);
     if (currentIndex === -1) return;
@@ -168,9 +365,10 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
     const currentItem = visibleItems[currentIndex];
     if (!currentItem) return;
 
-    const hasChildren = items.some((item) => item.parentId === focusedId);
+    const hasChildren =
+      currentItem.hasChildren === true || items.some((item) => item.parentId === focusedId);
 
-    switch (event.key) {
+    switch (key) {
       case "ArrowDown": {
         event.preventDefault();
         const nextIndex = currentIndex + 1;
@@ -252,7 +450,10 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
 
       case " ": {
         event.preventDefault();
-        if (!currentItem.disabled) {
+        if (currentItem.disabled) break;
+        if (selectionMode === "checkbox") {
+          toggleChecked(focusedId, items);
+        } else {
           toggleSelection(focusedId);
         }
         break;
@@ -270,6 +471,30 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
     }
   }
 
+  /** Moves an item past its siblings, into its previous sibling or out of its parent */
+  function moveWithKeyboard(key: string, item: TreeItem, items: TreeItem[]): void {
+    const siblings = items.filter((sibling) => sibling.parentId === item.parentId);
+    const index = siblings.indexOf(item);
+    const previous = siblings[index - 1];
+    const next = siblings[index + 1];
+
+    let move: TreeMove | null = null;
+    if (key === "ArrowUp" && previous) {
+      move = moveItem(item.id, previous.id, "before", items);
+    } else if (key === "ArrowDown" && next) {
+      move = moveItem(item.id, next.id, "after", items);
+    } else if (key === "ArrowRight" && previous) {
+      move = moveItem(item.id, previous.id, "inside", items);
+    } else if (key === "ArrowLeft" && item.parentId) {
+      move = moveItem(item.id, item.parentId, "after", items);
+    }
+
+    // Keep the moved item visible
+    if (move?.position === "inside") {
+      expand(move.targetId);
+    }
+  }
+
   function toggleExpand(id: string): void {
     if (expandedIds.has(id)) {
       collapse(id);
@@ -283,6 +508,12 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
       expandedIds.add(id);
       onExpandChange?.(id, true);
     }
+
+    // Load children on the first expand, or retry after an error
+    const loadState = getLoadState(id);
+    if (options.loadChildren && (loadState === "idle" || loadState === "error")) {
+      void loadChildren(id);
+    }
   }
 
   function collapse(id: string): void {
@@ -330,7 +561,169 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
 
   function clearSelection(): void {
     selectedIds.clear();
-    onSelectionChange?.(selectedIds);
+    checkedIds.clear();
+    onSelectionChange?.(selectionMode === "checkbox" ? checkedIds : selectedIds);
+  }
+
+  function setChecked(id: string, checked: boolean, items: TreeItem[]): void {
+    if (selectionMode !== "checkbox") return;
+
+    const childMap = getChildMap(items);
+    const parentIds = new Map(items.map((item) => [item.id, item.parentId]));
+
+    // Down: the item and all its descendants
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      if (checked) {
+        checkedIds.add(current);
+      } else {
+        checkedIds.delete(current);
+      }
+      for (const child of childMap.get(current) ?? []) {
+        stack.push(child.id);
+      }
+    }
+
+    // Up: a parent is checked once all its children are
+    let parentId = parentIds.get(id);
+    while (parentId !== undefined && parentIds.has(parentId)) {
+      const children = childMap.get(parentId) ?? [];
+      if (children.every((child) => checkedIds.has(child.id))) {
+        checkedIds.add(parentId);
+      } else {
+        checkedIds.delete(parentId);
+      }
+      parentId = parentIds.get(parentId);
+    }
+
+    onSelectionChange?.(checkedIds);
+  }
+
+  function toggleChecked(id: string, items: TreeItem[]): void {
+    setChecked(id, getCheckedState(id, items) !== "checked", items);
+  }
+
+  function getCheckedState(id: string, items: TreeItem[]): TreeCheckedState {
+    if (checkedIds.has(id)) return "checked";
+
+    const childMap = getChildMap(items);
+    const stack = [...(childMap.get(id) ?? [])];
+    while (stack.length > 0) {
+      const item = stack.pop() as TreeItem;
+      if (checkedIds.has(item.id)) return "mixed";
+      stack.push(...(childMap.get(item.id) ?? []));
+    }
+    return "unchecked";
+  }
+
+  function getCheckedStates(items: TreeItem[]): Map<string, TreeCheckedState> {
+    const states = new Map<string, TreeCheckedState>();
+    const parentIds = new Map(items.map((item) => [item.id, item.parentId]));
+
+    // Children come after their parents, so walk backwards and mark ancestors
+    for (let i = items.length - 1; i >= 0; i--) {
+      const item = items[i] as TreeItem;
+      const checked = checkedIds.has(item.id);
+      if (checked) {
+        states.set(item.id, "checked");
+      } else if (!states.has(item.id)) {
+        states.set(item.id, "unchecked");
+      }
+      if (!checked && states.get(item.id) !== "mixed") continue;
+
+      for (
+        let parentId = parentIds.get(item.id);
+        parentId !== undefined && !checkedIds.has(parentId) && states.get(parentId) !== "mixed";
+        parentId = parentIds.get(parentId)
+      ) {
+        states.set(parentId, "mixed");
+      }
+    }
+    return states;
+  }
+
+  function syncChecked(items: TreeItem[]): void {
+    if (selectionMode !== "checkbox") return;
+
+    // Items come in document order, so parents are synced before their children
+    let changed = false;
+    for (const item of items) {
+      if (item.parentId && checkedIds.has(item.parentId) && !checkedIds.has(item.id)) {
+        checkedIds.add(item.id);
+        changed = true;
+      }
+    }
+    if (changed) {
+      onSelectionChange?.(checkedIds);
+    }
+  }
+
+  function getLoadState(id: string): TreeLoadState {
+    return loadStates.get(id) ?? "idle";
+  }
+
+  function setLoadState(id: string, state: TreeLoadState, error?: unknown): void {
+    loadStates.set(id, state);
+    onLoadStateChange?.(id, state, error);
+  }
+
+  async function loadChildren(id: string): Promise<void> {
+    const loader = options.loadChildren;
+    if (!loader || getLoadState(id) === "loading") return;
+
+    setLoadState(id, "loading");
+    try {
+      await loader(id);
+    } catch (error) {
+      // Ignore results that arrive after destroy()
+      if (loadStates.get(id) === "loading") setLoadState(id, "error", error);
+      return;
+    }
+    if (loadStates.get(id) === "loading") setLoadState(id, "loaded");
+  }
+
+  function getMove(
+    sourceId: string,
+    targetId: string,
+    position: TreeDropPosition,
+    items: TreeItem[]
+  ): TreeMove | null {
+    const itemMap = new Map(items.map((item) => [item.id, item]));
+    const source = itemMap.get(sourceId);
+    const target = itemMap.get(targetId);
+    if (!source || !target || source.disabled || target.disabled) return null;
+
+    // Not onto itself or into its own subtree
+    for (let id: string | undefined = targetId; id; id = itemMap.get(id)?.parentId) {
+      if (id === sourceId) return null;
+    }
+
+    const parentId = position === "inside" ? targetId : (target.parentId ?? null);
+    const siblings = items.filter((item) => (item.parentId ?? null) === parentId);
+    const others = siblings.filter((item) => item.id !== sourceId);
+    const index =
+      position === "inside"
+        ? others.length
+        : others.indexOf(target) + (position === "after" ? 1 : 0);
+
+    // Dropping an item where it already is moves nothing
+    if ((source.parentId ?? null) === parentId && siblings.indexOf(source) === index) {
+      return null;
+    }
+
+    return { sourceId, targetId, position, parentId, index };
+  }
+
+  function moveItem(
+    sourceId: string,
+    targetId: string,
+    position: TreeDropPosition,
+    items: TreeItem[]
+  ): TreeMove | null {
+    const move = getMove(sourceId, targetId, position, items);
+    if (!move || onMove?.(move) === false) return null;
+    return move;
   }
 
   function focus(id: string): void {
@@ -340,6 +733,8 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
   function destroy(): void {
     selectedIds.clear();
     expandedIds.clear();
+    checkedIds.clear();
+    loadStates.clear();
     focusedId = null;
   }
 
@@ -353,6 +748,9 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
     get focusedId() {
       return focusedId;
     },
+    get checkedIds() {
+      return checkedIds;
+    },
     handleKeyDown,
     toggleExpand,
     expand,
@@ -362,7 +760,56 @@ export function createTreeBehavior(options: TreeBehaviorOptions = {}): TreeBehav
     deselect,
     selectAll,
     clearSelection,
+    setChecked,
+    toggleChecked,
+    getCheckedState,
+    getCheckedStates,
+    syncChecked,
+    getLoadState,
+    loadChildren,
+    getMove,
+    moveItem,
     focus,
     destroy,
   };
 }
+
+/**
+ * Flatten nested tree data into the nodes a tree shows, in display order,
+ * with their level and position among siblings. Children of collapsed
+ * nodes are skipped; pass no `expandedIds` to include every node.
+ *
+ * @example
+ * ```ts
+ * const rows = flattenTree(nodes, tree.expandedIds);
+ * const visible = rows.slice(range.start, range.end);
+ * ```
+ */
+export function flattenTree<T extends TreeDataNode>(
+  nodes: readonly T[],
+  expandedIds?: ReadonlySet<string>
+): FlatTreeNode<T>[] {
+  const result: FlatTreeNode<T>[] = [];
+
+  function visit(siblings: readonly T[], parentId: string | undefined, level: number): void {
+    siblings.forEach((node, index) => {
+      const children = (node.children ?? []) as T[];
+      const expandable = children.length > 0 || node.hasChildren === true;
+      const expanded = expandable && (expandedIds ? expandedIds.has(node.id) : true);
+      result.push({
+        node,
+        id: node.id,
+        parentId,
+        level,
+        setSize: siblings.length,
+        posInSet: index + 1,
+        expandable,
+        expanded,
+      });
+      if (expanded) visit(children, node.id, level + 1);
+    });
+  }
+
+  visit(nodes, undefined, 1);
+  return result;
+}
@@ -0,0 +1,364 @@
+/**
+ * Date-Time Picker Composite
+ *
+ * High-level primitive that bundles the date picker and time picker behaviors
+ * into a single timestamp control. Provides:
+ * - Calendar selection for the day, spinbutton segments for the time
+ * - ISO 8601 values (`2026-03-14T09:30`), optionally with the UTC offset
+ * - Reading and writing wall-clock time in an IANA time zone
+ * - Calendar grid keyboard navigation
+ *
+ * @module composites/date-time-picker
+ */
+
+import {
+  type DatePickerBehavior,
+  type DateUnavailablePredicate,
+  createDatePickerBehavior,
+} from "../behavior/date-picker.js";
+import {
+  type TimePickerBehavior,
+  type TimeValue,
+  createTimePickerBehavior,
+  getZonedInstant,
+  getZonedParts,
+} from "../behavior/time-picker.js";
+import type { Messages } from "../i18n/messages.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DateTimePickerOptions {
+  /**
+   * Initial value: an instant, or an ISO 8601 date-time. A string without an
+   * offset is read as wall-clock time in `timeZone`.
+   */
+  defaultValue?: Date | string | null;
+
+  /** Called when the value changes, with the ISO 8601 value and its instant */
+  onValueChange?: (value: string, date: Date | null) => void;
+
+  /** Called when the calendar opens or closes */
+  onOpenChange?: (open: boolean) => void;
+
+  /** Minimum selectable day */
+  minDate?: Date;
+
+  /** Maximum selectable day */
+  maxDate?: Date;
+
+  /** Marks days unavailable, optionally with a reason */
+  isDateUnavailable?: DateUnavailablePredicate;
+
+  /** First day of week (0 = Sunday, 1 = Monday) */
+  firstDayOfWeek?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+  /** 12-hour or 24-hour format; defaults to the locale's hour cycle */
+  hourFormat?: 12 | 24;
+
+  /** Show the seconds segment and include seconds in the value */
+  showSeconds?: boolean;
+
+  /**
+   * Minute step; values are snapped down to it.
+   * @default 1
+   */
+  minuteStep?: number;
+
+  /**
+   * Second step; values are snapped down to it.
+   * @default 1
+   */
+  secondStep?: number;
+
+  /**
+   * Locale for the calendar and time segments.
+   * @default "en-US"
+   */
+  locale?: string;
+
+  /** IANA time zone the value is expressed in; defaults to the runtime's zone */
+  timeZone?: string;
+
+  /**
+   * Append the time zone's UTC offset to the value (e.g. `+01:00`).
+   * @default false
+   */
+  includeOffset?: boolean;
+
+  /** Disabled state */
+  disabled?: boolean;
+
+  /** Message overrides for calendar and segment labels */
+  messages?: Partial<Messages>;
+}
+
+export interface DateTimePickerState {
+  /** ISO 8601 value, or an empty string until a day is chosen */
+  value: string;
+  /** Selected calendar day (local midnight) */
+  date: Date | null;
+  /** Wall-clock time */
+  time: TimeValue;
+  /** Whether the calendar is open */
+  open: boolean;
+  /** Whether the picker is disabled */
+  disabled: boolean;
+}
+
+export interface DateTimePicker {
+  /** Current state */
+  readonly state: DateTimePickerState;
+
+  /** Date picker behavior driving the calendar */
+  readonly datePicker: DatePickerBehavior;
+
+  /** Time picker behavior driving the time segments */
+  readonly timePicker: TimePickerBehavior;
+
+  /** Set the value without notifying; accepts an instant or an ISO 8601 string */
+  setValue(value: Date | string | null): void;
+
+  /** Clear the day and notify; the time is kept */
+  clear(): void;
+
+  /** The selected instant, or null without a day */
+  toDate(): Date | null;
+
+  /** Read an instant or ISO 8601 string as a day and wall-clock time in the time zone */
+  parse(value: Date | string): { date: Date; time: TimeValue } | null;
+
+  /** Handle keyboard navigation in the calendar grid; returns true if handled */
+  handleCalendarKeyDown(event: KeyboardEvent): boolean;
+
+  /** Cleanup */
+  destroy(): void;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const minutes = Math.abs(offsetMinutes);
+  return `${sign}${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}`;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Creates a date-time picker from a date picker and a time picker.
+ *
+ * The calendar picks the day and the segments pick the time; the value is
+ * only set once a day is chosen.
+ *
+ * @example
+ * ```ts
+ * const picker = createDateTimePicker({
+ *   timeZone: "Europe/Berlin",
+ *   includeOffset: true,
+ *   minuteStep: 15,
+ *   onValueChange: (value) => console.log(value), // "2026-03-14T09:30+01:00"
+ * });
+ *
+ * picker.datePicker.selectDate(new Date(2026, 2, 14));
+ * picker.timePicker.setValue({ hour: 9, minute: 30, second: 0 });
+ * ```
+ */
+export function createDateTimePicker(options: DateTimePickerOptions = {}): DateTimePicker {
+  const {
+    defaultValue = null,
+    onValueChange,
+    onOpenChange,
+    minDate,
+    maxDate,
+    isDateUnavailable,
+    firstDayOfWeek = 0,
+    hourFormat,
+    showSeconds = false,
+    minuteStep = 1,
+    secondStep = 1,
+    locale = "en-US",
+    timeZone,
+    includeOffset = false,
+    disabled = false,
+    messages,
+  } = options;
+
+  // Set while applying a value programmatically, so the parts don't notify
+  let syncing = false;
+
+  function snapToStep(time: TimeValue): TimeValue {
+    return {
+      hour: time.hour,
+      minute: time.minute - (time.minute % minuteStep),
+      second: showSeconds ? time.second - (time.second % secondStep) : 0,
+    };
+  }
+
+  function parse(value: Date | string): { date: Date; time: TimeValue } | null {
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) return null;
+      const { year, month, day, hour, minute, second } = getZonedParts(value, timeZone);
+      return { date: new Date(year, month - 1, day), time: { hour, minute, second } };
+    }
+
+    const match = value.trim().match(ISO_DATE_TIME);
+    if (!match) return null;
+
+    // With an offset the string names an instant; read it in the time zone
+    if (match[7]) return parse(new Date(value.trim()));
+
+    const [year, month, day, hour, minute, second] = match
+      .slice(1, 7)
+      .map((part) => Number(part ?? 0));
+    const date = new Date(year ?? 0, (month ?? 1) - 1, day ?? 1);
+    if (date.getMonth() !== (month ?? 1) - 1 || (hour ?? 0) > 23 || (minute ?? 0) > 59) return null;
+    return { date, time: { hour: hour ?? 0, minute: minute ?? 0, second: second ?? 0 } };
+  }
+
+  const initial = defaultValue === null ? null : parse(defaultValue);
+
+  let state: DateTimePickerState = {
+    value: "",
+    date: initial?.date ?? null,
+    time: snapToStep(initial?.time ?? { hour: 0, minute: 0, second: 0 }),
+    open: false,
+    disabled,
+  };
+
+  function toDate(): Date | null {
+    const { date, time } = state;
+    if (!date) return null;
+    return getZonedInstant(
+      Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        time.hour,
+        time.minute,
+        time.second
+      ),
+      timeZone
+    );
+  }
+
+  function formatValue(): string {
+    const { date, time } = state;
+    if (!date) return "";
+
+    const day = `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+    const seconds = showSeconds ? `:${pad2(time.second)}` : "";
+    let value = `${day}T${pad2(time.hour)}:${pad2(time.minute)}${seconds}`;
+
+    if (includeOffset) {
+      const wallClock = Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        time.hour,
+        time.minute,
+        time.second
+      );
+      value += formatOffset(Math.round((wallClock - (toDate()?.getTime() ?? wallClock)) / 60_000));
+    }
+    return value;
+  }
+
+  function commit(): void {
+    state = { ...state, value: formatValue() };
+    if (!syncing) onValueChange?.(state.value, toDate());
+  }
+
+  state = { ...state, value: formatValue() };
+
+  const datePicker = createDatePickerBehavior({
+    mode: "single",
+    defaultValue: state.date,
+    minDate,
+    maxDate,
+    isDateUnavailable,
+    locale,
+    firstDayOfWeek,
+    disabled,
+    messages,
+    onDateChange: (date) => {
+      state = { ...state, date };
+      commit();
+    },
+    onOpenChange: (open) => {
+      state = { ...state, open };
+      onOpenChange?.(open);
+    },
+  });
+
+  const timePicker = createTimePickerBehavior({
+    defaultValue: state.time,
+    hourFormat,
+    showSeconds,
+    minuteStep,
+    secondStep,
+    locale,
+    timeZone,
+    disabled,
+    messages,
+    onValueChange: (time) => {
+      state = { ...state, time };
+      // The time alone is not a value yet
+      if (state.date) commit();
+    },
+  });
+
+  function setValue(value: Date | string | null): void {
+    const parsed = value === null || value === "" ? null : parse(value);
+
+    syncing = true;
+    datePicker.setValue(parsed?.date ?? null);
+    if (parsed) timePicker.setValue(snapToStep(parsed.time));
+    syncing = false;
+
+    state = {
+      ...state,
+      date: parsed?.date ?? null,
+      time: parsed ? snapToStep(parsed.time) : state.time,
+    };
+    state = { ...state, value: formatValue() };
+  }
+
+  function clear(): void {
+    if (state.disabled || !state.date) return;
+    datePicker.setValue(null);
+    state = { ...state, date: null };
+    commit();
+  }
+
+  function destroy(): void {
+    datePicker.destroy();
+    timePicker.destroy();
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    datePicker,
+    timePicker,
+    setValue,
+    clear,
+    toDate,
+    parse,
+    handleCalendarKeyDown: datePicker.handleCalendarKeyDown,
+    destroy,
+  };
+}
@@ -32,3 +32,11 @@ export {
   type SelectionMode,
   type ListOrientation,
 } from "./selectable-list.js";
+
+// Date-time picker composite (date picker + time picker)
+export {
+  createDateTimePicker,
+  type DateTimePicker,
+  type DateTimePickerOptions,
+  type DateTimePickerState,
+} from "./date-time-picker.js";
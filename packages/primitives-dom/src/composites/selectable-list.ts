@@ -12,6 +12,9 @@
  * @module composites/selectable-list
  */
 
+import { getDirection, mirrorArrowKey } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -32,6 +35,12 @@ export interface SelectableListOptions {
    */
   orientation?: ListOrientation;
 
+  /**
+   * Text direction; ArrowLeft and ArrowRight swap in `"rtl"`.
+   * Resolved from the event target's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
+
   /**
    * Whether focus loops from last to first item.
    * @default true
@@ -242,6 +251,7 @@ export function createSelectableList(options: SelectableListOptions = {}): Selec
   const {
     mode: initialMode = "single",
     orientation = "vertical",
+    dir,
     loop = true,
     typeAhead = true,
     typeAheadTimeout = 500,
@@ -269,6 +279,7 @@ export function createSelectableList(options: SelectableListOptions = {}): Selec
   // Mutable options
   const currentOptions = {
     orientation,
+    dir,
     loop,
     typeAhead,
     typeAheadTimeout,
@@ -459,7 +470,11 @@ export function createSelectableList(options: SelectableListOptions = {}): Selec
     },
 
     handleKeyDown(event: KeyboardEvent): void {
-      const { key, ctrlKey, metaKey } = event;
+      const { ctrlKey, metaKey } = event;
+      const key = mirrorArrowKey(
+        event.key,
+        currentOptions.dir ?? getDirection(event.target as Element | null)
+      );
 
       // Get navigation keys based on orientation
       const nextKey = currentOptions.orientation === "vertical" ? "ArrowDown" : "ArrowRight";
@@ -632,6 +647,9 @@ export function createSelectableList(options: SelectableListOptions = {}): Selec
       if (newOptions.orientation !== undefined) {
         currentOptions.orientation = newOptions.orientation;
       }
+      if (newOptions.dir !== undefined) {
+        currentOptions.dir = newOptions.dir;
+      }
       if (newOptions.loop !== undefined) {
         currentOptions.loop = newOptions.loop;
       }
@@ -0,0 +1,55 @@
+/**
+ * Text direction resolution for right-to-left layouts.
+ *
+ * Keyboard and positioning utilities resolve the direction lazily, at the
+ * time of the key press or update, so a `dir` change on an ancestor takes
+ * effect without re-creating them.
+ */
+
+import type { TextDirection } from "../types.js";
+
+/**
+ * Resolve the text direction of an element from the nearest ancestor (or the
+ * element itself) with a `dir="ltr"` or `dir="rtl"` attribute. Crosses
+ * shadow roots and skips `dir="auto"`. Defaults to `"ltr"`.
+ *
+ * @example
+ * ```typescript
+ * const rtl = getDirection(tabList) === "rtl";
+ * ```
+ */
+export function getDirection(element: Element | null | undefined): TextDirection {
+  let current: Element | null = element ?? null;
+
+  while (current) {
+    const dir = current.getAttribute("dir")?.toLowerCase();
+    if (dir === "ltr" || dir === "rtl") return dir;
+
+    if (current.parentElement) {
+      current = current.parentElement;
+    } else {
+      const root = current.getRootNode();
+      current = root instanceof ShadowRoot ? root.host : null;
+    }
+  }
+
+  return "ltr";
+}
+
+/**
+ * Swap `ArrowLeft` and `ArrowRight` in `"rtl"`, so key handlers can be
+ * written once in terms of the left-to-right layout. Other keys pass through.
+ *
+ * @example
+ * ```typescript
+ * switch (mirrorArrowKey(event.key, getDirection(item))) {
+ *   case "ArrowRight": // expand, or "next" - whichever way the layout reads
+ * }
+ * ```
+ */
+export function mirrorArrowKey(key: string, dir: TextDirection): string {
+  if (dir !== "rtl") return key;
+  if (key === "ArrowLeft") return "ArrowRight";
+  if (key === "ArrowRight") return "ArrowLeft";
+  return key;
+}
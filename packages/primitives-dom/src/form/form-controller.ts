@@ -0,0 +1,457 @@
+/**
+ * Form controller: framework-agnostic state for a whole form.
+ *
+ * Tracks values, errors, and dirty/touched flags per field, runs sync and
+ * async validators (per field and for the whole form, e.g. a Standard
+ * Schema), and drives submission. Stale async results are dropped, so a slow
+ * validator never overwrites the outcome of a newer one. A validator or
+ * submit handler that throws becomes a form-level error. `ds-form` and the
+ * React `useForm` hook are thin layers on top.
+ */
+
+import { getMessage } from "../i18n/catalog.js";
+import type { Messages } from "../i18n/messages.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FormValues = Record<string, unknown>;
+
+/**
+ * Error message per field. Errors that concern the whole form, such as a
+ * schema issue without a path, are keyed by the empty string.
+ */
+export type FormErrors<TValues extends FormValues = FormValues> = {
+  [K in keyof TValues & string]?: string;
+} & Record<string, string | undefined>;
+
+/** A boolean flag per field, e.g. dirty or touched. */
+export type FormFlags<TValues extends FormValues = FormValues> = {
+  [K in keyof TValues & string]?: boolean;
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Validates one field. Returns an error message, or nothing when valid.
+ */
+export type FieldValidator<TValue = unknown, TValues extends FormValues = FormValues> = (
+  value: TValue,
+  values: TValues
+) => MaybePromise<string | null | undefined>;
+
+/** Field validators by field name. */
+export type FieldValidators<TValues extends FormValues = FormValues> = {
+  [K in keyof TValues & string]?: FieldValidator<TValues[K], TValues>;
+};
+
+/**
+ * Validates the whole form and returns errors by field name.
+ */
+export type FormValidator<TValues extends FormValues = FormValues> = (
+  values: TValues
+) => MaybePromise<FormErrors<TValues> | null | undefined>;
+
+/**
+ * When fields are validated before the first submit. After a submit, or once
+ * a field has an error, changes always re-validate the field.
+ */
+export type FormValidateOn = "change" | "blur" | "submit";
+
+export interface FormState<TValues extends FormValues = FormValues> {
+  values: TValues;
+  errors: FormErrors<TValues>;
+  /** Fields whose value differs from the initial value */
+  dirty: FormFlags<TValues>;
+  /** Fields that have lost focus at least once */
+  touched: FormFlags<TValues>;
+  isDirty: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  submitCount: number;
+}
+
+export interface FormSubmitResult<TValues extends FormValues = FormValues> {
+  valid: boolean;
+  values: TValues;
+  errors: FormErrors<TValues>;
+  /** What `onValid` threw, if anything */
+  error?: unknown;
+}
+
+export interface FormControllerOptions<TValues extends FormValues = FormValues> {
+  /** Starting values; fields registered later add their own */
+  initialValues?: Partial<TValues>;
+
+  /** Whole-form validators, e.g. `createStandardSchemaValidator(schema)` */
+  validate?: FormValidator<TValues> | FormValidator<TValues>[];
+
+  /**
+   * Validators for single fields. A function is called on every run, for
+   * validators that change after the controller is created.
+   */
+  fieldValidators?: FieldValidators<TValues> | (() => FieldValidators<TValues>);
+
+  /**
+   * When fields are validated before the first submit.
+   * @default "blur"
+   */
+  validateOn?: FormValidateOn;
+
+  /** Called whenever the state changes */
+  onStateChange?: (state: FormState<TValues>) => void;
+
+  /** Overrides for built-in strings, e.g. the error shown when a validator throws */
+  messages?: Partial<Messages>;
+}
+
+export interface FormController<TValues extends FormValues = FormValues> {
+  /** Current state; replaced, never mutated, on each change */
+  readonly state: FormState<TValues>;
+
+  /** Adds a field with its initial value, unless it is already known */
+  register: <K extends keyof TValues & string>(name: K, initialValue: TValues[K]) => void;
+
+  /** Sets a field's value and re-validates it if due */
+  setValue: <K extends keyof TValues & string>(name: K, value: TValues[K]) => void;
+
+  /** Marks a field as touched (on blur) and validates it if due */
+  setTouched: (name: keyof TValues & string, touched?: boolean) => void;
+
+  /** Sets or clears a field's error, e.g. from a server response */
+  setError: (name: (keyof TValues & string) | "", message: string | null | undefined) => void;
+
+  /** Runs every validator and replaces the errors */
+  validate: () => Promise<FormErrors<TValues>>;
+
+  /** Runs the validators for one field */
+  validateField: (name: keyof TValues & string) => Promise<string | undefined>;
+
+  /** Validates, marks every field as touched and calls `onValid` when valid */
+  submit: (
+    onValid?: (values: TValues, state: FormState<TValues>) => void | Promise<void>
+  ) => Promise<FormSubmitResult<TValues>>;
+
+  /** Restores the initial values, or makes `values` the new initial values */
+  reset: (values?: Partial<TValues>) => void;
+
+  /** Listens for state changes; returns an unsubscribe function */
+  subscribe: (listener: (state: FormState<TValues>) => void) => () => void;
+
+  /**
+   * Drops listeners and pending validation. Subscribing again revives the
+   * controller, e.g. when React StrictMode re-mounts a component.
+   */
+  destroy: () => void;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Compares field values: primitives by identity, arrays and plain objects
+ * by their entries (one level at a time), so `[20, 80]` equals `[20, 80]`.
+ */
+export function areFieldValuesEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => areFieldValuesEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => areFieldValuesEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Merges error maps from several validators; the first message for a field
+ * wins, so pass them from most to least specific.
+ */
+export function mergeFormErrors<TValues extends FormValues = FormValues>(
+  ...results: (Record<string, string | null | undefined> | null | undefined)[]
+): FormErrors<TValues> {
+  const errors: Record<string, string | undefined> = {};
+  for (const result of results) {
+    for (const [name, message] of Object.entries(result ?? {})) {
+      if (message && !errors[name]) errors[name] = message;
+    }
+  }
+  return errors as FormErrors<TValues>;
+}
+
+function hasErrors(errors: FormErrors): boolean {
+  return Object.values(errors).some(Boolean);
+}
+
+/**
+ * Creates a form controller.
+ *
+ * @example
+ * ```ts
+ * const form = createFormController({
+ *   initialValues: { email: "", age: 18 },
+ *   fieldValidators: {
+ *     email: async (email) => ((await isTaken(email)) ? "Already registered" : undefined),
+ *   },
+ *   validate: createStandardSchemaValidator(schema),
+ * });
+ *
+ * form.setValue("email", "ada@example.com");
+ * const { valid, values } = await form.submit();
+ * ```
+ */
+export function createFormController<TValues extends FormValues = FormValues>(
+  options: FormControllerOptions<TValues> = {}
+): FormController<TValues> {
+  const { validateOn = "blur", onStateChange, messages } = options;
+  const getFieldValidators = (): FieldValidators<TValues> =>
+    typeof options.fieldValidators === "function"
+      ? options.fieldValidators()
+      : (options.fieldValidators ?? {});
+  const formValidators = options.validate
+    ? Array.isArray(options.validate)
+      ? options.validate
+      : [options.validate]
+    : [];
+
+  type Name = keyof TValues & string;
+
+  let initialValues = { ...options.initialValues } as TValues;
+  let state: FormState<TValues> = {
+    values: { ...initialValues },
+    errors: {} as FormErrors<TValues>,
+    dirty: {},
+    touched: {},
+    isDirty: false,
+    isValid: true,
+    isValidating: false,
+    isSubmitting: false,
+    submitCount: 0,
+  };
+
+  const listeners = new Set<(state: FormState<TValues>) => void>();
+  // Latest validation run per field ("" = whole form); older results are dropped
+  const runs = new Map<string, number>();
+  let nextRun = 0;
+  let pending = 0;
+  let destroyed = false;
+  // Whether the form-level error comes from a validator that threw
+  let failed = false;
+
+  function setState(patch: Partial<FormState<TValues>>): void {
+    if (destroyed) return;
+    const next = { ...state, ...patch };
+    next.isDirty = Object.values(next.dirty).some(Boolean);
+    next.isValid = !hasErrors(next.errors);
+    state = next;
+    onStateChange?.(state);
+    for (const listener of listeners) listener(state);
+  }
+
+  function startRun(key: string): number {
+    const run = ++nextRun;
+    runs.set(key, run);
+    return run;
+  }
+
+  /** Tracks `isValidating` around a validation promise */
+  async function track<T>(promise: Promise<T>): Promise<T> {
+    pending++;
+    if (pending === 1) setState({ isValidating: true });
+    try {
+      return await promise;
+    } finally {
+      pending--;
+      if (pending === 0) setState({ isValidating: false });
+    }
+  }
+
+  async function runFormValidators(values: TValues): Promise<FormErrors<TValues>> {
+    const results = await Promise.all(formValidators.map((validator) => validator(values)));
+    return mergeFormErrors<TValues>(...results);
+  }
+
+  async function runFieldValidator(name: Name, values: TValues): Promise<string | undefined> {
+    const validator = getFieldValidators()[name];
+    if (!validator) return undefined;
+    return (await validator(values[name], values)) || undefined;
+  }
+
+  /** The current errors with the form-level error for a thrown exception */
+  function failedErrors(): FormErrors<TValues> {
+    return { ...state.errors, "": getMessage("form.error", {}, { messages }) };
+  }
+
+  async function validateField(name: Name): Promise<string | undefined> {
+    const run = startRun(name);
+    const values = state.values;
+    // A newer run for this field, or for the whole form, has taken over
+    const isStale = () => runs.get(name) !== run || (runs.get("") ?? 0) > run;
+
+    let fieldError: string | undefined;
+    let formErrors: FormErrors<TValues>;
+    try {
+      [fieldError, formErrors] = await track(
+        Promise.all([runFieldValidator(name, values), runFormValidators(values)])
+      );
+    } catch {
+      if (!isStale()) {
+        failed = true;
+        setState({ errors: failedErrors() });
+      }
+      return undefined;
+    }
+
+    const message = fieldError ?? formErrors[name];
+    if (isStale()) return message;
+
+    if ((state.errors[name] || undefined) !== message || failed) {
+      // A passing run clears the error of one that threw
+      const cleared = failed ? { "": undefined } : {};
+      failed = false;
+      setState({ errors: { ...state.errors, ...cleared, [name]: message } });
+    }
+    return message;
+  }
+
+  async function validate(): Promise<FormErrors<TValues>> {
+    const run = startRun("");
+    const values = state.values;
+    const names = Object.keys(getFieldValidators()) as Name[];
+
+    let errors: FormErrors<TValues>;
+    try {
+      const [fieldErrors, formErrors] = await track(
+        Promise.all([
+          Promise.all(names.map((name) => runFieldValidator(name, values))),
+          runFormValidators(values),
+        ])
+      );
+      errors = mergeFormErrors<TValues>(
+        Object.fromEntries(names.map((name, index) => [name, fieldErrors[index]])),
+        formErrors
+      );
+    } catch {
+      errors = failedErrors();
+      if (runs.get("") === run) {
+        failed = true;
+        setState({ errors });
+      }
+      return errors;
+    }
+
+    if (runs.get("") === run) {
+      failed = false;
+      setState({ errors });
+    }
+    return errors;
+  }
+
+  function shouldValidate(name: Name, trigger: "change" | "blur"): boolean {
+    // Once an error is showing, re-validate as the user fixes it
+    if (state.submitCount > 0 || state.errors[name]) return true;
+    return validateOn === trigger;
+  }
+
+  function register<K extends Name>(name: K, initialValue: TValues[K]): void {
+    if (name in initialValues) return;
+    initialValues = { ...initialValues, [name]: initialValue };
+    setState({ values: { ...state.values, [name]: initialValue } });
+  }
+
+  function setValue<K extends Name>(name: K, value: TValues[K]): void {
+    if (!(name in initialValues)) {
+      initialValues = { ...initialValues, [name]: value };
+    }
+    setState({
+      values: { ...state.values, [name]: value },
+      dirty: { ...state.dirty, [name]: !areFieldValuesEqual(value, initialValues[name]) },
+    });
+    if (shouldValidate(name, "change")) void validateField(name);
+  }
+
+  function setTouched(name: Name, touched = true): void {
+    if (state.touched[name] !== touched) {
+      setState({ touched: { ...state.touched, [name]: touched } });
+    }
+    if (touched && shouldValidate(name, "blur")) void validateField(name);
+  }
+
+  function setError(name: Name | "", message: string | null | undefined): void {
+    if (name === "") failed = false;
+    setState({ errors: { ...state.errors, [name]: message || undefined } });
+  }
+
+  async function submit(
+    onValid?: (values: TValues, state: FormState<TValues>) => void | Promise<void>
+  ): Promise<FormSubmitResult<TValues>> {
+    const touched: FormFlags<TValues> = {};
+    for (const name of Object.keys(state.values) as Name[]) touched[name] = true;
+    setState({ isSubmitting: true, submitCount: state.submitCount + 1, touched });
+
+    try {
+      const errors = await validate();
+      const valid = !hasErrors(errors);
+      if (valid) await onValid?.(state.values, state);
+      return { valid, values: state.values, errors };
+    } catch (error) {
+      // onValid threw, e.g. the request failed
+      const errors = failedErrors();
+      setState({ errors });
+      return { valid: false, values: state.values, errors, error };
+    } finally {
+      setState({ isSubmitting: false });
+    }
+  }
+
+  function reset(values?: Partial<TValues>): void {
+    if (values) initialValues = { ...initialValues, ...values };
+    // Pending validation belongs to the old values
+    runs.clear();
+    failed = false;
+    setState({
+      values: { ...initialValues },
+      errors: {} as FormErrors<TValues>,
+      dirty: {},
+      touched: {},
+      submitCount: 0,
+    });
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    register,
+    setValue,
+    setTouched,
+    setError,
+    validate,
+    validateField,
+    submit,
+    reset,
+    subscribe: (listener) => {
+      destroyed = false;
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    destroy: () => {
+      destroyed = true;
+      listeners.clear();
+      runs.clear();
+    },
+  };
+}
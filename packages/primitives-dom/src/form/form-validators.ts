@@ -0,0 +1,56 @@
+/**
+ * Shared validation setup for `ds-form` and the React `useForm` hook.
+ *
+ * Both accept a Standard Schema, per-field validators and a whole-form
+ * validator that may change at any time. This turns them into form
+ * controller options that read the latest ones on every run.
+ */
+
+import {
+  type FieldValidators,
+  type FormControllerOptions,
+  type FormValidator,
+  type FormValues,
+  mergeFormErrors,
+} from "./form-controller.js";
+import { type StandardSchemaV1, createStandardSchemaValidator } from "./standard-schema.js";
+
+export interface FormValidatorSources<TValues extends FormValues = FormValues> {
+  /** Standard Schema that validates all values, e.g. a Zod object */
+  schema?: StandardSchemaV1;
+
+  /** Validators for single fields */
+  fieldValidators?: FieldValidators<TValues>;
+
+  /** Validates all values; returns errors by field name */
+  validate?: FormValidator<TValues>;
+}
+
+/**
+ * Builds the `validate` and `fieldValidators` controller options from
+ * sources read on every run. Field validators stay per field, so validating
+ * one field runs only its own; the schema's errors win over the validator's.
+ *
+ * @example
+ * ```ts
+ * const form = createFormController({
+ *   initialValues: { email: "" },
+ *   ...createFormValidators(() => ({ schema: settings.schema })),
+ * });
+ * ```
+ */
+export function createFormValidators<TValues extends FormValues = FormValues>(
+  getSources: () => FormValidatorSources<TValues>
+): Pick<FormControllerOptions<TValues>, "validate" | "fieldValidators"> {
+  return {
+    fieldValidators: () => getSources().fieldValidators ?? {},
+    validate: async (values) => {
+      const { schema, validate } = getSources();
+      const [schemaErrors, formErrors] = await Promise.all([
+        schema ? createStandardSchemaValidator(schema)(values) : undefined,
+        validate?.(values),
+      ]);
+      return mergeFormErrors<TValues>(schemaErrors, formErrors);
+    },
+  };
+}
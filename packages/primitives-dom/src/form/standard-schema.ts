@@ -0,0 +1,123 @@
+/**
+ * Standard Schema adapter for form validation.
+ *
+ * Standard Schema (https://standardschema.dev) is a shared interface that
+ * Zod, Valibot, ArkType and other validation libraries implement. The types
+ * below are the published v1 interface, copied as the spec recommends, so
+ * any compliant schema can validate a form without an adapter per library.
+ */
+
+import type { FormErrors, FormValidator, FormValues } from "./form-controller.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The Standard Schema v1 interface. */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  /** The Standard Schema properties. */
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  /** The result of validating a value. */
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  /** A validation issue, with the path of the value it concerns. */
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Whether a value implements Standard Schema v1.
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "~standard" in value &&
+    (value as StandardSchemaV1)["~standard"]?.version === 1
+  );
+}
+
+/**
+ * Joins an issue path into a field name: `["address", "city"]` becomes
+ * "address.city". Issues without a path belong to the form as a whole and
+ * are keyed by the empty string.
+ */
+export function getIssueFieldName(issue: StandardSchemaV1.Issue): string {
+  if (!issue.path) return "";
+  return issue.path
+    .map((segment) => String(typeof segment === "object" ? segment.key : segment))
+    .join(".");
+}
+
+/**
+ * Creates a form validator from a Standard Schema. The first issue of each
+ * field becomes its error message.
+ *
+ * @example
+ * ```ts
+ * import { z } from "zod";
+ *
+ * const validate = createStandardSchemaValidator(
+ *   z.object({ email: z.string().email("Enter a valid email") })
+ * );
+ *
+ * const form = createFormController({ initialValues: { email: "" }, validate });
+ * ```
+ */
+export function createStandardSchemaValidator<Schema extends StandardSchemaV1>(
+  schema: Schema
+): FormValidator<StandardSchemaV1.InferInput<Schema> & FormValues> {
+  return async (values) => {
+    const result = await schema["~standard"].validate(values);
+    if (!result.issues) return {};
+
+    const errors: Record<string, string> = {};
+    for (const issue of result.issues) {
+      const name = getIssueFieldName(issue);
+      if (!(name in errors)) errors[name] = issue.message;
+    }
+    return errors as FormErrors<StandardSchemaV1.InferInput<Schema> & FormValues>;
+  };
+}
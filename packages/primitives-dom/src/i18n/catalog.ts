@@ -0,0 +1,74 @@
+/**
+ * Global message catalog.
+ *
+ * Components look messages up in their own overrides first, then in the
+ * catalog set with `setMessages()`, then in the English messages.
+ */
+
+import { formatMessage } from "./format-message.js";
+import { type MessageKey, type MessageValues, type Messages, enMessages } from "./messages.js";
+
+export interface MessageOptions {
+  /** Overrides taking precedence over the global catalog */
+  messages?: Partial<Messages>;
+  /** Locale for plural rules and number formatting (defaults to the global locale) */
+  locale?: string;
+}
+
+let currentLocale = "en";
+let currentMessages: Partial<Messages> = {};
+const listeners = new Set<() => void>();
+
+/**
+ * Set the global message catalog and its locale. Keys missing from
+ * `messages` fall back to English. Components using the catalog update.
+ *
+ * @example
+ * ```typescript
+ * import { deMessages } from "@hypoth-ui/primitives-dom/locales";
+ *
+ * setMessages(deMessages, "de");
+ * ```
+ */
+export function setMessages(messages: Partial<Messages>, locale = currentLocale): void {
+  currentMessages = messages;
+  currentLocale = locale;
+  for (const listener of listeners) listener();
+}
+
+/**
+ * The locale of the global catalog.
+ */
+export function getLocale(): string {
+  return currentLocale;
+}
+
+/**
+ * Look up and format a message.
+ *
+ * @example
+ * ```typescript
+ * getMessage("dataTable.showing", { start: 1, end: 10, total: 42 });
+ * // "Showing 1-10 of 42"
+ * ```
+ */
+export function getMessage(
+  key: MessageKey,
+  values?: MessageValues,
+  options: MessageOptions = {}
+): string {
+  const pattern = options.messages?.[key] ?? currentMessages[key] ?? enMessages[key];
+  return formatMessage(pattern, values, options.locale ?? currentLocale);
+}
+
+/**
+ * Subscribe to catalog changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeMessages(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * ICU-style message formatting.
+ *
+ * Supports the subset of ICU MessageFormat that component strings need:
+ * `{name}`, `{name, number}`, `{name, plural, ...}` (with `=N` cases,
+ * `offset:` and `#`), `{name, select, ...}`, and apostrophe quoting
+ * (`''` for a literal apostrophe, `'{'` for a literal brace).
+ */
+
+import type { MessageValues } from "./messages.js";
+
+type MessagePart =
+  | string
+  | { kind: "argument"; name: string; format?: "number" }
+  | { kind: "pound" }
+  | {
+      kind: "plural" | "select";
+      name: string;
+      offset: number;
+      options: Record<string, MessagePart[]>;
+    };
+
+const cache = new Map<string, MessagePart[]>();
+
+function parseMessage(source: string): MessagePart[] {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message "${source}": ${reason} at ${pos}`);
+  };
+
+  const expect = (char: string): void => {
+    if (source[pos] !== char) fail(`expected ${char}`);
+    pos++;
+  };
+
+  const skipWhitespace = (): void => {
+    while (/\s/.test(source[pos] ?? "")) pos++;
+  };
+
+  const readUntil = (stops: string): string => {
+    const start = pos;
+    while (pos < source.length && !stops.includes(source[pos] as string)) pos++;
+    return source.slice(start, pos).trim();
+  };
+
+  const parseQuoted = (inPlural: boolean): string => {
+    const next = source[pos + 1];
+    if (next === "'") {
+      pos += 2;
+      return "'";
+    }
+    if (next !== "{" && next !== "}" && !(next === "#" && inPlural)) {
+      pos++;
+      return "'";
+    }
+
+    const end = source.indexOf("'", pos + 1);
+    const quoted = source.slice(pos + 1, end === -1 ? undefined : end);
+    pos = end === -1 ? source.length : end + 1;
+    return quoted;
+  };
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    pos++; // {
+    const name = readUntil(",}");
+    if (!name) fail("missing argument name");
+
+    if (source[pos] === "}") {
+      pos++;
+      return { kind: "argument", name };
+    }
+
+    pos++; // ,
+    const type = readUntil(",}");
+
+    if (type === "number") {
+      // Number styles aren't supported; skip them
+      readUntil("}");
+      expect("}");
+      return { kind: "argument", name, format: "number" };
+    }
+    if (type !== "plural" && type !== "select") return fail(`unknown argument type "${type}"`);
+
+    expect(",");
+    let offset = 0;
+    const options: Record<string, MessagePart[]> = {};
+
+    for (;;) {
+      skipWhitespace();
+      if (source[pos] === "}" || pos >= source.length) break;
+
+      const selector = readUntil("{ \n\t}");
+      if (!selector) fail("missing selector");
+      if (type === "plural" && selector.startsWith("offset:")) {
+        offset = Number(selector.slice("offset:".length));
+        continue;
+      }
+
+      skipWhitespace();
+      expect("{");
+      // `#` inside a select nested in a plural still refers to the plural count
+      options[selector] = parseParts(inPlural || type === "plural");
+      expect("}");
+    }
+
+    expect("}");
+    if (!options.other) fail(`${type} argument "${name}" needs an "other" case`);
+    return { kind: type, name, offset, options };
+  };
+
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) parts.push(text);
+      text = "";
+    };
+
+    while (pos < source.length) {
+      const char = source[pos] as string;
+
+      if (char === "'") {
+        text += parseQuoted(inPlural);
+      } else if (char === "{") {
+        flush();
+        parts.push(parseArgument(inPlural));
+      } else if (char === "}") {
+        break;
+      } else if (char === "#" && inPlural) {
+        flush();
+        parts.push({ kind: "pound" });
+        pos++;
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+
+    flush();
+    return parts;
+  };
+
+  const parts = parseParts(false);
+  if (pos < source.length) fail("unexpected }");
+  cache.set(source, parts);
+  return parts;
+}
+
+function formatParts(
+  parts: MessagePart[],
+  values: MessageValues,
+  locale: string,
+  pound: number | null
+): string {
+  let result = "";
+
+  for (const part of parts) {
+    if (typeof part === "string") {
+      result += part;
+      continue;
+    }
+
+    if (part.kind === "pound") {
+      result += pound === null ? "#" : new Intl.NumberFormat(locale).format(pound);
+      continue;
+    }
+
+    const value = values[part.name];
+    if (part.kind === "argument") {
+      if (value === undefined) {
+        result += `{${part.name}}`;
+      } else if (part.format === "number" && typeof value === "number") {
+        result += new Intl.NumberFormat(locale).format(value);
+      } else {
+        result += String(value);
+      }
+    } else if (part.kind === "select") {
+      const branch = part.options[String(value)] ?? (part.options.other as MessagePart[]);
+      result += formatParts(branch, values, locale, pound);
+    } else {
+      const count = Number(value);
+      const exact = part.options[`=${count}`];
+      const branch =
+        exact ??
+        part.options[new Intl.PluralRules(locale).select(count - part.offset)] ??
+        (part.options.other as MessagePart[]);
+      result += formatParts(branch, values, locale, count - part.offset);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format an ICU-style message. Arguments without a value are left in
+ * place as `{name}`.
+ *
+ * @throws Error when the pattern is malformed
+ *
+ * @example
+ * ```typescript
+ * formatMessage("{count, plural, =0 {No files} one {# file} other {# files}}", { count: 3 });
+ * // "3 files"
+ * ```
+ */
+export function formatMessage(pattern: string, values: MessageValues = {}, locale = "en"): string {
+  return formatParts(parseMessage(pattern), values, locale, null);
+}
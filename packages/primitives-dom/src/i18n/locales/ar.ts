@@ -0,0 +1,146 @@
+import type { Messages } from "../messages.js";
+
+/** Arabic messages */
+export const arMessages: Messages = {
+  "alert.dismiss": "إغلاق التنبيه",
+  "avatarGroup.label": "مجموعة الصور الرمزية",
+  "badge.dot": "مؤشر الإشعارات",
+  "badge.count": "{count} إشعارات",
+  "breadcrumb.label": "مسار التنقل",
+  "calendar.label": "التقويم",
+  "calendar.previousMonth": "الشهر السابق",
+  "calendar.nextMonth": "الشهر التالي",
+  "calendar.previousYear": "السنة السابقة",
+  "calendar.nextYear": "السنة التالية",
+  "calendar.unavailable": "غير متاح",
+  "calendar.rangeUnavailable": "تتضمن الفترة تواريخ غير متاحة",
+  "calendar.minNights":
+    "{count, plural, one {الحد الأدنى للإقامة ليلة واحدة} two {الحد الأدنى للإقامة ليلتان} few {الحد الأدنى للإقامة # ليالٍ} other {الحد الأدنى للإقامة # ليلة}}",
+  "calendar.maxNights":
+    "{count, plural, one {الحد الأقصى للإقامة ليلة واحدة} two {الحد الأقصى للإقامة ليلتان} few {الحد الأقصى للإقامة # ليالٍ} other {الحد الأقصى للإقامة # ليلة}}",
+  "calendar.presets": "فترات محددة مسبقًا",
+  "calendar.preset.today": "اليوم",
+  "calendar.preset.last7Days": "آخر 7 أيام",
+  "calendar.preset.last30Days": "آخر 30 يومًا",
+  "calendar.preset.thisMonth": "هذا الشهر",
+  "calendar.preset.thisQuarter": "هذا الربع",
+  "calendar.preset.thisYear": "هذا العام",
+  "combobox.noResults": "لا توجد نتائج",
+  "combobox.loading": "جارٍ التحميل...",
+  "combobox.loadError": "تعذر تحميل العناصر",
+  "combobox.removeTag": "{label}، اضغط Delete للإزالة",
+  "command.loading": "جارٍ التحميل",
+  "command.label": "لوحة الأوامر",
+  "command.placeholder": "اكتب أمرًا أو ابحث...",
+  "command.recent": "الأخيرة",
+  "command.loadError": "تعذّر تحميل النتائج",
+  "dataTable.label": "جدول بيانات",
+  "dataTable.empty": "لا توجد بيانات",
+  "dataTable.selectColumn": "تحديد",
+  "dataTable.selectAll": "تحديد كل الصفوف",
+  "dataTable.selectRow": "تحديد الصف",
+  "dataTable.detailsColumn": "التفاصيل",
+  "dataTable.showDetails": "عرض التفاصيل",
+  "dataTable.toggleColumns": "إظهار الأعمدة أو إخفاؤها",
+  "dataTable.resizeColumn": "تغيير عرض العمود {column}",
+  "dataTable.sortedBy": "مرتب حسب {columns}",
+  "dataTable.sortAscending": "{column}، تصاعدي",
+  "dataTable.sortDescending": "{column}، تنازلي",
+  "dataTable.sortSeparator": "، ثم ",
+  "dataTable.sortCleared": "تم إلغاء الترتيب",
+  "dataTable.selectedCount":
+    "{count, plural, zero {لم يُحدد شيء} one {تم تحديد عنصر واحد} two {تم تحديد عنصرين} few {تم تحديد # عناصر} many {تم تحديد # عنصرًا} other {تم تحديد # عنصر}}",
+  "dataTable.clearSelection": "مسح",
+  "dataTable.showing": "عرض {start, number}-{end, number} من {total, number}",
+  "dataTable.rowsPerPage": "عدد الصفوف في الصفحة:",
+  "dataTable.previousPage": "الصفحة السابقة",
+  "dataTable.nextPage": "الصفحة التالية",
+  "dataTable.page": "الصفحة {page}",
+  "dateField.label": "التاريخ",
+  "dateField.day": "اليوم",
+  "dateField.month": "الشهر",
+  "dateField.year": "السنة",
+  "dateField.empty": "فارغ",
+  "dateField.dayPlaceholder": "يوم",
+  "dateField.monthPlaceholder": "شهر",
+  "dateField.yearPlaceholder": "سنة",
+  "datePicker.dialogLabel": "اختيار التاريخ",
+  "dateTimePicker.label": "التاريخ والوقت",
+  "dateTimePicker.placeholder": "اختيار التاريخ",
+  "fileUpload.dropzone":
+    "{multiple, select, true {أفلت الملفات هنا أو انقر للرفع} other {أفلت الملف هنا أو انقر للرفع}}",
+  "fileUpload.dropActive": "أفلت الملفات هنا",
+  "fileUpload.accepted": "المقبول: {types}",
+  "fileUpload.maxSize": "الحجم الأقصى: {size}",
+  "fileUpload.filesAdded":
+    "{count, plural, one {تمت إضافة {name}} two {تمت إضافة ملفين} few {تمت إضافة # ملفات} many {تمت إضافة # ملفًا} other {تمت إضافة # ملف}}",
+  "fileUpload.fileRemoved": "تمت إزالة {name}",
+  "fileUpload.fileList": "الملفات المحددة",
+  "fileUpload.removeFile": "إزالة {name}",
+  "fileUpload.tooManyFiles":
+    "{max, plural, one {يُسمح بملف واحد فقط} two {يُسمح بملفين كحد أقصى} few {يُسمح بـ # ملفات كحد أقصى} many {يُسمح بـ # ملفًا كحد أقصى} other {يُسمح بـ # ملف كحد أقصى}}",
+  "fileUpload.invalidType":
+    '{type, select, none {نوع الملف هذا غير مقبول} other {نوع الملف "{type}" غير مقبول}}',
+  "fileUpload.fileTooLarge": "حجم الملف ({size}) يتجاوز الحد الأقصى ({max})",
+  "fileUpload.fileTooSmall": "حجم الملف ({size}) أقل من الحد الأدنى ({min})",
+  "fileUpload.cancel": "إلغاء",
+  "fileUpload.retry": "إعادة المحاولة",
+  "fileUpload.cancelUpload": "إلغاء تحميل {name}",
+  "fileUpload.retryUpload": "إعادة محاولة تحميل {name}",
+  "fileUpload.uploadFailed": "فشل التحميل",
+  "fileUpload.uploadCanceled": "تم إلغاء التحميل",
+  "fileUpload.uploadComplete": "تم تحميل {name}",
+  "fileUpload.uploadProgress": "جارٍ تحميل {name}",
+  "form.error": "حدث خطأ ما. يرجى المحاولة مرة أخرى.",
+  "numberInput.increment": "زيادة",
+  "numberInput.decrement": "إنقاص",
+  "pagination.label": "ترقيم الصفحات",
+  "pagination.previous": "الانتقال إلى الصفحة السابقة",
+  "pagination.next": "الانتقال إلى الصفحة التالية",
+  "pagination.previousText": "السابق",
+  "pagination.nextText": "التالي",
+  "pinInput.label": "إدخال رمز PIN من {length} أرقام",
+  "pinInput.digit": "الرقم {index} من {length}",
+  "progress.loading": "جارٍ التحميل...",
+  "progress.complete": "اكتمل {percent, number}%",
+  "select.loading": "جارٍ التحميل...",
+  "skeleton.loading": "جارٍ التحميل...",
+  "slider.minimum": "القيمة الدنيا",
+  "slider.maximum": "القيمة القصوى",
+  "spinner.label": "جارٍ التحميل",
+  "stepper.label": "خطوات التقدم",
+  "tag.remove": "إزالة",
+  "timePicker.label": "منتقي الوقت",
+  "timePicker.hour": "الساعة",
+  "timePicker.minute": "الدقيقة",
+  "timePicker.second": "الثانية",
+  "timePicker.period": "ص/م",
+  "toast.region": "الإشعارات",
+  "toast.regionHotkey": "الإشعارات ({hotkey})",
+  "toast.dismiss": "إغلاق الإشعار",
+  "tree.expand": "توسيع",
+  "tree.collapse": "طي",
+  "tree.loading": "جارٍ التحميل...",
+  "tree.loadError": "تعذر تحميل العناصر",
+  "tree.retry": "إعادة المحاولة",
+  "tree.moved": "تم نقل {name}",
+  "validation.checkboxRequired": "يرجى تحديد هذا المربع للمتابعة",
+  "validation.switchRequired": "يرجى تشغيل هذا المفتاح للمتابعة",
+  "validation.selectRequired": "يرجى اختيار خيار",
+  "validation.dateTimeRequired": "يرجى اختيار التاريخ والوقت",
+  "validation.valueMissing": "يرجى ملء هذا الحقل",
+  "validation.rangeUnderflow": "يجب أن تكون القيمة {min} أو أكثر",
+  "validation.rangeOverflow": "يجب أن تكون القيمة {max} أو أقل",
+  "validation.stepMismatch": "يجب أن تكون القيمة بخطوات قدرها {step}",
+  "validation.dateRequired": "يرجى اختيار تاريخ",
+  "validation.dateRangeRequired": "يرجى اختيار تاريخ البداية والنهاية",
+  "validation.dateUnderflow": "يرجى اختيار تاريخ في {min} أو بعده",
+  "validation.dateOverflow": "يرجى اختيار تاريخ في {max} أو قبله",
+  "validation.timeRequired": "يرجى اختيار وقت",
+  "validation.timeUnderflow": "يرجى اختيار وقت في {min} أو بعده",
+  "validation.timeOverflow": "يرجى اختيار وقت في {max} أو قبله",
+  "validation.pinRequired": "يرجى إدخال الرمز",
+  "validation.pinIncomplete": "يرجى إدخال جميع الأحرف الـ {length}",
+  "validation.fileRequired": "يرجى اختيار ملف",
+  "validation.fileType": "{name} ليس نوع ملف مقبولًا",
+};
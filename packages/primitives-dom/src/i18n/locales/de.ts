@@ -0,0 +1,145 @@
+import type { Messages } from "../messages.js";
+
+/** German messages */
+export const deMessages: Messages = {
+  "alert.dismiss": "Hinweis schließen",
+  "avatarGroup.label": "Avatargruppe",
+  "badge.dot": "Benachrichtigungsanzeige",
+  "badge.count": "{count} Benachrichtigungen",
+  "breadcrumb.label": "Brotkrümelnavigation",
+  "calendar.label": "Kalender",
+  "calendar.previousMonth": "Vorheriger Monat",
+  "calendar.nextMonth": "Nächster Monat",
+  "calendar.previousYear": "Vorheriges Jahr",
+  "calendar.nextYear": "Nächstes Jahr",
+  "calendar.unavailable": "Nicht verfügbar",
+  "calendar.rangeUnavailable": "Zeitraum enthält nicht verfügbare Tage",
+  "calendar.minNights":
+    "{count, plural, one {Mindestaufenthalt # Nacht} other {Mindestaufenthalt # Nächte}}",
+  "calendar.maxNights":
+    "{count, plural, one {Höchstaufenthalt # Nacht} other {Höchstaufenthalt # Nächte}}",
+  "calendar.presets": "Zeitraum-Vorlagen",
+  "calendar.preset.today": "Heute",
+  "calendar.preset.last7Days": "Letzte 7 Tage",
+  "calendar.preset.last30Days": "Letzte 30 Tage",
+  "calendar.preset.thisMonth": "Dieser Monat",
+  "calendar.preset.thisQuarter": "Dieses Quartal",
+  "calendar.preset.thisYear": "Dieses Jahr",
+  "combobox.noResults": "Keine Ergebnisse gefunden",
+  "combobox.loading": "Wird geladen...",
+  "combobox.loadError": "Einträge konnten nicht geladen werden",
+  "combobox.removeTag": "{label}, zum Entfernen Entf drücken",
+  "command.loading": "Wird geladen",
+  "command.label": "Befehlspalette",
+  "command.placeholder": "Befehl eingeben oder suchen...",
+  "command.recent": "Zuletzt verwendet",
+  "command.loadError": "Ergebnisse konnten nicht geladen werden",
+  "dataTable.label": "Datentabelle",
+  "dataTable.empty": "Keine Daten verfügbar",
+  "dataTable.selectColumn": "Auswählen",
+  "dataTable.selectAll": "Alle Zeilen auswählen",
+  "dataTable.selectRow": "Zeile auswählen",
+  "dataTable.detailsColumn": "Details",
+  "dataTable.showDetails": "Details anzeigen",
+  "dataTable.toggleColumns": "Spalten ein-/ausblenden",
+  "dataTable.resizeColumn": "Breite der Spalte {column} ändern",
+  "dataTable.sortedBy": "Sortiert nach {columns}",
+  "dataTable.sortAscending": "{column}, aufsteigend",
+  "dataTable.sortDescending": "{column}, absteigend",
+  "dataTable.sortSeparator": ", dann ",
+  "dataTable.sortCleared": "Sortierung aufgehoben",
+  "dataTable.selectedCount": "{count, number} ausgewählt",
+  "dataTable.clearSelection": "Aufheben",
+  "dataTable.showing": "{start, number}–{end, number} von {total, number}",
+  "dataTable.rowsPerPage": "Zeilen pro Seite:",
+  "dataTable.previousPage": "Vorherige Seite",
+  "dataTable.nextPage": "Nächste Seite",
+  "dataTable.page": "Seite {page}",
+  "dateField.label": "Datum",
+  "dateField.day": "Tag",
+  "dateField.month": "Monat",
+  "dateField.year": "Jahr",
+  "dateField.empty": "Leer",
+  "dateField.dayPlaceholder": "TT",
+  "dateField.monthPlaceholder": "MM",
+  "dateField.yearPlaceholder": "JJJJ",
+  "datePicker.dialogLabel": "Datum auswählen",
+  "dateTimePicker.label": "Datum und Uhrzeit",
+  "dateTimePicker.placeholder": "Datum auswählen",
+  "fileUpload.dropzone":
+    "{multiple, select, true {Dateien hier ablegen oder zum Hochladen klicken} other {Datei hier ablegen oder zum Hochladen klicken}}",
+  "fileUpload.dropActive": "Dateien hier ablegen",
+  "fileUpload.accepted": "Akzeptiert: {types}",
+  "fileUpload.maxSize": "Max. Größe: {size}",
+  "fileUpload.filesAdded":
+    "{count, plural, one {{name} hinzugefügt} other {# Dateien hinzugefügt}}",
+  "fileUpload.fileRemoved": "{name} entfernt",
+  "fileUpload.fileList": "Ausgewählte Dateien",
+  "fileUpload.removeFile": "{name} entfernen",
+  "fileUpload.tooManyFiles":
+    "{max, plural, one {Nur # Datei erlaubt} other {Höchstens # Dateien erlaubt}}",
+  "fileUpload.invalidType":
+    '{type, select, none {Dieser Dateityp wird nicht akzeptiert} other {Dateityp „{type}" wird nicht akzeptiert}}',
+  "fileUpload.fileTooLarge": "Dateigröße ({size}) überschreitet das Maximum ({max})",
+  "fileUpload.fileTooSmall": "Dateigröße ({size}) unterschreitet das Minimum ({min})",
+  "fileUpload.cancel": "Abbrechen",
+  "fileUpload.retry": "Wiederholen",
+  "fileUpload.cancelUpload": "Upload von {name} abbrechen",
+  "fileUpload.retryUpload": "Upload von {name} wiederholen",
+  "fileUpload.uploadFailed": "Upload fehlgeschlagen",
+  "fileUpload.uploadCanceled": "Upload abgebrochen",
+  "fileUpload.uploadComplete": "{name} hochgeladen",
+  "fileUpload.uploadProgress": "{name} wird hochgeladen",
+  "form.error": "Etwas ist schiefgelaufen. Bitte versuchen Sie es erneut.",
+  "numberInput.increment": "Erhöhen",
+  "numberInput.decrement": "Verringern",
+  "pagination.label": "Seitennummerierung",
+  "pagination.previous": "Zur vorherigen Seite",
+  "pagination.next": "Zur nächsten Seite",
+  "pagination.previousText": "Zurück",
+  "pagination.nextText": "Weiter",
+  "pinInput.label": "PIN-Eingabe mit {length} Ziffern",
+  "pinInput.digit": "Ziffer {index} von {length}",
+  "progress.loading": "Wird geladen...",
+  "progress.complete": "{percent, number} % abgeschlossen",
+  "select.loading": "Wird geladen...",
+  "skeleton.loading": "Wird geladen...",
+  "slider.minimum": "Minimalwert",
+  "slider.maximum": "Maximalwert",
+  "spinner.label": "Wird geladen",
+  "stepper.label": "Fortschrittsschritte",
+  "tag.remove": "Entfernen",
+  "timePicker.label": "Zeitauswahl",
+  "timePicker.hour": "Stunde",
+  "timePicker.minute": "Minute",
+  "timePicker.second": "Sekunde",
+  "timePicker.period": "AM/PM",
+  "toast.region": "Benachrichtigungen",
+  "toast.regionHotkey": "Benachrichtigungen ({hotkey})",
+  "toast.dismiss": "Benachrichtigung schließen",
+  "tree.expand": "Aufklappen",
+  "tree.collapse": "Zuklappen",
+  "tree.loading": "Wird geladen...",
+  "tree.loadError": "Einträge konnten nicht geladen werden",
+  "tree.retry": "Erneut versuchen",
+  "tree.moved": "{name} verschoben",
+  "validation.checkboxRequired": "Bitte aktivieren Sie dieses Kästchen, um fortzufahren",
+  "validation.switchRequired": "Bitte schalten Sie diesen Schalter ein, um fortzufahren",
+  "validation.selectRequired": "Bitte wählen Sie eine Option aus",
+  "validation.dateTimeRequired": "Bitte wählen Sie Datum und Uhrzeit aus",
+  "validation.valueMissing": "Bitte füllen Sie dieses Feld aus",
+  "validation.rangeUnderflow": "Der Wert muss mindestens {min} sein",
+  "validation.rangeOverflow": "Der Wert darf höchstens {max} sein",
+  "validation.stepMismatch": "Der Wert muss in Schritten von {step} liegen",
+  "validation.dateRequired": "Bitte wählen Sie ein Datum aus",
+  "validation.dateRangeRequired": "Bitte wählen Sie ein Start- und Enddatum aus",
+  "validation.dateUnderflow": "Bitte wählen Sie ein Datum am oder nach dem {min} aus",
+  "validation.dateOverflow": "Bitte wählen Sie ein Datum am oder vor dem {max} aus",
+  "validation.timeRequired": "Bitte wählen Sie eine Uhrzeit aus",
+  "validation.timeUnderflow": "Bitte wählen Sie eine Uhrzeit ab {min} aus",
+  "validation.timeOverflow": "Bitte wählen Sie eine Uhrzeit bis {max} aus",
+  "validation.pinRequired": "Bitte geben Sie den Code ein",
+  "validation.pinIncomplete": "Bitte geben Sie alle {length} Zeichen ein",
+  "validation.fileRequired": "Bitte wählen Sie eine Datei aus",
+  "validation.fileType": "{name} ist kein zulässiger Dateityp",
+};
@@ -0,0 +1,144 @@
+import type { Messages } from "../messages.js";
+
+/** Spanish messages */
+export const esMessages: Messages = {
+  "alert.dismiss": "Cerrar alerta",
+  "avatarGroup.label": "Grupo de avatares",
+  "badge.dot": "Indicador de notificación",
+  "badge.count": "{count} notificaciones",
+  "breadcrumb.label": "Ruta de navegación",
+  "calendar.label": "Calendario",
+  "calendar.previousMonth": "Mes anterior",
+  "calendar.nextMonth": "Mes siguiente",
+  "calendar.previousYear": "Año anterior",
+  "calendar.nextYear": "Año siguiente",
+  "calendar.unavailable": "No disponible",
+  "calendar.rangeUnavailable": "El periodo incluye fechas no disponibles",
+  "calendar.minNights":
+    "{count, plural, one {Estancia mínima de # noche} other {Estancia mínima de # noches}}",
+  "calendar.maxNights":
+    "{count, plural, one {Estancia máxima de # noche} other {Estancia máxima de # noches}}",
+  "calendar.presets": "Periodos predefinidos",
+  "calendar.preset.today": "Hoy",
+  "calendar.preset.last7Days": "Últimos 7 días",
+  "calendar.preset.last30Days": "Últimos 30 días",
+  "calendar.preset.thisMonth": "Este mes",
+  "calendar.preset.thisQuarter": "Este trimestre",
+  "calendar.preset.thisYear": "Este año",
+  "combobox.noResults": "No se encontraron resultados",
+  "combobox.loading": "Cargando...",
+  "combobox.loadError": "No se pudieron cargar los elementos",
+  "combobox.removeTag": "{label}, pulsa Supr para quitar",
+  "command.loading": "Cargando",
+  "command.label": "Paleta de comandos",
+  "command.placeholder": "Escribe un comando o busca...",
+  "command.recent": "Recientes",
+  "command.loadError": "No se pudieron cargar los resultados",
+  "dataTable.label": "Tabla de datos",
+  "dataTable.empty": "No hay datos disponibles",
+  "dataTable.selectColumn": "Seleccionar",
+  "dataTable.selectAll": "Seleccionar todas las filas",
+  "dataTable.selectRow": "Seleccionar fila",
+  "dataTable.detailsColumn": "Detalles",
+  "dataTable.showDetails": "Mostrar detalles",
+  "dataTable.toggleColumns": "Mostrar u ocultar columnas",
+  "dataTable.resizeColumn": "Cambiar el ancho de la columna {column}",
+  "dataTable.sortedBy": "Ordenado por {columns}",
+  "dataTable.sortAscending": "{column}, ascendente",
+  "dataTable.sortDescending": "{column}, descendente",
+  "dataTable.sortSeparator": ", luego ",
+  "dataTable.sortCleared": "Orden eliminado",
+  "dataTable.selectedCount": "{count, plural, one {# seleccionada} other {# seleccionadas}}",
+  "dataTable.clearSelection": "Borrar",
+  "dataTable.showing": "Mostrando {start, number}-{end, number} de {total, number}",
+  "dataTable.rowsPerPage": "Filas por página:",
+  "dataTable.previousPage": "Página anterior",
+  "dataTable.nextPage": "Página siguiente",
+  "dataTable.page": "Página {page}",
+  "dateField.label": "Fecha",
+  "dateField.day": "Día",
+  "dateField.month": "Mes",
+  "dateField.year": "Año",
+  "dateField.empty": "Vacío",
+  "dateField.dayPlaceholder": "dd",
+  "dateField.monthPlaceholder": "mm",
+  "dateField.yearPlaceholder": "aaaa",
+  "datePicker.dialogLabel": "Elegir fecha",
+  "dateTimePicker.label": "Fecha y hora",
+  "dateTimePicker.placeholder": "Elegir fecha",
+  "fileUpload.dropzone":
+    "{multiple, select, true {Suelta archivos aquí o haz clic para subirlos} other {Suelta un archivo aquí o haz clic para subirlo}}",
+  "fileUpload.dropActive": "Suelta los archivos aquí",
+  "fileUpload.accepted": "Aceptados: {types}",
+  "fileUpload.maxSize": "Tamaño máximo: {size}",
+  "fileUpload.filesAdded": "{count, plural, one {{name} añadido} other {# archivos añadidos}}",
+  "fileUpload.fileRemoved": "{name} eliminado",
+  "fileUpload.fileList": "Archivos seleccionados",
+  "fileUpload.removeFile": "Quitar {name}",
+  "fileUpload.tooManyFiles":
+    "{max, plural, one {Solo se permite # archivo} other {Se permiten como máximo # archivos}}",
+  "fileUpload.invalidType":
+    '{type, select, none {Este tipo de archivo no se acepta} other {El tipo de archivo "{type}" no se acepta}}',
+  "fileUpload.fileTooLarge": "El tamaño del archivo ({size}) supera el máximo ({max})",
+  "fileUpload.fileTooSmall": "El tamaño del archivo ({size}) es inferior al mínimo ({min})",
+  "fileUpload.cancel": "Cancelar",
+  "fileUpload.retry": "Reintentar",
+  "fileUpload.cancelUpload": "Cancelar la subida de {name}",
+  "fileUpload.retryUpload": "Reintentar la subida de {name}",
+  "fileUpload.uploadFailed": "Error al subir",
+  "fileUpload.uploadCanceled": "Subida cancelada",
+  "fileUpload.uploadComplete": "{name} subido",
+  "fileUpload.uploadProgress": "Subiendo {name}",
+  "form.error": "Algo salió mal. Inténtalo de nuevo.",
+  "numberInput.increment": "Aumentar",
+  "numberInput.decrement": "Disminuir",
+  "pagination.label": "Paginación",
+  "pagination.previous": "Ir a la página anterior",
+  "pagination.next": "Ir a la página siguiente",
+  "pagination.previousText": "Anterior",
+  "pagination.nextText": "Siguiente",
+  "pinInput.label": "Entrada de PIN de {length} dígitos",
+  "pinInput.digit": "Dígito {index} de {length}",
+  "progress.loading": "Cargando...",
+  "progress.complete": "{percent, number} % completado",
+  "select.loading": "Cargando...",
+  "skeleton.loading": "Cargando...",
+  "slider.minimum": "Valor mínimo",
+  "slider.maximum": "Valor máximo",
+  "spinner.label": "Cargando",
+  "stepper.label": "Pasos del progreso",
+  "tag.remove": "Quitar",
+  "timePicker.label": "Selector de hora",
+  "timePicker.hour": "Hora",
+  "timePicker.minute": "Minuto",
+  "timePicker.second": "Segundo",
+  "timePicker.period": "a. m./p. m.",
+  "toast.region": "Notificaciones",
+  "toast.regionHotkey": "Notificaciones ({hotkey})",
+  "toast.dismiss": "Cerrar notificación",
+  "tree.expand": "Expandir",
+  "tree.collapse": "Contraer",
+  "tree.loading": "Cargando...",
+  "tree.loadError": "No se pudieron cargar los elementos",
+  "tree.retry": "Reintentar",
+  "tree.moved": "{name} movido",
+  "validation.checkboxRequired": "Marca esta casilla para continuar",
+  "validation.switchRequired": "Activa este interruptor para continuar",
+  "validation.selectRequired": "Selecciona una opción",
+  "validation.dateTimeRequired": "Elige una fecha y una hora",
+  "validation.valueMissing": "Completa este campo",
+  "validation.rangeUnderflow": "El valor debe ser {min} o más",
+  "validation.rangeOverflow": "El valor debe ser {max} o menos",
+  "validation.stepMismatch": "El valor debe ir en incrementos de {step}",
+  "validation.dateRequired": "Elige una fecha",
+  "validation.dateRangeRequired": "Elige una fecha de inicio y de fin",
+  "validation.dateUnderflow": "Elige una fecha igual o posterior a {min}",
+  "validation.dateOverflow": "Elige una fecha igual o anterior a {max}",
+  "validation.timeRequired": "Elige una hora",
+  "validation.timeUnderflow": "Elige una hora igual o posterior a {min}",
+  "validation.timeOverflow": "Elige una hora igual o anterior a {max}",
+  "validation.pinRequired": "Introduce el código",
+  "validation.pinIncomplete": "Introduce los {length} caracteres",
+  "validation.fileRequired": "Selecciona un archivo",
+  "validation.fileType": "{name} no es un tipo de archivo admitido",
+};
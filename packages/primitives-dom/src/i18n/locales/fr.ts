@@ -0,0 +1,144 @@
+import type { Messages } from "../messages.js";
+
+/** French messages */
+export const frMessages: Messages = {
+  "alert.dismiss": "Fermer l'alerte",
+  "avatarGroup.label": "Groupe d'avatars",
+  "badge.dot": "Indicateur de notification",
+  "badge.count": "{count} notifications",
+  "breadcrumb.label": "Fil d'Ariane",
+  "calendar.label": "Calendrier",
+  "calendar.previousMonth": "Mois précédent",
+  "calendar.nextMonth": "Mois suivant",
+  "calendar.previousYear": "Année précédente",
+  "calendar.nextYear": "Année suivante",
+  "calendar.unavailable": "Indisponible",
+  "calendar.rangeUnavailable": "La période contient des dates indisponibles",
+  "calendar.minNights":
+    "{count, plural, one {Séjour minimum de # nuit} other {Séjour minimum de # nuits}}",
+  "calendar.maxNights":
+    "{count, plural, one {Séjour maximum de # nuit} other {Séjour maximum de # nuits}}",
+  "calendar.presets": "Périodes prédéfinies",
+  "calendar.preset.today": "Aujourd'hui",
+  "calendar.preset.last7Days": "7 derniers jours",
+  "calendar.preset.last30Days": "30 derniers jours",
+  "calendar.preset.thisMonth": "Ce mois-ci",
+  "calendar.preset.thisQuarter": "Ce trimestre",
+  "calendar.preset.thisYear": "Cette année",
+  "combobox.noResults": "Aucun résultat",
+  "combobox.loading": "Chargement...",
+  "combobox.loadError": "Impossible de charger les éléments",
+  "combobox.removeTag": "{label}, appuyez sur Suppr pour supprimer",
+  "command.loading": "Chargement",
+  "command.label": "Palette de commandes",
+  "command.placeholder": "Saisissez une commande ou recherchez...",
+  "command.recent": "Récents",
+  "command.loadError": "Impossible de charger les résultats",
+  "dataTable.label": "Tableau de données",
+  "dataTable.empty": "Aucune donnée disponible",
+  "dataTable.selectColumn": "Sélectionner",
+  "dataTable.selectAll": "Sélectionner toutes les lignes",
+  "dataTable.selectRow": "Sélectionner la ligne",
+  "dataTable.detailsColumn": "Détails",
+  "dataTable.showDetails": "Afficher les détails",
+  "dataTable.toggleColumns": "Afficher/masquer les colonnes",
+  "dataTable.resizeColumn": "Redimensionner la colonne {column}",
+  "dataTable.sortedBy": "Trié par {columns}",
+  "dataTable.sortAscending": "{column}, croissant",
+  "dataTable.sortDescending": "{column}, décroissant",
+  "dataTable.sortSeparator": ", puis ",
+  "dataTable.sortCleared": "Tri supprimé",
+  "dataTable.selectedCount": "{count, plural, one {# sélectionnée} other {# sélectionnées}}",
+  "dataTable.clearSelection": "Effacer",
+  "dataTable.showing": "{start, number}-{end, number} sur {total, number}",
+  "dataTable.rowsPerPage": "Lignes par page :",
+  "dataTable.previousPage": "Page précédente",
+  "dataTable.nextPage": "Page suivante",
+  "dataTable.page": "Page {page}",
+  "dateField.label": "Date",
+  "dateField.day": "Jour",
+  "dateField.month": "Mois",
+  "dateField.year": "Année",
+  "dateField.empty": "Vide",
+  "dateField.dayPlaceholder": "jj",
+  "dateField.monthPlaceholder": "mm",
+  "dateField.yearPlaceholder": "aaaa",
+  "datePicker.dialogLabel": "Choisir une date",
+  "dateTimePicker.label": "Date et heure",
+  "dateTimePicker.placeholder": "Choisir une date",
+  "fileUpload.dropzone":
+    "{multiple, select, true {Déposez des fichiers ici ou cliquez pour téléverser} other {Déposez un fichier ici ou cliquez pour téléverser}}",
+  "fileUpload.dropActive": "Déposez les fichiers ici",
+  "fileUpload.accepted": "Acceptés : {types}",
+  "fileUpload.maxSize": "Taille max. : {size}",
+  "fileUpload.filesAdded": "{count, plural, one {{name} ajouté} other {# fichiers ajoutés}}",
+  "fileUpload.fileRemoved": "{name} supprimé",
+  "fileUpload.fileList": "Fichiers sélectionnés",
+  "fileUpload.removeFile": "Supprimer {name}",
+  "fileUpload.tooManyFiles":
+    "{max, plural, one {# fichier autorisé au maximum} other {# fichiers autorisés au maximum}}",
+  "fileUpload.invalidType":
+    "{type, select, none {Ce type de fichier n'est pas accepté} other {Le type de fichier « {type} » n'est pas accepté}}",
+  "fileUpload.fileTooLarge": "La taille du fichier ({size}) dépasse le maximum ({max})",
+  "fileUpload.fileTooSmall": "La taille du fichier ({size}) est inférieure au minimum ({min})",
+  "fileUpload.cancel": "Annuler",
+  "fileUpload.retry": "Réessayer",
+  "fileUpload.cancelUpload": "Annuler l'envoi de {name}",
+  "fileUpload.retryUpload": "Réessayer l'envoi de {name}",
+  "fileUpload.uploadFailed": "Échec de l'envoi",
+  "fileUpload.uploadCanceled": "Envoi annulé",
+  "fileUpload.uploadComplete": "{name} envoyé",
+  "fileUpload.uploadProgress": "Envoi de {name}",
+  "form.error": "Une erreur s'est produite. Veuillez réessayer.",
+  "numberInput.increment": "Augmenter",
+  "numberInput.decrement": "Diminuer",
+  "pagination.label": "Pagination",
+  "pagination.previous": "Aller à la page précédente",
+  "pagination.next": "Aller à la page suivante",
+  "pagination.previousText": "Précédent",
+  "pagination.nextText": "Suivant",
+  "pinInput.label": "Saisie du code PIN à {length} chiffres",
+  "pinInput.digit": "Chiffre {index} sur {length}",
+  "progress.loading": "Chargement...",
+  "progress.complete": "{percent, number} % terminé",
+  "select.loading": "Chargement...",
+  "skeleton.loading": "Chargement...",
+  "slider.minimum": "Valeur minimale",
+  "slider.maximum": "Valeur maximale",
+  "spinner.label": "Chargement",
+  "stepper.label": "Étapes de progression",
+  "tag.remove": "Supprimer",
+  "timePicker.label": "Sélecteur d'heure",
+  "timePicker.hour": "Heure",
+  "timePicker.minute": "Minute",
+  "timePicker.second": "Seconde",
+  "timePicker.period": "AM/PM",
+  "toast.region": "Notifications",
+  "toast.regionHotkey": "Notifications ({hotkey})",
+  "toast.dismiss": "Fermer la notification",
+  "tree.expand": "Développer",
+  "tree.collapse": "Réduire",
+  "tree.loading": "Chargement...",
+  "tree.loadError": "Impossible de charger les éléments",
+  "tree.retry": "Réessayer",
+  "tree.moved": "{name} déplacé",
+  "validation.checkboxRequired": "Veuillez cocher cette case pour continuer",
+  "validation.switchRequired": "Veuillez activer cet interrupteur pour continuer",
+  "validation.selectRequired": "Veuillez sélectionner une option",
+  "validation.dateTimeRequired": "Veuillez choisir une date et une heure",
+  "validation.valueMissing": "Veuillez remplir ce champ",
+  "validation.rangeUnderflow": "La valeur doit être supérieure ou égale à {min}",
+  "validation.rangeOverflow": "La valeur doit être inférieure ou égale à {max}",
+  "validation.stepMismatch": "La valeur doit suivre un pas de {step}",
+  "validation.dateRequired": "Veuillez choisir une date",
+  "validation.dateRangeRequired": "Veuillez choisir une date de début et de fin",
+  "validation.dateUnderflow": "Veuillez choisir une date à partir du {min}",
+  "validation.dateOverflow": "Veuillez choisir une date jusqu'au {max}",
+  "validation.timeRequired": "Veuillez choisir une heure",
+  "validation.timeUnderflow": "Veuillez choisir une heure à partir de {min}",
+  "validation.timeOverflow": "Veuillez choisir une heure jusqu'à {max}",
+  "validation.pinRequired": "Veuillez saisir le code",
+  "validation.pinIncomplete": "Veuillez saisir les {length} caractères",
+  "validation.fileRequired": "Veuillez sélectionner un fichier",
+  "validation.fileType": "{name} n'est pas un type de fichier accepté",
+};
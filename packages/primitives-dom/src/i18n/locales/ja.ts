@@ -0,0 +1,141 @@
+import type { Messages } from "../messages.js";
+
+/** Japanese messages */
+export const jaMessages: Messages = {
+  "alert.dismiss": "アラートを閉じる",
+  "avatarGroup.label": "アバターグループ",
+  "badge.dot": "通知インジケーター",
+  "badge.count": "{count}件の通知",
+  "breadcrumb.label": "パンくずリスト",
+  "calendar.label": "カレンダー",
+  "calendar.previousMonth": "前の月",
+  "calendar.nextMonth": "次の月",
+  "calendar.previousYear": "前の年",
+  "calendar.nextYear": "次の年",
+  "calendar.unavailable": "予約不可",
+  "calendar.rangeUnavailable": "期間に予約できない日が含まれています",
+  "calendar.minNights": "最短 {count} 泊",
+  "calendar.maxNights": "最長 {count} 泊",
+  "calendar.presets": "期間のプリセット",
+  "calendar.preset.today": "今日",
+  "calendar.preset.last7Days": "過去 7 日間",
+  "calendar.preset.last30Days": "過去 30 日間",
+  "calendar.preset.thisMonth": "今月",
+  "calendar.preset.thisQuarter": "今四半期",
+  "calendar.preset.thisYear": "今年",
+  "combobox.noResults": "結果が見つかりません",
+  "combobox.loading": "読み込み中...",
+  "combobox.loadError": "項目を読み込めませんでした",
+  "combobox.removeTag": "{label}、Delete キーで削除",
+  "command.loading": "読み込み中",
+  "command.label": "コマンドパレット",
+  "command.placeholder": "コマンドを入力または検索...",
+  "command.recent": "最近使用した項目",
+  "command.loadError": "結果を読み込めませんでした",
+  "dataTable.label": "データテーブル",
+  "dataTable.empty": "データがありません",
+  "dataTable.selectColumn": "選択",
+  "dataTable.selectAll": "すべての行を選択",
+  "dataTable.selectRow": "行を選択",
+  "dataTable.detailsColumn": "詳細",
+  "dataTable.showDetails": "詳細を表示",
+  "dataTable.toggleColumns": "列の表示切り替え",
+  "dataTable.resizeColumn": "{column}列の幅を変更",
+  "dataTable.sortedBy": "{columns}で並べ替え",
+  "dataTable.sortAscending": "{column}、昇順",
+  "dataTable.sortDescending": "{column}、降順",
+  "dataTable.sortSeparator": "、次に",
+  "dataTable.sortCleared": "並べ替えを解除しました",
+  "dataTable.selectedCount": "{count, number}件選択中",
+  "dataTable.clearSelection": "クリア",
+  "dataTable.showing": "{total, number}件中 {start, number}〜{end, number}件を表示",
+  "dataTable.rowsPerPage": "1ページの行数:",
+  "dataTable.previousPage": "前のページ",
+  "dataTable.nextPage": "次のページ",
+  "dataTable.page": "{page}ページ",
+  "dateField.label": "日付",
+  "dateField.day": "日",
+  "dateField.month": "月",
+  "dateField.year": "年",
+  "dateField.empty": "空",
+  "dateField.dayPlaceholder": "日",
+  "dateField.monthPlaceholder": "月",
+  "dateField.yearPlaceholder": "年",
+  "datePicker.dialogLabel": "日付を選択",
+  "dateTimePicker.label": "日時",
+  "dateTimePicker.placeholder": "日付を選択",
+  "fileUpload.dropzone": "ここにファイルをドロップするか、クリックしてアップロード",
+  "fileUpload.dropActive": "ここにファイルをドロップ",
+  "fileUpload.accepted": "対応形式: {types}",
+  "fileUpload.maxSize": "最大サイズ: {size}",
+  "fileUpload.filesAdded":
+    "{count, plural, one {{name}を追加しました} other {#件のファイルを追加しました}}",
+  "fileUpload.fileRemoved": "{name}を削除しました",
+  "fileUpload.fileList": "選択したファイル",
+  "fileUpload.removeFile": "{name}を削除",
+  "fileUpload.tooManyFiles": "ファイルは最大{max, number}件までです",
+  "fileUpload.invalidType":
+    "{type, select, none {このファイル形式は使用できません} other {ファイル形式「{type}」は使用できません}}",
+  "fileUpload.fileTooLarge": "ファイルサイズ ({size}) が上限 ({max}) を超えています",
+  "fileUpload.fileTooSmall": "ファイルサイズ ({size}) が下限 ({min}) を下回っています",
+  "fileUpload.cancel": "キャンセル",
+  "fileUpload.retry": "再試行",
+  "fileUpload.cancelUpload": "{name} のアップロードをキャンセル",
+  "fileUpload.retryUpload": "{name} のアップロードを再試行",
+  "fileUpload.uploadFailed": "アップロードに失敗しました",
+  "fileUpload.uploadCanceled": "アップロードをキャンセルしました",
+  "fileUpload.uploadComplete": "{name} をアップロードしました",
+  "fileUpload.uploadProgress": "{name} をアップロード中",
+  "form.error": "問題が発生しました。もう一度お試しください。",
+  "numberInput.increment": "増やす",
+  "numberInput.decrement": "減らす",
+  "pagination.label": "ページ送り",
+  "pagination.previous": "前のページへ",
+  "pagination.next": "次のページへ",
+  "pagination.previousText": "前へ",
+  "pagination.nextText": "次へ",
+  "pinInput.label": "{length}桁のPIN入力",
+  "pinInput.digit": "{length}桁中{index}桁目",
+  "progress.loading": "読み込み中...",
+  "progress.complete": "{percent, number}% 完了",
+  "select.loading": "読み込み中...",
+  "skeleton.loading": "読み込み中...",
+  "slider.minimum": "最小値",
+  "slider.maximum": "最大値",
+  "spinner.label": "読み込み中",
+  "stepper.label": "進行ステップ",
+  "tag.remove": "削除",
+  "timePicker.label": "時刻の選択",
+  "timePicker.hour": "時",
+  "timePicker.minute": "分",
+  "timePicker.second": "秒",
+  "timePicker.period": "午前/午後",
+  "toast.region": "通知",
+  "toast.regionHotkey": "通知 ({hotkey})",
+  "toast.dismiss": "通知を閉じる",
+  "tree.expand": "展開",
+  "tree.collapse": "折りたたむ",
+  "tree.loading": "読み込み中...",
+  "tree.loadError": "項目を読み込めませんでした",
+  "tree.retry": "再試行",
+  "tree.moved": "{name} を移動しました",
+  "validation.checkboxRequired": "続行するにはこのボックスをオンにしてください",
+  "validation.switchRequired": "続行するにはこのスイッチをオンにしてください",
+  "validation.selectRequired": "オプションを選択してください",
+  "validation.dateTimeRequired": "日時を選択してください",
+  "validation.valueMissing": "このフィールドに入力してください",
+  "validation.rangeUnderflow": "{min} 以上の値を入力してください",
+  "validation.rangeOverflow": "{max} 以下の値を入力してください",
+  "validation.stepMismatch": "{step} 刻みの値を入力してください",
+  "validation.dateRequired": "日付を選択してください",
+  "validation.dateRangeRequired": "開始日と終了日を選択してください",
+  "validation.dateUnderflow": "{min} 以降の日付を選択してください",
+  "validation.dateOverflow": "{max} 以前の日付を選択してください",
+  "validation.timeRequired": "時刻を選択してください",
+  "validation.timeUnderflow": "{min} 以降の時刻を選択してください",
+  "validation.timeOverflow": "{max} 以前の時刻を選択してください",
+  "validation.pinRequired": "コードを入力してください",
+  "validation.pinIncomplete": "{length} 文字すべて入力してください",
+  "validation.fileRequired": "ファイルを選択してください",
+  "validation.fileType": "{name} は使用できないファイル形式です",
+};
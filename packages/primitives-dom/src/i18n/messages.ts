@@ -0,0 +1,297 @@
+/**
+ * Message catalog for the user-visible strings of built-in components.
+ *
+ * Messages use ICU-style syntax: `{name}` interpolates a value,
+ * `{count, plural, one {# file} other {# files}}` picks a plural form and
+ * `{kind, select, a {...} other {...}}` picks a branch by value.
+ */
+
+/**
+ * All built-in component messages, keyed by `component.message`.
+ */
+export interface Messages {
+  "alert.dismiss": string;
+  "avatarGroup.label": string;
+  "badge.dot": string;
+  "badge.count": string;
+  "breadcrumb.label": string;
+  "calendar.label": string;
+  "calendar.previousMonth": string;
+  "calendar.nextMonth": string;
+  "calendar.previousYear": string;
+  "calendar.nextYear": string;
+  "calendar.unavailable": string;
+  "calendar.rangeUnavailable": string;
+  "calendar.minNights": string;
+  "calendar.maxNights": string;
+  "calendar.presets": string;
+  "calendar.preset.today": string;
+  "calendar.preset.last7Days": string;
+  "calendar.preset.last30Days": string;
+  "calendar.preset.thisMonth": string;
+  "calendar.preset.thisQuarter": string;
+  "calendar.preset.thisYear": string;
+  "combobox.noResults": string;
+  "combobox.loading": string;
+  "combobox.loadError": string;
+  "combobox.removeTag": string;
+  "command.loading": string;
+  "command.label": string;
+  "command.placeholder": string;
+  "command.recent": string;
+  "command.loadError": string;
+  "dataTable.label": string;
+  "dataTable.empty": string;
+  "dataTable.selectColumn": string;
+  "dataTable.selectAll": string;
+  "dataTable.selectRow": string;
+  "dataTable.detailsColumn": string;
+  "dataTable.showDetails": string;
+  "dataTable.toggleColumns": string;
+  "dataTable.resizeColumn": string;
+  "dataTable.sortedBy": string;
+  "dataTable.sortAscending": string;
+  "dataTable.sortDescending": string;
+  "dataTable.sortSeparator": string;
+  "dataTable.sortCleared": string;
+  "dataTable.selectedCount": string;
+  "dataTable.clearSelection": string;
+  "dataTable.showing": string;
+  "dataTable.rowsPerPage": string;
+  "dataTable.previousPage": string;
+  "dataTable.nextPage": string;
+  "dataTable.page": string;
+  "dateField.label": string;
+  "dateField.day": string;
+  "dateField.month": string;
+  "dateField.year": string;
+  "dateField.empty": string;
+  "dateField.dayPlaceholder": string;
+  "dateField.monthPlaceholder": string;
+  "dateField.yearPlaceholder": string;
+  "datePicker.dialogLabel": string;
+  "dateTimePicker.label": string;
+  "dateTimePicker.placeholder": string;
+  "fileUpload.dropzone": string;
+  "fileUpload.dropActive": string;
+  "fileUpload.accepted": string;
+  "fileUpload.maxSize": string;
+  "fileUpload.filesAdded": string;
+  "fileUpload.fileRemoved": string;
+  "fileUpload.fileList": string;
+  "fileUpload.removeFile": string;
+  "fileUpload.tooManyFiles": string;
+  "fileUpload.invalidType": string;
+  "fileUpload.fileTooLarge": string;
+  "fileUpload.fileTooSmall": string;
+  "fileUpload.cancel": string;
+  "fileUpload.retry": string;
+  "fileUpload.cancelUpload": string;
+  "fileUpload.retryUpload": string;
+  "fileUpload.uploadFailed": string;
+  "fileUpload.uploadCanceled": string;
+  "fileUpload.uploadComplete": string;
+  "fileUpload.uploadProgress": string;
+  "form.error": string;
+  "numberInput.increment": string;
+  "numberInput.decrement": string;
+  "pagination.label": string;
+  "pagination.previous": string;
+  "pagination.next": string;
+  "pagination.previousText": string;
+  "pagination.nextText": string;
+  "pinInput.label": string;
+  "pinInput.digit": string;
+  "progress.loading": string;
+  "progress.complete": string;
+  "select.loading": string;
+  "skeleton.loading": string;
+  "slider.minimum": string;
+  "slider.maximum": string;
+  "spinner.label": string;
+  "stepper.label": string;
+  "tag.remove": string;
+  "timePicker.label": string;
+  "timePicker.hour": string;
+  "timePicker.minute": string;
+  "timePicker.second": string;
+  "timePicker.period": string;
+  "toast.region": string;
+  "toast.regionHotkey": string;
+  "toast.dismiss": string;
+  "tree.expand": string;
+  "tree.collapse": string;
+  "tree.loading": string;
+  "tree.loadError": string;
+  "tree.retry": string;
+  "tree.moved": string;
+  "validation.checkboxRequired": string;
+  "validation.switchRequired": string;
+  "validation.selectRequired": string;
+  "validation.dateTimeRequired": string;
+  "validation.valueMissing": string;
+  "validation.rangeUnderflow": string;
+  "validation.rangeOverflow": string;
+  "validation.stepMismatch": string;
+  "validation.dateRequired": string;
+  "validation.dateRangeRequired": string;
+  "validation.dateUnderflow": string;
+  "validation.dateOverflow": string;
+  "validation.timeRequired": string;
+  "validation.timeUnderflow": string;
+  "validation.timeOverflow": string;
+  "validation.pinRequired": string;
+  "validation.pinIncomplete": string;
+  "validation.fileRequired": string;
+  "validation.fileType": string;
+}
+
+export type MessageKey = keyof Messages;
+
+/** Values interpolated into a message */
+export type MessageValues = Record<string, string | number | boolean>;
+
+/**
+ * English messages, the fallback for keys missing from the active catalog.
+ */
+export const enMessages: Messages = {
+  "alert.dismiss": "Dismiss alert",
+  "avatarGroup.label": "Avatar group",
+  "badge.dot": "Notification indicator",
+  "badge.count": "{count} notifications",
+  "breadcrumb.label": "Breadcrumb",
+  "calendar.label": "Calendar",
+  "calendar.previousMonth": "Previous month",
+  "calendar.nextMonth": "Next month",
+  "calendar.previousYear": "Previous year",
+  "calendar.nextYear": "Next year",
+  "calendar.unavailable": "Unavailable",
+  "calendar.rangeUnavailable": "Range includes unavailable dates",
+  "calendar.minNights":
+    "{count, plural, one {Minimum stay is # night} other {Minimum stay is # nights}}",
+  "calendar.maxNights":
+    "{count, plural, one {Maximum stay is # night} other {Maximum stay is # nights}}",
+  "calendar.presets": "Date range presets",
+  "calendar.preset.today": "Today",
+  "calendar.preset.last7Days": "Last 7 days",
+  "calendar.preset.last30Days": "Last 30 days",
+  "calendar.preset.thisMonth": "This month",
+  "calendar.preset.thisQuarter": "This quarter",
+  "calendar.preset.thisYear": "This year",
+  "combobox.noResults": "No results found",
+  "combobox.loading": "Loading...",
+  "combobox.loadError": "Failed to load items",
+  "combobox.removeTag": "{label}, press Delete to remove",
+  "command.loading": "Loading",
+  "command.label": "Command palette",
+  "command.placeholder": "Type a command or search...",
+  "command.recent": "Recent",
+  "command.loadError": "Failed to load results",
+  "dataTable.label": "Data table",
+  "dataTable.empty": "No data available",
+  "dataTable.selectColumn": "Select",
+  "dataTable.selectAll": "Select all rows",
+  "dataTable.selectRow": "Select row",
+  "dataTable.detailsColumn": "Details",
+  "dataTable.showDetails": "Show details",
+  "dataTable.toggleColumns": "Toggle columns",
+  "dataTable.resizeColumn": "Resize {column} column",
+  "dataTable.sortedBy": "Sorted by {columns}",
+  "dataTable.sortAscending": "{column}, ascending",
+  "dataTable.sortDescending": "{column}, descending",
+  "dataTable.sortSeparator": ", then ",
+  "dataTable.sortCleared": "Sort cleared",
+  "dataTable.selectedCount": "{count, number} selected",
+  "dataTable.clearSelection": "Clear",
+  "dataTable.showing": "Showing {start, number}-{end, number} of {total, number}",
+  "dataTable.rowsPerPage": "Rows per page:",
+  "dataTable.previousPage": "Previous page",
+  "dataTable.nextPage": "Next page",
+  "dataTable.page": "Page {page}",
+  "dateField.label": "Date",
+  "dateField.day": "Day",
+  "dateField.month": "Month",
+  "dateField.year": "Year",
+  "dateField.empty": "Empty",
+  "dateField.dayPlaceholder": "dd",
+  "dateField.monthPlaceholder": "mm",
+  "dateField.yearPlaceholder": "yyyy",
+  "datePicker.dialogLabel": "Choose date",
+  "dateTimePicker.label": "Date and time",
+  "dateTimePicker.placeholder": "Select date",
+  "fileUpload.dropzone":
+    "{multiple, select, true {Drop files here or click to upload} other {Drop file here or click to upload}}",
+  "fileUpload.dropActive": "Drop files here",
+  "fileUpload.accepted": "Accepted: {types}",
+  "fileUpload.maxSize": "Max size: {size}",
+  "fileUpload.filesAdded": "{count, plural, one {{name} added} other {# files added}}",
+  "fileUpload.fileRemoved": "{name} removed",
+  "fileUpload.fileList": "Selected files",
+  "fileUpload.removeFile": "Remove {name}",
+  "fileUpload.tooManyFiles":
+    "{max, plural, one {Only # file allowed} other {Maximum of # files allowed}}",
+  "fileUpload.invalidType":
+    '{type, select, none {This file type is not accepted} other {File type "{type}" is not accepted}}',
+  "fileUpload.fileTooLarge": "File size ({size}) exceeds maximum ({max})",
+  "fileUpload.fileTooSmall": "File size ({size}) is below minimum ({min})",
+  "fileUpload.cancel": "Cancel",
+  "fileUpload.retry": "Retry",
+  "fileUpload.cancelUpload": "Cancel upload of {name}",
+  "fileUpload.retryUpload": "Retry upload of {name}",
+  "fileUpload.uploadFailed": "Upload failed",
+  "fileUpload.uploadCanceled": "Upload canceled",
+  "fileUpload.uploadComplete": "{name} uploaded",
+  "fileUpload.uploadProgress": "Uploading {name}",
+  "form.error": "Something went wrong. Please try again.",
+  "numberInput.increment": "Increment",
+  "numberInput.decrement": "Decrement",
+  "pagination.label": "Pagination",
+  "pagination.previous": "Go to previous page",
+  "pagination.next": "Go to next page",
+  "pagination.previousText": "Previous",
+  "pagination.nextText": "Next",
+  "pinInput.label": "PIN input with {length} digits",
+  "pinInput.digit": "Digit {index} of {length}",
+  "progress.loading": "Loading...",
+  "progress.complete": "{percent, number}% complete",
+  "select.loading": "Loading...",
+  "skeleton.loading": "Loading...",
+  "slider.minimum": "Minimum value",
+  "slider.maximum": "Maximum value",
+  "spinner.label": "Loading",
+  "stepper.label": "Progress steps",
+  "tag.remove": "Remove",
+  "timePicker.label": "Time picker",
+  "timePicker.hour": "Hour",
+  "timePicker.minute": "Minute",
+  "timePicker.second": "Second",
+  "timePicker.period": "AM/PM",
+  "toast.region": "Notifications",
+  "toast.regionHotkey": "Notifications ({hotkey})",
+  "toast.dismiss": "Dismiss notification",
+  "tree.expand": "Expand",
+  "tree.collapse": "Collapse",
+  "tree.loading": "Loading...",
+  "tree.loadError": "Failed to load items",
+  "tree.retry": "Retry",
+  "tree.moved": "{name} moved",
+  "validation.checkboxRequired": "Please check this box to proceed",
+  "validation.switchRequired": "Please turn this switch on to proceed",
+  "validation.selectRequired": "Please select an option",
+  "validation.dateTimeRequired": "Please choose a date and time",
+  "validation.valueMissing": "Please fill out this field",
+  "validation.rangeUnderflow": "Value must be {min} or more",
+  "validation.rangeOverflow": "Value must be {max} or less",
+  "validation.stepMismatch": "Value must be in steps of {step}",
+  "validation.dateRequired": "Please choose a date",
+  "validation.dateRangeRequired": "Please choose a start and end date",
+  "validation.dateUnderflow": "Please choose a date on or after {min}",
+  "validation.dateOverflow": "Please choose a date on or before {max}",
+  "validation.timeRequired": "Please choose a time",
+  "validation.timeUnderflow": "Please choose a time at or after {min}",
+  "validation.timeOverflow": "Please choose a time at or before {max}",
+  "validation.pinRequired": "Please enter the code",
+  "validation.pinIncomplete": "Please enter all {length} characters",
+  "validation.fileRequired": "Please select a file",
+  "validation.fileType": "{name} is not an accepted file type",
+};
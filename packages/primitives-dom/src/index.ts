@@ -1,5 +1,24 @@
 // Shared types
-export type { Direction, LogicalDirection } from "./types.js";
+export type { Direction, LogicalDirection, TextDirection } from "./types.js";
+
+// Text direction
+export { getDirection, mirrorArrowKey } from "./direction/direction.js";
+
+// Localization
+export {
+  enMessages,
+  type Messages,
+  type MessageKey,
+  type MessageValues,
+} from "./i18n/messages.js";
+export { formatMessage } from "./i18n/format-message.js";
+export {
+  setMessages,
+  getLocale,
+  getMessage,
+  subscribeMessages,
+  type MessageOptions,
+} from "./i18n/catalog.js";
 
 // Constants
 export { FOCUSABLE_SELECTOR, DEFAULT_TYPEAHEAD_TIMEOUT } from "./constants.js";
@@ -20,6 +39,13 @@ export {
   type RovingFocusOptions,
 } from "./keyboard/roving-focus.js";
 
+export {
+  createGridNavigation,
+  type GridNavigation,
+  type GridNavigationOptions,
+  type GridCellPosition,
+} from "./keyboard/grid-navigation.js";
+
 // Keyboard helpers
 export {
   createActivationHandler,
@@ -37,6 +63,46 @@ export {
   type TypeAheadOptions,
 } from "./keyboard/type-ahead.js";
 
+export {
+  createHotkey,
+  isApplePlatform,
+  matchesHotkey,
+  parseHotkey,
+  type Hotkey,
+  type HotkeyOptions,
+  type ParsedHotkey,
+} from "./keyboard/hotkey.js";
+
+// Search
+export {
+  fuzzyMatch,
+  fuzzyFilter,
+  rankItems,
+  getHighlightSegments,
+  type FilterFunction,
+  type HighlightSegment,
+  type MatchCandidate,
+  type MatchRange,
+  type MatchResult,
+  type RankedItem,
+} from "./search/fuzzy-match.js";
+
+export {
+  createCommandSources,
+  type CommandSource,
+  type CommandSourceResult,
+  type CommandSources,
+  type CommandSourcesOptions,
+  type CommandSourceState,
+} from "./search/command-sources.js";
+
+export {
+  createRecentCommands,
+  type RecentCommands,
+  type RecentCommandsOptions,
+  type RecentCommandsStorage,
+} from "./search/recent-commands.js";
+
 // Layer utilities
 export {
   createDismissableLayer,
@@ -81,12 +147,22 @@ export {
 // Positioning utilities
 export {
   createAnchorPosition,
+  autoUpdate,
+  getClippingAncestors,
   type AnchorPosition,
   type AnchorPositionOptions,
   type ComputedPosition,
   type Placement,
+  type PositionBoundary,
 } from "./positioning/anchor-position.js";
 
+export {
+  getSafeTriangle,
+  isPointInTriangle,
+  type Point,
+  type Triangle,
+} from "./positioning/safe-triangle.js";
+
 // Behavior primitives
 export {
   createButtonBehavior,
@@ -112,6 +188,7 @@ export {
 
 export {
   createMenuBehavior,
+  createSubmenuBehavior,
   type MenuBehavior,
   type MenuBehaviorOptions,
   type MenuBehaviorState,
@@ -120,6 +197,11 @@ export {
   type MenuTriggerProps,
   type MenuContentProps,
   type MenuItemProps,
+  type SubmenuBehavior,
+  type SubmenuBehaviorOptions,
+  type SubmenuBehaviorState,
+  type SubmenuBehaviorContext,
+  type SubmenuTriggerProps,
 } from "./behavior/menu.js";
 
 export {
@@ -134,6 +216,7 @@ export {
 
 export {
   createComboboxBehavior,
+  groupOptions,
   type ComboboxBehavior,
   type ComboboxBehaviorOptions,
   type ComboboxBehaviorState,
@@ -141,7 +224,11 @@ export {
   type ComboboxListboxProps,
   type ComboboxOptionProps,
   type ComboboxTagProps,
+  type ComboboxGroupProps,
+  type ComboboxGroupLabelProps,
   type Option,
+  type OptionGroup,
+  type OptionPage,
 } from "./behavior/combobox.js";
 
 export {
@@ -165,11 +252,15 @@ export {
 
 export {
   createDatePickerBehavior,
+  getDefaultDateRangePresets,
+  resolveDateRangePreset,
   type DatePickerBehavior,
   type DatePickerBehaviorOptions,
   type DatePickerBehaviorState,
   type DatePickerMode,
   type DateRange,
+  type DateRangePreset,
+  type DateUnavailablePredicate,
   type CalendarGridProps,
   type CalendarCellProps,
 } from "./behavior/date-picker.js";
@@ -187,6 +278,7 @@ export {
   formatBytes,
   type FileUploadBehavior,
   type FileUploadBehaviorOptions,
+  type FileUploadBehaviorSettings,
   type FileUploadBehaviorState,
   type FileInfo,
   type FileUploadError,
@@ -194,16 +286,86 @@ export {
   type FileUploadInputProps,
 } from "./behavior/file-upload.js";
 
+export {
+  createHttpTransport,
+  createUploadFailure,
+  isRetryableUploadError,
+  type HttpTransportOptions,
+  type UploadFailure,
+  type UploadFetch,
+  type UploadRequest,
+  type UploadTransport,
+} from "./upload/transport.js";
+
+export {
+  createTusTransport,
+  type TusTransportOptions,
+  type UploadUrlStorage,
+} from "./upload/tus-transport.js";
+
+export {
+  createUploadQueue,
+  type UploadQueue,
+  type UploadQueueOptions,
+  type UploadQueueSettings,
+  type UploadStatus,
+} from "./upload/upload-queue.js";
+
+export {
+  createMockUploadServer,
+  type MockUpload,
+  type MockUploadServer,
+  type MockUploadServerOptions,
+} from "./upload/mock-upload-server.js";
+
+// Form state and validation
+export {
+  createFormController,
+  areFieldValuesEqual,
+  mergeFormErrors,
+  type FieldValidator,
+  type FieldValidators,
+  type FormController,
+  type FormControllerOptions,
+  type FormErrors,
+  type FormFlags,
+  type FormState,
+  type FormSubmitResult,
+  type FormValidateOn,
+  type FormValidator,
+  type FormValues,
+} from "./form/form-controller.js";
+
+export {
+  createStandardSchemaValidator,
+  getIssueFieldName,
+  isStandardSchema,
+  type StandardSchemaV1,
+} from "./form/standard-schema.js";
+
+export { createFormValidators, type FormValidatorSources } from "./form/form-validators.js";
+
 export {
   createTimePickerBehavior,
   type TimePickerBehavior,
   type TimePickerBehaviorOptions,
   type TimePickerBehaviorState,
+  type TimePickerPart,
   type TimeValue,
   type TimeSegment,
   type TimeSegmentProps,
 } from "./behavior/time-picker.js";
 
+export {
+  createDateFieldBehavior,
+  type DateFieldBehavior,
+  type DateFieldBehaviorOptions,
+  type DateFieldBehaviorState,
+  type DateFieldPart,
+  type DateSegment,
+  type DateSegmentProps,
+} from "./behavior/date-field.js";
+
 // Virtualization
 export {
   createVirtualizedList,
@@ -211,14 +373,26 @@ export {
   type VirtualizedListOptions,
 } from "./keyboard/virtualized-list.js";
 
+export {
+  createVirtualWindow,
+  type VirtualWindow,
+  type VirtualWindowOptions,
+  type VirtualRange,
+  type VirtualAlign,
+} from "./virtualization/virtual-window.js";
+
 // Animation utilities
 export {
   createPresence,
   prefersReducedMotion,
   onMotionPreferenceChange,
+  createSwipeDismiss,
   type AnimationState,
   type Presence,
   type PresenceOptions,
+  type SwipeDirection,
+  type SwipeDismiss,
+  type SwipeDismissOptions,
 } from "./animation/index.js";
 
 // SSR utilities
@@ -239,9 +413,14 @@ export {
 export {
   createTableBehavior,
   sortData,
+  sortDataByModel,
   type TableBehavior,
   type TableBehaviorOptions,
   type SortState,
+  type SortDescriptor,
+  type SortModel,
+  type SortComparator,
+  type SortDataOptions,
   type SelectionState,
   type SortDirection as TableSortDirection,
 } from "./behavior/table.js";
@@ -249,9 +428,16 @@ export {
 // Tree behavior
 export {
   createTreeBehavior,
+  flattenTree,
+  type FlatTreeNode,
   type TreeBehavior,
   type TreeBehaviorOptions,
+  type TreeCheckedState,
+  type TreeDataNode,
+  type TreeDropPosition,
   type TreeItem,
+  type TreeLoadState,
+  type TreeMove,
   type TreeSelectionMode as TreeBehaviorSelectionMode,
 } from "./behavior/tree.js";
 
@@ -302,3 +488,10 @@ export {
   type SelectionMode,
   type ListOrientation,
 } from "./composites/selectable-list.js";
+
+export {
+  createDateTimePicker,
+  type DateTimePicker,
+  type DateTimePickerOptions,
+  type DateTimePickerState,
+} from "./composites/date-time-picker.js";
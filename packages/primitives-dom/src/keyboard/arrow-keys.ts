@@ -3,6 +3,7 @@
  * Maps physical arrow keys to logical navigation directions.
  */
 
+import { getDirection } from "../direction/direction.js";
 import type { Direction, LogicalDirection } from "../types.js";
 
 /**
@@ -20,7 +21,7 @@ export interface ArrowKeyOptions {
   /**
    * Whether layout is right-to-left.
    * Swaps Left/Right to Previous/Next mapping.
-   * @default false
+   * Resolved from the event target's nearest `dir` attribute when not set.
    */
   rtl?: boolean;
 
@@ -34,10 +35,11 @@ export interface ArrowKeyOptions {
  * Creates an arrow key handler for keyboard navigation.
  */
 export function createArrowKeyHandler(options: ArrowKeyOptions): (event: KeyboardEvent) => void {
-  const { orientation, rtl = false, onNavigate } = options;
+  const { orientation, onNavigate } = options;
 
   return function handleKeyDown(event: KeyboardEvent): void {
     let direction: LogicalDirection | null = null;
+    const rtl = options.rtl ?? getDirection(event.target as Element | null) === "rtl";
 
     switch (event.key) {
       case "ArrowRight":
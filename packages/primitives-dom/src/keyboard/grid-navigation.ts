@@ -0,0 +1,360 @@
+/**
+ * Grid navigation utility for the WAI-ARIA data grid pattern.
+ * Moves a roving tabindex between cells in two dimensions and switches
+ * between navigation mode and actionable mode (focus inside a cell).
+ */
+
+import { getDirection } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+import { createRovingFocus } from "./roving-focus.js";
+
+/** Elements inside cells that take focus in actionable mode */
+const WIDGET_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "[tabindex]",
+  '[contenteditable="true"]',
+].join(",");
+
+export interface GridCellPosition {
+  row: number;
+  column: number;
+}
+
+export interface GridNavigationOptions {
+  /** Element containing the rows (e.g. the table) */
+  container: HTMLElement;
+  /** Selector matching rows */
+  rowSelector: string;
+  /** Selector matching focusable cells; must only match cells inside rows */
+  cellSelector: string;
+  /**
+   * Rows moved by PageUp/PageDown.
+   * @default 10
+   */
+  pageSize?: number | (() => number);
+  /**
+   * Text direction; ArrowLeft and ArrowRight swap in `"rtl"`.
+   * Resolved from the container's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
+  /** Called when a cell receives focus through keyboard navigation */
+  onFocus?: (cell: HTMLElement, position: GridCellPosition) => void;
+  /** Called when focus enters or leaves a cell's interactive content */
+  onActionableChange?: (actionable: boolean, cell: HTMLElement) => void;
+}
+
+export interface GridNavigation {
+  /** Move focus to a cell (clamped to the grid) */
+  focusCell(row: number, column: number): void;
+  /** Make a cell the grid's tab stop without moving focus */
+  setActiveCell(row: number, column: number): void;
+  /** Position of the cell that is the grid's tab stop */
+  getActiveCell(): GridCellPosition;
+  /** Position of a cell element, or null if it isn't a cell of this grid */
+  getCellPosition(cell: Element): GridCellPosition | null;
+  /** Whether focus is inside a cell's interactive content */
+  isActionable(): boolean;
+  /** Leave actionable mode and focus the active cell */
+  exitCell(): void;
+  /** Re-apply tabindex after cells were added, removed or re-rendered */
+  refresh(): void;
+  destroy(): void;
+}
+
+/**
+ * Create keyboard navigation for a grid of cells.
+ *
+ * Navigation mode (focus on a cell):
+ * - Arrow keys move one cell, without wrapping
+ * - Home/End move to the first/last cell of the row
+ * - Ctrl+Home/Ctrl+End move to the first/last cell of the grid
+ * - PageUp/PageDown move by `pageSize` rows
+ * - Enter or F2 moves focus into the cell's interactive content
+ *
+ * Actionable mode (focus inside a cell): keys go to the content;
+ * Escape or F2 returns focus to the cell.
+ *
+ * Interactive content of cells is removed from the tab sequence while
+ * navigating, so Tab moves in and out of the grid as a single stop.
+ *
+ * @example
+ * ```ts
+ * const grid = createGridNavigation({
+ *   container: table,
+ *   rowSelector: "tr",
+ *   cellSelector: "th, td",
+ *   pageSize: () => visibleRowCount,
+ * });
+ *
+ * // After re-rendering rows
+ * grid.refresh();
+ * ```
+ */
+export function createGridNavigation(options: GridNavigationOptions): GridNavigation {
+  const {
+    container,
+    rowSelector,
+    cellSelector,
+    pageSize = 10,
+    onFocus,
+    onActionableChange,
+  } = options;
+
+  let actionableCell: HTMLElement | null = null;
+  /** Original tabindex of widgets taken out of the tab sequence */
+  const widgetTabIndex = new WeakMap<HTMLElement, string | null>();
+
+  function getCells(): HTMLElement[] {
+    return Array.from(container.querySelectorAll<HTMLElement>(cellSelector));
+  }
+
+  /**
+   * Group cells (in document order) into rows.
+   */
+  function getRows(cells: HTMLElement[]): HTMLElement[][] {
+    const rows: HTMLElement[][] = [];
+    let currentRow: Element | null = null;
+
+    for (const cell of cells) {
+      const row = cell.closest(rowSelector);
+      if (row !== currentRow || rows.length === 0) {
+        rows.push([]);
+        currentRow = row;
+      }
+      rows[rows.length - 1]?.push(cell);
+    }
+
+    return rows;
+  }
+
+  function toPosition(rows: HTMLElement[][], cell: Element): GridCellPosition | null {
+    for (let row = 0; row < rows.length; row++) {
+      const column = (rows[row] as HTMLElement[]).indexOf(cell as HTMLElement);
+      if (column !== -1) return { row, column };
+    }
+    return null;
+  }
+
+  function toIndex(rows: HTMLElement[][], cells: HTMLElement[], row: number, column: number) {
+    const targetRow = rows[Math.max(0, Math.min(row, rows.length - 1))] ?? [];
+    const cell = targetRow[Math.max(0, Math.min(column, targetRow.length - 1))];
+    return cell ? cells.indexOf(cell) : -1;
+  }
+
+  function resolvePageSize(): number {
+    return Math.max(1, typeof pageSize === "function" ? pageSize() : pageSize);
+  }
+
+  function getNextIndex(
+    event: KeyboardEvent,
+    currentIndex: number,
+    cells: HTMLElement[]
+  ): number | null {
+    // Keys belong to the cell content in actionable mode
+    if (actionableCell || !cells.includes(event.target as HTMLElement)) return null;
+
+    const rows = getRows(cells);
+    const current = toPosition(rows, cells[currentIndex] as HTMLElement);
+    if (!current) return null;
+
+    const { row, column } = current;
+    const lastRow = rows.length - 1;
+    const lastColumn = (rows[row]?.length ?? 1) - 1;
+    const ctrl = event.ctrlKey || event.metaKey;
+    const forward = (options.dir ?? getDirection(container)) === "rtl" ? -1 : 1;
+
+    switch (event.key) {
+      case "ArrowRight":
+        return toIndex(rows, cells, row, column + forward);
+      case "ArrowLeft":
+        return toIndex(rows, cells, row, column - forward);
+      case "ArrowDown":
+        return toIndex(rows, cells, row + 1, column);
+      case "ArrowUp":
+        return toIndex(rows, cells, row - 1, column);
+      case "Home":
+        return ctrl ? toIndex(rows, cells, 0, 0) : toIndex(rows, cells, row, 0);
+      case "End":
+        return ctrl
+          ? toIndex(rows, cells, lastRow, Number.POSITIVE_INFINITY)
+          : toIndex(rows, cells, row, lastColumn);
+      case "PageDown":
+        return toIndex(rows, cells, row + resolvePageSize(), column);
+      case "PageUp":
+        return toIndex(rows, cells, row - resolvePageSize(), column);
+      default:
+        return null;
+    }
+  }
+
+  const roving = createRovingFocus({
+    container,
+    selector: cellSelector,
+    direction: "both",
+    loop: false,
+    skipDisabled: false,
+    getNextIndex,
+    onFocus: (cell) => {
+      const position = toPosition(getRows(getCells()), cell);
+      if (position) onFocus?.(cell, position);
+    },
+  });
+
+  function getWidgets(cell: HTMLElement): HTMLElement[] {
+    return Array.from(cell.querySelectorAll<HTMLElement>(WIDGET_SELECTOR));
+  }
+
+  function disableWidgets(cell: HTMLElement): void {
+    for (const widget of getWidgets(cell)) {
+      if (!widgetTabIndex.has(widget)) {
+        widgetTabIndex.set(widget, widget.getAttribute("tabindex"));
+      }
+      widget.tabIndex = -1;
+    }
+  }
+
+  function restoreWidgets(cell: HTMLElement): void {
+    for (const widget of getWidgets(cell)) {
+      if (!widgetTabIndex.has(widget)) continue;
+
+      const original = widgetTabIndex.get(widget);
+      if (original == null) {
+        widget.removeAttribute("tabindex");
+      } else {
+        widget.setAttribute("tabindex", original);
+      }
+      widgetTabIndex.delete(widget);
+    }
+  }
+
+  function setActionable(cell: HTMLElement | null): void {
+    if (cell === actionableCell) return;
+
+    const previous = actionableCell;
+    actionableCell = cell;
+    if (previous) {
+      disableWidgets(previous);
+      onActionableChange?.(false, previous);
+    }
+    if (cell) {
+      restoreWidgets(cell);
+      onActionableChange?.(true, cell);
+    }
+  }
+
+  function enterCell(cell: HTMLElement): boolean {
+    const target = getWidgets(cell).find(
+      (widget) =>
+        !(widget as HTMLButtonElement).disabled && widget.getAttribute("aria-disabled") !== "true"
+    );
+    if (!target) return false;
+
+    setActionable(cell);
+    target.focus();
+    return true;
+  }
+
+  function exitCell(): void {
+    const cell = actionableCell;
+    if (!cell) return;
+
+    setActionable(null);
+    cell.focus();
+  }
+
+  function handleKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement;
+
+    if (actionableCell) {
+      if (event.key === "Escape" || event.key === "F2") {
+        event.preventDefault();
+        exitCell();
+      }
+      return;
+    }
+
+    const isCell = getCells().includes(target);
+    if (isCell && (event.key === "Enter" || event.key === "F2")) {
+      if (enterCell(target)) event.preventDefault();
+    }
+  }
+
+  function handleFocusIn(event: FocusEvent): void {
+    const target = event.target as HTMLElement;
+    const cells = getCells();
+
+    if (cells.includes(target)) {
+      setActionable(null);
+      return;
+    }
+
+    // Focus landed inside a cell (e.g. a click on a button): actionable mode
+    const cell = cells.find((candidate) => candidate.contains(target));
+    if (cell) {
+      roving.setActiveIndex(cells.indexOf(cell));
+      setActionable(cell);
+    }
+  }
+
+  function handleFocusOut(event: FocusEvent): void {
+    const next = event.relatedTarget as Node | null;
+    if (actionableCell && (!next || !actionableCell.contains(next))) {
+      setActionable(null);
+    }
+  }
+
+  function refresh(): void {
+    const cells = getCells();
+    roving.setActiveIndex(roving.getFocusedIndex());
+    for (const cell of cells) {
+      if (cell !== actionableCell) disableWidgets(cell);
+    }
+  }
+
+  function getCellPosition(cell: Element): GridCellPosition | null {
+    return toPosition(getRows(getCells()), cell);
+  }
+
+  // Initialize
+  container.addEventListener("keydown", handleKeyDown);
+  container.addEventListener("focusin", handleFocusIn);
+  container.addEventListener("focusout", handleFocusOut);
+  refresh();
+
+  return {
+    focusCell(row, column) {
+      const cells = getCells();
+      const index = toIndex(getRows(cells), cells, row, column);
+      if (index !== -1) roving.setFocusedIndex(index);
+    },
+    setActiveCell(row, column) {
+      const cells = getCells();
+      const index = toIndex(getRows(cells), cells, row, column);
+      if (index !== -1) roving.setActiveIndex(index);
+    },
+    getActiveCell() {
+      const cells = getCells();
+      const cell = cells[roving.getFocusedIndex()];
+      return (cell && toPosition(getRows(cells), cell)) ?? { row: 0, column: 0 };
+    },
+    getCellPosition,
+    isActionable: () => actionableCell !== null,
+    exitCell,
+    refresh,
+    destroy() {
+      actionableCell = null;
+      for (const cell of getCells()) {
+        restoreWidgets(cell);
+        cell.removeAttribute("tabindex");
+      }
+      roving.destroy();
+      container.removeEventListener("keydown", handleKeyDown);
+      container.removeEventListener("focusin", handleFocusIn);
+      container.removeEventListener("focusout", handleFocusOut);
+    },
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Global keyboard shortcuts such as "mod+k".
+ *
+ * A hotkey is a `+`-separated list of modifiers followed by a key, matched
+ * case-insensitively against `KeyboardEvent.key`. `mod` is Meta (⌘) on Apple
+ * platforms and Control elsewhere, so "mod+k" is ⌘K on macOS and Ctrl+K on
+ * Windows and Linux.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A parsed hotkey: the key plus the exact set of modifiers it needs.
+ */
+export interface ParsedHotkey {
+  key: string;
+  alt: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+/**
+ * Options for registering a hotkey.
+ */
+export interface HotkeyOptions {
+  /** Shortcut such as "mod+k", "shift+?" or "ctrl+alt+p" */
+  hotkey: string;
+
+  /** Called when the shortcut is pressed */
+  onTrigger: (event: KeyboardEvent) => void;
+
+  /**
+   * Where to listen for keydown.
+   * @default document
+   */
+  target?: EventTarget;
+
+  /**
+   * Whether to prevent the browser's default action for the shortcut.
+   * @default true
+   */
+  preventDefault?: boolean;
+}
+
+/**
+ * A registered hotkey.
+ */
+export interface Hotkey {
+  /** Stops listening */
+  destroy: () => void;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "escape",
+  space: " ",
+  plus: "+",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+/**
+ * Whether the current platform uses ⌘ as its primary shortcut modifier.
+ */
+export function isApplePlatform(): boolean {
+  if (typeof navigator === "undefined") return false;
+  const platform =
+    (navigator as Navigator & { userAgentData?: { platform?: string } }).userAgentData?.platform ??
+    navigator.platform ??
+    "";
+  return /mac|iphone|ipad|ipod/i.test(platform);
+}
+
+/**
+ * Parses a hotkey string, resolving `mod` for the current platform.
+ */
+export function parseHotkey(hotkey: string): ParsedHotkey {
+  const parts = hotkey
+    .toLowerCase()
+    .split("+")
+    .map((part) => part.trim());
+  // "mod++" ends in an empty part for the plus key
+  const last = parts.pop() ?? "";
+  const key = last === "" ? "+" : (KEY_ALIASES[last] ?? last);
+  const parsed: ParsedHotkey = { key, alt: false, ctrl: false, meta: false, shift: false };
+
+  for (const modifier of parts) {
+    switch (modifier) {
+      case "mod":
+        if (isApplePlatform()) parsed.meta = true;
+        else parsed.ctrl = true;
+        break;
+      case "alt":
+      case "option":
+        parsed.alt = true;
+        break;
+      case "ctrl":
+      case "control":
+        parsed.ctrl = true;
+        break;
+      case "meta":
+      case "cmd":
+        parsed.meta = true;
+        break;
+      case "shift":
+        parsed.shift = true;
+        break;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a keyboard event matches a hotkey. Modifiers must match exactly,
+ * so "mod+k" does not fire for ⌘⇧K.
+ */
+export function matchesHotkey(event: KeyboardEvent, hotkey: string | ParsedHotkey): boolean {
+  const parsed = typeof hotkey === "string" ? parseHotkey(hotkey) : hotkey;
+  return (
+    event.key?.toLowerCase() === parsed.key &&
+    event.altKey === parsed.alt &&
+    event.ctrlKey === parsed.ctrl &&
+    event.metaKey === parsed.meta &&
+    event.shiftKey === parsed.shift
+  );
+}
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Registers a keyboard shortcut, by default on the whole document.
+ *
+ * @example
+ * ```ts
+ * const hotkey = createHotkey({
+ *   hotkey: "mod+k",
+ *   onTrigger: () => palette.show(),
+ * });
+ *
+ * // Later
+ * hotkey.destroy();
+ * ```
+ */
+export function createHotkey(options: HotkeyOptions): Hotkey {
+  const { onTrigger, target = document, preventDefault = true } = options;
+  const parsed = parseHotkey(options.hotkey);
+
+  const handleKeyDown = (event: Event): void => {
+    const keyboardEvent = event as KeyboardEvent;
+    if (keyboardEvent.defaultPrevented || keyboardEvent.isComposing) return;
+    if (!matchesHotkey(keyboardEvent, parsed)) return;
+
+    if (preventDefault) keyboardEvent.preventDefault();
+    onTrigger(keyboardEvent);
+  };
+
+  target.addEventListener("keydown", handleKeyDown);
+
+  return {
+    destroy: () => target.removeEventListener("keydown", handleKeyDown),
+  };
+}
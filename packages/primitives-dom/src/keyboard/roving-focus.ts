@@ -3,7 +3,8 @@
  * Implements WAI-ARIA roving tabindex pattern.
  */
 
-import type { Direction } from "../types.js";
+import { getDirection } from "../direction/direction.js";
+import type { Direction, TextDirection } from "../types.js";
 
 export type { Direction };
 
@@ -11,17 +12,42 @@ export interface RovingFocusOptions {
   container: HTMLElement;
   selector: string;
   direction?: Direction;
+  /**
+   * Text direction; ArrowLeft and ArrowRight swap in `"rtl"`.
+   * Resolved from the container's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
   loop?: boolean;
   /**
    * Whether to skip disabled items during navigation.
    * Checks for `disabled` attribute and `aria-disabled="true"`.
    */
   skipDisabled?: boolean;
+  /**
+   * Leave out elements matching `selector`, e.g. the items of a nested
+   * submenu inside the container.
+   */
+  filter?: (element: HTMLElement) => boolean;
   onFocus?: (element: HTMLElement, index: number) => void;
+  /**
+   * Custom key handling for layouts `direction` can't express, such as grids.
+   * Return the index to focus, `null` to leave the key alone, or `undefined`
+   * to fall back to the built-in handling.
+   */
+  getNextIndex?: (
+    event: KeyboardEvent,
+    currentIndex: number,
+    elements: HTMLElement[]
+  ) => number | null | undefined;
 }
 
 export interface RovingFocus {
   setFocusedIndex: (index: number) => void;
+  /**
+   * Make the element at `index` the tab stop without moving focus,
+   * e.g. after the items were re-rendered.
+   */
+  setActiveIndex: (index: number) => void;
   getFocusedIndex: () => number;
   destroy: () => void;
 }
@@ -42,14 +68,18 @@ export function createRovingFocus(options: RovingFocusOptions): RovingFocus {
     container,
     selector,
     direction = "horizontal",
+    dir,
     loop = true,
     skipDisabled = true,
+    filter,
     onFocus,
+    getNextIndex,
   } = options;
   let currentIndex = 0;
 
   function getElements(): HTMLElement[] {
-    return Array.from(container.querySelectorAll<HTMLElement>(selector));
+    const elements = Array.from(container.querySelectorAll<HTMLElement>(selector));
+    return filter ? elements.filter(filter) : elements;
   }
 
   function updateTabIndex(elements: HTMLElement[], focusIndex: number): void {
@@ -131,18 +161,22 @@ export function createRovingFocus(options: RovingFocusOptions): RovingFocus {
     let handled = false;
     let searchDir: 1 | -1 = 1;
 
+    const customIndex = getNextIndex?.(event, currentIndex, elements);
+    if (customIndex === null) return;
+    if (customIndex !== undefined) {
+      event.preventDefault();
+      focusElement(customIndex, customIndex < currentIndex ? -1 : 1);
+      return;
+    }
+
+    const rtl = (dir ?? getDirection(container)) === "rtl";
+
     switch (event.key) {
       case "ArrowRight":
-        if (direction === "horizontal" || direction === "both") {
-          nextIndex = currentIndex + 1;
-          searchDir = 1;
-          handled = true;
-        }
-        break;
       case "ArrowLeft":
         if (direction === "horizontal" || direction === "both") {
-          nextIndex = currentIndex - 1;
-          searchDir = -1;
+          searchDir = (event.key === "ArrowRight") !== rtl ? 1 : -1;
+          nextIndex = currentIndex + searchDir;
           handled = true;
         }
         break;
@@ -194,8 +228,17 @@ export function createRovingFocus(options: RovingFocusOptions): RovingFocus {
   container.addEventListener("keydown", handleKeyDown);
   container.addEventListener("focusin", handleFocus);
 
+  function setActiveIndex(index: number): void {
+    const elements = getElements();
+    if (elements.length === 0) return;
+
+    currentIndex = Math.max(0, Math.min(index, elements.length - 1));
+    updateTabIndex(elements, currentIndex);
+  }
+
   return {
     setFocusedIndex: focusElement,
+    setActiveIndex,
     getFocusedIndex: () => currentIndex,
     destroy: () => {
       container.removeEventListener("keydown", handleKeyDown);
@@ -7,24 +7,26 @@ import { DEFAULT_TYPEAHEAD_TIMEOUT } from "../constants.js";
 
 /**
  * Options for creating a type-ahead handler.
+ * Items are elements by default, but can be any value, e.g. data for
+ * rows of a virtualized list that are not mounted.
  */
-export interface TypeAheadOptions {
+export interface TypeAheadOptions<T = HTMLElement> {
   /**
    * Function returning current list of items.
    * Called on each keypress to support dynamic lists.
    */
-  items: () => HTMLElement[];
+  items: () => T[];
 
   /**
    * Function to extract text content from an item.
    * Used for matching against the typed buffer.
    */
-  getText: (item: HTMLElement) => string;
+  getText: (item: T) => string;
 
   /**
    * Callback invoked when a matching item is found.
    */
-  onMatch: (item: HTMLElement, index: number) => void;
+  onMatch: (item: T, index: number) => void;
 
   /**
    * Time in milliseconds before buffer clears.
@@ -52,7 +54,7 @@ export interface TypeAhead {
 /**
  * Creates a type-ahead search handler.
  */
-export function createTypeAhead(options: TypeAheadOptions): TypeAhead {
+export function createTypeAhead<T = HTMLElement>(options: TypeAheadOptions<T>): TypeAhead {
   const { items, getText, onMatch, timeout = DEFAULT_TYPEAHEAD_TIMEOUT } = options;
 
   let buffer = "";
@@ -92,7 +94,7 @@ export function createTypeAhead(options: TypeAheadOptions): TypeAhead {
     const currentItems = items();
     for (let i = 0; i < currentItems.length; i++) {
       const item = currentItems[i];
-      if (!item) continue;
+      if (item === undefined) continue;
 
       const text = getText(item).toLowerCase();
 
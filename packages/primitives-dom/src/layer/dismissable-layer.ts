@@ -39,6 +39,14 @@ export interface DismissableLayerOptions {
    * @default true
    */
   closeOnOutsideClick?: boolean;
+
+  /**
+   * Whether the layer is nested in the layer below it, like a submenu in its
+   * menu. An outside click dismisses it and is then passed on to the layer
+   * below, so clicking outside the whole menu closes every level.
+   * @default false
+   */
+  nested?: boolean;
 }
 
 /**
@@ -66,6 +74,7 @@ interface LayerEntry {
   onDismiss: (reason: DismissReason) => void;
   closeOnEscape: boolean;
   closeOnOutsideClick: boolean;
+  nested: boolean;
 }
 
 const layerStack: LayerEntry[] = [];
@@ -89,28 +98,27 @@ function handleGlobalEscape(event: KeyboardEvent): void {
 
 /**
  * Global outside click handler.
- * Only the topmost layer receives the event.
+ * Only the topmost layer receives the event, unless it is nested in the
+ * layer below, which then receives it as well.
  */
 function handleGlobalPointerDown(event: PointerEvent): void {
-  if (layerStack.length === 0) return;
-
-  const topLayer = layerStack[layerStack.length - 1];
-  if (!topLayer) return;
+  const target = event.target as Node;
 
-  if (!topLayer.closeOnOutsideClick) return;
+  // Snapshot, as dismissing a layer removes it from the stack
+  const layers = [...layerStack].reverse();
+  for (const layer of layers) {
+    if (!layer.closeOnOutsideClick) return;
 
-  const target = event.target as Node;
+    // Check if click is inside the container
+    if (layer.container.contains(target)) return;
 
-  // Check if click is inside the container
-  if (topLayer.container.contains(target)) return;
+    // Check if click is on an excluded element
+    if (layer.excludeElements.some((excluded) => excluded.contains(target))) return;
 
-  // Check if click is on an excluded element
-  for (const excluded of topLayer.excludeElements) {
-    if (excluded.contains(target)) return;
+    // Outside click detected
+    layer.onDismiss("outside-click");
+    if (!layer.nested) return;
   }
-
-  // Outside click detected
-  topLayer.onDismiss("outside-click");
 }
 
 // Track whether global listeners are attached
@@ -140,6 +148,7 @@ export function createDismissableLayer(options: DismissableLayerOptions): Dismis
     onDismiss,
     closeOnEscape = true,
     closeOnOutsideClick = true,
+    nested = false,
   } = options;
 
   let entry: LayerEntry | null = null;
@@ -154,6 +163,7 @@ export function createDismissableLayer(options: DismissableLayerOptions): Dismis
       onDismiss,
       closeOnEscape,
       closeOnOutsideClick,
+      nested,
     };
 
     layerStack.push(entry);
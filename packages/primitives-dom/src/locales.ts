@@ -0,0 +1,10 @@
+/**
+ * Built-in message catalogs. Imported from `@hypoth-ui/primitives-dom/locales`
+ * so that unused catalogs are tree-shaken.
+ */
+
+export { arMessages } from "./i18n/locales/ar.js";
+export { deMessages } from "./i18n/locales/de.js";
+export { esMessages } from "./i18n/locales/es.js";
+export { frMessages } from "./i18n/locales/fr.js";
+export { jaMessages } from "./i18n/locales/ja.js";
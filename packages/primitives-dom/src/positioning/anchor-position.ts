@@ -2,12 +2,21 @@
  * Anchor positioning utility for overlay components.
  *
  * Uses CSS anchor positioning API when supported, with JavaScript fallback
- * for browsers without support. Handles placement, flipping when near
- * viewport edges, and offset from anchor.
+ * for browsers without support. Handles placement, offset from anchor,
+ * flipping and shifting to stay inside the clipping boundary, available
+ * size, arrow placement and hiding when the anchor is clipped.
+ *
+ * Placements are `side` or `side-align`. The `start` and `end` sides are
+ * logical: left and right in LTR, mirrored in RTL. The alignment of `top` and
+ * `bottom` placements is logical too, so `bottom-start` lines up with the
+ * anchor's right edge in RTL.
  *
  * @module positioning/anchor-position
  */
 
+import { getDirection } from "../direction/direction.js";
+import type { TextDirection } from "../types.js";
+
 export type Placement =
   | "top"
   | "top-start"
@@ -20,7 +29,25 @@ export type Placement =
   | "left-end"
   | "right"
   | "right-start"
-  | "right-end";
+  | "right-end"
+  | "start"
+  | "start-start"
+  | "start-end"
+  | "end"
+  | "end-start"
+  | "end-end";
+
+type Side = "top" | "bottom" | "left" | "right";
+type LogicalSide = "start" | "end";
+
+/**
+ * Area the floating element is kept inside:
+ * - `"clippingAncestors"`: the viewport intersected with every ancestor
+ *   that clips overflow (scroll containers, `overflow: hidden`)
+ * - `"viewport"`: the viewport only
+ * - an element: that element's box, intersected with the viewport
+ */
+export type PositionBoundary = "clippingAncestors" | "viewport" | HTMLElement;
 
 export interface AnchorPositionOptions {
   /** The element to anchor to */
@@ -29,10 +56,44 @@ export interface AnchorPositionOptions {
   floating: HTMLElement;
   /** Preferred placement relative to anchor */
   placement?: Placement;
+  /**
+   * Text direction that logical placements resolve against. Resolved from
+   * the anchor's nearest `dir` attribute on every update when not set.
+   */
+  dir?: TextDirection;
   /** Offset distance from anchor in pixels */
   offset?: number;
-  /** Whether to flip placement when near viewport edge */
+  /** Whether to flip placement when it overflows the boundary */
   flip?: boolean;
+  /**
+   * Whether to shift the floating element back inside the boundary when it
+   * overflows (default true).
+   */
+  shift?: boolean;
+  /** Area to keep the floating element inside (default "clippingAncestors") */
+  boundary?: PositionBoundary;
+  /** Minimum distance in pixels between the floating element and the boundary */
+  padding?: number;
+  /**
+   * Expose the space left for the floating element as CSS custom properties
+   * on it: `--ds-anchor-available-width`, `--ds-anchor-available-height`,
+   * `--ds-anchor-width` and `--ds-anchor-height`.
+   */
+  size?: boolean;
+  /** Arrow element inside the floating element, kept pointing at the anchor centre */
+  arrow?: HTMLElement | null;
+  /** Minimum distance in pixels between the arrow and the floating element's corners */
+  arrowPadding?: number;
+  /**
+   * Hide the floating element (`visibility: hidden` and `data-anchor-hidden`)
+   * while the anchor is scrolled out of its clipping ancestors.
+   */
+  hide?: boolean;
+  /**
+   * Update on scroll (of any scroll container), window resize and anchor or
+   * floating element resize, until `destroy()`.
+   */
+  autoUpdate?: boolean;
   /** Callback when position updates */
   onPositionChange?: (position: ComputedPosition) => void;
 }
@@ -42,8 +103,14 @@ export interface ComputedPosition {
   x: number;
   /** Y coordinate relative to viewport */
   y: number;
-  /** Final placement after flip logic */
+  /** Final placement after flip logic, in the terms (logical or physical) it was requested in */
   placement: Placement;
+  /** Space left inside the boundary on the placement side (with `size`) */
+  available?: { width: number; height: number };
+  /** Arrow offset from the floating element's left or top edge (with `arrow`) */
+  arrow?: { x?: number; y?: number };
+  /** Whether the anchor is clipped out of view (with `hide`) */
+  anchorHidden?: boolean;
 }
 
 export interface AnchorPosition {
@@ -53,6 +120,13 @@ export interface AnchorPosition {
   destroy: () => void;
 }
 
+interface Rect {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
 /** Check if CSS anchor positioning is supported */
 function supportsAnchorPositioning(): boolean {
   if (typeof CSS === "undefined" || typeof CSS.supports !== "function") {
@@ -63,23 +137,18 @@ function supportsAnchorPositioning(): boolean {
 
 /** Parse placement into main axis and alignment */
 function parsePlacement(placement: Placement): {
-  side: "top" | "bottom" | "left" | "right";
+  side: Side;
   align: "start" | "center" | "end";
 } {
   const parts = placement.split("-");
-  const side = parts[0] as "top" | "bottom" | "left" | "right";
+  const side = parts[0] as Side;
   const align = (parts[1] as "start" | "end" | undefined) ?? "center";
   return { side, align };
 }
 
 /** Get opposite side for flipping */
-function getOppositeSide(
-  side: "top" | "bottom" | "left" | "right"
-): "top" | "bottom" | "left" | "right" {
-  const opposites: Record<
-    "top" | "bottom" | "left" | "right",
-    "top" | "bottom" | "left" | "right"
-  > = {
+function getOppositeSide(side: Side): Side {
+  const opposites: Record<Side, Side> = {
     top: "bottom",
     bottom: "top",
     left: "right",
@@ -89,37 +158,131 @@ function getOppositeSide(
 }
 
 /** Build placement string from parts */
-function buildPlacement(
-  side: "top" | "bottom" | "left" | "right",
-  align: "start" | "center" | "end"
-): Placement {
+function buildPlacement(side: Side | LogicalSide, align: "start" | "center" | "end"): Placement {
   if (align === "center") {
     return side as Placement;
   }
   return `${side}-${align}` as Placement;
 }
 
+/**
+ * Resolve a placement to physical terms: `start`/`end` sides become `left`
+ * or `right`, and in RTL the alignment of `top`/`bottom` placements swaps,
+ * since their start edge is the anchor's right edge.
+ */
+function toPhysicalPlacement(placement: Placement, dir: TextDirection): Placement {
+  const [side, align = "center"] = placement.split("-") as [
+    Side | LogicalSide,
+    "start" | "end" | undefined,
+  ];
+  const rtl = dir === "rtl";
+
+  if (side === "start") return buildPlacement(rtl ? "right" : "left", align);
+  if (side === "end") return buildPlacement(rtl ? "left" : "right", align);
+  if (rtl && (side === "top" || side === "bottom") && align !== "center") {
+    return buildPlacement(side, align === "start" ? "end" : "start");
+  }
+  return placement;
+}
+
+/** Express a physical placement in the terms of the requested one */
+function toRequestedPlacement(
+  physical: Placement,
+  requested: Placement,
+  dir: TextDirection
+): Placement {
+  const requestedSide = requested.split("-")[0];
+  if (requestedSide !== "start" && requestedSide !== "end") {
+    // Swapping the alignment back is the same operation as swapping it forth
+    return toPhysicalPlacement(physical, dir);
+  }
+
+  const { side, align } = parsePlacement(physical);
+  const isStart = (side === "left") !== (dir === "rtl");
+  return buildPlacement(isStart ? "start" : "end", align);
+}
+
+const OVERFLOW_CLIPPING = /auto|scroll|hidden|clip/;
+
+/**
+ * Ancestors that clip the element's overflow, nearest first. Crosses shadow
+ * roots, and stops at a fixed-position ancestor, whose box is relative to
+ * the viewport.
+ */
+export function getClippingAncestors(element: Element): HTMLElement[] {
+  const ancestors: HTMLElement[] = [];
+  let current = getParent(element);
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const style = getComputedStyle(current);
+    if (OVERFLOW_CLIPPING.test(`${style.overflow} ${style.overflowX} ${style.overflowY}`)) {
+      ancestors.push(current);
+    }
+    if (style.position === "fixed") break;
+    current = getParent(current);
+  }
+  return ancestors;
+}
+
+function getParent(element: Element): HTMLElement | null {
+  if (element.parentElement) return element.parentElement;
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? (root.host as HTMLElement) : null;
+}
+
+function intersect(a: Rect, b: Rect): Rect {
+  return {
+    top: Math.max(a.top, b.top),
+    left: Math.max(a.left, b.left),
+    bottom: Math.min(a.bottom, b.bottom),
+    right: Math.min(a.right, b.right),
+  };
+}
+
+/** Resolve a boundary to a viewport rectangle for an element */
+function getBoundaryRect(element: HTMLElement, boundary: PositionBoundary): Rect {
+  const viewport: Rect = { top: 0, left: 0, bottom: window.innerHeight, right: window.innerWidth };
+
+  if (boundary === "viewport") return viewport;
+  if (boundary !== "clippingAncestors") {
+    return intersect(viewport, boundary.getBoundingClientRect());
+  }
+  return getClippingAncestors(element).reduce(
+    (rect, ancestor) => intersect(rect, ancestor.getBoundingClientRect()),
+    viewport
+  );
+}
+
+interface CalculateOptions {
+  placement: Placement;
+  offset: number;
+  flip: boolean;
+  shift: boolean;
+  boundary: PositionBoundary;
+  padding: number;
+}
+
 /** Calculate position using JavaScript fallback */
 function calculatePosition(
   anchor: HTMLElement,
   floating: HTMLElement,
-  placement: Placement,
-  offset: number,
-  flip: boolean
+  options: CalculateOptions
 ): ComputedPosition {
+  const { placement, offset, flip, shift, padding } = options;
   const anchorRect = anchor.getBoundingClientRect();
   const floatingRect = floating.getBoundingClientRect();
-  const viewportWidth = window.innerWidth;
-  const viewportHeight = window.innerHeight;
+  const bounds = getBoundaryRect(floating, options.boundary);
+  const minX = bounds.left + padding;
+  const minY = bounds.top + padding;
+  const maxX = bounds.right - padding;
+  const maxY = bounds.bottom - padding;
 
   let { side, align } = parsePlacement(placement);
   let x = 0;
   let y = 0;
 
   // Calculate initial position based on side
-  const calculateForSide = (
-    currentSide: "top" | "bottom" | "left" | "right"
-  ): { x: number; y: number } => {
+  const calculateForSide = (currentSide: Side): { x: number; y: number } => {
     let posX = 0;
     let posY = 0;
 
@@ -171,65 +334,41 @@ function calculatePosition(
     return { x: posX, y: posY };
   };
 
-  const pos = calculateForSide(side);
-  x = pos.x;
-  y = pos.y;
-
-  // Flip logic if enabled
-  if (flip) {
-    let needsFlip = false;
-
-    switch (side) {
+  /** Pixels the floating element overflows the boundary on a side (negative when it fits) */
+  const overflow = (currentSide: Side, pos: { x: number; y: number }): number => {
+    switch (currentSide) {
       case "top":
-        needsFlip = y < 0;
-        break;
+        return minY - pos.y;
       case "bottom":
-        needsFlip = y + floatingRect.height > viewportHeight;
-        break;
+        return pos.y + floatingRect.height - maxY;
       case "left":
-        needsFlip = x < 0;
-        break;
+        return minX - pos.x;
       case "right":
-        needsFlip = x + floatingRect.width > viewportWidth;
-        break;
+        return pos.x + floatingRect.width - maxX;
     }
+  };
 
-    if (needsFlip) {
-      const oppositeSide = getOppositeSide(side);
-      const oppositePos = calculateForSide(oppositeSide);
+  const pos = calculateForSide(side);
+  x = pos.x;
+  y = pos.y;
 
-      // Check if flipped position is better
-      let flippedIsBetter = false;
-      switch (oppositeSide) {
-        case "top":
-          flippedIsBetter = oppositePos.y >= 0 || oppositePos.y > y;
-          break;
-        case "bottom":
-          flippedIsBetter =
-            oppositePos.y + floatingRect.height <= viewportHeight ||
-            viewportHeight - (oppositePos.y + floatingRect.height) > -y;
-          break;
-        case "left":
-          flippedIsBetter = oppositePos.x >= 0 || oppositePos.x > x;
-          break;
-        case "right":
-          flippedIsBetter =
-            oppositePos.x + floatingRect.width <= viewportWidth ||
-            viewportWidth - (oppositePos.x + floatingRect.width) > -x;
-          break;
-      }
+  // Flip to the opposite side when it overflows less
+  if (flip && overflow(side, pos) > 0) {
+    const oppositeSide = getOppositeSide(side);
+    const oppositePos = calculateForSide(oppositeSide);
 
-      if (flippedIsBetter) {
-        side = oppositeSide;
-        x = oppositePos.x;
-        y = oppositePos.y;
-      }
+    if (overflow(oppositeSide, oppositePos) < overflow(side, pos)) {
+      side = oppositeSide;
+      x = oppositePos.x;
+      y = oppositePos.y;
     }
   }
 
-  // Clamp to viewport bounds
-  x = Math.max(0, Math.min(x, viewportWidth - floatingRect.width));
-  y = Math.max(0, Math.min(y, viewportHeight - floatingRect.height));
+  // Shift back inside the boundary
+  if (shift) {
+    x = Math.max(minX, Math.min(x, maxX - floatingRect.width));
+    y = Math.max(minY, Math.min(y, maxY - floatingRect.height));
+  }
 
   return {
     x,
@@ -238,6 +377,122 @@ function calculatePosition(
   };
 }
 
+/** Space left for the floating element on its side of the anchor */
+function getAvailableSize(
+  anchor: HTMLElement,
+  floating: HTMLElement,
+  side: Side,
+  options: CalculateOptions
+): { width: number; height: number } {
+  const anchorRect = anchor.getBoundingClientRect();
+  const bounds = getBoundaryRect(floating, options.boundary);
+  const { offset, padding } = options;
+  const boundsWidth = bounds.right - bounds.left - padding * 2;
+  const boundsHeight = bounds.bottom - bounds.top - padding * 2;
+
+  const size = {
+    top: { width: boundsWidth, height: anchorRect.top - offset - bounds.top - padding },
+    bottom: { width: boundsWidth, height: bounds.bottom - anchorRect.bottom - offset - padding },
+    left: { width: anchorRect.left - offset - bounds.left - padding, height: boundsHeight },
+    right: { width: bounds.right - anchorRect.right - offset - padding, height: boundsHeight },
+  }[side];
+
+  return { width: Math.max(0, size.width), height: Math.max(0, size.height) };
+}
+
+/**
+ * Position the arrow along the floating element's edge facing the anchor,
+ * centred on the anchor and kept `arrowPadding` away from the corners.
+ */
+function positionArrow(
+  anchor: HTMLElement,
+  arrow: HTMLElement,
+  position: ComputedPosition,
+  floatingRect: { width: number; height: number },
+  arrowPadding: number
+): { x?: number; y?: number } {
+  const anchorRect = anchor.getBoundingClientRect();
+  const arrowRect = arrow.getBoundingClientRect();
+  const { side } = parsePlacement(position.placement);
+  const staticSide = getOppositeSide(side);
+  const vertical = side === "top" || side === "bottom";
+
+  const clamp = (value: number, length: number, arrowLength: number) =>
+    Math.max(arrowPadding, Math.min(value, length - arrowLength - arrowPadding));
+
+  // The arrow overlaps the edge facing the anchor by half its size
+  const styles: Record<Side, string> = { top: "", left: "", bottom: "", right: "" };
+
+  if (vertical) {
+    const x = clamp(
+      anchorRect.left + anchorRect.width / 2 - position.x - arrowRect.width / 2,
+      floatingRect.width,
+      arrowRect.width
+    );
+    styles.left = `${x}px`;
+    styles[staticSide] = `${-arrowRect.height / 2}px`;
+    Object.assign(arrow.style, styles);
+    return { x };
+  }
+
+  const y = clamp(
+    anchorRect.top + anchorRect.height / 2 - position.y - arrowRect.height / 2,
+    floatingRect.height,
+    arrowRect.height
+  );
+  styles.top = `${y}px`;
+  styles[staticSide] = `${-arrowRect.width / 2}px`;
+  Object.assign(arrow.style, styles);
+  return { y };
+}
+
+/** Whether the anchor lies entirely outside its clipping ancestors */
+function isAnchorHidden(anchor: HTMLElement): boolean {
+  const rect = anchor.getBoundingClientRect();
+  const bounds = getBoundaryRect(anchor, "clippingAncestors");
+  return (
+    rect.bottom <= bounds.top ||
+    rect.top >= bounds.bottom ||
+    rect.right <= bounds.left ||
+    rect.left >= bounds.right
+  );
+}
+
+/**
+ * Call `update` whenever the anchor or floating element may have moved:
+ * on scroll of the document or any scroll container, on window resize and
+ * when either element resizes. Returns a cleanup function.
+ *
+ * @example
+ * ```typescript
+ * const stop = autoUpdate(trigger, content, () => position.update());
+ * // later
+ * stop();
+ * ```
+ */
+export function autoUpdate(
+  anchor: HTMLElement,
+  floating: HTMLElement,
+  update: () => void
+): () => void {
+  // Scroll doesn't bubble, but a capturing listener sees every scroll container
+  window.addEventListener("scroll", update, { capture: true, passive: true });
+  window.addEventListener("resize", update, { passive: true });
+
+  let resizeObserver: ResizeObserver | null = null;
+  if (typeof ResizeObserver !== "undefined") {
+    resizeObserver = new ResizeObserver(() => update());
+    resizeObserver.observe(anchor);
+    resizeObserver.observe(floating);
+  }
+
+  return () => {
+    window.removeEventListener("scroll", update, { capture: true });
+    window.removeEventListener("resize", update);
+    resizeObserver?.disconnect();
+  };
+}
+
 /** Apply CSS anchor positioning styles */
 function applyCSSAnchorPositioning(
   anchor: HTMLElement,
@@ -291,6 +546,8 @@ function applyJSPositioning(floating: HTMLElement, position: ComputedPosition):
  * relative to an anchor element.
  *
  * Uses CSS anchor positioning API when supported, with JavaScript fallback.
+ * `flip`, `shift`, `size`, `arrow` and `hide` need measurements, so any of
+ * them (`flip` and `shift` are on by default) selects the JavaScript path. Logical placements resolve against `dir` on every update.
  *
  * @param options - Configuration options
  * @returns AnchorPosition controller
@@ -303,11 +560,12 @@ function applyJSPositioning(floating: HTMLElement, position: ComputedPosition):
  *   placement: 'bottom-start',
  *   offset: 8,
  *   flip: true,
+ *   size: true,
+ *   arrow: popoverArrow,
+ *   hide: true,
+ *   autoUpdate: true,
  * });
  *
- * // Update on scroll/resize if needed
- * window.addEventListener('scroll', () => position.update());
- *
  * // Clean up when done
  * position.destroy();
  * ```
@@ -317,31 +575,85 @@ export function createAnchorPosition(options: AnchorPositionOptions): AnchorPosi
     anchor,
     floating,
     placement = "bottom",
+    dir,
     offset = 8,
     flip = true,
+    shift = true,
+    boundary = "clippingAncestors",
+    padding = 0,
+    size = false,
+    arrow = null,
+    arrowPadding = 0,
+    hide = false,
     onPositionChange,
   } = options;
 
-  const useCSS = supportsAnchorPositioning();
+  const useCSS = supportsAnchorPositioning() && !flip && !shift && !size && !arrow && !hide;
+  const calculateOptions: CalculateOptions = { placement, offset, flip, shift, boundary, padding };
   let currentPosition: ComputedPosition = { x: 0, y: 0, placement };
 
   const update = (): ComputedPosition => {
+    const resolvedDir = dir ?? getDirection(anchor);
+    const physicalPlacement = toPhysicalPlacement(placement, resolvedDir);
+
     if (useCSS) {
       // CSS anchor positioning handles updates automatically
       // Just return the intended placement
-      applyCSSAnchorPositioning(anchor, floating, placement, offset);
+      applyCSSAnchorPositioning(anchor, floating, physicalPlacement, offset);
       currentPosition = { x: 0, y: 0, placement };
     } else {
       // JavaScript fallback
-      currentPosition = calculatePosition(anchor, floating, placement, offset, flip);
+      currentPosition = calculatePosition(anchor, floating, {
+        ...calculateOptions,
+        placement: physicalPlacement,
+      });
       applyJSPositioning(floating, currentPosition);
+
+      if (size) {
+        const { side } = parsePlacement(currentPosition.placement);
+        const available = getAvailableSize(anchor, floating, side, calculateOptions);
+        const anchorRect = anchor.getBoundingClientRect();
+        floating.style.setProperty("--ds-anchor-available-width", `${available.width}px`);
+        floating.style.setProperty("--ds-anchor-available-height", `${available.height}px`);
+        floating.style.setProperty("--ds-anchor-width", `${anchorRect.width}px`);
+        floating.style.setProperty("--ds-anchor-height", `${anchorRect.height}px`);
+        currentPosition.available = available;
+      }
+
+      if (arrow) {
+        currentPosition.arrow = positionArrow(
+          anchor,
+          arrow,
+          currentPosition,
+          floating.getBoundingClientRect(),
+          arrowPadding
+        );
+      }
+
+      if (hide) {
+        const anchorHidden = isAnchorHidden(anchor);
+        floating.style.visibility = anchorHidden ? "hidden" : "";
+        floating.toggleAttribute("data-anchor-hidden", anchorHidden);
+        currentPosition.anchorHidden = anchorHidden;
+      }
+
+      currentPosition.placement = toRequestedPlacement(
+        currentPosition.placement,
+        placement,
+        resolvedDir
+      );
     }
 
     onPositionChange?.(currentPosition);
     return currentPosition;
   };
 
+  const stopAutoUpdate =
+    options.autoUpdate && !useCSS ? autoUpdate(anchor, floating, update) : null;
+
   const destroy = (): void => {
+    stopAutoUpdate?.();
+
     // Clean up styles
     if (useCSS) {
       anchor.style.removeProperty("anchor-name");
@@ -353,6 +665,16 @@ export function createAnchorPosition(options: AnchorPositionOptions): AnchorPosi
     floating.style.removeProperty("right");
     floating.style.removeProperty("bottom");
     floating.style.removeProperty("transform");
+    if (size) {
+      floating.style.removeProperty("--ds-anchor-available-width");
+      floating.style.removeProperty("--ds-anchor-available-height");
+      floating.style.removeProperty("--ds-anchor-width");
+      floating.style.removeProperty("--ds-anchor-height");
+    }
+    if (hide) {
+      floating.style.removeProperty("visibility");
+      floating.removeAttribute("data-anchor-hidden");
+    }
   };
 
   // Initial positioning
@@ -0,0 +1,51 @@
+/**
+ * Safe triangle ("grace area") for submenus and other hover-opened
+ * floating elements.
+ *
+ * When the pointer leaves a submenu trigger, the triangle between the exit
+ * point and the near edge of the submenu is the path it takes on its way
+ * into the submenu. Moving inside it keeps the submenu open even when the
+ * pointer crosses neighbouring items.
+ *
+ * @module positioning/safe-triangle
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Triangle = [Point, Point, Point];
+
+/**
+ * Triangle from the exit point to the near edge of the floating element.
+ * The exit point is pulled back by `padding` pixels, so the pointer sitting
+ * right on the trigger's edge still counts as inside.
+ */
+export function getSafeTriangle(
+  exit: Point,
+  rect: { top: number; bottom: number; left: number; right: number },
+  padding = 2
+): Triangle {
+  const toRight = exit.x <= (rect.left + rect.right) / 2;
+  const edge = toRight ? rect.left : rect.right;
+  const apex = { x: exit.x + (toRight ? -padding : padding), y: exit.y };
+
+  return [apex, { x: edge, y: rect.top }, { x: edge, y: rect.bottom }];
+}
+
+/**
+ * Whether a point lies inside (or on the edge of) a triangle.
+ */
+export function isPointInTriangle(point: Point, [a, b, c]: Triangle): boolean {
+  const cross = (p: Point, q: Point, r: Point) =>
+    (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+
+  const d1 = cross(a, b, point);
+  const d2 = cross(b, c, point);
+  const d3 = cross(c, a, point);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+
+  return !(hasNegative && hasPositive);
+}
@@ -0,0 +1,217 @@
+/**
+ * Async result providers for command palettes.
+ *
+ * Each source fetches its own results for the current query and keeps its
+ * own loading state, so a slow provider never holds back a fast one. A source
+ * may resolve once or stream: returning an async iterable appends each
+ * yielded batch as it arrives. A new query aborts every in-flight fetch.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of a source fetch: one batch, or a stream of batches.
+ */
+export type CommandSourceResult<T> = Promise<T[]> | AsyncIterable<T[]>;
+
+/**
+ * A provider of results for the typed query.
+ */
+export interface CommandSource<T> {
+  /** Unique id of the source */
+  id: string;
+
+  /**
+   * Fetches results for a query. The signal aborts when the query changes
+   * or the sources are destroyed.
+   */
+  fetch: (query: string, signal: AbortSignal) => CommandSourceResult<T>;
+}
+
+/**
+ * Current results of one source.
+ */
+export interface CommandSourceState<T> {
+  items: T[];
+  /** True until the latest fetch has resolved or its stream has ended */
+  loading: boolean;
+  /** Error thrown by the latest fetch, if any */
+  error: unknown;
+}
+
+/**
+ * Options for creating command sources.
+ */
+export interface CommandSourcesOptions<T> {
+  /** Initial sources */
+  sources: CommandSource<T>[];
+
+  /**
+   * Delay in milliseconds before fetching after the query changes.
+   * @default 150
+   */
+  debounce?: number;
+
+  /** Called whenever a source's state changes */
+  onChange: (id: string, state: CommandSourceState<T>) => void;
+}
+
+/**
+ * Controller for a set of command sources.
+ */
+export interface CommandSources<T> {
+  /** Fetches every source for a query, aborting the previous search */
+  search: (query: string) => void;
+
+  /** Current state of a source */
+  getState: (id: string) => CommandSourceState<T>;
+
+  /** Replaces the sources; dropped sources are aborted and forgotten */
+  setSources: (sources: CommandSource<T>[]) => void;
+
+  /** Aborts in-flight fetches and pending searches */
+  cancel: () => void;
+
+  /** Cancels and releases all state */
+  destroy: () => void;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return value != null && typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Creates a controller that fetches several command sources in parallel.
+ *
+ * @example
+ * ```ts
+ * const sources = createCommandSources({
+ *   sources: [
+ *     { id: "files", fetch: (query, signal) => api.files(query, { signal }) },
+ *     { id: "people", fetch: (query, signal) => api.streamPeople(query, signal) },
+ *   ],
+ *   onChange: (id, { items, loading }) => renderGroup(id, items, loading),
+ * });
+ *
+ * input.addEventListener("input", () => sources.search(input.value));
+ * ```
+ */
+export function createCommandSources<T>(options: CommandSourcesOptions<T>): CommandSources<T> {
+  const { debounce = 150, onChange } = options;
+
+  let sources = options.sources;
+  const states = new Map<string, CommandSourceState<T>>();
+  const controllers = new Map<string, AbortController>();
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function getState(id: string): CommandSourceState<T> {
+    return states.get(id) ?? { items: [], loading: false, error: null };
+  }
+
+  function update(id: string, patch: Partial<CommandSourceState<T>>): void {
+    const next = { ...getState(id), ...patch };
+    states.set(id, next);
+    onChange(id, next);
+  }
+
+  async function run(source: CommandSource<T>, query: string): Promise<void> {
+    const controller = new AbortController();
+    controllers.set(source.id, controller);
+    const { signal } = controller;
+
+    try {
+      const result = source.fetch(query, signal);
+
+      if (isAsyncIterable<T[]>(result)) {
+        let first = true;
+        for await (const batch of result) {
+          if (signal.aborted) return;
+          update(source.id, {
+            items: first ? batch : [...getState(source.id).items, ...batch],
+            error: null,
+          });
+          first = false;
+        }
+        if (signal.aborted) return;
+        update(source.id, first ? { items: [], loading: false } : { loading: false });
+      } else {
+        const items = await result;
+        if (signal.aborted) return;
+        update(source.id, { items, loading: false, error: null });
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      update(source.id, { items: [], loading: false, error });
+    } finally {
+      if (controllers.get(source.id) === controller) {
+        controllers.delete(source.id);
+      }
+    }
+  }
+
+  function abortAll(): void {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+    for (const controller of controllers.values()) {
+      controller.abort();
+    }
+    controllers.clear();
+  }
+
+  function cancel(): void {
+    abortAll();
+    for (const [id, state] of states) {
+      if (state.loading) update(id, { loading: false });
+    }
+  }
+
+  function search(query: string): void {
+    abortAll();
+
+    // Keep the previous items on screen until the new ones arrive
+    for (const source of sources) {
+      update(source.id, { loading: true, error: null });
+    }
+
+    const start = () => {
+      debounceTimer = null;
+      for (const source of sources) {
+        void run(source, query);
+      }
+    };
+
+    if (debounce > 0) {
+      debounceTimer = setTimeout(start, debounce);
+    } else {
+      start();
+    }
+  }
+
+  function setSources(next: CommandSource<T>[]): void {
+    const ids = new Set(next.map((source) => source.id));
+    for (const id of states.keys()) {
+      if (!ids.has(id)) {
+        controllers.get(id)?.abort();
+        controllers.delete(id);
+        states.delete(id);
+      }
+    }
+    sources = next;
+  }
+
+  function destroy(): void {
+    abortAll();
+    states.clear();
+    sources = [];
+  }
+
+  return { search, getState, setSources, cancel, destroy };
+}
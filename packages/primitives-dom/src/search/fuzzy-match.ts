@@ -0,0 +1,334 @@
+/**
+ * Ranked fuzzy matching for filtering lists by a typed query.
+ *
+ * Query characters must appear in order in the text. A match scores higher
+ * when characters land on word starts (so "gtd" finds "Go To Definition"),
+ * run consecutively, and leave fewer gaps. Comparison ignores case and
+ * diacritics, so "cafe" matches "Café".
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A matched span of the original text, as UTF-16 offsets (end exclusive).
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of matching a query against a candidate.
+ */
+export interface MatchResult {
+  /** Higher is better. Only meaningful relative to other results for the same query. */
+  score: number;
+  /** Matched spans of the candidate's `text`; empty when only a keyword matched */
+  ranges: MatchRange[];
+}
+
+/**
+ * Searchable text of an item.
+ */
+export interface MatchCandidate {
+  /** Displayed text; match ranges refer to it */
+  text: string;
+  /** Extra terms that find the item, weighted below the text */
+  keywords?: readonly string[];
+}
+
+/**
+ * Matches a query against a candidate. Return `null` to hide the item.
+ */
+export type FilterFunction = (query: string, candidate: MatchCandidate) => MatchResult | null;
+
+/**
+ * An item that passed the filter, with its score and match ranges.
+ */
+export interface RankedItem<T> {
+  item: T;
+  score: number;
+  ranges: MatchRange[];
+}
+
+/**
+ * A run of text that is either part of a match or not, for rendering highlights.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+const SCORE_MATCH = 16;
+const BONUS_BOUNDARY = 8;
+const BONUS_FIRST_CHAR = 8;
+const BONUS_CONSECUTIVE = 4;
+const BONUS_ACRONYM = 8;
+const BONUS_EXACT = 16;
+const PENALTY_GAP_START = 3;
+const PENALTY_GAP_EXTENSION = 1;
+
+/** Keyword matches count for this fraction of a text match */
+const KEYWORD_WEIGHT = 0.5;
+
+const COMBINING_MARKS = /\p{M}/gu;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const UPPERCASE = /\p{Lu}/u;
+const LOWERCASE = /\p{Ll}/u;
+const WHITESPACE = /\s/u;
+
+interface FoldedText {
+  /** Case- and diacritic-folded code points */
+  chars: string[];
+  /** Original UTF-16 start offset of each folded code point */
+  starts: number[];
+  /** Original UTF-16 end offset of each folded code point */
+  ends: number[];
+  /** Whether each folded code point starts a word */
+  boundaries: boolean[];
+}
+
+function foldChar(char: string): string {
+  return char.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+}
+
+function isBoundary(previous: string | undefined, char: string): boolean {
+  if (previous === undefined) return true;
+  if (!WORD_CHAR.test(previous)) return WORD_CHAR.test(char);
+  // camelCase hump
+  return LOWERCASE.test(previous) && UPPERCASE.test(char);
+}
+
+function foldText(text: string): FoldedText {
+  const folded: FoldedText = { chars: [], starts: [], ends: [], boundaries: [] };
+  let offset = 0;
+  let previous: string | undefined;
+
+  for (const char of text) {
+    const boundary = isBoundary(previous, char);
+    let first = true;
+    for (const foldedChar of foldChar(char)) {
+      folded.chars.push(foldedChar);
+      folded.starts.push(offset);
+      folded.ends.push(offset + char.length);
+      folded.boundaries.push(boundary && first);
+      first = false;
+    }
+    offset += char.length;
+    previous = char;
+  }
+
+  return folded;
+}
+
+function foldQuery(query: string): string[] {
+  const chars: string[] = [];
+  for (const char of query) {
+    if (WHITESPACE.test(char)) continue;
+    chars.push(...foldChar(char));
+  }
+  return chars;
+}
+
+function toRanges(folded: FoldedText, positions: number[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const position of positions) {
+    const start = folded.starts[position] as number;
+    const end = folded.ends[position] as number;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end >= start) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Match a query against a single string.
+ *
+ * Returns `null` when the query's characters do not all appear in order.
+ * Whitespace in the query is ignored, so "new file" also matches "NewFile".
+ * An empty query matches everything with a score of 0.
+ *
+ * @example
+ * ```typescript
+ * fuzzyMatch("gtd", "Go To Definition");
+ * // { score: ..., ranges: [{ start: 0, end: 1 }, { start: 3, end: 4 }, { start: 6, end: 7 }] }
+ * ```
+ */
+export function fuzzyMatch(query: string, text: string): MatchResult | null {
+  const needle = foldQuery(query);
+  if (needle.length === 0) return { score: 0, ranges: [] };
+
+  const haystack = foldText(text);
+  const { chars, boundaries } = haystack;
+  const m = needle.length;
+  const n = chars.length;
+  if (m > n) return null;
+
+  // Bail out early unless every query character appears in order
+  let cursor = 0;
+  for (let j = 0; j < n && cursor < m; j++) {
+    if (chars[j] === needle[cursor]) cursor++;
+  }
+  if (cursor < m) return null;
+
+  // scores[i][j]: best score with needle[i] matched at chars[j]
+  // from[i][j]: where needle[i - 1] was matched on that best path
+  const scores: number[][] = [];
+  const from: number[][] = [];
+
+  for (let i = 0; i < m; i++) {
+    const row = new Array<number>(n).fill(Number.NEGATIVE_INFINITY);
+    const rowFrom = new Array<number>(n).fill(-1);
+    const previous = scores[i - 1];
+
+    // Best of previous[k] + GAP_EXTENSION * k over k <= j - 2, for gapped moves
+    let gapBest = Number.NEGATIVE_INFINITY;
+    let gapFrom = -1;
+
+    for (let j = i; j < n; j++) {
+      if (previous && j >= 2) {
+        const candidate = (previous[j - 2] as number) + PENALTY_GAP_EXTENSION * (j - 2);
+        if (candidate > gapBest) {
+          gapBest = candidate;
+          gapFrom = j - 2;
+        }
+      }
+
+      if (chars[j] !== needle[i]) continue;
+
+      let base = SCORE_MATCH;
+      if (boundaries[j]) base += BONUS_BOUNDARY;
+      if (j === 0) base += BONUS_FIRST_CHAR;
+
+      if (!previous) {
+        row[j] = base;
+        continue;
+      }
+
+      const consecutive =
+        j >= 1 ? (previous[j - 1] as number) + BONUS_CONSECUTIVE : Number.NEGATIVE_INFINITY;
+      const gapped = gapBest - PENALTY_GAP_START - PENALTY_GAP_EXTENSION * (j - 2);
+
+      if (consecutive >= gapped && consecutive > Number.NEGATIVE_INFINITY) {
+        row[j] = consecutive + base;
+        rowFrom[j] = j - 1;
+      } else if (gapped > Number.NEGATIVE_INFINITY) {
+        row[j] = gapped + base;
+        rowFrom[j] = gapFrom;
+      }
+    }
+
+    scores.push(row);
+    from.push(rowFrom);
+  }
+
+  // Pick the best end position and walk back to recover the matched positions
+  const lastRow = scores[m - 1] as number[];
+  let end = -1;
+  for (let j = 0; j < n; j++) {
+    if (end === -1 || (lastRow[j] as number) > (lastRow[end] as number)) end = j;
+  }
+
+  const positions = new Array<number>(m);
+  let position = end;
+  for (let i = m - 1; i >= 0; i--) {
+    positions[i] = position;
+    position = (from[i] as number[])[position] as number;
+  }
+
+  let score = lastRow[end] as number;
+  if (m > 1 && positions.every((p) => boundaries[p])) score += BONUS_ACRONYM;
+  if (chars.filter((char) => !WHITESPACE.test(char)).join("") === needle.join("")) {
+    score += BONUS_EXACT;
+  }
+
+  return { score, ranges: toRanges(haystack, positions) };
+}
+
+/**
+ * The default filter: fuzzy-matches the text and each keyword, keeping the
+ * best. Keyword matches are weighted below text matches and carry no ranges.
+ */
+export const fuzzyFilter: FilterFunction = (query, candidate) => {
+  let best = fuzzyMatch(query, candidate.text);
+
+  for (const keyword of candidate.keywords ?? []) {
+    const result = fuzzyMatch(query, keyword);
+    if (!result) continue;
+    const score = result.score * KEYWORD_WEIGHT;
+    if (!best || score > best.score) {
+      best = { score, ranges: [] };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Filter items by a query and order them by score, best first. Items with
+ * equal scores keep their original order. A blank query returns every item
+ * in order, without calling the filter.
+ *
+ * @example
+ * ```typescript
+ * const results = rankItems(commands, "opfi", (command) => ({
+ *   text: command.label,
+ *   keywords: command.aliases,
+ * }));
+ * ```
+ */
+export function rankItems<T>(
+  items: readonly T[],
+  query: string,
+  getCandidate: (item: T) => MatchCandidate,
+  filter: FilterFunction = fuzzyFilter
+): RankedItem<T>[] {
+  if (!query.trim()) {
+    return items.map((item) => ({ item, score: 0, ranges: [] }));
+  }
+
+  const ranked: RankedItem<T>[] = [];
+  for (const item of items) {
+    const result = filter(query, getCandidate(item));
+    if (result) ranked.push({ item, score: result.score, ranges: result.ranges });
+  }
+
+  // Array.prototype.sort is stable, so ties keep their original order
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Split text into matched and unmatched runs for rendering highlights.
+ *
+ * @example
+ * ```typescript
+ * getHighlightSegments("Open File", [{ start: 0, end: 2 }]);
+ * // [{ text: "Op", match: true }, { text: "en File", match: false }]
+ * ```
+ */
+export function getHighlightSegments(
+  text: string,
+  ranges: readonly MatchRange[]
+): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let offset = 0;
+
+  for (const { start, end } of ranges) {
+    if (start > offset) segments.push({ text: text.slice(offset, start), match: false });
+    if (end > start) segments.push({ text: text.slice(start, end), match: true });
+    offset = Math.max(offset, end);
+  }
+  if (offset < text.length) segments.push({ text: text.slice(offset), match: false });
+
+  return segments;
+}
@@ -0,0 +1,120 @@
+/**
+ * Most-recently-used list for command palettes.
+ *
+ * Values are kept newest first, without duplicates, and persisted through a
+ * storage adapter. `window.localStorage` and `sessionStorage` work as-is;
+ * async stores (IndexedDB wrappers, a settings API) may return promises.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Key-value storage for persisting recent commands. A subset of the Web
+ * Storage interface whose methods may also be async.
+ */
+export interface RecentCommandsStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem?: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Options for creating a recent commands list.
+ */
+export interface RecentCommandsOptions {
+  /** Where the list is persisted */
+  storage: RecentCommandsStorage;
+
+  /**
+   * Storage key.
+   * @default "ds-command-recent"
+   */
+  key?: string;
+
+  /**
+   * Maximum number of values kept.
+   * @default 5
+   */
+  limit?: number;
+}
+
+/**
+ * A persisted most-recently-used list.
+ */
+export interface RecentCommands {
+  /** Reads the stored values, newest first */
+  list: () => Promise<string[]>;
+
+  /** Moves a value to the front and returns the updated list */
+  record: (value: string) => Promise<string[]>;
+
+  /** Removes a single value and returns the updated list */
+  remove: (value: string) => Promise<string[]>;
+
+  /** Forgets all values */
+  clear: () => Promise<void>;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+function parse(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((value): value is string => typeof value === "string")
+      : [];
+  } catch {
+    // Corrupt or foreign data under our key: start over
+    return [];
+  }
+}
+
+/**
+ * Creates a most-recently-used list backed by a storage adapter.
+ *
+ * @example
+ * ```ts
+ * const recent = createRecentCommands({ storage: localStorage, limit: 3 });
+ *
+ * await recent.record("toggle-theme");
+ * await recent.list(); // ["toggle-theme", ...]
+ * ```
+ */
+export function createRecentCommands(options: RecentCommandsOptions): RecentCommands {
+  const { storage, key = "ds-command-recent", limit = 5 } = options;
+
+  async function list(): Promise<string[]> {
+    return parse(await storage.getItem(key)).slice(0, limit);
+  }
+
+  async function write(values: string[]): Promise<string[]> {
+    const next = values.slice(0, limit);
+    await storage.setItem(key, JSON.stringify(next));
+    return next;
+  }
+
+  async function record(value: string): Promise<string[]> {
+    const values = await list();
+    return write([value, ...values.filter((existing) => existing !== value)]);
+  }
+
+  async function remove(value: string): Promise<string[]> {
+    const values = await list();
+    return write(values.filter((existing) => existing !== value));
+  }
+
+  async function clear(): Promise<void> {
+    if (storage.removeItem) {
+      await storage.removeItem(key);
+    } else {
+      await storage.setItem(key, "[]");
+    }
+  }
+
+  return { list, record, remove, clear };
+}
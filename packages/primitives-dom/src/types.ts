@@ -11,3 +11,9 @@ export type Direction = "horizontal" | "vertical" | "both";
  * Logical navigation direction (locale-aware).
  */
 export type LogicalDirection = "next" | "previous" | "first" | "last";
+
+/**
+ * Text direction of the content. Horizontal arrow keys and logical
+ * placements mirror in `"rtl"`.
+ */
+export type TextDirection = "ltr" | "rtl";
@@ -0,0 +1,217 @@
+/**
+ * In-memory upload server for tests and demos.
+ *
+ * Its `fetch` answers plain POST/PUT uploads and the tus creation, HEAD and
+ * PATCH requests without touching the network, so transports, queues and
+ * components can be exercised end to end. Failures and latency are scripted.
+ */
+
+import { type UploadFetch, createAbortError } from "./transport.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A file received by the mock server.
+ */
+export interface MockUpload {
+  /** URL of the upload (tus) or of the stored file (plain uploads) */
+  url: string;
+  /** Declared size in bytes */
+  length: number;
+  /** Bytes received so far */
+  offset: number;
+  /** Decoded tus metadata */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Options for the mock upload server.
+ */
+export interface MockUploadServerOptions {
+  /**
+   * Base URL of the uploads it creates.
+   * @default "https://uploads.test/files"
+   */
+  baseUrl?: string;
+
+  /**
+   * Delay in milliseconds before each response.
+   * @default 0
+   */
+  latency?: number;
+}
+
+/**
+ * A scripted in-memory upload server.
+ */
+export interface MockUploadServer {
+  /** Fetch function to pass to a transport */
+  fetch: UploadFetch;
+
+  /** Uploads by URL */
+  uploads: Map<string, MockUpload>;
+
+  /** Method and URL of every request, in order */
+  requests: Array<{ method: string; url: string }>;
+
+  /** Answers the next `count` requests with `status` (default 500) */
+  failNext: (count: number, status?: number) => void;
+
+  /** Forgets uploads, requests and scripted failures */
+  reset: () => void;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+function decodeMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+  for (const pair of header.split(",")) {
+    const [key, value = ""] = pair.trim().split(" ");
+    if (!key) continue;
+    const binary = atob(value);
+    metadata[key] = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  }
+  return metadata;
+}
+
+function bodySize(body: RequestInit["body"]): number {
+  if (body instanceof Blob) return body.size;
+  if (body instanceof FormData) {
+    let size = 0;
+    for (const value of body.values()) {
+      size += typeof value === "string" ? value.length : value.size;
+    }
+    return size;
+  }
+  if (typeof body === "string") return body.length;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  return 0;
+}
+
+/**
+ * Creates an in-memory upload server.
+ *
+ * @example
+ * ```ts
+ * const server = createMockUploadServer();
+ * const transport = createTusTransport({
+ *   endpoint: "https://uploads.test/files",
+ *   fetch: server.fetch,
+ * });
+ *
+ * server.failNext(1); // First request answers 500
+ * ```
+ */
+export function createMockUploadServer(options: MockUploadServerOptions = {}): MockUploadServer {
+  const { baseUrl = "https://uploads.test/files", latency = 0 } = options;
+
+  const uploads = new Map<string, MockUpload>();
+  const requests: Array<{ method: string; url: string }> = [];
+  let failures = 0;
+  let failureStatus = 500;
+  let nextId = 0;
+
+  function delay(signal: AbortSignal | null | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", handleAbort);
+        resolve();
+      }, latency);
+      function handleAbort(): void {
+        clearTimeout(timer);
+        reject(createAbortError());
+      }
+      signal?.addEventListener("abort", handleAbort, { once: true });
+    });
+  }
+
+  function respond(status: number, headers: Record<string, string> = {}, body?: unknown): Response {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+    });
+  }
+
+  async function handle(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+    requests.push({ method, url });
+
+    await delay(init.signal);
+
+    if (failures > 0) {
+      failures--;
+      return respond(failureStatus);
+    }
+
+    const isTus = headers.has("Tus-Resumable");
+
+    if (isTus && method === "POST") {
+      const upload: MockUpload = {
+        url: `${baseUrl}/${++nextId}`,
+        length: Number(headers.get("Upload-Length") ?? 0),
+        offset: 0,
+        metadata: decodeMetadata(headers.get("Upload-Metadata")),
+      };
+      uploads.set(upload.url, upload);
+      return respond(201, { Location: upload.url, "Tus-Resumable": "1.0.0" });
+    }
+
+    const upload = uploads.get(url);
+
+    if (isTus && method === "HEAD") {
+      if (!upload) return respond(404);
+      return respond(200, {
+        "Upload-Offset": String(upload.offset),
+        "Upload-Length": String(upload.length),
+        "Cache-Control": "no-store",
+      });
+    }
+
+    if (isTus && method === "PATCH") {
+      if (!upload) return respond(404);
+      if (Number(headers.get("Upload-Offset")) !== upload.offset) return respond(409);
+      upload.offset = Math.min(upload.offset + bodySize(init.body), upload.length);
+      return respond(204, { "Upload-Offset": String(upload.offset) });
+    }
+
+    if (method === "POST" || method === "PUT") {
+      const size = bodySize(init.body);
+      const stored: MockUpload = {
+        url: `${baseUrl}/${++nextId}`,
+        length: size,
+        offset: size,
+        metadata: {},
+      };
+      uploads.set(stored.url, stored);
+      return respond(200, {}, { url: stored.url, size });
+    }
+
+    return respond(405);
+  }
+
+  return {
+    fetch: (input, init) => handle(input, init),
+    uploads,
+    requests,
+    failNext: (count, status = 500) => {
+      failures = count;
+      failureStatus = status;
+    },
+    reset: () => {
+      uploads.clear();
+      requests.length = 0;
+      failures = 0;
+      nextId = 0;
+    },
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Upload transports: how a single file reaches the server.
+ *
+ * A transport sends one file, reports progress and honours an abort signal.
+ * The upload queue handles concurrency and retries on top of it, so a
+ * transport only makes one attempt per call.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One attempt to upload a file.
+ */
+export interface UploadRequest {
+  file: File;
+  /** Aborts the attempt when the upload is canceled */
+  signal: AbortSignal;
+  /** Reports bytes sent so far */
+  onProgress: (loaded: number, total: number) => void;
+}
+
+/**
+ * Sends files to a server. Resolves with the server response and rejects
+ * with an {@link UploadFailure} (or an `AbortError` when aborted).
+ */
+export interface UploadTransport {
+  upload: (request: UploadRequest) => Promise<unknown>;
+}
+
+/**
+ * `fetch`-compatible function, e.g. `window.fetch` or a mock server's.
+ */
+export type UploadFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Error from a failed upload attempt. `status` is the HTTP status, if the
+ * server answered.
+ */
+export interface UploadFailure extends Error {
+  status?: number;
+}
+
+/**
+ * Options for the default HTTP transport.
+ */
+export interface HttpTransportOptions {
+  /** Upload URL, or a function of the file */
+  url: string | ((file: File) => string);
+
+  /**
+   * HTTP method.
+   * @default "POST"
+   */
+  method?: "POST" | "PUT" | "PATCH";
+
+  /**
+   * Multipart field name. Set to `null` to send the raw file as the body.
+   * @default "file"
+   */
+  fieldName?: string | null;
+
+  /** Extra request headers */
+  headers?: Record<string, string> | ((file: File) => Record<string, string>);
+
+  /** Send cookies on cross-origin requests (XHR only) */
+  withCredentials?: boolean;
+
+  /**
+   * Sends with this `fetch` instead of XMLHttpRequest. Fetch cannot report
+   * upload progress, so progress jumps to 100% when the response arrives.
+   */
+  fetch?: UploadFetch;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Creates an upload error carrying the HTTP status.
+ */
+export function createUploadFailure(message: string, status?: number): UploadFailure {
+  const error: UploadFailure = new Error(message);
+  error.name = "UploadFailure";
+  if (status !== undefined) error.status = status;
+  return error;
+}
+
+/** Statuses that mean "try again later" even though they are 4xx */
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 409, 423, 429]);
+
+/**
+ * Whether an upload error is worth retrying: network failures and server
+ * errors are, aborts and most client errors are not.
+ */
+export function isRetryableUploadError(error: unknown): boolean {
+  if (!(error instanceof Error)) return true;
+  if (error.name === "AbortError") return false;
+  const { status } = error as UploadFailure;
+  if (status === undefined) return true;
+  return status >= 500 || RETRYABLE_CLIENT_STATUSES.has(status);
+}
+
+/**
+ * Creates the error an aborted upload rejects with.
+ */
+export function createAbortError(): Error {
+  const error = new Error("Upload aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+// =============================================================================
+// HTTP transport
+// =============================================================================
+
+function resolve<T>(value: T | ((file: File) => T), file: File): T {
+  return typeof value === "function" ? (value as (file: File) => T)(file) : value;
+}
+
+function parseBody(text: string, contentType: string | null): unknown {
+  if (contentType?.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * Creates a transport that sends each file in a single request, as
+ * multipart form data or as the raw body. Uses XMLHttpRequest for upload
+ * progress, or the given `fetch`.
+ *
+ * @example
+ * ```ts
+ * const transport = createHttpTransport({
+ *   url: "/api/upload",
+ *   headers: { Authorization: `Bearer ${token}` },
+ * });
+ * ```
+ */
+export function createHttpTransport(options: HttpTransportOptions): UploadTransport {
+  const { method = "POST", fieldName = "file", withCredentials = false } = options;
+
+  function createBody(file: File): Blob | FormData {
+    if (fieldName === null) return file;
+    const form = new FormData();
+    form.append(fieldName, file, file.name);
+    return form;
+  }
+
+  async function uploadWithFetch(request: UploadRequest, fetchFn: UploadFetch): Promise<unknown> {
+    const { file, signal, onProgress } = request;
+    let response: Response;
+    try {
+      response = await fetchFn(resolve(options.url, file), {
+        method,
+        headers: resolve(options.headers ?? {}, file),
+        body: createBody(file),
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) throw createAbortError();
+      throw error instanceof Error ? error : createUploadFailure(String(error));
+    }
+
+    if (!response.ok) {
+      throw createUploadFailure(`Upload failed with status ${response.status}`, response.status);
+    }
+    onProgress(file.size, file.size);
+    return parseBody(await response.text(), response.headers.get("Content-Type"));
+  }
+
+  function uploadWithXhr(request: UploadRequest): Promise<unknown> {
+    const { file, signal, onProgress } = request;
+
+    return new Promise((resolvePromise, reject) => {
+      if (signal.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, resolve(options.url, file));
+      xhr.withCredentials = withCredentials;
+      for (const [name, value] of Object.entries(resolve(options.headers ?? {}, file))) {
+        xhr.setRequestHeader(name, value);
+      }
+
+      const handleAbort = () => xhr.abort();
+      signal.addEventListener("abort", handleAbort, { once: true });
+      const cleanup = () => signal.removeEventListener("abort", handleAbort);
+
+      xhr.upload.addEventListener("progress", (event) => {
+        if (event.lengthComputable) onProgress(event.loaded, event.total);
+      });
+      xhr.addEventListener("load", () => {
+        cleanup();
+        if (xhr.status >= 200 && xhr.status < 300) {
+          onProgress(file.size, file.size);
+          resolvePromise(parseBody(xhr.responseText, xhr.getResponseHeader("Content-Type")));
+        } else {
+          reject(createUploadFailure(`Upload failed with status ${xhr.status}`, xhr.status));
+        }
+      });
+      xhr.addEventListener("error", () => {
+        cleanup();
+        reject(createUploadFailure("Network error during upload"));
+      });
+      xhr.addEventListener("abort", () => {
+        cleanup();
+        reject(createAbortError());
+      });
+
+      xhr.send(createBody(file));
+    });
+  }
+
+  return {
+    upload: (request) =>
+      options.fetch ? uploadWithFetch(request, options.fetch) : uploadWithXhr(request),
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Chunked, resumable uploads over the tus protocol (https://tus.io, v1.0.0).
+ *
+ * The file is created on the server with a POST, then sent in PATCH chunks.
+ * The upload URL is remembered per file, so a retry, or a later page load
+ * when a storage adapter is given, asks the server for the current offset
+ * with a HEAD request and continues from there.
+ */
+
+import {
+  type UploadFetch,
+  type UploadTransport,
+  createAbortError,
+  createUploadFailure,
+} from "./transport.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Key-value storage for upload URLs. A subset of the Web Storage interface
+ * whose methods may also be async.
+ */
+export interface UploadUrlStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Options for the tus transport.
+ */
+export interface TusTransportOptions {
+  /** Creation endpoint, e.g. "/files/" */
+  endpoint: string;
+
+  /**
+   * Bytes per PATCH request.
+   * @default 5242880 (5 MiB)
+   */
+  chunkSize?: number;
+
+  /** Extra request headers, e.g. authorization */
+  headers?: Record<string, string>;
+
+  /**
+   * Upload metadata sent on creation.
+   * @default { filename, filetype }
+   */
+  metadata?: (file: File) => Record<string, string>;
+
+  /** Persists upload URLs so uploads resume across page loads */
+  storage?: UploadUrlStorage;
+
+  /**
+   * Fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: UploadFetch;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+const TUS_VERSION = "1.0.0";
+
+/** Statuses meaning the stored upload no longer exists on the server */
+const GONE_STATUSES = new Set([403, 404, 410]);
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      let binary = "";
+      for (const byte of bytes) binary += String.fromCharCode(byte);
+      return `${key} ${btoa(binary)}`;
+    })
+    .join(",");
+}
+
+function fingerprint(file: File, endpoint: string): string {
+  return `tus::${endpoint}::${file.name}:${file.type}:${file.size}:${file.lastModified}`;
+}
+
+function resolveUrl(location: string, endpoint: string): string {
+  try {
+    return new URL(location, new URL(endpoint, globalThis.location?.href)).href;
+  } catch {
+    // Relative endpoint without a document base: keep the server's value
+    return location;
+  }
+}
+
+/**
+ * Creates a transport that uploads files in resumable chunks using the tus
+ * protocol.
+ *
+ * @example
+ * ```ts
+ * const transport = createTusTransport({
+ *   endpoint: "https://uploads.example.com/files/",
+ *   chunkSize: 2 * 1024 * 1024,
+ *   storage: localStorage,
+ * });
+ * ```
+ */
+export function createTusTransport(options: TusTransportOptions): UploadTransport {
+  const {
+    endpoint,
+    chunkSize = 5 * 1024 * 1024,
+    headers = {},
+    metadata = (file: File) => ({ filename: file.name, filetype: file.type }),
+    storage,
+  } = options;
+
+  // Upload URLs of unfinished uploads in this session
+  const urls = new Map<string, string>();
+
+  async function request(url: string, init: RequestInit): Promise<Response> {
+    const fetchFn = options.fetch ?? globalThis.fetch;
+    try {
+      return await fetchFn(url, {
+        ...init,
+        headers: { "Tus-Resumable": TUS_VERSION, ...headers, ...init.headers },
+      });
+    } catch (error) {
+      if (init.signal?.aborted) throw createAbortError();
+      throw error instanceof Error ? error : createUploadFailure(String(error));
+    }
+  }
+
+  async function forget(key: string): Promise<void> {
+    urls.delete(key);
+    await storage?.removeItem(key);
+  }
+
+  /** Finds the offset of a previously started upload, if it still exists */
+  async function resume(url: string, signal: AbortSignal): Promise<number | null> {
+    const response = await request(url, { method: "HEAD", signal });
+    if (GONE_STATUSES.has(response.status)) return null;
+    if (!response.ok) {
+      throw createUploadFailure(
+        `Upload lookup failed with status ${response.status}`,
+        response.status
+      );
+    }
+    const offset = Number(response.headers.get("Upload-Offset"));
+    return Number.isFinite(offset) ? offset : null;
+  }
+
+  async function create(file: File, signal: AbortSignal): Promise<string> {
+    const response = await request(endpoint, {
+      method: "POST",
+      signal,
+      headers: {
+        "Upload-Length": String(file.size),
+        "Upload-Metadata": encodeMetadata(metadata(file)),
+      },
+    });
+    const location = response.headers.get("Location");
+    if (!response.ok || !location) {
+      throw createUploadFailure(
+        `Upload creation failed with status ${response.status}`,
+        response.status
+      );
+    }
+    return resolveUrl(location, endpoint);
+  }
+
+  return {
+    upload: async ({ file, signal, onProgress }) => {
+      const key = fingerprint(file, endpoint);
+      let url = urls.get(key) ?? (await storage?.getItem(key)) ?? null;
+      let offset: number | null = null;
+
+      if (url) {
+        offset = await resume(url, signal);
+        if (offset === null) {
+          await forget(key);
+          url = null;
+        }
+      }
+
+      if (!url) {
+        url = await create(file, signal);
+        offset = 0;
+        urls.set(key, url);
+        await storage?.setItem(key, url);
+      }
+
+      let sent = offset ?? 0;
+      onProgress(sent, file.size);
+
+      while (sent < file.size) {
+        if (signal.aborted) throw createAbortError();
+
+        const chunk = file.slice(sent, sent + chunkSize);
+        const response = await request(url, {
+          method: "PATCH",
+          signal,
+          headers: {
+            "Upload-Offset": String(sent),
+            "Content-Type": "application/offset+octet-stream",
+          },
+          body: chunk,
+        });
+
+        if (!response.ok) {
+          throw createUploadFailure(
+            `Chunk upload failed with status ${response.status}`,
+            response.status
+          );
+        }
+
+        const next = Number(response.headers.get("Upload-Offset"));
+        sent = Number.isFinite(next) && next > sent ? next : sent + chunk.size;
+        onProgress(sent, file.size);
+      }
+
+      await forget(key);
+      return { url };
+    },
+  };
+}
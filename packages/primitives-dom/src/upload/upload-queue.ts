@@ -0,0 +1,279 @@
+/**
+ * Upload queue: runs transport uploads with a concurrency limit, retries
+ * failed attempts with exponential backoff, and supports cancel and manual
+ * retry per file.
+ */
+
+import { type UploadTransport, isRetryableUploadError } from "./transport.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type UploadStatus = "pending" | "uploading" | "success" | "error" | "canceled";
+
+/**
+ * Options for creating an upload queue.
+ */
+export interface UploadQueueOptions {
+  /** How files are sent */
+  transport: UploadTransport;
+
+  /**
+   * Maximum simultaneous uploads.
+   * @default 3
+   */
+  concurrency?: number;
+
+  /**
+   * Automatic retries after a failed attempt.
+   * @default 3
+   */
+  retries?: number;
+
+  /**
+   * Delay in milliseconds before the first retry; doubles with each retry.
+   * @default 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Upper bound for the retry delay in milliseconds.
+   * @default 30000
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * Decides whether a failed attempt is retried.
+   * @default isRetryableUploadError
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /** Called with the progress (0-100) of an upload */
+  onProgress?: (id: string, progress: number) => void;
+
+  /** Called when an upload changes status; `error` is set for "error" */
+  onStatusChange?: (id: string, status: UploadStatus, error?: unknown) => void;
+
+  /** Called with the server response when an upload succeeds */
+  onSuccess?: (id: string, response: unknown) => void;
+}
+
+/** Queue settings that can change while uploads run */
+export type UploadQueueSettings = Omit<
+  UploadQueueOptions,
+  "onProgress" | "onStatusChange" | "onSuccess"
+>;
+
+/**
+ * A queue of file uploads.
+ */
+export interface UploadQueue {
+  /** Queues a file; it starts as soon as a slot is free */
+  add: (id: string, file: File) => void;
+
+  /** Aborts an upload, or takes it out of the queue */
+  cancel: (id: string) => void;
+
+  /** Queues a failed or canceled upload again */
+  retry: (id: string) => void;
+
+  /** Cancels an upload and forgets it */
+  remove: (id: string) => void;
+
+  /** Current status of an upload */
+  getStatus: (id: string) => UploadStatus | undefined;
+
+  /** Cancels every pending and running upload */
+  cancelAll: () => void;
+
+  /** Updates settings in place; running uploads keep their transport */
+  setOptions: (options: Partial<UploadQueueSettings>) => void;
+
+  /** Cancels everything and releases all state */
+  destroy: () => void;
+}
+
+interface UploadEntry {
+  file: File;
+  status: UploadStatus;
+  controller: AbortController | null;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Creates an upload queue on top of a transport.
+ *
+ * @example
+ * ```ts
+ * const queue = createUploadQueue({
+ *   transport: createHttpTransport({ url: "/api/upload" }),
+ *   concurrency: 2,
+ *   onProgress: (id, progress) => behavior.updateProgress(id, progress),
+ *   onStatusChange: (id, status) => renderStatus(id, status),
+ * });
+ *
+ * queue.add(fileInfo.id, fileInfo.file);
+ * ```
+ */
+export function createUploadQueue(options: UploadQueueOptions): UploadQueue {
+  const { onProgress, onStatusChange, onSuccess } = options;
+  let {
+    transport,
+    concurrency = 3,
+    retries = 3,
+    retryDelay = 1000,
+    maxRetryDelay = 30000,
+    shouldRetry = isRetryableUploadError,
+  } = options;
+
+  const entries = new Map<string, UploadEntry>();
+  // Ids waiting for a slot, in order
+  let waiting: string[] = [];
+  let active = 0;
+
+  function setStatus(id: string, entry: UploadEntry, status: UploadStatus, error?: unknown): void {
+    entry.status = status;
+    onStatusChange?.(id, status, error);
+  }
+
+  function pump(): void {
+    while (active < concurrency && waiting.length > 0) {
+      const id = waiting.shift() as string;
+      const entry = entries.get(id);
+      if (entry?.status === "pending") {
+        void run(id, entry);
+      }
+    }
+  }
+
+  /** Waits before a retry; cancelling ends the wait early */
+  function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal.addEventListener("abort", done, { once: true });
+      function done(): void {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", done);
+        resolve();
+      }
+    });
+  }
+
+  async function run(id: string, entry: UploadEntry): Promise<void> {
+    active++;
+    const controller = new AbortController();
+    // Retries stay on the transport that started the upload, e.g. to resume it
+    const runTransport = transport;
+    entry.controller = controller;
+    setStatus(id, entry, "uploading");
+    onProgress?.(id, 0);
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await runTransport.upload({
+            file: entry.file,
+            signal: controller.signal,
+            onProgress: (loaded, total) => {
+              if (controller.signal.aborted) return;
+              onProgress?.(id, total > 0 ? Math.round((loaded / total) * 100) : 100);
+            },
+          });
+          if (controller.signal.aborted) return;
+          setStatus(id, entry, "success");
+          onSuccess?.(id, response);
+          return;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          if (attempt >= retries || !shouldRetry(error, attempt + 1)) {
+            setStatus(id, entry, "error", error);
+            return;
+          }
+          await wait(Math.min(retryDelay * 2 ** attempt, maxRetryDelay), controller.signal);
+          if (controller.signal.aborted) return;
+        }
+      }
+    } finally {
+      if (entry.controller === controller) entry.controller = null;
+      active--;
+      pump();
+    }
+  }
+
+  function add(id: string, file: File): void {
+    remove(id);
+    entries.set(id, { file, status: "pending", controller: null });
+    waiting.push(id);
+    pump();
+  }
+
+  // The aborted run frees its slot when it unwinds
+  function abort(entry: UploadEntry): void {
+    entry.controller?.abort();
+    entry.controller = null;
+  }
+
+  function cancel(id: string): void {
+    const entry = entries.get(id);
+    if (!entry || (entry.status !== "pending" && entry.status !== "uploading")) return;
+    abort(entry);
+    waiting = waiting.filter((waitingId) => waitingId !== id);
+    setStatus(id, entry, "canceled");
+  }
+
+  function retry(id: string): void {
+    const entry = entries.get(id);
+    if (!entry || (entry.status !== "error" && entry.status !== "canceled")) return;
+    setStatus(id, entry, "pending");
+    waiting.push(id);
+    pump();
+  }
+
+  function remove(id: string): void {
+    const entry = entries.get(id);
+    if (!entry) return;
+    abort(entry);
+    waiting = waiting.filter((waitingId) => waitingId !== id);
+    entries.delete(id);
+  }
+
+  function cancelAll(): void {
+    for (const id of [...entries.keys()]) {
+      cancel(id);
+    }
+  }
+
+  function setOptions(settings: Partial<UploadQueueSettings>): void {
+    transport = settings.transport ?? transport;
+    concurrency = settings.concurrency ?? concurrency;
+    retries = settings.retries ?? retries;
+    retryDelay = settings.retryDelay ?? retryDelay;
+    maxRetryDelay = settings.maxRetryDelay ?? maxRetryDelay;
+    shouldRetry = settings.shouldRetry ?? shouldRetry;
+    // A higher limit starts waiting uploads
+    pump();
+  }
+
+  function destroy(): void {
+    for (const entry of entries.values()) {
+      abort(entry);
+    }
+    entries.clear();
+    waiting = [];
+  }
+
+  return {
+    add,
+    cancel,
+    retry,
+    remove,
+    getStatus: (id) => entries.get(id)?.status,
+    cancelAll,
+    setOptions,
+    destroy,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Virtual Window primitive.
+ * Computes which items of a long list should be mounted for a given scroll
+ * position, using estimated sizes refined by cached measurements.
+ *
+ * Unlike `createVirtualizedList`, this keeps no element per item: callers
+ * render only the returned range between two spacers sized from
+ * `offsetBefore` and `offsetAfter`.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface VirtualWindowOptions {
+  /** Total number of items */
+  count: number;
+  /** Estimated item size in pixels, or a per-index estimate */
+  estimateSize: number | ((index: number) => number);
+  /** Number of extra items to mount before and after the visible range (default: 5) */
+  overscan?: number;
+  /**
+   * Stable key for an index. Measurements are cached by key so they
+   * survive re-ordering (sorting, filtering). Defaults to the index itself.
+   */
+  getItemKey?: (index: number) => string | number;
+}
+
+export interface VirtualRange {
+  /** First mounted index (inclusive) */
+  start: number;
+  /** Last mounted index (exclusive) */
+  end: number;
+  /** Space to reserve before the first mounted item */
+  offsetBefore: number;
+  /** Space to reserve after the last mounted item */
+  offsetAfter: number;
+  /** Total scrollable size of all items */
+  totalSize: number;
+}
+
+export type VirtualAlign = "start" | "center" | "end" | "nearest";
+
+export interface VirtualWindow {
+  /** Update the item count (e.g. after data changes) */
+  setCount(count: number): void;
+
+  /** Get the current item count */
+  getCount(): number;
+
+  /**
+   * Record the measured size of an item.
+   * Returns true when the cached size changed.
+   */
+  measure(index: number, size: number): boolean;
+
+  /** Get the measured or estimated size of an item */
+  getSize(index: number): number;
+
+  /** Get the offset of an item from the start of the list */
+  getOffset(index: number): number;
+
+  /** Get the total size of all items */
+  getTotalSize(): number;
+
+  /** Get the index of the item at a scroll offset */
+  getIndexAtOffset(offset: number): number;
+
+  /** Compute the range to mount for a scroll offset and viewport size */
+  getRange(scrollOffset: number, viewportSize: number): VirtualRange;
+
+  /** Compute the scroll offset that brings an item into view */
+  getScrollOffsetForIndex(
+    index: number,
+    viewportSize: number,
+    currentOffset?: number,
+    align?: VirtualAlign
+  ): number;
+
+  /** Drop all cached measurements */
+  reset(): void;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Creates a virtual window over a list of `count` items.
+ *
+ * @example
+ * ```ts
+ * const virtual = createVirtualWindow({ count: 50_000, estimateSize: 48, overscan: 5 });
+ *
+ * container.addEventListener("scroll", () => {
+ *   const range = virtual.getRange(container.scrollTop, container.clientHeight);
+ *   topSpacer.style.height = `${range.offsetBefore}px`;
+ *   bottomSpacer.style.height = `${range.offsetAfter}px`;
+ *   renderRows(range.start, range.end);
+ *
+ *   // Refine estimates with real sizes
+ *   mountedRows.forEach((row, i) => virtual.measure(range.start + i, row.offsetHeight));
+ * });
+ * ```
+ */
+export function createVirtualWindow(options: VirtualWindowOptions): VirtualWindow {
+  const { estimateSize, overscan = 5, getItemKey = (index: number) => index } = options;
+
+  let count = Math.max(0, options.count);
+
+  // Measured sizes keyed by item key
+  const measurements = new Map<string | number, number>();
+
+  // offsets[i] = start of item i; offsets[count] = total size
+  let offsets: number[] = [];
+  let dirty = true;
+
+  function estimate(index: number): number {
+    return typeof estimateSize === "function" ? estimateSize(index) : estimateSize;
+  }
+
+  function getSize(index: number): number {
+    return measurements.get(getItemKey(index)) ?? estimate(index);
+  }
+
+  function ensureOffsets(): void {
+    if (!dirty) return;
+
+    offsets = new Array(count + 1);
+    offsets[0] = 0;
+    for (let i = 0; i < count; i++) {
+      offsets[i + 1] = (offsets[i] as number) + getSize(i);
+    }
+    dirty = false;
+  }
+
+  function setCount(next: number): void {
+    count = Math.max(0, next);
+    dirty = true;
+  }
+
+  function measure(index: number, size: number): boolean {
+    if (index < 0 || index >= count || !(size > 0)) return false;
+
+    const key = getItemKey(index);
+    if (measurements.get(key) === size) return false;
+
+    measurements.set(key, size);
+    dirty = true;
+    return true;
+  }
+
+  function getOffset(index: number): number {
+    ensureOffsets();
+    const clamped = Math.max(0, Math.min(index, count));
+    return offsets[clamped] as number;
+  }
+
+  function getTotalSize(): number {
+    return getOffset(count);
+  }
+
+  function getIndexAtOffset(offset: number): number {
+    ensureOffsets();
+    if (count === 0) return 0;
+
+    // Binary search for the last item whose start is <= offset
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((offsets[mid] as number) <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  function getRange(scrollOffset: number, viewportSize: number): VirtualRange {
+    const totalSize = getTotalSize();
+
+    if (count === 0) {
+      return { start: 0, end: 0, offsetBefore: 0, offsetAfter: 0, totalSize };
+    }
+
+    const firstVisible = getIndexAtOffset(Math.max(0, scrollOffset));
+    const lastVisible = getIndexAtOffset(Math.max(0, scrollOffset + viewportSize - 1));
+
+    const start = Math.max(0, firstVisible - overscan);
+    const end = Math.min(count, lastVisible + 1 + overscan);
+
+    const offsetBefore = getOffset(start);
+    const offsetAfter = totalSize - getOffset(end);
+
+    return { start, end, offsetBefore, offsetAfter, totalSize };
+  }
+
+  function getScrollOffsetForIndex(
+    index: number,
+    viewportSize: number,
+    currentOffset = 0,
+    align: VirtualAlign = "nearest"
+  ): number {
+    const itemStart = getOffset(index);
+    const itemEnd = itemStart + getSize(index);
+    const maxOffset = Math.max(0, getTotalSize() - viewportSize);
+
+    let target: number;
+    switch (align) {
+      case "start":
+        target = itemStart;
+        break;
+      case "end":
+        target = itemEnd - viewportSize;
+        break;
+      case "center":
+        target = itemStart - (viewportSize - (itemEnd - itemStart)) / 2;
+        break;
+      default:
+        if (itemStart < currentOffset) {
+          target = itemStart;
+        } else if (itemEnd > currentOffset + viewportSize) {
+          target = itemEnd - viewportSize;
+        } else {
+          target = currentOffset;
+        }
+    }
+
+    return Math.max(0, Math.min(target, maxOffset));
+  }
+
+  function reset(): void {
+    measurements.clear();
+    dirty = true;
+  }
+
+  return {
+    setCount,
+    getCount: () => count,
+    measure,
+    getSize,
+    getOffset,
+    getTotalSize,
+    getIndexAtOffset,
+    getRange,
+    getScrollOffsetForIndex,
+    reset,
+  };
+}
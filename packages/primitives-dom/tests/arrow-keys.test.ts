@@ -219,6 +219,26 @@ describe("createArrowKeyHandler", () => {
       expect(onNavigate).toHaveBeenNthCalledWith(1, "first", homeEvent);
       expect(onNavigate).toHaveBeenNthCalledWith(2, "last", endEvent);
     });
+
+    it("should resolve RTL from the event target's dir when rtl is not set", () => {
+      const onNavigate = vi.fn();
+      const handler = createArrowKeyHandler({
+        orientation: "horizontal",
+        onNavigate,
+      });
+      const container = document.createElement("div");
+      container.dir = "rtl";
+      const item = document.createElement("button");
+      container.appendChild(item);
+      document.body.appendChild(container);
+
+      const event = new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true });
+      item.addEventListener("keydown", handler);
+      item.dispatchEvent(event);
+
+      expect(onNavigate).toHaveBeenCalledWith("previous", event);
+      container.remove();
+    });
   });
 
   describe("event handling", () => {
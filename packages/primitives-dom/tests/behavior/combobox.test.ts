@@ -87,6 +87,43 @@ describe("createComboboxBehavior", () => {
 
       combobox.destroy();
     });
+
+    it("should rank fuzzy matches and expose their ranges", () => {
+      const combobox = createComboboxBehavior({
+        items: [
+          { value: "pineapple", label: "Pineapple" },
+          { value: "plum", label: "Plum" },
+          { value: "grape", label: "Grape", keywords: ["purple"] },
+        ],
+      });
+
+      combobox.setInputValue("pl");
+
+      expect(combobox.state.filteredOptions.map((opt) => opt.value)).toEqual([
+        "plum",
+        "pineapple",
+        "grape",
+      ]);
+      expect(combobox.state.highlightedValue).toBe("plum");
+      expect(combobox.getMatchRanges("plum")).toEqual([{ start: 0, end: 2 }]);
+      expect(combobox.getMatchRanges("grape")).toEqual([]);
+
+      combobox.destroy();
+    });
+
+    it("should use a custom filter", () => {
+      const combobox = createComboboxBehavior({
+        items: defaultItems,
+        filter: (query, { text }) =>
+          text.toLowerCase().startsWith(query) ? { score: 1, ranges: [] } : null,
+      });
+
+      combobox.setInputValue("ch");
+
+      expect(combobox.state.filteredOptions.map((opt) => opt.value)).toEqual(["cherry"]);
+
+      combobox.destroy();
+    });
   });
 
   describe("open/close", () => {
@@ -363,6 +400,137 @@ describe("createComboboxBehavior", () => {
     });
   });
 
+  describe("groups", () => {
+    const groupedItems = [
+      { value: "apple", label: "Apple", group: "Fruit" },
+      { value: "carrot", label: "Carrot", group: "Vegetables" },
+      { value: "banana", label: "Banana", group: "Fruit" },
+      { value: "cabbage", label: "Cabbage", group: "Vegetables" },
+    ];
+
+    it("should list options of a group together", () => {
+      const combobox = createComboboxBehavior({ items: groupedItems });
+
+      expect(combobox.state.filteredOptions.map((opt) => opt.value)).toEqual([
+        "apple",
+        "banana",
+        "carrot",
+        "cabbage",
+      ]);
+      expect(combobox.getGroups().map((group) => group.label)).toEqual(["Fruit", "Vegetables"]);
+
+      combobox.destroy();
+    });
+
+    it("should order groups by their best match", () => {
+      const combobox = createComboboxBehavior({ items: groupedItems });
+
+      combobox.setInputValue("ca");
+
+      expect(combobox.getGroups()[0]?.label).toBe("Vegetables");
+      expect(combobox.state.highlightedValue).toBe("carrot");
+
+      combobox.destroy();
+    });
+
+    it("should label groups by ID", () => {
+      const combobox = createComboboxBehavior({ items: groupedItems });
+
+      const labelId = combobox.getGroupLabelProps("Fruit").id;
+
+      expect(combobox.getGroupProps("Fruit")).toEqual({
+        role: "group",
+        "aria-labelledby": labelId,
+      });
+      expect(combobox.getGroupLabelProps("Vegetables").id).not.toBe(labelId);
+
+      combobox.destroy();
+    });
+
+    it("should give options their position in the filtered list", () => {
+      const combobox = createComboboxBehavior({ items: groupedItems });
+
+      const props = combobox.getOptionProps("carrot", "Carrot");
+
+      expect(props["aria-posinset"]).toBe(3);
+      expect(props["aria-setsize"]).toBe(4);
+
+      combobox.destroy();
+    });
+  });
+
+  describe("setItems", () => {
+    it("should replace options and re-apply the query", () => {
+      const combobox = createComboboxBehavior({ items: defaultItems });
+      combobox.setInputValue("an");
+
+      combobox.setItems([...defaultItems, { value: "mango", label: "Mango" }]);
+
+      expect(combobox.state.filteredOptions.map((opt) => opt.value)).toEqual(["banana", "mango"]);
+
+      combobox.destroy();
+    });
+  });
+
+  describe("pagination", () => {
+    it("should append pages until there is no cursor", async () => {
+      const loadItems = vi.fn(async (_query: string, _signal: AbortSignal, cursor?: string) =>
+        cursor
+          ? { items: [{ value: "c", label: "C" }] }
+          : {
+              items: [
+                { value: "a", label: "A" },
+                { value: "b", label: "B" },
+              ],
+              nextCursor: "page-2",
+            }
+      );
+      const combobox = createComboboxBehavior({ loadItems });
+
+      combobox.open();
+      await vi.waitFor(() => expect(combobox.state.loading).toBe(false));
+      expect(combobox.state.hasMore).toBe(true);
+      expect(combobox.getOptionProps("a", "A")["aria-setsize"]).toBe(-1);
+
+      await combobox.loadMore();
+
+      expect(loadItems).toHaveBeenLastCalledWith("", expect.any(AbortSignal), "page-2");
+      expect(combobox.state.options.map((opt) => opt.value)).toEqual(["a", "b", "c"]);
+      expect(combobox.state.hasMore).toBe(false);
+
+      await combobox.loadMore();
+      expect(loadItems).toHaveBeenCalledTimes(2);
+
+      combobox.destroy();
+    });
+
+    it("should page the loaded query and abort it for a newer one", async () => {
+      const signals: AbortSignal[] = [];
+      const loadItems = vi.fn(async (query: string, signal: AbortSignal, cursor?: string) => {
+        signals.push(signal);
+        return { items: [{ value: `${query}-${cursor ?? 1}`, label: query }], nextCursor: "2" };
+      });
+      const onLoadStateChange = vi.fn();
+      const combobox = createComboboxBehavior({ loadItems, onLoadStateChange });
+
+      await combobox.load("ap");
+      expect(onLoadStateChange).toHaveBeenCalledTimes(2);
+      expect(onLoadStateChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ loading: false, hasMore: true })
+      );
+
+      combobox.setInputValue("apple");
+      await combobox.loadMore();
+      expect(loadItems).toHaveBeenLastCalledWith("ap", expect.any(AbortSignal), "2");
+
+      await combobox.load("b");
+      expect(signals[0]?.aborted).toBe(true);
+      expect(combobox.state.options.map((opt) => opt.value)).toEqual(["b-1"]);
+
+      combobox.destroy();
+    });
+  });
+
   describe("disabled state", () => {
     it("should not open when disabled", () => {
       const combobox = createComboboxBehavior({
@@ -0,0 +1,266 @@
+import { describe, expect, it, vi } from "vitest";
+import { createDateFieldBehavior } from "../../src/behavior/date-field";
+
+function key(value: string): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key: value, cancelable: true });
+}
+
+function type(
+  dateField: ReturnType<typeof createDateFieldBehavior>,
+  keys: string
+): ReturnType<typeof createDateFieldBehavior> {
+  for (const value of keys) {
+    const segment = dateField.state.focusedSegment;
+    if (segment) dateField.handleSegmentKeyDown(segment, key(value));
+  }
+  return dateField;
+}
+
+describe("createDateFieldBehavior", () => {
+  describe("layout", () => {
+    it("should order segments month/day/year for en-US", () => {
+      const dateField = createDateFieldBehavior({ locale: "en-US" });
+
+      expect(dateField.getSegments()).toEqual(["month", "day", "year"]);
+      expect(dateField.getParts()).toEqual([
+        { type: "month" },
+        { type: "literal", value: "/" },
+        { type: "day" },
+        { type: "literal", value: "/" },
+        { type: "year" },
+      ]);
+    });
+
+    it("should order segments day.month.year for de-DE", () => {
+      const dateField = createDateFieldBehavior({ locale: "de-DE" });
+
+      expect(dateField.getSegments()).toEqual(["day", "month", "year"]);
+      expect(dateField.getParts()[1]).toEqual({ type: "literal", value: "." });
+    });
+
+    it("should order segments year-month-day for sv-SE", () => {
+      const dateField = createDateFieldBehavior({ locale: "sv-SE" });
+
+      expect(dateField.getSegments()).toEqual(["year", "month", "day"]);
+      expect(dateField.getParts()[1]).toEqual({ type: "literal", value: "-" });
+    });
+  });
+
+  describe("value", () => {
+    it("should start empty with placeholders", () => {
+      const dateField = createDateFieldBehavior();
+
+      expect(dateField.state.value).toBeNull();
+      expect(dateField.getSegmentDisplayValue("day")).toBe("dd");
+      expect(dateField.getSegmentDisplayValue("month")).toBe("mm");
+      expect(dateField.getSegmentDisplayValue("year")).toBe("yyyy");
+    });
+
+    it("should accept a default value", () => {
+      const dateField = createDateFieldBehavior({ defaultValue: new Date(2026, 2, 5) });
+
+      expect(dateField.state.segments).toEqual({ day: 5, month: 3, year: 2026 });
+      expect(dateField.getSegmentDisplayValue("day")).toBe("05");
+      expect(dateField.getSegmentDisplayValue("year")).toBe("2026");
+    });
+
+    it("should report a value only once every segment is filled", () => {
+      const onValueChange = vi.fn();
+      const dateField = createDateFieldBehavior({ onValueChange });
+
+      dateField.setSegmentValue("day", 15);
+      dateField.setSegmentValue("month", 6);
+      expect(onValueChange).not.toHaveBeenCalled();
+
+      dateField.setSegmentValue("year", 2026);
+      expect(onValueChange).toHaveBeenCalledWith(new Date(2026, 5, 15));
+
+      dateField.setSegmentValue("day", null);
+      expect(onValueChange).toHaveBeenLastCalledWith(null);
+    });
+
+    it("should constrain the day to the month", () => {
+      const dateField = createDateFieldBehavior({ defaultValue: new Date(2026, 0, 31) });
+
+      dateField.setSegmentValue("month", 2);
+
+      expect(dateField.state.segments.day).toBe(28);
+      expect(dateField.state.value).toEqual(new Date(2026, 1, 28));
+    });
+
+    it("should flag dates outside min and max as invalid", () => {
+      const dateField = createDateFieldBehavior({
+        defaultValue: new Date(2026, 0, 15),
+        minDate: new Date(2026, 0, 10),
+        maxDate: new Date(2026, 0, 20),
+      });
+
+      expect(dateField.state.invalid).toBe(false);
+
+      dateField.setSegmentValue("day", 25);
+
+      expect(dateField.state.invalid).toBe(true);
+      expect(dateField.getSegmentProps("day")["aria-invalid"]).toBe(true);
+    });
+  });
+
+  describe("increment and decrement", () => {
+    it("should start an empty segment from today", () => {
+      const dateField = createDateFieldBehavior();
+
+      dateField.increment("year");
+
+      expect(dateField.state.segments.year).toBe(new Date().getFullYear());
+    });
+
+    it("should wrap day and month", () => {
+      const dateField = createDateFieldBehavior({ defaultValue: new Date(2026, 11, 31) });
+
+      dateField.increment("month");
+      dateField.increment("day");
+
+      expect(dateField.state.segments).toEqual({ day: 1, month: 1, year: 2026 });
+
+      dateField.decrement("day");
+      expect(dateField.state.segments.day).toBe(31);
+    });
+
+    it("should not change when read-only", () => {
+      const dateField = createDateFieldBehavior({
+        defaultValue: new Date(2026, 0, 1),
+        readOnly: true,
+      });
+
+      dateField.increment("day");
+
+      expect(dateField.state.segments.day).toBe(1);
+    });
+  });
+
+  describe("typing", () => {
+    it("should auto-advance once a segment is complete", () => {
+      const dateField = createDateFieldBehavior({ locale: "en-US" });
+      dateField.focusSegment("month");
+
+      type(dateField, "1");
+      expect(dateField.state.focusedSegment).toBe("month");
+
+      type(dateField, "2");
+      expect(dateField.state.segments.month).toBe(12);
+      expect(dateField.state.focusedSegment).toBe("day");
+
+      type(dateField, "4");
+      expect(dateField.state.segments.day).toBe(4);
+      expect(dateField.state.focusedSegment).toBe("year");
+
+      type(dateField, "2026");
+      expect(dateField.state.value).toEqual(new Date(2026, 11, 4));
+    });
+
+    it("should restart a segment when the next digit would overflow", () => {
+      const dateField = createDateFieldBehavior({ locale: "de-DE" });
+      dateField.focusSegment("month");
+
+      type(dateField, "1");
+      type(dateField, "5");
+
+      expect(dateField.state.segments.month).toBe(5);
+      expect(dateField.state.focusedSegment).toBe("year");
+    });
+
+    it("should advance when a separator is typed", () => {
+      const dateField = createDateFieldBehavior({ locale: "de-DE" });
+      dateField.focusSegment("day");
+
+      type(dateField, "1.");
+
+      expect(dateField.state.segments.day).toBe(1);
+      expect(dateField.state.focusedSegment).toBe("month");
+    });
+
+    it("should clear a segment and then move back on Backspace", () => {
+      const dateField = createDateFieldBehavior({
+        locale: "en-US",
+        defaultValue: new Date(2026, 0, 15),
+      });
+      dateField.focusSegment("day");
+
+      dateField.handleSegmentKeyDown("day", key("Backspace"));
+      expect(dateField.state.segments.day).toBeNull();
+      expect(dateField.state.focusedSegment).toBe("day");
+
+      dateField.handleSegmentKeyDown("day", key("Backspace"));
+      expect(dateField.state.focusedSegment).toBe("month");
+    });
+  });
+
+  describe("keyboard", () => {
+    it("should navigate between segments with arrow keys", () => {
+      const onFocusedSegmentChange = vi.fn();
+      const dateField = createDateFieldBehavior({ locale: "en-US", onFocusedSegmentChange });
+      dateField.focusSegment("month");
+
+      dateField.handleSegmentKeyDown("month", key("ArrowRight"));
+      expect(dateField.state.focusedSegment).toBe("day");
+
+      dateField.handleSegmentKeyDown("day", key("ArrowLeft"));
+      dateField.handleSegmentKeyDown("month", key("ArrowLeft"));
+      expect(dateField.state.focusedSegment).toBe("month");
+      expect(onFocusedSegmentChange).toHaveBeenCalledTimes(3);
+    });
+
+    it("should step with ArrowUp and ArrowDown", () => {
+      const dateField = createDateFieldBehavior({ defaultValue: new Date(2026, 5, 15) });
+
+      dateField.handleSegmentKeyDown("day", key("ArrowUp"));
+      dateField.handleSegmentKeyDown("year", key("ArrowDown"));
+
+      expect(dateField.state.value).toEqual(new Date(2025, 5, 16));
+    });
+
+    it("should jump to the range ends with Home and End", () => {
+      const dateField = createDateFieldBehavior({ defaultValue: new Date(2026, 1, 10) });
+
+      dateField.handleSegmentKeyDown("day", key("End"));
+      expect(dateField.state.segments.day).toBe(28);
+
+      dateField.handleSegmentKeyDown("day", key("Home"));
+      expect(dateField.state.segments.day).toBe(1);
+    });
+  });
+
+  describe("segment props", () => {
+    it("should expose spinbutton values and labels", () => {
+      const dateField = createDateFieldBehavior({
+        locale: "en-US",
+        defaultValue: new Date(2026, 1, 10),
+      });
+      const month = dateField.getSegmentProps("month");
+      const day = dateField.getSegmentProps("day");
+
+      expect(month.role).toBe("spinbutton");
+      expect(month["aria-label"]).toBe("Month");
+      expect(month["aria-valuenow"]).toBe(2);
+      expect(month["aria-valuetext"]).toBe("February");
+      expect(day["aria-valuemax"]).toBe(28);
+      expect(day["aria-valuetext"]).toBe("10");
+    });
+
+    it("should describe empty segments", () => {
+      const dateField = createDateFieldBehavior();
+      const year = dateField.getSegmentProps("year");
+
+      expect(year["aria-valuenow"]).toBeUndefined();
+      expect(year["aria-valuetext"]).toBe("Empty");
+    });
+
+    it("should use message overrides", () => {
+      const dateField = createDateFieldBehavior({
+        messages: { "dateField.day": "Tag", "dateField.dayPlaceholder": "TT" },
+      });
+
+      expect(dateField.getSegmentProps("day")["aria-label"]).toBe("Tag");
+      expect(dateField.getSegmentDisplayValue("day")).toBe("TT");
+    });
+  });
+});
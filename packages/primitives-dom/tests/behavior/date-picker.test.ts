@@ -0,0 +1,186 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createDatePickerBehavior,
+  getDefaultDateRangePresets,
+  resolveDateRangePreset,
+} from "../../src/behavior/date-picker";
+
+describe("createDatePickerBehavior", () => {
+  describe("unavailable dates", () => {
+    it("should block dates the predicate marks unavailable", () => {
+      const onDateChange = vi.fn();
+      const picker = createDatePickerBehavior({
+        isDateUnavailable: (date) => date.getDay() === 0,
+        onDateChange,
+      });
+
+      picker.selectDate(new Date(2026, 0, 4)); // Sunday
+
+      expect(onDateChange).not.toHaveBeenCalled();
+      expect(picker.isDateSelectable(new Date(2026, 0, 5))).toBe(true);
+      expect(picker.getCellProps(new Date(2026, 0, 4))["aria-disabled"]).toBe(true);
+    });
+
+    it("should report the predicate's reason or a generic one", () => {
+      const picker = createDatePickerBehavior({
+        isDateUnavailable: (date) => (date.getDate() === 1 ? "Fully booked" : date.getDate() === 2),
+      });
+
+      expect(picker.getUnavailableReason(new Date(2026, 0, 1))).toBe("Fully booked");
+      expect(picker.getUnavailableReason(new Date(2026, 0, 2))).toBe("Unavailable");
+      expect(picker.getUnavailableReason(new Date(2026, 0, 3))).toBeNull();
+    });
+  });
+
+  describe("range constraints", () => {
+    it("should enforce minimum and maximum nights once a start is chosen", () => {
+      const picker = createDatePickerBehavior({ mode: "range", minNights: 2, maxNights: 5 });
+      const start = new Date(2026, 5, 10);
+
+      expect(picker.isDateSelectable(new Date(2026, 5, 11))).toBe(true);
+
+      picker.selectDate(start);
+
+      expect(picker.getUnavailableReason(new Date(2026, 5, 11))).toBe("Minimum stay is 2 nights");
+      expect(picker.getUnavailableReason(new Date(2026, 5, 16))).toBe("Maximum stay is 5 nights");
+      expect(picker.isDateSelectable(new Date(2026, 5, 12))).toBe(true);
+      expect(picker.isDateSelectable(new Date(2026, 5, 8))).toBe(true);
+    });
+
+    it("should not let a range span unavailable dates", () => {
+      const onRangeChange = vi.fn();
+      const picker = createDatePickerBehavior({
+        mode: "range",
+        isDateUnavailable: (date) => date.getDate() === 15,
+        onRangeChange,
+      });
+
+      picker.selectDate(new Date(2026, 5, 10));
+      picker.selectDate(new Date(2026, 5, 20));
+
+      expect(onRangeChange).not.toHaveBeenCalled();
+      expect(picker.getUnavailableReason(new Date(2026, 5, 20))).toBe(
+        "Range includes unavailable dates"
+      );
+
+      picker.selectDate(new Date(2026, 5, 14));
+      expect(onRangeChange).toHaveBeenCalledWith({
+        start: new Date(2026, 5, 10),
+        end: new Date(2026, 5, 14),
+      });
+    });
+  });
+
+  describe("hover preview", () => {
+    it("should preview the tentative range toward the hovered date", () => {
+      const picker = createDatePickerBehavior({ mode: "range" });
+      picker.selectDate(new Date(2026, 5, 10));
+
+      picker.hoverDate(new Date(2026, 5, 7));
+
+      expect(picker.isInPreviewRange(new Date(2026, 5, 8))).toBe(true);
+      expect(picker.isInPreviewRange(new Date(2026, 5, 10))).toBe(true);
+      expect(picker.isInPreviewRange(new Date(2026, 5, 11))).toBe(false);
+    });
+
+    it("should not preview before a start is chosen or toward blocked dates", () => {
+      const picker = createDatePickerBehavior({ mode: "range", maxNights: 3 });
+      picker.hoverDate(new Date(2026, 5, 12));
+      expect(picker.isInPreviewRange(new Date(2026, 5, 12))).toBe(false);
+
+      picker.selectDate(new Date(2026, 5, 10));
+      picker.hoverDate(new Date(2026, 5, 20));
+      expect(picker.isInPreviewRange(new Date(2026, 5, 12))).toBe(false);
+    });
+  });
+
+  describe("multiple months", () => {
+    it("should list consecutive visible months", () => {
+      const picker = createDatePickerBehavior({
+        numberOfMonths: 2,
+        defaultValue: new Date(2026, 11, 15),
+      });
+
+      expect(picker.getVisibleMonths()).toEqual([new Date(2026, 11, 1), new Date(2027, 0, 1)]);
+      expect(picker.getMonthDays(new Date(2027, 0, 1))).toContainEqual(new Date(2027, 0, 31));
+      expect(picker.getGridProps(new Date(2027, 0, 1))["aria-label"]).toBe("January 2027");
+    });
+
+    it("should keep the view while focus moves within the visible months", () => {
+      const picker = createDatePickerBehavior({
+        numberOfMonths: 2,
+        defaultValue: new Date(2026, 0, 28),
+      });
+
+      picker.focusNextWeek();
+      expect(picker.getVisibleMonths()[0]).toEqual(new Date(2026, 0, 1));
+
+      picker.focusDate(new Date(2026, 2, 3));
+      expect(picker.getVisibleMonths()).toEqual([new Date(2026, 1, 1), new Date(2026, 2, 1)]);
+    });
+  });
+
+  describe("presets", () => {
+    it("should resolve built-in presets relative to today", () => {
+      const today = new Date(2026, 4, 20, 15, 30);
+      const ranges = getDefaultDateRangePresets().map((preset) => ({
+        label: preset.label,
+        ...resolveDateRangePreset(preset, today),
+      }));
+
+      expect(ranges).toEqual([
+        { label: "Today", start: new Date(2026, 4, 20), end: new Date(2026, 4, 20) },
+        { label: "Last 7 days", start: new Date(2026, 4, 14), end: new Date(2026, 4, 20) },
+        { label: "Last 30 days", start: new Date(2026, 3, 21), end: new Date(2026, 4, 20) },
+        { label: "This month", start: new Date(2026, 4, 1), end: new Date(2026, 4, 31) },
+        { label: "This quarter", start: new Date(2026, 3, 1), end: new Date(2026, 5, 30) },
+        { label: "This year", start: new Date(2026, 0, 1), end: new Date(2026, 11, 31) },
+      ]);
+    });
+
+    it("should localize preset labels", () => {
+      const [today] = getDefaultDateRangePresets({
+        messages: { "calendar.preset.today": "Heute" },
+      });
+
+      expect(today?.label).toBe("Heute");
+    });
+
+    it("should select a resolved range", () => {
+      const onRangeChange = vi.fn();
+      const picker = createDatePickerBehavior({ mode: "range", onRangeChange });
+      picker.open();
+
+      const range = { start: new Date(2026, 3, 1), end: new Date(2026, 5, 30) };
+      picker.selectRange(range);
+
+      expect(onRangeChange).toHaveBeenCalledWith(range);
+      expect(picker.state.open).toBe(false);
+      expect(picker.state.viewingMonth).toEqual(new Date(2026, 3, 1));
+    });
+  });
+
+  describe("calendar keyboard", () => {
+    it("should clamp the day when paging to a shorter month", () => {
+      const picker = createDatePickerBehavior({ defaultValue: new Date(2026, 0, 31) });
+      const event = new KeyboardEvent("keydown", { key: "PageDown", cancelable: true });
+
+      expect(picker.handleCalendarKeyDown(event)).toBe(true);
+      expect(event.defaultPrevented).toBe(true);
+      expect(picker.state.focusedDate).toEqual(new Date(2026, 1, 28));
+    });
+
+    it("should close on Escape and ignore keys while disabled", () => {
+      const picker = createDatePickerBehavior();
+      picker.open();
+
+      picker.handleCalendarKeyDown(new KeyboardEvent("keydown", { key: "Escape" }));
+      expect(picker.state.open).toBe(false);
+
+      const disabled = createDatePickerBehavior({ disabled: true });
+      expect(
+        disabled.handleCalendarKeyDown(new KeyboardEvent("keydown", { key: "ArrowLeft" }))
+      ).toBe(false);
+    });
+  });
+});
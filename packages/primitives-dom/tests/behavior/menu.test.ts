@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type SubmenuBehavior, createSubmenuBehavior } from "../../src/behavior/menu";
+
+describe("createSubmenuBehavior", () => {
+  let menu: HTMLElement;
+  let sibling: HTMLElement;
+  let trigger: HTMLElement;
+  let content: HTMLElement;
+  let submenu: SubmenuBehavior;
+  let onOpenChange: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div role="menu" id="menu">
+        <div role="menuitem" id="sibling">Copy</div>
+        <div>
+          <div role="menuitem" id="trigger">Share</div>
+          <div role="menu" id="content" hidden>
+            <div role="menuitem">Email</div>
+            <div role="menuitem" aria-disabled="true">Fax</div>
+            <div role="menuitem">Link</div>
+          </div>
+        </div>
+      </div>
+    `;
+    menu = document.getElementById("menu") as HTMLElement;
+    sibling = document.getElementById("sibling") as HTMLElement;
+    trigger = document.getElementById("trigger") as HTMLElement;
+    content = document.getElementById("content") as HTMLElement;
+    for (const item of menu.querySelectorAll<HTMLElement>('[role="menuitem"]')) {
+      item.tabIndex = -1;
+    }
+
+    // Mirror what a component does: show the content and hand it over when open
+    onOpenChange = vi.fn((open: boolean) => {
+      content.hidden = !open;
+      submenu.setContentElement(open ? content : null);
+    });
+    submenu = createSubmenuBehavior({ onOpenChange, generateId: () => "share" });
+    submenu.setTriggerElement(trigger);
+    content.addEventListener("keydown", submenu.handleContentKeyDown);
+  });
+
+  afterEach(() => {
+    submenu.destroy();
+    document.body.innerHTML = "";
+    vi.useRealTimers();
+  });
+
+  function press(element: Element, key: string): KeyboardEvent {
+    const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true });
+    element.dispatchEvent(event);
+    return event;
+  }
+
+  function pointerMove(target: Element, x: number, y: number): void {
+    target.dispatchEvent(
+      new PointerEvent("pointermove", { bubbles: true, clientX: x, clientY: y })
+    );
+  }
+
+  it("should link the sub-trigger and sub-content", () => {
+    expect(submenu.getTriggerProps()).toEqual({
+      id: "share-trigger",
+      role: "menuitem",
+      "aria-haspopup": "menu",
+      "aria-expanded": "false",
+      "aria-controls": "share-content",
+    });
+    expect(submenu.getContentProps()["aria-labelledby"]).toBe("share-trigger");
+  });
+
+  describe("keyboard", () => {
+    it("should open with ArrowRight and focus the first item", () => {
+      trigger.focus();
+      submenu.handleTriggerKeyDown(
+        new KeyboardEvent("keydown", { key: "ArrowRight", cancelable: true })
+      );
+
+      expect(submenu.state.open).toBe(true);
+      expect(onOpenChange).toHaveBeenCalledWith(true);
+      expect(document.activeElement?.textContent).toBe("Email");
+    });
+
+    it("should skip disabled items and keep keys away from the parent menu", () => {
+      const parentKeyDown = vi.fn();
+      menu.addEventListener("keydown", parentKeyDown);
+      submenu.open("first");
+
+      press(document.activeElement as HTMLElement, "ArrowDown");
+
+      expect(document.activeElement?.textContent).toBe("Link");
+      expect(parentKeyDown).not.toHaveBeenCalled();
+    });
+
+    it("should close with ArrowLeft and return focus to the sub-trigger", () => {
+      submenu.open("first");
+
+      const event = press(document.activeElement as HTMLElement, "ArrowLeft");
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(submenu.state.open).toBe(false);
+      expect(content.hidden).toBe(true);
+      expect(document.activeElement).toBe(trigger);
+    });
+
+    it("should swap ArrowLeft and ArrowRight in RTL", () => {
+      menu.dir = "rtl";
+      trigger.focus();
+
+      submenu.handleTriggerKeyDown(
+        new KeyboardEvent("keydown", { key: "ArrowRight", cancelable: true })
+      );
+      expect(submenu.state.open).toBe(false);
+
+      submenu.handleTriggerKeyDown(
+        new KeyboardEvent("keydown", { key: "ArrowLeft", cancelable: true })
+      );
+      expect(submenu.state.open).toBe(true);
+
+      press(document.activeElement as HTMLElement, "ArrowRight");
+      expect(submenu.state.open).toBe(false);
+      expect(document.activeElement).toBe(trigger);
+    });
+
+    it("should close only the submenu with Escape", () => {
+      submenu.open("last");
+      expect(document.activeElement?.textContent).toBe("Link");
+
+      press(document.activeElement as HTMLElement, "Escape");
+
+      expect(submenu.state.open).toBe(false);
+      expect(document.activeElement).toBe(trigger);
+    });
+  });
+
+  describe("pointer", () => {
+    it("should open after hovering the sub-trigger without moving focus", () => {
+      vi.useFakeTimers();
+      sibling.focus();
+
+      submenu.handleTriggerPointerEnter();
+      expect(submenu.state.open).toBe(false);
+
+      vi.advanceTimersByTime(100);
+      expect(submenu.state.open).toBe(true);
+      expect(document.activeElement).toBe(sibling);
+    });
+
+    it("should not open when the pointer leaves before the open delay", () => {
+      vi.useFakeTimers();
+
+      submenu.handleTriggerPointerEnter();
+      submenu.handleTriggerPointerLeave(new PointerEvent("pointerleave"));
+      vi.advanceTimersByTime(200);
+
+      expect(submenu.state.open).toBe(false);
+    });
+
+    it("should stay open while the pointer moves inside the safe triangle", () => {
+      submenu.open(false);
+      content.getBoundingClientRect = () => ({
+        top: 0,
+        left: 200,
+        bottom: 100,
+        right: 300,
+        width: 100,
+        height: 100,
+        x: 200,
+        y: 0,
+        toJSON: () => ({}),
+      });
+
+      submenu.handleTriggerPointerLeave(
+        new PointerEvent("pointerleave", { clientX: 190, clientY: 20 })
+      );
+      pointerMove(sibling, 195, 25);
+      expect(submenu.state.open).toBe(true);
+
+      pointerMove(content, 205, 30);
+      pointerMove(sibling, 100, 60);
+      expect(submenu.state.open).toBe(false);
+    });
+
+    it("should close when the pointer moves over another item of the parent menu", () => {
+      submenu.open(false);
+
+      pointerMove(sibling, 10, 10);
+
+      expect(submenu.state.open).toBe(false);
+    });
+
+    it("should stay open when the pointer leaves the menu altogether", () => {
+      submenu.open(false);
+
+      pointerMove(document.body, 500, 500);
+
+      expect(submenu.state.open).toBe(true);
+    });
+  });
+
+  it("should close on a click outside the submenu", () => {
+    submenu.open(false);
+
+    sibling.dispatchEvent(new MouseEvent("pointerdown", { bubbles: true }));
+
+    expect(submenu.state.open).toBe(false);
+  });
+});
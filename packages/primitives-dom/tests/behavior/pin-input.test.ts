@@ -456,4 +456,25 @@ describe("createPinInputBehavior", () => {
       pinInput.destroy();
     });
   });
+
+  describe("labels", () => {
+    it("should label fields with their position", () => {
+      const pinInput = createPinInputBehavior({ length: 4 });
+
+      expect(pinInput.getInputProps(1)["aria-label"]).toBe("Digit 2 of 4");
+
+      pinInput.destroy();
+    });
+
+    it("should use message overrides", () => {
+      const pinInput = createPinInputBehavior({
+        length: 4,
+        messages: { "pinInput.digit": "Ziffer {index} von {length}" },
+      });
+
+      expect(pinInput.getInputProps(0)["aria-label"]).toBe("Ziffer 1 von 4");
+
+      pinInput.destroy();
+    });
+  });
 });
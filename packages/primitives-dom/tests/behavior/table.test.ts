@@ -0,0 +1,193 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTableBehavior, sortData, sortDataByModel } from "../../src/behavior/table";
+
+describe("createTableBehavior", () => {
+  describe("single-column sorting", () => {
+    it("should cycle asc -> desc -> none", () => {
+      const table = createTableBehavior();
+
+      table.toggleSort("name");
+      expect(table.sortState).toMatchObject({ column: "name", direction: "asc" });
+
+      table.toggleSort("name");
+      expect(table.sortState).toMatchObject({ column: "name", direction: "desc" });
+
+      table.toggleSort("name");
+      expect(table.sortState).toEqual({ column: null, direction: "none", model: [] });
+
+      table.destroy();
+    });
+
+    it("should replace the sort model on a plain toggle", () => {
+      const table = createTableBehavior({
+        initialSortModel: [
+          { column: "name", direction: "asc" },
+          { column: "age", direction: "desc" },
+        ],
+      });
+
+      table.toggleSort("city");
+      expect(table.sortState.model).toEqual([{ column: "city", direction: "asc" }]);
+
+      table.destroy();
+    });
+
+    it("should accept a legacy initialSort", () => {
+      const table = createTableBehavior({ initialSort: { column: "age", direction: "desc" } });
+
+      expect(table.sortState.model).toEqual([{ column: "age", direction: "desc" }]);
+
+      table.destroy();
+    });
+  });
+
+  describe("multi-column sorting", () => {
+    it("should append secondary keys with additive toggles", () => {
+      const onSortChange = vi.fn();
+      const table = createTableBehavior({ onSortChange });
+
+      table.toggleSort("name");
+      table.toggleSort("age", true);
+      table.toggleSort("city", true);
+
+      expect(table.sortState.model).toEqual([
+        { column: "name", direction: "asc" },
+        { column: "age", direction: "asc" },
+        { column: "city", direction: "asc" },
+      ]);
+      expect(table.getSortPriority("age")).toBe(2);
+      expect(table.getSortPriority("missing")).toBe(0);
+      expect(onSortChange).toHaveBeenLastCalledWith(table.sortState);
+
+      table.destroy();
+    });
+
+    it("should cycle a key in place and remove it after desc", () => {
+      const table = createTableBehavior();
+
+      table.toggleSort("name");
+      table.toggleSort("age", true);
+      table.toggleSort("age", true);
+      expect(table.getSortDirection("age")).toBe("desc");
+      expect(table.getSortPriority("age")).toBe(2);
+
+      table.toggleSort("age", true);
+      expect(table.sortState.model).toEqual([{ column: "name", direction: "asc" }]);
+
+      table.destroy();
+    });
+
+    it("should promote the next key when the primary key is removed", () => {
+      const table = createTableBehavior({
+        initialSortModel: [
+          { column: "name", direction: "desc" },
+          { column: "age", direction: "asc" },
+        ],
+      });
+
+      table.toggleSort("name", true);
+      expect(table.sortState).toMatchObject({ column: "age", direction: "asc" });
+
+      table.destroy();
+    });
+
+    it("should drop the oldest key beyond maxSortKeys", () => {
+      const table = createTableBehavior({ maxSortKeys: 2 });
+
+      table.toggleSort("a");
+      table.toggleSort("b", true);
+      table.toggleSort("c", true);
+
+      expect(table.sortState.model.map((key) => key.column)).toEqual(["b", "c"]);
+
+      table.destroy();
+    });
+
+    it("should set and clear the whole model", () => {
+      const table = createTableBehavior();
+
+      table.setSortModel([
+        { column: "a", direction: "desc" },
+        { column: "b", direction: "asc" },
+      ]);
+      expect(table.sortState).toMatchObject({ column: "a", direction: "desc" });
+
+      table.clearSort();
+      expect(table.sortState.model).toEqual([]);
+
+      table.destroy();
+    });
+  });
+});
+
+describe("sortDataByModel", () => {
+  const people = [
+    { last: "Berg", first: "Åsa", age: 30 },
+    { last: "Andersson", first: "Zoe", age: 41 },
+    { last: "Berg", first: "Erik", age: 25 },
+    { last: "Andersson", first: "Anna", age: null },
+  ];
+
+  const getValue = (item: (typeof people)[number], column: string) =>
+    item[column as keyof typeof item];
+
+  it("should break ties with secondary keys", () => {
+    const sorted = sortDataByModel(
+      people,
+      [
+        { column: "last", direction: "asc" },
+        { column: "age", direction: "desc" },
+      ],
+      getValue
+    );
+
+    expect(sorted.map((p) => p.first)).toEqual(["Anna", "Zoe", "Åsa", "Erik"]);
+  });
+
+  it("should collate strings for the given locale", () => {
+    const firstNames = sortDataByModel(people, [{ column: "first", direction: "asc" }], getValue, {
+      locale: "sv",
+    });
+
+    // Swedish sorts Å after Z
+    expect(firstNames.map((p) => p.first)).toEqual(["Anna", "Erik", "Zoe", "Åsa"]);
+  });
+
+  it("should use custom comparators per column", () => {
+    const byLength = (a: unknown, b: unknown) => String(a).length - String(b).length;
+    const sorted = sortDataByModel(people, [{ column: "first", direction: "asc" }], getValue, {
+      comparators: { first: byLength },
+    });
+
+    expect(sorted.map((p) => p.first)).toEqual(["Åsa", "Zoe", "Erik", "Anna"]);
+  });
+
+  it("should not mutate the input", () => {
+    const copy = [...people];
+    sortDataByModel(people, [{ column: "age", direction: "asc" }], getValue);
+
+    expect(people).toEqual(copy);
+  });
+});
+
+describe("sortData", () => {
+  it("should sort numeric strings naturally with collator options", () => {
+    const items = ["item 10", "item 2", "item 1"];
+
+    const sorted = sortData(items, "value", "asc", (item) => item, {
+      collatorOptions: { numeric: true },
+    });
+
+    expect(sorted).toEqual(["item 1", "item 2", "item 10"]);
+  });
+
+  it("should keep empty values last in ascending order", () => {
+    const items = [{ v: null }, { v: 2 }, { v: 1 }];
+
+    expect(sortData(items, "v", "asc", (item) => item.v).map((item) => item.v)).toEqual([
+      1,
+      2,
+      null,
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTimePickerBehavior } from "../../src/behavior/time-picker";
+
+function key(value: string): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key: value, cancelable: true });
+}
+
+describe("createTimePickerBehavior", () => {
+  describe("locale", () => {
+    it("should default to the locale's hour cycle", () => {
+      expect(createTimePickerBehavior({ locale: "en-US" }).state.hourFormat).toBe(12);
+      expect(createTimePickerBehavior({ locale: "de-DE" }).state.hourFormat).toBe(24);
+      expect(createTimePickerBehavior({ locale: "ko-KR" }).state.hourFormat).toBe(12);
+    });
+
+    it("should prefer an explicit hour format", () => {
+      const timePicker = createTimePickerBehavior({ locale: "de-DE", hourFormat: 12 });
+
+      expect(timePicker.state.hourFormat).toBe(12);
+      expect(timePicker.getSegments()).toContain("period");
+    });
+
+    it("should lay out segments in locale order", () => {
+      expect(createTimePickerBehavior({ locale: "en-US" }).getSegments()).toEqual([
+        "hour",
+        "minute",
+        "period",
+      ]);
+      expect(createTimePickerBehavior({ locale: "de-DE", showSeconds: true }).getParts()).toEqual([
+        { type: "hour" },
+        { type: "literal", value: ":" },
+        { type: "minute" },
+        { type: "literal", value: ":" },
+        { type: "second" },
+      ]);
+      expect(createTimePickerBehavior({ locale: "ja-JP", hourFormat: 12 }).getSegments()).toEqual([
+        "period",
+        "hour",
+        "minute",
+      ]);
+    });
+
+    it("should display localized period labels", () => {
+      const timePicker = createTimePickerBehavior({
+        locale: "ja-JP",
+        hourFormat: 12,
+        defaultValue: { hour: 14, minute: 0, second: 0 },
+      });
+
+      expect(timePicker.getSegmentDisplayValue("period")).toBe("午後");
+      expect(timePicker.getSegmentProps("period")["aria-valuetext"]).toBe("午後");
+      expect(timePicker.getSegmentDisplayValue("hour")).toBe("2");
+    });
+
+    it("should navigate segments in locale order", () => {
+      const timePicker = createTimePickerBehavior({ locale: "ja-JP", hourFormat: 12 });
+      timePicker.focusSegment("period");
+
+      timePicker.focusNextSegment();
+
+      expect(timePicker.state.focusedSegment).toBe("hour");
+    });
+  });
+
+  describe("period entry", () => {
+    it("should toggle the period with a/p", () => {
+      const onValueChange = vi.fn();
+      const timePicker = createTimePickerBehavior({
+        locale: "en-US",
+        defaultValue: { hour: 9, minute: 30, second: 0 },
+        onValueChange,
+      });
+
+      timePicker.handleSegmentKeyDown("period", key("p"));
+
+      expect(onValueChange).toHaveBeenLastCalledWith({ hour: 21, minute: 30, second: 0 });
+    });
+
+    it("should match localized labels that need several keys", () => {
+      const timePicker = createTimePickerBehavior({
+        locale: "ko-KR",
+        defaultValue: { hour: 9, minute: 0, second: 0 },
+      });
+
+      // 오전 and 오후 share their first character
+      expect(timePicker.handleSegmentKeyDown("period", key("오"))).toBe(true);
+      expect(timePicker.state.period).toBe("AM");
+
+      timePicker.handleSegmentKeyDown("period", key("후"));
+      expect(timePicker.state.period).toBe("PM");
+      expect(timePicker.state.value.hour).toBe(21);
+    });
+
+    it("should ignore spacing and punctuation in labels", () => {
+      const timePicker = createTimePickerBehavior({
+        locale: "es-ES",
+        hourFormat: 12,
+        defaultValue: { hour: 9, minute: 0, second: 0 },
+      });
+
+      expect(timePicker.getSegmentDisplayValue("period")).toMatch(/^a\.\sm\.$/);
+
+      timePicker.setSegmentValue("period", "p. m.");
+      expect(timePicker.state.value.hour).toBe(21);
+
+      timePicker.handleSegmentKeyDown("period", key("a"));
+      expect(timePicker.state.value.hour).toBe(9);
+    });
+
+    it("should not handle keys that match no label", () => {
+      const timePicker = createTimePickerBehavior({ locale: "en-US" });
+
+      expect(timePicker.handleSegmentKeyDown("period", key("x"))).toBe(false);
+    });
+  });
+
+  describe("time zone", () => {
+    const instant = new Date("2026-07-01T12:30:15Z");
+
+    it("should read a Date as wall-clock time in the time zone", () => {
+      const tokyo = createTimePickerBehavior({ timeZone: "Asia/Tokyo", defaultValue: instant });
+      const newYork = createTimePickerBehavior({ timeZone: "America/New_York" });
+      newYork.setValue(instant);
+
+      expect(tokyo.state.value).toEqual({ hour: 21, minute: 30, second: 15 });
+      expect(newYork.state.value).toEqual({ hour: 8, minute: 30, second: 15 });
+    });
+
+    it("should convert the value to an instant on the reference day", () => {
+      const timePicker = createTimePickerBehavior({
+        timeZone: "Europe/Berlin",
+        defaultValue: { hour: 9, minute: 15, second: 0 },
+      });
+
+      expect(timePicker.toDate(undefined, instant).toISOString()).toBe("2026-07-01T07:15:00.000Z");
+      expect(timePicker.toDate(undefined, new Date("2026-01-15T12:00:00Z")).toISOString()).toBe(
+        "2026-01-15T08:15:00.000Z"
+      );
+    });
+
+    it("should use the zone's calendar day for the reference", () => {
+      const timePicker = createTimePickerBehavior({
+        timeZone: "Pacific/Auckland",
+        defaultValue: { hour: 8, minute: 0, second: 0 },
+      });
+
+      // 2026-07-01T20:00Z is already July 2nd in Auckland (UTC+12)
+      expect(timePicker.toDate(undefined, new Date("2026-07-01T20:00:00Z")).toISOString()).toBe(
+        "2026-07-01T20:00:00.000Z"
+      );
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type TreeDataNode,
+  type TreeItem,
+  createTreeBehavior,
+  flattenTree,
+} from "../../src/behavior/tree";
+
+/**
+ * admin
+ *   users
+ *     read
+ *     write
+ *   billing
+ * guest
+ */
+const items: TreeItem[] = [
+  { id: "admin" },
+  { id: "users", parentId: "admin" },
+  { id: "read", parentId: "users" },
+  { id: "write", parentId: "users" },
+  { id: "billing", parentId: "admin" },
+  { id: "guest" },
+];
+
+function keyDown(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key, cancelable: true, ...init });
+}
+
+describe("createTreeBehavior", () => {
+  describe("checkbox selection", () => {
+    it("should check descendants and update ancestors", () => {
+      const onSelectionChange = vi.fn();
+      const tree = createTreeBehavior({ selectionMode: "checkbox", onSelectionChange });
+
+      tree.setChecked("users", true, items);
+
+      expect([...tree.checkedIds].sort()).toEqual(["read", "users", "write"]);
+      expect(tree.getCheckedState("admin", items)).toBe("mixed");
+      expect(tree.getCheckedState("users", items)).toBe("checked");
+      expect(tree.getCheckedState("guest", items)).toBe("unchecked");
+      expect(onSelectionChange).toHaveBeenCalledWith(tree.checkedIds);
+
+      tree.setChecked("billing", true, items);
+      expect(tree.getCheckedState("admin", items)).toBe("checked");
+
+      tree.setChecked("read", false, items);
+      expect(tree.getCheckedState("users", items)).toBe("mixed");
+      expect(tree.getCheckedState("admin", items)).toBe("mixed");
+
+      tree.destroy();
+    });
+
+    it("should check a mixed item on toggle and toggle with Space", () => {
+      const tree = createTreeBehavior({ selectionMode: "checkbox" });
+
+      tree.setChecked("read", true, items);
+      tree.toggleChecked("users", items);
+      expect(tree.getCheckedState("users", items)).toBe("checked");
+
+      tree.expand("admin");
+      tree.focus("users");
+      tree.handleKeyDown(keyDown(" "), items, () => null);
+      expect(tree.getCheckedState("users", items)).toBe("unchecked");
+      expect(tree.checkedIds.size).toBe(0);
+
+      tree.destroy();
+    });
+
+    it("should check children that appear under a checked parent", () => {
+      const tree = createTreeBehavior({ selectionMode: "checkbox" });
+
+      tree.setChecked("guest", true, [{ id: "guest" }]);
+      tree.syncChecked([...items, { id: "guest-read", parentId: "guest" }]);
+
+      expect(tree.checkedIds.has("guest-read")).toBe(true);
+
+      tree.destroy();
+    });
+
+    it("should compute every check state in one pass", () => {
+      const tree = createTreeBehavior({ selectionMode: "checkbox" });
+
+      tree.setChecked("read", true, items);
+      const states = tree.getCheckedStates(items);
+
+      expect(Object.fromEntries(states)).toEqual({
+        admin: "mixed",
+        users: "mixed",
+        read: "checked",
+        write: "unchecked",
+        billing: "unchecked",
+        guest: "unchecked",
+      });
+      for (const item of items) {
+        expect(states.get(item.id)).toBe(tree.getCheckedState(item.id, items));
+      }
+
+      tree.destroy();
+    });
+
+    it("should ignore checks outside checkbox mode", () => {
+      const tree = createTreeBehavior({ selectionMode: "multiple" });
+
+      tree.setChecked("admin", true, items);
+      expect(tree.checkedIds.size).toBe(0);
+
+      tree.destroy();
+    });
+  });
+
+  describe("lazy children", () => {
+    it("should load children on the first expand only", async () => {
+      const loadChildren = vi.fn().mockResolvedValue(undefined);
+      const onLoadStateChange = vi.fn();
+      const tree = createTreeBehavior({ loadChildren, onLoadStateChange });
+
+      tree.expand("admin");
+      expect(tree.getLoadState("admin")).toBe("loading");
+      await vi.waitFor(() => expect(tree.getLoadState("admin")).toBe("loaded"));
+
+      expect(onLoadStateChange.mock.calls.map(([id, state]) => [id, state])).toEqual([
+        ["admin", "loading"],
+        ["admin", "loaded"],
+      ]);
+
+      tree.collapse("admin");
+      tree.expand("admin");
+      expect(loadChildren).toHaveBeenCalledTimes(1);
+
+      tree.destroy();
+    });
+
+    it("should report errors and retry", async () => {
+      const error = new Error("Network error");
+      const loadChildren = vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce(undefined);
+      const onLoadStateChange = vi.fn();
+      const tree = createTreeBehavior({ loadChildren, onLoadStateChange });
+
+      tree.expand("admin");
+      await vi.waitFor(() => expect(tree.getLoadState("admin")).toBe("error"));
+      expect(onLoadStateChange).toHaveBeenCalledWith("admin", "error", error);
+
+      await tree.loadChildren("admin");
+      expect(tree.getLoadState("admin")).toBe("loaded");
+      expect(loadChildren).toHaveBeenCalledTimes(2);
+
+      tree.destroy();
+    });
+
+    it("should expand items with unloaded children from the keyboard", () => {
+      const loadChildren = vi.fn().mockResolvedValue(undefined);
+      const tree = createTreeBehavior({ loadChildren });
+
+      tree.focus("guest");
+      tree.handleKeyDown(keyDown("ArrowRight"), [{ id: "guest", hasChildren: true }], () => null);
+
+      expect(tree.expandedIds.has("guest")).toBe(true);
+      expect(loadChildren).toHaveBeenCalledWith("guest");
+
+      tree.destroy();
+    });
+  });
+
+  describe("moves", () => {
+    it("should resolve the new parent and index", () => {
+      const tree = createTreeBehavior();
+
+      expect(tree.getMove("guest", "users", "before", items)).toEqual({
+        sourceId: "guest",
+        targetId: "users",
+        position: "before",
+        parentId: "admin",
+        index: 0,
+      });
+      expect(tree.getMove("read", "billing", "inside", items)).toMatchObject({
+        parentId: "billing",
+        index: 0,
+      });
+      expect(tree.getMove("read", "admin", "after", items)).toMatchObject({
+        parentId: null,
+        index: 1,
+      });
+
+      tree.destroy();
+    });
+
+    it("should reject moves into the item's own subtree or in place", () => {
+      const tree = createTreeBehavior();
+
+      expect(tree.getMove("admin", "read", "inside", items)).toBeNull();
+      expect(tree.getMove("admin", "admin", "after", items)).toBeNull();
+      expect(tree.getMove("read", "write", "before", items)).toBeNull();
+
+      tree.destroy();
+    });
+
+    it("should let onMove cancel a move", () => {
+      const onMove = vi.fn().mockReturnValue(false);
+      const tree = createTreeBehavior({ onMove });
+
+      expect(tree.moveItem("guest", "admin", "before", items)).toBeNull();
+      expect(onMove).toHaveBeenCalledWith(expect.objectContaining({ sourceId: "guest", index: 0 }));
+
+      tree.destroy();
+    });
+
+    it("should move the focused item with Alt+Arrow keys", () => {
+      const onMove = vi.fn();
+      const onExpandChange = vi.fn();
+      const tree = createTreeBehavior({ reorderable: true, onMove, onExpandChange });
+      tree.focus("billing");
+
+      tree.handleKeyDown(keyDown("ArrowUp", { altKey: true }), items, () => null);
+      expect(onMove).toHaveBeenLastCalledWith(
+        expect.objectContaining({ targetId: "users", position: "before", index: 0 })
+      );
+
+      tree.handleKeyDown(keyDown("ArrowRight", { altKey: true }), items, () => null);
+      expect(onMove).toHaveBeenLastCalledWith(
+        expect.objectContaining({ targetId: "users", position: "inside", index: 2 })
+      );
+      expect(onExpandChange).toHaveBeenCalledWith("users", true);
+
+      tree.handleKeyDown(keyDown("ArrowLeft", { altKey: true }), items, () => null);
+      expect(onMove).toHaveBeenLastCalledWith(
+        expect.objectContaining({ targetId: "admin", position: "after", parentId: null })
+      );
+
+      tree.destroy();
+    });
+
+    it("should leave Alt+Arrow keys alone unless reorderable", () => {
+      const onMove = vi.fn();
+      const tree = createTreeBehavior({ onMove });
+      tree.focus("guest");
+
+      tree.handleKeyDown(keyDown("ArrowUp", { altKey: true }), items, () => null);
+
+      expect(onMove).not.toHaveBeenCalled();
+      expect(tree.focusedId).toBe("admin");
+
+      tree.destroy();
+    });
+  });
+});
+
+describe("flattenTree", () => {
+  const nodes: TreeDataNode[] = [
+    {
+      id: "src",
+      label: "src",
+      children: [
+        { id: "app", label: "app.ts" },
+        { id: "lib", label: "lib", children: [{ id: "util", label: "util.ts" }] },
+      ],
+    },
+    { id: "remote", label: "remote", hasChildren: true },
+    { id: "readme", label: "README.md" },
+  ];
+
+  it("should skip children of collapsed nodes", () => {
+    const rows = flattenTree(nodes, new Set(["src"]));
+
+    expect(rows.map((row) => row.id)).toEqual(["src", "app", "lib", "remote", "readme"]);
+    expect(rows[2]).toMatchObject({ expandable: true, expanded: false });
+    expect(rows[3]).toMatchObject({ expandable: true, expanded: false });
+    expect(rows[4]).toMatchObject({ expandable: false, expanded: false });
+  });
+
+  it("should give each node its level and position among siblings", () => {
+    const rows = flattenTree(nodes);
+
+    expect(
+      rows.map(({ id, parentId, level, setSize, posInSet }) => [
+        id,
+        parentId,
+        level,
+        setSize,
+        posInSet,
+      ])
+    ).toEqual([
+      ["src", undefined, 1, 3, 1],
+      ["app", "src", 2, 2, 1],
+      ["lib", "src", 2, 2, 2],
+      ["util", "lib", 3, 1, 1],
+      ["remote", undefined, 1, 3, 2],
+      ["readme", undefined, 1, 3, 3],
+    ]);
+  });
+});
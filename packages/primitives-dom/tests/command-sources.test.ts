@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import { type CommandSourceState, createCommandSources } from "../src/search/command-sources";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe("createCommandSources", () => {
+  it("should track loading state per source", async () => {
+    const slow = deferred<string[]>();
+    const states = new Map<string, CommandSourceState<string>>();
+    const sources = createCommandSources<string>({
+      sources: [
+        { id: "fast", fetch: async (query) => [`${query}-fast`] },
+        { id: "slow", fetch: () => slow.promise },
+      ],
+      debounce: 0,
+      onChange: (id, state) => states.set(id, state),
+    });
+
+    sources.search("a");
+    await Promise.resolve();
+
+    expect(states.get("fast")).toEqual({ items: ["a-fast"], loading: false, error: null });
+    expect(states.get("slow")?.loading).toBe(true);
+
+    slow.resolve(["a-slow"]);
+    await slow.promise;
+    await Promise.resolve();
+
+    expect(sources.getState("slow")).toEqual({ items: ["a-slow"], loading: false, error: null });
+  });
+
+  it("should append streamed batches", async () => {
+    const seen: string[][] = [];
+    const sources = createCommandSources<string>({
+      sources: [
+        {
+          id: "stream",
+          async *fetch() {
+            yield ["one"];
+            yield ["two", "three"];
+          },
+        },
+      ],
+      debounce: 0,
+      onChange: (_id, state) => seen.push(state.items),
+    });
+
+    sources.search("");
+    await vi.waitFor(() => expect(sources.getState("stream").loading).toBe(false));
+
+    expect(seen).toContainEqual(["one"]);
+    expect(sources.getState("stream").items).toEqual(["one", "two", "three"]);
+  });
+
+  it("should abort the previous search and ignore its results", async () => {
+    vi.useFakeTimers();
+    const first = deferred<string[]>();
+    const signals: AbortSignal[] = [];
+    const fetch = vi.fn((query: string, signal: AbortSignal) => {
+      signals.push(signal);
+      return query === "a" ? first.promise : Promise.resolve(["ab"]);
+    });
+    const sources = createCommandSources<string>({
+      sources: [{ id: "files", fetch }],
+      onChange: () => {},
+    });
+
+    sources.search("a");
+    vi.advanceTimersByTime(150);
+    sources.search("ab");
+    sources.search("abc");
+    vi.advanceTimersByTime(150);
+    vi.useRealTimers();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(signals[0]?.aborted).toBe(true);
+
+    first.resolve(["stale"]);
+    await vi.waitFor(() => expect(sources.getState("files").loading).toBe(false));
+    expect(sources.getState("files").items).toEqual(["ab"]);
+  });
+
+  it("should surface errors per source", async () => {
+    const error = new Error("offline");
+    const sources = createCommandSources<string>({
+      sources: [{ id: "remote", fetch: () => Promise.reject(error) }],
+      debounce: 0,
+      onChange: () => {},
+    });
+
+    sources.search("x");
+    await vi.waitFor(() => expect(sources.getState("remote").loading).toBe(false));
+
+    expect(sources.getState("remote").error).toBe(error);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { createDateTimePicker } from "../../src/composites/date-time-picker";
+
+function key(value: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key: value, cancelable: true, ...init });
+}
+
+describe("createDateTimePicker", () => {
+  describe("value", () => {
+    it("should combine the chosen day and time into an ISO 8601 value", () => {
+      const onValueChange = vi.fn();
+      const picker = createDateTimePicker({ onValueChange });
+
+      picker.timePicker.setValue({ hour: 9, minute: 30, second: 0 });
+      expect(onValueChange).not.toHaveBeenCalled();
+      expect(picker.state.value).toBe("");
+
+      picker.datePicker.selectDate(new Date(2026, 2, 14));
+      expect(onValueChange).toHaveBeenLastCalledWith("2026-03-14T09:30", expect.any(Date));
+
+      picker.timePicker.increment("hour");
+      expect(picker.state.value).toBe("2026-03-14T10:30");
+    });
+
+    it("should include seconds only when shown", () => {
+      const picker = createDateTimePicker({
+        showSeconds: true,
+        defaultValue: "2026-03-14T09:30:15",
+      });
+
+      expect(picker.state.value).toBe("2026-03-14T09:30:15");
+    });
+
+    it("should clear the day but keep the time", () => {
+      const onValueChange = vi.fn();
+      const picker = createDateTimePicker({ defaultValue: "2026-03-14T09:30", onValueChange });
+
+      picker.clear();
+
+      expect(onValueChange).toHaveBeenCalledWith("", null);
+      expect(picker.state.time).toEqual({ hour: 9, minute: 30, second: 0 });
+    });
+
+    it("should set the value without notifying", () => {
+      const onValueChange = vi.fn();
+      const picker = createDateTimePicker({ onValueChange });
+
+      picker.setValue("2026-12-31T23:45");
+
+      expect(onValueChange).not.toHaveBeenCalled();
+      expect(picker.state.value).toBe("2026-12-31T23:45");
+      expect(picker.datePicker.state.selectedDate).toEqual(new Date(2026, 11, 31));
+      expect(picker.timePicker.state.value).toEqual({ hour: 23, minute: 45, second: 0 });
+    });
+
+    it("should reject malformed values", () => {
+      const picker = createDateTimePicker();
+
+      expect(picker.parse("2026-02-30T10:00")).toBeNull();
+      expect(picker.parse("14/03/2026 09:30")).toBeNull();
+    });
+  });
+
+  describe("minute step", () => {
+    it("should snap values down to the step", () => {
+      const picker = createDateTimePicker({ minuteStep: 15, defaultValue: "2026-03-14T09:44" });
+
+      expect(picker.state.value).toBe("2026-03-14T09:30");
+
+      picker.timePicker.increment("minute");
+      expect(picker.state.value).toBe("2026-03-14T09:45");
+    });
+  });
+
+  describe("time zone", () => {
+    it("should append the zone's offset", () => {
+      const picker = createDateTimePicker({
+        timeZone: "Europe/Berlin",
+        includeOffset: true,
+        defaultValue: "2026-07-01T09:15",
+      });
+
+      expect(picker.state.value).toBe("2026-07-01T09:15+02:00");
+      expect(picker.toDate()?.toISOString()).toBe("2026-07-01T07:15:00.000Z");
+
+      picker.setValue("2026-01-15T09:15");
+      expect(picker.state.value).toBe("2026-01-15T09:15+01:00");
+    });
+
+    it("should read instants as wall-clock time in the zone", () => {
+      const picker = createDateTimePicker({
+        timeZone: "Pacific/Auckland",
+        defaultValue: new Date("2026-07-01T20:00:00Z"),
+      });
+
+      // 20:00 UTC is already 08:00 on July 2nd in Auckland (UTC+12)
+      expect(picker.state.value).toBe("2026-07-02T08:00");
+      expect(picker.parse("2026-07-01T20:00:00Z")?.date).toEqual(new Date(2026, 6, 2));
+    });
+  });
+
+  describe("calendar keyboard", () => {
+    it("should move focus and select the focused day", () => {
+      const onValueChange = vi.fn();
+      const picker = createDateTimePicker({ defaultValue: "2026-03-14T09:30", onValueChange });
+      picker.datePicker.open();
+
+      expect(picker.handleCalendarKeyDown(key("ArrowRight"))).toBe(true);
+      picker.handleCalendarKeyDown(key("PageDown"));
+      expect(picker.datePicker.state.focusedDate).toEqual(new Date(2026, 3, 15));
+
+      picker.handleCalendarKeyDown(key("Enter"));
+      expect(onValueChange).toHaveBeenLastCalledWith("2026-04-15T09:30", expect.any(Date));
+      expect(picker.state.open).toBe(false);
+    });
+
+    it("should ignore other keys", () => {
+      const picker = createDateTimePicker();
+
+      expect(picker.handleCalendarKeyDown(key("a"))).toBe(false);
+    });
+  });
+});
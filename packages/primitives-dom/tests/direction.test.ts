@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getDirection, mirrorArrowKey } from "../src/direction/direction";
+
+describe("getDirection", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    document.documentElement.removeAttribute("dir");
+  });
+
+  it("should default to ltr", () => {
+    const element = document.createElement("div");
+    document.body.appendChild(element);
+
+    expect(getDirection(element)).toBe("ltr");
+    expect(getDirection(null)).toBe("ltr");
+  });
+
+  it("should resolve from the nearest dir attribute", () => {
+    document.documentElement.dir = "rtl";
+    document.body.innerHTML = `
+      <div id="rtl"><span id="inherits"></span></div>
+      <div dir="ltr"><div dir="auto"><span id="ltr"></span></div></div>
+    `;
+
+    expect(getDirection(document.getElementById("inherits"))).toBe("rtl");
+    expect(getDirection(document.getElementById("ltr"))).toBe("ltr");
+  });
+
+  it("should cross shadow roots", () => {
+    const host = document.createElement("div");
+    host.dir = "rtl";
+    document.body.appendChild(host);
+    const inner = document.createElement("span");
+    host.attachShadow({ mode: "open" }).appendChild(inner);
+
+    expect(getDirection(inner)).toBe("rtl");
+  });
+});
+
+describe("mirrorArrowKey", () => {
+  it("should swap horizontal arrows in rtl only", () => {
+    expect(mirrorArrowKey("ArrowLeft", "rtl")).toBe("ArrowRight");
+    expect(mirrorArrowKey("ArrowRight", "rtl")).toBe("ArrowLeft");
+    expect(mirrorArrowKey("ArrowDown", "rtl")).toBe("ArrowDown");
+    expect(mirrorArrowKey("ArrowLeft", "ltr")).toBe("ArrowLeft");
+  });
+});
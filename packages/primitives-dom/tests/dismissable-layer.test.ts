@@ -305,6 +305,40 @@ describe("createDismissableLayer", () => {
       document.body.removeChild(container1);
       document.body.removeChild(container2);
     });
+
+    it("should pass outside clicks of a nested layer on to the layer below", () => {
+      const onDismissMenu = vi.fn();
+      const onDismissSubmenu = vi.fn();
+
+      const menu = document.createElement("div");
+      const submenu = document.createElement("div");
+      menu.appendChild(submenu);
+      document.body.appendChild(menu);
+
+      const menuLayer = createDismissableLayer({ container: menu, onDismiss: onDismissMenu });
+      const submenuLayer = createDismissableLayer({
+        container: submenu,
+        onDismiss: onDismissSubmenu,
+        nested: true,
+      });
+
+      menuLayer.activate();
+      submenuLayer.activate();
+
+      // Inside the menu but outside the submenu
+      menu.dispatchEvent(new MouseEvent("pointerdown", { bubbles: true }));
+      expect(onDismissSubmenu).toHaveBeenCalledTimes(1);
+      expect(onDismissMenu).not.toHaveBeenCalled();
+
+      // Outside both
+      document.body.dispatchEvent(new MouseEvent("pointerdown", { bubbles: true }));
+      expect(onDismissSubmenu).toHaveBeenCalledTimes(2);
+      expect(onDismissMenu).toHaveBeenCalledWith("outside-click");
+
+      menuLayer.deactivate();
+      submenuLayer.deactivate();
+      document.body.removeChild(menu);
+    });
   });
 
   describe("cleanup", () => {
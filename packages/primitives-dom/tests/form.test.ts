@@ -0,0 +1,340 @@
+import { describe, expect, it, vi } from "vitest";
+import { areFieldValuesEqual, createFormController } from "../src/form/form-controller.js";
+import { type FormValidatorSources, createFormValidators } from "../src/form/form-validators.js";
+import {
+  type StandardSchemaV1,
+  createStandardSchemaValidator,
+  getIssueFieldName,
+  isStandardSchema,
+} from "../src/form/standard-schema.js";
+
+interface SignupValues {
+  [key: string]: unknown;
+  email: string;
+  age: number;
+}
+
+/** A minimal Standard Schema that requires an email and an adult age */
+const signupSchema: StandardSchemaV1<SignupValues> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { email, age } = value as SignupValues;
+      const issues: StandardSchemaV1.Issue[] = [];
+      if (!email) issues.push({ message: "Email is required", path: ["email"] });
+      if (!email.includes("@")) issues.push({ message: "Enter a valid email", path: ["email"] });
+      if (age < 18) issues.push({ message: "Must be 18 or older", path: [{ key: "age" }] });
+      return issues.length > 0 ? { issues } : { value: value as SignupValues };
+    },
+  },
+};
+
+/** Flushes pending validation promises */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe("areFieldValuesEqual", () => {
+  it("compares primitives, arrays and plain objects by value", () => {
+    expect(areFieldValuesEqual("a", "a")).toBe(true);
+    expect(areFieldValuesEqual(Number.NaN, Number.NaN)).toBe(true);
+    expect(areFieldValuesEqual([20, 80], [20, 80])).toBe(true);
+    expect(areFieldValuesEqual({ min: 1, max: 2 }, { min: 1, max: 2 })).toBe(true);
+    expect(areFieldValuesEqual([1], [1, 2])).toBe(false);
+    expect(areFieldValuesEqual({ min: 1 }, { min: 2 })).toBe(false);
+    expect(areFieldValuesEqual(new Date(0), new Date(0))).toBe(false);
+  });
+});
+
+describe("createFormController", () => {
+  it("tracks values and dirty fields against the initial values", () => {
+    const form = createFormController<SignupValues>({ initialValues: { email: "", age: 18 } });
+
+    form.setValue("email", "ada@example.com");
+    expect(form.state.values.email).toBe("ada@example.com");
+    expect(form.state.dirty.email).toBe(true);
+    expect(form.state.isDirty).toBe(true);
+
+    form.setValue("email", "");
+    expect(form.state.dirty.email).toBe(false);
+    expect(form.state.isDirty).toBe(false);
+  });
+
+  it("registers fields without overwriting known values", () => {
+    const form = createFormController<SignupValues>({ initialValues: { email: "a@b.c" } });
+
+    form.register("email", "");
+    form.register("age", 30);
+
+    expect(form.state.values).toEqual({ email: "a@b.c", age: 30 });
+    expect(form.state.isDirty).toBe(false);
+  });
+
+  it("validates a field on blur by default, not on change", async () => {
+    const email = vi.fn((value: string) => (value ? undefined : "Required"));
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      fieldValidators: { email },
+    });
+
+    form.setValue("email", "");
+    await flush();
+    expect(email).not.toHaveBeenCalled();
+
+    form.setTouched("email");
+    await flush();
+    expect(form.state.touched.email).toBe(true);
+    expect(form.state.errors.email).toBe("Required");
+    expect(form.state.isValid).toBe(false);
+
+    // With an error showing, changes re-validate
+    form.setValue("email", "ada@example.com");
+    await flush();
+    expect(form.state.errors.email).toBeUndefined();
+    expect(form.state.isValid).toBe(true);
+  });
+
+  it("validates on change when validateOn is change", async () => {
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      validateOn: "change",
+      fieldValidators: { age: (age) => (age < 18 ? "Too young" : undefined) },
+    });
+
+    form.setValue("age", 12);
+    await flush();
+    expect(form.state.errors.age).toBe("Too young");
+  });
+
+  it("keeps only the latest async result for a field", async () => {
+    const resolvers: Array<(message?: string) => void> = [];
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      validateOn: "change",
+      fieldValidators: {
+        email: () => new Promise<string | undefined>((resolve) => resolvers.push(resolve)),
+      },
+    });
+
+    form.setValue("email", "taken@example.com");
+    form.setValue("email", "free@example.com");
+    expect(form.state.isValidating).toBe(true);
+
+    resolvers[1]?.();
+    await flush();
+    resolvers[0]?.("Already registered");
+    await flush();
+
+    expect(form.state.errors.email).toBeUndefined();
+    expect(form.state.isValidating).toBe(false);
+  });
+
+  it("submits valid values and marks every field as touched", async () => {
+    const onValid = vi.fn();
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "ada@example.com", age: 36 },
+      validate: createStandardSchemaValidator(signupSchema),
+    });
+
+    const result = await form.submit(onValid);
+
+    expect(result).toEqual({
+      valid: true,
+      values: { email: "ada@example.com", age: 36 },
+      errors: {},
+    });
+    expect(onValid).toHaveBeenCalledWith(
+      result.values,
+      expect.objectContaining({ isSubmitting: true, isValid: true })
+    );
+    expect(form.state.touched).toEqual({ email: true, age: true });
+    expect(form.state.submitCount).toBe(1);
+    expect(form.state.isSubmitting).toBe(false);
+  });
+
+  it("reports the first error per field on an invalid submit", async () => {
+    const onValid = vi.fn();
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 12 },
+      validate: createStandardSchemaValidator(signupSchema),
+      fieldValidators: { age: (age) => (age > 120 ? "Too old" : undefined) },
+    });
+
+    const result = await form.submit(onValid);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual({ email: "Email is required", age: "Must be 18 or older" });
+    expect(form.state.errors).toEqual(result.errors);
+    expect(onValid).not.toHaveBeenCalled();
+  });
+
+  it("lets field validators take precedence over form validators", async () => {
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      validate: () => ({ email: "From the form" }),
+      fieldValidators: { email: () => "From the field" },
+    });
+
+    expect(await form.validate()).toEqual({ email: "From the field" });
+  });
+
+  it("turns a throwing schema into a form-level error", async () => {
+    let broken = true;
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "ada@example.com", age: 30 },
+      validate: createStandardSchemaValidator<StandardSchemaV1<SignupValues>>({
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) => {
+            if (broken) throw new Error("Schema crashed");
+            return { value: value as SignupValues };
+          },
+        },
+      }),
+    });
+
+    form.setTouched("email");
+    await flush();
+    expect(form.state.errors).toEqual({ "": "Something went wrong. Please try again." });
+    expect(form.state.isValidating).toBe(false);
+
+    const result = await form.submit();
+    expect(result.valid).toBe(false);
+    expect(result.errors[""]).toBe("Something went wrong. Please try again.");
+    expect(form.state).toMatchObject({ isSubmitting: false, isValidating: false, isValid: false });
+
+    broken = false;
+    form.setValue("email", "grace@example.com");
+    await flush();
+    expect(form.state.isValid).toBe(true);
+  });
+
+  it("reports a throwing submit handler as a form-level error", async () => {
+    const failure = new Error("Network error");
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "ada@example.com", age: 30 },
+      messages: { "form.error": "Could not sign up" },
+    });
+
+    const result = await form.submit(() => Promise.reject(failure));
+
+    expect(result).toMatchObject({
+      valid: false,
+      error: failure,
+      errors: { "": "Could not sign up" },
+    });
+    expect(form.state.isSubmitting).toBe(false);
+  });
+
+  it("sets errors by hand, e.g. from a server response", () => {
+    const form = createFormController<SignupValues>({ initialValues: { email: "", age: 18 } });
+
+    form.setError("email", "Already registered");
+    expect(form.state.errors.email).toBe("Already registered");
+    expect(form.state.isValid).toBe(false);
+
+    form.setError("email", null);
+    expect(form.state.isValid).toBe(true);
+  });
+
+  it("resets to the initial values, or to new ones", async () => {
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      fieldValidators: { email: (email) => (email ? undefined : "Required") },
+    });
+
+    form.setValue("email", "ada@example.com");
+    form.setError("age", "Server error");
+    form.reset();
+    expect(form.state.values).toEqual({ email: "", age: 18 });
+    expect(form.state.errors).toEqual({});
+    expect(form.state.isDirty).toBe(false);
+
+    form.reset({ email: "ada@example.com" });
+    expect(form.state.values.email).toBe("ada@example.com");
+    expect(form.state.isDirty).toBe(false);
+  });
+
+  it("notifies subscribers until they unsubscribe", () => {
+    const listener = vi.fn();
+    const onStateChange = vi.fn();
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "", age: 18 },
+      onStateChange,
+    });
+
+    const unsubscribe = form.subscribe(listener);
+    form.setValue("age", 20);
+    expect(listener).toHaveBeenCalledWith(form.state);
+    expect(onStateChange).toHaveBeenCalledWith(form.state);
+
+    unsubscribe();
+    form.setValue("age", 21);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores updates after destroy until subscribed again", () => {
+    const listener = vi.fn();
+    const form = createFormController<SignupValues>({ initialValues: { email: "", age: 18 } });
+
+    form.destroy();
+    form.setValue("age", 20);
+    expect(form.state.values.age).toBe(18);
+
+    form.subscribe(listener);
+    form.setValue("age", 21);
+    expect(form.state.values.age).toBe(21);
+    expect(listener).toHaveBeenCalledWith(form.state);
+  });
+});
+
+describe("Standard Schema adapter", () => {
+  it("detects Standard Schema objects", () => {
+    expect(isStandardSchema(signupSchema)).toBe(true);
+    expect(isStandardSchema({})).toBe(false);
+    expect(isStandardSchema(null)).toBe(false);
+  });
+
+  it("joins issue paths into field names", () => {
+    expect(getIssueFieldName({ message: "", path: ["address", { key: "city" }] })).toBe(
+      "address.city"
+    );
+    expect(getIssueFieldName({ message: "", path: ["tags", 0] })).toBe("tags.0");
+    expect(getIssueFieldName({ message: "" })).toBe("");
+  });
+
+  it("keys issues without a path by the empty string", async () => {
+    const validate = createStandardSchemaValidator({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async () => ({ issues: [{ message: "Passwords do not match" }] }),
+      },
+    });
+
+    expect(await validate({})).toEqual({ "": "Passwords do not match" });
+  });
+});
+
+describe("createFormValidators", () => {
+  it("reads the latest sources and runs only the validated field's validator", async () => {
+    const validateAge = vi.fn((age: number) => (age < 21 ? "Must be 21 or older" : undefined));
+    let current: FormValidatorSources<SignupValues> = { schema: signupSchema };
+    const form = createFormController<SignupValues>({
+      initialValues: { email: "ada@example.com", age: 18 },
+      ...createFormValidators(() => current),
+    });
+
+    await form.validateField("email");
+    expect(form.state.errors.age).toBeUndefined();
+
+    current = { schema: signupSchema, fieldValidators: { age: validateAge } };
+    await form.validateField("email");
+    expect(validateAge).not.toHaveBeenCalled();
+
+    expect(await form.validate()).toEqual({ age: "Must be 21 or older" });
+    expect(validateAge).toHaveBeenCalledTimes(1);
+  });
+});
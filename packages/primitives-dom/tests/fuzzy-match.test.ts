@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fuzzyFilter,
+  fuzzyMatch,
+  getHighlightSegments,
+  rankItems,
+} from "../src/search/fuzzy-match";
+
+describe("fuzzyMatch", () => {
+  it("should match characters in order", () => {
+    expect(fuzzyMatch("opfl", "Open File")).not.toBeNull();
+    expect(fuzzyMatch("flop", "Open File")).toBeNull();
+  });
+
+  it("should match everything for a blank query", () => {
+    expect(fuzzyMatch("  ", "Open File")).toEqual({ score: 0, ranges: [] });
+  });
+
+  it("should ignore case and diacritics", () => {
+    const result = fuzzyMatch("cafe", "Café Crème");
+
+    expect(result?.ranges).toEqual([{ start: 0, end: 4 }]);
+    expect(fuzzyMatch("CREME", "Café Crème")).not.toBeNull();
+  });
+
+  it("should ignore whitespace in the query", () => {
+    expect(fuzzyMatch("new file", "NewFile")).not.toBeNull();
+  });
+
+  it("should prefer word starts for acronyms", () => {
+    const result = fuzzyMatch("gtd", "Go To Definition");
+
+    expect(result?.ranges).toEqual([
+      { start: 0, end: 1 },
+      { start: 3, end: 4 },
+      { start: 6, end: 7 },
+    ]);
+  });
+
+  it("should treat camelCase humps as word starts", () => {
+    expect(fuzzyMatch("gd", "getDefaults")?.ranges).toEqual([
+      { start: 0, end: 1 },
+      { start: 3, end: 4 },
+    ]);
+  });
+
+  it("should merge consecutive matches into one range", () => {
+    expect(fuzzyMatch("file", "Open File")?.ranges).toEqual([{ start: 5, end: 9 }]);
+  });
+
+  it("should score prefixes above scattered matches", () => {
+    const prefix = fuzzyMatch("set", "Settings");
+    const scattered = fuzzyMatch("set", "Select theme");
+
+    expect(prefix?.score).toBeGreaterThan(scattered?.score ?? 0);
+  });
+
+  it("should score word starts above mid-word matches", () => {
+    const wordStart = fuzzyMatch("new", "Create New");
+    const midWord = fuzzyMatch("new", "Renewal");
+
+    expect(wordStart?.score).toBeGreaterThan(midWord?.score ?? 0);
+  });
+
+  it("should give an exact match the top score", () => {
+    const exact = fuzzyMatch("copy", "Copy");
+    const prefix = fuzzyMatch("copy", "Copy Link");
+
+    expect(exact?.score).toBeGreaterThan(prefix?.score ?? 0);
+  });
+});
+
+describe("fuzzyFilter", () => {
+  it("should find items by keyword, weighted below the text", () => {
+    const byText = fuzzyFilter("clone", { text: "Clone" });
+    const byKeyword = fuzzyFilter("clone", { text: "Duplicate", keywords: ["clone", "copy"] });
+
+    expect(byKeyword).toEqual({ score: expect.any(Number), ranges: [] });
+    expect(byText?.score).toBeGreaterThan(byKeyword?.score ?? 0);
+  });
+
+  it("should keep text ranges when the text matches best", () => {
+    const result = fuzzyFilter("dup", { text: "Duplicate", keywords: ["clone"] });
+
+    expect(result?.ranges).toEqual([{ start: 0, end: 3 }]);
+  });
+});
+
+describe("rankItems", () => {
+  const commands = ["Select Theme", "Settings", "Reset", "Open File"];
+
+  it("should filter and order by score", () => {
+    const results = rankItems(commands, "set", (text) => ({ text }));
+
+    expect(results[0]?.item).toBe("Settings");
+    expect(results.map((result) => result.item)).not.toContain("Open File");
+    expect(results).toHaveLength(3);
+  });
+
+  it("should keep the original order for equal scores", () => {
+    const results = rankItems(["Copy B", "Copy A"], "copy", (text) => ({ text }));
+
+    expect(results.map((result) => result.item)).toEqual(["Copy B", "Copy A"]);
+  });
+
+  it("should return every item in order for a blank query", () => {
+    const filter = vi.fn(fuzzyFilter);
+    const results = rankItems(commands, "", (text) => ({ text }), filter);
+
+    expect(results.map((result) => result.item)).toEqual(commands);
+    expect(filter).not.toHaveBeenCalled();
+  });
+
+  it("should use a custom filter", () => {
+    const results = rankItems(
+      commands,
+      "e",
+      (text) => ({ text }),
+      (query, { text }) => (text.endsWith(query) ? { score: text.length, ranges: [] } : null)
+    );
+
+    expect(results.map((result) => result.item)).toEqual(["Select Theme", "Open File"]);
+  });
+});
+
+describe("getHighlightSegments", () => {
+  it("should split text into matched and unmatched runs", () => {
+    expect(
+      getHighlightSegments("Go To Definition", [
+        { start: 0, end: 1 },
+        { start: 3, end: 4 },
+      ])
+    ).toEqual([
+      { text: "G", match: true },
+      { text: "o ", match: false },
+      { text: "T", match: true },
+      { text: "o Definition", match: false },
+    ]);
+  });
+});
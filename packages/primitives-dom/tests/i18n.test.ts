@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  enMessages,
+  formatMessage,
+  getLocale,
+  getMessage,
+  setMessages,
+  subscribeMessages,
+} from "../src/index";
+import { arMessages, deMessages, esMessages, frMessages, jaMessages } from "../src/locales";
+
+describe("formatMessage", () => {
+  it("should interpolate arguments", () => {
+    expect(formatMessage("Remove {name}", { name: "a.txt" })).toBe("Remove a.txt");
+  });
+
+  it("should leave missing arguments in place", () => {
+    expect(formatMessage("Remove {name}")).toBe("Remove {name}");
+  });
+
+  it("should format numbers for the locale", () => {
+    expect(formatMessage("{count, number} rows", { count: 1234 })).toBe("1,234 rows");
+    expect(formatMessage("{count, number} Zeilen", { count: 1234 }, "de")).toBe("1.234 Zeilen");
+  });
+
+  it("should select plural categories", () => {
+    const pattern = "{count, plural, =0 {No files} one {# file} other {# files}}";
+
+    expect(formatMessage(pattern, { count: 0 })).toBe("No files");
+    expect(formatMessage(pattern, { count: 1 })).toBe("1 file");
+    expect(formatMessage(pattern, { count: 2500 })).toBe("2,500 files");
+  });
+
+  it("should use the locale's plural rules", () => {
+    const pattern = "{count, plural, one {one} two {two} few {few} many {many} other {other}}";
+
+    expect(formatMessage(pattern, { count: 2 }, "ar")).toBe("two");
+    expect(formatMessage(pattern, { count: 3 }, "ar")).toBe("few");
+    expect(formatMessage(pattern, { count: 2 }, "en")).toBe("other");
+  });
+
+  it("should apply plural offsets", () => {
+    const pattern =
+      "{count, plural, offset:1 =0 {Nobody} =1 {You} one {You and # other} other {You and # others}}";
+
+    expect(formatMessage(pattern, { count: 1 })).toBe("You");
+    expect(formatMessage(pattern, { count: 2 })).toBe("You and 1 other");
+    expect(formatMessage(pattern, { count: 4 })).toBe("You and 3 others");
+  });
+
+  it("should select cases and fall back to other", () => {
+    const pattern = "{multiple, select, true {Drop files} other {Drop file}}";
+
+    expect(formatMessage(pattern, { multiple: true })).toBe("Drop files");
+    expect(formatMessage(pattern, { multiple: false })).toBe("Drop file");
+  });
+
+  it("should keep # bound to the plural inside nested selects", () => {
+    const pattern = "{count, plural, other {{kind, select, image {# images} other {# files}}}}";
+
+    expect(formatMessage(pattern, { count: 3, kind: "image" })).toBe("3 images");
+  });
+
+  it("should treat # as text outside plurals", () => {
+    expect(formatMessage("Row #{index}", { index: 4 })).toBe("Row #4");
+  });
+
+  it("should handle apostrophe quoting", () => {
+    expect(formatMessage("Fermer l'alerte")).toBe("Fermer l'alerte");
+    expect(formatMessage("It''s {name}", { name: "here" })).toBe("It's here");
+    expect(formatMessage("'{name}' is literal", { name: "x" })).toBe("{name} is literal");
+  });
+
+  it("should throw on malformed patterns", () => {
+    expect(() => formatMessage("{count, plural, one {# file}}")).toThrow(/other/);
+    expect(() => formatMessage("{count, date}")).toThrow(/unknown argument type/);
+    expect(() => formatMessage("Unbalanced }")).toThrow(/Invalid message/);
+  });
+});
+
+describe("message catalog", () => {
+  afterEach(() => {
+    setMessages({}, "en");
+  });
+
+  it("should default to English", () => {
+    expect(getLocale()).toBe("en");
+    expect(getMessage("combobox.noResults")).toBe(enMessages["combobox.noResults"]);
+    expect(getMessage("dataTable.showing", { start: 1, end: 10, total: 1200 })).toBe(
+      "Showing 1-10 of 1,200"
+    );
+  });
+
+  it("should use the global catalog and locale", () => {
+    setMessages(deMessages, "de");
+
+    expect(getLocale()).toBe("de");
+    expect(getMessage("calendar.previousMonth")).toBe("Vorheriger Monat");
+    expect(getMessage("dataTable.showing", { start: 1, end: 10, total: 1200 })).toBe(
+      "1–10 von 1.200"
+    );
+  });
+
+  it("should fall back to English for missing keys", () => {
+    setMessages({ "tag.remove": "Quitar" }, "es");
+
+    expect(getMessage("tag.remove")).toBe("Quitar");
+    expect(getMessage("tree.expand")).toBe("Expand");
+  });
+
+  it("should prefer per-call overrides", () => {
+    setMessages(jaMessages, "ja");
+
+    expect(getMessage("tag.remove", undefined, { messages: { "tag.remove": "Delete" } })).toBe(
+      "Delete"
+    );
+    expect(
+      getMessage("fileUpload.tooManyFiles", { max: 1 }, { locale: "en", messages: enMessages })
+    ).toBe("Only 1 file allowed");
+  });
+
+  it("should notify subscribers until unsubscribed", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeMessages(listener);
+
+    setMessages(deMessages, "de");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    setMessages({}, "en");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should provide every key in the built-in catalogs", () => {
+    const keys = Object.keys(enMessages).sort();
+
+    for (const catalog of [arMessages, deMessages, esMessages, frMessages, jaMessages]) {
+      expect(Object.keys(catalog).sort()).toEqual(keys);
+      // Every pattern parses
+      for (const pattern of Object.values(catalog))
+        expect(() => formatMessage(pattern)).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createGridNavigation } from "../../src/keyboard/grid-navigation";
+
+describe("createGridNavigation", () => {
+  let table: HTMLTableElement;
+
+  beforeEach(() => {
+    table = document.createElement("table");
+    table.innerHTML = `
+      <thead>
+        <tr><th>A</th><th>B</th><th><button>Sort</button></th></tr>
+      </thead>
+      <tbody>
+        ${Array.from(
+          { length: 5 },
+          (_, row) => `
+            <tr>
+              <td>${row}-0</td>
+              <td><input aria-label="Edit ${row}" /></td>
+              <td>${row}-2</td>
+            </tr>
+          `
+        ).join("")}
+      </tbody>
+    `;
+    document.body.appendChild(table);
+  });
+
+  afterEach(() => {
+    table.remove();
+  });
+
+  function cell(row: number, column: number): HTMLElement {
+    const cells = table.querySelectorAll("tr")[row]?.querySelectorAll("th, td");
+    return cells?.[column] as HTMLElement;
+  }
+
+  function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+    const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init });
+    (document.activeElement ?? table).dispatchEvent(event);
+    return event;
+  }
+
+  function createGrid(pageSize = 2) {
+    return createGridNavigation({
+      container: table,
+      rowSelector: "tr",
+      cellSelector: "th, td",
+      pageSize,
+    });
+  }
+
+  describe("navigation mode", () => {
+    it("should make the first cell the only tab stop", () => {
+      const grid = createGrid();
+
+      expect(cell(0, 0).tabIndex).toBe(0);
+      expect(cell(1, 1).tabIndex).toBe(-1);
+      // Cell content leaves the tab sequence
+      expect(cell(0, 2).querySelector("button")?.tabIndex).toBe(-1);
+
+      grid.destroy();
+    });
+
+    it("should move between cells with arrow keys without wrapping", () => {
+      const grid = createGrid();
+      grid.focusCell(0, 0);
+
+      press("ArrowRight");
+      expect(document.activeElement).toBe(cell(0, 1));
+
+      press("ArrowDown");
+      expect(document.activeElement).toBe(cell(1, 1));
+
+      press("ArrowLeft");
+      press("ArrowLeft");
+      expect(document.activeElement).toBe(cell(1, 0));
+
+      press("ArrowUp");
+      press("ArrowUp");
+      expect(document.activeElement).toBe(cell(0, 0));
+      expect(grid.getActiveCell()).toEqual({ row: 0, column: 0 });
+
+      grid.destroy();
+    });
+
+    it("should support Home, End, Ctrl+Home and Ctrl+End", () => {
+      const grid = createGrid();
+      grid.focusCell(2, 1);
+
+      press("End");
+      expect(document.activeElement).toBe(cell(2, 2));
+
+      press("Home");
+      expect(document.activeElement).toBe(cell(2, 0));
+
+      press("End", { ctrlKey: true });
+      expect(document.activeElement).toBe(cell(5, 2));
+
+      press("Home", { ctrlKey: true });
+      expect(document.activeElement).toBe(cell(0, 0));
+
+      grid.destroy();
+    });
+
+    it("should move by page size with PageUp and PageDown", () => {
+      const grid = createGrid(2);
+      grid.focusCell(0, 2);
+
+      press("PageDown");
+      expect(document.activeElement).toBe(cell(2, 2));
+
+      press("PageDown");
+      press("PageDown");
+      expect(document.activeElement).toBe(cell(5, 2));
+
+      press("PageUp");
+      expect(document.activeElement).toBe(cell(3, 2));
+
+      grid.destroy();
+    });
+
+    it("should report focused cells", () => {
+      const onFocus = vi.fn();
+      const grid = createGridNavigation({
+        container: table,
+        rowSelector: "tr",
+        cellSelector: "th, td",
+        onFocus,
+      });
+
+      grid.focusCell(1, 2);
+
+      expect(onFocus).toHaveBeenCalledWith(cell(1, 2), { row: 1, column: 2 });
+
+      grid.destroy();
+    });
+  });
+
+  describe("actionable mode", () => {
+    it("should enter a cell with Enter and leave it with Escape", () => {
+      const onActionableChange = vi.fn();
+      const grid = createGridNavigation({
+        container: table,
+        rowSelector: "tr",
+        cellSelector: "th, td",
+        onActionableChange,
+      });
+      const input = cell(1, 1).querySelector("input") as HTMLInputElement;
+      grid.focusCell(1, 1);
+
+      press("Enter");
+      expect(document.activeElement).toBe(input);
+      expect(grid.isActionable()).toBe(true);
+      expect(onActionableChange).toHaveBeenLastCalledWith(true, cell(1, 1));
+
+      // Arrow keys stay in the content
+      const arrow = press("ArrowRight");
+      expect(arrow.defaultPrevented).toBe(false);
+      expect(document.activeElement).toBe(input);
+
+      press("Escape");
+      expect(document.activeElement).toBe(cell(1, 1));
+      expect(grid.isActionable()).toBe(false);
+      expect(input.tabIndex).toBe(-1);
+
+      grid.destroy();
+    });
+
+    it("should toggle with F2", () => {
+      const grid = createGrid();
+      grid.focusCell(0, 2);
+
+      press("F2");
+      expect(document.activeElement).toBe(cell(0, 2).querySelector("button"));
+
+      press("F2");
+      expect(document.activeElement).toBe(cell(0, 2));
+
+      grid.destroy();
+    });
+
+    it("should ignore Enter on cells without interactive content", () => {
+      const grid = createGrid();
+      grid.focusCell(1, 0);
+
+      const event = press("Enter");
+      expect(event.defaultPrevented).toBe(false);
+      expect(grid.isActionable()).toBe(false);
+
+      grid.destroy();
+    });
+
+    it("should enter actionable mode when content is focused directly", () => {
+      const grid = createGrid();
+      const input = cell(3, 1).querySelector("input") as HTMLInputElement;
+
+      input.focus();
+
+      expect(grid.isActionable()).toBe(true);
+      expect(grid.getActiveCell()).toEqual({ row: 3, column: 1 });
+      expect(cell(3, 1).tabIndex).toBe(0);
+
+      grid.destroy();
+    });
+  });
+
+  it("should restore cell content on destroy", () => {
+    const grid = createGrid();
+    grid.destroy();
+
+    expect(cell(0, 2).querySelector("button")?.hasAttribute("tabindex")).toBe(false);
+    expect(cell(0, 0).hasAttribute("tabindex")).toBe(false);
+  });
+
+  it("should pick up re-rendered cells on refresh", () => {
+    const grid = createGrid();
+    const row = document.createElement("tr");
+    row.innerHTML = "<td><button>New</button></td>";
+    table.querySelector("tbody")?.appendChild(row);
+
+    grid.refresh();
+
+    expect(row.querySelector("td")?.tabIndex).toBe(-1);
+    expect(row.querySelector("button")?.tabIndex).toBe(-1);
+
+    grid.destroy();
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHotkey, matchesHotkey, parseHotkey } from "../../src/keyboard/hotkey";
+
+function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init });
+  document.dispatchEvent(event);
+  return event;
+}
+
+describe("parseHotkey", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve mod to Control outside Apple platforms", () => {
+    vi.spyOn(navigator, "platform", "get").mockReturnValue("Win32");
+
+    expect(parseHotkey("mod+k")).toEqual({
+      key: "k",
+      alt: false,
+      ctrl: true,
+      meta: false,
+      shift: false,
+    });
+  });
+
+  it("should resolve mod to Meta on Apple platforms", () => {
+    vi.spyOn(navigator, "platform", "get").mockReturnValue("MacIntel");
+
+    expect(parseHotkey("Mod+K")).toMatchObject({ key: "k", ctrl: false, meta: true });
+  });
+
+  it("should support aliases and the plus key", () => {
+    expect(parseHotkey("shift+esc").key).toBe("escape");
+    expect(parseHotkey("ctrl++").key).toBe("+");
+  });
+});
+
+describe("matchesHotkey", () => {
+  it("should require modifiers to match exactly", () => {
+    const event = new KeyboardEvent("keydown", { key: "k", ctrlKey: true, shiftKey: true });
+
+    expect(matchesHotkey(event, "ctrl+shift+k")).toBe(true);
+    expect(matchesHotkey(event, "ctrl+k")).toBe(false);
+  });
+});
+
+describe("createHotkey", () => {
+  it("should call onTrigger and prevent the default action", () => {
+    const onTrigger = vi.fn();
+    const hotkey = createHotkey({ hotkey: "ctrl+k", onTrigger });
+
+    const event = press("k", { ctrlKey: true });
+    press("k");
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toBe(true);
+    hotkey.destroy();
+  });
+
+  it("should stop listening when destroyed", () => {
+    const onTrigger = vi.fn();
+    const hotkey = createHotkey({ hotkey: "ctrl+k", onTrigger });
+
+    hotkey.destroy();
+    press("k", { ctrlKey: true });
+
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+});
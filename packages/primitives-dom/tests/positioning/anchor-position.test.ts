@@ -1,5 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { type Placement, createAnchorPosition } from "../../src/positioning/anchor-position.js";
+import {
+  type Placement,
+  autoUpdate,
+  createAnchorPosition,
+  getClippingAncestors,
+} from "../../src/positioning/anchor-position.js";
+
+function setRect(element: HTMLElement, top: number, left: number, width: number, height: number) {
+  element.getBoundingClientRect = () => ({
+    top,
+    left,
+    bottom: top + height,
+    right: left + width,
+    width,
+    height,
+    x: left,
+    y: top,
+    toJSON: () => ({}),
+  });
+}
 
 describe("createAnchorPosition", () => {
   let anchor: HTMLElement;
@@ -106,6 +125,7 @@ describe("createAnchorPosition", () => {
   });
 
   it("should position floating element above anchor when placement is top", () => {
+    setRect(anchor, 300, 100, 100, 40);
     const onPositionChange = vi.fn();
     const position = createAnchorPosition({
       anchor,
@@ -166,8 +186,7 @@ describe("createAnchorPosition", () => {
       onPositionChange,
     });
 
-    // With CSS anchor positioning, flip is handled by the browser
-    // Just verify the API works
+    // There is room below, so just verify the API works
     expect(onPositionChange).toHaveBeenCalled();
     const result = onPositionChange.mock.calls[0][0];
     expect(typeof result.placement).toBe("string");
@@ -228,6 +247,7 @@ describe("createAnchorPosition", () => {
   });
 
   it("should handle left placement", () => {
+    setRect(anchor, 100, 300, 100, 40);
     const onPositionChange = vi.fn();
     const position = createAnchorPosition({
       anchor,
@@ -275,6 +295,281 @@ describe("createAnchorPosition", () => {
     position.destroy();
   });
 
+  describe("collision handling", () => {
+    beforeEach(() => {
+      // The CSS global is a getter returning a new object, so stub the global
+      // itself to test the JavaScript path
+      vi.stubGlobal("CSS", { supports: () => false });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function createScrollContainer(top: number, height: number): HTMLElement {
+      const container = document.createElement("div");
+      container.style.overflow = "auto";
+      setRect(container, top, 0, 1024, height);
+      document.body.appendChild(container);
+      container.append(anchor, floating);
+      return container;
+    }
+
+    it("should shift the floating element back inside the boundary", () => {
+      setRect(anchor, 100, 950, 60, 40);
+
+      const shifted = createAnchorPosition({ anchor, floating, placement: "bottom", padding: 8 });
+      expect(shifted.update().x).toBe(1024 - 200 - 8);
+      shifted.destroy();
+
+      const unshifted = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom",
+        shift: false,
+      });
+      expect(unshifted.update().x).toBe(950 + (60 - 200) / 2);
+      unshifted.destroy();
+    });
+
+    it("should flip inside clipping ancestors", () => {
+      const container = createScrollContainer(0, 300);
+      setRect(anchor, 200, 100, 100, 40);
+
+      const position = createAnchorPosition({ anchor, floating, placement: "bottom" });
+      expect(position.update()).toMatchObject({ placement: "top", y: 200 - 150 - 8 });
+      position.destroy();
+
+      const viewport = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom",
+        boundary: "viewport",
+      });
+      expect(viewport.update()).toMatchObject({ placement: "bottom", y: 248 });
+      viewport.destroy();
+      container.remove();
+    });
+
+    it("should list clipping ancestors nearest first", () => {
+      const outer = createScrollContainer(0, 600);
+      const inner = document.createElement("div");
+      inner.style.overflowY = "hidden";
+      const plain = document.createElement("div");
+      outer.appendChild(inner);
+      inner.appendChild(plain);
+      plain.appendChild(anchor);
+
+      expect(getClippingAncestors(anchor)).toEqual([inner, outer]);
+      outer.remove();
+    });
+
+    it("should expose the available size as custom properties", () => {
+      const position = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom",
+        padding: 4,
+        size: true,
+      });
+
+      expect(position.update().available).toEqual({ width: 1024 - 8, height: 768 - 140 - 8 - 4 });
+      expect(floating.style.getPropertyValue("--ds-anchor-available-height")).toBe("616px");
+      expect(floating.style.getPropertyValue("--ds-anchor-width")).toBe("100px");
+
+      position.destroy();
+      expect(floating.style.getPropertyValue("--ds-anchor-available-height")).toBe("");
+    });
+
+    it("should point the arrow at the anchor centre", () => {
+      const arrow = document.createElement("div");
+      floating.appendChild(arrow);
+      setRect(arrow, 0, 0, 10, 10);
+
+      const position = createAnchorPosition({ anchor, floating, placement: "bottom", arrow });
+      // Floating starts at x = 50, the anchor centre is at x = 150
+      expect(position.update().arrow).toEqual({ x: 95 });
+      expect(arrow.style.left).toBe("95px");
+      expect(arrow.style.top).toBe("-5px");
+      position.destroy();
+
+      setRect(anchor, 100, 10, 20, 40);
+      const clamped = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom-start",
+        arrow,
+        arrowPadding: 12,
+      });
+      expect(clamped.update().arrow).toEqual({ x: 12 });
+      clamped.destroy();
+    });
+
+    it("should hide the floating element when the anchor is clipped", () => {
+      const container = createScrollContainer(300, 300);
+
+      const position = createAnchorPosition({ anchor, floating, hide: true });
+      expect(position.update().anchorHidden).toBe(true);
+      expect(floating.style.visibility).toBe("hidden");
+      expect(floating.hasAttribute("data-anchor-hidden")).toBe(true);
+
+      setRect(anchor, 350, 100, 100, 40);
+      expect(position.update().anchorHidden).toBe(false);
+      expect(floating.style.visibility).toBe("");
+
+      position.destroy();
+      container.remove();
+    });
+
+    it("should update on scroll of any container until destroyed", () => {
+      const container = createScrollContainer(0, 600);
+      const onPositionChange = vi.fn();
+      const position = createAnchorPosition({
+        anchor,
+        floating,
+        autoUpdate: true,
+        onPositionChange,
+      });
+      onPositionChange.mockClear();
+
+      container.dispatchEvent(new Event("scroll"));
+      window.dispatchEvent(new Event("resize"));
+      expect(onPositionChange).toHaveBeenCalledTimes(2);
+
+      position.destroy();
+      container.dispatchEvent(new Event("scroll"));
+      expect(onPositionChange).toHaveBeenCalledTimes(2);
+      container.remove();
+    });
+
+    it("should stop auto updates with the returned cleanup", () => {
+      const update = vi.fn();
+      const stop = autoUpdate(anchor, floating, update);
+
+      document.dispatchEvent(new Event("scroll"));
+      stop();
+      document.dispatchEvent(new Event("scroll"));
+
+      expect(update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("CSS anchor positioning", () => {
+    beforeEach(() => {
+      vi.stubGlobal("CSS", { supports: () => true });
+      // Too close to the bottom edge for the floating element to fit below
+      setRect(anchor, 700, 100, 100, 40);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should measure in JavaScript while flip or shift is on", () => {
+      const position = createAnchorPosition({ anchor, floating, placement: "bottom" });
+
+      expect(position.update().placement).toBe("top");
+      expect(floating.style.position).toBe("fixed");
+      expect(anchor.style.getPropertyValue("anchor-name")).toBe("");
+      position.destroy();
+    });
+
+    it("should leave a fixed placement to CSS", () => {
+      const position = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom",
+        flip: false,
+        shift: false,
+      });
+
+      expect(position.update().placement).toBe("bottom");
+      expect(anchor.style.getPropertyValue("anchor-name")).not.toBe("");
+      position.destroy();
+    });
+  });
+
+  describe("logical placements", () => {
+    beforeEach(() => {
+      vi.stubGlobal("CSS", { supports: () => false });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function moveAnchor(left: number): void {
+      anchor.getBoundingClientRect = () => ({
+        top: 100,
+        left,
+        bottom: 140,
+        right: left + 100,
+        width: 100,
+        height: 40,
+        x: left,
+        y: 100,
+        toJSON: () => ({}),
+      });
+    }
+
+    it("should align bottom-start to the anchor's right edge in RTL", () => {
+      const position = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "bottom-start",
+        dir: "rtl",
+      });
+
+      const result = position.update();
+      expect(result.x).toBe(0);
+      expect(result.placement).toBe("bottom-start");
+      position.destroy();
+    });
+
+    it("should place the end side on the right in LTR and on the left in RTL", () => {
+      moveAnchor(500);
+
+      const ltr = createAnchorPosition({ anchor, floating, placement: "end-start", offset: 8 });
+      expect(ltr.update()).toMatchObject({ x: 608, y: 100, placement: "end-start" });
+      ltr.destroy();
+
+      const rtl = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "end-start",
+        offset: 8,
+        dir: "rtl",
+      });
+      expect(rtl.update()).toMatchObject({ x: 292, y: 100, placement: "end-start" });
+      rtl.destroy();
+    });
+
+    it("should resolve the direction from the anchor's dir attribute", () => {
+      moveAnchor(500);
+      document.body.dir = "rtl";
+
+      const position = createAnchorPosition({ anchor, floating, placement: "start", offset: 8 });
+      expect(position.update().x).toBe(608);
+
+      position.destroy();
+      document.body.removeAttribute("dir");
+    });
+
+    it("should report a flipped logical placement in logical terms", () => {
+      // Not enough room on the left of the anchor for the RTL end side
+      const position = createAnchorPosition({
+        anchor,
+        floating,
+        placement: "end-start",
+        offset: 8,
+        dir: "rtl",
+      });
+
+      expect(position.update()).toMatchObject({ x: 208, placement: "start-start" });
+      position.destroy();
+    });
+  });
+
   describe("placement variations", () => {
     const placements: Placement[] = [
       "top",
@@ -289,6 +584,12 @@ describe("createAnchorPosition", () => {
       "right",
       "right-start",
       "right-end",
+      "start",
+      "start-start",
+      "start-end",
+      "end",
+      "end-start",
+      "end-end",
     ];
 
     placements.forEach((placement) => {
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { getSafeTriangle, isPointInTriangle } from "../../src/positioning/safe-triangle";
+
+describe("safe triangle", () => {
+  const rect = { top: 0, bottom: 100, left: 200, right: 300 };
+
+  it("should span from the exit point to the near edge of a submenu on the right", () => {
+    const triangle = getSafeTriangle({ x: 190, y: 20 }, rect);
+
+    expect(triangle).toEqual([
+      { x: 188, y: 20 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 },
+    ]);
+  });
+
+  it("should use the right edge of a submenu flipped to the left", () => {
+    const triangle = getSafeTriangle({ x: 310, y: 20 }, rect);
+
+    expect(triangle[1]).toEqual({ x: 300, y: 0 });
+    expect(triangle[2]).toEqual({ x: 300, y: 100 });
+  });
+
+  it("should tell points inside the triangle from points outside", () => {
+    const triangle = getSafeTriangle({ x: 190, y: 20 }, rect);
+
+    expect(isPointInTriangle({ x: 195, y: 25 }, triangle)).toBe(true);
+    expect(isPointInTriangle({ x: 199, y: 90 }, triangle)).toBe(true);
+    expect(isPointInTriangle({ x: 190, y: 40 }, triangle)).toBe(false);
+    expect(isPointInTriangle({ x: 180, y: 20 }, triangle)).toBe(false);
+  });
+});
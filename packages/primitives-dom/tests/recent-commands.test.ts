@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createRecentCommands } from "../src/search/recent-commands";
+
+function createMemoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async (key: string) => data.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe("createRecentCommands", () => {
+  it("should keep values newest first without duplicates", async () => {
+    const recent = createRecentCommands({ storage: createMemoryStorage(), limit: 3 });
+
+    await recent.record("a");
+    await recent.record("b");
+    await recent.record("a");
+    await recent.record("c");
+
+    expect(await recent.list()).toEqual(["c", "a", "b"]);
+    expect(await recent.record("d")).toEqual(["d", "c", "a"]);
+  });
+
+  it("should persist under the given key", async () => {
+    const storage = createMemoryStorage();
+    const recent = createRecentCommands({ storage, key: "palette" });
+
+    await recent.record("theme");
+
+    expect(storage.data.get("palette")).toBe('["theme"]');
+  });
+
+  it("should work with synchronous Web Storage", async () => {
+    localStorage.clear();
+    const recent = createRecentCommands({ storage: localStorage });
+
+    await recent.record("copy");
+    await recent.remove("copy");
+    await recent.record("paste");
+
+    expect(await recent.list()).toEqual(["paste"]);
+    await recent.clear();
+    expect(await recent.list()).toEqual([]);
+  });
+
+  it("should ignore unreadable stored data", async () => {
+    const storage = createMemoryStorage();
+    storage.data.set("ds-command-recent", "{not json");
+
+    expect(await createRecentCommands({ storage }).list()).toEqual([]);
+  });
+});
@@ -284,6 +284,144 @@ describe("createRovingFocus", () => {
     expect(document.activeElement).toBe(buttons[0]);
   });
 
+  it("should make an element the tab stop without focusing it", () => {
+    const roving = createRovingFocus({
+      container,
+      selector: "button",
+    });
+
+    buttons[0].focus();
+    roving.setActiveIndex(2);
+
+    expect(document.activeElement).toBe(buttons[0]);
+    expect(buttons[2].tabIndex).toBe(0);
+    expect(roving.getFocusedIndex()).toBe(2);
+
+    roving.destroy();
+  });
+
+  it("should skip elements left out by filter", () => {
+    const roving = createRovingFocus({
+      container,
+      selector: "button",
+      direction: "vertical",
+      filter: (element) => element !== buttons[1],
+    });
+
+    roving.setFocusedIndex(0);
+    container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowDown", bubbles: true }));
+
+    expect(document.activeElement).toBe(buttons[2]);
+
+    roving.destroy();
+  });
+
+  describe("RTL", () => {
+    it("should swap ArrowLeft and ArrowRight inside a dir=rtl container", () => {
+      container.dir = "rtl";
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        direction: "horizontal",
+      });
+
+      roving.setFocusedIndex(1);
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowLeft", bubbles: true }));
+      expect(document.activeElement).toBe(buttons[2]);
+
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+      expect(document.activeElement).toBe(buttons[1]);
+
+      roving.destroy();
+      container.removeAttribute("dir");
+    });
+
+    it("should prefer the dir option over the DOM", () => {
+      container.dir = "rtl";
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        direction: "horizontal",
+        dir: "ltr",
+      });
+
+      roving.setFocusedIndex(1);
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+      expect(document.activeElement).toBe(buttons[2]);
+
+      roving.destroy();
+      container.removeAttribute("dir");
+    });
+
+    it("should not affect vertical navigation", () => {
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        direction: "vertical",
+        dir: "rtl",
+      });
+
+      roving.setFocusedIndex(1);
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowDown", bubbles: true }));
+      expect(document.activeElement).toBe(buttons[2]);
+
+      roving.destroy();
+    });
+  });
+
+  describe("getNextIndex", () => {
+    it("should move focus to the index returned for a key", () => {
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        getNextIndex: (event, current) => (event.key === "PageDown" ? current + 2 : undefined),
+      });
+
+      roving.setFocusedIndex(0);
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "PageDown", bubbles: true }));
+
+      expect(document.activeElement).toBe(buttons[2]);
+
+      roving.destroy();
+    });
+
+    it("should ignore keys when null is returned", () => {
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        getNextIndex: () => null,
+      });
+
+      roving.setFocusedIndex(0);
+      const event = new KeyboardEvent("keydown", {
+        key: "ArrowRight",
+        bubbles: true,
+        cancelable: true,
+      });
+      container.dispatchEvent(event);
+
+      expect(document.activeElement).toBe(buttons[0]);
+      expect(event.defaultPrevented).toBe(false);
+
+      roving.destroy();
+    });
+
+    it("should fall back to built-in handling for undefined", () => {
+      const roving = createRovingFocus({
+        container,
+        selector: "button",
+        getNextIndex: () => undefined,
+      });
+
+      roving.setFocusedIndex(0);
+      container.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+
+      expect(document.activeElement).toBe(buttons[1]);
+
+      roving.destroy();
+    });
+  });
+
   describe("skipDisabled", () => {
     it("should skip disabled elements when skipDisabled is true", () => {
       buttons[1].disabled = true;
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSwipeDismiss } from "../src/animation/swipe-dismiss";
+
+function pointer(element: HTMLElement, type: string, clientX: number, timeStamp?: number): void {
+  const event = new PointerEvent(type, { bubbles: true, button: 0, pointerId: 1, clientX });
+  if (timeStamp !== undefined) {
+    Object.defineProperty(event, "timeStamp", { value: timeStamp });
+  }
+  element.dispatchEvent(event);
+}
+
+function swipe(element: HTMLElement, distance: number, duration = 500): void {
+  pointer(element, "pointerdown", 0, 0);
+  pointer(element, "pointermove", distance / 2, duration / 2);
+  pointer(element, "pointermove", distance, duration);
+  pointer(element, "pointerup", distance, duration);
+}
+
+function mockReducedMotion(matches: boolean): void {
+  vi.spyOn(window, "matchMedia").mockReturnValue({ matches } as MediaQueryList);
+}
+
+describe("createSwipeDismiss", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should follow the pointer in the dismiss direction", () => {
+    mockReducedMotion(false);
+    const element = document.createElement("div");
+    createSwipeDismiss(element, { direction: "right", onDismiss: vi.fn() });
+
+    pointer(element, "pointerdown", 0, 0);
+    pointer(element, "pointermove", 30, 100);
+
+    expect(element.getAttribute("data-swipe")).toBe("move");
+    expect(element.style.getPropertyValue("--ds-swipe-x")).toBe("30px");
+  });
+
+  it("should dismiss when released past the threshold", () => {
+    mockReducedMotion(false);
+    const element = document.createElement("div");
+    const onDismiss = vi.fn();
+    createSwipeDismiss(element, { direction: "right", threshold: 50, onDismiss });
+
+    swipe(element, 80);
+
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    expect(element.getAttribute("data-swipe")).toBe("end");
+  });
+
+  it("should snap back when released short of the threshold", () => {
+    mockReducedMotion(false);
+    const element = document.createElement("div");
+    const onDismiss = vi.fn();
+    const onSwipeCancel = vi.fn();
+    createSwipeDismiss(element, { direction: "right", onDismiss, onSwipeCancel });
+
+    swipe(element, 20);
+
+    expect(onDismiss).not.toHaveBeenCalled();
+    expect(onSwipeCancel).toHaveBeenCalled();
+    expect(element.getAttribute("data-swipe")).toBe("cancel");
+    expect(element.style.getPropertyValue("--ds-swipe-x")).toBe("");
+  });
+
+  it("should ignore movement against the dismiss direction", () => {
+    mockReducedMotion(false);
+    const element = document.createElement("div");
+    const onDismiss = vi.fn();
+    createSwipeDismiss(element, { direction: "right", onDismiss });
+
+    swipe(element, -200);
+
+    expect(onDismiss).not.toHaveBeenCalled();
+    expect(element.hasAttribute("data-swipe")).toBe(false);
+  });
+
+  it("should dismiss on a fast flick", () => {
+    mockReducedMotion(false);
+    const element = document.createElement("div");
+    const onDismiss = vi.fn();
+    createSwipeDismiss(element, { direction: "left", threshold: 100, onDismiss });
+
+    swipe(element, -40, 40);
+
+    expect(onDismiss).toHaveBeenCalled();
+  });
+
+  it("should not move the element with reduced motion", () => {
+    mockReducedMotion(true);
+    const element = document.createElement("div");
+    const onDismiss = vi.fn();
+    createSwipeDismiss(element, { direction: "right", onDismiss });
+
+    swipe(element, 80);
+
+    expect(element.style.getPropertyValue("--ds-swipe-x")).toBe("");
+    expect(onDismiss).toHaveBeenCalled();
+  });
+});
@@ -227,4 +227,21 @@ describe("createTypeAhead", () => {
     // Should skip empty item and match Apple
     expect(onMatch).toHaveBeenCalledWith(items[0], 1);
   });
+
+  it("should match items that are data rather than elements", () => {
+    const rows = [
+      { id: "a", label: "Apple" },
+      { id: "c", label: "Cherry" },
+    ];
+    const onRowMatch = vi.fn();
+    const typeAhead = createTypeAhead({
+      items: () => rows,
+      getText: (row) => row.label,
+      onMatch: onRowMatch,
+    });
+
+    typeAhead.handleKeyDown(new KeyboardEvent("keydown", { key: "c" }));
+
+    expect(onRowMatch).toHaveBeenCalledWith(rows[1], 1);
+  });
 });
@@ -0,0 +1,356 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type FileInfo, createFileUploadBehavior } from "../src/behavior/file-upload.js";
+import { createMockUploadServer } from "../src/upload/mock-upload-server.js";
+import {
+  type UploadTransport,
+  createHttpTransport,
+  createUploadFailure,
+  isRetryableUploadError,
+} from "../src/upload/transport.js";
+import { createTusTransport } from "../src/upload/tus-transport.js";
+import { type UploadStatus, createUploadQueue } from "../src/upload/upload-queue.js";
+
+function makeFile(size: number, name = "report.pdf"): File {
+  return new File([new Uint8Array(size)], name, { type: "application/pdf", lastModified: 1 });
+}
+
+/** Flushes the promise chains of in-flight uploads */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+}
+
+describe("isRetryableUploadError", () => {
+  it("retries network and server errors but not client errors or aborts", () => {
+    const abort = new Error("aborted");
+    abort.name = "AbortError";
+
+    expect(isRetryableUploadError(createUploadFailure("network"))).toBe(true);
+    expect(isRetryableUploadError(createUploadFailure("server", 503))).toBe(true);
+    expect(isRetryableUploadError(createUploadFailure("rate limited", 429))).toBe(true);
+    expect(isRetryableUploadError(createUploadFailure("forbidden", 403))).toBe(false);
+    expect(isRetryableUploadError(abort)).toBe(false);
+  });
+});
+
+describe("createHttpTransport", () => {
+  it("posts the file and resolves with the parsed response", async () => {
+    const server = createMockUploadServer();
+    const transport = createHttpTransport({ url: "/api/upload", fetch: server.fetch });
+    const onProgress = vi.fn();
+
+    const response = await transport.upload({
+      file: makeFile(10),
+      signal: new AbortController().signal,
+      onProgress,
+    });
+
+    expect(response).toEqual({ url: "https://uploads.test/files/1", size: 10 });
+    expect(server.requests).toEqual([{ method: "POST", url: "/api/upload" }]);
+    expect(onProgress).toHaveBeenLastCalledWith(10, 10);
+  });
+
+  it("rejects with the HTTP status", async () => {
+    const server = createMockUploadServer();
+    server.failNext(1, 413);
+    const transport = createHttpTransport({ url: "/api/upload", fetch: server.fetch });
+
+    await expect(
+      transport.upload({
+        file: makeFile(10),
+        signal: new AbortController().signal,
+        onProgress: () => {},
+      })
+    ).rejects.toMatchObject({ status: 413 });
+  });
+});
+
+describe("createTusTransport", () => {
+  it("creates the upload and sends it in chunks", async () => {
+    const server = createMockUploadServer();
+    const transport = createTusTransport({
+      endpoint: "https://uploads.test/files",
+      chunkSize: 4,
+      fetch: server.fetch,
+    });
+    const onProgress = vi.fn();
+
+    const result = await transport.upload({
+      file: makeFile(10),
+      signal: new AbortController().signal,
+      onProgress,
+    });
+
+    expect(result).toEqual({ url: "https://uploads.test/files/1" });
+    expect(server.requests.map((request) => request.method)).toEqual([
+      "POST",
+      "PATCH",
+      "PATCH",
+      "PATCH",
+    ]);
+    expect(server.uploads.get("https://uploads.test/files/1")).toMatchObject({
+      length: 10,
+      offset: 10,
+      metadata: { filename: "report.pdf", filetype: "application/pdf" },
+    });
+    expect(onProgress.mock.calls.map(([loaded]) => loaded)).toEqual([0, 4, 8, 10]);
+  });
+
+  it("resumes from the stored upload after a failure", async () => {
+    const server = createMockUploadServer();
+    const stored = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+      removeItem: (key: string) => void stored.delete(key),
+    };
+    const request = {
+      file: makeFile(10),
+      signal: new AbortController().signal,
+      onProgress: () => {},
+    };
+
+    // Creation and the first chunk succeed, the second chunk fails
+    let calls = 0;
+    const first = createTusTransport({
+      endpoint: "https://uploads.test/files",
+      chunkSize: 4,
+      storage,
+      fetch: (url, init) => {
+        if (++calls === 3) server.failNext(1);
+        return server.fetch(url, init);
+      },
+    });
+    await expect(first.upload(request)).rejects.toMatchObject({ status: 500 });
+    expect(stored.size).toBe(1);
+
+    // A new transport, as after a page load, picks up where it stopped
+    server.requests.length = 0;
+    const second = createTusTransport({
+      endpoint: "https://uploads.test/files",
+      chunkSize: 4,
+      storage,
+      fetch: server.fetch,
+    });
+    await second.upload(request);
+
+    expect(server.requests.map((r) => r.method)).toEqual(["HEAD", "PATCH", "PATCH"]);
+    expect(server.uploads.get("https://uploads.test/files/1")?.offset).toBe(10);
+    expect(stored.size).toBe(0);
+  });
+});
+
+describe("createUploadQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Transport whose uploads settle when the test says so */
+  function createManualTransport() {
+    const pending: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+    const transport: UploadTransport = {
+      upload: ({ signal }) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("aborted")));
+          pending.push({ resolve: () => resolve("ok"), reject });
+        }),
+    };
+    return { transport, pending };
+  }
+
+  it("limits concurrent uploads", async () => {
+    const { transport, pending } = createManualTransport();
+    const statuses = new Map<string, UploadStatus>();
+    const queue = createUploadQueue({
+      transport,
+      concurrency: 2,
+      onStatusChange: (id, status) => statuses.set(id, status),
+    });
+
+    queue.add("a", makeFile(1));
+    queue.add("b", makeFile(1));
+    queue.add("c", makeFile(1));
+
+    expect(pending).toHaveLength(2);
+    expect(statuses.get("c")).toBeUndefined();
+
+    pending[0]?.resolve();
+    await flush();
+
+    expect(statuses.get("a")).toBe("success");
+    expect(statuses.get("c")).toBe("uploading");
+    expect(pending).toHaveLength(3);
+  });
+
+  it("retries with exponential backoff", async () => {
+    const { transport, pending } = createManualTransport();
+    const onStatusChange = vi.fn();
+    const queue = createUploadQueue({ transport, retries: 2, retryDelay: 100, onStatusChange });
+
+    queue.add("a", makeFile(1));
+    pending[0]?.reject(createUploadFailure("server", 500));
+    await flush();
+
+    vi.advanceTimersByTime(99);
+    expect(pending).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    await flush();
+    expect(pending).toHaveLength(2);
+
+    pending[1]?.reject(createUploadFailure("server", 500));
+    await flush();
+    vi.advanceTimersByTime(200);
+    await flush();
+    expect(pending).toHaveLength(3);
+
+    pending[2]?.reject(createUploadFailure("server", 500));
+    await flush();
+    expect(onStatusChange).toHaveBeenLastCalledWith("a", "error", expect.any(Error));
+  });
+
+  it("cancels and retries an upload", async () => {
+    const { transport, pending } = createManualTransport();
+    const queue = createUploadQueue({ transport, concurrency: 1 });
+
+    queue.add("a", makeFile(1));
+    queue.add("b", makeFile(1));
+    queue.cancel("a");
+    await flush();
+
+    expect(queue.getStatus("a")).toBe("canceled");
+    expect(queue.getStatus("b")).toBe("uploading");
+
+    queue.retry("a");
+    expect(queue.getStatus("a")).toBe("pending");
+
+    pending[1]?.resolve();
+    await flush();
+    expect(queue.getStatus("a")).toBe("uploading");
+  });
+
+  it("updates settings without interrupting running uploads", async () => {
+    const first = createManualTransport();
+    const second = createManualTransport();
+    const queue = createUploadQueue({ transport: first.transport, concurrency: 1 });
+
+    queue.add("a", makeFile(1));
+    queue.add("b", makeFile(1));
+    queue.setOptions({ transport: second.transport, concurrency: 2 });
+
+    expect(queue.getStatus("a")).toBe("uploading");
+    expect(queue.getStatus("b")).toBe("uploading");
+    expect(first.pending).toHaveLength(1);
+    expect(second.pending).toHaveLength(1);
+
+    first.pending[0]?.resolve();
+    await flush();
+    expect(queue.getStatus("a")).toBe("success");
+  });
+});
+
+describe("createFileUploadBehavior with a transport", () => {
+  it("uploads added files and reports progress and status", async () => {
+    const server = createMockUploadServer();
+    const onFileUpdate = vi.fn();
+    const onUploadSuccess = vi.fn();
+    const behavior = createFileUploadBehavior({
+      multiple: true,
+      transport: createTusTransport({
+        endpoint: "https://uploads.test/files",
+        chunkSize: 4,
+        fetch: server.fetch,
+      }),
+      onFileUpdate,
+      onUploadSuccess,
+    });
+
+    behavior.addFiles([makeFile(8)]);
+    await vi.waitFor(() => expect(behavior.state.files[0]?.status).toBe("success"));
+
+    expect(behavior.state.files[0]?.progress).toBe(100);
+    expect(onFileUpdate.mock.calls.map(([file]) => file.progress)).toContain(50);
+    expect(onUploadSuccess).toHaveBeenCalledWith(behavior.state.files[0], {
+      url: "https://uploads.test/files/1",
+    });
+  });
+
+  it("marks a file as failed with a message after its retries", async () => {
+    const server = createMockUploadServer();
+    server.failNext(1, 400);
+    const behavior = createFileUploadBehavior({
+      transport: createHttpTransport({ url: "/api/upload", fetch: server.fetch }),
+    });
+
+    behavior.addFiles([makeFile(8)]);
+    await vi.waitFor(() => expect(behavior.state.files[0]?.status).toBe("error"));
+    expect(behavior.state.files[0]?.error).toBe("Upload failed");
+
+    behavior.retryUpload(behavior.state.files[0]?.id ?? "");
+    await vi.waitFor(() => expect(behavior.state.files[0]?.status).toBe("success"));
+  });
+
+  it("restarts uploads carried over from a previous behavior", async () => {
+    const server = createMockUploadServer();
+    const transport = createHttpTransport({ url: "/api/upload", fetch: server.fetch });
+    const file = makeFile(8);
+    const files: FileInfo[] = [
+      { file, id: "a", name: "a", size: 8, type: "", progress: 40, status: "uploading" },
+      {
+        file,
+        id: "b",
+        name: "b",
+        size: 8,
+        type: "",
+        progress: 0,
+        status: "error",
+        error: "Failed",
+      },
+      { file, id: "c", name: "c", size: 8, type: "", progress: 100, status: "success" },
+    ];
+    const behavior = createFileUploadBehavior({ multiple: true, transport, files });
+
+    await vi.waitFor(() => expect(behavior.state.files[0]?.status).toBe("success"));
+    expect(behavior.state.files.map((f) => f.status)).toEqual(["success", "error", "success"]);
+
+    behavior.retryUpload("b");
+    await vi.waitFor(() => expect(behavior.state.files[1]?.status).toBe("success"));
+  });
+
+  it("keeps files and uploads when options change", async () => {
+    const server = createMockUploadServer();
+    const behavior = createFileUploadBehavior({ multiple: true, autoUpload: false });
+
+    behavior.addFiles([makeFile(8)]);
+    behavior.setOptions({
+      transport: createHttpTransport({ url: "/api/upload", fetch: server.fetch }),
+      accept: ".pdf",
+      maxSize: 100,
+    });
+    behavior.upload();
+    behavior.setOptions({ retries: 5, maxSize: undefined });
+
+    await vi.waitFor(() => expect(behavior.state.files[0]?.status).toBe("success"));
+    expect(behavior.state).toMatchObject({ accept: ".pdf", maxSize: null });
+  });
+
+  it("keeps interrupted uploads pending without a transport", () => {
+    const behavior = createFileUploadBehavior({
+      files: [
+        {
+          file: makeFile(8),
+          id: "a",
+          name: "a",
+          size: 8,
+          type: "",
+          progress: 40,
+          status: "uploading",
+        },
+      ],
+    });
+
+    expect(behavior.state.files[0]).toMatchObject({ status: "pending", progress: 0 });
+  });
+});
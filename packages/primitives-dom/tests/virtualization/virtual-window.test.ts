@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { createVirtualWindow } from "../../src/virtualization/virtual-window";
+
+describe("createVirtualWindow", () => {
+  describe("range calculation", () => {
+    it("should mount visible items plus overscan", () => {
+      const virtual = createVirtualWindow({ count: 1000, estimateSize: 50, overscan: 2 });
+
+      const range = virtual.getRange(500, 200);
+
+      // Items 10-13 are visible, plus 2 overscan on each side
+      expect(range.start).toBe(8);
+      expect(range.end).toBe(16);
+      expect(range.offsetBefore).toBe(400);
+      expect(range.offsetAfter).toBe(50_000 - 800);
+      expect(range.totalSize).toBe(50_000);
+    });
+
+    it("should clamp the range at the start and end of the list", () => {
+      const virtual = createVirtualWindow({ count: 20, estimateSize: 10, overscan: 5 });
+
+      expect(virtual.getRange(0, 50)).toMatchObject({ start: 0, end: 10, offsetBefore: 0 });
+      expect(virtual.getRange(150, 50)).toMatchObject({ start: 10, end: 20, offsetAfter: 0 });
+    });
+
+    it("should return an empty range for an empty list", () => {
+      const virtual = createVirtualWindow({ count: 0, estimateSize: 48 });
+
+      expect(virtual.getRange(0, 400)).toEqual({
+        start: 0,
+        end: 0,
+        offsetBefore: 0,
+        offsetAfter: 0,
+        totalSize: 0,
+      });
+    });
+
+    it("should follow count changes", () => {
+      const virtual = createVirtualWindow({ count: 10, estimateSize: 10 });
+      virtual.setCount(100);
+
+      expect(virtual.getCount()).toBe(100);
+      expect(virtual.getTotalSize()).toBe(1000);
+    });
+  });
+
+  describe("measurement caching", () => {
+    it("should use measured sizes for offsets", () => {
+      const virtual = createVirtualWindow({ count: 5, estimateSize: 10 });
+
+      expect(virtual.measure(1, 30)).toBe(true);
+
+      expect(virtual.getOffset(2)).toBe(40);
+      expect(virtual.getTotalSize()).toBe(70);
+    });
+
+    it("should report unchanged measurements", () => {
+      const virtual = createVirtualWindow({ count: 5, estimateSize: 10 });
+
+      virtual.measure(0, 20);
+      expect(virtual.measure(0, 20)).toBe(false);
+      expect(virtual.measure(10, 20)).toBe(false);
+      expect(virtual.measure(0, 0)).toBe(false);
+    });
+
+    it("should cache measurements by item key", () => {
+      let keys = ["a", "b", "c"];
+      const virtual = createVirtualWindow({
+        count: 3,
+        estimateSize: 10,
+        getItemKey: (index) => keys[index] as string,
+      });
+
+      virtual.measure(0, 40);
+      keys = ["c", "b", "a"];
+
+      expect(virtual.getSize(2)).toBe(40);
+    });
+
+    it("should drop measurements on reset", () => {
+      const virtual = createVirtualWindow({ count: 2, estimateSize: 10 });
+      virtual.measure(0, 40);
+      virtual.reset();
+
+      expect(virtual.getTotalSize()).toBe(20);
+    });
+  });
+
+  describe("scroll to index", () => {
+    it("should keep the offset when the item is already visible", () => {
+      const virtual = createVirtualWindow({ count: 100, estimateSize: 20 });
+
+      expect(virtual.getScrollOffsetForIndex(12, 100, 200)).toBe(200);
+    });
+
+    it("should scroll the minimum distance for nearest alignment", () => {
+      const virtual = createVirtualWindow({ count: 100, estimateSize: 20 });
+
+      expect(virtual.getScrollOffsetForIndex(5, 100, 200)).toBe(100);
+      expect(virtual.getScrollOffsetForIndex(30, 100, 200)).toBe(520);
+    });
+
+    it("should support start, center and end alignment", () => {
+      const virtual = createVirtualWindow({ count: 100, estimateSize: 20 });
+
+      expect(virtual.getScrollOffsetForIndex(50, 100, 0, "start")).toBe(1000);
+      expect(virtual.getScrollOffsetForIndex(50, 100, 0, "center")).toBe(960);
+      expect(virtual.getScrollOffsetForIndex(50, 100, 0, "end")).toBe(920);
+      expect(virtual.getScrollOffsetForIndex(99, 100, 0, "start")).toBe(1900);
+    });
+  });
+});
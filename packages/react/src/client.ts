@@ -138,13 +138,26 @@ export { Calendar } from "./components/calendar/index.js";
 export type { CalendarProps, CalendarSize } from "./components/calendar/index.js";
 
 // DataTable component
-export { DataTable } from "./components/data-table/index.js";
+export { DataTable, DataTableBody } from "./components/data-table/index.js";
 export type {
   DataTableProps,
+  DataTableBodyProps,
   DataTableColumn,
   DataTableSort,
   DataTablePagination,
   DataTableSortDirection,
+  DataTableColumnState,
+  DataTableColumnStateReason,
+  DataTablePinSide,
+  DataTableEditorType,
+  DataTableEditorOption,
+  DataTableValidationResult,
+  DataTableCellEditSource,
+  DataTableCellEditDetail,
+  DataTableAggregate,
+  DataTableAggregateFunction,
+  DataTableExpandChangeDetail,
+  DataTableExpandKind,
 } from "./components/data-table/index.js";
 
 export type {
@@ -152,19 +165,29 @@ export type {
   ToastVariant,
   ToastPosition,
   ToastOptions,
+  ToastContent,
+  ToastPromiseOptions,
+  ToastFunction,
   UseToastReturn,
 } from "./components/toast/index.js";
 
 // Field components
 export { Field, type FieldProps } from "./components/field/field.js";
 export { Label, type LabelProps } from "./components/field/label.js";
-export { FieldDescription, type FieldDescriptionProps } from "./components/field/field-description.js";
+export {
+  FieldDescription,
+  type FieldDescriptionProps,
+} from "./components/field/field-description.js";
 export { FieldError, type FieldErrorProps } from "./components/field/field-error.js";
 
 // Form controls
 export { Textarea, type TextareaProps, type TextareaSize } from "./components/textarea.js";
 export { Checkbox, type CheckboxProps } from "./components/checkbox.js";
-export { RadioGroup, type RadioGroupProps, type RadioOrientation } from "./components/radio-group.js";
+export {
+  RadioGroup,
+  type RadioGroupProps,
+  type RadioOrientation,
+} from "./components/radio-group.js";
 export { Radio, type RadioProps } from "./components/radio.js";
 export { Switch, type SwitchProps } from "./components/switch.js";
 
@@ -216,6 +239,10 @@ export { FileUpload, formatBytes } from "./components/file-upload/index.js";
 // TimePicker compound component
 export { TimePicker } from "./components/time-picker/index.js";
 
+// DateTimePicker component
+export { DateTimePicker } from "./components/date-time-picker/index.js";
+export type { DateTimePickerProps } from "./components/date-time-picker/index.js";
+
 // PinInput compound component
 export { PinInput } from "./components/pin-input/index.js";
 
@@ -279,13 +306,18 @@ export {
 export {
   ThemeProvider,
   DensityProvider,
+  DirectionProvider,
   useTheme,
   useThemeState,
   useColorMode,
   useDensity,
   useDensityContext,
+  useDirection,
 } from "./theme/index.js";
 
+// Localization (client-only: provider and hooks)
+export { LocaleProvider, useLocale, useMessages } from "./i18n/index.js";
+
 // EmptyState compound component
 export {
   EmptyState,
@@ -308,6 +340,9 @@ export {
   useConditionalId,
 } from "./hooks/index.js";
 
+// Form state, validation and submission
+export { useForm } from "./hooks/index.js";
+
 // Error boundary
 export {
   ErrorBoundary,
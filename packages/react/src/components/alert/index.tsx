@@ -7,6 +7,7 @@
  */
 
 import { type HTMLAttributes, type ReactNode, forwardRef, useCallback } from "react";
+import { useMessages } from "../../i18n/index.js";
 
 export type AlertVariant = "info" | "success" | "warning" | "error";
 
@@ -122,6 +123,7 @@ export const Alert = forwardRef<HTMLDivElement, AlertProps>(
     ref
   ) => {
     const role = getRole(variant);
+    const t = useMessages();
 
     const handleClose = useCallback(() => {
       onClose?.();
@@ -163,7 +165,7 @@ export const Alert = forwardRef<HTMLDivElement, AlertProps>(
           <button
             className="ds-alert__close"
             type="button"
-            aria-label="Dismiss alert"
+            aria-label={t("alert.dismiss")}
             onClick={handleClose}
           >
             {CLOSE_ICON}
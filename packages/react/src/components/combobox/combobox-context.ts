@@ -2,7 +2,7 @@
  * Combobox context for compound component pattern.
  */
 
-import type { ComboboxBehavior, Option } from "@hypoth-ui/primitives-dom";
+import type { ComboboxBehavior, MatchRange, Option } from "@hypoth-ui/primitives-dom";
 import { createCompoundContext } from "../../utils/create-context.js";
 
 export interface ComboboxContextValue<Multi extends boolean = false> {
@@ -26,8 +26,10 @@ export interface ComboboxContextValue<Multi extends boolean = false> {
   setHighlightedValue: (value: string | null) => void;
   /** Whether multi-select mode */
   multiple: Multi;
-  /** Filtered options */
+  /** Filtered options, best match first */
   filteredOptions: Option<string>[];
+  /** Matched ranges of an option's label for the current query */
+  getMatchRanges: (value: string) => MatchRange[];
   /** Loading state */
   loading: boolean;
 }
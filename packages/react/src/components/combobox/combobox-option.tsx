@@ -2,6 +2,7 @@
  * Combobox Option component - individual option in the combobox.
  */
 
+import { getHighlightSegments } from "@hypoth-ui/primitives-dom";
 import { type HTMLAttributes, type ReactNode, forwardRef, useCallback } from "react";
 import { useComboboxContext } from "./combobox-context.js";
 
@@ -12,7 +13,7 @@ export interface ComboboxOptionProps extends Omit<HTMLAttributes<HTMLDivElement>
   label?: string;
   /** Whether the option is disabled */
   disabled?: boolean;
-  /** Option content */
+  /** Option content. Plain text children highlight the characters matched by the query. */
   children?: ReactNode;
 }
 
@@ -39,8 +40,15 @@ export const ComboboxOption = forwardRef<HTMLDivElement, ComboboxOptionProps>(
     },
     ref
   ) => {
-    const { behavior, value, highlightedValue, setHighlightedValue, setOpen, multiple } =
-      useComboboxContext("Combobox.Option");
+    const {
+      behavior,
+      value,
+      highlightedValue,
+      setHighlightedValue,
+      setOpen,
+      multiple,
+      getMatchRanges,
+    } = useComboboxContext("Combobox.Option");
 
     const isSelected = multiple ? (value as string[]).includes(optionValue) : value === optionValue;
     const isHighlighted = highlightedValue === optionValue;
@@ -90,7 +98,18 @@ export const ComboboxOption = forwardRef<HTMLDivElement, ComboboxOptionProps>(
         onMouseEnter={handleMouseEnter}
         {...restProps}
       >
-        {children}
+        {typeof children === "string" && (!label || label === children)
+          ? getHighlightSegments(children, getMatchRanges(optionValue)).map((segment, index) =>
+              segment.match ? (
+                // biome-ignore lint/suspicious/noArrayIndexKey: segments are positional
+                <mark key={index} className="ds-combobox-option__match">
+                  {segment.text}
+                </mark>
+              ) : (
+                segment.text
+              )
+            )
+          : children}
       </div>
     );
   }
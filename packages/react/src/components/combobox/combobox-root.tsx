@@ -2,7 +2,14 @@
  * Combobox Root component - provides context to all Combobox compound components.
  */
 
-import { type Option, type Placement, createComboboxBehavior } from "@hypoth-ui/primitives-dom";
+import {
+  type FilterFunction,
+  type MatchRange,
+  type Option,
+  type Placement,
+  createComboboxBehavior,
+  rankItems,
+} from "@hypoth-ui/primitives-dom";
 import { type ReactNode, useCallback, useMemo, useState } from "react";
 import { ComboboxProvider } from "./combobox-context.js";
 
@@ -33,6 +40,8 @@ export interface ComboboxRootProps<Multi extends boolean = false> {
   loadItems?: (query: string) => Promise<Option<string>[]>;
   /** Static items */
   items?: Option<string>[];
+  /** Custom matcher for static items; defaults to ranked fuzzy matching */
+  filter?: FilterFunction;
   /** Debounce delay for async (ms) */
   debounce?: number;
   /** Virtualization threshold */
@@ -76,6 +85,7 @@ export function ComboboxRoot<Multi extends boolean = false>({
   onCreateValue,
   loadItems,
   items: staticItems = [],
+  filter,
   debounce = 300,
   virtualizationThreshold = 100,
   placement: _placement = "bottom-start",
@@ -109,6 +119,9 @@ export function ComboboxRoot<Multi extends boolean = false>({
   // Filtered options
   const [filteredOptions, setFilteredOptions] = useState<Option<string>[]>(staticItems);
 
+  // Label match ranges of the filtered options, keyed by value
+  const [matchRanges, setMatchRanges] = useState<Map<string, MatchRange[]>>(() => new Map());
+
   // Loading state
   const [loading, _setLoading] = useState(false);
 
@@ -151,25 +164,34 @@ export function ComboboxRoot<Multi extends boolean = false>({
         onCreateValue,
         loadItems,
         items: staticItems,
+        filter,
         debounce,
         virtualizationThreshold,
         disabled,
         onValueChange: (v) => setValue(v as Multi extends true ? string[] : string | null),
         onInputChange: (query) => {
           setInputValue(query);
-          // Filter static items if no async loader
+          // Filter and rank static items if no async loader
           if (!loadItems) {
-            const lowerQuery = query.toLowerCase();
-            const filtered = staticItems.filter((item) =>
-              item.label.toLowerCase().includes(lowerQuery)
+            const ranked = rankItems(
+              staticItems,
+              query,
+              (item) => ({ text: item.label, keywords: item.keywords }),
+              filter
             );
-            setFilteredOptions(filtered);
+            setFilteredOptions(ranked.map((result) => result.item));
+            setMatchRanges(new Map(ranked.map((result) => [result.item.value, result.ranges])));
           }
         },
       }),
     []
   );
 
+  const getMatchRanges = useCallback(
+    (optionValue: string) => matchRanges.get(optionValue) ?? [],
+    [matchRanges]
+  );
+
   const contextValue = useMemo(
     () => ({
       behavior: behavior as unknown as typeof behavior,
@@ -183,6 +205,7 @@ export function ComboboxRoot<Multi extends boolean = false>({
       setHighlightedValue,
       multiple,
       filteredOptions,
+      getMatchRanges,
       loading,
     }),
     [
@@ -195,6 +218,7 @@ export function ComboboxRoot<Multi extends boolean = false>({
       setInputValue,
       highlightedValue,
       filteredOptions,
+      getMatchRanges,
       loading,
       multiple,
     ]
@@ -16,8 +16,29 @@
  *   </Command.List>
  * </Command.Root>
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Global palette on Cmd/Ctrl+K with a drill-down page
+ * <Command.Dialog>
+ *   <Command.Root recentStorage={localStorage} onSelect={run}>
+ *     <Command.Input />
+ *     <Command.List>
+ *       <Command.Item value="theme" page="theme">Change theme…</Command.Item>
+ *       <Command.Page name="theme" heading="Theme">
+ *         <Command.Item value="theme-dark">Dark</Command.Item>
+ *       </Command.Page>
+ *     </Command.List>
+ *   </Command.Root>
+ * </Command.Dialog>
+ * ```
  */
 
+import type {
+  CommandSource,
+  FilterFunction,
+  RecentCommandsStorage,
+} from "@hypoth-ui/primitives-dom";
 import {
   type HTMLAttributes,
   type ReactNode,
@@ -33,6 +54,27 @@ import {
 // Types
 // ============================================================================
 
+/**
+ * An item returned by a command source.
+ */
+export interface CommandSourceItem {
+  value: string;
+  label: string;
+  keywords?: string[];
+  /** Name of the page the item opens */
+  page?: string;
+  disabled?: boolean;
+}
+
+/**
+ * An async provider rendered as its own group, with its own loading state.
+ */
+export interface CommandPaletteSource extends CommandSource<CommandSourceItem> {
+  heading: string;
+  /** Page the source belongs to; root when omitted */
+  page?: string;
+}
+
 export interface CommandRootProps extends Omit<HTMLAttributes<HTMLElement>, "onSelect"> {
   children?: ReactNode;
   value?: string;
@@ -40,8 +82,22 @@ export interface CommandRootProps extends Omit<HTMLAttributes<HTMLElement>, "onS
   onValueChange?: (value: string) => void;
   onSelect?: (value: string) => void;
   loading?: boolean;
-  filter?: boolean;
+  /**
+   * Built-in ranked fuzzy filtering (`true`), a custom matcher, or `false`
+   * to filter externally.
+   */
+  filter?: boolean | FilterFunction;
   label?: string;
+  /** Async result providers, each rendered as a group */
+  sources?: CommandPaletteSource[];
+  /** Delay in milliseconds before querying sources after typing */
+  sourceDebounce?: number;
+  /** Storage for recently selected commands, such as `localStorage` */
+  recentStorage?: RecentCommandsStorage;
+  recentKey?: string;
+  recentLimit?: number;
+  /** Called when a page is opened or closed */
+  onPageChange?: (page: string | null, pages: string[]) => void;
 }
 
 export interface CommandInputProps extends HTMLAttributes<HTMLElement> {
@@ -58,10 +114,35 @@ export interface CommandItemProps extends Omit<HTMLAttributes<HTMLElement>, "onS
   children?: ReactNode;
   value?: string;
   keywords?: string;
+  /** Name of the `Command.Page` this item opens instead of selecting */
+  page?: string;
   disabled?: boolean;
   onSelect?: (value: string) => void;
 }
 
+export interface CommandPageProps extends HTMLAttributes<HTMLElement> {
+  children?: ReactNode;
+  /** Name referenced by the `page` prop of the items that open it */
+  name: string;
+  /** Breadcrumb text. Defaults to the name. */
+  heading?: string;
+}
+
+export interface CommandDialogProps extends HTMLAttributes<HTMLElement> {
+  children?: ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  /**
+   * Shortcut that toggles the palette ("mod" is ⌘ on macOS, Ctrl elsewhere).
+   * Pass an empty string to disable.
+   * @default "mod+k"
+   */
+  hotkey?: string;
+  /** @default true */
+  closeOnSelect?: boolean;
+  label?: string;
+}
+
 export interface CommandGroupProps extends HTMLAttributes<HTMLElement> {
   children?: ReactNode;
   heading?: string;
@@ -92,6 +173,12 @@ const CommandRoot = forwardRef<HTMLElement, CommandRootProps>(function CommandRo
     loading,
     filter = true,
     label,
+    sources,
+    sourceDebounce,
+    recentStorage,
+    recentKey,
+    recentLimit,
+    onPageChange,
     ...props
   },
   ref
@@ -124,16 +211,47 @@ const CommandRoot = forwardRef<HTMLElement, CommandRootProps>(function CommandRo
     [onSelect]
   );
 
+  const handlePageChange = useCallback(
+    (event: Event) => {
+      const e = event as CustomEvent<{ page: string | null; pages: string[] }>;
+      onPageChange?.(e.detail.page, e.detail.pages);
+    },
+    [onPageChange]
+  );
+
   useEffect(() => {
     const element = elementRef.current;
     if (!element) return;
     element.addEventListener("ds:value-change", handleValueChange);
     element.addEventListener("ds:select", handleSelect);
+    element.addEventListener("ds:page-change", handlePageChange);
     return () => {
       element.removeEventListener("ds:value-change", handleValueChange);
       element.removeEventListener("ds:select", handleSelect);
+      element.removeEventListener("ds:page-change", handlePageChange);
     };
-  }, [handleValueChange, handleSelect]);
+  }, [handleValueChange, handleSelect, handlePageChange]);
+
+  // Functions can't be passed as attributes; set the property directly
+  useEffect(() => {
+    const element = elementRef.current as (HTMLElement & { filter: typeof filter }) | null;
+    if (element) {
+      element.filter = filter;
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    const element = elementRef.current as
+      | (HTMLElement & {
+          sources: CommandPaletteSource[];
+          recentStorage?: RecentCommandsStorage;
+        })
+      | null;
+    if (element) {
+      element.sources = sources ?? [];
+      element.recentStorage = recentStorage;
+    }
+  }, [sources, recentStorage]);
 
   return createElement(
     "ds-command",
@@ -142,8 +260,11 @@ const CommandRoot = forwardRef<HTMLElement, CommandRootProps>(function CommandRo
       class: className,
       value,
       loading: loading || undefined,
-      filter: filter || undefined,
+      filter: filter === true || undefined,
       label,
+      "source-debounce": sourceDebounce,
+      "recent-key": recentKey,
+      "recent-limit": recentLimit,
       ...props,
     },
     children
@@ -175,7 +296,7 @@ const CommandList = forwardRef<HTMLElement, CommandListProps>(function CommandLi
 CommandList.displayName = "Command.List";
 
 const CommandItem = forwardRef<HTMLElement, CommandItemProps>(function CommandItem(
-  { children, className, value, keywords, disabled, onSelect, ...props },
+  { children, className, value, keywords, page, disabled, onSelect, ...props },
   ref
 ) {
   const elementRef = useRef<HTMLElement>(null);
@@ -208,6 +329,7 @@ const CommandItem = forwardRef<HTMLElement, CommandItemProps>(function CommandIt
       class: className,
       value,
       keywords,
+      page,
       disabled: disabled || undefined,
       ...props,
     },
@@ -216,6 +338,18 @@ const CommandItem = forwardRef<HTMLElement, CommandItemProps>(function CommandIt
 });
 CommandItem.displayName = "Command.Item";
 
+const CommandPage = forwardRef<HTMLElement, CommandPageProps>(function CommandPage(
+  { children, className, name, heading, ...props },
+  ref
+) {
+  return createElement(
+    "ds-command-page",
+    { ref, class: className, name, heading, ...props },
+    children
+  );
+});
+CommandPage.displayName = "Command.Page";
+
 const CommandGroup = forwardRef<HTMLElement, CommandGroupProps>(function CommandGroup(
   { children, className, heading, ...props },
   ref
@@ -252,6 +386,58 @@ const CommandLoading = forwardRef<HTMLElement, CommandLoadingProps>(function Com
 });
 CommandLoading.displayName = "Command.Loading";
 
+const CommandDialog = forwardRef<HTMLElement, CommandDialogProps>(function CommandDialog(
+  { children, className, open, onOpenChange, hotkey, closeOnSelect = true, label, ...props },
+  ref
+) {
+  const elementRef = useRef<HTMLElement>(null);
+
+  const combinedRef = (node: HTMLElement | null) => {
+    (elementRef as React.MutableRefObject<HTMLElement | null>).current = node;
+    if (typeof ref === "function") ref(node);
+    else if (ref) (ref as React.MutableRefObject<HTMLElement | null>).current = node;
+  };
+
+  const handleOpenChange = useCallback(
+    (event: Event) => {
+      if ((event.target as Element).localName !== "ds-dialog") return;
+      const e = event as CustomEvent<{ open: boolean }>;
+      onOpenChange?.(e.detail.open);
+    },
+    [onOpenChange]
+  );
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    element.addEventListener("ds:open-change", handleOpenChange);
+    return () => element.removeEventListener("ds:open-change", handleOpenChange);
+  }, [handleOpenChange]);
+
+  // Boolean attributes can't express false; set the property directly
+  useEffect(() => {
+    const element = elementRef.current as (HTMLElement & { closeOnSelect: boolean }) | null;
+    if (element) {
+      element.closeOnSelect = closeOnSelect;
+    }
+  }, [closeOnSelect]);
+
+  // Render the dialog parts so the element doesn't move React-owned children
+  return createElement(
+    "ds-command-dialog",
+    {
+      ref: combinedRef,
+      class: className,
+      open: open || undefined,
+      hotkey,
+      label,
+      ...props,
+    },
+    createElement("ds-dialog", null, createElement("ds-dialog-content", null, children))
+  );
+});
+CommandDialog.displayName = "Command.Dialog";
+
 // ============================================================================
 // Compound Component
 // ============================================================================
@@ -265,6 +451,8 @@ export const Command = {
   Separator: CommandSeparator,
   Empty: CommandEmpty,
   Loading: CommandLoading,
+  Page: CommandPage,
+  Dialog: CommandDialog,
 };
 
 export {
@@ -276,4 +464,6 @@ export {
   CommandSeparator,
   CommandEmpty,
   CommandLoading,
+  CommandPage,
+  CommandDialog,
 };
@@ -39,6 +39,8 @@ import {
 
 export type ContextMenuItemVariant = "default" | "destructive";
 
+export type ContextMenuSubPlacement = "right-start" | "left-start" | "end-start" | "start-start";
+
 export interface ContextMenuRootProps extends HTMLAttributes<HTMLElement> {
   /** Content */
   children?: ReactNode;
@@ -80,6 +82,33 @@ export interface ContextMenuLabelProps extends HTMLAttributes<HTMLElement> {
   children?: ReactNode;
 }
 
+export interface ContextMenuSubProps extends HTMLAttributes<HTMLElement> {
+  /** Sub-trigger and sub-content */
+  children?: ReactNode;
+  /** Controlled open state */
+  open?: boolean;
+  /** Default open state (uncontrolled) */
+  defaultOpen?: boolean;
+  /** Called when the submenu opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Placement relative to the sub-trigger, flipped when it doesn't fit */
+  placement?: ContextMenuSubPlacement;
+  /** Offset distance from the sub-trigger in pixels */
+  offset?: number;
+}
+
+export interface ContextMenuSubTriggerProps extends HTMLAttributes<HTMLElement> {
+  /** Sub-trigger content */
+  children?: ReactNode;
+  /** Disabled state */
+  disabled?: boolean;
+}
+
+export interface ContextMenuSubContentProps extends HTMLAttributes<HTMLElement> {
+  /** Submenu items */
+  children?: ReactNode;
+}
+
 // ============================================================================
 // Components
 // ============================================================================
@@ -236,6 +265,104 @@ const ContextMenuLabel = forwardRef<HTMLElement, ContextMenuLabelProps>(function
 });
 ContextMenuLabel.displayName = "ContextMenu.Label";
 
+/**
+ * ContextMenu submenu component.
+ */
+const ContextMenuSub = forwardRef<HTMLElement, ContextMenuSubProps>(function ContextMenuSub(
+  {
+    children,
+    className,
+    open: controlledOpen,
+    defaultOpen = false,
+    onOpenChange,
+    placement = "end-start",
+    offset = 2,
+    ...props
+  },
+  ref
+) {
+  const [internalOpen, setInternalOpen] = useState(defaultOpen);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const elementRef = useRef<HTMLElement>(null);
+
+  // Combine refs
+  const combinedRef = (node: HTMLElement | null) => {
+    (elementRef as React.MutableRefObject<HTMLElement | null>).current = node;
+    if (typeof ref === "function") {
+      ref(node);
+    } else if (ref) {
+      (ref as React.MutableRefObject<HTMLElement | null>).current = node;
+    }
+  };
+
+  const handleOpenChange = useCallback(
+    (event: Event) => {
+      const isOpen = (event as CustomEvent<{ open: boolean }>).detail.open;
+
+      if (!isControlled) {
+        setInternalOpen(isOpen);
+      }
+      onOpenChange?.(isOpen);
+    },
+    [isControlled, onOpenChange]
+  );
+
+  // The submenu's open-change doesn't bubble, so it never reaches the root
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+
+    element.addEventListener("ds:open-change", handleOpenChange);
+
+    return () => {
+      element.removeEventListener("ds:open-change", handleOpenChange);
+    };
+  }, [handleOpenChange]);
+
+  return createElement(
+    "ds-context-menu-sub",
+    {
+      ref: combinedRef,
+      class: className,
+      open: open || undefined,
+      placement,
+      offset,
+      ...props,
+    },
+    children
+  );
+});
+ContextMenuSub.displayName = "ContextMenu.Sub";
+
+/**
+ * ContextMenu sub-trigger component.
+ */
+const ContextMenuSubTrigger = forwardRef<HTMLElement, ContextMenuSubTriggerProps>(
+  function ContextMenuSubTrigger({ children, className, disabled = false, ...props }, ref) {
+    return createElement(
+      "ds-context-menu-sub-trigger",
+      { ref, class: className, disabled: disabled || undefined, ...props },
+      children
+    );
+  }
+);
+ContextMenuSubTrigger.displayName = "ContextMenu.SubTrigger";
+
+/**
+ * ContextMenu sub-content component.
+ */
+const ContextMenuSubContent = forwardRef<HTMLElement, ContextMenuSubContentProps>(
+  function ContextMenuSubContent({ children, className, ...props }, ref) {
+    return createElement(
+      "ds-context-menu-sub-content",
+      { ref, class: className, ...props },
+      children
+    );
+  }
+);
+ContextMenuSubContent.displayName = "ContextMenu.SubContent";
+
 // ============================================================================
 // Compound Component
 // ============================================================================
@@ -247,6 +374,9 @@ export const ContextMenu = {
   Item: ContextMenuItem,
   Separator: ContextMenuSeparator,
   Label: ContextMenuLabel,
+  Sub: ContextMenuSub,
+  SubTrigger: ContextMenuSubTrigger,
+  SubContent: ContextMenuSubContent,
 };
 
 // Also export individual components
@@ -257,4 +387,7 @@ export {
   ContextMenuItem,
   ContextMenuSeparator,
   ContextMenuLabel,
+  ContextMenuSub,
+  ContextMenuSubTrigger,
+  ContextMenuSubContent,
 };
@@ -1,20 +1,101 @@
 "use client";
 
-import { type ReactNode, createElement, forwardRef, useEffect, useRef } from "react";
+import { type Messages, type VirtualRange, createVirtualWindow } from "@hypoth-ui/primitives-dom";
+import {
+  Fragment,
+  type HTMLAttributes,
+  type ReactNode,
+  type RefObject,
+  createContext,
+  createElement,
+  forwardRef,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useMergedMessages } from "../../i18n/locale-provider.js";
 
 // Define types locally (mirroring WC types)
 export type DataTableSortDirection = "asc" | "desc" | "none";
 
-export interface DataTableColumn {
+export interface DataTableColumn<T = unknown> {
   id: string;
   header: string;
+  /** Property path into the row, e.g. `"user.address.city"` (defaults to `id`) */
   accessor?: string;
   sortable?: boolean;
+  /** Render a resize handle (drag or arrow keys) in the header */
   resizable?: boolean;
   width?: string;
   minWidth?: string;
   maxWidth?: string;
   align?: "left" | "center" | "right";
+  /** Initially hidden */
+  hidden?: boolean;
+  /** Listed in the column visibility menu (defaults to true) */
+  hideable?: boolean;
+  /** Initially pinned (sticky) to a side */
+  pinned?: DataTablePinSide;
+  /**
+   * Custom cell renderer. Return a string, number or DOM node.
+   */
+  cell?(value: unknown, row: T, index: number): unknown;
+  /**
+   * Custom sort comparator for this column's values.
+   */
+  comparator?(a: unknown, b: unknown): number;
+  /** Cells can be edited in place (double-click, or Enter/F2 in grid mode) */
+  editable?: boolean;
+  /** Built-in editor for editable cells (defaults to "text") */
+  editor?: DataTableEditorType;
+  /** Choices for the "select" editor */
+  options?: DataTableEditorOption[];
+  /**
+   * Validate an edited value; return (or resolve to) an error message to reject it.
+   */
+  validate?(value: unknown, row: T): DataTableValidationResult | Promise<DataTableValidationResult>;
+  /** Aggregate shown in the footer row, computed over all rows */
+  aggregate?: DataTableAggregate<T>;
+  /** Format the footer aggregate (numbers default to locale formatting) */
+  formatAggregate?(value: unknown): unknown;
+}
+
+export type DataTableAggregateFunction = "sum" | "avg" | "min" | "max" | "count";
+
+export type DataTableAggregate<T = unknown> =
+  | DataTableAggregateFunction
+  | ((values: unknown[], rows: T[]) => unknown);
+
+export type DataTableExpandKind = "group" | "detail";
+
+export interface DataTableExpandChangeDetail {
+  kind: DataTableExpandKind;
+  /** Group ID, or the row ID of a detail row */
+  id: string;
+  expanded: boolean;
+}
+
+export type DataTableEditorType = "text" | "number" | "select" | "date";
+
+export interface DataTableEditorOption {
+  value: unknown;
+  label: string;
+}
+
+export type DataTableValidationResult = string | null | undefined;
+
+export type DataTableCellEditSource = "edit" | "undo" | "redo";
+
+export interface DataTableCellEditDetail {
+  rowId: string;
+  column: string;
+  row: unknown;
+  value: unknown;
+  previousValue: unknown;
+  source: DataTableCellEditSource;
 }
 
 export interface DataTableSort {
@@ -22,6 +103,21 @@ export interface DataTableSort {
   direction: DataTableSortDirection;
 }
 
+export type DataTablePinSide = "left" | "right";
+
+export interface DataTableColumnState {
+  /** Column IDs in display order */
+  order: string[];
+  /** Resized column widths in pixels, by column ID */
+  widths: Record<string, number>;
+  /** Hidden column IDs */
+  hidden: string[];
+  /** Pinned column IDs by side */
+  pinned: Record<DataTablePinSide, string[]>;
+}
+
+export type DataTableColumnStateReason = "resize" | "reorder" | "pin" | "visibility";
+
 export interface DataTablePagination {
   page: number;
   pageSize: number;
@@ -31,6 +127,7 @@ export interface DataTablePagination {
 export interface DataTableProps {
   /**
    * Enable virtualization for large datasets.
+   * Rows rendered through `DataTableBody` are windowed.
    * @default false
    */
   virtualized?: boolean;
@@ -100,6 +197,22 @@ export interface DataTableProps {
    */
   sortDirection?: "asc" | "desc" | "none";
 
+  /**
+   * Multi-column sort model, primary key first.
+   */
+  sortModel?: DataTableSort[];
+
+  /**
+   * Maximum number of sort keys added with Shift+click.
+   * @default 3
+   */
+  maxSortKeys?: number;
+
+  /**
+   * Locale used to collate string values when sorting.
+   */
+  locale?: string;
+
   /**
    * Filter/search query.
    */
@@ -107,14 +220,100 @@ export interface DataTableProps {
 
   /**
    * Empty state message.
-   * @default "No data available"
+   * @default the `dataTable.empty` message
    */
   emptyMessage?: string;
 
+  /**
+   * Overrides for built-in strings, merged over the nearest LocaleProvider.
+   */
+  messages?: Partial<Messages>;
+
+  /**
+   * Column definitions. When provided, the table renders `rows` itself
+   * (header, cells, sort buttons and selection checkboxes).
+   */
+  columns?: DataTableColumn[];
+
+  /**
+   * Row data for the data-driven mode.
+   */
+  rows?: unknown[];
+
+  /**
+   * Resolve a stable ID for a row.
+   * @default row.id, then the row index
+   */
+  getRowId?: (row: unknown, index: number) => string;
+
+  /**
+   * Rows are already sorted by the caller (e.g. server-side sorting).
+   * @default false
+   */
+  manualSorting?: boolean;
+
+  /**
+   * Column layout (order, widths, visibility, pinning), e.g. a saved layout.
+   */
+  columnState?: Partial<DataTableColumnState>;
+
+  /**
+   * Allow reordering columns by dragging their headers.
+   * @default false
+   */
+  reorderable?: boolean;
+
+  /**
+   * Show a column visibility menu above the table.
+   * @default false
+   */
+  columnMenu?: boolean;
+
+  /**
+   * Interactive grid mode with cell-level keyboard navigation (role="grid")
+   * for the columns-and-rows mode.
+   * @default false
+   */
+  grid?: boolean;
+
+  /**
+   * Column IDs to group rows by, outermost first.
+   */
+  groupBy?: string[];
+
+  /**
+   * Render the detail row of an expanded row (string, number or DOM node).
+   * Setting it adds an expander column.
+   */
+  renderDetail?: (row: unknown, index: number) => unknown;
+
+  /**
+   * Callback when a group or detail row is expanded or collapsed.
+   */
+  onExpandChange?: (detail: DataTableExpandChangeDetail) => void;
+
+  /**
+   * Callback before an edited, undone or redone cell value is applied.
+   * Call `event.preventDefault()` to reject the change.
+   */
+  onCellEdit?: (detail: DataTableCellEditDetail, event: CustomEvent) => void;
+
+  /**
+   * Callback when columns are resized, reordered, pinned or hidden.
+   */
+  onColumnStateChange?: (detail: {
+    state: DataTableColumnState;
+    reason: DataTableColumnStateReason;
+  }) => void;
+
   /**
    * Callback when sort changes.
    */
-  onSort?: (detail: { column: string; direction: "asc" | "desc" | "none" }) => void;
+  onSort?: (detail: {
+    column: string;
+    direction: "asc" | "desc" | "none";
+    sort: DataTableSort[];
+  }) => void;
 
   /**
    * Callback when page changes.
@@ -142,10 +341,23 @@ export interface DataTableProps {
   className?: string;
 }
 
+interface DataTableContextValue {
+  hostRef: RefObject<HTMLElement>;
+  virtualized: boolean;
+  rowHeight: number;
+  overscan: number;
+}
+
+const DataTableContext = createContext<DataTableContextValue | null>(null);
+
 /**
  * DataTable component for displaying large datasets with virtualization,
  * pagination, sorting, and selection support.
  *
+ * Rows are owned by React, so the element never detaches them itself;
+ * use `DataTableBody` to window rows when `virtualized` is set, or pass
+ * `columns` and `rows` to let the element render (and window) them.
+ *
  * @example
  * ```tsx
  * <DataTable
@@ -176,8 +388,25 @@ export const DataTable = forwardRef<HTMLElement, DataTableProps>(function DataTa
     loading = false,
     sortColumn,
     sortDirection = "none",
+    sortModel,
+    maxSortKeys = 3,
+    locale,
     filter,
-    emptyMessage = "No data available",
+    emptyMessage,
+    messages,
+    columns,
+    rows,
+    getRowId,
+    manualSorting = false,
+    columnState,
+    reorderable = false,
+    columnMenu = false,
+    grid = false,
+    groupBy,
+    renderDetail,
+    onExpandChange,
+    onColumnStateChange,
+    onCellEdit,
     onSort,
     onPageChange,
     onPageSizeChange,
@@ -188,6 +417,7 @@ export const DataTable = forwardRef<HTMLElement, DataTableProps>(function DataTa
   forwardedRef
 ) {
   const internalRef = useRef<HTMLElement>(null);
+  const mergedMessages = useMergedMessages(messages);
 
   // Sync forwarded ref with internal ref
   useEffect(() => {
@@ -223,26 +453,87 @@ export const DataTable = forwardRef<HTMLElement, DataTableProps>(function DataTa
       onSelectionChange?.(event.detail);
     };
 
+    const handleColumnStateChange = (e: Event) => {
+      const event = e as CustomEvent;
+      onColumnStateChange?.(event.detail);
+    };
+
+    const handleCellEdit = (e: Event) => {
+      const event = e as CustomEvent<DataTableCellEditDetail>;
+      onCellEdit?.(event.detail, event);
+    };
+
+    const handleExpandChange = (e: Event) => {
+      const event = e as CustomEvent<DataTableExpandChangeDetail>;
+      onExpandChange?.(event.detail);
+    };
+
     element.addEventListener("ds:sort", handleSort);
     element.addEventListener("ds:page-change", handlePageChange);
     element.addEventListener("ds:page-size-change", handlePageSizeChange);
     element.addEventListener("ds:selection-change", handleSelectionChange);
+    element.addEventListener("ds:column-state-change", handleColumnStateChange);
+    element.addEventListener("ds:cell-edit", handleCellEdit);
+    element.addEventListener("ds:expand-change", handleExpandChange);
 
     return () => {
       element.removeEventListener("ds:sort", handleSort);
       element.removeEventListener("ds:page-change", handlePageChange);
       element.removeEventListener("ds:page-size-change", handlePageSizeChange);
       element.removeEventListener("ds:selection-change", handleSelectionChange);
+      element.removeEventListener("ds:column-state-change", handleColumnStateChange);
+      element.removeEventListener("ds:cell-edit", handleCellEdit);
+      element.removeEventListener("ds:expand-change", handleExpandChange);
     };
-  }, [onSort, onPageChange, onPageSizeChange, onSelectionChange]);
+  }, [
+    onSort,
+    onPageChange,
+    onPageSizeChange,
+    onSelectionChange,
+    onColumnStateChange,
+    onCellEdit,
+    onExpandChange,
+  ]);
 
-  return createElement(
+  // Sync data-driven mode as properties (cannot be set via attributes)
+  useEffect(() => {
+    const element = internalRef.current as
+      | (HTMLElement & {
+          columns?: DataTableColumn[];
+          rows?: unknown[];
+          getRowId?: (row: unknown, index: number) => string;
+          sortModel?: DataTableSort[];
+          columnState?: Partial<DataTableColumnState>;
+          groupBy?: string[];
+          renderDetail?: ((row: unknown, index: number) => unknown) | null;
+          messages?: Partial<Messages>;
+        })
+      | null;
+    if (!element) return;
+
+    if (columns !== undefined) element.columns = columns;
+    if (rows !== undefined) element.rows = rows;
+    if (getRowId !== undefined) element.getRowId = getRowId;
+    if (sortModel !== undefined) element.sortModel = sortModel;
+    if (columnState !== undefined) element.columnState = columnState;
+    if (groupBy !== undefined) element.groupBy = groupBy;
+    if (renderDetail !== undefined) element.renderDetail = renderDetail;
+    element.messages = mergedMessages;
+  }, [columns, rows, getRowId, sortModel, columnState, groupBy, renderDetail, mergedMessages]);
+
+  const contextValue = useMemo(
+    () => ({ hostRef: internalRef, virtualized, rowHeight, overscan }),
+    [virtualized, rowHeight, overscan]
+  );
+
+  const element = createElement(
     "ds-data-table",
     {
       ref: internalRef,
       virtualized: virtualized || undefined,
       "row-height": rowHeight,
       overscan,
+      "manual-rows": true,
       "total-rows": totalRows,
       page,
       "page-size": pageSize,
@@ -252,12 +543,196 @@ export const DataTable = forwardRef<HTMLElement, DataTableProps>(function DataTa
       loading: loading || undefined,
       "sort-column": sortColumn,
       "sort-direction": sortDirection,
+      "max-sort-keys": maxSortKeys,
+      locale,
       filter,
       "empty-message": emptyMessage,
+      "manual-sorting": manualSorting || undefined,
+      reorderable: reorderable || undefined,
+      "column-menu": columnMenu || undefined,
+      grid: grid || undefined,
       class: className,
     },
     children
   );
+
+  return createElement(DataTableContext.Provider, { value: contextValue }, element);
 });
 
 DataTable.displayName = "DataTable";
+
+export interface DataTableBodyProps extends HTMLAttributes<HTMLElement> {
+  /**
+   * Total number of rows.
+   */
+  rowCount: number;
+
+  /**
+   * Render the row at an index (typically a `TableRow`).
+   */
+  renderRow: (index: number) => ReactNode;
+
+  /**
+   * Stable key for the row at an index. Measured row heights are cached
+   * by this key, so it should survive sorting and filtering.
+   * @default index
+   */
+  getRowKey?: (index: number) => string | number;
+}
+
+const spacerStyle = (height: number) => ({ display: "table-row", height: `${height}px` });
+
+/**
+ * Table body that windows its rows when the parent `DataTable` is virtualized.
+ * Only the rows in view plus `overscan` are rendered, between two spacers that
+ * keep the full scroll height. Row heights start at `rowHeight` and are refined
+ * by measuring mounted rows.
+ *
+ * @example
+ * ```tsx
+ * <DataTable virtualized rowHeight={40}>
+ *   <Table>
+ *     <TableHeader>...</TableHeader>
+ *     <DataTableBody
+ *       rowCount={logs.length}
+ *       getRowKey={(i) => logs[i].id}
+ *       renderRow={(i) => <TableRow>...</TableRow>}
+ *     />
+ *   </Table>
+ * </DataTable>
+ * ```
+ */
+export const DataTableBody = forwardRef<HTMLElement, DataTableBodyProps>(function DataTableBody(
+  { rowCount, renderRow, getRowKey, className, ...props },
+  forwardedRef
+) {
+  const context = useContext(DataTableContext);
+  const virtualized = context?.virtualized ?? false;
+  const bodyRef = useRef<HTMLElement | null>(null);
+  const spacerBeforeRef = useRef<HTMLDivElement>(null);
+  const getRowKeyRef = useRef(getRowKey);
+  getRowKeyRef.current = getRowKey;
+
+  const rowHeight = context?.rowHeight ?? 48;
+  const overscan = context?.overscan ?? 5;
+
+  const virtual = useMemo(
+    () =>
+      createVirtualWindow({
+        count: 0,
+        estimateSize: rowHeight,
+        overscan,
+        getItemKey: (index) => getRowKeyRef.current?.(index) ?? index,
+      }),
+    [rowHeight, overscan]
+  );
+  virtual.setCount(rowCount);
+
+  const [range, setRange] = useState<Pick<VirtualRange, "start" | "end">>(() => {
+    const initial = virtual.getRange(0, 0);
+    return { start: initial.start, end: initial.end };
+  });
+
+  const setRefs = useCallback(
+    (node: HTMLElement | null) => {
+      bodyRef.current = node;
+      if (typeof forwardedRef === "function") forwardedRef(node);
+      else if (forwardedRef) forwardedRef.current = node;
+    },
+    [forwardedRef]
+  );
+
+  const updateRange = useCallback(() => {
+    const host = context?.hostRef.current;
+    const spacer = spacerBeforeRef.current;
+    if (!host || !spacer) return;
+
+    // Offset of the first row within the scroll content, i.e. the header height
+    const listStart =
+      spacer.getBoundingClientRect().top - host.getBoundingClientRect().top + host.scrollTop;
+    const next = virtual.getRange(host.scrollTop, Math.max(0, host.clientHeight - listStart));
+
+    setRange((prev) =>
+      prev.start === next.start && prev.end === next.end
+        ? prev
+        : { start: next.start, end: next.end }
+    );
+  }, [context, virtual]);
+
+  // Bumped when measurements change spacer sizes without changing the range
+  const [, setLayoutVersion] = useState(0);
+
+  // Measure mounted rows after every render, then settle the range
+  useEffect(() => {
+    if (!virtualized || !bodyRef.current) return;
+
+    const rows = Array.from(bodyRef.current.children).filter(
+      (child) => child.localName === "ds-table-row"
+    );
+    let changed = false;
+    rows.forEach((row, i) => {
+      changed = virtual.measure(range.start + i, row.getBoundingClientRect().height) || changed;
+    });
+    if (changed) setLayoutVersion((version) => version + 1);
+    updateRange();
+  });
+
+  // Follow scrolling and resizing of the DataTable scroll container
+  useEffect(() => {
+    const host = context?.hostRef.current;
+    if (!virtualized || !host) return;
+
+    let frame: number | null = null;
+    const schedule = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        updateRange();
+      });
+    };
+
+    host.addEventListener("scroll", schedule, { passive: true });
+    const resizeObserver =
+      typeof ResizeObserver !== "undefined" ? new ResizeObserver(schedule) : null;
+    resizeObserver?.observe(host);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      host.removeEventListener("scroll", schedule);
+      resizeObserver?.disconnect();
+    };
+  }, [context, virtualized, updateRange]);
+
+  const start = virtualized ? Math.min(range.start, rowCount) : 0;
+  const end = virtualized ? Math.min(range.end, rowCount) : rowCount;
+
+  const rows: ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    rows.push(createElement(Fragment, { key: getRowKey?.(index) ?? index }, renderRow(index)));
+  }
+
+  return createElement(
+    "ds-table-body",
+    { ref: setRefs, class: className, ...props },
+    virtualized
+      ? createElement("div", {
+          key: "spacer-before",
+          ref: spacerBeforeRef,
+          className: "ds-data-table__spacer",
+          "aria-hidden": true,
+          style: spacerStyle(virtual.getOffset(start)),
+        })
+      : null,
+    rows,
+    virtualized
+      ? createElement("div", {
+          key: "spacer-after",
+          className: "ds-data-table__spacer",
+          "aria-hidden": true,
+          style: spacerStyle(virtual.getTotalSize() - virtual.getOffset(end)),
+        })
+      : null
+  );
+});
+
+DataTableBody.displayName = "DataTableBody";
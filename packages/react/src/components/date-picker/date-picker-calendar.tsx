@@ -2,7 +2,9 @@
  * DatePicker Calendar component - the actual calendar grid.
  */
 
+import { getDirection, mirrorArrowKey } from "@hypoth-ui/primitives-dom";
 import { type HTMLAttributes, type ReactNode, forwardRef, useCallback, useMemo } from "react";
+import { useMessages } from "../../i18n/index.js";
 import { useDatePickerContext } from "./date-picker-context.js";
 
 export interface DatePickerCalendarProps extends HTMLAttributes<HTMLDivElement> {
@@ -15,6 +17,15 @@ export interface DatePickerCalendarProps extends HTMLAttributes<HTMLDivElement>
   }) => ReactNode;
 }
 
+function isSameDay(d1: Date, d2: Date | null): boolean {
+  if (!d2) return false;
+  return (
+    d1.getFullYear() === d2.getFullYear() &&
+    d1.getMonth() === d2.getMonth() &&
+    d1.getDate() === d2.getDate()
+  );
+}
+
 /**
  * Calendar grid component for date selection.
  *
@@ -40,14 +51,25 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
       firstDayOfWeek,
       minDate,
       maxDate,
+      isDateUnavailable,
+      minNights,
+      maxNights,
+      numberOfMonths,
+      hoveredDate,
+      setHoveredDate,
       setOpen,
     } = useDatePickerContext("DatePicker.Calendar");
+    const t = useMessages();
 
     // Formatters
     const monthFormatter = useMemo(
       () => new Intl.DateTimeFormat(locale, { month: "long" }),
       [locale]
     );
+    const monthYearFormatter = useMemo(
+      () => new Intl.DateTimeFormat(locale, { month: "long", year: "numeric" }),
+      [locale]
+    );
     const weekdayFormatter = useMemo(
       () => new Intl.DateTimeFormat(locale, { weekday: "short" }),
       [locale]
@@ -65,31 +87,44 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
       return names;
     }, [weekdayFormatter, firstDayOfWeek]);
 
-    // Get days for current month
-    const days = useMemo(() => {
-      const result: Date[] = [];
-      const monthStart = new Date(viewingMonth.getFullYear(), viewingMonth.getMonth(), 1);
-      const monthEnd = new Date(viewingMonth.getFullYear(), viewingMonth.getMonth() + 1, 0);
-
-      // Get calendar start
-      const calendarStart = new Date(monthStart);
-      const dayOffset = (calendarStart.getDay() - firstDayOfWeek + 7) % 7;
-      calendarStart.setDate(calendarStart.getDate() - dayOffset);
-
-      // Get calendar end
-      const calendarEnd = new Date(monthEnd);
-      const endOffset = 6 - ((calendarEnd.getDay() - firstDayOfWeek + 7) % 7);
-      calendarEnd.setDate(calendarEnd.getDate() + endOffset);
-
-      // Generate days
-      const current = new Date(calendarStart);
-      while (current <= calendarEnd) {
-        result.push(new Date(current));
-        current.setDate(current.getDate() + 1);
-      }
+    // Months shown side by side, starting at the viewing month
+    const visibleMonths = useMemo(
+      () =>
+        Array.from(
+          { length: Math.max(1, numberOfMonths) },
+          (_, i) => new Date(viewingMonth.getFullYear(), viewingMonth.getMonth() + i, 1)
+        ),
+      [viewingMonth, numberOfMonths]
+    );
+
+    // Get days for a month, padded to whole weeks
+    const getMonthDays = useCallback(
+      (month: Date) => {
+        const result: Date[] = [];
+        const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+        const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+        // Get calendar start
+        const calendarStart = new Date(monthStart);
+        const dayOffset = (calendarStart.getDay() - firstDayOfWeek + 7) % 7;
+        calendarStart.setDate(calendarStart.getDate() - dayOffset);
 
-      return result;
-    }, [viewingMonth, firstDayOfWeek]);
+        // Get calendar end
+        const calendarEnd = new Date(monthEnd);
+        const endOffset = 6 - ((calendarEnd.getDay() - firstDayOfWeek + 7) % 7);
+        calendarEnd.setDate(calendarEnd.getDate() + endOffset);
+
+        // Generate days
+        const current = new Date(calendarStart);
+        while (current <= calendarEnd) {
+          result.push(new Date(current));
+          current.setDate(current.getDate() + 1);
+        }
+
+        return result;
+      },
+      [firstDayOfWeek]
+    );
 
     // Navigation handlers
     const prevMonth = useCallback(() => {
@@ -104,9 +139,65 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
       setViewingMonth(newMonth);
     }, [viewingMonth, setViewingMonth]);
 
+    // Check helpers
+    const isSelectingRangeEnd = mode === "range" && range.start !== null && range.end === null;
+
+    const getPredicateReason = useCallback(
+      (date: Date): string | null => {
+        const result = isDateUnavailable?.(date);
+        if (!result) return null;
+        return typeof result === "string" ? result : t("calendar.unavailable");
+      },
+      [isDateUnavailable, t]
+    );
+
+    // Why a date can't be picked: the predicate's reason, or, while choosing
+    // a range end, the stay limits and any unavailable dates in between
+    const getUnavailableReason = useCallback(
+      (date: Date): string | null => {
+        const reason = getPredicateReason(date);
+        if (reason || !isSelectingRangeEnd || !range.start) return reason;
+
+        const start = range.start;
+        const nights = Math.abs(
+          Math.round(
+            (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) -
+              Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) /
+              86_400_000
+          )
+        );
+        if (nights === 0) return null;
+        if (minNights > 0 && nights < minNights) {
+          return t("calendar.minNights", { count: minNights });
+        }
+        if (maxNights > 0 && nights > maxNights) {
+          return t("calendar.maxNights", { count: maxNights });
+        }
+
+        const step = date < start ? 1 : -1;
+        const current = new Date(date.getFullYear(), date.getMonth(), date.getDate() + step);
+        while (!isSameDay(current, start)) {
+          if (getPredicateReason(current)) return t("calendar.rangeUnavailable");
+          current.setDate(current.getDate() + step);
+        }
+        return null;
+      },
+      [getPredicateReason, isSelectingRangeEnd, range.start, minNights, maxNights, t]
+    );
+
+    const isDateDisabled = useCallback(
+      (date: Date) => {
+        if (minDate && date < minDate) return true;
+        if (maxDate && date > maxDate) return true;
+        return getUnavailableReason(date) !== null;
+      },
+      [minDate, maxDate, getUnavailableReason]
+    );
+
     // Date selection
     const selectDate = useCallback(
       (date: Date) => {
+        if (isDateDisabled(date)) return;
         if (mode === "single") {
           setValue(date);
           setOpen(false);
@@ -123,11 +214,12 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
             } else {
               setRange({ start, end: date });
             }
+            setHoveredDate(null);
             setOpen(false);
           }
         }
       },
-      [mode, range, setValue, setRange, setOpen]
+      [isDateDisabled, mode, range, setValue, setRange, setHoveredDate, setOpen]
     );
 
     // Keyboard navigation
@@ -135,7 +227,7 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
       (event: React.KeyboardEvent<HTMLDivElement>) => {
         let newFocused: Date | null = null;
 
-        switch (event.key) {
+        switch (mirrorArrowKey(event.key, getDirection(event.currentTarget))) {
           case "ArrowLeft":
             event.preventDefault();
             newFocused = new Date(focusedDate);
@@ -199,12 +291,15 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
 
         if (newFocused) {
           setFocusedDate(newFocused);
-          // Update viewing month if needed
-          if (
-            newFocused.getMonth() !== viewingMonth.getMonth() ||
-            newFocused.getFullYear() !== viewingMonth.getFullYear()
-          ) {
-            setViewingMonth(new Date(newFocused.getFullYear(), newFocused.getMonth(), 1));
+          // Scroll the view only when focus leaves the visible months
+          const offset =
+            (newFocused.getFullYear() - viewingMonth.getFullYear()) * 12 +
+            newFocused.getMonth() -
+            viewingMonth.getMonth();
+          const monthCount = visibleMonths.length;
+          if (offset < 0 || offset >= monthCount) {
+            const shift = offset < 0 ? 0 : monthCount - 1;
+            setViewingMonth(new Date(newFocused.getFullYear(), newFocused.getMonth() - shift, 1));
           }
         }
 
@@ -214,6 +309,7 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
         focusedDate,
         firstDayOfWeek,
         viewingMonth,
+        visibleMonths,
         setFocusedDate,
         setViewingMonth,
         prevMonth,
@@ -224,50 +320,122 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
       ]
     );
 
-    // Check helpers
-    const isDateDisabled = useCallback(
-      (date: Date) => {
-        if (minDate && date < minDate) return true;
-        if (maxDate && date > maxDate) return true;
-        return false;
-      },
-      [minDate, maxDate]
-    );
-
-    const isSameDay = (d1: Date, d2: Date | null) => {
-      if (!d2) return false;
-      return (
-        d1.getFullYear() === d2.getFullYear() &&
-        d1.getMonth() === d2.getMonth() &&
-        d1.getDate() === d2.getDate()
-      );
-    };
-
     const isInRange = (date: Date) => {
       if (mode !== "range" || !range.start || !range.end) return false;
       return date >= range.start && date <= range.end;
     };
 
+    // Tentative range between the start and the hovered (or focused) date
+    const isInPreview = (date: Date) => {
+      if (!isSelectingRangeEnd || !range.start) return false;
+      const target = hoveredDate ?? focusedDate;
+      if (isDateDisabled(target)) return false;
+      const [from, to] = target < range.start ? [target, range.start] : [range.start, target];
+      return date >= from && date <= to;
+    };
+
     const isToday = (date: Date) => {
       const today = new Date();
       return isSameDay(date, today);
     };
 
-    const isCurrentMonth = (date: Date) => {
-      return (
-        date.getMonth() === viewingMonth.getMonth() &&
-        date.getFullYear() === viewingMonth.getFullYear()
-      );
+    const isSameMonth = (date: Date, month: Date) => {
+      return date.getMonth() === month.getMonth() && date.getFullYear() === month.getFullYear();
     };
 
     const monthLabel = monthFormatter.format(viewingMonth);
     const year = viewingMonth.getFullYear();
+    const lastMonth = visibleMonths[visibleMonths.length - 1] ?? viewingMonth;
+    const headerLabel =
+      visibleMonths.length > 1
+        ? monthYearFormatter.formatRange(viewingMonth, lastMonth)
+        : `${monthLabel} ${year}`;
+
+    const renderMonth = (month: Date) => {
+      const days = getMonthDays(month);
+      const weeks: Date[][] = [];
+      for (let i = 0; i < days.length; i += 7) {
+        weeks.push(days.slice(i, i + 7));
+      }
+      const gridLabel = monthYearFormatter.format(month);
+
+      return (
+        <div key={gridLabel} className="ds-date-picker-month">
+          {visibleMonths.length > 1 && (
+            <div className="ds-date-picker-month-caption" aria-hidden="true">
+              {gridLabel}
+            </div>
+          )}
+          {/* biome-ignore lint/a11y/useSemanticElements: table with role="grid" is valid for calendar grids per WAI-ARIA */}
+          <table role="grid" aria-label={gridLabel}>
+            <thead>
+              <tr>
+                {weekdayNames.map((day) => (
+                  <th key={day} scope="col" abbr={day}>
+                    {day}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {weeks.map((week, weekIndex) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: weeks in a month don't reorder
+                <tr key={weekIndex}>
+                  {week.map((date) => {
+                    const currentMonth = isSameMonth(date, month);
+                    const dateKey = date.toISOString().split("T")[0];
 
-    // Render weeks
-    const weeks: Date[][] = [];
-    for (let i = 0; i < days.length; i += 7) {
-      weeks.push(days.slice(i, i + 7));
-    }
+                    // Adjacent months already show their own days
+                    if (!currentMonth && visibleMonths.length > 1) {
+                      return <td key={dateKey} data-outside />;
+                    }
+
+                    const disabled = isDateDisabled(date);
+                    const reason = getUnavailableReason(date);
+                    const selected =
+                      mode === "single"
+                        ? isSameDay(date, value)
+                        : isSameDay(date, range.start) || isSameDay(date, range.end);
+                    const inRange = isInRange(date);
+                    const inPreview = isInPreview(date);
+                    const today = isToday(date);
+                    const focused = isSameDay(date, focusedDate);
+
+                    return (
+                      <td
+                        key={dateKey}
+                        aria-selected={selected}
+                        aria-disabled={disabled || undefined}
+                        tabIndex={focused ? 0 : -1}
+                        data-date={dateKey}
+                        data-selected={selected || undefined}
+                        data-in-range={inRange || undefined}
+                        data-in-preview={inPreview || undefined}
+                        data-unavailable={reason !== null || undefined}
+                        data-today={today || undefined}
+                        data-current-month={currentMonth || undefined}
+                        data-focused={focused || undefined}
+                        onClick={() => !disabled && selectDate(date)}
+                        onPointerEnter={() => setHoveredDate(date)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === " ") {
+                            e.preventDefault();
+                            !disabled && selectDate(date);
+                          }
+                        }}
+                      >
+                        {date.getDate()}
+                        {reason && <span className="ds-visually-hidden">{reason}</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    };
 
     return (
       <div ref={ref} className={className} onKeyDown={handleKeyDown} tabIndex={-1} {...restProps}>
@@ -276,74 +444,20 @@ export const DatePickerCalendar = forwardRef<HTMLDivElement, DatePickerCalendarP
           renderHeader({ month: monthLabel, year, onPrevMonth: prevMonth, onNextMonth: nextMonth })
         ) : (
           <div className="ds-date-picker-header">
-            <button type="button" aria-label="Previous month" onClick={prevMonth}>
+            <button type="button" aria-label={t("calendar.previousMonth")} onClick={prevMonth}>
               ‹
             </button>
-            <span>
-              {monthLabel} {year}
-            </span>
-            <button type="button" aria-label="Next month" onClick={nextMonth}>
+            <span>{headerLabel}</span>
+            <button type="button" aria-label={t("calendar.nextMonth")} onClick={nextMonth}>
               ›
             </button>
           </div>
         )}
 
-        {/* Calendar grid */}
-        {/* biome-ignore lint/a11y/useSemanticElements: table with role="grid" is valid for calendar grids per WAI-ARIA */}
-        <table role="grid" aria-label={`${monthLabel} ${year}`}>
-          <thead>
-            <tr>
-              {weekdayNames.map((day) => (
-                <th key={day} scope="col" abbr={day}>
-                  {day}
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {weeks.map((week, weekIndex) => (
-              // biome-ignore lint/suspicious/noArrayIndexKey: weeks in a month don't reorder
-              <tr key={weekIndex}>
-                {week.map((date) => {
-                  const disabled = isDateDisabled(date);
-                  const selected =
-                    mode === "single"
-                      ? isSameDay(date, value)
-                      : isSameDay(date, range.start) || isSameDay(date, range.end);
-                  const inRange = isInRange(date);
-                  const today = isToday(date);
-                  const currentMonth = isCurrentMonth(date);
-                  const focused = isSameDay(date, focusedDate);
-                  const dateKey = date.toISOString().split("T")[0];
-
-                  return (
-                    <td
-                      key={dateKey}
-                      aria-selected={selected}
-                      aria-disabled={disabled || undefined}
-                      tabIndex={focused ? 0 : -1}
-                      data-date={dateKey}
-                      data-selected={selected || undefined}
-                      data-in-range={inRange || undefined}
-                      data-today={today || undefined}
-                      data-current-month={currentMonth || undefined}
-                      data-focused={focused || undefined}
-                      onClick={() => !disabled && selectDate(date)}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" || e.key === " ") {
-                          e.preventDefault();
-                          !disabled && selectDate(date);
-                        }
-                      }}
-                    >
-                      {date.getDate()}
-                    </td>
-                  );
-                })}
-              </tr>
-            ))}
-          </tbody>
-        </table>
+        {/* Calendar grids */}
+        <div className="ds-date-picker-months" onPointerLeave={() => setHoveredDate(null)}>
+          {visibleMonths.map(renderMonth)}
+        </div>
       </div>
     );
   }
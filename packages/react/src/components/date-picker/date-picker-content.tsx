@@ -16,6 +16,7 @@ import {
   useEffect,
   useRef,
 } from "react";
+import { useMessages } from "../../i18n/index.js";
 import { useDatePickerContext } from "./date-picker-context.js";
 
 export interface DatePickerContentProps extends HTMLAttributes<HTMLDialogElement> {
@@ -38,6 +39,7 @@ export const DatePickerContent = forwardRef<HTMLDialogElement, DatePickerContent
   ({ children, className, ...restProps }, ref) => {
     const { open, setOpen } = useDatePickerContext("DatePicker.Content");
     const internalRef = useRef<HTMLDialogElement>(null);
+    const t = useMessages();
 
     // Behavior instances
     const anchorPositionRef = useRef<AnchorPosition | null>(null);
@@ -107,7 +109,7 @@ export const DatePickerContent = forwardRef<HTMLDialogElement, DatePickerContent
         ref={mergedRef}
         open
         aria-modal="true"
-        aria-label="Choose date"
+        aria-label={t("datePicker.dialogLabel")}
         className={className}
         data-state="open"
         {...restProps}
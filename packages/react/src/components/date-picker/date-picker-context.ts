@@ -2,7 +2,11 @@
  * DatePicker context for compound component pattern.
  */
 
-import type { DatePickerBehavior, DateRange } from "@hypoth-ui/primitives-dom";
+import type {
+  DatePickerBehavior,
+  DateRange,
+  DateUnavailablePredicate,
+} from "@hypoth-ui/primitives-dom";
 import { createCompoundContext } from "../../utils/create-context.js";
 
 export type DatePickerMode = "single" | "range";
@@ -40,6 +44,18 @@ export interface DatePickerContextValue {
   minDate: Date | undefined;
   /** Max selectable date */
   maxDate: Date | undefined;
+  /** Unavailable date predicate */
+  isDateUnavailable: DateUnavailablePredicate | undefined;
+  /** Minimum nights in a range (0 = no limit) */
+  minNights: number;
+  /** Maximum nights in a range (0 = no limit) */
+  maxNights: number;
+  /** Number of months shown side by side */
+  numberOfMonths: number;
+  /** Date under the pointer, for range previews */
+  hoveredDate: Date | null;
+  /** Set hovered date */
+  setHoveredDate: (date: Date | null) => void;
 }
 
 export const [DatePickerProvider, useDatePickerContext] =
@@ -0,0 +1,89 @@
+/**
+ * DatePicker Presets component - a rail of quick range choices.
+ */
+
+import {
+  type DateRange,
+  type DateRangePreset,
+  getDefaultDateRangePresets,
+  resolveDateRangePreset,
+} from "@hypoth-ui/primitives-dom";
+import { type HTMLAttributes, forwardRef, useMemo } from "react";
+import { useMessages } from "../../i18n/index.js";
+import { useMergedMessages } from "../../i18n/locale-provider.js";
+import { useDatePickerContext } from "./date-picker-context.js";
+
+export interface DatePickerPresetsProps extends HTMLAttributes<HTMLDivElement> {
+  /** Presets to offer (defaults to today, last 7/30 days, this month, quarter and year) */
+  presets?: DateRangePreset[];
+  /** Called with the preset and its resolved range when one is chosen */
+  onPresetSelect?: (preset: DateRangePreset, range: DateRange) => void;
+}
+
+/**
+ * Preset rail for range mode. Choosing a preset selects its resolved range
+ * and closes the picker.
+ *
+ * @example
+ * ```tsx
+ * <DatePicker.Root mode="range" numberOfMonths={2}>
+ *   <DatePicker.Trigger>Select dates</DatePicker.Trigger>
+ *   <DatePicker.Content>
+ *     <DatePicker.Presets />
+ *     <DatePicker.Calendar />
+ *   </DatePicker.Content>
+ * </DatePicker.Root>
+ * ```
+ */
+export const DatePickerPresets = forwardRef<HTMLDivElement, DatePickerPresetsProps>(
+  ({ className, presets, onPresetSelect, ...restProps }, ref) => {
+    const { mode, setRange, setViewingMonth, setHoveredDate, setOpen } =
+      useDatePickerContext("DatePicker.Presets");
+    const t = useMessages();
+    const messages = useMergedMessages();
+
+    const items = useMemo(
+      () => presets ?? getDefaultDateRangePresets({ messages }),
+      [presets, messages]
+    );
+
+    if (mode !== "range") return null;
+
+    const presetsClassName = ["ds-date-picker-presets", className].filter(Boolean).join(" ");
+
+    const handleSelect = (preset: DateRangePreset) => {
+      const range = resolveDateRangePreset(preset);
+      setRange(range);
+      if (range.start) {
+        setViewingMonth(new Date(range.start.getFullYear(), range.start.getMonth(), 1));
+      }
+      setHoveredDate(null);
+      onPresetSelect?.(preset, range);
+      setOpen(false);
+    };
+
+    return (
+      <div
+        ref={ref}
+        // biome-ignore lint/a11y/useSemanticElements: a button rail, not a form fieldset
+        role="group"
+        aria-label={t("calendar.presets")}
+        className={presetsClassName}
+        {...restProps}
+      >
+        {items.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            className="ds-date-picker-preset"
+            onClick={() => handleSelect(preset)}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    );
+  }
+);
+
+DatePickerPresets.displayName = "DatePicker.Presets";
@@ -2,7 +2,12 @@
  * DatePicker Root component - provides context to all DatePicker compound components.
  */
 
-import { type DateRange, type Placement, createDatePickerBehavior } from "@hypoth-ui/primitives-dom";
+import {
+  type DateRange,
+  type DateUnavailablePredicate,
+  type Placement,
+  createDatePickerBehavior,
+} from "@hypoth-ui/primitives-dom";
 import { type ReactNode, useCallback, useMemo, useState } from "react";
 import { type DatePickerMode, DatePickerProvider } from "./date-picker-context.js";
 
@@ -33,6 +38,14 @@ export interface DatePickerRootProps {
   minDate?: Date;
   /** Maximum selectable date */
   maxDate?: Date;
+  /** Marks dates unavailable; return a string to give the reason read by screen readers */
+  isDateUnavailable?: DateUnavailablePredicate;
+  /** Minimum nights between range start and end */
+  minNights?: number;
+  /** Maximum nights between range start and end */
+  maxNights?: number;
+  /** Number of months shown side by side */
+  numberOfMonths?: number;
   /** Locale for date formatting */
   locale?: string;
   /** First day of week (0=Sunday, 1=Monday) */
@@ -75,6 +88,10 @@ export function DatePickerRoot({
   onRangeChange,
   minDate,
   maxDate,
+  isDateUnavailable,
+  minNights = 0,
+  maxNights = 0,
+  numberOfMonths = 1,
   locale = "en-US",
   firstDayOfWeek = 0,
   placement: _placement = "bottom-start",
@@ -106,6 +123,7 @@ export function DatePickerRoot({
   // Calendar navigation state
   const [focusedDate, setFocusedDate] = useState<Date>(value ?? today);
   const [viewingMonth, setViewingMonth] = useState<Date>(value ?? today);
+  const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
 
   const setOpen = useCallback(
     (nextOpen: boolean) => {
@@ -147,6 +165,10 @@ export function DatePickerRoot({
         defaultRange: range,
         minDate,
         maxDate,
+        isDateUnavailable,
+        minNights,
+        maxNights,
+        numberOfMonths,
         locale,
         firstDayOfWeek,
         disabled,
@@ -176,6 +198,12 @@ export function DatePickerRoot({
       firstDayOfWeek,
       minDate,
       maxDate,
+      isDateUnavailable,
+      minNights,
+      maxNights,
+      numberOfMonths,
+      hoveredDate,
+      setHoveredDate,
     }),
     [
       behavior,
@@ -192,6 +220,11 @@ export function DatePickerRoot({
       firstDayOfWeek,
       minDate,
       maxDate,
+      isDateUnavailable,
+      minNights,
+      maxNights,
+      numberOfMonths,
+      hoveredDate,
     ]
   );
 
@@ -18,6 +18,15 @@
  *     <DatePicker.Calendar />
  *   </DatePicker.Content>
  * </DatePicker.Root>
+ *
+ * // Two-month range with presets
+ * <DatePicker.Root mode="range" numberOfMonths={2} minNights={2}>
+ *   <DatePicker.Trigger>Select dates</DatePicker.Trigger>
+ *   <DatePicker.Content>
+ *     <DatePicker.Presets />
+ *     <DatePicker.Calendar />
+ *   </DatePicker.Content>
+ * </DatePicker.Root>
  * ```
  */
 
@@ -25,6 +34,7 @@ export { DatePickerRoot, type DatePickerRootProps } from "./date-picker-root.js"
 export { DatePickerTrigger, type DatePickerTriggerProps } from "./date-picker-trigger.js";
 export { DatePickerContent, type DatePickerContentProps } from "./date-picker-content.js";
 export { DatePickerCalendar, type DatePickerCalendarProps } from "./date-picker-calendar.js";
+export { DatePickerPresets, type DatePickerPresetsProps } from "./date-picker-presets.js";
 export {
   useDatePickerContext,
   type DatePickerContextValue,
@@ -36,9 +46,11 @@ export const DatePicker = {
   Trigger: DatePickerTrigger,
   Content: DatePickerContent,
   Calendar: DatePickerCalendar,
+  Presets: DatePickerPresets,
 } as const;
 
 import { DatePickerCalendar } from "./date-picker-calendar.js";
 import { DatePickerContent } from "./date-picker-content.js";
+import { DatePickerPresets } from "./date-picker-presets.js";
 import { DatePickerRoot } from "./date-picker-root.js";
 import { DatePickerTrigger } from "./date-picker-trigger.js";
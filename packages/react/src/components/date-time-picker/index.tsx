@@ -0,0 +1,238 @@
+"use client";
+
+import type { DateUnavailablePredicate } from "@hypoth-ui/primitives-dom";
+import { type HTMLAttributes, createElement, forwardRef, useEffect, useRef } from "react";
+import "@hypoth-ui/wc";
+
+export interface DateTimePickerProps extends Omit<HTMLAttributes<HTMLElement>, "onChange"> {
+  /**
+   * Selected date-time (ISO 8601: YYYY-MM-DDTHH:mm, with offset when `includeOffset` is set).
+   */
+  value?: string;
+
+  /**
+   * Form field name.
+   */
+  name?: string;
+
+  /**
+   * Whether a value is required for form submission.
+   */
+  required?: boolean;
+
+  /**
+   * Whether the picker is disabled.
+   */
+  disabled?: boolean;
+
+  /**
+   * Minimum selectable day (ISO format: YYYY-MM-DD).
+   */
+  minDate?: string;
+
+  /**
+   * Maximum selectable day (ISO format: YYYY-MM-DD).
+   */
+  maxDate?: string;
+
+  /**
+   * Marks days unavailable; return a string to give the reason read by screen readers.
+   */
+  isDateUnavailable?: DateUnavailablePredicate;
+
+  /**
+   * First day of week (0 = Sunday, 1 = Monday).
+   * @default 0
+   */
+  firstDayOfWeek?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+  /**
+   * 12-hour or 24-hour format. Defaults to the locale's hour cycle.
+   */
+  hourFormat?: 12 | 24;
+
+  /**
+   * Show the seconds segment and include seconds in the value.
+   * @default false
+   */
+  showSeconds?: boolean;
+
+  /**
+   * Minute step; values are snapped down to it.
+   * @default 1
+   */
+  minuteStep?: number;
+
+  /**
+   * Second step; values are snapped down to it.
+   * @default 1
+   */
+  secondStep?: number;
+
+  /**
+   * Locale for the calendar and time segments.
+   * @default "en-US"
+   */
+  locale?: string;
+
+  /**
+   * IANA time zone the value is expressed in. Defaults to the browser's zone.
+   */
+  timeZone?: string;
+
+  /**
+   * Append the time zone's UTC offset to the value.
+   * @default false
+   */
+  includeOffset?: boolean;
+
+  /**
+   * Callback when the value changes. `date` is the selected instant, or null when cleared.
+   */
+  onChange?: (value: string, date: Date | null) => void;
+
+  /**
+   * Callback when the calendar opens or closes.
+   */
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * DateTimePicker component for picking a timestamp in one control.
+ * Submits its ISO 8601 value with native forms.
+ *
+ * @example
+ * ```tsx
+ * <form>
+ *   <DateTimePicker
+ *     name="startsAt"
+ *     required
+ *     minuteStep={15}
+ *     timeZone="Europe/Berlin"
+ *     includeOffset
+ *     onChange={(value, date) => console.log(value, date)}
+ *   />
+ * </form>
+ * ```
+ */
+export const DateTimePicker = forwardRef<HTMLElement, DateTimePickerProps>(function DateTimePicker(
+  {
+    value,
+    name,
+    required = false,
+    disabled = false,
+    minDate,
+    maxDate,
+    isDateUnavailable,
+    firstDayOfWeek = 0,
+    hourFormat,
+    showSeconds = false,
+    minuteStep = 1,
+    secondStep = 1,
+    locale = "en-US",
+    timeZone,
+    includeOffset = false,
+    onChange,
+    onOpenChange,
+    className,
+    ...props
+  },
+  forwardedRef
+) {
+  const internalRef = useRef<HTMLElement>(null);
+
+  // Sync forwarded ref
+  useEffect(() => {
+    if (typeof forwardedRef === "function") {
+      forwardedRef(internalRef.current);
+    } else if (forwardedRef) {
+      (forwardedRef as React.MutableRefObject<HTMLElement | null>).current = internalRef.current;
+    }
+  }, [forwardedRef]);
+
+  // Functions can't be passed as attributes; set the property directly
+  useEffect(() => {
+    const element = internalRef.current as
+      | (HTMLElement & { isDateUnavailable?: DateUnavailablePredicate })
+      | null;
+    if (element) {
+      element.isDateUnavailable = isDateUnavailable;
+    }
+  }, [isDateUnavailable]);
+
+  // Set up event listeners
+  useEffect(() => {
+    const element = internalRef.current;
+    if (!element) return;
+
+    const handleChange = (e: Event) => {
+      const event = e as CustomEvent<{ value: string; date: string | null }>;
+      const { date } = event.detail;
+      onChange?.(event.detail.value, date ? new Date(date) : null);
+    };
+
+    const handleOpenChange = (e: Event) => {
+      const event = e as CustomEvent<{ open: boolean }>;
+      onOpenChange?.(event.detail.open);
+    };
+
+    element.addEventListener("ds:change", handleChange);
+    element.addEventListener("ds:open-change", handleOpenChange);
+
+    return () => {
+      element.removeEventListener("ds:change", handleChange);
+      element.removeEventListener("ds:open-change", handleOpenChange);
+    };
+  }, [onChange, onOpenChange]);
+
+  return createElement("ds-date-time-picker", {
+    ref: internalRef,
+    value,
+    name,
+    required: required || undefined,
+    disabled: disabled || undefined,
+    "min-date": minDate,
+    "max-date": maxDate,
+    "first-day-of-week": firstDayOfWeek,
+    "hour-format": hourFormat,
+    "show-seconds": showSeconds || undefined,
+    "minute-step": minuteStep,
+    "second-step": secondStep,
+    locale,
+    "time-zone": timeZone,
+    "include-offset": includeOffset || undefined,
+    class: className,
+    ...props,
+  });
+});
+
+// TypeScript declaration for JSX
+declare global {
+  namespace JSX {
+    interface IntrinsicElements {
+      "ds-date-time-picker": Omit<
+        DateTimePickerProps,
+        | "minDate"
+        | "maxDate"
+        | "firstDayOfWeek"
+        | "hourFormat"
+        | "minuteStep"
+        | "secondStep"
+        | "timeZone"
+      > & {
+        ref?: React.Ref<HTMLElement>;
+        "min-date"?: string;
+        "max-date"?: string;
+        "first-day-of-week"?: number;
+        "hour-format"?: number;
+        "show-seconds"?: boolean;
+        "minute-step"?: number;
+        "second-step"?: number;
+        "time-zone"?: string;
+        "include-offset"?: boolean;
+        "onDs-change"?: (event: CustomEvent) => void;
+        "onDs-open-change"?: (event: CustomEvent) => void;
+      };
+    }
+  }
+}
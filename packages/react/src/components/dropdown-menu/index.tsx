@@ -49,7 +49,13 @@ export type DropdownMenuPlacement =
   | "left-end"
   | "right"
   | "right-start"
-  | "right-end";
+  | "right-end"
+  | "start"
+  | "start-start"
+  | "start-end"
+  | "end"
+  | "end-start"
+  | "end-end";
 
 export type DropdownMenuItemVariant = "default" | "destructive";
 
@@ -133,6 +139,33 @@ export interface DropdownMenuRadioItemProps extends HTMLAttributes<HTMLElement>
   disabled?: boolean;
 }
 
+export interface DropdownMenuSubProps extends HTMLAttributes<HTMLElement> {
+  /** Sub-trigger and sub-content */
+  children?: ReactNode;
+  /** Controlled open state */
+  open?: boolean;
+  /** Default open state (uncontrolled) */
+  defaultOpen?: boolean;
+  /** Called when the submenu opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Placement relative to the sub-trigger, flipped when it doesn't fit */
+  placement?: DropdownMenuPlacement;
+  /** Offset distance from the sub-trigger in pixels */
+  offset?: number;
+}
+
+export interface DropdownMenuSubTriggerProps extends HTMLAttributes<HTMLElement> {
+  /** Sub-trigger content */
+  children?: ReactNode;
+  /** Disabled state */
+  disabled?: boolean;
+}
+
+export interface DropdownMenuSubContentProps extends HTMLAttributes<HTMLElement> {
+  /** Submenu items */
+  children?: ReactNode;
+}
+
 // ============================================================================
 // Components
 // ============================================================================
@@ -422,6 +455,104 @@ const DropdownMenuRadioItem = forwardRef<HTMLElement, DropdownMenuRadioItemProps
 );
 DropdownMenuRadioItem.displayName = "DropdownMenu.RadioItem";
 
+/**
+ * DropdownMenu submenu component.
+ */
+const DropdownMenuSub = forwardRef<HTMLElement, DropdownMenuSubProps>(function DropdownMenuSub(
+  {
+    children,
+    className,
+    open: controlledOpen,
+    defaultOpen = false,
+    onOpenChange,
+    placement = "end-start",
+    offset = 2,
+    ...props
+  },
+  ref
+) {
+  const [internalOpen, setInternalOpen] = useState(defaultOpen);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+  const elementRef = useRef<HTMLElement>(null);
+
+  // Combine refs
+  const combinedRef = (node: HTMLElement | null) => {
+    (elementRef as React.MutableRefObject<HTMLElement | null>).current = node;
+    if (typeof ref === "function") {
+      ref(node);
+    } else if (ref) {
+      (ref as React.MutableRefObject<HTMLElement | null>).current = node;
+    }
+  };
+
+  const handleOpenChange = useCallback(
+    (event: Event) => {
+      const isOpen = (event as CustomEvent<{ open: boolean }>).detail.open;
+
+      if (!isControlled) {
+        setInternalOpen(isOpen);
+      }
+      onOpenChange?.(isOpen);
+    },
+    [isControlled, onOpenChange]
+  );
+
+  // The submenu's open-change doesn't bubble, so it never reaches the root
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+
+    element.addEventListener("ds:open-change", handleOpenChange);
+
+    return () => {
+      element.removeEventListener("ds:open-change", handleOpenChange);
+    };
+  }, [handleOpenChange]);
+
+  return createElement(
+    "ds-dropdown-menu-sub",
+    {
+      ref: combinedRef,
+      class: className,
+      open: open || undefined,
+      placement,
+      offset,
+      ...props,
+    },
+    children
+  );
+});
+DropdownMenuSub.displayName = "DropdownMenu.Sub";
+
+/**
+ * DropdownMenu sub-trigger component.
+ */
+const DropdownMenuSubTrigger = forwardRef<HTMLElement, DropdownMenuSubTriggerProps>(
+  function DropdownMenuSubTrigger({ children, className, disabled = false, ...props }, ref) {
+    return createElement(
+      "ds-dropdown-menu-sub-trigger",
+      { ref, class: className, disabled: disabled || undefined, ...props },
+      children
+    );
+  }
+);
+DropdownMenuSubTrigger.displayName = "DropdownMenu.SubTrigger";
+
+/**
+ * DropdownMenu sub-content component.
+ */
+const DropdownMenuSubContent = forwardRef<HTMLElement, DropdownMenuSubContentProps>(
+  function DropdownMenuSubContent({ children, className, ...props }, ref) {
+    return createElement(
+      "ds-dropdown-menu-sub-content",
+      { ref, class: className, ...props },
+      children
+    );
+  }
+);
+DropdownMenuSubContent.displayName = "DropdownMenu.SubContent";
+
 // ============================================================================
 // Compound Component
 // ============================================================================
@@ -436,6 +567,9 @@ export const DropdownMenu = {
   CheckboxItem: DropdownMenuCheckboxItem,
   RadioGroup: DropdownMenuRadioGroup,
   RadioItem: DropdownMenuRadioItem,
+  Sub: DropdownMenuSub,
+  SubTrigger: DropdownMenuSubTrigger,
+  SubContent: DropdownMenuSubContent,
 };
 
 // Also export individual components
@@ -449,4 +583,7 @@ export {
   DropdownMenuCheckboxItem,
   DropdownMenuRadioGroup,
   DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 };
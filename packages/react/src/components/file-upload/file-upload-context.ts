@@ -20,6 +20,8 @@ export interface FileUploadContextValue {
   openFileDialog: () => void;
   /** Disabled state */
   disabled: boolean;
+  /** Whether files are uploaded through a transport */
+  canUpload: boolean;
 }
 
 export const [FileUploadProvider, useFileUploadContext] =
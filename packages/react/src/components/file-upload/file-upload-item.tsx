@@ -4,6 +4,7 @@
 
 import { type FileInfo, formatBytes } from "@hypoth-ui/primitives-dom";
 import { type HTMLAttributes, type ReactNode, forwardRef, useCallback } from "react";
+import { useMessages } from "../../i18n/index.js";
 import { useFileUploadContext } from "./file-upload-context.js";
 
 export interface FileUploadItemProps extends Omit<HTMLAttributes<HTMLLIElement>, "children"> {
@@ -15,6 +16,7 @@ export interface FileUploadItemProps extends Omit<HTMLAttributes<HTMLLIElement>,
 
 /**
  * Individual file item display with progress and remove functionality.
+ * With a transport on the root it also offers cancel and retry.
  *
  * @example
  * ```tsx
@@ -30,12 +32,29 @@ export interface FileUploadItemProps extends Omit<HTMLAttributes<HTMLLIElement>,
  */
 export const FileUploadItem = forwardRef<HTMLLIElement, FileUploadItemProps>(
   ({ file, children, className, ...restProps }, ref) => {
-    const { behavior, disabled } = useFileUploadContext("FileUpload.Item");
+    const { behavior, disabled, canUpload } = useFileUploadContext("FileUpload.Item");
+    const t = useMessages();
 
     const handleRemove = useCallback(() => {
       behavior.removeFile(file.id);
     }, [behavior, file.id]);
 
+    const handleCancel = useCallback(() => {
+      behavior.cancelUpload(file.id);
+    }, [behavior, file.id]);
+
+    const handleRetry = useCallback(() => {
+      behavior.retryUpload(file.id);
+    }, [behavior, file.id]);
+
+    const buttonStyle = {
+      background: "none",
+      border: "none",
+      cursor: "pointer",
+      padding: 4,
+      opacity: 0.7,
+    };
+
     const renderContent = () => {
       if (typeof children === "function") {
         return children(file);
@@ -66,23 +85,45 @@ export const FileUploadItem = forwardRef<HTMLLIElement, FileUploadItemProps>(
                   {file.error}
                 </span>
               )}
+              {file.status === "canceled" && (
+                <span style={{ marginLeft: 8 }}>{t("fileUpload.uploadCanceled")}</span>
+              )}
             </div>
             {file.status === "uploading" && (
-              <progress value={file.progress} max={100} style={{ width: "100%" }} />
+              <progress
+                value={file.progress}
+                max={100}
+                aria-label={t("fileUpload.uploadProgress", { name: file.name })}
+                style={{ width: "100%" }}
+              />
             )}
           </div>
+          {canUpload && file.status === "uploading" && (
+            <button
+              type="button"
+              aria-label={t("fileUpload.cancelUpload", { name: file.name })}
+              onClick={handleCancel}
+              style={buttonStyle}
+            >
+              {t("fileUpload.cancel")}
+            </button>
+          )}
+          {canUpload && (file.status === "error" || file.status === "canceled") && (
+            <button
+              type="button"
+              aria-label={t("fileUpload.retryUpload", { name: file.name })}
+              onClick={handleRetry}
+              style={buttonStyle}
+            >
+              {t("fileUpload.retry")}
+            </button>
+          )}
           {!disabled && (
             <button
               type="button"
-              aria-label={`Remove ${file.name}`}
+              aria-label={t("fileUpload.removeFile", { name: file.name })}
               onClick={handleRemove}
-              style={{
-                background: "none",
-                border: "none",
-                cursor: "pointer",
-                padding: 4,
-                opacity: 0.7,
-              }}
+              style={buttonStyle}
             >
               ×
             </button>
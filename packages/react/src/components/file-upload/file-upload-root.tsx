@@ -2,8 +2,13 @@
  * FileUpload Root component - provides context to all FileUpload compound components.
  */
 
-import { type FileInfo, type FileUploadError, createFileUploadBehavior } from "@hypoth-ui/primitives-dom";
-import { type ReactNode, useCallback, useMemo, useRef, useState } from "react";
+import {
+  type FileInfo,
+  type FileUploadError,
+  type UploadTransport,
+  createFileUploadBehavior,
+} from "@hypoth-ui/primitives-dom";
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { FileUploadProvider } from "./file-upload-context.js";
 
 export interface FileUploadRootProps {
@@ -29,6 +34,20 @@ export interface FileUploadRootProps {
   onFilesChange?: (files: FileInfo[]) => void;
   /** Called on validation error */
   onError?: (error: FileUploadError) => void;
+  /** Uploads added files through this transport, e.g. `createHttpTransport({ url })` */
+  transport?: UploadTransport;
+  /** Start uploading as soon as files are added */
+  autoUpload?: boolean;
+  /** Maximum simultaneous uploads */
+  concurrency?: number;
+  /** Automatic retries after a failed upload attempt */
+  retries?: number;
+  /** Delay in ms before the first retry, doubled for each retry */
+  retryDelay?: number;
+  /** Called with the server response when a file finishes uploading */
+  onUploadSuccess?: (file: FileInfo, response: unknown) => void;
+  /** Called when a file's upload fails after all retries */
+  onUploadError?: (file: FileInfo, error: unknown) => void;
 }
 
 /**
@@ -43,6 +62,11 @@ export interface FileUploadRootProps {
  *   </FileUpload.Dropzone>
  *   <FileUpload.FileList />
  * </FileUpload.Root>
+ *
+ * // Upload through a transport, with progress, cancel and retry per file
+ * <FileUpload.Root multiple transport={createHttpTransport({ url: "/api/upload" })}>
+ *   ...
+ * </FileUpload.Root>
  * ```
  */
 export function FileUploadRoot({
@@ -57,6 +81,13 @@ export function FileUploadRoot({
   onFileRemove,
   onFilesChange,
   onError,
+  transport,
+  autoUpload = true,
+  concurrency,
+  retries,
+  retryDelay,
+  onUploadSuccess,
+  onUploadError,
 }: FileUploadRootProps) {
   const [files, setFiles] = useState<FileInfo[]>([]);
   const [isDragging, setIsDragging] = useState(false);
@@ -64,31 +95,47 @@ export function FileUploadRoot({
 
   // Create behavior instance
   // biome-ignore lint/correctness/useExhaustiveDependencies: behavior is created once
-  const behavior = useMemo(
-    () =>
-      createFileUploadBehavior({
-        accept,
-        maxFiles,
-        maxSize,
-        minSize,
-        multiple,
-        disabled,
-        onFilesAdd: (files) => {
-          onFilesAdd?.(files);
-        },
-        onFileRemove: (file) => {
-          onFileRemove?.(file);
-        },
-        onFilesChange: (files) => {
-          setFiles(files);
-          onFilesChange?.(files);
-        },
-        onError: (error) => {
-          onError?.(error);
-        },
-      }),
-    []
-  );
+  const behavior = useMemo(() => {
+    const instance = createFileUploadBehavior({
+      accept,
+      maxFiles,
+      maxSize,
+      minSize,
+      multiple,
+      disabled,
+      transport,
+      autoUpload,
+      concurrency,
+      retries,
+      retryDelay,
+      onFileUpdate: () => {
+        setFiles(instance.state.files);
+      },
+      onUploadSuccess: (file, response) => {
+        onUploadSuccess?.(file, response);
+      },
+      onUploadError: (file, error) => {
+        onUploadError?.(file, error);
+      },
+      onFilesAdd: (files) => {
+        onFilesAdd?.(files);
+      },
+      onFileRemove: (file) => {
+        onFileRemove?.(file);
+      },
+      onFilesChange: (files) => {
+        setFiles(files);
+        onFilesChange?.(files);
+      },
+      onError: (error) => {
+        onError?.(error);
+      },
+    });
+    return instance;
+  }, []);
+
+  // Stop uploads and pending retries on unmount
+  useEffect(() => () => behavior.destroy(), [behavior]);
 
   const openFileDialog = useCallback(() => {
     if (!disabled) {
@@ -105,8 +152,9 @@ export function FileUploadRoot({
       inputRef,
       openFileDialog,
       disabled,
+      canUpload: transport !== undefined,
     }),
-    [behavior, files, isDragging, openFileDialog, disabled]
+    [behavior, files, isDragging, openFileDialog, disabled, transport]
   );
 
   return <FileUploadProvider value={contextValue}>{children}</FileUploadProvider>;
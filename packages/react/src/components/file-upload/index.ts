@@ -35,7 +35,7 @@ export {
 } from "./file-upload-context.js";
 
 // Re-export types from primitives
-export type { FileInfo, FileUploadError } from "@hypoth-ui/primitives-dom";
+export type { FileInfo, FileUploadError, UploadTransport } from "@hypoth-ui/primitives-dom";
 
 export const FileUpload = {
   Root: FileUploadRoot,
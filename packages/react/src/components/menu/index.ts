@@ -11,6 +11,12 @@
  *     <Menu.Label>Options</Menu.Label>
  *     <Menu.Item value="edit">Edit</Menu.Item>
  *     <Menu.Item value="duplicate">Duplicate</Menu.Item>
+ *     <Menu.Sub>
+ *       <Menu.SubTrigger>Share</Menu.SubTrigger>
+ *       <Menu.SubContent>
+ *         <Menu.Item value="email">Email</Menu.Item>
+ *       </Menu.SubContent>
+ *     </Menu.Sub>
  *     <Menu.Separator />
  *     <Menu.Item value="delete">Delete</Menu.Item>
  *   </Menu.Content>
@@ -23,6 +29,9 @@ import { MenuItem, type MenuItemProps } from "./menu-item.js";
 import { MenuLabel, type MenuLabelProps } from "./menu-label.js";
 import { MenuRoot, type MenuRootProps } from "./menu-root.js";
 import { MenuSeparator, type MenuSeparatorProps } from "./menu-separator.js";
+import { MenuSubContent, type MenuSubContentProps } from "./menu-sub-content.js";
+import { MenuSubTrigger, type MenuSubTriggerProps } from "./menu-sub-trigger.js";
+import { MenuSub, type MenuSubProps } from "./menu-sub.js";
 import { MenuTrigger, type MenuTriggerProps } from "./menu-trigger.js";
 
 // Compound component
@@ -33,6 +42,9 @@ export const Menu = {
   Item: MenuItem,
   Separator: MenuSeparator,
   Label: MenuLabel,
+  Sub: MenuSub,
+  SubTrigger: MenuSubTrigger,
+  SubContent: MenuSubContent,
 };
 
 // Type exports
@@ -42,6 +54,9 @@ export type {
   MenuLabelProps,
   MenuRootProps,
   MenuSeparatorProps,
+  MenuSubContentProps,
+  MenuSubProps,
+  MenuSubTriggerProps,
   MenuTriggerProps,
 };
 
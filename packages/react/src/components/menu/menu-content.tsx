@@ -36,7 +36,7 @@ export interface MenuContentProps extends HTMLAttributes<HTMLDivElement> {
  */
 export const MenuContent = forwardRef<HTMLDivElement, MenuContentProps>(
   ({ children, container, forceMount = false, onKeyDown, ...restProps }, ref) => {
-    const { behavior, open } = useMenuContext("Menu.Content");
+    const { behavior, open, dir } = useMenuContext("Menu.Content");
     const internalRef = useRef<HTMLDivElement>(null);
 
     // Register content element with behavior
@@ -89,6 +89,7 @@ export const MenuContent = forwardRef<HTMLDivElement, MenuContentProps>(
         aria-orientation={contentProps["aria-orientation"]}
         tabIndex={contentProps.tabIndex}
         data-state={open ? "open" : "closed"}
+        dir={dir}
         onKeyDown={handleKeyDown}
         {...restProps}
       >
@@ -2,7 +2,7 @@
  * Menu context for compound component pattern.
  */
 
-import type { MenuBehavior } from "@hypoth-ui/primitives-dom";
+import type { MenuBehavior, SubmenuBehavior, TextDirection } from "@hypoth-ui/primitives-dom";
 import { createCompoundContext } from "../../utils/create-context.js";
 
 export interface MenuContextValue {
@@ -12,6 +12,18 @@ export interface MenuContextValue {
   open: boolean;
   /** Set open state */
   setOpen: (open: boolean) => void;
+  /** Text direction set on the root, carried over to the portaled content */
+  dir?: TextDirection;
 }
 
 export const [MenuProvider, useMenuContext] = createCompoundContext<MenuContextValue>("Menu");
+
+export interface MenuSubContextValue {
+  /** Submenu behavior instance */
+  submenu: SubmenuBehavior;
+  /** Whether the submenu is open */
+  open: boolean;
+}
+
+export const [MenuSubProvider, useMenuSubContext] =
+  createCompoundContext<MenuSubContextValue>("MenuSub");
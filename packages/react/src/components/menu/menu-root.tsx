@@ -2,7 +2,7 @@
  * Menu Root component - provides context to all Menu compound components.
  */
 
-import { type Placement, createMenuBehavior } from "@hypoth-ui/primitives-dom";
+import { type Placement, type TextDirection, createMenuBehavior } from "@hypoth-ui/primitives-dom";
 import { type ReactNode, useCallback, useMemo, useState } from "react";
 import { useStableId } from "../../hooks/use-stable-id.js";
 import { MenuProvider } from "./menu-context.js";
@@ -28,6 +28,11 @@ export interface MenuRootProps {
   flip?: boolean;
   /** Whether to loop navigation at ends */
   loop?: boolean;
+  /**
+   * Text direction, mirroring logical placements and the submenu arrow keys.
+   * Resolved from the trigger's nearest `dir` attribute when not set.
+   */
+  dir?: TextDirection;
 }
 
 /**
@@ -56,6 +61,7 @@ export function MenuRoot({
   offset = 4,
   flip = true,
   loop = true,
+  dir,
 }: MenuRootProps) {
   // Generate SSR-safe stable ID using React 18's useId under the hood
   const stableId = useStableId({ id, prefix: "menu" });
@@ -85,6 +91,7 @@ export function MenuRoot({
         offset,
         flip,
         loop,
+        dir,
         onOpenChange: setOpen,
         onSelect,
         // Use SSR-safe stable ID generator
@@ -98,8 +105,9 @@ export function MenuRoot({
       behavior,
       open,
       setOpen,
+      dir,
     }),
-    [behavior, open, setOpen]
+    [behavior, open, setOpen, dir]
   );
 
   return <MenuProvider value={contextValue}>{children}</MenuProvider>;
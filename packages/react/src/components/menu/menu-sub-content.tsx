@@ -0,0 +1,113 @@
+/**
+ * Menu Sub Content component - the submenu panel.
+ */
+
+import {
+  type HTMLAttributes,
+  type ReactNode,
+  forwardRef,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
+import { useMenuSubContext } from "./menu-context.js";
+
+export interface MenuSubContentProps extends HTMLAttributes<HTMLDivElement> {
+  /** Submenu content */
+  children?: ReactNode;
+  /** Force mount even when closed (for animations) */
+  forceMount?: boolean;
+}
+
+/**
+ * Submenu panel with its own roving focus and type-ahead.
+ * Renders inline, inside the parent Menu.Content, and is positioned next to its sub-trigger.
+ *
+ * @example
+ * ```tsx
+ * <Menu.SubContent>
+ *   <Menu.Item value="email">Email</Menu.Item>
+ * </Menu.SubContent>
+ * ```
+ */
+export const MenuSubContent = forwardRef<HTMLDivElement, MenuSubContentProps>(
+  ({ children, forceMount = false, ...restProps }, ref) => {
+    const { submenu, open } = useMenuSubContext("Menu.SubContent");
+    const internalRef = useRef<HTMLDivElement>(null);
+
+    // Register content element with behavior
+    useEffect(() => {
+      if (open) {
+        const element = internalRef.current;
+        submenu.setContentElement(element);
+        return () => {
+          submenu.setContentElement(null);
+        };
+      }
+    }, [submenu, open]);
+
+    // Listen natively so submenu keys don't bubble into the parent menu
+    useEffect(() => {
+      const element = internalRef.current;
+      if (!open || !element) return;
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        // Items select on click, so Enter and Space activate the focused one
+        if (event.key === "Enter" || event.key === " ") {
+          const item = event.target as HTMLElement;
+          if (
+            item.getAttribute("role") === "menuitem" &&
+            item.closest('[role="menu"]') === element
+          ) {
+            event.preventDefault();
+            item.click();
+          }
+        }
+        submenu.handleContentKeyDown(event);
+      };
+      element.addEventListener("keydown", handleKeyDown);
+      return () => {
+        element.removeEventListener("keydown", handleKeyDown);
+      };
+    }, [submenu, open]);
+
+    // Get content props from behavior
+    const contentProps = submenu.getContentProps();
+
+    // Merge refs
+    const mergedRef = useCallback(
+      (element: HTMLDivElement | null) => {
+        (internalRef as React.MutableRefObject<HTMLDivElement | null>).current = element;
+        if (typeof ref === "function") {
+          ref(element);
+        } else if (ref) {
+          (ref as React.MutableRefObject<HTMLDivElement | null>).current = element;
+        }
+      },
+      [ref]
+    );
+
+    // Don't render if closed and not force mounted
+    if (!open && !forceMount) {
+      return null;
+    }
+
+    return (
+      <div
+        ref={mergedRef}
+        id={contentProps.id}
+        role={contentProps.role}
+        aria-labelledby={contentProps["aria-labelledby"]}
+        aria-orientation={contentProps["aria-orientation"]}
+        tabIndex={contentProps.tabIndex}
+        hidden={!open || undefined}
+        data-state={open ? "open" : "closed"}
+        {...restProps}
+      >
+        {children}
+      </div>
+    );
+  }
+);
+
+MenuSubContent.displayName = "Menu.SubContent";
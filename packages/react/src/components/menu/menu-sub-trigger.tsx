@@ -0,0 +1,96 @@
+/**
+ * Menu Sub Trigger component - the item that opens a submenu.
+ */
+
+import {
+  type HTMLAttributes,
+  type ReactNode,
+  forwardRef,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
+import { useMenuSubContext } from "./menu-context.js";
+
+export interface MenuSubTriggerProps extends HTMLAttributes<HTMLDivElement> {
+  /** Sub-trigger content */
+  children?: ReactNode;
+  /** Whether the sub-trigger is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Item in the parent menu that opens its submenu.
+ *
+ * @example
+ * ```tsx
+ * <Menu.SubTrigger>Share</Menu.SubTrigger>
+ * ```
+ */
+export const MenuSubTrigger = forwardRef<HTMLDivElement, MenuSubTriggerProps>(
+  ({ children, disabled = false, ...restProps }, ref) => {
+    const { submenu, open } = useMenuSubContext("Menu.SubTrigger");
+    const internalRef = useRef<HTMLDivElement>(null);
+
+    // Register the sub-trigger and listen natively, so keys that open the
+    // submenu stop before they reach the parent menu's roving focus
+    useEffect(() => {
+      const element = internalRef.current;
+      if (!element) return;
+
+      submenu.setTriggerElement(element);
+      if (disabled) {
+        return () => {
+          submenu.setTriggerElement(null);
+        };
+      }
+
+      element.addEventListener("keydown", submenu.handleTriggerKeyDown);
+      element.addEventListener("click", submenu.handleTriggerClick);
+      element.addEventListener("pointerenter", submenu.handleTriggerPointerEnter);
+      element.addEventListener("pointerleave", submenu.handleTriggerPointerLeave);
+      return () => {
+        element.removeEventListener("keydown", submenu.handleTriggerKeyDown);
+        element.removeEventListener("click", submenu.handleTriggerClick);
+        element.removeEventListener("pointerenter", submenu.handleTriggerPointerEnter);
+        element.removeEventListener("pointerleave", submenu.handleTriggerPointerLeave);
+        submenu.setTriggerElement(null);
+      };
+    }, [submenu, disabled]);
+
+    // Get trigger props from behavior
+    const triggerProps = submenu.getTriggerProps();
+
+    // Merge refs
+    const mergedRef = useCallback(
+      (element: HTMLDivElement | null) => {
+        (internalRef as React.MutableRefObject<HTMLDivElement | null>).current = element;
+        if (typeof ref === "function") {
+          ref(element);
+        } else if (ref) {
+          (ref as React.MutableRefObject<HTMLDivElement | null>).current = element;
+        }
+      },
+      [ref]
+    );
+
+    return (
+      <div
+        ref={mergedRef}
+        id={triggerProps.id}
+        role={triggerProps.role}
+        tabIndex={-1}
+        aria-haspopup={triggerProps["aria-haspopup"]}
+        aria-expanded={open}
+        aria-controls={open ? triggerProps["aria-controls"] : undefined}
+        aria-disabled={disabled ? "true" : undefined}
+        data-state={open ? "open" : "closed"}
+        {...restProps}
+      >
+        {children}
+      </div>
+    );
+  }
+);
+
+MenuSubTrigger.displayName = "Menu.SubTrigger";
@@ -0,0 +1,106 @@
+/**
+ * Menu Sub component - provides context to a nested submenu.
+ */
+
+import { type Placement, createSubmenuBehavior } from "@hypoth-ui/primitives-dom";
+import { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useStableId } from "../../hooks/use-stable-id.js";
+import { MenuSubProvider } from "./menu-context.js";
+
+export interface MenuSubProps {
+  /** Sub-trigger and sub-content */
+  children?: ReactNode;
+  /** Custom ID for the submenu (SSR-safe auto-generated if not provided) */
+  id?: string;
+  /** Controlled open state */
+  open?: boolean;
+  /** Default open state (uncontrolled) */
+  defaultOpen?: boolean;
+  /** Called when the submenu opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Placement relative to the sub-trigger, flipped when it doesn't fit */
+  placement?: Placement;
+  /** Offset from the sub-trigger in pixels */
+  offset?: number;
+}
+
+/**
+ * Nested submenu inside Menu.Content.
+ * Opens with ArrowRight, Enter, Space, click or hover and closes with ArrowLeft or Escape.
+ *
+ * @example
+ * ```tsx
+ * <Menu.Sub>
+ *   <Menu.SubTrigger>Share</Menu.SubTrigger>
+ *   <Menu.SubContent>
+ *     <Menu.Item value="email">Email</Menu.Item>
+ *     <Menu.Item value="link">Copy link</Menu.Item>
+ *   </Menu.SubContent>
+ * </Menu.Sub>
+ * ```
+ */
+export function MenuSub({
+  children,
+  id,
+  open: controlledOpen,
+  defaultOpen = false,
+  onOpenChange,
+  placement = "end-start",
+  offset = 0,
+}: MenuSubProps) {
+  const stableId = useStableId({ id, prefix: "menu-sub" });
+
+  // Support both controlled and uncontrolled modes
+  const [internalOpen, setInternalOpen] = useState(defaultOpen);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : internalOpen;
+
+  const setOpen = useCallback(
+    (nextOpen: boolean) => {
+      if (!isControlled) {
+        setInternalOpen(nextOpen);
+      }
+      onOpenChange?.(nextOpen);
+    },
+    [isControlled, onOpenChange]
+  );
+
+  // The behavior outlives renders, so it reads the latest setOpen through a ref
+  const setOpenRef = useRef(setOpen);
+  setOpenRef.current = setOpen;
+
+  // Create behavior instance - intentionally created once with initial values
+  // biome-ignore lint/correctness/useExhaustiveDependencies: behavior is created once, open state synced below
+  const submenu = useMemo(
+    () =>
+      createSubmenuBehavior({
+        placement,
+        offset,
+        onOpenChange: (nextOpen) => setOpenRef.current(nextOpen),
+        generateId: () => stableId,
+      }),
+    [stableId]
+  );
+
+  // Sync the behavior with defaultOpen and controlled changes
+  useEffect(() => {
+    if (open === submenu.state.open) return;
+    if (open) {
+      submenu.open(false);
+    } else {
+      submenu.close();
+    }
+  }, [submenu, open]);
+
+  useEffect(() => {
+    return () => {
+      submenu.destroy();
+    };
+  }, [submenu]);
+
+  const contextValue = useMemo(() => ({ submenu, open }), [submenu, open]);
+
+  return <MenuSubProvider value={contextValue}>{children}</MenuSubProvider>;
+}
+
+MenuSub.displayName = "Menu.Sub";
@@ -3,6 +3,7 @@
  */
 
 import { type ButtonHTMLAttributes, type MouseEvent, forwardRef, useCallback } from "react";
+import { useMessages } from "../../i18n/index.js";
 import { useNumberInputContext } from "./number-input-context.js";
 
 export interface NumberInputDecrementProps extends ButtonHTMLAttributes<HTMLButtonElement> {}
@@ -19,6 +20,7 @@ export const NumberInputDecrement = forwardRef<HTMLButtonElement, NumberInputDec
   ({ className, onClick, children, disabled: disabledProp, ...restProps }, ref) => {
     const { behavior, value, min, disabled, setInputValue } =
       useNumberInputContext("NumberInput.Decrement");
+    const t = useMessages();
 
     const isAtMin = min !== undefined && value !== null && value <= min;
     const isDisabled = disabled || disabledProp || isAtMin;
@@ -38,7 +40,7 @@ export const NumberInputDecrement = forwardRef<HTMLButtonElement, NumberInputDec
         ref={ref}
         type="button"
         tabIndex={-1}
-        aria-label="Decrement"
+        aria-label={t("numberInput.decrement")}
         disabled={isDisabled}
         className={className}
         onClick={handleClick}
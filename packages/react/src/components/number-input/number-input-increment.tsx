@@ -3,6 +3,7 @@
  */
 
 import { type ButtonHTMLAttributes, type MouseEvent, forwardRef, useCallback } from "react";
+import { useMessages } from "../../i18n/index.js";
 import { useNumberInputContext } from "./number-input-context.js";
 
 export interface NumberInputIncrementProps extends ButtonHTMLAttributes<HTMLButtonElement> {}
@@ -19,6 +20,7 @@ export const NumberInputIncrement = forwardRef<HTMLButtonElement, NumberInputInc
   ({ className, onClick, children, disabled: disabledProp, ...restProps }, ref) => {
     const { behavior, value, max, disabled, setInputValue } =
       useNumberInputContext("NumberInput.Increment");
+    const t = useMessages();
 
     const isAtMax = max !== undefined && value !== null && value >= max;
     const isDisabled = disabled || disabledProp || isAtMax;
@@ -38,7 +40,7 @@ export const NumberInputIncrement = forwardRef<HTMLButtonElement, NumberInputInc
         ref={ref}
         type="button"
         tabIndex={-1}
-        aria-label="Increment"
+        aria-label={t("numberInput.increment")}
         disabled={isDisabled}
         className={className}
         onClick={handleClick}
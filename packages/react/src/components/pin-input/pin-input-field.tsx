@@ -2,6 +2,7 @@
  * PinInput Field component - individual digit input field.
  */
 
+import { getDirection, mirrorArrowKey } from "@hypoth-ui/primitives-dom";
 import {
   type ClipboardEvent,
   type FocusEvent,
@@ -86,7 +87,7 @@ export const PinInputField = forwardRef<HTMLInputElement, PinInputFieldProps>(
 
     const handleKeyDown = useCallback(
       (event: KeyboardEvent<HTMLInputElement>) => {
-        switch (event.key) {
+        switch (mirrorArrowKey(event.key, getDirection(event.currentTarget))) {
           case "Backspace": {
             event.preventDefault();
             behavior.backspace(index);
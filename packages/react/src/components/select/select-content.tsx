@@ -84,6 +84,10 @@ export const SelectContent = forwardRef<HTMLDivElement, SelectContentProps>(
           placement: "bottom-start",
           offset: 4,
           flip: true,
+          padding: 8,
+          size: true,
+          hide: true,
+          autoUpdate: true,
           onPositionChange: (pos) => {
             content.setAttribute("data-placement", pos.placement);
           },
@@ -5,6 +5,7 @@
 import { type Placement, createSelectBehavior } from "@hypoth-ui/primitives-dom";
 import { type ReactNode, useCallback, useMemo, useState } from "react";
 import { useStableId } from "../../hooks/use-stable-id.js";
+import { useMessages } from "../../i18n/index.js";
 import { SelectProvider } from "./select-context.js";
 
 export interface SelectRootProps {
@@ -40,7 +41,7 @@ export interface SelectRootProps {
   clearable?: boolean;
   /** Whether the select is in a loading state (e.g., fetching options) */
   loading?: boolean;
-  /** Text to display/announce during loading */
+  /** Text to display/announce during loading (default: the `select.loading` message) */
   loadingText?: string;
 }
 
@@ -76,8 +77,11 @@ export function SelectRoot({
   searchable = true,
   clearable = false,
   loading = false,
-  loadingText = "Loading...",
+  loadingText: loadingTextProp,
 }: SelectRootProps) {
+  const t = useMessages();
+  const loadingText = loadingTextProp ?? t("select.loading");
+
   // Generate SSR-safe stable ID using React 18's useId under the hood
   const stableId = useStableId({ id, prefix: "select" });
 
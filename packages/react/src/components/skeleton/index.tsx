@@ -2,6 +2,7 @@
 
 import { type HTMLAttributes, createElement, forwardRef } from "react";
 import "@hypoth-ui/wc";
+import { useMessages } from "../../i18n/index.js";
 import {
   type ResponsiveProp,
   generateResponsiveDataAttr,
@@ -57,7 +58,7 @@ export interface SkeletonProps extends Omit<HTMLAttributes<HTMLElement>, "childr
 
   /**
    * Accessible label for screen readers.
-   * @default "Loading..."
+   * @default the `skeleton.loading` message
    */
   label?: string;
 }
@@ -90,12 +91,14 @@ export const Skeleton = forwardRef<HTMLElement, SkeletonProps>(function Skeleton
     customWidth,
     customHeight,
     animation = "wave",
-    label = "Loading...",
+    label,
     className,
     ...props
   },
   ref
 ) {
+  const t = useMessages();
+
   // Resolve responsive size - use base value for the WC attribute
   const resolvedSize = size ? resolveResponsiveValue(size, "md") : undefined;
   const isResponsive = size ? isResponsiveObject(size) : false;
@@ -109,7 +112,7 @@ export const Skeleton = forwardRef<HTMLElement, SkeletonProps>(function Skeleton
     "custom-width": customWidth,
     "custom-height": customHeight,
     animation,
-    label,
+    label: label ?? t("skeleton.loading"),
     class: className,
     // Add responsive data attribute for CSS targeting
     "data-size-responsive": responsiveSizeAttr,
@@ -37,11 +37,11 @@ export const SliderRange = forwardRef<HTMLDivElement, SliderRangeProps>(
     if (range) {
       positionStyle = isVertical
         ? { bottom: `${minPercent}%`, height: `${maxPercent - minPercent}%` }
-        : { left: `${minPercent}%`, width: `${maxPercent - minPercent}%` };
+        : { insetInlineStart: `${minPercent}%`, width: `${maxPercent - minPercent}%` };
     } else {
       positionStyle = isVertical
         ? { bottom: "0%", height: `${singlePercent}%` }
-        : { left: "0%", width: `${singlePercent}%` };
+        : { insetInlineStart: "0%", width: `${singlePercent}%` };
     }
 
     return (
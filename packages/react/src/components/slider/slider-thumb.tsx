@@ -2,7 +2,7 @@
  * Slider Thumb component - draggable handle for value selection.
  */
 
-import type { ThumbType } from "@hypoth-ui/primitives-dom";
+import { type ThumbType, getDirection, mirrorArrowKey } from "@hypoth-ui/primitives-dom";
 import {
   type HTMLAttributes,
   type KeyboardEvent,
@@ -84,7 +84,7 @@ export const SliderThumb = forwardRef<HTMLDivElement, SliderThumbProps>(
     const isVertical = orientation === "vertical";
     const positionStyle: React.CSSProperties = isVertical
       ? { bottom: `${percent}%` }
-      : { left: `${percent}%` };
+      : { insetInlineStart: `${percent}%` };
 
     // Determine value constraints
     let valueMin = min;
@@ -143,11 +143,16 @@ export const SliderThumb = forwardRef<HTMLDivElement, SliderThumbProps>(
       (event: KeyboardEvent<HTMLDivElement>) => {
         if (disabled) return;
 
-        switch (event.key) {
+        // A horizontal slider fills from the right in RTL
+        const key = isVertical
+          ? event.key
+          : mirrorArrowKey(event.key, getDirection(event.currentTarget));
+
+        switch (key) {
           case "ArrowRight":
           case "ArrowUp":
             event.preventDefault();
-            if (isVertical ? event.key === "ArrowUp" : event.key === "ArrowRight") {
+            if (isVertical ? key === "ArrowUp" : key === "ArrowRight") {
               behavior.increment(thumbType);
             } else {
               behavior.decrement(thumbType);
@@ -156,7 +161,7 @@ export const SliderThumb = forwardRef<HTMLDivElement, SliderThumbProps>(
           case "ArrowLeft":
           case "ArrowDown":
             event.preventDefault();
-            if (isVertical ? event.key === "ArrowDown" : event.key === "ArrowLeft") {
+            if (isVertical ? key === "ArrowDown" : key === "ArrowLeft") {
               behavior.decrement(thumbType);
             } else {
               behavior.increment(thumbType);
@@ -2,6 +2,7 @@
  * Slider Track component - the track along which thumbs move.
  */
 
+import { getDirection } from "@hypoth-ui/primitives-dom";
 import {
   type HTMLAttributes,
   type ReactNode,
@@ -71,6 +72,7 @@ export const SliderTrack = forwardRef<HTMLDivElement, SliderTrackProps>(
 
         if (orientation === "horizontal") {
           percent = ((event.clientX - rect.left) / rect.width) * 100;
+          if (getDirection(track) === "rtl") percent = 100 - percent;
         } else {
           percent = 100 - ((event.clientY - rect.top) / rect.height) * 100;
         }
@@ -1,4 +1,5 @@
 import { createElement, forwardRef, useEffect, useRef } from "react";
+import { useMessages } from "../i18n/index.js";
 import {
   type ResponsiveProp,
   generateResponsiveDataAttr,
@@ -21,7 +22,7 @@ export interface SpinnerProps {
    * ```
    */
   size?: ResponsiveProp<SpinnerSize>;
-  /** Accessible label for screen readers */
+  /** Accessible label for screen readers (default: the `spinner.label` message) */
   label?: string;
   /** Additional CSS classes */
   className?: string;
@@ -32,8 +33,9 @@ export interface SpinnerProps {
  * Provides type-safe props for loading indicator.
  */
 export const Spinner = forwardRef<HTMLElement, SpinnerProps>((props, forwardedRef) => {
-  const { size = "md", label = "Loading", className, ...rest } = props;
+  const { size = "md", label, className, ...rest } = props;
 
+  const t = useMessages();
   const internalRef = useRef<HTMLElement>(null);
 
   // Merge refs
@@ -53,7 +55,7 @@ export const Spinner = forwardRef<HTMLElement, SpinnerProps>((props, forwardedRe
   return createElement("ds-spinner", {
     ref: internalRef,
     size: resolvedSize,
-    label,
+    label: label ?? t("spinner.label"),
     class: className,
     // Add responsive data attribute for CSS targeting
     "data-size-responsive": responsiveSizeAttr,
@@ -61,6 +61,7 @@ declare global {
         fixed?: boolean;
         "sticky-header"?: boolean;
         caption?: string;
+        grid?: boolean;
       };
       "ds-table-header": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
         ref?: React.Ref<HTMLElement>;
@@ -41,6 +41,12 @@ export interface TableRootProps extends HTMLAttributes<HTMLElement> {
    */
   caption?: string;
 
+  /**
+   * Interactive grid mode with cell-level keyboard navigation (role="grid").
+   * @default false
+   */
+  grid?: boolean;
+
   /**
    * Table content.
    */
@@ -58,6 +64,7 @@ export const TableRoot = forwardRef<HTMLElement, TableRootProps>(function TableR
     fixed = false,
     stickyHeader = false,
     caption,
+    grid = false,
     children,
     className,
     ...props
@@ -74,6 +81,7 @@ export const TableRoot = forwardRef<HTMLElement, TableRootProps>(function TableR
       fixed: fixed || undefined,
       "sticky-header": stickyHeader || undefined,
       caption,
+      grid: grid || undefined,
       class: className,
       ...props,
     },
@@ -9,8 +9,12 @@ import { TimePickerProvider } from "./time-picker-context.js";
 export interface TimePickerRootProps {
   /** TimePicker content */
   children?: ReactNode;
-  /** 12-hour or 24-hour format */
+  /** 12-hour or 24-hour format; defaults to the locale's hour cycle */
   hourFormat?: 12 | 24;
+  /** Locale for the hour cycle, AM/PM labels and segment order */
+  locale?: string;
+  /** IANA time zone the value is expressed in */
+  timeZone?: string;
   /** Show seconds segment */
   showSeconds?: boolean;
   /** Controlled time value */
@@ -47,7 +51,9 @@ export interface TimePickerRootProps {
  */
 export function TimePickerRoot({
   children,
-  hourFormat = 12,
+  hourFormat,
+  locale,
+  timeZone,
   showSeconds = false,
   value: controlledValue,
   defaultValue = { hour: 0, minute: 0, second: 0 },
@@ -82,6 +88,8 @@ export function TimePickerRoot({
       createTimePickerBehavior({
         defaultValue: value,
         hourFormat,
+        locale,
+        timeZone,
         showSeconds,
         minuteStep,
         secondStep,
@@ -98,13 +106,13 @@ export function TimePickerRoot({
       behavior,
       value,
       setValue,
-      hourFormat,
+      hourFormat: behavior.state.hourFormat,
       showSeconds,
       focusedSegment,
       setFocusedSegment,
       disabled,
     }),
-    [behavior, value, setValue, hourFormat, showSeconds, focusedSegment, disabled]
+    [behavior, value, setValue, showSeconds, focusedSegment, disabled]
   );
 
   return <TimePickerProvider value={contextValue}>{children}</TimePickerProvider>;
@@ -16,9 +16,16 @@ export type {
   ToastAction,
   ToastData,
   ToastContextValue,
+  ToastContent,
+  ToastPromiseOptions,
 } from "./provider.js";
 
-export { useToast, type ToastOptions, type UseToastReturn } from "./use-toast.js";
+export {
+  useToast,
+  type ToastOptions,
+  type ToastFunction,
+  type UseToastReturn,
+} from "./use-toast.js";
 
 /**
  * Toast compound component.
@@ -6,11 +6,25 @@
  * Context provider and viewport for toast notifications.
  */
 
-import { type ReactNode, createContext, useCallback, useMemo, useState } from "react";
+import { type SwipeDirection, createHotkey } from "@hypoth-ui/primitives-dom";
+import {
+  type CSSProperties,
+  type FocusEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+  type ReactNode,
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useMessages } from "../../i18n/index.js";
 import { Portal } from "../../primitives/portal.js";
 import { ToastItem } from "./toast.js";
 
-export type ToastVariant = "info" | "success" | "warning" | "error";
+export type ToastVariant = "info" | "success" | "warning" | "error" | "loading";
 export type ToastPosition =
   | "top-left"
   | "top-center"
@@ -32,6 +46,20 @@ export interface ToastOptions {
   variant?: ToastVariant;
   duration?: number;
   action?: ToastAction;
+  /** Completion percentage (0-100) shown as a determinate bar, for progress toasts */
+  progress?: number;
+}
+
+/** Toast content for a promise state: a title or full options */
+export type ToastContent = string | ToastOptions;
+
+export interface ToastPromiseOptions<T> {
+  /** Shown while the promise is pending */
+  loading: ToastContent;
+  /** Shown when the promise resolves */
+  success: ToastContent | ((value: T) => ToastContent);
+  /** Shown when the promise rejects */
+  error: ToastContent | ((error: unknown) => ToastContent);
 }
 
 export interface ToastData extends ToastOptions {
@@ -42,6 +70,8 @@ export interface ToastData extends ToastOptions {
 
 export interface ToastContextValue {
   show: (options: ToastOptions) => string;
+  update: (id: string, options: Partial<ToastOptions>) => void;
+  promise: <T>(promise: Promise<T>, options: ToastPromiseOptions<T>) => string;
   dismiss: (id: string) => void;
   dismissAll: () => void;
   pause: (id: string) => void;
@@ -57,6 +87,10 @@ export interface ToastProviderProps {
   max?: number;
   /** Default duration in ms */
   duration?: number;
+  /** Keep toasts expanded instead of collapsing them into a stack */
+  expand?: boolean;
+  /** Shortcut that moves focus into the toast region (empty to disable) */
+  hotkey?: string;
   /** Children (your app) */
   children: ReactNode;
 }
@@ -67,9 +101,26 @@ function generateId(): string {
   return `toast-${++toastIdCounter}-${Date.now()}`;
 }
 
+function toOptions(content: ToastContent): ToastOptions {
+  return typeof content === "string" ? { title: content } : content;
+}
+
+/**
+ * Swipe direction that moves a toast toward the nearest screen edge.
+ */
+function swipeDirectionFor(position: ToastPosition): SwipeDirection {
+  if (position.endsWith("right")) return "right";
+  if (position.endsWith("left")) return "left";
+  return position.startsWith("top") ? "up" : "down";
+}
+
 /**
  * Toast Provider component.
  *
+ * Toasts are stacked and collapsed, newest in front, and expand while the
+ * region is hovered or focused. Pressing the `hotkey` (F8 by default) moves
+ * focus into the region; Escape returns it.
+ *
  * @example
  * ```tsx
  * <Toast.Provider position="top-right" max={5}>
@@ -81,10 +132,31 @@ export function ToastProvider({
   position = "top-right",
   max = 5,
   duration: defaultDuration = 5000,
+  expand = false,
+  hotkey = "F8",
   children,
 }: ToastProviderProps): ReactNode {
+  const t = useMessages();
   const [toasts, setToasts] = useState<ToastData[]>([]);
+  const [expanded, setExpanded] = useState(false);
   const timersRef = useMemo(() => new Map<string, ReturnType<typeof setTimeout>>(), []);
+  // When each toast's auto-dismiss countdown last started
+  const timerStartsRef = useMemo(() => new Map<string, number>(), []);
+  const viewportRef = useRef<HTMLElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const startTimer = useCallback(
+    (id: string, duration: number): void => {
+      timerStartsRef.set(id, Date.now());
+      if (duration > 0) {
+        const timerId = setTimeout(() => {
+          dismiss(id);
+        }, duration);
+        timersRef.set(id, timerId);
+      }
+    },
+    [timersRef, timerStartsRef]
+  );
 
   const show = useCallback(
     (options: ToastOptions): string => {
@@ -98,6 +170,7 @@ export function ToastProvider({
         variant: options.variant ?? "info",
         duration,
         action: options.action,
+        progress: options.progress,
         state: "entering",
         createdAt: Date.now(),
       };
@@ -126,16 +199,77 @@ export function ToastProvider({
       }, 200);
 
       // Set up auto-dismiss
-      if (duration > 0) {
-        const timerId = setTimeout(() => {
-          dismiss(id);
-        }, duration);
-        timersRef.set(id, timerId);
+      startTimer(id, duration);
+
+      return id;
+    },
+    [defaultDuration, max, timersRef, startTimer]
+  );
+
+  const update = useCallback(
+    (id: string, options: Partial<ToastOptions>): void => {
+      setToasts((prev) =>
+        prev.map((t) =>
+          t.id === id && t.state !== "exiting" && t.state !== "dismissed" ? { ...t, ...options } : t
+        )
+      );
+
+      // A new duration restarts the countdown
+      if (options.duration !== undefined) {
+        if (timersRef.has(id)) {
+          clearTimeout(timersRef.get(id));
+          timersRef.delete(id);
+        }
+        startTimer(id, options.duration);
       }
+    },
+    [timersRef, startTimer]
+  );
+
+  const promise = useCallback(
+    <T,>(promise: Promise<T>, options: ToastPromiseOptions<T>): string => {
+      const id = show({ variant: "loading", ...toOptions(options.loading), duration: 0 });
+
+      const settle = (content: ToastContent, variant: ToastVariant) => {
+        const { duration, ...rest } = toOptions(content);
+        update(id, {
+          variant,
+          description: undefined,
+          progress: undefined,
+          ...rest,
+          duration: duration ?? defaultDuration,
+        });
+      };
+
+      // A mapper that throws must not leave the toast loading
+      const errorContent = (error: unknown): ToastContent => {
+        try {
+          return typeof options.error === "function" ? options.error(error) : options.error;
+        } catch {
+          return error instanceof Error ? error.message : String(error);
+        }
+      };
+
+      promise.then(
+        (value) => {
+          let content: ToastContent;
+          try {
+            content =
+              typeof options.success === "function" ? options.success(value) : options.success;
+          } catch (error) {
+            settle(errorContent(error), "error");
+            return;
+          }
+          settle(content, "success");
+        },
+        (error: unknown) => {
+          settle(errorContent(error), "error");
+        }
+      );
 
       return id;
     },
-    [defaultDuration, max, timersRef]
+    [show, update, defaultDuration]
   );
 
   const dismiss = useCallback(
@@ -145,6 +279,7 @@ export function ToastProvider({
         clearTimeout(timersRef.get(id));
         timersRef.delete(id);
       }
+      timerStartsRef.delete(id);
 
       // Start exit animation
       setToasts((prev) =>
@@ -160,7 +295,7 @@ export function ToastProvider({
         setToasts((prev) => prev.filter((t) => t.id !== id));
       }, 150);
     },
-    [timersRef]
+    [timersRef, timerStartsRef]
   );
 
   const dismissAll = useCallback((): void => {
@@ -182,8 +317,13 @@ export function ToastProvider({
   const resume = useCallback(
     (id: string): void => {
       const toast = toasts.find((t) => t.id === id);
-      if (toast?.duration && toast.duration > 0 && toast.state === "visible") {
-        const elapsed = Date.now() - toast.createdAt;
+      if (
+        toast?.duration &&
+        toast.duration > 0 &&
+        toast.state === "visible" &&
+        !timersRef.has(id)
+      ) {
+        const elapsed = Date.now() - (timerStartsRef.get(id) ?? toast.createdAt);
         const remaining = Math.max(toast.duration - elapsed, 1000);
 
         const timerId = setTimeout(() => {
@@ -192,28 +332,77 @@ export function ToastProvider({
         timersRef.set(id, timerId);
       }
     },
-    [toasts, dismiss, timersRef]
+    [toasts, dismiss, timersRef, timerStartsRef]
   );
 
   const contextValue = useMemo<ToastContextValue>(
-    () => ({ show, dismiss, dismissAll, pause, resume }),
-    [show, dismiss, dismissAll, pause, resume]
+    () => ({ show, update, promise, dismiss, dismissAll, pause, resume }),
+    [show, update, promise, dismiss, dismissAll, pause, resume]
   );
 
+  const hasToasts = toasts.length > 0;
+
+  // Move focus into the region on the hotkey, remembering where it came from
+  useEffect(() => {
+    if (!hotkey || !hasToasts) return;
+    const handle = createHotkey({
+      hotkey,
+      onTrigger: () => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+        const active = document.activeElement;
+        if (active instanceof HTMLElement && !viewport.contains(active)) {
+          returnFocusRef.current = active;
+        }
+        viewport.focus();
+      },
+    });
+    return () => handle.destroy();
+  }, [hotkey, hasToasts]);
+
+  const handleKeyDown = useCallback((event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === "Escape" && returnFocusRef.current) {
+      event.preventDefault();
+      returnFocusRef.current.focus();
+      returnFocusRef.current = null;
+    }
+  }, []);
+
+  const handleEnter = useCallback(() => setExpanded(true), []);
+
+  const handleLeave = useCallback((event: MouseEvent<HTMLElement> | FocusEvent<HTMLElement>) => {
+    const viewport = event.currentTarget;
+    const related = event.relatedTarget as Node | null;
+    if (related && viewport.contains(related)) return;
+    // Stay expanded while focus is inside
+    if (event.type === "mouseleave" && viewport.contains(document.activeElement)) return;
+    setExpanded(false);
+  }, []);
+
   return (
     <ToastContext.Provider value={contextValue}>
       {children}
       <Portal>
         <section
+          ref={viewportRef}
           className="ds-toast-viewport"
           data-position={position}
-          aria-label="Notifications"
+          data-expanded={expand || expanded ? "" : undefined}
+          tabIndex={-1}
+          aria-label={hotkey ? t("toast.regionHotkey", { hotkey }) : t("toast.region")}
           aria-live="polite"
+          onMouseEnter={handleEnter}
+          onMouseLeave={handleLeave}
+          onFocus={handleEnter}
+          onBlur={handleLeave}
+          onKeyDown={handleKeyDown}
         >
-          {toasts.map((toast) => (
+          {toasts.map((toast, index) => (
             <ToastItem
               key={toast.id}
               toast={toast}
+              swipeDirection={swipeDirectionFor(position)}
+              style={{ "--ds-toast-index": index } as CSSProperties}
               onDismiss={() => dismiss(toast.id)}
               onPause={() => pause(toast.id)}
               onResume={() => resume(toast.id)}
@@ -6,7 +6,16 @@
  * Individual toast notification item.
  */
 
-import { type ReactNode, useCallback, useState } from "react";
+import { type SwipeDirection, createSwipeDismiss } from "@hypoth-ui/primitives-dom";
+import {
+  type CSSProperties,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useMessages } from "../../i18n/index.js";
 import type { ToastData, ToastVariant } from "./provider.js";
 
 /**
@@ -49,6 +58,17 @@ const VARIANT_ICONS: Record<ToastVariant, ReactNode> = {
       />
     </svg>
   ),
+  loading: (
+    <svg
+      className="ds-toast__icon ds-toast__spinner"
+      viewBox="0 0 20 20"
+      fill="none"
+      aria-hidden="true"
+    >
+      <circle cx="10" cy="10" r="7" stroke="currentColor" strokeOpacity="0.25" strokeWidth="2" />
+      <path d="M17 10a7 7 0 00-7-7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+    </svg>
+  ),
 };
 
 const CLOSE_ICON = (
@@ -59,6 +79,9 @@ const CLOSE_ICON = (
 
 export interface ToastItemProps {
   toast: ToastData;
+  /** Direction that dismisses the toast by swiping */
+  swipeDirection?: SwipeDirection;
+  style?: CSSProperties;
   onDismiss: () => void;
   onPause: () => void;
   onResume: () => void;
@@ -67,8 +90,33 @@ export interface ToastItemProps {
 /**
  * Individual toast notification component.
  */
-export function ToastItem({ toast, onDismiss, onPause, onResume }: ToastItemProps): ReactNode {
+export function ToastItem({
+  toast,
+  swipeDirection = "right",
+  style,
+  onDismiss,
+  onPause,
+  onResume,
+}: ToastItemProps): ReactNode {
+  const t = useMessages();
   const [isPaused, setIsPaused] = useState(false);
+  const ref = useRef<HTMLOutputElement>(null);
+
+  // Keep the latest callbacks without re-creating the swipe handler
+  const callbacksRef = useRef({ onDismiss, onPause, onResume });
+  callbacksRef.current = { onDismiss, onPause, onResume };
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const swipe = createSwipeDismiss(element, {
+      direction: swipeDirection,
+      onDismiss: () => callbacksRef.current.onDismiss(),
+      onSwipeStart: () => callbacksRef.current.onPause(),
+      onSwipeCancel: () => callbacksRef.current.onResume(),
+    });
+    return () => swipe.destroy();
+  }, [swipeDirection]);
 
   const handleMouseEnter = useCallback(() => {
     setIsPaused(true);
@@ -89,7 +137,9 @@ export function ToastItem({ toast, onDismiss, onPause, onResume }: ToastItemProp
 
   return (
     <output
+      ref={ref}
       className="ds-toast"
+      style={style}
       aria-live="polite"
       aria-atomic="true"
       data-variant={variant}
@@ -118,22 +168,32 @@ export function ToastItem({ toast, onDismiss, onPause, onResume }: ToastItemProp
       <button
         className="ds-toast__close"
         type="button"
-        aria-label="Dismiss notification"
+        aria-label={t("toast.dismiss")}
         onClick={onDismiss}
       >
         {CLOSE_ICON}
       </button>
 
-      {toast.duration && toast.duration > 0 && (
-        <div className="ds-toast__progress">
+      {toast.progress !== undefined ? (
+        <div className="ds-toast__progress" data-determinate="">
           <div
             className="ds-toast__progress-bar"
-            style={{
-              animation: `ds-toast-progress ${toast.duration}ms linear forwards`,
-              animationPlayState: isPaused ? "paused" : "running",
-            }}
+            style={{ transform: `scaleX(${Math.min(Math.max(toast.progress, 0), 100) / 100})` }}
           />
         </div>
+      ) : (
+        toast.duration &&
+        toast.duration > 0 && (
+          <div className="ds-toast__progress">
+            <div
+              className="ds-toast__progress-bar"
+              style={{
+                animation: `ds-toast-progress ${toast.duration}ms linear forwards`,
+                animationPlayState: isPaused ? "paused" : "running",
+              }}
+            />
+          </div>
+        )
       )}
     </output>
   );
@@ -6,8 +6,8 @@
  * React hook for showing and managing toasts.
  */
 
-import { useCallback, useContext } from "react";
-import { ToastContext } from "./provider.js";
+import { useCallback, useContext, useMemo } from "react";
+import { ToastContext, type ToastPromiseOptions } from "./provider.js";
 
 export interface ToastOptions {
   /** Toast title (required) */
@@ -15,7 +15,7 @@ export interface ToastOptions {
   /** Optional description */
   description?: string;
   /** Visual variant */
-  variant?: "info" | "success" | "warning" | "error";
+  variant?: "info" | "success" | "warning" | "error" | "loading";
   /** Auto-dismiss duration in ms (0 = no auto-dismiss) */
   duration?: number;
   /** Optional action button */
@@ -23,11 +23,30 @@ export interface ToastOptions {
     label: string;
     onClick: () => void;
   };
+  /** Completion percentage (0-100) shown as a determinate bar, for progress toasts */
+  progress?: number;
+}
+
+/**
+ * Toast function with helpers attached, e.g. `toast.promise(...)`.
+ */
+export interface ToastFunction {
+  (options: ToastOptions): string;
+  /** Show a loading toast that turns into a success or error toast */
+  promise: <T>(promise: Promise<T>, options: ToastPromiseOptions<T>) => string;
+  /** Update a toast in place */
+  update: (id: string, options: Partial<ToastOptions>) => void;
+  /** Dismiss a specific toast */
+  dismiss: (id: string) => void;
 }
 
 export interface UseToastReturn {
   /** Show a toast notification */
-  toast: (options: ToastOptions) => string;
+  toast: ToastFunction;
+  /** Update a toast in place; passing `duration` restarts its countdown */
+  update: (id: string, options: Partial<ToastOptions>) => void;
+  /** Show a loading toast that turns into a success or error toast */
+  promise: <T>(promise: Promise<T>, options: ToastPromiseOptions<T>) => string;
   /** Dismiss a specific toast */
   dismiss: (id: string) => void;
   /** Dismiss all toasts */
@@ -58,6 +77,13 @@ export interface UseToastReturn {
  *
  *   return <button onClick={handleSave}>Save</button>;
  * }
+ *
+ * // One toast that follows a promise
+ * toast.promise(upload(file), {
+ *   loading: "Uploading…",
+ *   success: (result) => `Uploaded ${result.name}`,
+ *   error: "Upload failed",
+ * });
  * ```
  */
 export function useToast(): UseToastReturn {
@@ -67,9 +93,16 @@ export function useToast(): UseToastReturn {
     throw new Error("useToast must be used within a Toast.Provider");
   }
 
-  const toast = useCallback(
-    (options: ToastOptions): string => {
-      return context.show(options);
+  const update = useCallback(
+    (id: string, options: Partial<ToastOptions>): void => {
+      context.update(id, options);
+    },
+    [context]
+  );
+
+  const promise = useCallback(
+    <T>(promise: Promise<T>, options: ToastPromiseOptions<T>): string => {
+      return context.promise(promise, options);
     },
     [context]
   );
@@ -85,5 +118,15 @@ export function useToast(): UseToastReturn {
     context.dismissAll();
   }, [context]);
 
-  return { toast, dismiss, dismissAll };
+  const toast = useMemo<ToastFunction>(
+    () =>
+      Object.assign((options: ToastOptions): string => context.show(options), {
+        promise,
+        update,
+        dismiss,
+      }),
+    [context, promise, update, dismiss]
+  );
+
+  return { toast, update, promise, dismiss, dismissAll };
 }
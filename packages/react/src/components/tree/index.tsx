@@ -43,7 +43,14 @@ declare global {
         size?: string;
         lines?: boolean;
         label?: string;
+        reorderable?: boolean;
+        virtualized?: boolean;
+        "item-height"?: number;
+        overscan?: number;
         "onDs-selection-change"?: (event: CustomEvent) => void;
+        "onDs-move"?: (event: CustomEvent) => void;
+        "onDs-expand"?: (event: CustomEvent) => void;
+        "onDs-activate"?: (event: CustomEvent) => void;
       };
       "ds-tree-item": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
         ref?: React.Ref<HTMLElement>;
@@ -51,6 +58,7 @@ declare global {
         expanded?: boolean;
         selected?: boolean;
         disabled?: boolean;
+        lazy?: boolean;
         "onDs-expand"?: (event: CustomEvent) => void;
         "onDs-select"?: (event: CustomEvent) => void;
         "onDs-activate"?: (event: CustomEvent) => void;
@@ -34,6 +34,13 @@ export interface TreeItemProps extends Omit<HTMLAttributes<HTMLElement>, "onSele
    */
   disabled?: boolean;
 
+  /**
+   * Whether the item has children that the tree's `loadChildren` loads on
+   * first expand.
+   * @default false
+   */
+  lazy?: boolean;
+
   /**
    * Callback when expand state changes.
    */
@@ -64,6 +71,7 @@ export const TreeItem = forwardRef<HTMLElement, TreeItemProps>(function TreeItem
     expanded = false,
     selected = false,
     disabled = false,
+    lazy = false,
     onExpand,
     onItemSelect,
     onActivate,
@@ -123,6 +131,7 @@ export const TreeItem = forwardRef<HTMLElement, TreeItemProps>(function TreeItem
       expanded: expanded || undefined,
       selected: selected || undefined,
       disabled: disabled || undefined,
+      lazy: lazy || undefined,
       class: className,
       ...props,
     },
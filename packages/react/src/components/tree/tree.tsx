@@ -1,5 +1,6 @@
 "use client";
 
+import type { TreeDataNode, TreeMove } from "@hypoth-ui/primitives-dom";
 import {
   type HTMLAttributes,
   type ReactNode,
@@ -9,8 +10,9 @@ import {
   useRef,
 } from "react";
 import "@hypoth-ui/wc";
+import { useMessages } from "../../i18n/index.js";
 
-export type TreeSelectionMode = "single" | "multiple" | "none";
+export type TreeSelectionMode = "single" | "multiple" | "checkbox" | "none";
 export type TreeSize = "default" | "compact";
 
 export interface TreeRootProps extends HTMLAttributes<HTMLElement> {
@@ -47,7 +49,7 @@ export interface TreeRootProps extends HTMLAttributes<HTMLElement> {
 
   /**
    * Text to display/announce during loading.
-   * @default "Loading..."
+   * @default the `tree.loading` message
    */
   loadingText?: string;
 
@@ -58,7 +60,61 @@ export interface TreeRootProps extends HTMLAttributes<HTMLElement> {
   loadingNodes?: string[];
 
   /**
-   * Callback when selection changes.
+   * Loads a node's children on its first expand, for items with `lazy`.
+   * Render the children before the promise resolves; a rejection shows an
+   * error with a retry button.
+   */
+  loadChildren?: (nodeId: string) => Promise<void>;
+
+  /**
+   * Whether items can be moved by drag and drop or with Alt+Arrow keys.
+   * Moves are only reported through `onMove`.
+   * @default false
+   */
+  reorderable?: boolean;
+
+  /**
+   * Nested node data. When set, the tree renders rows from the data
+   * instead of its children. Reordering is not available in this mode.
+   */
+  nodes?: TreeDataNode[];
+
+  /**
+   * Mount only the rows in view, for `nodes`.
+   * @default false
+   */
+  virtualized?: boolean;
+
+  /**
+   * Estimated row height for virtualization (in pixels).
+   * @default 32
+   */
+  itemHeight?: number;
+
+  /**
+   * Number of rows mounted beyond the viewport for virtualization.
+   * @default 5
+   */
+  overscan?: number;
+
+  /**
+   * Callback when an item or node expands or collapses.
+   */
+  onExpand?: (itemId: string, expanded: boolean) => void;
+
+  /**
+   * Callback when Enter is pressed on an item or node.
+   */
+  onActivate?: (itemId: string) => void;
+
+  /**
+   * Callback when an item is moved. The tree leaves the DOM to React:
+   * update your data to apply the move.
+   */
+  onMove?: (move: TreeMove) => void;
+
+  /**
+   * Callback when selection changes. In checkbox mode, receives the checked items.
    */
   onSelectionChange?: (selectedItems: string[]) => void;
 
@@ -78,8 +134,17 @@ export const TreeRoot = forwardRef<HTMLElement, TreeRootProps>(function TreeRoot
     lines = false,
     label = "Tree",
     loading = false,
-    loadingText = "Loading...",
+    loadingText,
     loadingNodes,
+    loadChildren,
+    reorderable = false,
+    nodes,
+    virtualized = false,
+    itemHeight,
+    overscan,
+    onMove,
+    onExpand,
+    onActivate,
     onSelectionChange,
     children,
     className,
@@ -87,6 +152,7 @@ export const TreeRoot = forwardRef<HTMLElement, TreeRootProps>(function TreeRoot
   },
   forwardedRef
 ) {
+  const t = useMessages();
   const internalRef = useRef<HTMLElement>(null);
 
   // Sync forwarded ref
@@ -112,14 +178,71 @@ export const TreeRoot = forwardRef<HTMLElement, TreeRootProps>(function TreeRoot
     return () => element.removeEventListener("ds:selection-change", handleSelectionChange);
   }, [onSelectionChange]);
 
+  useEffect(() => {
+    const element = internalRef.current;
+    if (!element) return;
+
+    const handleMove = (e: Event) => {
+      const event = e as CustomEvent<TreeMove>;
+      // React owns the items, so the move is applied through state, never
+      // to the DOM, even without an onMove handler
+      event.preventDefault();
+      onMove?.(event.detail);
+    };
+
+    element.addEventListener("ds:move", handleMove);
+    return () => element.removeEventListener("ds:move", handleMove);
+  }, [onMove]);
+
+  useEffect(() => {
+    const element = internalRef.current;
+    if (!element) return;
+
+    const handleExpand = (e: Event) => {
+      const event = e as CustomEvent<{ itemId: string; expanded: boolean }>;
+      onExpand?.(event.detail.itemId, event.detail.expanded);
+    };
+    const handleActivate = (e: Event) => {
+      const event = e as CustomEvent<{ itemId: string }>;
+      onActivate?.(event.detail.itemId);
+    };
+
+    element.addEventListener("ds:expand", handleExpand);
+    element.addEventListener("ds:activate", handleActivate);
+    return () => {
+      element.removeEventListener("ds:expand", handleExpand);
+      element.removeEventListener("ds:activate", handleActivate);
+    };
+  }, [onExpand, onActivate]);
+
   // Sync loadingNodes as a property (cannot be set via attribute)
   useEffect(() => {
-    const element = internalRef.current as HTMLElement & { loadingNodes?: Set<string> | string[] } | null;
+    const element = internalRef.current as
+      | (HTMLElement & { loadingNodes?: Set<string> | string[] })
+      | null;
     if (element && loadingNodes !== undefined) {
       element.loadingNodes = loadingNodes;
     }
   }, [loadingNodes]);
 
+  // Sync loadChildren as a property
+  useEffect(() => {
+    const element = internalRef.current as
+      | (HTMLElement & { loadChildren?: (nodeId: string) => Promise<void> })
+      | null;
+    if (element) {
+      element.loadChildren = loadChildren;
+    }
+  }, [loadChildren]);
+
+  // Sync nodes as a property (cannot be set via attribute)
+  useEffect(() => {
+    const element = internalRef.current as (HTMLElement & { nodes?: TreeDataNode[] }) | null;
+    if (element) {
+      element.nodes = nodes ?? [];
+    }
+  }, [nodes]);
+
   return createElement(
     "ds-tree",
     {
@@ -129,7 +252,11 @@ export const TreeRoot = forwardRef<HTMLElement, TreeRootProps>(function TreeRoot
       lines: lines || undefined,
       label,
       loading: loading || undefined,
-      "loading-text": loadingText,
+      reorderable: reorderable || undefined,
+      virtualized: virtualized || undefined,
+      "item-height": itemHeight,
+      overscan,
+      "loading-text": loadingText ?? t("tree.loading"),
       class: className,
       ...props,
     },
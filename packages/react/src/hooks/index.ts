@@ -17,3 +17,7 @@ export type {
 
 // Responsive utilities
 export { useResponsiveClasses } from "./use-responsive-classes.js";
+
+// Form state, validation and submission
+export { useForm } from "./use-form.js";
+export type { UseFormOptions, UseFormReturn, FormFieldProps } from "./use-form.js";
@@ -0,0 +1,231 @@
+"use client";
+
+/**
+ * React Form Hook
+ *
+ * Binds a form controller from @hypoth-ui/primitives-dom to React state:
+ * typed values, errors, dirty/touched flags, sync/async validation
+ * (including Standard Schema) and submission with focus on the first
+ * invalid field.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type FieldValidators,
+  type FormController,
+  type FormErrors,
+  type FormState,
+  type FormValidateOn,
+  type FormValidator,
+  type FormValues,
+  type StandardSchemaV1,
+  createFormController,
+  createFormValidators,
+} from "@hypoth-ui/primitives-dom";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for useForm hook
+ */
+export interface UseFormOptions<TValues extends FormValues> {
+  /** Values the form starts with */
+  initialValues: TValues;
+
+  /** Standard Schema that validates all values, e.g. a Zod object */
+  schema?: StandardSchemaV1;
+
+  /** Validators for single fields, by name */
+  fieldValidators?: FieldValidators<TValues>;
+
+  /** Validates all values; returns errors by field name */
+  validate?: FormValidator<TValues>;
+
+  /**
+   * When fields are validated before the first submit.
+   * Read once, when the form is created.
+   * @default "blur"
+   */
+  validateOn?: FormValidateOn;
+}
+
+/**
+ * Props that connect a control to the form
+ */
+export interface FormFieldProps<TValue> {
+  name: string;
+  /** The value, for controls with a non-boolean value */
+  value?: TValue;
+  /** The value, for checkboxes and switches */
+  checked?: boolean;
+  /** Accepts a change event or the new value */
+  onChange: (valueOrEvent: unknown) => void;
+  onBlur: () => void;
+  ref: (element: HTMLElement | null) => void;
+  "aria-invalid"?: true;
+}
+
+/**
+ * Return type for useForm hook
+ */
+export interface UseFormReturn<TValues extends FormValues> extends FormState<TValues> {
+  /** Props for a control: value, change and blur handlers, ref */
+  register: <K extends keyof TValues & string>(name: K) => FormFieldProps<TValues[K]>;
+
+  /**
+   * Returns a submit handler that validates, then calls `onValid` with the
+   * values, or focuses the first invalid field and calls `onInvalid`.
+   */
+  handleSubmit: (
+    onValid: (values: TValues) => void | Promise<void>,
+    onInvalid?: (errors: FormErrors<TValues>) => void
+  ) => (event?: { preventDefault: () => void }) => Promise<void>;
+
+  setValue: FormController<TValues>["setValue"];
+  setTouched: FormController<TValues>["setTouched"];
+  setError: FormController<TValues>["setError"];
+  validate: FormController<TValues>["validate"];
+  reset: FormController<TValues>["reset"];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const FOCUSABLE =
+  "input:not([type='hidden']), select, textarea, button, [tabindex]:not([tabindex='-1'])";
+
+/**
+ * Reads the new value from a change event, or takes the argument as the
+ * value (ds component callbacks pass the value first).
+ */
+function readChangeValue(valueOrEvent: unknown): unknown {
+  if (typeof valueOrEvent !== "object" || valueOrEvent === null || !("target" in valueOrEvent)) {
+    return valueOrEvent;
+  }
+  const target = (valueOrEvent as { target: unknown }).target;
+  if (target instanceof HTMLInputElement) {
+    if (target.type === "checkbox") return target.checked;
+    if (target.type === "file") return Array.from(target.files ?? []);
+  }
+  if (target instanceof HTMLSelectElement && target.multiple) {
+    return Array.from(target.selectedOptions, (option) => option.value);
+  }
+  return (target as { value?: unknown }).value;
+}
+
+/** Focuses a native field, or the first focusable part of a ds component */
+function focusField(element: HTMLElement): void {
+  const target = element.matches("input, select, textarea")
+    ? element
+    : (element.querySelector<HTMLElement>(FOCUSABLE) ?? element);
+  target.focus();
+}
+
+// =============================================================================
+// useForm Hook
+// =============================================================================
+
+/**
+ * Manage a form's values, validation and submission.
+ *
+ * Validators are read on every run, so inline functions and schemas are fine.
+ *
+ * @example
+ * ```tsx
+ * const schema = z.object({
+ *   email: z.string().email("Enter a valid email"),
+ *   terms: z.literal(true, { errorMap: () => ({ message: "Accept the terms" }) }),
+ * });
+ *
+ * function SignupForm() {
+ *   const form = useForm({ initialValues: { email: "", terms: false }, schema });
+ *
+ *   return (
+ *     <form onSubmit={form.handleSubmit((values) => signUp(values))}>
+ *       <Field>
+ *         <Label>Email</Label>
+ *         <input type="email" {...form.register("email")} />
+ *         <FieldError>{form.errors.email}</FieldError>
+ *       </Field>
+ *       <Checkbox {...form.register("terms")}>Accept the terms</Checkbox>
+ *       <Button type="submit" loading={form.isSubmitting}>Sign up</Button>
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useForm<TValues extends FormValues>(
+  options: UseFormOptions<TValues>
+): UseFormReturn<TValues> {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+
+  const [controller] = useState(() =>
+    createFormController<TValues>({
+      initialValues: options.initialValues,
+      validateOn: options.validateOn,
+      ...createFormValidators(() => optionsRef.current),
+    })
+  );
+
+  useEffect(() => () => controller.destroy(), [controller]);
+
+  const state = useSyncExternalStore(
+    controller.subscribe,
+    () => controller.state,
+    () => controller.state
+  );
+
+  const register = <K extends keyof TValues & string>(name: K): FormFieldProps<TValues[K]> => {
+    const value = state.values[name];
+    return {
+      name,
+      ...(typeof value === "boolean" ? { checked: value } : { value }),
+      onChange: (valueOrEvent) => {
+        controller.setValue(name, readChangeValue(valueOrEvent) as TValues[K]);
+      },
+      onBlur: () => controller.setTouched(name),
+      ref: (element) => {
+        if (element) elementsRef.current.set(name, element);
+        else elementsRef.current.delete(name);
+      },
+      ...(state.errors[name] ? { "aria-invalid": true as const } : {}),
+    };
+  };
+
+  const handleSubmit = useCallback<UseFormReturn<TValues>["handleSubmit"]>(
+    (onValid, onInvalid) => async (event) => {
+      event?.preventDefault();
+      const result = await controller.submit((values) => onValid(values));
+      if (result.valid) return;
+
+      // Focus the first invalid field in document order
+      const invalid = Array.from(elementsRef.current)
+        .filter(([name, element]) => result.errors[name] && element.isConnected)
+        .map(([, element]) => element)
+        .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+      if (invalid[0]) focusField(invalid[0]);
+
+      onInvalid?.(result.errors);
+    },
+    [controller]
+  );
+
+  return {
+    ...state,
+    register,
+    handleSubmit,
+    setValue: controller.setValue,
+    setTouched: controller.setTouched,
+    setError: controller.setError,
+    validate: controller.validate,
+    reset: controller.reset,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Localization
+ *
+ * Provides the locale and message catalog for built-in component strings.
+ *
+ * @packageDocumentation
+ */
+
+export { LocaleProvider, useLocale, useMessages } from "./locale-provider.js";
+export type { LocaleProviderProps, TranslateFunction } from "./locale-provider.js";
@@ -0,0 +1,158 @@
+"use client";
+
+/**
+ * Locale Provider
+ *
+ * Provides the locale and message catalog for built-in component strings.
+ * React components read messages from the nearest provider; the web
+ * components read the global catalog, which the provider sets by default.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type MessageKey,
+  type MessageValues,
+  type Messages,
+  getLocale,
+  getMessage,
+  setMessages,
+  subscribeMessages,
+} from "@hypoth-ui/primitives-dom";
+import {
+  type ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+interface LocaleContextValue {
+  locale: string;
+  messages: Partial<Messages>;
+}
+
+/**
+ * Locale context
+ */
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+LocaleContext.displayName = "LocaleContext";
+
+/**
+ * Props for LocaleProvider
+ */
+export interface LocaleProviderProps {
+  /** Child components */
+  children: ReactNode;
+  /** Locale for plural rules and number formatting */
+  locale: string;
+  /** Messages for this locale; missing keys fall back to a parent provider, then English */
+  messages?: Partial<Messages>;
+  /**
+   * Whether to also set the global catalog used by the web components
+   * (default: true). Set to false for a provider scoped to part of the app.
+   */
+  syncToGlobal?: boolean;
+}
+
+/**
+ * Translate function returned by useMessages
+ */
+export type TranslateFunction = (key: MessageKey, values?: MessageValues) => string;
+
+/**
+ * Locale Provider Component
+ *
+ * @example
+ * ```tsx
+ * import { deMessages } from "@hypoth-ui/primitives-dom/locales";
+ *
+ * function App() {
+ *   return (
+ *     <LocaleProvider locale="de" messages={deMessages}>
+ *       <Layout />
+ *     </LocaleProvider>
+ *   );
+ * }
+ * ```
+ */
+export function LocaleProvider({
+  children,
+  locale,
+  messages,
+  syncToGlobal = true,
+}: LocaleProviderProps): JSX.Element {
+  const parent = useContext(LocaleContext);
+
+  const value = useMemo(
+    () => ({ locale, messages: { ...parent?.messages, ...messages } }),
+    [locale, messages, parent]
+  );
+
+  // Sync to the global catalog
+  useEffect(() => {
+    if (!syncToGlobal) return;
+    setMessages(value.messages, value.locale);
+  }, [value, syncToGlobal]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+LocaleProvider.displayName = "LocaleProvider";
+
+/**
+ * Hook to read the locale from the nearest LocaleProvider
+ *
+ * @returns The locale, or the global catalog's locale outside of a provider
+ */
+export function useLocale(): string {
+  const context = useContext(LocaleContext);
+  return context?.locale ?? getLocale();
+}
+
+/**
+ * Hook to merge per-component overrides over the nearest LocaleProvider's
+ * messages, for forwarding to a web component's `messages` property
+ *
+ * @internal
+ */
+export function useMergedMessages(overrides?: Partial<Messages>): Partial<Messages> | undefined {
+  const context = useContext(LocaleContext);
+  return useMemo(
+    () => (overrides ? { ...context?.messages, ...overrides } : context?.messages),
+    [context, overrides]
+  );
+}
+
+/**
+ * Hook to translate built-in component messages
+ *
+ * Messages resolve from `overrides`, then the nearest LocaleProvider, then
+ * the global catalog, then English. Re-renders when the global catalog changes.
+ *
+ * @param overrides - Messages set on the component itself, which take precedence
+ *
+ * @example
+ * ```tsx
+ * function ClearButton({ messages }: { messages?: Partial<Messages> }) {
+ *   const t = useMessages(messages);
+ *   return <button type="button">{t("dataTable.clearSelection")}</button>;
+ * }
+ * ```
+ */
+export function useMessages(overrides?: Partial<Messages>): TranslateFunction {
+  const context = useContext(LocaleContext);
+  const messages = useMergedMessages(overrides);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => subscribeMessages(() => setVersion((current) => current + 1)), []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: version invalidates on catalog changes
+  return useCallback(
+    (key, values) => getMessage(key, values, { messages, locale: context?.locale }),
+    [messages, context, version]
+  );
+}
@@ -58,6 +58,9 @@ export type {
   MenuItemProps,
   MenuSeparatorProps,
   MenuLabelProps,
+  MenuSubProps,
+  MenuSubTriggerProps,
+  MenuSubContentProps,
 } from "./components/menu/index.js";
 
 // Select compound component types
@@ -88,6 +91,7 @@ export type {
   DatePickerTriggerProps,
   DatePickerContentProps,
   DatePickerCalendarProps,
+  DatePickerPresetsProps,
   DatePickerMode,
 } from "./components/date-picker/index.js";
 
@@ -126,6 +130,9 @@ export type {
   TimeSegment,
 } from "./components/time-picker/index.js";
 
+// DateTimePicker component types
+export type { DateTimePickerProps } from "./components/date-time-picker/index.js";
+
 // PinInput compound component types
 export type {
   PinInputRootProps,
@@ -212,11 +219,16 @@ export type {
   DensityContextValue,
   ThemeProviderProps,
   DensityProviderProps,
+  DirectionProviderProps,
   ThemeScriptOptions,
   ThemeScriptProps,
   StorageKeys,
 } from "./theme/index.js";
 
+// Localization types
+export type { LocaleProviderProps, TranslateFunction } from "./i18n/index.js";
+export type { Messages, MessageKey, MessageValues } from "@hypoth-ui/primitives-dom";
+
 // Additional type exports for components with inline types in index.ts
 export type {
   CardRootProps,
@@ -300,6 +312,9 @@ export type {
   DropdownMenuCheckboxItemProps,
   DropdownMenuRadioGroupProps,
   DropdownMenuRadioItemProps,
+  DropdownMenuSubProps,
+  DropdownMenuSubTriggerProps,
+  DropdownMenuSubContentProps,
   DropdownMenuPlacement,
   DropdownMenuItemVariant,
 } from "./components/dropdown-menu/index.js";
@@ -311,7 +326,11 @@ export type {
   ContextMenuItemProps,
   ContextMenuSeparatorProps,
   ContextMenuLabelProps,
+  ContextMenuSubProps,
+  ContextMenuSubTriggerProps,
+  ContextMenuSubContentProps,
   ContextMenuItemVariant,
+  ContextMenuSubPlacement,
 } from "./components/context-menu/index.js";
 
 export type {
@@ -381,6 +400,10 @@ export type {
   CommandSeparatorProps,
   CommandEmptyProps,
   CommandLoadingProps,
+  CommandPageProps,
+  CommandDialogProps,
+  CommandPaletteSource,
+  CommandSourceItem,
 } from "./components/command/index.js";
 
 export type { AlertProps, AlertVariant } from "./components/alert/index.js";
@@ -393,6 +416,9 @@ export type {
   ToastAction,
   ToastData,
   ToastOptions,
+  ToastContent,
+  ToastPromiseOptions,
+  ToastFunction,
   UseToastReturn,
 } from "./components/toast/index.js";
 
@@ -454,10 +480,23 @@ export type { CalendarProps, CalendarSize } from "./components/calendar/index.js
 
 export type {
   DataTableProps,
+  DataTableBodyProps,
   DataTableColumn,
   DataTableSort,
   DataTablePagination,
   DataTableSortDirection,
+  DataTableColumnState,
+  DataTableColumnStateReason,
+  DataTablePinSide,
+  DataTableEditorType,
+  DataTableEditorOption,
+  DataTableValidationResult,
+  DataTableCellEditSource,
+  DataTableCellEditDetail,
+  DataTableAggregate,
+  DataTableAggregateFunction,
+  DataTableExpandChangeDetail,
+  DataTableExpandKind,
 } from "./components/data-table/index.js";
 
 // Hook types
@@ -465,6 +504,9 @@ export type {
   UseStableIdOptions,
   UseStableIdsOptions,
   StableIds,
+  UseFormOptions,
+  UseFormReturn,
+  FormFieldProps,
 } from "./hooks/index.js";
 
 // Additional types that were previously co-exported with runtime components
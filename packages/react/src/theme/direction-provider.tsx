@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * Direction Provider
+ *
+ * Sets the text direction for the app. Components resolve their direction
+ * from the nearest `dir` attribute, so the provider writes it to the root
+ * element by default.
+ *
+ * @packageDocumentation
+ */
+
+import type { TextDirection } from "@hypoth-ui/primitives-dom";
+import { type ReactNode, createContext, useContext, useEffect } from "react";
+
+/**
+ * Direction context
+ */
+const DirectionContext = createContext<TextDirection | null>(null);
+
+DirectionContext.displayName = "DirectionContext";
+
+/**
+ * Props for DirectionProvider
+ */
+export interface DirectionProviderProps {
+  /** Child components */
+  children: ReactNode;
+  /** Text direction */
+  dir: TextDirection;
+  /**
+   * Whether to set `dir` on the root element (default: true). When false,
+   * set `dir` on an element wrapping the section yourself.
+   */
+  syncToDOM?: boolean;
+}
+
+/**
+ * Direction Provider Component
+ *
+ * @example
+ * ```tsx
+ * function App({ locale }: { locale: string }) {
+ *   return (
+ *     <DirectionProvider dir={locale === "ar" ? "rtl" : "ltr"}>
+ *       <Layout />
+ *     </DirectionProvider>
+ *   );
+ * }
+ * ```
+ */
+export function DirectionProvider({
+  children,
+  dir,
+  syncToDOM = true,
+}: DirectionProviderProps): JSX.Element {
+  // Sync to DOM attribute
+  useEffect(() => {
+    if (!syncToDOM || typeof document === "undefined") return;
+    document.documentElement.dir = dir;
+  }, [dir, syncToDOM]);
+
+  return <DirectionContext.Provider value={dir}>{children}</DirectionContext.Provider>;
+}
+
+DirectionProvider.displayName = "DirectionProvider";
+
+/**
+ * Hook to read the text direction from the nearest DirectionProvider
+ *
+ * @param localDir - Direction set on the component itself, which takes precedence
+ * @returns The direction, `"ltr"` outside of a provider
+ *
+ * @example
+ * ```tsx
+ * function BackIcon() {
+ *   const dir = useDirection();
+ *   return dir === "rtl" ? <ArrowRightIcon /> : <ArrowLeftIcon />;
+ * }
+ * ```
+ */
+export function useDirection(localDir?: TextDirection): TextDirection {
+  const contextDir = useContext(DirectionContext);
+  return localDir ?? contextDir ?? "ltr";
+}
@@ -1,7 +1,8 @@
 /**
  * Theme System
  *
- * Provides theme (color mode) and density management for the design system.
+ * Provides theme (color mode), density and text direction management for the
+ * design system.
  *
  * @packageDocumentation
  */
@@ -34,6 +35,9 @@ export type { ThemeProviderProps } from "./theme-provider.js";
 export { DensityProvider, useDensityContext } from "./density-provider.js";
 export type { DensityProviderProps } from "./density-provider.js";
 
+export { DirectionProvider, useDirection } from "./direction-provider.js";
+export type { DirectionProviderProps } from "./direction-provider.js";
+
 // Hooks
 export {
   useTheme,
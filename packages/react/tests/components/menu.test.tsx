@@ -155,4 +155,56 @@ describe("Menu", () => {
       expect(childKeyDownHandler).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe("submenus", () => {
+    function renderWithSubmenu(onSelect = vi.fn()) {
+      render(
+        <Menu.Root onSelect={onSelect}>
+          <Menu.Trigger>Options</Menu.Trigger>
+          <Menu.Content>
+            <Menu.Item value="copy">Copy</Menu.Item>
+            <Menu.Sub>
+              <Menu.SubTrigger>Share</Menu.SubTrigger>
+              <Menu.SubContent>
+                <Menu.Item value="email">Email</Menu.Item>
+                <Menu.Item value="link">Copy link</Menu.Item>
+              </Menu.SubContent>
+            </Menu.Sub>
+          </Menu.Content>
+        </Menu.Root>
+      );
+    }
+
+    it("opens with ArrowRight and closes with ArrowLeft", async () => {
+      const user = userEvent.setup();
+      renderWithSubmenu();
+
+      await user.click(screen.getByRole("button", { name: "Options" }));
+      const subTrigger = screen.getByRole("menuitem", { name: "Share" });
+      subTrigger.focus();
+      await user.keyboard("{ArrowRight}");
+
+      expect(subTrigger).toHaveAttribute("aria-expanded", "true");
+      expect(screen.getByRole("menuitem", { name: "Email" })).toHaveFocus();
+
+      await user.keyboard("{ArrowLeft}");
+
+      expect(subTrigger).toHaveAttribute("aria-expanded", "false");
+      expect(screen.queryByRole("menuitem", { name: "Email" })).not.toBeInTheDocument();
+      expect(subTrigger).toHaveFocus();
+    });
+
+    it("selects a submenu item with Enter and closes the whole menu", async () => {
+      const user = userEvent.setup();
+      const onSelect = vi.fn();
+      renderWithSubmenu(onSelect);
+
+      await user.click(screen.getByRole("button", { name: "Options" }));
+      screen.getByRole("menuitem", { name: "Share" }).focus();
+      await user.keyboard("{ArrowRight}{ArrowDown}{Enter}");
+
+      expect(onSelect).toHaveBeenCalledWith("link");
+      expect(screen.queryByRole("menu")).not.toBeInTheDocument();
+    });
+  });
 });
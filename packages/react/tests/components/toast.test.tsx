@@ -0,0 +1,67 @@
+/**
+ * Tests for React Toast promise toasts.
+ */
+
+import { act, cleanup, render } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { Toast } from "../../src/components/toast/index.js";
+import { type UseToastReturn, useToast } from "../../src/components/toast/use-toast.js";
+
+function renderToasts(): UseToastReturn {
+  let api: UseToastReturn | undefined;
+  function Probe() {
+    api = useToast();
+    return null;
+  }
+  render(
+    <Toast.Provider>
+      <Probe />
+    </Toast.Provider>
+  );
+  if (!api) throw new Error("useToast did not render");
+  return api;
+}
+
+function toastElement(): HTMLElement | null {
+  return document.querySelector(".ds-toast");
+}
+
+describe("Toast.promise", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows the error toast when the success mapper throws", async () => {
+    const { promise } = renderToasts();
+
+    await act(async () => {
+      promise(Promise.resolve("ok"), {
+        loading: "Saving…",
+        success: () => {
+          throw new Error("Bad payload");
+        },
+        error: (error) => `Failed: ${(error as Error).message}`,
+      });
+    });
+
+    expect(toastElement()?.getAttribute("data-variant")).toBe("error");
+    expect(toastElement()?.textContent).toContain("Failed: Bad payload");
+  });
+
+  it("falls back to the error message when the error mapper throws", async () => {
+    const { promise } = renderToasts();
+
+    await act(async () => {
+      promise(Promise.reject(new Error("Offline")), {
+        loading: "Saving…",
+        success: "Saved",
+        error: () => {
+          throw new Error("Mapper broke");
+        },
+      });
+    });
+
+    expect(toastElement()?.getAttribute("data-variant")).toBe("error");
+    expect(toastElement()?.textContent).toContain("Offline");
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for React Tree moves.
+ */
+
+import type { TreeMove } from "@hypoth-ui/primitives-dom";
+import { cleanup, render } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Tree } from "../../src/components/tree/index.js";
+
+const move: TreeMove = {
+  sourceId: "b",
+  targetId: "a",
+  position: "before",
+  parentId: null,
+  index: 0,
+};
+
+function dispatchMove(tree: Element): CustomEvent {
+  const event = new CustomEvent("ds:move", { detail: move, cancelable: true });
+  tree.dispatchEvent(event);
+  return event;
+}
+
+describe("Tree", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("leaves the DOM to React and reports moves through onMove", () => {
+    const onMove = vi.fn();
+    const { container } = render(<Tree reorderable onMove={onMove} />);
+    const tree = container.querySelector("ds-tree") as Element;
+
+    expect(dispatchMove(tree).defaultPrevented).toBe(true);
+    expect(onMove).toHaveBeenCalledWith(move);
+  });
+
+  it("cancels moves without an onMove handler", () => {
+    const { container } = render(<Tree reorderable />);
+
+    expect(dispatchMove(container.querySelector("ds-tree") as Element).defaultPrevented).toBe(true);
+  });
+});
@@ -35,14 +35,14 @@ import type {
 // Test that pure utility exports work from main entry (server-safe)
 import {
   composeEventHandlers,
+  getSystemColorMode,
+  getThemeScriptContent,
+  getThemeScriptProps,
+  getThemeScriptTag,
   mergeClassNames,
   mergeProps,
   mergeStyles,
-  getThemeScriptContent,
-  getThemeScriptTag,
-  getThemeScriptProps,
   parseThemeCookie,
-  getSystemColorMode,
   syncThemeStorage,
 } from "../src/index.js";
 
@@ -268,10 +268,20 @@ describe("Client entry point", () => {
 
     expect(clientExports.ThemeProvider).toBeDefined();
     expect(clientExports.DensityProvider).toBeDefined();
+    expect(clientExports.DirectionProvider).toBeDefined();
+    expect(clientExports.useDirection).toBeDefined();
     expect(clientExports.useTheme).toBeDefined();
     expect(clientExports.useColorMode).toBeDefined();
   });
 
+  it("should export localization from client entry", async () => {
+    const clientExports = await import("../src/client.js");
+
+    expect(clientExports.LocaleProvider).toBeDefined();
+    expect(clientExports.useLocale).toBeDefined();
+    expect(clientExports.useMessages).toBeDefined();
+  });
+
   it("should export EmptyState from client entry", async () => {
     const clientExports = await import("../src/client.js");
 
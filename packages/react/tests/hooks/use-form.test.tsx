@@ -0,0 +1,160 @@
+import type { StandardSchemaV1 } from "@hypoth-ui/primitives-dom";
+import { act, cleanup, fireEvent, render } from "@testing-library/react";
+import { StrictMode } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type UseFormOptions, useForm } from "../../src/hooks/use-form.js";
+
+interface SignupValues {
+  [key: string]: unknown;
+  email: string;
+  terms: boolean;
+}
+
+const emailSchema: StandardSchemaV1<SignupValues> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { email } = value as SignupValues;
+      return email.includes("@")
+        ? { value: value as SignupValues }
+        : { issues: [{ message: "Enter a valid email", path: ["email"] }] };
+    },
+  },
+};
+
+function SignupForm({
+  onValid,
+  onInvalid,
+  ...options
+}: Partial<UseFormOptions<SignupValues>> & {
+  onValid: (values: SignupValues) => void;
+  onInvalid?: () => void;
+}) {
+  const form = useForm<SignupValues>({
+    initialValues: { email: "", terms: false },
+    schema: emailSchema,
+    ...options,
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit(onValid, onInvalid)}>
+      <input aria-label="Email" {...form.register("email")} />
+      <span data-testid="email-error">{form.errors.email}</span>
+      <input type="checkbox" aria-label="Terms" {...form.register("terms")} />
+      <span data-testid="state">
+        {JSON.stringify({ dirty: form.isDirty, touched: form.touched, valid: form.isValid })}
+      </span>
+      <button type="submit">Sign up</button>
+    </form>
+  );
+}
+
+/** Lets async validation settle */
+async function flush(): Promise<void> {
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+}
+
+describe("useForm", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("binds values and tracks dirty and touched fields", async () => {
+    const { getByLabelText, getByTestId } = render(<SignupForm onValid={vi.fn()} />);
+    const email = getByLabelText("Email") as HTMLInputElement;
+
+    fireEvent.change(email, { target: { value: "ada@example.com" } });
+    fireEvent.blur(email);
+    await flush();
+
+    expect(email.value).toBe("ada@example.com");
+    expect((getByLabelText("Terms") as HTMLInputElement).checked).toBe(false);
+    expect(JSON.parse(getByTestId("state").textContent ?? "")).toEqual({
+      dirty: true,
+      touched: { email: true },
+      valid: true,
+    });
+  });
+
+  it("validates a field on blur and marks it invalid", async () => {
+    const { getByLabelText, getByTestId } = render(<SignupForm onValid={vi.fn()} />);
+    const email = getByLabelText("Email");
+
+    fireEvent.change(email, { target: { value: "ada" } });
+    await flush();
+    expect(getByTestId("email-error").textContent).toBe("");
+
+    fireEvent.blur(email);
+    await flush();
+    expect(getByTestId("email-error").textContent).toBe("Enter a valid email");
+    expect(email.getAttribute("aria-invalid")).toBe("true");
+  });
+
+  it("focuses the first invalid field on a failed submit", async () => {
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+    const { getByLabelText, getByText } = render(
+      <SignupForm
+        onValid={onValid}
+        onInvalid={onInvalid}
+        fieldValidators={{ terms: async (terms) => (terms ? undefined : "Accept the terms") }}
+      />
+    );
+
+    fireEvent.submit(getByText("Sign up"));
+    await flush();
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith({
+      email: "Enter a valid email",
+      terms: "Accept the terms",
+    });
+    expect(document.activeElement).toBe(getByLabelText("Email"));
+  });
+
+  it("submits typed values when valid", async () => {
+    const onValid = vi.fn();
+    const { getByLabelText, getByText } = render(<SignupForm onValid={onValid} />);
+
+    fireEvent.change(getByLabelText("Email"), { target: { value: "ada@example.com" } });
+    fireEvent.submit(getByText("Sign up"));
+    await flush();
+
+    expect(onValid).toHaveBeenCalledWith({ email: "ada@example.com", terms: false });
+  });
+
+  it("accepts values from ds component callbacks", async () => {
+    let setTerms: ((value: unknown) => void) | undefined;
+    function Probe() {
+      const form = useForm({ initialValues: { terms: false } });
+      setTerms = form.register("terms").onChange;
+      return <span data-testid="terms">{String(form.values.terms)}</span>;
+    }
+    const { getByTestId } = render(<Probe />);
+
+    act(() => setTerms?.(true));
+
+    expect(getByTestId("terms").textContent).toBe("true");
+  });
+
+  it("keeps updating under StrictMode", () => {
+    let setEmail: ((value: unknown) => void) | undefined;
+    function Probe() {
+      const form = useForm({ initialValues: { email: "" } });
+      setEmail = form.register("email").onChange;
+      return <span data-testid="email">{form.values.email}</span>;
+    }
+    const { getByTestId } = render(
+      <StrictMode>
+        <Probe />
+      </StrictMode>
+    );
+
+    act(() => setEmail?.("ada@example.com"));
+
+    expect(getByTestId("email").textContent).toBe("ada@example.com");
+  });
+});
@@ -0,0 +1,107 @@
+import { getLocale, getMessage, setMessages } from "@hypoth-ui/primitives-dom";
+import { act, cleanup, render } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { Spinner } from "../../src/components/spinner.js";
+import { LocaleProvider, useLocale, useMessages } from "../../src/i18n/index.js";
+
+class MockDsSpinner extends HTMLElement {}
+
+if (!customElements.get("ds-spinner")) {
+  customElements.define("ds-spinner", MockDsSpinner);
+}
+
+function Translated({ overrides }: { overrides?: Parameters<typeof useMessages>[0] }) {
+  const t = useMessages(overrides);
+  const locale = useLocale();
+  return (
+    <span data-locale={locale}>
+      {t("fileUpload.filesAdded", { count: 3, name: "a.png" })}|{t("toast.dismiss")}
+    </span>
+  );
+}
+
+describe("LocaleProvider", () => {
+  afterEach(() => {
+    cleanup();
+    setMessages({}, "en");
+  });
+
+  it("should render English messages without a provider", () => {
+    const { container } = render(<Translated />);
+    const span = container.querySelector("span");
+
+    expect(span?.textContent).toBe("3 files added|Dismiss notification");
+    expect(span?.dataset.locale).toBe("en");
+  });
+
+  it("should provide messages to built-in components", () => {
+    const { container } = render(
+      <LocaleProvider locale="de" messages={{ "spinner.label": "Wird geladen" }}>
+        <Spinner />
+      </LocaleProvider>
+    );
+
+    expect(container.querySelector("ds-spinner")?.getAttribute("label")).toBe("Wird geladen");
+  });
+
+  it("should fall back to a parent provider, then English", () => {
+    const { container } = render(
+      <LocaleProvider locale="de" messages={{ "toast.dismiss": "Benachrichtigung schließen" }}>
+        <LocaleProvider
+          locale="de-AT"
+          messages={{
+            "fileUpload.filesAdded": "{count, plural, one {{name} hinzugefügt} other {# Dateien}}",
+          }}
+        >
+          <Translated />
+        </LocaleProvider>
+      </LocaleProvider>
+    );
+    const span = container.querySelector("span");
+
+    expect(span?.textContent).toBe("3 Dateien|Benachrichtigung schließen");
+    expect(span?.dataset.locale).toBe("de-AT");
+  });
+
+  it("should prefer overrides passed to useMessages", () => {
+    const { container } = render(
+      <LocaleProvider locale="de" messages={{ "toast.dismiss": "Schließen" }}>
+        <Translated overrides={{ "toast.dismiss": "Close" }} />
+      </LocaleProvider>
+    );
+
+    expect(container.querySelector("span")?.textContent).toBe("3 files added|Close");
+  });
+
+  it("should sync to the global catalog by default", () => {
+    render(
+      <LocaleProvider locale="fr" messages={{ "toast.dismiss": "Fermer" }}>
+        <span />
+      </LocaleProvider>
+    );
+
+    expect(getLocale()).toBe("fr");
+    expect(getMessage("toast.dismiss")).toBe("Fermer");
+  });
+
+  it("should leave the global catalog alone when syncToGlobal is false", () => {
+    render(
+      <LocaleProvider locale="fr" messages={{ "toast.dismiss": "Fermer" }} syncToGlobal={false}>
+        <span />
+      </LocaleProvider>
+    );
+
+    expect(getLocale()).toBe("en");
+    expect(getMessage("toast.dismiss")).toBe("Dismiss notification");
+  });
+
+  it("should re-render when the global catalog changes", () => {
+    const { container } = render(<Translated />);
+
+    act(() => {
+      setMessages({ "toast.dismiss": "Cerrar" }, "es");
+    });
+
+    expect(container.querySelector("span")?.textContent).toBe("3 files added|Cerrar");
+  });
+});
@@ -9,9 +9,17 @@
  * - C: Chroma (0+, colorfulness/saturation)
  * - H: Hue (0-360, color angle)
  *
+ * Besides the built-in primitives, scales can be generated from seed colors,
+ * e.g. a tenant's brand color: the seed sets hue and chroma, and the light
+ * and dark progressions set lightness. Text steps are darkened (light) or
+ * lightened (dark) until they meet WCAG contrast on every background step.
+ *
  * @packageDocumentation
  */
 
+import type { Token, TokenSet } from "../src/types/dtcg.js";
+import { WCAG_THRESHOLDS, getContrastRatio, hexToRgb } from "./contrast.js";
+
 /**
  * OKLCH color representation
  */
@@ -89,6 +97,50 @@ export const DEFAULT_SCALE_STEPS: ColorScaleStep[] = [
   { step: 16, lightness: 0.18, chromaMultiplier: 0.5, description: "Default text" },
 ];
 
+/**
+ * Dark 16-step progression with the same step roles: steps 1-4 are the
+ * darkest backgrounds and steps 15-16 the lightest text.
+ */
+export const DARK_SCALE_STEPS: ColorScaleStep[] = [
+  { step: 1, lightness: 0.16, chromaMultiplier: 0.12, description: "Dark: Page background" },
+  { step: 2, lightness: 0.19, chromaMultiplier: 0.15, description: "Dark: Raised surface" },
+  { step: 3, lightness: 0.22, chromaMultiplier: 0.2, description: "Dark: Nested surface" },
+  { step: 4, lightness: 0.25, chromaMultiplier: 0.25, description: "Dark: Deep nested" },
+  { step: 5, lightness: 0.29, chromaMultiplier: 0.35, description: "Dark: Element background" },
+  { step: 6, lightness: 0.33, chromaMultiplier: 0.45, description: "Dark: Element hover" },
+  { step: 7, lightness: 0.38, chromaMultiplier: 0.55, description: "Dark: Element active" },
+  { step: 8, lightness: 0.44, chromaMultiplier: 0.65, description: "Dark: Subtle border" },
+  { step: 9, lightness: 0.51, chromaMultiplier: 0.75, description: "Dark: Default border" },
+  { step: 10, lightness: 0.58, chromaMultiplier: 0.85, description: "Dark: Strong border" },
+  { step: 11, lightness: 0.62, chromaMultiplier: 1.0, description: "Dark: Solid default" },
+  { step: 12, lightness: 0.68, chromaMultiplier: 0.95, description: "Dark: Solid hover" },
+  { step: 13, lightness: 0.74, chromaMultiplier: 0.9, description: "Dark: Solid active" },
+  { step: 14, lightness: 0.8, chromaMultiplier: 0.8, description: "Dark: Solid emphasis" },
+  { step: 15, lightness: 0.86, chromaMultiplier: 0.5, description: "Dark: Muted text" },
+  { step: 16, lightness: 0.95, chromaMultiplier: 0.3, description: "Dark: Default text" },
+];
+
+/** Background steps that text steps must contrast with */
+export const BACKGROUND_STEPS = [1, 2, 3, 4] as const;
+
+/**
+ * Minimum contrast of each text step on every background step:
+ * AA for muted text, AAA for default text
+ */
+export const TEXT_STEP_CONTRAST: Record<number, number> = {
+  15: WCAG_THRESHOLDS.AA_NORMAL,
+  16: WCAG_THRESHOLDS.AAA_NORMAL,
+};
+
+/**
+ * A generated color step
+ */
+export interface ColorToken extends Token {
+  $value: string;
+  $type: "color";
+  $description: string;
+}
+
 /**
  * Base color configurations for all primitive colors
  */
@@ -124,6 +176,57 @@ function oklchToOklab(oklch: OklchColor): { L: number; a: number; b: number } {
   };
 }
 
+/**
+ * Remove sRGB gamma correction (gamma to linear)
+ */
+function srgbToLinear(value: number): number {
+  if (value <= 0.04045) {
+    return value / 12.92;
+  }
+  return ((value + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Convert a hex color to OKLCH
+ */
+export function hexToOklch(hex: string): OklchColor {
+  const rgb = hexToRgb(hex);
+  const r = srgbToLinear(rgb.r / 255);
+  const g = srgbToLinear(rgb.g / 255);
+  const b = srgbToLinear(rgb.b / 255);
+
+  // Linear sRGB to LMS (cone response), then to OKLab
+  const l_ = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m_ = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s_ = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const L = 0.2104542553 * l_ + 0.793617785 * m_ - 0.0040720468 * s_;
+  const a = 1.9779984951 * l_ - 2.428592205 * m_ + 0.4505937099 * s_;
+  const bValue = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.808675766 * s_;
+
+  const c = Math.sqrt(a * a + bValue * bValue);
+  // Hue is meaningless for grays; keep it stable
+  const h = c < 0.0001 ? 0 : ((Math.atan2(bValue, a) * 180) / Math.PI + 360) % 360;
+
+  return { l: L, c, h };
+}
+
+/**
+ * Parse a seed color: a hex value or `oklch(L C H)` with L as 0-1 or a percentage
+ */
+export function parseSeedColor(value: string): OklchColor {
+  const trimmed = value.trim();
+  const oklch = /^oklch\(\s*([\d.]+)(%?)\s+([\d.]+)\s+([\d.]+)(?:deg)?\s*\)$/i.exec(trimmed);
+  if (oklch) {
+    const [, l = "0", percent, c = "0", h = "0"] = oklch;
+    return { l: Number(l) / (percent ? 100 : 1), c: Number(c), h: Number(h) };
+  }
+  if (/^#?([\da-f]{3}|[\da-f]{6})$/i.test(trimmed)) {
+    return hexToOklch(trimmed);
+  }
+  throw new Error(`Invalid seed color "${value}": use a hex value or oklch(L C H)`);
+}
+
 /**
  * Convert OKLab to linear RGB
  * Uses the OKLab to linear sRGB transformation matrix
@@ -245,8 +348,8 @@ export function generateColorAtStep(
 export function generateColorScale(
   baseConfig: BaseColorConfig,
   steps: ColorScaleStep[] = DEFAULT_SCALE_STEPS
-): Record<string, { $value: string; $type: string; $description: string }> {
-  const scale: Record<string, { $value: string; $type: string; $description: string }> = {};
+): Record<string, ColorToken> {
+  const scale: Record<string, ColorToken> = {};
 
   for (const step of steps) {
     const { hex } = generateColorAtStep(baseConfig, step);
@@ -260,22 +363,139 @@ export function generateColorScale(
   return scale;
 }
 
+/**
+ * Adjust the lightness of text steps until each meets its minimum contrast
+ * (`TEXT_STEP_CONTRAST`) on every background step. Text moves away from the
+ * backgrounds: darker in light scales, lighter in dark scales.
+ */
+export function ensureTextContrast(
+  baseConfig: BaseColorConfig,
+  steps: ColorScaleStep[] = DEFAULT_SCALE_STEPS
+): ColorScaleStep[] {
+  const backgrounds = steps
+    .filter((step) => (BACKGROUND_STEPS as readonly number[]).includes(step.step))
+    .map((step) => generateColorAtStep(baseConfig, step));
+
+  return steps.map((step) => {
+    const minimum = TEXT_STEP_CONTRAST[step.step];
+    if (minimum === undefined || backgrounds.length === 0) return step;
+
+    const backgroundLightness =
+      backgrounds.reduce((sum, background) => sum + background.oklch.l, 0) / backgrounds.length;
+    const direction = step.lightness < backgroundLightness ? -1 : 1;
+
+    let adjusted = step;
+    for (;;) {
+      const { hex } = generateColorAtStep(baseConfig, adjusted);
+      const lowest = Math.min(
+        ...backgrounds.map((background) => getContrastRatio(hex, background.hex))
+      );
+      const next = adjusted.lightness + direction * 0.005;
+      if (lowest >= minimum || next < 0 || next > 1) break;
+      adjusted = { ...adjusted, lightness: Math.round(next * 1000) / 1000 };
+    }
+    return adjusted;
+  });
+}
+
+/**
+ * Create the base configuration for a scale generated from a seed color.
+ * The seed's chroma becomes the scale's maximum, reached at step 11.
+ */
+export function createSeedConfig(
+  name: string,
+  seed: string,
+  description?: string
+): BaseColorConfig {
+  const { c, h } = parseSeedColor(seed);
+  return {
+    name,
+    hue: Math.round(h * 10) / 10,
+    maxChroma: Math.round(c * 1000) / 1000,
+    description: description ?? `${name} 16-step color scale generated from ${seed}`,
+  };
+}
+
+/**
+ * Generate light and dark 16-step scales from a seed color, with text steps
+ * that meet contrast on the background steps.
+ */
+export function generateSeedScales(
+  name: string,
+  seed: string,
+  description?: string
+): {
+  config: BaseColorConfig;
+  light: ReturnType<typeof generateColorScale>;
+  dark: ReturnType<typeof generateColorScale>;
+} {
+  const config = createSeedConfig(name, seed, description);
+  return {
+    config,
+    light: generateColorScale(config, ensureTextContrast(config, DEFAULT_SCALE_STEPS)),
+    dark: generateColorScale(config, ensureTextContrast(config, DARK_SCALE_STEPS)),
+  };
+}
+
 /**
  * Generate DTCG-formatted color token file
  */
-export function generateColorTokenFile(baseConfig: BaseColorConfig): object {
+export function generateColorTokenFile(
+  baseConfig: BaseColorConfig,
+  scale: ReturnType<typeof generateColorScale> = generateColorScale(baseConfig)
+): TokenSet {
   return {
     $type: "color",
     $description: baseConfig.description,
-    [baseConfig.name]: generateColorScale(baseConfig),
+    [baseConfig.name]: scale,
   };
 }
 
+/**
+ * Serialize `colors/dark.json` in its compact layout: one line per step.
+ */
+export function serializeDarkTokens(tokens: Record<string, unknown>): string {
+  const lines: string[] = [];
+  const entries = Object.entries(tokens);
+
+  entries.forEach(([key, value], index) => {
+    const comma = index < entries.length - 1 ? "," : "";
+    if (key.startsWith("$") || typeof value !== "object" || value === null) {
+      lines.push(`  ${JSON.stringify(key)}: ${JSON.stringify(value)}${comma}`);
+      return;
+    }
+
+    const steps = Object.entries(value as Record<string, unknown>);
+    lines.push(`  ${JSON.stringify(key)}: {`);
+    steps.forEach(([step, token], stepIndex) => {
+      const stepComma = stepIndex < steps.length - 1 ? "," : "";
+      const fields = Object.entries(token as Record<string, unknown>)
+        .map(([field, fieldValue]) => `${JSON.stringify(field)}: ${JSON.stringify(fieldValue)}`)
+        .join(", ");
+      lines.push(`    ${JSON.stringify(step)}: { ${fields} }${stepComma}`);
+    });
+    lines.push(`  }${comma}`);
+  });
+
+  return `{\n${lines.join("\n")}\n}\n`;
+}
+
+/**
+ * Add or replace a scale's dark mode steps in the contents of `colors/dark.json`
+ */
+export function mergeDarkScale(
+  darkTokens: Record<string, unknown>,
+  name: string,
+  scale: ReturnType<typeof generateColorScale>
+): Record<string, unknown> {
+  return { ...darkTokens, [name]: scale };
+}
+
 /**
  * Generate all primitive color scale files
  */
-export function generateAllColorScales(): Map<string, object> {
-  const scales = new Map<string, object>();
+export function generateAllColorScales(): Map<string, TokenSet> {
+  const scales = new Map<string, TokenSet>();
 
   for (const config of BASE_COLORS) {
     scales.set(config.name, generateColorTokenFile(config));
@@ -284,9 +504,35 @@ export function generateAllColorScales(): Map<string, object> {
   return scales;
 }
 
+/**
+ * Read `--seed name=color` arguments
+ */
+export function parseSeedArgs(args: string[]): Array<{ name: string; color: string }> {
+  const seeds: Array<{ name: string; color: string }> = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    const value = arg === "--seed" ? args[++i] : arg.startsWith("--seed=") ? arg.slice(7) : null;
+    if (value === null) continue;
+
+    const separator = value?.indexOf("=") ?? -1;
+    if (!value || separator <= 0) {
+      throw new Error(`Invalid seed "${value ?? ""}": use --seed name=color`);
+    }
+    const name = value.slice(0, separator);
+    if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+      throw new Error(`Invalid scale name "${name}": use lowercase letters, digits and dashes`);
+    }
+    seeds.push({ name, color: value.slice(separator + 1) });
+  }
+
+  return seeds;
+}
+
 /**
  * CLI execution
  * Run with: npx tsx scripts/generate-scales.ts
+ * Or, for seed colors: npx tsx scripts/generate-scales.ts --seed acme=#7c3aed [--seed ...]
  */
 async function main(): Promise<void> {
   const fs = await import("node:fs");
@@ -295,7 +541,29 @@ async function main(): Promise<void> {
 
   const __filename = url.fileURLToPath(import.meta.url);
   const __dirname = path.dirname(__filename);
-  const outputDir = path.join(__dirname, "../src/colors/primitives");
+  const colorsDir = path.join(__dirname, "../src/colors");
+  const outputDir = path.join(colorsDir, "primitives");
+
+  const seeds = parseSeedArgs(process.argv.slice(2));
+  if (seeds.length > 0) {
+    const darkFile = path.join(colorsDir, "dark.json");
+    let darkTokens = JSON.parse(fs.readFileSync(darkFile, "utf-8")) as Record<string, unknown>;
+
+    for (const seed of seeds) {
+      const { config, light, dark } = generateSeedScales(seed.name, seed.color);
+      const filePath = path.join(outputDir, `${seed.name}.json`);
+      fs.writeFileSync(
+        filePath,
+        `${JSON.stringify(generateColorTokenFile(config, light), null, 2)}\n`
+      );
+      darkTokens = mergeDarkScale(darkTokens, seed.name, dark);
+      console.log(`Generated: ${seed.name}.json and its dark steps (from ${seed.color})`);
+    }
+
+    fs.writeFileSync(darkFile, serializeDarkTokens(darkTokens));
+    console.log("\nDone! Generated", seeds.length, "seeded color scales.");
+    return;
+  }
 
   console.log("Generating OKLCH-based 16-step color scales...\n");
 
@@ -312,5 +580,8 @@ async function main(): Promise<void> {
 
 // Only run if this is the main module
 if (import.meta.url.endsWith(process.argv[1]?.replace(/^file:\/\//, "") || "")) {
-  main().catch(console.error);
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
 }
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { getContrastRatio } from "../scripts/contrast";
+import {
+  BACKGROUND_STEPS,
+  TEXT_STEP_CONTRAST,
+  generateColorTokenFile,
+  generateSeedScales,
+  hexToOklch,
+  mergeDarkScale,
+  oklchToHex,
+  parseSeedArgs,
+  parseSeedColor,
+  serializeDarkTokens,
+} from "../scripts/generate-scales";
+import { parseTokenSet } from "../src/compiler/parser";
+
+const seeds = {
+  violet: "#7c3aed",
+  yellow: "#facc15",
+  gray: "#808080",
+  teal: "oklch(0.6 0.12 190)",
+};
+
+describe("Scale Generator", () => {
+  describe("Seed colors", () => {
+    it("should round-trip hex through OKLCH", () => {
+      for (const hex of ["#7c3aed", "#059669", "#facc15", "#808080", "#000000", "#ffffff"]) {
+        expect(oklchToHex(hexToOklch(hex))).toBe(hex);
+      }
+    });
+
+    it("should parse hex and oklch() seeds", () => {
+      expect(parseSeedColor("oklch(60% 0.12 190)")).toEqual({ l: 0.6, c: 0.12, h: 190 });
+      expect(parseSeedColor("#fff").l).toBeCloseTo(1, 3);
+      expect(() => parseSeedColor("rebeccapurple")).toThrow("Invalid seed color");
+    });
+
+    it("should read --seed arguments", () => {
+      expect(parseSeedArgs(["--seed", "acme=#7c3aed", "--seed=acme-accent=#059669"])).toEqual([
+        { name: "acme", color: "#7c3aed" },
+        { name: "acme-accent", color: "#059669" },
+      ]);
+      expect(() => parseSeedArgs(["--seed", "#7c3aed"])).toThrow("Invalid seed");
+      expect(() => parseSeedArgs(["--seed", "Acme=#7c3aed"])).toThrow("Invalid scale name");
+    });
+  });
+
+  describe("Generated scales", () => {
+    it("should keep the seed's hue", () => {
+      const { config, light } = generateSeedScales("acme", seeds.violet);
+
+      expect(config.hue).toBeCloseTo(hexToOklch(seeds.violet).h, 0);
+      expect(Math.abs(hexToOklch(light["11"]?.$value ?? "").h - config.hue)).toBeLessThan(5);
+    });
+
+    it("should order lightness by step in both modes", () => {
+      const { light, dark } = generateSeedScales("acme", seeds.violet);
+      const lightness = (scale: typeof light) =>
+        Object.values(scale).map((token) => hexToOklch(token.$value).l);
+
+      const lightSteps = lightness(light);
+      const darkSteps = lightness(dark);
+      for (let i = 1; i < 16; i++) {
+        expect(lightSteps[i]).toBeLessThan(lightSteps[i - 1] ?? 0);
+        expect(darkSteps[i]).toBeGreaterThan(darkSteps[i - 1] ?? 0);
+      }
+    });
+
+    it.each(Object.entries(seeds))(
+      "should give %s text steps contrast on backgrounds",
+      (name, seed) => {
+        const { light, dark } = generateSeedScales(name, seed);
+
+        for (const scale of [light, dark]) {
+          for (const [step, minimum] of Object.entries(TEXT_STEP_CONTRAST)) {
+            for (const background of BACKGROUND_STEPS) {
+              const ratio = getContrastRatio(
+                scale[step]?.$value ?? "",
+                scale[String(background)]?.$value ?? ""
+              );
+              expect(ratio).toBeGreaterThanOrEqual(minimum);
+            }
+          }
+        }
+      }
+    );
+  });
+
+  describe("DTCG output", () => {
+    it("should write primitives the build can parse", () => {
+      const { config, light } = generateSeedScales("acme", seeds.violet);
+      const result = parseTokenSet(generateColorTokenFile(config, light));
+
+      expect(result.errors).toEqual([]);
+      expect(result.tokens.map((token) => token.path)).toEqual(
+        Array.from({ length: 16 }, (_, i) => `acme.${i + 1}`)
+      );
+    });
+
+    it("should add dark steps while keeping other scales and the compact layout", () => {
+      const { dark } = generateSeedScales("acme", seeds.violet);
+      const existing = {
+        $type: "color",
+        $mode: "dark",
+        blue: {
+          "1": { $value: "{blue.16}", $type: "color", $description: "Dark: Page background" },
+        },
+      };
+
+      const json = serializeDarkTokens(mergeDarkScale(existing, "acme", dark));
+
+      expect(json).toContain(
+        '    "1": { "$value": "{blue.16}", "$type": "color", "$description": "Dark: Page background" }'
+      );
+      expect(json.split("\n").filter((line) => line.startsWith('    "'))).toHaveLength(17);
+      const parsed = JSON.parse(json);
+      expect(parsed.blue).toEqual(existing.blue);
+      expect(parsed.acme["16"].$description).toBe("Dark: Default text");
+      expect(parseTokenSet(parsed).errors).toEqual([]);
+    });
+  });
+});
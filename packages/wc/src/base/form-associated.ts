@@ -28,6 +28,36 @@ export interface ValidationFlags {
   badInput?: boolean;
 }
 
+/**
+ * Numeric constraints checked by {@link getNumericValidationFlags}.
+ */
+export interface NumericConstraints {
+  min?: number;
+  max?: number;
+  /** Step from `min` (or 0); 0 or less disables the step check */
+  step?: number;
+}
+
+/**
+ * Maps numeric values onto the range and step flags, like `<input type="number">`.
+ */
+export function getNumericValidationFlags(
+  values: number[],
+  { min, max, step }: NumericConstraints
+): ValidationFlags {
+  const flags: ValidationFlags = {};
+  for (const value of values) {
+    if (min !== undefined && value < min) flags.rangeUnderflow = true;
+    if (max !== undefined && value > max) flags.rangeOverflow = true;
+    if (step !== undefined && step > 0) {
+      const steps = (value - (min ?? 0)) / step;
+      // Tolerate floating point error, e.g. 0.3 / 0.1
+      if (Math.abs(steps - Math.round(steps)) > 1e-7) flags.stepMismatch = true;
+    }
+  }
+  return flags;
+}
+
 /**
  * Type for mixin constructor with any args.
  */
@@ -36,10 +66,12 @@ type Constructor<T = object> = new (...args: any[]) => T;
 
 /**
  * Interface for form-associated element properties and methods.
+ * `TValue` is the type of `value`, e.g. `number` for numeric controls.
  */
-export interface FormAssociatedInterface {
+export interface FormAssociatedInterface<TValue = string> {
   name: string;
-  value: string;
+  value: TValue;
+  readonly typedValue: unknown;
   disabled: boolean;
   required: boolean;
   customValidation: boolean;
@@ -68,7 +100,8 @@ export interface FormLifecycleCallbacks {
 /**
  * Combined interface for form-associated elements.
  */
-export type FormAssociatedElement = FormAssociatedInterface & FormLifecycleCallbacks;
+export type FormAssociatedElement<TValue = string> = FormAssociatedInterface<TValue> &
+  FormLifecycleCallbacks;
 
 /**
  * Form-associated mixin for Lit elements.
@@ -94,8 +127,17 @@ export type FormAssociatedElement = FormAssociatedInterface & FormLifecycleCallb
  *   }
  * }
  * ```
+ *
+ * Controls with a non-string value pass its type and redeclare `value`:
+ *
+ * ```typescript
+ * class DsSlider extends FormAssociatedMixin<typeof DSElement, number>(DSElement) {
+ *   @property({ type: Number, reflect: true })
+ *   value = 0;
+ * }
+ * ```
  */
-export function FormAssociatedMixin<T extends Constructor<LitElement>>(Base: T) {
+export function FormAssociatedMixin<T extends Constructor<LitElement>, TValue = string>(Base: T) {
   abstract class FormAssociatedClass extends Base implements FormAssociatedInterface {
     /**
      * Required static property for form association.
@@ -160,6 +202,14 @@ export function FormAssociatedMixin<T extends Constructor<LitElement>>(Base: T)
       this._defaultValue = this.value;
     }
 
+    /**
+     * The value as ds-form collects it: `value` by default, while controls
+     * with a richer value override it, e.g. `checked` or the selected files.
+     */
+    get typedValue(): unknown {
+      return this.value;
+    }
+
     /**
      * Current validity state of the control.
      */
@@ -252,9 +302,10 @@ export function FormAssociatedMixin<T extends Constructor<LitElement>>(Base: T)
     formResetCallback(): void {
       this.value = this._defaultValue ?? "";
       this._customValidityMessage = "";
-      this._internals.setFormValue(null);
-      this._internals.setValidity({});
       this.onFormReset();
+      // Sync now: a value that was already the default triggers no update
+      this.updateFormValue();
+      this.updateValidity();
     }
 
     /**
@@ -386,5 +437,8 @@ export function FormAssociatedMixin<T extends Constructor<LitElement>>(Base: T)
     }
   }
 
-  return FormAssociatedClass as unknown as Constructor<FormAssociatedInterface & LitElement> & T & { formAssociated: true };
+  return FormAssociatedClass as unknown as Constructor<
+    FormAssociatedInterface<TValue> & LitElement
+  > &
+    T & { formAssociated: true };
 }
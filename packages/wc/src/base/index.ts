@@ -13,3 +13,11 @@ export type {
 // Component controller mixin
 export { ComponentControllerMixin } from "./component-controller.js";
 export type { CleanupFn, ComponentControllerInterface } from "./component-controller.js";
+
+// Localization controller
+export { LocalizeController } from "./localize-controller.js";
+export type { LocalizeHost } from "./localize-controller.js";
+
+// Submenu base class
+export { SubmenuElement } from "./submenu-element.js";
+export type { SubmenuTagNames } from "./submenu-element.js";
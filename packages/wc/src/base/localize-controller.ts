@@ -0,0 +1,63 @@
+/**
+ * Localize Controller
+ *
+ * Resolves built-in component strings from the message catalog in
+ * `@hypoth-ui/primitives-dom` and re-renders the host when the global
+ * catalog changes via `setMessages()`.
+ *
+ * @example
+ * ```typescript
+ * class DsPagination extends DSElement {
+ *   @property({ attribute: false })
+ *   messages?: Partial<Messages>;
+ *
+ *   private localize = new LocalizeController(this);
+ *
+ *   render() {
+ *     return html`<nav aria-label=${this.localize.t("pagination.label")}></nav>`;
+ *   }
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type MessageKey,
+  type MessageValues,
+  type Messages,
+  getMessage,
+  subscribeMessages,
+} from "@hypoth-ui/primitives-dom";
+import type { ReactiveController, ReactiveControllerHost } from "lit";
+
+/**
+ * Host of a LocalizeController. `messages` holds per-instance overrides.
+ */
+export interface LocalizeHost extends ReactiveControllerHost {
+  messages?: Partial<Messages>;
+}
+
+export class LocalizeController implements ReactiveController {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly host: LocalizeHost) {
+    host.addController(this);
+  }
+
+  hostConnected(): void {
+    this.unsubscribe = subscribeMessages(() => this.host.requestUpdate());
+  }
+
+  hostDisconnected(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Look up and format a message, preferring the host's overrides.
+   */
+  t(key: MessageKey, values?: MessageValues): string {
+    return getMessage(key, values, { messages: this.host.messages });
+  }
+}
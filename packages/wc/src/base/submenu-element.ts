@@ -0,0 +1,238 @@
+import {
+  type Placement,
+  type SubmenuBehavior,
+  createSubmenuBehavior,
+} from "@hypoth-ui/primitives-dom";
+import { html } from "lit";
+import { property } from "lit/decorators.js";
+import { StandardEvents, emitEvent } from "../events/emit.js";
+import { DSElement } from "./ds-element.js";
+
+/** Tag names of a submenu and its parts, e.g. ds-menu-sub */
+export interface SubmenuTagNames {
+  sub: string;
+  trigger: string;
+  content: string;
+}
+
+type SubmenuTrigger = HTMLElement & { disabled: boolean };
+
+type SubmenuContent = HTMLElement & {
+  dataState: "open" | "closed";
+  updateComplete: Promise<boolean>;
+};
+
+/**
+ * SubmenuElement - Base class for nested submenus of ds-menu,
+ * ds-dropdown-menu and ds-context-menu.
+ *
+ * Wires its own sub-trigger and sub-content children, found by tag name, to
+ * the submenu behavior. Subclasses only name the tags.
+ *
+ * @example
+ * ```typescript
+ * export class DsMenuSub extends SubmenuElement {
+ *   protected readonly tagNames = {
+ *     sub: "ds-menu-sub",
+ *     trigger: "ds-menu-sub-trigger",
+ *     content: "ds-menu-sub-content",
+ *   };
+ * }
+ * ```
+ */
+export abstract class SubmenuElement extends DSElement {
+  /** Whether the submenu is open */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /** Placement relative to the sub-trigger, flipped to the other side when it doesn't fit */
+  @property({ type: String, reflect: true })
+  placement: Placement = "end-start";
+
+  /** Offset distance from the sub-trigger in pixels */
+  @property({ type: Number })
+  offset = 2;
+
+  protected abstract readonly tagNames: SubmenuTagNames;
+
+  private submenu: SubmenuBehavior | null = null;
+  private trigger: SubmenuTrigger | null = null;
+  private content: SubmenuContent | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.initSubmenuBehavior();
+
+    this.updateComplete.then(() => {
+      this.setupElements();
+    });
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.teardownElements();
+    this.submenu?.destroy();
+    this.submenu = null;
+  }
+
+  /**
+   * Opens the submenu.
+   * @param focus - Item to focus, or false to leave focus on the sub-trigger
+   */
+  public show(focus: "first" | "last" | false = false): void {
+    this.submenu?.open(focus);
+  }
+
+  /**
+   * Closes the submenu.
+   */
+  public close(): void {
+    this.submenu?.close();
+  }
+
+  private initSubmenuBehavior(): void {
+    const idPrefix = this.tagNames.sub.replace(/^ds-/, "");
+    this.submenu = createSubmenuBehavior({
+      placement: this.placement,
+      offset: this.offset,
+      generateId: () => `${idPrefix}-${crypto.randomUUID().slice(0, 8)}`,
+      onOpenChange: (open) => {
+        if (open === this.open) return;
+        this.open = open;
+        emitEvent(this, StandardEvents.OPEN_CHANGE, { detail: { open }, bubbles: false });
+      },
+    });
+  }
+
+  /**
+   * Finds the own sub-trigger and sub-content, not those of nested submenus.
+   */
+  private setupElements(): void {
+    this.teardownElements();
+    const children = Array.from(this.children);
+    this.trigger =
+      (children.find((child) => child.localName === this.tagNames.trigger) as
+        | SubmenuTrigger
+        | undefined) ?? null;
+    this.content =
+      (children.find((child) => child.localName === this.tagNames.content) as
+        | SubmenuContent
+        | undefined) ?? null;
+
+    if (!this.submenu || !this.trigger || !this.content) return;
+
+    this.submenu.setTriggerElement(this.trigger);
+    const triggerProps = this.submenu.getTriggerProps();
+    const contentProps = this.submenu.getContentProps();
+    this.trigger.id ||= triggerProps.id;
+    this.content.id ||= contentProps.id;
+    this.trigger.setAttribute("aria-haspopup", triggerProps["aria-haspopup"]);
+    this.trigger.setAttribute("aria-controls", this.content.id);
+    this.content.setAttribute("aria-labelledby", this.trigger.id);
+    this.updateTriggerState();
+
+    this.trigger.addEventListener("keydown", this.handleTriggerKeyDown);
+    this.trigger.addEventListener("click", this.handleTriggerClick);
+    this.trigger.addEventListener("pointerenter", this.handleTriggerPointerEnter);
+    this.trigger.addEventListener("pointerleave", this.handleTriggerPointerLeave);
+    this.content.addEventListener("keydown", this.handleContentKeyDown);
+
+    if (this.open) this.showContent();
+  }
+
+  private teardownElements(): void {
+    this.trigger?.removeEventListener("keydown", this.handleTriggerKeyDown);
+    this.trigger?.removeEventListener("click", this.handleTriggerClick);
+    this.trigger?.removeEventListener("pointerenter", this.handleTriggerPointerEnter);
+    this.trigger?.removeEventListener("pointerleave", this.handleTriggerPointerLeave);
+    this.content?.removeEventListener("keydown", this.handleContentKeyDown);
+  }
+
+  private handleTriggerKeyDown = (event: KeyboardEvent): void => {
+    if (this.trigger?.disabled) return;
+    this.submenu?.handleTriggerKeyDown(event);
+  };
+
+  private handleTriggerClick = (): void => {
+    if (this.trigger?.disabled) return;
+    this.submenu?.handleTriggerClick();
+  };
+
+  private handleTriggerPointerEnter = (): void => {
+    if (this.trigger?.disabled) return;
+    this.submenu?.handleTriggerPointerEnter();
+  };
+
+  private handleTriggerPointerLeave = (event: PointerEvent): void => {
+    this.submenu?.handleTriggerPointerLeave(event);
+  };
+
+  private handleContentKeyDown = (event: KeyboardEvent): void => {
+    this.submenu?.handleContentKeyDown(event);
+  };
+
+  private updateTriggerState(): void {
+    this.trigger?.setAttribute("aria-expanded", String(this.open));
+    this.trigger?.setAttribute("data-state", this.open ? "open" : "closed");
+  }
+
+  private async showContent(): Promise<void> {
+    if (!this.content) return;
+
+    this.content.removeAttribute("hidden");
+    this.content.dataState = "open";
+    await this.content.updateComplete;
+    this.submenu?.setContentElement(this.content);
+  }
+
+  private hideContent(): void {
+    if (!this.content) return;
+
+    // Nested submenus close with their parent
+    for (const sub of this.content.querySelectorAll<SubmenuElement>(`${this.tagNames.sub}[open]`)) {
+      sub.open = false;
+    }
+
+    this.content.setAttribute("hidden", "");
+    this.content.dataState = "closed";
+    this.submenu?.setContentElement(null);
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has("open") && this.submenu) {
+      // Sync the behavior when `open` is set directly
+      if (this.open !== this.submenu.state.open) {
+        if (this.open) {
+          this.submenu.open(false);
+        } else {
+          this.submenu.close();
+        }
+      }
+
+      this.updateTriggerState();
+      if (this.open) {
+        this.showContent();
+      } else if (changedProperties.get("open") !== undefined) {
+        this.hideContent();
+      }
+    }
+
+    // Re-create behavior if placement/offset change after the first render
+    const positionChanged = ["placement", "offset"].some(
+      (name) => changedProperties.has(name) && changedProperties.get(name) !== undefined
+    );
+    if (positionChanged) {
+      const wasOpen = this.open;
+      this.submenu?.destroy();
+      this.initSubmenuBehavior();
+      this.setupElements();
+      if (wasOpen) this.submenu?.open(false);
+    }
+  }
+
+  override render() {
+    return html`<slot></slot>`;
+  }
+}
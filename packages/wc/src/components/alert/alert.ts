@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -78,6 +80,14 @@ export class DsAlert extends DSElement {
   @property({ type: Boolean, attribute: "hide-icon" })
   hideIcon = false;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   private handleClose(): void {
     emitEvent(this, "ds:close", {});
   }
@@ -143,7 +153,7 @@ export class DsAlert extends DSElement {
                 part="close"
                 class="ds-alert__close"
                 type="button"
-                aria-label="Dismiss alert"
+                aria-label=${this.localize.t("alert.dismiss")}
                 @click=${this.handleClose}
               >
                 ${CLOSE_ICON}
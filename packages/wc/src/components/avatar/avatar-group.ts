@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 import type { AvatarSize } from "./avatar.js";
 
@@ -31,6 +33,14 @@ export class DsAvatarGroup extends DSElement {
   @property({ type: String, reflect: true })
   size: AvatarSize = "md";
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private overflowCount = 0;
 
@@ -79,7 +89,7 @@ export class DsAvatarGroup extends DSElement {
       <div
         class=${classMap(classes)}
         role="group"
-        aria-label="Avatar group"
+        aria-label=${this.localize.t("avatarGroup.label")}
         data-size=${this.size}
       >
         ${
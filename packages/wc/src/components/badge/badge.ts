@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export type BadgeVariant =
@@ -74,6 +76,14 @@ export class DsBadge extends DSElement {
   @property({ type: Boolean, reflect: true })
   pulse = false;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   private get displayContent(): string {
     if (this.dot) return "";
     if (this.max !== undefined && !Number.isNaN(Number(this.content))) {
@@ -100,7 +110,11 @@ export class DsBadge extends DSElement {
         ?data-dot=${this.dot}
         data-position=${this.position}
         ?data-pulse=${this.pulse}
-        aria-label=${this.dot ? "Notification indicator" : `${this.displayContent} notifications`}
+        aria-label=${
+          this.dot
+            ? this.localize.t("badge.dot")
+            : this.localize.t("badge.count", { count: this.displayContent })
+        }
       >
         ${this.dot ? nothing : this.displayContent}
       </span>
@@ -23,8 +23,11 @@
  * ```
  */
 
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
+import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 // Import child components
@@ -35,10 +38,19 @@ import "./breadcrumb-page.js";
 import "./breadcrumb-separator.js";
 
 export class DsBreadcrumb extends DSElement {
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   override connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute("role", "navigation");
-    this.setAttribute("aria-label", "Breadcrumb");
+  }
+
+  override updated(): void {
+    this.setAttribute("aria-label", this.localize.t("breadcrumb.label"));
   }
 
   override render() {
@@ -1,7 +1,9 @@
+import type { DateUnavailablePredicate, Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -58,6 +60,13 @@ export class DsCalendar extends DSElement {
   @property({ type: String, attribute: "disabled-dates" })
   disabledDates = "";
 
+  /**
+   * Marks dates unavailable. Return a string to give the reason read by
+   * screen readers, or `true` for a generic "Unavailable".
+   */
+  @property({ attribute: false })
+  isDateUnavailable?: DateUnavailablePredicate;
+
   /**
    * Locale for month/day names.
    */
@@ -76,9 +85,17 @@ export class DsCalendar extends DSElement {
   @property({ type: Number, attribute: "first-day-of-week" })
   firstDayOfWeek = 0;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
   @state()
   private viewDate: Date = new Date();
 
+  private localize = new LocalizeController(this);
+
   private get selectedDate(): Date | null {
     return this.value ? new Date(this.value) : null;
   }
@@ -169,11 +186,18 @@ export class DsCalendar extends DSElement {
     );
   }
 
+  private getUnavailableReason(date: Date): string | null {
+    const result = this.isDateUnavailable?.(date);
+    if (!result) return null;
+    return typeof result === "string" ? result : this.localize.t("calendar.unavailable");
+  }
+
   private isDisabled(date: Date): boolean {
     const dateStr = date.toISOString().split("T")[0] ?? "";
 
     // Check disabled dates
     if (dateStr && this.disabledDateSet.has(dateStr)) return true;
+    if (this.getUnavailableReason(date)) return true;
 
     // Check min/max bounds
     if (this.minDate && date < this.minDate) return true;
@@ -241,14 +265,14 @@ export class DsCalendar extends DSElement {
       <div
         class=${classMap(classes)}
         role="application"
-        aria-label="Calendar"
+        aria-label=${this.localize.t("calendar.label")}
         data-size=${this.size !== "default" ? this.size : nothing}
       >
         <div class="ds-calendar__header">
           <button
             type="button"
             class="ds-calendar__nav-button"
-            aria-label="Previous month"
+            aria-label=${this.localize.t("calendar.previousMonth")}
             @click=${this.handlePrevMonth}
           >
             ${chevronLeftIcon}
@@ -259,7 +283,7 @@ export class DsCalendar extends DSElement {
           <button
             type="button"
             class="ds-calendar__nav-button"
-            aria-label="Next month"
+            aria-label=${this.localize.t("calendar.nextMonth")}
             @click=${this.handleNextMonth}
           >
             ${chevronRightIcon}
@@ -279,6 +303,7 @@ export class DsCalendar extends DSElement {
             const disabled = this.isDisabled(date);
             const selected = this.isSelected(date);
             const today = this.isToday(date);
+            const reason = this.getUnavailableReason(date);
 
             return html`
               <button
@@ -292,10 +317,12 @@ export class DsCalendar extends DSElement {
                 ?data-selected=${selected}
                 ?data-today=${today}
                 ?data-disabled=${disabled}
+                ?data-unavailable=${reason !== null}
                 @click=${() => this.handleDateSelect(date)}
                 @keydown=${(e: KeyboardEvent) => this.handleKeyDown(e, date)}
               >
                 ${date.getDate()}
+                ${reason ? html`<span class="ds-visually-hidden">${reason}</span>` : nothing}
               </button>
             `;
           })}
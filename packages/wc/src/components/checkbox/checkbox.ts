@@ -1,3 +1,4 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import type { PropertyValues } from "lit";
 import { property, state } from "lit/decorators.js";
@@ -5,6 +6,7 @@ import { ifDefined } from "lit/directives/if-defined.js";
 import { DSElement } from "../../base/ds-element.js";
 import { FormAssociatedMixin } from "../../base/form-associated.js";
 import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -42,6 +44,12 @@ export class DsCheckbox extends FormAssociatedMixin(DSElement) {
   @property({ type: Boolean, reflect: true })
   indeterminate = false;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   /** ARIA describedby - IDs of elements that describe this checkbox */
   @state()
   private ariaDescribedBy?: string;
@@ -157,6 +165,11 @@ export class DsCheckbox extends FormAssociatedMixin(DSElement) {
 
   // Form association implementation
 
+  /** Whether the checkbox is checked */
+  get typedValue(): boolean {
+    return this.checked;
+  }
+
   protected getFormValue(): string | null {
     return this.checked ? this.value : null;
   }
@@ -174,7 +187,7 @@ export class DsCheckbox extends FormAssociatedMixin(DSElement) {
 
   protected getValidationMessage(flags: ValidationFlags): string {
     if (flags.valueMissing) {
-      return "Please check this box to proceed";
+      return this.localize.t("validation.checkboxRequired");
     }
     return "";
   }
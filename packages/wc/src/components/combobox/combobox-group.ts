@@ -0,0 +1,72 @@
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+
+/**
+ * Combobox option group with a sticky label.
+ *
+ * The label is rendered as the group's first child and referenced with
+ * `aria-labelledby`, so screen readers announce it when entering the group.
+ *
+ * @element ds-combobox-group
+ * @slot - Group options (ds-combobox-option elements)
+ *
+ * @example
+ * ```html
+ * <ds-combobox-group label="Fruit">
+ *   <ds-combobox-option value="apple">Apple</ds-combobox-option>
+ *   <ds-combobox-option value="banana">Banana</ds-combobox-option>
+ * </ds-combobox-group>
+ * ```
+ */
+export class DsComboboxGroup extends DSElement {
+  /** Group label */
+  @property({ type: String })
+  label = "";
+
+  private labelEl: HTMLDivElement | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.setAttribute("role", "group");
+
+    if (this.label) {
+      this.createLabel();
+    }
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has("label")) {
+      if (this.label) {
+        this.createLabel();
+      } else if (this.labelEl) {
+        this.labelEl.remove();
+        this.labelEl = null;
+        this.removeAttribute("aria-labelledby");
+      }
+    }
+  }
+
+  private createLabel(): void {
+    if (!this.labelEl) {
+      this.labelEl = document.createElement("div");
+      this.labelEl.className = "ds-combobox__group-label";
+      this.labelEl.id = `combobox-group-${crypto.randomUUID().slice(0, 8)}`;
+      this.labelEl.setAttribute("aria-hidden", "true");
+      this.prepend(this.labelEl);
+      this.setAttribute("aria-labelledby", this.labelEl.id);
+    }
+
+    this.labelEl.textContent = this.label;
+  }
+}
+
+define("ds-combobox-group", DsComboboxGroup);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-combobox-group": DsComboboxGroup;
+  }
+}
@@ -29,6 +29,10 @@ export class DsComboboxOption extends DSElement {
   @property({ type: String })
   label = "";
 
+  /** Additional keywords for filtering (space-separated) */
+  @property({ type: String })
+  keywords = "";
+
   override connectedCallback(): void {
     super.connectedCallback();
 
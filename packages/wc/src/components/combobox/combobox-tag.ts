@@ -1,6 +1,8 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -34,6 +36,12 @@ export class DsComboboxTag extends DSElement {
   @property({ type: Boolean, reflect: true })
   disabled = false;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   override connectedCallback(): void {
     super.connectedCallback();
 
@@ -86,7 +94,7 @@ export class DsComboboxTag extends DSElement {
 
   override render() {
     return html`
-      <div class="ds-combobox-tag" part="container" aria-label="${this.getLabel()}, press Delete to remove">
+      <div class="ds-combobox-tag" part="container" aria-label=${this.localize.t("combobox.removeTag", { label: this.getLabel() })}>
         <slot></slot>
         <slot name="remove"></slot>
       </div>
@@ -1,17 +1,24 @@
 import {
   type AnchorPosition,
   type ComboboxBehavior,
+  type ComboboxBehaviorOptions,
+  type ComboboxBehaviorState,
   type DismissableLayer,
+  type FilterFunction,
+  type Messages,
   type Option,
   type Placement,
   type Presence,
   type RovingFocus,
-  type VirtualizedList,
+  type VirtualWindow,
   createAnchorPosition,
   createComboboxBehavior,
   createDismissableLayer,
   createPresence,
   createRovingFocus,
+  createVirtualWindow,
+  fuzzyFilter,
+  groupOptions,
   prefersReducedMotion,
 } from "@hypoth-ui/primitives-dom";
 import { html, nothing } from "lit";
@@ -21,14 +28,30 @@ import { repeat } from "lit/directives/repeat.js";
 import { DSElement } from "../../base/ds-element.js";
 import { FormAssociatedMixin } from "../../base/form-associated.js";
 import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
+import { arrangeElements } from "../../utils/arrange-elements.js";
+import { setTextHighlights } from "../../utils/text-highlight.js";
+
+/** Highlight name for matched characters, styled with `::highlight(ds-combobox-match)` */
+const MATCH_HIGHLIGHT = "ds-combobox-match";
+
+/** Load the next page when the list is scrolled within this many pixels of its end */
+const LOAD_MORE_DISTANCE = 200;
+
+/** A rendered row of the data-driven list: a group label or an option */
+type ComboboxRow =
+  | { type: "group"; key: string; label: string }
+  | { type: "option"; key: string; option: Option<string>; position: number };
 
 // Import child components to ensure they're registered
 import type { DsComboboxContent } from "./combobox-content.js";
+import type { DsComboboxGroup } from "./combobox-group.js";
 import type { DsComboboxInput } from "./combobox-input.js";
 import type { DsComboboxOption } from "./combobox-option.js";
 import "./combobox-content.js";
+import "./combobox-group.js";
 import "./combobox-input.js";
 import "./combobox-option.js";
 import "./combobox-tag.js";
@@ -46,6 +69,13 @@ import "./combobox-tag.js";
  * - Multi-select with tag display
  * - Enter to select, Escape to close
  *
+ * Options are grouped by `ds-combobox-group` (slotted) or the `group` field
+ * of `items`, with sticky group labels. With `virtualize`, data-driven lists
+ * longer than `virtualizationThreshold` mount only the options in view;
+ * `aria-posinset`/`aria-setsize` keep the full list size announced. A
+ * `loadItems` that returns `{ items, nextCursor }` is paged in as the list
+ * scrolls to its end.
+ *
  * @element ds-combobox
  *
  * @slot input - Input element (ds-combobox-input with input inside)
@@ -126,12 +156,21 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   @property({ type: Boolean })
   virtualize = false;
 
+  /** Estimated option height in pixels while virtualized */
+  @property({ type: Number, attribute: "option-height" })
+  optionHeight = 36;
+
+  /** Number of options mounted beyond each edge of the view while virtualized */
+  @property({ type: Number })
+  overscan = 5;
+
   /**
    * Async loading function. Called when input changes (after debounce).
-   * Return an array of Option objects: { value: string, label: string, disabled?: boolean }
+   * Return an array of Option objects: { value: string, label: string, disabled?: boolean },
+   * or a page `{ items, nextCursor }`; the cursor is passed back to load the next page.
    */
   @property({ attribute: false })
-  loadItems?: (query: string, signal: AbortSignal) => Promise<Option<string>[]>;
+  loadItems?: ComboboxBehaviorOptions<string>["loadItems"];
 
   /**
    * Data-driven options array. Use this for programmatic option rendering.
@@ -140,6 +179,17 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   @property({ attribute: false })
   items: Option<string>[] = [];
 
+  /**
+   * Custom matcher for filtering options by the typed query. Defaults to
+   * ranked fuzzy matching of each option's label and keywords.
+   */
+  @property({ attribute: false })
+  filter?: FilterFunction;
+
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
   /** Whether async loading is in progress (read-only) */
   @state()
   loading = false;
@@ -148,13 +198,36 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   @state()
   loadError: string | null = null;
 
-  /** Filtered items for display */
+  /** Whether a further page is loading (read-only) */
+  @state()
+  loadingMore = false;
+
+  /** Filtered items for display, grouped and best match first */
   @state()
   private filteredItems: Option<string>[] = [];
 
-  /** Visible item IDs for virtualization */
+  /** Whether `loadItems` has a further page */
   @state()
-  private visibleItemIds = new Set<string>();
+  private hasMore = false;
+
+  /** Range of `rows` rendered while virtualized */
+  @state()
+  private windowRange = { start: 0, end: 0 };
+
+  /** Group labels and options of the data-driven list, in display order */
+  private rows: ComboboxRow[] = [];
+  /** Row index of each group label */
+  private groupRowIndex = new Map<string, number>();
+  private virtualWindow: VirtualWindow | null = null;
+  private virtualFrame: number | null = null;
+
+  /** Suppresses input events while resetting the behavior's query */
+  private syncingInput = false;
+
+  /** Slotted options in document order, captured when filtering starts */
+  private naturalOrder: DsComboboxOption[] | null = null;
+
+  private localize = new LocalizeController(this);
 
   /** Default value for form reset (single-select) */
   private _defaultValue = "";
@@ -163,15 +236,14 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   private _defaultValues: string[] = [];
 
   private behavior: ComboboxBehavior<string, false> | ComboboxBehavior<string, true> | null = null;
+  /** Loader and debounce the behavior was created with */
+  private behaviorLoader: Pick<DsCombobox, "loadItems" | "debounce"> | null = null;
   private anchorPosition: AnchorPosition | null = null;
   private dismissLayer: DismissableLayer | null = null;
   private presence: Presence | null = null;
   private rovingFocus: RovingFocus | null = null;
-  private virtualizedList: VirtualizedList | null = null;
   private resizeObserver: ResizeObserver | null = null;
   private scrollHandler: (() => void) | null = null;
-  private loadAbortController: AbortController | null = null;
-  private debounceTimeout: number | null = null;
 
   override connectedCallback(): void {
     // Store default value(s) for form reset
@@ -211,58 +283,69 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   }
 
   private initBehavior(): void {
+    this.behavior?.destroy();
+    this.behaviorLoader = { loadItems: this.loadItems, debounce: this.debounce };
+
+    const shared = {
+      items: this.items,
+      filter: this.matchOption,
+      loadItems: this.loadItems,
+      onLoadStateChange: this.handleLoadStateChange,
+      creatable: this.creatable,
+      debounce: this.debounce,
+      virtualizationThreshold: this.virtualizationThreshold,
+      disabled: this.disabled,
+      onInputChange: (query: string) => {
+        if (!this.syncingInput) {
+          emitEvent(this, "input", { detail: { value: query } });
+        }
+      },
+      onCreateValue: (value: string) => {
+        emitEvent(this, "create", { detail: { value } });
+      },
+    };
+
     if (this.multiple) {
       this.behavior = createComboboxBehavior<string, true>({
+        ...shared,
         defaultValue: this.values,
         multiple: true,
-        creatable: this.creatable,
-        debounce: this.debounce,
-        virtualizationThreshold: this.virtualizationThreshold,
-        disabled: this.disabled,
         onValueChange: (values) => {
           this.values = values;
-          const options = this.getOptions();
-          const labels = values.map((v) => {
-            const opt = options.find((o) => o.value === v);
-            return opt?.getLabel() ?? v;
-          });
+          const labels = values.map((v) => this.getLabelFor(v));
           emitEvent(this, StandardEvents.CHANGE, { detail: { values, labels } });
         },
-        onInputChange: (query) => {
-          emitEvent(this, "input", { detail: { value: query } });
-          this.filterOptions(query);
-        },
-        onCreateValue: (value) => {
-          emitEvent(this, "create", { detail: { value } });
-        },
       });
     } else {
       this.behavior = createComboboxBehavior<string, false>({
+        ...shared,
         defaultValue: this.value || null,
         multiple: false,
-        creatable: this.creatable,
-        debounce: this.debounce,
-        virtualizationThreshold: this.virtualizationThreshold,
-        disabled: this.disabled,
         onValueChange: (value) => {
           this.value = value ?? "";
-          const option = this.getOptionByValue(value ?? "");
           emitEvent(this, StandardEvents.CHANGE, {
             detail: {
               value: value ?? "",
-              label: option?.getLabel() ?? "",
+              label: value ? this.getLabelFor(value) : "",
             },
           });
         },
-        onInputChange: (query) => {
-          emitEvent(this, "input", { detail: { value: query } });
-          this.filterOptions(query);
-        },
-        onCreateValue: (value) => {
-          emitEvent(this, "create", { detail: { value } });
-        },
       });
     }
+
+    this.filteredItems = this.behavior.state.filteredOptions;
+    if (this.open) this.behavior.open();
+  }
+
+  /**
+   * Matcher handed to the behavior, reading the current `filter`.
+   */
+  private matchOption: FilterFunction = (query, candidate) =>
+    (this.filter ?? fuzzyFilter)(query, candidate);
+
+  private getLabelFor(value: string): string {
+    const option = this.behavior?.state.options.find((opt) => opt.value === value);
+    return option?.label ?? this.getOptionByValue(value)?.getLabel() ?? value;
   }
 
   /**
@@ -281,7 +364,9 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
    * Closes the combobox.
    * @param reason - The reason for closing (default: "programmatic")
    */
-  public close(reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"): void {
+  public close(
+    reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"
+  ): void {
     if (!this.open) return;
 
     // Emit cancelable open-change event before closing
@@ -384,40 +469,130 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
     return this.getOptions().find((opt) => opt.value === value) ?? null;
   }
 
+  /**
+   * Hands the slotted options to the behavior, which filters, ranks and
+   * groups them for display and keyboard navigation.
+   */
   private registerOptions(): void {
-    const options = this.getOptions();
-    const _items: Option<string>[] = options.map((opt) => ({
+    if (this.isDataDriven) return;
+
+    const items: Option<string>[] = this.getOptions().map((opt) => ({
       value: opt.value,
       label: opt.getLabel(),
       disabled: opt.disabled,
+      keywords: opt.keywords.split(/\s+/).filter(Boolean),
+      group: opt.closest<DsComboboxGroup>("ds-combobox-group")?.label || undefined,
     }));
-    // Set static items on behavior (for filtering)
-    // Note: behavior stores items internally via the items option
+    this.behavior?.setItems(items);
   }
 
+  /**
+   * Shows the behavior's filtered options, best match first.
+   */
   private filterOptions(query: string): void {
-    const options = this.getOptions();
-    const lowerQuery = query.toLowerCase();
+    const behavior = this.behavior;
+    if (!behavior) return;
+
+    if (this.isDataDriven) {
+      this.filteredItems = behavior.state.filteredOptions;
+      const viewport = this.getViewport();
+      if (viewport) viewport.scrollTop = 0;
+    } else {
+      const options = this.getOptions();
+      const byValue = new Map(options.map((option) => [option.value, option]));
+      const matched = new Set<DsComboboxOption>();
+
+      // Group containers or ungrouped options, in the behavior's group order
+      const sections: Element[] = [];
+      for (const group of behavior.getGroups()) {
+        const groupOptions = group.options.flatMap((opt) => byValue.get(opt.value) ?? []);
+        for (const option of groupOptions) matched.add(option);
+        const container = groupOptions[0]?.closest("ds-combobox-group");
+        sections.push(...(group.label !== null && container ? [container] : groupOptions));
+      }
 
-    for (const option of options) {
-      const label = option.getLabel().toLowerCase();
-      const matches = !query || label.includes(lowerQuery);
+      for (const option of options) {
+        option.toggleAttribute("hidden", !matched.has(option));
+      }
 
-      if (matches) {
-        option.removeAttribute("hidden");
+      if (query.trim() !== "") {
+        this.naturalOrder ??= options;
+        // Unmatched sections keep their relative order after the matched ones
+        const unmatched = this.getSections(options).filter(
+          (section) => !sections.includes(section)
+        );
+        arrangeElements([...matched]);
+        arrangeElements([...sections, ...unmatched]);
       } else {
-        option.setAttribute("hidden", "");
+        this.restoreNaturalOrder();
       }
+      this.updateGroupVisibility();
+
+      // Highlight after reordering: moving a node collapses ranges inside it
+      this.highlightMatches();
     }
 
-    // Auto-highlight first visible option
-    const visibleOptions = this.getEnabledOptions().filter((opt) => !opt.hasAttribute("hidden"));
-    if (visibleOptions.length > 0 && visibleOptions[0]) {
-      this.behavior?.highlightFirst();
-      this.updateOptionStates();
+    this.updateOptionStates();
+    this.updateInputAria();
+  }
+
+  private highlightMatches(): void {
+    for (const option of this.getOptions()) {
+      // Ranges refer to the trimmed text content unless a label is set
+      const text = option.textContent ?? "";
+      const ranges =
+        option.hasAttribute("hidden") || option.label
+          ? []
+          : (this.behavior?.getMatchRanges(option.value) ?? []);
+      setTextHighlights(MATCH_HIGHLIGHT, option, ranges, text.length - text.trimStart().length);
+    }
+  }
+
+  private updateGroupVisibility(): void {
+    for (const group of this.querySelectorAll("ds-combobox-group")) {
+      const visible = group.querySelector("ds-combobox-option:not([hidden])");
+      group.toggleAttribute("hidden", !visible);
     }
   }
 
+  private resetFilter(): void {
+    // Async results stay as loaded rather than reloading for the empty query
+    if (!this.loadItems) {
+      this.syncingInput = true;
+      this.behavior?.setInputValue("");
+      this.syncingInput = false;
+    }
+
+    for (const option of this.getOptions()) {
+      option.removeAttribute("hidden");
+      setTextHighlights(MATCH_HIGHLIGHT, option, []);
+    }
+    for (const group of this.querySelectorAll("ds-combobox-group")) {
+      group.removeAttribute("hidden");
+    }
+    if (this.behavior) {
+      this.filteredItems = this.behavior.state.filteredOptions;
+    }
+    this.restoreNaturalOrder();
+  }
+
+  private restoreNaturalOrder(): void {
+    if (!this.naturalOrder) return;
+    const options = this.naturalOrder.filter((option) => this.contains(option));
+    arrangeElements(options);
+    arrangeElements(this.getSections(options));
+    this.naturalOrder = null;
+  }
+
+  /**
+   * Top-level entries of the content: groups and ungrouped options.
+   */
+  private getSections(options: DsComboboxOption[]): Element[] {
+    return Array.from(
+      new Set(options.map((option) => option.closest("ds-combobox-group") ?? option))
+    );
+  }
+
   private updateOptionStates(): void {
     const currentValue = this.multiple
       ? ((this.behavior as ComboboxBehavior<string, true>)?.state.value ?? this.values)
@@ -437,82 +612,59 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
 
     const value = target.value;
     this.behavior?.setInputValue(value);
+    this.filterOptions(value);
 
     // Auto-open on input
     if (!this.open && value) {
       this.show();
     }
-
-    // Handle async loading with debounce
-    if (this.loadItems) {
-      this.scheduleAsyncLoad(value);
-    }
   };
 
   /**
-   * Schedules async loading with debounce.
+   * Manually trigger async loading (useful for initial load).
    */
-  private scheduleAsyncLoad(query: string): void {
-    // Clear previous debounce
-    if (this.debounceTimeout !== null) {
-      window.clearTimeout(this.debounceTimeout);
-    }
-
-    // Cancel previous request
-    this.loadAbortController?.abort();
-
-    this.debounceTimeout = window.setTimeout(() => {
-      this.executeAsyncLoad(query);
-    }, this.debounce);
+  public async load(query = ""): Promise<void> {
+    await this.behavior?.load(query);
   }
 
   /**
-   * Executes the async load.
+   * Loads the next page of `loadItems` results, if there is one.
+   * Called automatically when the list is scrolled near its end.
    */
-  private async executeAsyncLoad(query: string): Promise<void> {
-    if (!this.loadItems) return;
-
-    // Create new abort controller
-    this.loadAbortController = new AbortController();
-    const signal = this.loadAbortController.signal;
-
-    this.loading = true;
-    this.loadError = null;
-
-    try {
-      const results = await this.loadItems(query, signal);
-
-      // Check if aborted
-      if (signal.aborted) return;
-
-      this.items = results;
-      this.filteredItems = results;
-      this.loading = false;
-
-      // Update highlighting
-      if (results.length > 0) {
-        this.behavior?.highlightFirst();
-        this.updateOptionStates();
-      }
-    } catch (error) {
-      // Ignore abort errors
-      if (error instanceof Error && error.name === "AbortError") {
-        return;
-      }
+  public async loadMore(): Promise<void> {
+    await this.behavior?.loadMore();
+  }
 
-      this.loading = false;
-      this.loadError = error instanceof Error ? error.message : "Failed to load items";
-      this.items = [];
-      this.filteredItems = [];
+  /**
+   * Mirrors the behavior's async results; a new query highlights its first option.
+   */
+  private handleLoadStateChange = (
+    loadState: ComboboxBehaviorState<string, false> | ComboboxBehaviorState<string, true>
+  ): void => {
+    const settled = this.loading && !loadState.loading;
+    this.loading = loadState.loading;
+    this.loadingMore = loadState.loadingMore;
+    this.hasMore = loadState.hasMore;
+    this.loadError = loadState.error
+      ? loadState.error.message || this.localize.t("combobox.loadError")
+      : null;
+    if (loadState.loading || loadState.loadingMore) return;
+
+    this.items = loadState.options;
+    this.filteredItems = loadState.filteredOptions;
+    if (settled && !loadState.error && loadState.options.length > 0) {
+      this.behavior?.highlightFirst();
+      this.updateOptionStates();
     }
-  }
+  };
 
   /**
-   * Manually trigger async loading (useful for initial load).
+   * Passes data-driven items to the behavior and shows its filtered list.
    */
-  public async load(query = ""): Promise<void> {
-    if (!this.loadItems) return;
-    await this.executeAsyncLoad(query);
+  private syncItems(): void {
+    if (!this.behavior) return;
+    this.behavior.setItems(this.items);
+    this.filteredItems = this.behavior.state.filteredOptions;
   }
 
   private handleClick = (event: Event): void => {
@@ -614,10 +766,27 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
 
   private scrollHighlightedIntoView(): void {
     const highlightedValue = this.behavior?.state.highlightedValue;
-    if (highlightedValue) {
-      const option = this.getOptionByValue(highlightedValue);
-      option?.scrollIntoView({ block: "nearest" });
+    if (!highlightedValue) return;
+
+    const virtual = this.virtualWindow;
+    const viewport = this.getViewport();
+    if (virtual && viewport) {
+      // The option may not be mounted: scroll its row into the window first
+      const index = this.rows.findIndex(
+        (row) => row.type === "option" && row.option.value === highlightedValue
+      );
+      if (index === -1) return;
+      viewport.scrollTop = virtual.getScrollOffsetForIndex(
+        index,
+        viewport.clientHeight,
+        viewport.scrollTop
+      );
+      this.windowRange = this.computeWindowRange();
+      return;
     }
+
+    const option = this.getOptionByValue(highlightedValue);
+    option?.scrollIntoView({ block: "nearest" });
   }
 
   private handleDismiss = (): void => {
@@ -718,8 +887,10 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
     this.rovingFocus?.destroy();
     this.rovingFocus = null;
 
-    this.virtualizedList?.destroy();
-    this.virtualizedList = null;
+    if (this.virtualFrame !== null) {
+      cancelAnimationFrame(this.virtualFrame);
+      this.virtualFrame = null;
+    }
 
     this.resizeObserver?.disconnect();
     this.resizeObserver = null;
@@ -729,19 +900,64 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
       window.removeEventListener("resize", this.scrollHandler);
       this.scrollHandler = null;
     }
+  }
+
+  override willUpdate(changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
 
-    // Cancel any pending async operations
-    if (this.debounceTimeout !== null) {
-      window.clearTimeout(this.debounceTimeout);
-      this.debounceTimeout = null;
+    // The behavior reads the loader and debounce once; rebuild it when they change
+    if (
+      this.behaviorLoader &&
+      (this.behaviorLoader.loadItems !== this.loadItems ||
+        this.behaviorLoader.debounce !== this.debounce)
+    ) {
+      this.initBehavior();
+    }
+
+    if (changedProperties.has("items") && this.behavior?.state.options !== this.items) {
+      this.syncItems();
+    }
+
+    if (changedProperties.has("filteredItems")) {
+      this.computeRows();
+    }
+
+    const windowed =
+      this.isDataDriven &&
+      this.virtualize &&
+      this.filteredItems.length > this.virtualizationThreshold;
+    if (!windowed) {
+      this.virtualWindow = null;
+    } else if (
+      !this.virtualWindow ||
+      changedProperties.has("optionHeight") ||
+      changedProperties.has("overscan")
+    ) {
+      this.virtualWindow = createVirtualWindow({
+        count: this.rows.length,
+        estimateSize: this.optionHeight,
+        overscan: this.overscan,
+        getItemKey: (index) => this.rows[index]?.key ?? index,
+      });
+    }
+
+    if (this.virtualWindow) {
+      this.virtualWindow.setCount(this.rows.length);
+      this.windowRange = this.computeWindowRange();
     }
-    this.loadAbortController?.abort();
-    this.loadAbortController = null;
   }
 
   override async updated(changedProperties: Map<string, unknown>): Promise<void> {
     super.updated(changedProperties);
 
+    // Rendered options change with the query and the scroll position
+    if (this.isDataDriven) {
+      this.measureRows();
+      this.updateOptionStates();
+      this.updateInputAria();
+      this.highlightMatches();
+    }
+
     if (changedProperties.has("open")) {
       this.updateInputAria();
 
@@ -777,9 +993,7 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
         content?.setAttribute("hidden", "");
 
         // Clear filter when closing
-        for (const option of this.getOptions()) {
-          option.removeAttribute("hidden");
-        }
+        this.resetFilter();
       }
     }
 
@@ -805,6 +1019,74 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
     }
   }
 
+  /**
+   * Flattens the filtered items into group label and option rows.
+   */
+  private computeRows(): void {
+    const rows: ComboboxRow[] = [];
+    this.groupRowIndex = new Map();
+    let position = 0;
+
+    for (const group of groupOptions(this.filteredItems)) {
+      if (group.label !== null) {
+        this.groupRowIndex.set(group.label, rows.length);
+        rows.push({ type: "group", key: `group:${group.label}`, label: group.label });
+      }
+      for (const option of group.options) {
+        rows.push({ type: "option", key: `option:${option.value}`, option, position: ++position });
+      }
+    }
+    this.rows = rows;
+  }
+
+  private getViewport(): HTMLElement | null {
+    return this.querySelector<HTMLElement>(".ds-combobox__viewport");
+  }
+
+  private computeWindowRange(): { start: number; end: number } {
+    const virtual = this.virtualWindow;
+    if (!virtual) return { start: 0, end: this.rows.length };
+
+    const viewport = this.getViewport();
+    // Before the viewport is rendered, assume it shows the estimated max height
+    const height = viewport?.clientHeight || this.optionHeight * 8;
+    const { start, end } = virtual.getRange(viewport?.scrollTop ?? 0, height);
+    return { start, end };
+  }
+
+  /**
+   * Refine row height estimates from the rendered rows.
+   */
+  private measureRows(): void {
+    const virtual = this.virtualWindow;
+    if (!virtual) return;
+
+    let changed = false;
+    for (const row of this.querySelectorAll<HTMLElement>("[data-row-index]")) {
+      const index = Number(row.dataset.rowIndex);
+      changed = virtual.measure(index, row.getBoundingClientRect().height) || changed;
+    }
+    if (changed) this.windowRange = this.computeWindowRange();
+  }
+
+  private handleViewportScroll = (): void => {
+    if (this.virtualFrame !== null) return;
+    this.virtualFrame = requestAnimationFrame(() => {
+      this.virtualFrame = null;
+      if (this.virtualWindow) {
+        this.windowRange = this.computeWindowRange();
+      }
+
+      const viewport = this.getViewport();
+      if (
+        viewport &&
+        viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - LOAD_MORE_DISTANCE
+      ) {
+        this.loadMore();
+      }
+    });
+  };
+
   /**
    * Returns true if using data-driven rendering.
    */
@@ -815,33 +1097,119 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   /**
    * Renders a single option from data.
    */
-  private renderDataOption(item: Option<string>) {
-    const currentValue = this.multiple
-      ? ((this.behavior as ComboboxBehavior<string, true>)?.state.value ?? this.values)
-      : ([this.behavior?.state.value ?? this.value].filter(Boolean) as string[]);
-    const highlightedValue = this.behavior?.state.highlightedValue;
-    const isSelected = currentValue.includes(item.value);
-    const isHighlighted = item.value === highlightedValue;
+  private renderDataOption(row: Extract<ComboboxRow, { type: "option" }>, index: number) {
+    const { option, position } = row;
 
     return html`
       <ds-combobox-option
-        value=${item.value}
-        ?disabled=${item.disabled}
-        data-selected=${isSelected || nothing}
-        data-highlighted=${isHighlighted || nothing}
+        value=${option.value}
+        keywords=${option.keywords?.join(" ") ?? nothing}
+        ?disabled=${option.disabled}
+        aria-posinset=${position}
+        aria-setsize=${this.hasMore ? -1 : this.filteredItems.length}
+        data-row-index=${this.virtualWindow ? index : nothing}
       >
-        ${item.label}
+        ${option.label}
       </ds-combobox-option>
     `;
   }
 
+  /**
+   * Renders the mounted rows, grouped, between spacers for the rows scrolled out.
+   */
+  private renderDataList() {
+    const behavior = this.behavior;
+    if (!behavior) return nothing;
+
+    const virtual = this.virtualWindow;
+    const { start, end } = virtual ? this.windowRange : { start: 0, end: this.rows.length };
+
+    // Mounted rows split into runs of one group. A group whose label row is
+    // scrolled out keeps its label mounted, so it stays stuck and announced.
+    const sections: Array<{ label: string | null; first: number; rows: number[] }> = [];
+    for (let index = start; index < end; index++) {
+      const row = this.rows[index];
+      if (!row) continue;
+      if (row.type === "group") {
+        sections.push({ label: row.label, first: index, rows: [] });
+        continue;
+      }
+      const label = row.option.group ?? null;
+      const last = sections[sections.length - 1];
+      if (last && last.label === label) {
+        last.rows.push(index);
+      } else {
+        const first = label === null ? index : (this.groupRowIndex.get(label) ?? index);
+        sections.push({ label, first, rows: [index] });
+      }
+    }
+
+    const spacer = (height: number) =>
+      height > 0
+        ? html`<div class="ds-combobox__spacer" aria-hidden="true" style="height: ${height}px"></div>`
+        : nothing;
+
+    const renderOptions = (rows: number[]) =>
+      repeat(
+        rows,
+        (index) => this.rows[index]?.key ?? index,
+        (index) =>
+          this.renderDataOption(this.rows[index] as Extract<ComboboxRow, { type: "option" }>, index)
+      );
+
+    const renderSection = (section: (typeof sections)[number]) => {
+      if (section.label === null) return renderOptions(section.rows);
+
+      const groupProps = behavior.getGroupProps(section.label);
+      const firstRow = section.rows[0];
+      const gap =
+        virtual && firstRow !== undefined
+          ? virtual.getOffset(firstRow) - virtual.getOffset(section.first + 1)
+          : 0;
+
+      return html`
+        <div
+          class="ds-combobox__group"
+          role=${groupProps.role}
+          aria-labelledby=${groupProps["aria-labelledby"]}
+        >
+          <div
+            class="ds-combobox__group-label"
+            id=${behavior.getGroupLabelProps(section.label).id}
+            aria-hidden="true"
+            data-row-index=${virtual ? section.first : nothing}
+          >
+            ${section.label}
+          </div>
+          ${spacer(gap)}
+          ${renderOptions(section.rows)}
+        </div>
+      `;
+    };
+
+    return html`
+      <div class="ds-combobox__viewport" @scroll=${this.handleViewportScroll}>
+        ${spacer(virtual ? virtual.getOffset(sections[0]?.first ?? start) : 0)}
+        ${sections.map(renderSection)}
+        ${spacer(virtual ? virtual.getTotalSize() - virtual.getOffset(end) : 0)}
+        ${
+          this.loadingMore
+            ? html`<div class="ds-combobox__loading-more" aria-hidden="true">
+                ${this.localize.t("combobox.loading")}
+              </div>`
+            : nothing
+        }
+      </div>
+    `;
+  }
+
   /**
    * Renders loading state.
    */
   private renderLoading() {
     return html`
       <div class="ds-combobox__loading" role="status" aria-live="polite">
-        <slot name="loading">Loading...</slot>
+        <slot name="loading">${this.localize.t("combobox.loading")}</slot>
       </div>
     `;
   }
@@ -863,13 +1231,18 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
   private renderEmpty() {
     return html`
       <div class="ds-combobox__empty">
-        <slot name="empty">No results found</slot>
+        <slot name="empty">${this.localize.t("combobox.noResults")}</slot>
       </div>
     `;
   }
 
   // Form association implementation
 
+  /** The value, or the selected values in multiple mode */
+  get typedValue(): string | string[] {
+    return this.multiple ? this.values : this.value;
+  }
+
   protected getFormValue(): FormData | string | null {
     if (this.multiple) {
       // For multi-select, submit as FormData with multiple values
@@ -897,7 +1270,7 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
 
   protected getValidationMessage(flags: ValidationFlags): string {
     if (flags.valueMissing) {
-      return "Please select an option";
+      return this.localize.t("validation.selectRequired");
     }
     return "";
   }
@@ -935,8 +1308,6 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
    * Renders data-driven options.
    */
   private renderDataOptions() {
-    const items = this.filteredItems.length > 0 ? this.filteredItems : this.items;
-
     if (this.loading) {
       return this.renderLoading();
     }
@@ -945,43 +1316,28 @@ export class DsCombobox extends FormAssociatedMixin(DSElement) {
       return this.renderError();
     }
 
-    if (items.length === 0) {
+    if (this.filteredItems.length === 0) {
       return this.renderEmpty();
     }
 
-    // Use virtualization for large lists
-    if (this.virtualize && items.length > this.virtualizationThreshold) {
+    return this.renderDataList();
+  }
+
+  override render() {
+    if (!this.isDataDriven) {
       return html`
-        <div class="ds-combobox__virtualized" style="height: ${Math.min(items.length * 40, 300)}px; overflow-y: auto;">
-          ${repeat(
-            items,
-            (item) => item.value,
-            (item) => this.renderDataOption(item)
-          )}
-        </div>
+        <slot name="tags"></slot>
+        <slot name="input"></slot>
+        <slot></slot>
       `;
     }
 
-    return repeat(
-      items,
-      (item) => item.value,
-      (item) => this.renderDataOption(item)
-    );
-  }
-
-  override render() {
     return html`
       <slot name="tags"></slot>
       <slot name="input"></slot>
-      ${
-        this.isDataDriven
-          ? html`
-            <ds-combobox-content>
-              ${this.renderDataOptions()}
-            </ds-combobox-content>
-          `
-          : html`<slot></slot>`
-      }
+      <ds-combobox-content .loading=${this.loading || this.loadingMore}>
+        ${this.renderDataOptions()}
+      </ds-combobox-content>
     `;
   }
 }
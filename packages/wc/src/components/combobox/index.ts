@@ -1,5 +1,6 @@
 export { DsCombobox } from "./combobox.js";
 export { DsComboboxInput } from "./combobox-input.js";
 export { DsComboboxContent, type ComboboxContentState } from "./combobox-content.js";
+export { DsComboboxGroup } from "./combobox-group.js";
 export { DsComboboxOption } from "./combobox-option.js";
 export { DsComboboxTag } from "./combobox-tag.js";
@@ -0,0 +1,191 @@
+import { type Hotkey, type Messages, createHotkey } from "@hypoth-ui/primitives-dom";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
+import { define } from "../../registry/define.js";
+import type { DsDialog } from "../dialog/dialog.js";
+
+// Import child components to ensure they're registered
+import "../dialog/dialog.js";
+import "./command.js";
+
+/**
+ * Command palette in a modal dialog, opened with a global keyboard shortcut.
+ *
+ * The `ds-command` child is moved into a `ds-dialog` on connect (or the
+ * existing `ds-dialog` child is used). Each time the palette opens it starts
+ * on the root page with an empty search, and it closes after a selection.
+ *
+ * @element ds-command-dialog
+ * @slot - The ds-command palette
+ *
+ * @fires ds:open-change - When the dialog opens or closes (from the inner ds-dialog)
+ *
+ * @example
+ * ```html
+ * <ds-command-dialog hotkey="mod+k">
+ *   <ds-command>
+ *     <ds-command-input></ds-command-input>
+ *     <ds-command-list>...</ds-command-list>
+ *   </ds-command>
+ * </ds-command-dialog>
+ * ```
+ */
+export class DsCommandDialog extends DSElement {
+  /**
+   * Whether the palette is open.
+   */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /**
+   * Shortcut that toggles the palette, such as "mod+k" (⌘K on macOS,
+   * Ctrl+K elsewhere). Set to an empty string to disable.
+   */
+  @property({ type: String })
+  hotkey = "mod+k";
+
+  /**
+   * Whether selecting a command closes the palette.
+   */
+  @property({ type: Boolean, attribute: "close-on-select" })
+  closeOnSelect = true;
+
+  /**
+   * Dialog label for accessibility. Defaults to the `command.label` message.
+   */
+  @property({ type: String })
+  label?: string;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
+  private _dialog: DsDialog | null = null;
+
+  private _hotkey: Hotkey | null = null;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this._wrapContent();
+
+    this.addEventListener("ds:open-change", this._handleOpenChange);
+    this.addEventListener("ds:select", this._handleSelect);
+
+    if (this.hasUpdated) {
+      this._registerHotkey();
+    }
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.removeEventListener("ds:open-change", this._handleOpenChange);
+    this.removeEventListener("ds:select", this._handleSelect);
+    this._hotkey?.destroy();
+    this._hotkey = null;
+  }
+
+  updated(changedProperties: Map<string, unknown>): void {
+    if (changedProperties.has("hotkey")) {
+      this._registerHotkey();
+    }
+
+    const label = this.label ?? this.localize.t("command.label");
+    this._dialog?.setAttribute("aria-label", label);
+    this._dialog?.querySelector("ds-dialog-content")?.setAttribute("aria-label", label);
+
+    if (changedProperties.has("open")) {
+      void this._syncOpen();
+    }
+  }
+
+  /**
+   * Open the palette.
+   */
+  show(): void {
+    this.open = true;
+  }
+
+  /**
+   * Close the palette.
+   */
+  close(): void {
+    this.open = false;
+  }
+
+  /**
+   * Open the palette if closed, close it if open.
+   */
+  toggle(): void {
+    this.open = !this.open;
+  }
+
+  private _wrapContent(): void {
+    if (this._dialog) return;
+
+    let dialog = this.querySelector("ds-dialog");
+    if (!dialog) {
+      dialog = document.createElement("ds-dialog");
+      const content = document.createElement("ds-dialog-content");
+      content.append(...Array.from(this.childNodes));
+      dialog.appendChild(content);
+      this.appendChild(dialog);
+    }
+    this._dialog = dialog;
+  }
+
+  private _registerHotkey(): void {
+    this._hotkey?.destroy();
+    this._hotkey = this.hotkey
+      ? createHotkey({ hotkey: this.hotkey, onTrigger: () => this.toggle() })
+      : null;
+  }
+
+  private async _syncOpen(): Promise<void> {
+    const dialog = this._dialog;
+    if (!dialog || dialog.open === this.open) return;
+
+    if (!this.open) {
+      dialog.close();
+      return;
+    }
+
+    const command = this.querySelector("ds-command");
+    command?.resetPages();
+    command?.clear();
+    dialog.show();
+
+    await dialog.updateComplete;
+    this.querySelector("ds-command-input")?.focus();
+  }
+
+  private _handleOpenChange = (event: Event): void => {
+    const dialog = this._dialog;
+    if (!dialog || event.target !== dialog) return;
+
+    // Let other listeners cancel the change before mirroring it
+    queueMicrotask(() => {
+      this.open = event.defaultPrevented
+        ? dialog.open
+        : (event as CustomEvent<{ open: boolean }>).detail.open;
+    });
+  };
+
+  private _handleSelect = (event: Event): void => {
+    if (this.closeOnSelect && (event.target as Element).localName === "ds-command") {
+      this.close();
+    }
+  };
+}
+
+define("ds-command-dialog", DsCommandDialog);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-dialog": DsCommandDialog;
+  }
+}
@@ -1,4 +1,5 @@
 import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette empty state component - shown when no results match the search.
@@ -22,3 +23,11 @@ export class DsCommandEmpty extends DSElement {
     this.setAttribute("hidden", "");
   }
 }
+
+define("ds-command-empty", DsCommandEmpty);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-empty": DsCommandEmpty;
+  }
+}
@@ -1,5 +1,6 @@
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette group component - groups related command items with a heading.
@@ -58,3 +59,11 @@ export class DsCommandGroup extends DSElement {
     this._headingEl.textContent = this.heading;
   }
 }
+
+define("ds-command-group", DsCommandGroup);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-group": DsCommandGroup;
+  }
+}
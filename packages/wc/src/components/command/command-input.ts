@@ -1,6 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette input component - search input for filtering commands.
@@ -8,6 +11,7 @@ import { emitEvent } from "../../events/emit.js";
  * @element ds-command-input
  *
  * @fires ds:command-input - When the input value changes (bubbles to ds-command)
+ * @fires ds:command-back - When Backspace is pressed in the empty input (bubbles to ds-command)
  *
  * @example
  * ```html
@@ -22,10 +26,16 @@ export class DsCommandInput extends DSElement {
   value = "";
 
   /**
-   * Placeholder text.
+   * Placeholder text. Defaults to the `command.placeholder` message.
    */
   @property({ type: String })
-  placeholder = "Type a command or search...";
+  placeholder?: string;
+
+  /**
+   * Headings of the open pages, shown before the field. Set by ds-command.
+   */
+  @property({ attribute: false })
+  breadcrumbs: string[] = [];
 
   /**
    * Whether the input is disabled.
@@ -33,8 +43,18 @@ export class DsCommandInput extends DSElement {
   @property({ type: Boolean, reflect: true })
   disabled = false;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   private _input: HTMLInputElement | null = null;
 
+  private _breadcrumbsEl: HTMLSpanElement | null = null;
+
   connectedCallback(): void {
     super.connectedCallback();
     this._createInput();
@@ -48,6 +68,48 @@ export class DsCommandInput extends DSElement {
     }
   }
 
+  updated(changedProperties: Map<string, unknown>): void {
+    if (this._input) {
+      this._input.placeholder = this.placeholder ?? this.localize.t("command.placeholder");
+      if (this._input.value !== this.value) {
+        this._input.value = this.value;
+      }
+    }
+
+    if (changedProperties.has("breadcrumbs")) {
+      this._renderBreadcrumbs();
+    }
+  }
+
+  /**
+   * Renders page headings before the field and describes the field with them.
+   */
+  private _renderBreadcrumbs(): void {
+    if (this.breadcrumbs.length === 0) {
+      this._breadcrumbsEl?.remove();
+      this._breadcrumbsEl = null;
+      this._input?.removeAttribute("aria-describedby");
+      return;
+    }
+
+    if (!this._breadcrumbsEl) {
+      this._breadcrumbsEl = document.createElement("span");
+      this._breadcrumbsEl.className = "ds-command-input__breadcrumbs";
+      this._breadcrumbsEl.id = `ds-command-breadcrumbs-${Math.random().toString(36).slice(2, 9)}`;
+      this._input?.before(this._breadcrumbsEl);
+    }
+
+    this._breadcrumbsEl.replaceChildren(
+      ...this.breadcrumbs.map((heading) => {
+        const crumb = document.createElement("span");
+        crumb.className = "ds-command-input__breadcrumb";
+        crumb.textContent = heading;
+        return crumb;
+      })
+    );
+    this._input?.setAttribute("aria-describedby", this._breadcrumbsEl.id);
+  }
+
   private _createInput(): void {
     // Check if input already exists (slotted)
     let input = this.querySelector("input");
@@ -60,7 +122,6 @@ export class DsCommandInput extends DSElement {
     }
 
     this._input = input;
-    this._input.placeholder = this.placeholder;
     this._input.disabled = this.disabled;
     this._input.value = this.value;
     this._input.setAttribute("role", "combobox");
@@ -117,6 +178,11 @@ export class DsCommandInput extends DSElement {
         event.preventDefault();
         emitEvent(this, "command-escape", { detail: {} });
         break;
+      case "Backspace":
+        if (this._input?.value === "") {
+          emitEvent(this, "command-back", { detail: {} });
+        }
+        break;
     }
   };
 
@@ -134,3 +200,11 @@ export class DsCommandInput extends DSElement {
     this._input?.blur();
   }
 }
+
+define("ds-command-input", DsCommandInput);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-input": DsCommandInput;
+  }
+}
@@ -1,10 +1,14 @@
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
 import { emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette item component - selectable command/option.
  *
+ * Items with a `page` open the `ds-command-page` of that name instead of
+ * selecting.
+ *
  * @element ds-command-item
  * @slot - Item content
  *
@@ -31,6 +35,12 @@ export class DsCommandItem extends DSElement {
   @property({ type: String })
   keywords = "";
 
+  /**
+   * Name of the `ds-command-page` this item opens.
+   */
+  @property({ type: String, reflect: true })
+  page?: string;
+
   /**
    * Whether the item is disabled.
    */
@@ -72,7 +82,15 @@ export class DsCommandItem extends DSElement {
 
   private _select(): void {
     emitEvent(this, "command-select", {
-      detail: { value: this.value || this.textContent?.trim() || "" },
+      detail: { value: this.value || this.textContent?.trim() || "", page: this.page },
     });
   }
 }
+
+define("ds-command-item", DsCommandItem);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-item": DsCommandItem;
+  }
+}
@@ -1,5 +1,6 @@
 import { createRovingFocus } from "@hypoth-ui/primitives-dom";
 import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette list component - contains command items with keyboard navigation.
@@ -101,3 +102,11 @@ export class DsCommandList extends DSElement {
     }
   }
 }
+
+define("ds-command-list", DsCommandList);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-list": DsCommandList;
+  }
+}
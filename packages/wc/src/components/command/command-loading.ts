@@ -1,4 +1,8 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
+import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette loading state component - shown when loading async results.
@@ -15,10 +19,29 @@ import { DSElement } from "../../base/ds-element.js";
  * ```
  */
 export class DsCommandLoading extends DSElement {
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute("role", "status");
     this.setAttribute("aria-live", "polite");
-    this.setAttribute("aria-label", "Loading");
+  }
+
+  updated(): void {
+    this.setAttribute("aria-label", this.localize.t("command.loading"));
+  }
+}
+
+define("ds-command-loading", DsCommandLoading);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-loading": DsCommandLoading;
   }
 }
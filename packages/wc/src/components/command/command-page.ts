@@ -0,0 +1,53 @@
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+
+/**
+ * Command palette sub-page - a nested list opened by an item with a matching `page`.
+ *
+ * Pages are direct children of `ds-command-list` and stay hidden until
+ * `ds-command` pushes them. While a page is open, only its items are searched
+ * and its heading is shown as a breadcrumb in the input.
+ *
+ * @element ds-command-page
+ * @slot - Page content (groups and items)
+ *
+ * @attr {boolean} data-active - Set while the page is the open page
+ *
+ * @example
+ * ```html
+ * <ds-command-item value="theme" page="theme">Change theme…</ds-command-item>
+ *
+ * <ds-command-page name="theme" heading="Theme">
+ *   <ds-command-item value="theme-light">Light</ds-command-item>
+ *   <ds-command-item value="theme-dark">Dark</ds-command-item>
+ * </ds-command-page>
+ * ```
+ */
+export class DsCommandPage extends DSElement {
+  /**
+   * Name referenced by the `page` attribute of the items that open it.
+   */
+  @property({ type: String, reflect: true })
+  name = "";
+
+  /**
+   * Breadcrumb text. Defaults to the name.
+   */
+  @property({ type: String })
+  heading = "";
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    // Items inside a page belong to the surrounding listbox
+    this.setAttribute("role", "none");
+  }
+}
+
+define("ds-command-page", DsCommandPage);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-page": DsCommandPage;
+  }
+}
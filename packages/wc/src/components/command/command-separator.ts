@@ -1,4 +1,5 @@
 import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
 
 /**
  * Command palette separator component - visual divider between items/groups.
@@ -21,3 +22,11 @@ export class DsCommandSeparator extends DSElement {
     this.setAttribute("aria-orientation", "horizontal");
   }
 }
+
+define("ds-command-separator", DsCommandSeparator);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command-separator": DsCommandSeparator;
+  }
+}
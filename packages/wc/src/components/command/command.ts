@@ -1,15 +1,80 @@
-import { property, state } from "lit/decorators.js";
+import {
+  type CommandSource,
+  type CommandSourceState,
+  type CommandSources,
+  type FilterFunction,
+  type Messages,
+  type RankedItem,
+  type RecentCommands,
+  type RecentCommandsStorage,
+  createCommandSources,
+  createRecentCommands,
+  fuzzyFilter,
+  rankItems,
+} from "@hypoth-ui/primitives-dom";
+import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
+import { arrangeElements } from "../../utils/arrange-elements.js";
+import { setTextHighlights } from "../../utils/text-highlight.js";
+
+// Import child components to ensure they're registered
+import "./command-empty.js";
+import "./command-group.js";
+import "./command-input.js";
+import "./command-item.js";
+import "./command-list.js";
+import "./command-loading.js";
+import "./command-page.js";
+import "./command-separator.js";
+
+/** Highlight name for matched characters, styled with `::highlight(ds-command-match)` */
+const MATCH_HIGHLIGHT = "ds-command-match";
+
+/**
+ * An item returned by a command source.
+ */
+export interface CommandSourceItem {
+  value: string;
+  label: string;
+  keywords?: string[];
+  /** Name of the `ds-command-page` the item opens */
+  page?: string;
+  disabled?: boolean;
+}
+
+/**
+ * An async provider rendered as its own group, with its own loading state.
+ * Results are shown as returned: the source filters for the query itself.
+ */
+export interface CommandPaletteSource extends CommandSource<CommandSourceItem> {
+  /** Group heading */
+  heading: string;
+  /** Page the source belongs to; root when omitted */
+  page?: string;
+}
 
 /**
  * Command palette root component - provides search-based command/option selection.
  *
+ * While searching, items are ranked by match score (best first within each
+ * group, and groups by their best item) and matched characters are
+ * highlighted. Clearing the search restores the original order.
+ *
+ * Items with a `page` open a nested `ds-command-page`; Backspace in the
+ * empty input goes back. `sources` add async result groups, and with a
+ * `recentStorage` the last selected commands are listed first.
+ *
  * @element ds-command
  * @slot - Command children (input, list, etc.)
  *
  * @fires ds:value-change - When the input value changes
  * @fires ds:select - When an item is selected
+ * @fires ds:page-change - When a page is opened or closed
+ *
+ * @attr {string} data-page - Name of the open page
  *
  * @example
  * ```html
@@ -38,103 +103,357 @@ export class DsCommand extends DSElement {
   loading = false;
 
   /**
-   * Whether to use built-in fuzzy filtering.
+   * Whether to use built-in fuzzy filtering, or a custom matcher that scores
+   * each item's text and keywords (return `null` to hide an item).
    * When false, filtering must be handled externally.
    */
   @property({ type: Boolean, attribute: "filter" })
-  filter = true;
+  filter: boolean | FilterFunction = true;
 
   /**
-   * Label for accessibility.
+   * Label for accessibility. Defaults to the `command.label` message.
    */
   @property({ type: String })
-  label = "Command palette";
+  label?: string;
+
+  /**
+   * Async result providers, each rendered as a group.
+   */
+  @property({ attribute: false })
+  sources: CommandPaletteSource[] = [];
+
+  /**
+   * Delay in milliseconds before querying sources after typing.
+   */
+  @property({ type: Number, attribute: "source-debounce" })
+  sourceDebounce = 150;
+
+  /**
+   * Storage for recently selected commands, such as `localStorage`.
+   * Recents are shown while the search is empty.
+   */
+  @property({ attribute: false })
+  recentStorage?: RecentCommandsStorage;
+
+  /**
+   * Storage key for recent commands.
+   */
+  @property({ type: String, attribute: "recent-key" })
+  recentKey = "ds-command-recent";
+
+  /**
+   * Maximum number of recent commands shown.
+   */
+  @property({ type: Number, attribute: "recent-limit" })
+  recentLimit = 5;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
+  /**
+   * Names of the open pages, outermost first.
+   */
+  private _pages: string[] = [];
+
+  private _sources: CommandSources<CommandSourceItem> | null = null;
+
+  private _sourceGroups = new Map<string, HTMLElement>();
+
+  private _recent: RecentCommands | null = null;
+
+  private _recentValues: string[] = [];
 
   /**
    * Tracks visible item count after filtering.
    */
-  @state()
   private _visibleCount = 0;
 
+  /**
+   * Items and groups in document order, captured when a search starts.
+   */
+  private _naturalOrder: Element[] | null = null;
+
   connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute("role", "search");
-    this.setAttribute("aria-label", this.label);
 
     this.addEventListener("ds:command-input", this._handleInputChange);
     this.addEventListener("ds:command-select", this._handleSelect);
+    this.addEventListener("ds:command-back", this._handleBack);
+
+    if (this.hasUpdated) {
+      this._syncSources();
+    }
+  }
+
+  updated(changedProperties: Map<string, unknown>): void {
+    const label = this.label ?? this.localize.t("command.label");
+    this.setAttribute("aria-label", label);
+    this._linkParts(label);
+
+    if (changedProperties.has("sourceDebounce")) {
+      this._destroySources();
+    }
+    if (changedProperties.has("sources") || changedProperties.has("sourceDebounce")) {
+      this._syncSources();
+    }
+    if (
+      changedProperties.has("recentStorage") ||
+      changedProperties.has("recentKey") ||
+      changedProperties.has("recentLimit")
+    ) {
+      this._initRecent();
+    }
+  }
+
+  /**
+   * Names the listbox and points the input's combobox role at it.
+   */
+  private _linkParts(label: string): void {
+    const list = this.querySelector("ds-command-list");
+    const input = this.querySelector("ds-command-input input");
+
+    if (list) {
+      if (!list.id) {
+        list.id = `ds-command-list-${Math.random().toString(36).slice(2, 9)}`;
+      }
+      list.setAttribute("aria-label", label);
+    }
+    if (input) {
+      input.setAttribute("aria-label", label);
+      if (list) input.setAttribute("aria-controls", list.id);
+    }
   }
 
   disconnectedCallback(): void {
     super.disconnectedCallback();
     this.removeEventListener("ds:command-input", this._handleInputChange);
     this.removeEventListener("ds:command-select", this._handleSelect);
+    this.removeEventListener("ds:command-back", this._handleBack);
+    this._destroySources();
   }
 
   private _handleInputChange = (event: Event): void => {
     const e = event as CustomEvent<{ value: string }>;
     this.value = e.detail.value;
 
-    if (this.filter) {
-      this._filterItems(this.value);
-    }
+    this._filterItems(this.value);
+    this._sources?.search(this.value);
 
     emitEvent(this, "value-change", { detail: { value: this.value } });
   };
 
   private _handleSelect = (event: Event): void => {
-    const e = event as CustomEvent<{ value: string }>;
+    const e = event as CustomEvent<{ value: string; page?: string }>;
+
+    if (e.detail.page) {
+      this.pushPage(e.detail.page);
+      return;
+    }
+
+    this._recordRecent(e.detail.value);
     emitEvent(this, "select", { detail: { value: e.detail.value } });
   };
 
+  private _handleBack = (): void => {
+    this.popPage();
+  };
+
+  // ==========================================================================
+  // Pages
+  // ==========================================================================
+
+  /**
+   * Names of the open pages, outermost first.
+   */
+  get pages(): string[] {
+    return [...this._pages];
+  }
+
+  /**
+   * Open the `ds-command-page` with the given name on top of the current page.
+   */
+  pushPage(name: string): void {
+    if (!this._findPage(name)) return;
+    this._pages = [...this._pages, name];
+    this._handlePageChange();
+  }
+
+  /**
+   * Go back to the previous page.
+   */
+  popPage(): void {
+    if (this._pages.length === 0) return;
+    this._pages = this._pages.slice(0, -1);
+    this._handlePageChange();
+  }
+
+  /**
+   * Close all pages and return to the root list.
+   */
+  resetPages(): void {
+    if (this._pages.length === 0) return;
+    this._pages = [];
+    this._handlePageChange();
+  }
+
+  private _findPage(name: string): Element | null {
+    return (
+      Array.from(this.querySelectorAll("ds-command-page")).find(
+        (page) => page.getAttribute("name") === name
+      ) ?? null
+    );
+  }
+
+  private _activePage(): Element | null {
+    const name = this._pages[this._pages.length - 1];
+    return name === undefined ? null : this._findPage(name);
+  }
+
+  private _handlePageChange(): void {
+    const active = this._activePage();
+    const name = this._pages[this._pages.length - 1] ?? null;
+
+    for (const page of this.querySelectorAll("ds-command-page")) {
+      page.toggleAttribute("data-active", page === active);
+    }
+    if (name === null) {
+      this.removeAttribute("data-page");
+    } else {
+      this.setAttribute("data-page", name);
+    }
+
+    const input = this.querySelector("ds-command-input");
+    if (input) {
+      input.breadcrumbs = this._pages.map((page) => {
+        const element = this._findPage(page);
+        return element?.getAttribute("heading") || page;
+      });
+    }
+
+    // Each page starts with an empty search
+    const hadValue = this.value !== "";
+    this.setValue("");
+    this._syncSources();
+    input?.focus();
+
+    if (hadValue) {
+      emitEvent(this, "value-change", { detail: { value: "" } });
+    }
+    emitEvent(this, "page-change", { detail: { page: name, pages: this.pages } });
+  }
+
+  // ==========================================================================
+  // Filtering
+  // ==========================================================================
+
+  /**
+   * Shows the items of the open page that match the query. Source results
+   * are already filtered and recents only appear on the root page while the
+   * search is empty.
+   */
   private _filterItems(query: string): void {
-    const normalizedQuery = query.toLowerCase().trim();
-    const items = this.querySelectorAll("ds-command-item");
-    let visibleCount = 0;
-
-    items.forEach((item) => {
-      const text = item.textContent?.toLowerCase() || "";
-      const value = item.getAttribute("value")?.toLowerCase() || "";
-      const keywords = item.getAttribute("keywords")?.toLowerCase() || "";
-
-      const matches =
-        normalizedQuery === "" ||
-        this._fuzzyMatch(normalizedQuery, text) ||
-        this._fuzzyMatch(normalizedQuery, value) ||
-        this._fuzzyMatch(normalizedQuery, keywords);
-
-      if (matches) {
+    const items = Array.from(this.querySelectorAll("ds-command-item"));
+    const searching = query.trim() !== "";
+    const page = this._activePage();
+    const ranking = Boolean(this.filter) && searching;
+
+    const rankable: Element[] = [];
+    const shown = new Set<Element>();
+    for (const item of items) {
+      if (item.closest("[data-recent]")) {
+        if (page === null && !searching) shown.add(item);
+      } else if (item.closest("ds-command-page") === page) {
+        if (item.closest("[data-source]") || !this.filter) {
+          shown.add(item);
+        } else {
+          rankable.push(item);
+        }
+      }
+    }
+
+    if (ranking && !this._naturalOrder) {
+      this._naturalOrder = Array.from(this.querySelectorAll("ds-command-item, ds-command-group"));
+    }
+
+    const ranked = rankItems(
+      rankable,
+      query,
+      (item) => ({
+        text: item.textContent ?? "",
+        keywords: [
+          item.getAttribute("value") ?? "",
+          ...(item.getAttribute("keywords") ?? "").split(/\s+/),
+        ].filter(Boolean),
+      }),
+      typeof this.filter === "function" ? this.filter : fuzzyFilter
+    );
+    for (const result of ranked) {
+      shown.add(result.item);
+    }
+
+    for (const item of items) {
+      if (shown.has(item)) {
         item.removeAttribute("data-filtered");
-        visibleCount++;
       } else {
         item.setAttribute("data-filtered", "true");
       }
-    });
+      setTextHighlights(MATCH_HIGHLIGHT, item, []);
+    }
+
+    if (ranking) {
+      this._arrangeByRank(ranked);
+    } else {
+      this._restoreNaturalOrder();
+    }
 
-    this._visibleCount = visibleCount;
+    // Highlight after reordering: moving a node collapses ranges inside it
+    for (const result of ranked) {
+      setTextHighlights(MATCH_HIGHLIGHT, result.item, result.ranges);
+    }
+
+    this._visibleCount = shown.size;
     this._updateGroupVisibility();
     this._updateEmptyState();
   }
 
-  private _fuzzyMatch(query: string, text: string): boolean {
-    if (!query) return true;
-    if (!text) return false;
+  private _arrangeByRank(ranked: RankedItem<Element>[]): void {
+    arrangeElements(ranked.map((result) => result.item));
 
-    // Simple fuzzy matching - characters must appear in order
-    let queryIndex = 0;
-    for (let i = 0; i < text.length && queryIndex < query.length; i++) {
-      if (text[i] === query[queryIndex]) {
-        queryIndex++;
-      }
+    // Groups follow their best-scoring item
+    const groupScores = new Map<Element, number>();
+    for (const { item, score } of ranked) {
+      const group = item.closest("ds-command-group");
+      if (group && !groupScores.has(group)) groupScores.set(group, score);
     }
-    return queryIndex === query.length;
+    arrangeElements(
+      Array.from(this.querySelectorAll("ds-command-group")).sort(
+        (a, b) =>
+          (groupScores.get(b) ?? Number.MIN_SAFE_INTEGER) -
+          (groupScores.get(a) ?? Number.MIN_SAFE_INTEGER)
+      )
+    );
+  }
+
+  private _restoreNaturalOrder(): void {
+    if (!this._naturalOrder) return;
+    arrangeElements(this._naturalOrder.filter((element) => this.contains(element)));
+    this._naturalOrder = null;
   }
 
   private _updateGroupVisibility(): void {
     const groups = this.querySelectorAll("ds-command-group");
     groups.forEach((group) => {
-      const visibleItems = group.querySelectorAll("ds-command-item:not([data-filtered])");
-      if (visibleItems.length === 0) {
+      // Source groups stay visible while loading or showing an error
+      const content = group.querySelectorAll(
+        "ds-command-item:not([data-filtered]), ds-command-loading, .ds-command-group__error"
+      );
+      if (content.length === 0) {
         group.setAttribute("data-empty", "true");
       } else {
         group.removeAttribute("data-empty");
@@ -145,7 +464,10 @@ export class DsCommand extends DSElement {
   private _updateEmptyState(): void {
     const emptyEl = this.querySelector("ds-command-empty");
     if (emptyEl) {
-      if (this._visibleCount === 0 && this.value) {
+      const sourcesLoading = Array.from(this._sourceGroups.values()).some((group) =>
+        group.querySelector("ds-command-loading")
+      );
+      if (this._visibleCount === 0 && this.value && !sourcesLoading) {
         emptyEl.removeAttribute("hidden");
       } else {
         emptyEl.setAttribute("hidden", "");
@@ -162,9 +484,7 @@ export class DsCommand extends DSElement {
     if (input) {
       (input as HTMLElement & { value: string }).value = value;
     }
-    if (this.filter) {
-      this._filterItems(value);
-    }
+    this._filterItems(value);
   }
 
   /**
@@ -173,4 +493,186 @@ export class DsCommand extends DSElement {
   clear(): void {
     this.setValue("");
   }
+
+  // ==========================================================================
+  // Sources
+  // ==========================================================================
+
+  /**
+   * Queries the sources of the open page and drops the groups of the others.
+   */
+  private _syncSources(): void {
+    const page = this._pages[this._pages.length - 1];
+    const active = this.sources.filter((source) => source.page === page);
+
+    for (const [id, group] of this._sourceGroups) {
+      if (!active.some((source) => source.id === id)) {
+        group.remove();
+        this._sourceGroups.delete(id);
+      }
+    }
+
+    if (active.length === 0 && !this._sources) return;
+
+    this._sources ??= createCommandSources({
+      sources: active,
+      debounce: this.sourceDebounce,
+      onChange: (id, state) => this._renderSource(id, state),
+    });
+    this._sources.setSources(active);
+    this._sources.search(this.value);
+  }
+
+  private _destroySources(): void {
+    this._sources?.destroy();
+    this._sources = null;
+  }
+
+  private _renderSource(id: string, state: CommandSourceState<CommandSourceItem>): void {
+    const source = this.sources.find((candidate) => candidate.id === id);
+    const container = source?.page
+      ? this._findPage(source.page)
+      : this.querySelector("ds-command-list");
+    if (!source || !container) return;
+
+    let group = this._sourceGroups.get(id);
+    if (!group) {
+      group = document.createElement("ds-command-group");
+      group.setAttribute("data-source", id);
+      container.appendChild(group);
+      this._sourceGroups.set(id, group);
+    }
+    group.setAttribute("heading", source.heading);
+    if (state.loading) {
+      group.setAttribute("aria-busy", "true");
+    } else {
+      group.removeAttribute("aria-busy");
+    }
+
+    for (const child of Array.from(group.children)) {
+      if (!child.classList.contains("ds-command-group__heading")) child.remove();
+    }
+
+    for (const result of state.items) {
+      const item = document.createElement("ds-command-item");
+      item.setAttribute("value", result.value);
+      if (result.keywords?.length) item.setAttribute("keywords", result.keywords.join(" "));
+      if (result.page) item.setAttribute("page", result.page);
+      if (result.disabled) item.setAttribute("disabled", "");
+      item.textContent = result.label;
+      group.appendChild(item);
+    }
+
+    if (state.loading) {
+      const loading = document.createElement("ds-command-loading");
+      loading.textContent = this.localize.t("command.loading");
+      group.appendChild(loading);
+    } else if (state.error) {
+      const error = document.createElement("div");
+      error.className = "ds-command-group__error";
+      error.textContent = this.localize.t("command.loadError");
+      group.appendChild(error);
+    }
+
+    this._filterItems(this.value);
+  }
+
+  // ==========================================================================
+  // Recent commands
+  // ==========================================================================
+
+  private _initRecent(): void {
+    this._recent = this.recentStorage
+      ? createRecentCommands({
+          storage: this.recentStorage,
+          key: this.recentKey,
+          limit: this.recentLimit,
+        })
+      : null;
+
+    if (!this._recent) {
+      if (this._recentValues.length > 0) {
+        this._recentValues = [];
+        this._renderRecent();
+      }
+      return;
+    }
+
+    const recent = this._recent;
+    void this._loadRecent(recent, () => recent.list());
+  }
+
+  private _recordRecent(value: string): void {
+    const recent = this._recent;
+    if (!recent) return;
+
+    void this._loadRecent(recent, () => recent.record(value));
+  }
+
+  /**
+   * Shows the values a storage call resolves with. A storage that throws,
+   * e.g. `localStorage` with a SecurityError or QuotaExceededError, leaves
+   * the palette without recents.
+   */
+  private async _loadRecent(recent: RecentCommands, read: () => Promise<string[]>): Promise<void> {
+    let values: string[];
+    try {
+      values = await read();
+    } catch {
+      values = [];
+    }
+    if (this._recent !== recent) return;
+    this._recentValues = values;
+    this._renderRecent();
+  }
+
+  /**
+   * Lists copies of the recently selected items that are in the palette.
+   */
+  private _renderRecent(): void {
+    this.querySelector("ds-command-group[data-recent]")?.remove();
+
+    const list = this.querySelector("ds-command-list");
+    if (!list || this._recentValues.length === 0) {
+      this._filterItems(this.value);
+      return;
+    }
+
+    const items = Array.from(this.querySelectorAll("ds-command-item"));
+    const copies: Element[] = [];
+    for (const value of this._recentValues) {
+      const original = items.find(
+        (item) => item.getAttribute("value") === value && !item.hasAttribute("page")
+      );
+      if (!original) continue;
+
+      const copy = original.cloneNode(true) as Element;
+      copy.removeAttribute("data-active");
+      copy.removeAttribute("id");
+      copies.push(copy);
+    }
+
+    if (copies.length > 0) {
+      const group = document.createElement("ds-command-group");
+      group.setAttribute("data-recent", "");
+      group.setAttribute("heading", this.localize.t("command.recent"));
+      group.append(...copies);
+
+      const firstGroup = Array.from(list.children).find(
+        (child) =>
+          child.localName !== "ds-command-empty" && child.localName !== "ds-command-loading"
+      );
+      list.insertBefore(group, firstGroup ?? null);
+    }
+
+    this._filterItems(this.value);
+  }
+}
+
+define("ds-command", DsCommand);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-command": DsCommand;
+  }
 }
@@ -0,0 +1,39 @@
+/**
+ * ContextMenuSubContent component - container for submenu items.
+ *
+ * @element ds-context-menu-sub-content
+ *
+ * @slot - Menu items
+ */
+
+import { html } from "lit";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+
+export class DsContextMenuSubContent extends DSElement {
+  /** Data state for animations */
+  @property({ attribute: "data-state", reflect: true })
+  dataState: "open" | "closed" = "closed";
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Set ARIA role; the parent submenu sets the ID and aria-labelledby
+    this.setAttribute("role", "menu");
+    this.setAttribute("aria-orientation", "vertical");
+    this.setAttribute("hidden", "");
+  }
+
+  override render() {
+    return html`<slot></slot>`;
+  }
+}
+
+define("ds-context-menu-sub-content", DsContextMenuSubContent);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-context-menu-sub-content": DsContextMenuSubContent;
+  }
+}
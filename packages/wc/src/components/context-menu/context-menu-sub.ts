@@ -0,0 +1,45 @@
+import { SubmenuElement } from "../../base/submenu-element.js";
+import { define } from "../../registry/define.js";
+import "./context-menu-sub-content.js";
+import "./context-menu-sub-trigger.js";
+
+/**
+ * ContextMenuSub component - nested submenu opened from a sub-trigger item.
+ *
+ * Opens with ArrowRight, Enter, Space, click or hover, and closes with
+ * ArrowLeft or Escape, returning focus to the sub-trigger; the arrow keys swap
+ * in RTL. The pointer can cross other items on its way into the submenu
+ * without closing it.
+ *
+ * @element ds-context-menu-sub
+ *
+ * @slot - Sub-trigger (ds-context-menu-sub-trigger) and sub-content (ds-context-menu-sub-content)
+ *
+ * @fires ds:open-change - Fired when the submenu opens or closes (detail: { open }), doesn't bubble
+ *
+ * @example
+ * ```html
+ * <ds-context-menu-sub>
+ *   <ds-context-menu-sub-trigger>Share</ds-context-menu-sub-trigger>
+ *   <ds-context-menu-sub-content>
+ *     <ds-context-menu-item value="email">Email</ds-context-menu-item>
+ *     <ds-context-menu-item value="link">Copy link</ds-context-menu-item>
+ *   </ds-context-menu-sub-content>
+ * </ds-context-menu-sub>
+ * ```
+ */
+export class DsContextMenuSub extends SubmenuElement {
+  protected readonly tagNames = {
+    sub: "ds-context-menu-sub",
+    trigger: "ds-context-menu-sub-trigger",
+    content: "ds-context-menu-sub-content",
+  };
+}
+
+define("ds-context-menu-sub", DsContextMenuSub);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-context-menu-sub": DsContextMenuSub;
+  }
+}
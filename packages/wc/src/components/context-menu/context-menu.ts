@@ -18,6 +18,12 @@
  *   <ds-context-menu-content>
  *     <ds-context-menu-item value="copy">Copy</ds-context-menu-item>
  *     <ds-context-menu-item value="paste">Paste</ds-context-menu-item>
+ *     <ds-context-menu-sub>
+ *       <ds-context-menu-sub-trigger>Share</ds-context-menu-sub-trigger>
+ *       <ds-context-menu-sub-content>
+ *         <ds-context-menu-item value="email">Email</ds-context-menu-item>
+ *       </ds-context-menu-sub-content>
+ *     </ds-context-menu-sub>
  *   </ds-context-menu-content>
  * </ds-context-menu>
  * ```
@@ -42,6 +48,8 @@ import "./context-menu-content.js";
 import "./context-menu-item.js";
 import "./context-menu-separator.js";
 import "./context-menu-label.js";
+import type { DsContextMenuSub } from "./context-menu-sub.js";
+import "./context-menu-sub.js";
 
 export class DsContextMenu extends DSElement {
   /** Whether the menu is open */
@@ -161,7 +169,9 @@ export class DsContextMenu extends DSElement {
    * Closes the menu.
    * @param reason - The reason for closing (default: "programmatic")
    */
-  public close(reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"): void {
+  public close(
+    reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"
+  ): void {
     if (!this.open) return;
 
     // Emit cancelable open-change event before closing
@@ -279,9 +289,13 @@ export class DsContextMenu extends DSElement {
     const content = this.querySelector("ds-context-menu-content");
     if (!content || !this.menuBehavior) return;
 
-    const items = content.querySelectorAll<HTMLElement>("ds-context-menu-item:not([disabled])");
+    const items = content.querySelectorAll<HTMLElement>(
+      "ds-context-menu-item:not([disabled]), ds-context-menu-sub-trigger:not([disabled])"
+    );
 
     items.forEach((item) => {
+      // Items of submenus belong to their submenu
+      if (item.closest('[role="menu"]') !== content) return;
       this.menuBehavior?.registerItem(item);
     });
   }
@@ -323,6 +337,11 @@ export class DsContextMenu extends DSElement {
         // Note: Context menu handles positioning manually, not via anchor
         this.menuBehavior?.setContentElement(content);
       } else {
+        // Submenus close with the menu
+        for (const sub of this.querySelectorAll<DsContextMenuSub>("ds-context-menu-sub[open]")) {
+          sub.open = false;
+        }
+
         content?.setAttribute("hidden", "");
 
         // Clear content element
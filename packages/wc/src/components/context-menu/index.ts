@@ -7,3 +7,6 @@ export { DsContextMenuContent } from "./context-menu-content.js";
 export { DsContextMenuItem, type ContextMenuItemVariant } from "./context-menu-item.js";
 export { DsContextMenuSeparator } from "./context-menu-separator.js";
 export { DsContextMenuLabel } from "./context-menu-label.js";
+export { DsContextMenuSub } from "./context-menu-sub.js";
+export { DsContextMenuSubTrigger } from "./context-menu-sub-trigger.js";
+export { DsContextMenuSubContent } from "./context-menu-sub-content.js";
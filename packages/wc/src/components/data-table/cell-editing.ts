@@ -0,0 +1,110 @@
+/**
+ * Inline cell editing for the data-driven mode: editor types, conversion
+ * between row values and editor drafts, and the edit records kept on the
+ * undo stack.
+ */
+
+export type DataTableEditorType = "text" | "number" | "select" | "date";
+
+export interface DataTableEditorOption {
+  value: unknown;
+  label: string;
+}
+
+/**
+ * Result of a cell validator: an error message rejects the value.
+ */
+export type DataTableValidationResult = string | null | undefined;
+
+/** What caused a cell value change */
+export type DataTableCellEditSource = "edit" | "undo" | "redo";
+
+export interface DataTableCellEditDetail {
+  rowId: string;
+  column: string;
+  row: unknown;
+  value: unknown;
+  previousValue: unknown;
+  source: DataTableCellEditSource;
+}
+
+/** An applied edit, as recorded on the undo and redo stacks */
+export interface DataTableEdit {
+  rowId: string;
+  column: string;
+  previousValue: unknown;
+  value: unknown;
+}
+
+/**
+ * Format a row value as an editor draft.
+ * Select drafts are option indexes, so option values can be of any type.
+ */
+export function toEditorDraft(
+  type: DataTableEditorType,
+  value: unknown,
+  options: DataTableEditorOption[] = []
+): string {
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? String(value) : "";
+    case "select": {
+      const index = options.findIndex((option) => Object.is(option.value, value));
+      return index === -1 ? "" : String(index);
+    }
+    case "date":
+      return toDateDraft(value);
+    default:
+      return value == null ? "" : String(value);
+  }
+}
+
+/**
+ * Parse an editor draft back into a row value. Dates keep the type of the
+ * previous value: `Date` objects stay `Date`s, anything else becomes an
+ * ISO date string (`YYYY-MM-DD`).
+ */
+export function fromEditorDraft(
+  type: DataTableEditorType,
+  draft: string,
+  previousValue: unknown,
+  options: DataTableEditorOption[] = []
+): unknown {
+  switch (type) {
+    case "number": {
+      if (draft.trim() === "") return null;
+      const value = Number(draft);
+      return Number.isFinite(value) ? value : null;
+    }
+    case "select":
+      return draft === "" ? previousValue : options[Number(draft)]?.value;
+    case "date": {
+      if (!draft) return null;
+      if (!(previousValue instanceof Date)) return draft;
+      const [year, month, day] = draft.split("-").map(Number);
+      return new Date(year as number, (month as number) - 1, day);
+    }
+    default:
+      return draft;
+  }
+}
+
+/**
+ * Compare cell values, treating equal dates as unchanged.
+ */
+export function isSameCellValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return Object.is(a, b);
+}
+
+function toDateDraft(value: unknown): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    const pad = (part: number) => String(part).padStart(2, "0");
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (typeof value === "string") {
+    return /^\d{4}-\d{2}-\d{2}/.exec(value)?.[0] ?? "";
+  }
+  return "";
+}
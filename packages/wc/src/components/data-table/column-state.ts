@@ -0,0 +1,176 @@
+/**
+ * Column layout state for the data-driven mode: order, widths, visibility
+ * and pinning. The state is plain JSON so users' layouts can be persisted
+ * and restored through `DsDataTable.columnState`.
+ */
+
+export type DataTablePinSide = "left" | "right";
+
+export interface DataTableColumnState {
+  /** Column IDs in display order (pinned columns are grouped by side) */
+  order: string[];
+  /** Resized column widths in pixels, by column ID */
+  widths: Record<string, number>;
+  /** Hidden column IDs */
+  hidden: string[];
+  /** Pinned column IDs by side */
+  pinned: Record<DataTablePinSide, string[]>;
+}
+
+export type DataTableColumnStateReason = "resize" | "reorder" | "pin" | "visibility";
+
+/** Column definition fields the layout depends on */
+interface ColumnLayoutDefinition {
+  id: string;
+  hidden?: boolean;
+  pinned?: DataTablePinSide;
+}
+
+export interface LaidOutColumn<T> {
+  column: T;
+  pinned: DataTablePinSide | null;
+}
+
+/**
+ * Resolve a (possibly stale or partial) column state against the current
+ * column definitions. Unknown IDs are dropped; new columns are appended and
+ * take their initial visibility and pinning from the definition.
+ */
+export function normalizeColumnState(
+  columns: ColumnLayoutDefinition[],
+  state?: Partial<DataTableColumnState> | null
+): DataTableColumnState {
+  const ids = new Set(columns.map((column) => column.id));
+  const known = (id: string) => ids.has(id);
+
+  const order = (state?.order ?? []).filter(known);
+  for (const column of columns) {
+    if (!order.includes(column.id)) order.push(column.id);
+  }
+
+  const widths: Record<string, number> = {};
+  for (const [id, width] of Object.entries(state?.widths ?? {})) {
+    if (known(id) && Number.isFinite(width)) widths[id] = width;
+  }
+
+  return {
+    order,
+    widths,
+    hidden:
+      state?.hidden?.filter(known) ??
+      columns.filter((column) => column.hidden).map((column) => column.id),
+    pinned: {
+      left:
+        state?.pinned?.left?.filter(known) ??
+        columns.filter((column) => column.pinned === "left").map((column) => column.id),
+      right:
+        state?.pinned?.right?.filter(known) ??
+        columns.filter((column) => column.pinned === "right").map((column) => column.id),
+    },
+  };
+}
+
+/**
+ * Get the pin side of a column, or null when it scrolls with the table.
+ */
+export function getPinSide(state: DataTableColumnState, id: string): DataTablePinSide | null {
+  if (state.pinned.left.includes(id)) return "left";
+  if (state.pinned.right.includes(id)) return "right";
+  return null;
+}
+
+/**
+ * Visible columns in display order: left-pinned, unpinned, right-pinned.
+ */
+export function getDisplayColumns<T extends ColumnLayoutDefinition>(
+  columns: T[],
+  state: DataTableColumnState
+): LaidOutColumn<T>[] {
+  const byId = new Map(columns.map((column) => [column.id, column]));
+  const visible = state.order.filter((id) => byId.has(id) && !state.hidden.includes(id));
+  const group = (side: DataTablePinSide | null) =>
+    visible
+      .filter((id) => getPinSide(state, id) === side)
+      .map((id) => ({ column: byId.get(id) as T, pinned: side }));
+
+  return [...group("left"), ...group(null), ...group("right")];
+}
+
+/**
+ * Move a column before or after another column.
+ */
+export function applyColumnMove(
+  state: DataTableColumnState,
+  id: string,
+  targetId: string,
+  position: "before" | "after"
+): DataTableColumnState {
+  if (id === targetId || !state.order.includes(id) || !state.order.includes(targetId)) {
+    return state;
+  }
+
+  const order = state.order.filter((columnId) => columnId !== id);
+  const targetIndex = order.indexOf(targetId) + (position === "after" ? 1 : 0);
+  order.splice(targetIndex, 0, id);
+  return { ...state, order };
+}
+
+/**
+ * Pin a column to a side, or unpin it with `null`.
+ */
+export function applyColumnPin(
+  state: DataTableColumnState,
+  id: string,
+  side: DataTablePinSide | null
+): DataTableColumnState {
+  const left = state.pinned.left.filter((columnId) => columnId !== id);
+  const right = state.pinned.right.filter((columnId) => columnId !== id);
+  if (side === "left") left.push(id);
+  if (side === "right") right.push(id);
+  return { ...state, pinned: { left, right } };
+}
+
+/**
+ * Show or hide a column.
+ */
+export function applyColumnHidden(
+  state: DataTableColumnState,
+  id: string,
+  hidden: boolean
+): DataTableColumnState {
+  const rest = state.hidden.filter((columnId) => columnId !== id);
+  return { ...state, hidden: hidden ? [...rest, id] : rest };
+}
+
+/**
+ * Set a column width in pixels, or reset it to the definition's width with `null`.
+ */
+export function applyColumnWidth(
+  state: DataTableColumnState,
+  id: string,
+  width: number | null
+): DataTableColumnState {
+  const { [id]: _previous, ...widths } = state.widths;
+  if (width !== null) widths[id] = Math.round(width);
+  return { ...state, widths };
+}
+
+/**
+ * Convert a CSS length from a column definition to pixels.
+ * Supports unitless, `px`, `rem` and `em` values; anything else returns undefined.
+ */
+export function toPixels(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const match = /^(-?[\d.]+)(px|rem|em)?$/.exec(value.trim());
+  if (!match) return undefined;
+
+  const amount = Number.parseFloat(match[1] as string);
+  if (!match[2] || match[2] === "px") return amount;
+
+  const rootFontSize =
+    typeof document !== "undefined"
+      ? Number.parseFloat(getComputedStyle(document.documentElement).fontSize)
+      : Number.NaN;
+  return amount * (Number.isFinite(rootFontSize) ? rootFontSize : 16);
+}
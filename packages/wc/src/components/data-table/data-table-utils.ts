@@ -0,0 +1,62 @@
+/**
+ * Data table utilities for the data-driven rendering mode.
+ *
+ * Resolves cell values from column accessors and stable row IDs from row data.
+ */
+
+/**
+ * Read a value from a row by a dot-separated path.
+ *
+ * @param row - The row object
+ * @param path - Property path, e.g. `"user.address.city"`
+ * @returns The value at the path, or undefined if any segment is missing
+ *
+ * @example
+ * ```ts
+ * getValueAtPath({ user: { address: { city: "Oslo" } } }, "user.address.city");
+ * // "Oslo"
+ * ```
+ */
+export function getValueAtPath(row: unknown, path: string): unknown {
+  let value: unknown = row;
+
+  for (const segment of path.split(".")) {
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return value;
+}
+
+/**
+ * Default row ID resolver: uses `row.id` when it is a string or number,
+ * otherwise falls back to the row index.
+ */
+export function getDefaultRowId(row: unknown, index: number): string {
+  const id = (row as { id?: unknown } | null)?.id;
+  if (typeof id === "string" || typeof id === "number") {
+    return String(id);
+  }
+  return String(index);
+}
+
+/**
+ * Return a copy of a row with the value at a dot-separated path replaced.
+ * Objects along the path are shallow-copied; the original row is untouched.
+ *
+ * @example
+ * ```ts
+ * setValueAtPath({ user: { name: "Ada" } }, "user.name", "Grace");
+ * // { user: { name: "Grace" } }
+ * ```
+ */
+export function setValueAtPath<T>(row: T, path: string, value: unknown): T {
+  const [segment, ...rest] = path.split(".") as [string, ...string[]];
+  const source = (row ?? {}) as Record<string, unknown>;
+  const copy = Array.isArray(source) ? [...source] : { ...source };
+
+  (copy as Record<string, unknown>)[segment] =
+    rest.length > 0 ? setValueAtPath(source[segment], rest.join("."), value) : value;
+
+  return copy as T;
+}
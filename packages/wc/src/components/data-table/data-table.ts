@@ -1,22 +1,129 @@
-import { type TemplateResult, html, nothing } from "lit";
+import {
+  type GridNavigation,
+  type Messages,
+  type SortModel,
+  type SortState,
+  type TableBehavior,
+  type TreeBehavior,
+  type VirtualWindow,
+  createGridNavigation,
+  createTableBehavior,
+  createTreeBehavior,
+  createVirtualWindow,
+  getDirection,
+  mirrorArrowKey,
+  sortDataByModel,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
+import { styleMap } from "lit/directives/style-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
+import {
+  type DataTableCellEditDetail,
+  type DataTableEdit,
+  type DataTableEditorOption,
+  type DataTableEditorType,
+  type DataTableValidationResult,
+  fromEditorDraft,
+  isSameCellValue,
+  toEditorDraft,
+} from "./cell-editing.js";
+import {
+  type DataTableColumnState,
+  type DataTableColumnStateReason,
+  type DataTablePinSide,
+  type LaidOutColumn,
+  applyColumnHidden,
+  applyColumnMove,
+  applyColumnPin,
+  applyColumnWidth,
+  getDisplayColumns,
+  normalizeColumnState,
+  toPixels,
+} from "./column-state.js";
+import { getDefaultRowId, getValueAtPath, setValueAtPath } from "./data-table-utils.js";
+import {
+  DETAIL_ID_PREFIX,
+  type DataTableAggregate,
+  type DataTableExpandChangeDetail,
+  type DataTableGroup,
+  type DataTableRowItem,
+  computeAggregate,
+  flattenRows,
+  getGroupIds,
+  groupRows,
+} from "./row-grouping.js";
+
+export type {
+  DataTableCellEditDetail,
+  DataTableCellEditSource,
+  DataTableEditorOption,
+  DataTableEditorType,
+  DataTableValidationResult,
+} from "./cell-editing.js";
+export type {
+  DataTableColumnState,
+  DataTableColumnStateReason,
+  DataTablePinSide,
+} from "./column-state.js";
+export type {
+  DataTableAggregate,
+  DataTableAggregateFunction,
+  DataTableExpandChangeDetail,
+  DataTableExpandKind,
+} from "./row-grouping.js";
 
 export type DataTableSortDirection = "asc" | "desc" | "none";
 
-export interface DataTableColumn {
+export interface DataTableColumn<T = unknown> {
   id: string;
   header: string;
+  /** Property path into the row, e.g. `"user.address.city"` (defaults to `id`) */
   accessor?: string;
   sortable?: boolean;
+  /** Render a resize handle (drag or arrow keys) in the header */
   resizable?: boolean;
   width?: string;
+  /** Lower bound while resizing (px, rem or em; defaults to 48px) */
   minWidth?: string;
+  /** Upper bound while resizing (px, rem or em) */
   maxWidth?: string;
   align?: "left" | "center" | "right";
+  /** Initially hidden */
+  hidden?: boolean;
+  /** Listed in the column visibility menu (defaults to true) */
+  hideable?: boolean;
+  /** Initially pinned (sticky) to a side */
+  pinned?: DataTablePinSide;
+  /**
+   * Custom cell renderer. Return anything Lit can render
+   * (string, number, TemplateResult, DOM node).
+   */
+  cell?(value: unknown, row: T, index: number): unknown;
+  /**
+   * Custom sort comparator for this column's values.
+   * Defaults to locale collation for strings and numeric comparison otherwise.
+   */
+  comparator?(a: unknown, b: unknown): number;
+  /** Cells can be edited in place (double-click, or Enter/F2 in grid mode) */
+  editable?: boolean;
+  /** Built-in editor for editable cells (defaults to "text") */
+  editor?: DataTableEditorType;
+  /** Choices for the "select" editor */
+  options?: DataTableEditorOption[];
+  /**
+   * Validate an edited value before it is committed. Return (or resolve to)
+   * an error message to keep the editor open and show the error in the cell.
+   */
+  validate?(value: unknown, row: T): DataTableValidationResult | Promise<DataTableValidationResult>;
+  /** Aggregate shown in the footer row, computed over all rows */
+  aggregate?: DataTableAggregate<T>;
+  /** Format the footer aggregate (numbers default to locale formatting) */
+  formatAggregate?(value: unknown): unknown;
 }
 
 export interface DataTableSort {
@@ -30,6 +137,31 @@ export interface DataTablePagination {
   total: number;
 }
 
+/** Open cell editor: its draft value and validation state */
+interface CellEditorState {
+  rowId: string;
+  column: string;
+  draft: string;
+  error: string;
+  validating: boolean;
+}
+
+/**
+ * Sticky offset of a pinned cell, written by `updatePinnedOffsets()`.
+ */
+function pinnedCellStyle(pinned: DataTablePinSide | null, cellIndex: number) {
+  return pinned ? { [pinned]: `var(--ds-data-table-pin-offset-${cellIndex}, 0px)` } : {};
+}
+
+/**
+ * Convert data table sort keys to a behavior sort model, dropping unsorted keys.
+ */
+function toSortModel(sort: DataTableSort[]): SortModel {
+  return sort.flatMap(({ column, direction }) =>
+    column && direction !== "none" ? [{ column, direction }] : []
+  );
+}
+
 // Navigation icons
 const chevronIcon = html`
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
@@ -37,18 +169,70 @@ const chevronIcon = html`
   </svg>
 `;
 
+/** Minimum column width in pixels when a column sets no `minWidth` */
+const DEFAULT_MIN_COLUMN_WIDTH = 48;
+
+/** Keyboard resize step in pixels (Shift multiplies by 5) */
+const RESIZE_STEP = 10;
+
+/** Edits kept on the undo stack */
+const UNDO_LIMIT = 100;
+
+/** Row key of the aggregate footer row, for grid focus tracking */
+const FOOTER_ROW_KEY = "footer:";
+
+const sortIcon = html`
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
+    <path d="M12 5v14M5 12l7-7 7 7" />
+  </svg>
+`;
+
 /**
  * DataTable component for large dataset display with virtualization,
  * filtering, pagination, and column features.
  *
+ * Content comes either from slotted Table sub-components, or from the
+ * `columns` and `rows` properties, in which case the table renders the
+ * header, cells, sort buttons and selection checkboxes itself and sorts
+ * rows client-side (unless `manual-sorting` is set). Shift+click on a sort
+ * button adds secondary keys to `sortModel`, up to `max-sort-keys`.
+ *
+ * Column layout — widths from resize handles, order from drag-and-drop
+ * (`reorderable`), pinning and visibility (`column-menu`) — lives in the
+ * serializable `columnState` and is reported with `ds:column-state-change`.
+ *
+ * When `virtualized` is set, only the rows in view plus `overscan` stay in
+ * the DOM, between two spacers that keep the full scroll height. Row heights
+ * are estimated from `row-height` and refined by measuring mounted rows.
+ *
+ * With `grid`, the data-driven table follows the APG data grid pattern
+ * (cell focus with arrow keys, Home/End, Ctrl+Home/End, PageUp/PageDown,
+ * Enter/F2 into a cell and Escape out). Keyboard moves past the mounted
+ * rows of a virtualized table scroll the target row into view first.
+ *
+ * Columns with `editable` are edited in place with a text, number, select or
+ * date editor. Enter commits after the column's (possibly async) `validate`
+ * passes, Escape cancels. Each commit fires a cancelable `ds:cell-edit` and
+ * replaces `rows` with a copy holding the new value; `undo()`/`redo()` (or
+ * Ctrl+Z/Ctrl+Shift+Z) step through committed edits.
+ *
+ * `groupBy` groups rows by one or more columns under collapsible group
+ * headers with row counts. `renderDetail` adds an expander column and a
+ * detail row below each expanded row. Groups start expanded; expand state
+ * is kept by a tree behavior and reported with `ds:expand-change`. Columns
+ * with an `aggregate` fill a footer row computed over all rows.
+ *
  * @element ds-data-table
  *
- * @slot - Table content (use Table sub-components)
+ * @slot - Table content (use Table sub-components), when `columns` is empty
  *
  * @fires ds-sort - When sort changes
  * @fires ds-page-change - When page changes
  * @fires ds-page-size-change - When page size changes
  * @fires ds-selection-change - When row selection changes
+ * @fires ds-column-state-change - When columns are resized, reordered, pinned or hidden
+ * @fires ds-cell-edit - Before an edited, undone or redone cell value is applied (cancelable)
+ * @fires ds-expand-change - When a group or detail row is expanded or collapsed
  *
  * @cssprop --ds-data-table-border - Border style
  */
@@ -73,6 +257,13 @@ export class DsDataTable extends DSElement {
   @property({ type: Number })
   overscan = 5;
 
+  /**
+   * Rows are windowed by the caller (e.g. the React adapter), so the table
+   * keeps the virtualized layout but leaves its body rows untouched.
+   */
+  @property({ type: Boolean, attribute: "manual-rows" })
+  manualRows = false;
+
   /**
    * Total number of rows (for server-side pagination).
    */
@@ -127,6 +318,25 @@ export class DsDataTable extends DSElement {
   @property({ type: String, attribute: "sort-direction" })
   sortDirection: DataTableSortDirection = "none";
 
+  /**
+   * Multi-column sort model, primary key first.
+   * `sort-column`/`sort-direction` mirror the primary key.
+   */
+  @property({ attribute: false })
+  sortModel: DataTableSort[] = [];
+
+  /**
+   * Maximum number of sort keys added with Shift+click (1 disables multi-column sorting).
+   */
+  @property({ type: Number, attribute: "max-sort-keys" })
+  maxSortKeys = 3;
+
+  /**
+   * Locale used to collate string values when sorting (defaults to the runtime locale).
+   */
+  @property({ type: String })
+  locale = "";
+
   /**
    * Filter/search query.
    */
@@ -134,17 +344,415 @@ export class DsDataTable extends DSElement {
   filter = "";
 
   /**
-   * Empty state message.
+   * Empty state message. Defaults to the `dataTable.empty` message.
    */
   @property({ type: String, attribute: "empty-message" })
-  emptyMessage = "No data available";
+  emptyMessage?: string;
+
+  /**
+   * Overrides for the table's built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  /**
+   * Column definitions. When non-empty, the table renders `rows` itself.
+   */
+  @property({ attribute: false })
+  columns: DataTableColumn[] = [];
+
+  /**
+   * Row data for the data-driven mode.
+   */
+  @property({ attribute: false })
+  rows: unknown[] = [];
+
+  /**
+   * Resolve a stable ID for a row (defaults to `row.id`, then the index).
+   */
+  @property({ attribute: false })
+  getRowId: (row: unknown, index: number) => string = getDefaultRowId;
+
+  /**
+   * Rows are already sorted by the caller (e.g. server-side sorting),
+   * so the data-driven mode renders them in the given order.
+   */
+  @property({ type: Boolean, attribute: "manual-sorting" })
+  manualSorting = false;
+
+  /**
+   * Column layout (order, widths, visibility, pinning). Set a saved state to
+   * restore it; stale column IDs are ignored and new columns are appended.
+   */
+  @property({ attribute: false })
+  columnState: Partial<DataTableColumnState> | null = null;
+
+  /**
+   * Allow reordering columns by dragging their headers.
+   */
+  @property({ type: Boolean, reflect: true })
+  reorderable = false;
+
+  /**
+   * Show a column visibility menu above the table.
+   */
+  @property({ type: Boolean, attribute: "column-menu" })
+  columnMenu = false;
+
+  /**
+   * Interactive grid mode with cell-level keyboard navigation (role="grid")
+   * for the data-driven mode. For slotted content, set `grid` on the `ds-table`.
+   */
+  @property({ type: Boolean, reflect: true })
+  grid = false;
+
+  /**
+   * Column IDs to group rows by, outermost first.
+   */
+  @property({ attribute: false })
+  groupBy: string[] = [];
+
+  /**
+   * Render the detail row of an expanded row. Setting it adds an expander column.
+   */
+  @property({ attribute: false })
+  renderDetail: ((row: unknown, index: number) => unknown) | null = null;
 
+  /** Header the dragged column would be dropped next to */
   @state()
-  private selectedRows: Set<string> = new Set();
+  private dropTarget: { id: string; position: "before" | "after" } | null = null;
 
   @state()
   private sortAnnouncement = "";
 
+  /** Cell being edited, with its editor draft and validation state */
+  @state()
+  private editing: CellEditorState | null = null;
+
+  /** Range of `rowItems` rendered while the data-driven mode is virtualized */
+  @state()
+  private dataRange = { start: 0, end: 0 };
+
+  private tableBehavior: TableBehavior = this.createBehavior();
+
+  /** Suppresses sort events while syncing behavior state from properties */
+  private syncingSort = false;
+
+  /** Resolved column layout and the visible columns in display order */
+  private layout: DataTableColumnState = normalizeColumnState([]);
+  private displayColumns: LaidOutColumn<DataTableColumn>[] = [];
+
+  private draggedColumn: string | null = null;
+  private resizing: { id: string; startX: number; startWidth: number } | null = null;
+
+  /** Rows in display order (sorted) for the data-driven mode */
+  private displayRows: Array<{ row: unknown; id: string }> = [];
+
+  /** Rendered body rows: group headers, data rows and detail rows */
+  private rowItems: DataTableRowItem[] = [];
+  private groups: DataTableGroup[] = [];
+  /** Group IDs seen since `groupBy` last changed; new ones start expanded */
+  private knownGroupIds = new Set<string>();
+  private localize = new LocalizeController(this);
+  /** Expanded group IDs and detail row IDs (prefixed with `detail:`) */
+  private expansion: TreeBehavior = createTreeBehavior({
+    selectionMode: "none",
+    onExpandChange: (id, expanded) => this.handleExpandChange(id, expanded),
+  });
+  /** Suppresses expand events while expanding new groups */
+  private syncingExpansion = false;
+  private rowItemsDirty = false;
+
+  /** All body rows while virtualized, mounted or not */
+  private virtualRows: HTMLElement[] = [];
+  private virtualWindow: VirtualWindow | null = null;
+  private virtualBody: HTMLElement | null = null;
+  private spacerBefore: HTMLElement | null = null;
+  private spacerAfter: HTMLElement | null = null;
+  private virtualFrame: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  private gridNavigation: GridNavigation | null = null;
+  private gridTable: HTMLElement | null = null;
+  /**
+   * Active grid cell by row key (null for the header row) and column index,
+   * so it survives re-renders that reuse cells for other rows.
+   */
+  private activeGridCell: { rowKey: string | null; column: number } | null = null;
+  /** Focus the active grid cell once it is rendered */
+  private pendingGridFocus = false;
+
+  private undoStack: DataTableEdit[] = [];
+  private redoStack: DataTableEdit[] = [];
+  /** Invalidates pending validations when the editor closes or moves */
+  private editToken = 0;
+  /** Focus an editor, or a cell after its editor closed, once rendered */
+  private pendingEditFocus: { rowId: string; column: string; target: "editor" | "cell" } | null =
+    null;
+  private readonly editErrorId = `data-table-edit-error-${crypto.randomUUID().slice(0, 8)}`;
+  private readonly detailIdPrefix = `data-table-detail-${crypto.randomUUID().slice(0, 8)}`;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Resume windowing when re-attached after a disconnect
+    if (this.hasUpdated && this.virtualized && !this.virtualWindow) {
+      if (this.isDataMode) {
+        this.setupDataVirtualization();
+        this.requestUpdate();
+      } else if (!this.manualRows) {
+        this.setupVirtualization();
+      }
+    }
+
+    // updated() sets grid navigation up again
+    if (this.hasUpdated && this.grid) {
+      this.requestUpdate();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.teardownVirtualization();
+    this.teardownGridNavigation();
+  }
+
+  /**
+   * Whether the table renders `rows` from `columns` instead of slotted content.
+   */
+  get isDataMode(): boolean {
+    return this.columns.length > 0;
+  }
+
+  override willUpdate(changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    if (this.gridNavigation) {
+      this.captureGridCell();
+    }
+
+    if (
+      changedProperties.has("selectable") ||
+      changedProperties.has("selectionMode") ||
+      changedProperties.has("maxSortKeys")
+    ) {
+      this.tableBehavior.destroy();
+      this.tableBehavior = this.createBehavior();
+    }
+
+    if (changedProperties.has("columns") || changedProperties.has("columnState")) {
+      this.layout = normalizeColumnState(this.columns, this.columnState);
+      this.displayColumns = getDisplayColumns(this.columns, this.layout);
+    }
+
+    if (changedProperties.has("sortModel")) {
+      this.syncBehaviorSort(this.sortModel);
+    } else if (changedProperties.has("sortColumn") || changedProperties.has("sortDirection")) {
+      this.syncBehaviorSort([{ column: this.sortColumn, direction: this.sortDirection }]);
+    }
+
+    if (
+      changedProperties.has("rows") ||
+      changedProperties.has("columns") ||
+      changedProperties.has("getRowId") ||
+      changedProperties.has("sortColumn") ||
+      changedProperties.has("sortDirection") ||
+      changedProperties.has("sortModel") ||
+      changedProperties.has("locale") ||
+      changedProperties.has("manualSorting")
+    ) {
+      this.displayRows = this.computeDisplayRows();
+      this.rowItemsDirty = true;
+    }
+
+    if (changedProperties.has("groupBy")) {
+      this.knownGroupIds.clear();
+    }
+
+    if (
+      this.rowItemsDirty ||
+      changedProperties.has("groupBy") ||
+      changedProperties.has("renderDetail")
+    ) {
+      this.computeRowItems();
+    }
+
+    if (this.virtualizationChanged(changedProperties)) {
+      this.teardownVirtualization();
+      if (this.virtualized && this.isDataMode) {
+        this.setupDataVirtualization();
+      }
+    }
+
+    if (this.virtualWindow && this.isDataMode) {
+      this.virtualWindow.setCount(this.rowItems.length);
+      this.dataRange = this.computeDataRange();
+    }
+  }
+
+  override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (this.virtualizationChanged(changedProperties)) {
+      if (this.virtualized && !this.isDataMode && !this.manualRows) {
+        this.setupVirtualization();
+      }
+    }
+
+    if (this.virtualWindow && this.isDataMode) {
+      this.measureDataRows();
+    }
+
+    if (this.isDataMode) {
+      this.updatePinnedOffsets();
+    }
+
+    if (this.grid && this.isDataMode) {
+      this.syncGridNavigation();
+    } else if (this.gridNavigation) {
+      this.teardownGridNavigation();
+    }
+
+    if (this.pendingEditFocus) {
+      this.focusEditTarget();
+    }
+  }
+
+  private virtualizationChanged(changedProperties: PropertyValues): boolean {
+    const previousColumns = changedProperties.get("columns") as DataTableColumn[] | undefined;
+    const modeChanged =
+      changedProperties.has("columns") && (previousColumns?.length ?? 0) > 0 !== this.isDataMode;
+
+    return (
+      modeChanged ||
+      changedProperties.has("virtualized") ||
+      changedProperties.has("manualRows") ||
+      changedProperties.has("rowHeight") ||
+      changedProperties.has("overscan")
+    );
+  }
+
+  private createBehavior(): TableBehavior {
+    return createTableBehavior({
+      initialSortModel: toSortModel(
+        this.sortModel.length > 0
+          ? this.sortModel
+          : [{ column: this.sortColumn, direction: this.sortDirection }]
+      ),
+      maxSortKeys: Math.max(1, this.maxSortKeys),
+      selectionMode: this.selectable ? this.selectionMode : "none",
+      onSortChange: (sortState) => this.handleBehaviorSortChange(sortState),
+      onSelectionChange: (selectedRows) => this.handleBehaviorSelectionChange(selectedRows),
+    });
+  }
+
+  private syncBehaviorSort(sort: DataTableSort[]): void {
+    const model = toSortModel(sort);
+    const current = this.tableBehavior.sortState.model;
+    const unchanged =
+      model.length === current.length &&
+      model.every(
+        (key, i) => key.column === current[i]?.column && key.direction === current[i]?.direction
+      );
+    if (unchanged) return;
+
+    this.syncingSort = true;
+    this.tableBehavior.setSortModel(model);
+    this.syncingSort = false;
+  }
+
+  private computeDisplayRows(): Array<{ row: unknown; id: string }> {
+    const entries = this.rows.map((row, index) => ({ row, id: this.getRowId(row, index) }));
+    if (this.manualSorting || !this.isDataMode) return entries;
+
+    const columnsById = new Map(this.columns.map((column) => [column.id, column]));
+    const model = this.tableBehavior.sortState.model.filter((key) => columnsById.has(key.column));
+    const comparators: Record<string, (a: unknown, b: unknown) => number> = {};
+    for (const { column } of model) {
+      const comparator = columnsById.get(column)?.comparator;
+      if (comparator) comparators[column] = comparator;
+    }
+
+    return sortDataByModel(
+      entries,
+      model,
+      (entry, columnId) => {
+        const column = columnsById.get(columnId);
+        return getValueAtPath(entry.row, column?.accessor ?? columnId);
+      },
+      { comparators, locale: this.locale || undefined }
+    );
+  }
+
+  /**
+   * Group the display rows and flatten them into the rendered row items,
+   * expanding groups that weren't seen before.
+   */
+  private computeRowItems(): void {
+    this.rowItemsDirty = false;
+    const columnsById = new Map(this.columns.map((column) => [column.id, column]));
+    this.groups = this.isDataMode
+      ? groupRows(this.displayRows, this.groupBy, (row, columnId) =>
+          getValueAtPath(row, columnsById.get(columnId)?.accessor ?? columnId)
+        )
+      : [];
+
+    this.syncingExpansion = true;
+    for (const id of getGroupIds(this.groups)) {
+      if (this.knownGroupIds.has(id)) continue;
+      this.knownGroupIds.add(id);
+      this.expansion.expand(id);
+    }
+    this.syncingExpansion = false;
+
+    this.rowItems = flattenRows(this.displayRows, this.groups, {
+      isExpanded: (id) => this.expansion.expandedIds.has(id),
+      hasDetail: this.renderDetail !== null,
+    });
+  }
+
+  private handleExpandChange(id: string, expanded: boolean): void {
+    if (this.syncingExpansion) return;
+
+    this.rowItemsDirty = true;
+    this.requestUpdate();
+
+    const detail: DataTableExpandChangeDetail = id.startsWith(DETAIL_ID_PREFIX)
+      ? { kind: "detail", id: id.slice(DETAIL_ID_PREFIX.length), expanded }
+      : { kind: "group", id, expanded };
+    emitEvent(this, "expand-change", { detail });
+  }
+
+  /**
+   * Expand or collapse a group by its ID (toggles when `expanded` is omitted).
+   */
+  toggleGroup(groupId: string, expanded = !this.isGroupExpanded(groupId)): void {
+    this.setExpanded(groupId, expanded);
+  }
+
+  isGroupExpanded(groupId: string): boolean {
+    return this.expansion.expandedIds.has(groupId);
+  }
+
+  /**
+   * Show or hide the detail row of a row (toggles when `expanded` is omitted).
+   */
+  toggleRowDetail(rowId: string, expanded = !this.isRowDetailExpanded(rowId)): void {
+    this.setExpanded(DETAIL_ID_PREFIX + rowId, expanded);
+  }
+
+  isRowDetailExpanded(rowId: string): boolean {
+    return this.expansion.expandedIds.has(DETAIL_ID_PREFIX + rowId);
+  }
+
+  private setExpanded(id: string, expanded: boolean): void {
+    if (expanded) {
+      this.expansion.expand(id);
+    } else {
+      this.expansion.collapse(id);
+    }
+  }
+
   private get pageSizeOptions(): number[] {
     return this.pageSizes.split(",").map((s) => Number(s.trim()));
   }
@@ -161,117 +769,1518 @@ export class DsDataTable extends DSElement {
     return Math.min(this.page * this.pageSize, this.totalRows);
   }
 
-  handleSort(column: string): void {
-    let newDirection: DataTableSortDirection = "asc";
+  /**
+   * Toggle sort on a column. With `additive` (Shift+click) the column is
+   * added to the sort model as a secondary key instead of replacing it.
+   */
+  handleSort(column: string, additive = false): void {
+    this.tableBehavior.toggleSort(column, additive && this.maxSortKeys > 1);
 
-    if (this.sortColumn === column) {
-      if (this.sortDirection === "asc") {
-        newDirection = "desc";
-      } else if (this.sortDirection === "desc") {
-        newDirection = "none";
-      }
-    }
+    // Announce sort change to screen readers via live region
+    this.announceSortChange();
+  }
 
-    this.sortColumn = newDirection === "none" ? "" : column;
-    this.sortDirection = newDirection;
+  private handleBehaviorSortChange(sortState: SortState): void {
+    if (this.syncingSort) return;
 
-    // Announce sort change to screen readers via live region
-    this.announceSortChange(column, newDirection);
+    this.sortColumn = sortState.column ?? "";
+    this.sortDirection = sortState.direction;
+    this.sortModel = sortState.model.map((key) => ({ ...key }));
 
     emitEvent(this, "sort", {
       detail: {
         column: this.sortColumn,
         direction: this.sortDirection,
+        sort: this.sortModel,
       },
     });
   }
 
+  private handleBehaviorSelectionChange(selectedRows: Set<string>): void {
+    emitEvent(this, "selection-change", {
+      detail: { selectedRows: Array.from(selectedRows) },
+    });
+    this.requestUpdate();
+  }
+
   /**
-   * Announce sort state changes to screen readers.
-   * Uses a live region to provide immediate feedback.
+   * Get a serializable copy of the current column layout.
    */
-  private announceSortChange(column: string, direction: DataTableSortDirection): void {
-    if (direction === "asc") {
-      this.sortAnnouncement = `Sorted by ${column}, ascending`;
-    } else if (direction === "desc") {
-      this.sortAnnouncement = `Sorted by ${column}, descending`;
-    } else {
-      this.sortAnnouncement = "Sort cleared";
-    }
+  getColumnState(): DataTableColumnState {
+    return normalizeColumnState(this.columns, this.layout);
+  }
 
-    // Clear announcement after a brief delay to allow re-announcement on next sort
-    setTimeout(() => {
-      this.sortAnnouncement = "";
-    }, 1000);
+  /**
+   * Set a column width in pixels, or `null` to reset it to the column definition.
+   */
+  setColumnWidth(id: string, width: number | null): void {
+    const column = this.columns.find((col) => col.id === id);
+    if (!column) return;
+
+    const next = width === null ? null : this.clampColumnWidth(column, width);
+    this.updateColumnState(applyColumnWidth(this.layout, id, next), "resize");
   }
 
-  handlePageChange(newPage: number): void {
-    if (newPage < 1 || newPage > this.totalPages) return;
+  /**
+   * Move a column before or after another column.
+   */
+  moveColumn(id: string, targetId: string, position: "before" | "after" = "before"): void {
+    this.updateColumnState(applyColumnMove(this.layout, id, targetId, position), "reorder");
+  }
 
-    this.page = newPage;
-    emitEvent(this, "page-change", { detail: { page: newPage } });
+  /**
+   * Pin a column to the left or right edge, or unpin it with `null`.
+   */
+  pinColumn(id: string, side: DataTablePinSide | null): void {
+    this.updateColumnState(applyColumnPin(this.layout, id, side), "pin");
   }
 
-  handlePageSizeChange(event: Event): void {
-    const select = event.target as HTMLSelectElement;
-    const newSize = Number(select.value);
-    this.pageSize = newSize;
-    this.page = 1; // Reset to first page
-    emitEvent(this, "page-size-change", { detail: { pageSize: newSize } });
+  /**
+   * Show or hide a column. The last visible column cannot be hidden.
+   */
+  setColumnVisible(id: string, visible: boolean): void {
+    const isLastVisible =
+      this.displayColumns.length === 1 && this.displayColumns[0]?.column.id === id;
+    if (!visible && isLastVisible) return;
+
+    this.updateColumnState(applyColumnHidden(this.layout, id, !visible), "visibility");
   }
 
-  toggleRowSelection(rowId: string): void {
-    if (!this.selectable) return;
+  private updateColumnState(
+    state: DataTableColumnState,
+    reason: DataTableColumnStateReason | null
+  ): void {
+    if (state === this.layout) return;
 
-    if (this.selectionMode === "single") {
-      this.selectedRows.clear();
-      this.selectedRows.add(rowId);
-    } else {
-      if (this.selectedRows.has(rowId)) {
-        this.selectedRows.delete(rowId);
-      } else {
-        this.selectedRows.add(rowId);
-      }
-    }
+    this.columnState = state;
+    // Resolve now so consecutive calls build on each other before the next render
+    this.layout = normalizeColumnState(this.columns, state);
+    this.displayColumns = getDisplayColumns(this.columns, this.layout);
 
-    emitEvent(this, "selection-change", {
-      detail: { selectedRows: Array.from(this.selectedRows) },
-    });
-    this.requestUpdate();
+    if (reason) {
+      emitEvent(this, "column-state-change", {
+        detail: { state: this.getColumnState(), reason },
+      });
+    }
   }
 
-  clearSelection(): void {
-    this.selectedRows.clear();
-    emitEvent(this, "selection-change", { detail: { selectedRows: [] } });
-    this.requestUpdate();
+  private getColumnBounds(column: DataTableColumn): { min: number; max: number } {
+    const min = toPixels(column.minWidth) ?? DEFAULT_MIN_COLUMN_WIDTH;
+    const max = toPixels(column.maxWidth) ?? Number.POSITIVE_INFINITY;
+    return { min, max: Math.max(min, max) };
   }
 
-  isRowSelected(rowId: string): boolean {
-    return this.selectedRows.has(rowId);
+  private clampColumnWidth(column: DataTableColumn, width: number): number {
+    const { min, max } = this.getColumnBounds(column);
+    return Math.min(max, Math.max(min, width));
   }
 
-  private renderPagination(): TemplateResult {
-    const pages: number[] = [];
-    const maxButtons = 5;
-    let start = Math.max(1, this.page - Math.floor(maxButtons / 2));
-    const end = Math.min(this.totalPages, start + maxButtons - 1);
+  /**
+   * Current rendered width of a column, falling back to its definition.
+   */
+  private getColumnWidth(column: DataTableColumn): number {
+    const resized = this.layout.widths[column.id];
+    if (resized !== undefined) return resized;
 
-    if (end - start + 1 < maxButtons) {
-      start = Math.max(1, end - maxButtons + 1);
-    }
+    const header = this.querySelector<HTMLElement>(
+      `.ds-data-table__table th[data-column="${CSS.escape(column.id)}"]`
+    );
+    const measured = header?.getBoundingClientRect().width ?? 0;
+    return measured > 0 ? measured : (toPixels(column.width) ?? this.getColumnBounds(column).min);
+  }
 
-    for (let i = start; i <= end; i++) {
-      pages.push(i);
-    }
+  private handleResizeStart(event: PointerEvent, column: DataTableColumn): void {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
 
-    return html`
+    (event.currentTarget as HTMLElement).setPointerCapture?.(event.pointerId);
+    this.resizing = {
+      id: column.id,
+      startX: event.clientX,
+      startWidth: this.getColumnWidth(column),
+    };
+  }
+
+  private handleResizeMove(event: PointerEvent): void {
+    const resizing = this.resizing;
+    const column = resizing && this.columns.find((col) => col.id === resizing.id);
+    if (!resizing || !column) return;
+
+    const width = this.clampColumnWidth(
+      column,
+      resizing.startWidth + event.clientX - resizing.startX
+    );
+    // Live preview; the change event fires once on release
+    this.updateColumnState(applyColumnWidth(this.layout, column.id, width), null);
+  }
+
+  private handleResizeEnd(event: PointerEvent): void {
+    if (!this.resizing) return;
+
+    (event.currentTarget as HTMLElement).releasePointerCapture?.(event.pointerId);
+    this.resizing = null;
+    emitEvent(this, "column-state-change", {
+      detail: { state: this.getColumnState(), reason: "resize" },
+    });
+  }
+
+  private handleResizeKeyDown(event: KeyboardEvent, column: DataTableColumn): void {
+    const step = event.shiftKey ? RESIZE_STEP * 5 : RESIZE_STEP;
+    const { min, max } = this.getColumnBounds(column);
+    const width = this.getColumnWidth(column);
+
+    let next: number | null;
+    // The resize handle sits on the column's inline end edge, which is on the left in RTL
+    switch (mirrorArrowKey(event.key, getDirection(this))) {
+      case "ArrowLeft":
+        next = width - step;
+        break;
+      case "ArrowRight":
+        next = width + step;
+        break;
+      case "Home":
+        next = min;
+        break;
+      case "End":
+        if (!Number.isFinite(max)) return;
+        next = max;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.setColumnWidth(column.id, next);
+  }
+
+  private handleColumnDragStart(event: DragEvent, id: string): void {
+    if (this.resizing) {
+      event.preventDefault();
+      return;
+    }
+
+    this.draggedColumn = id;
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", id);
+    }
+  }
+
+  private handleColumnDragOver(event: DragEvent, id: string): void {
+    const dragged = this.draggedColumn;
+    // Columns only move within their pinned group
+    const sameGroup =
+      dragged !== null &&
+      this.displayColumns.find((entry) => entry.column.id === dragged)?.pinned ===
+        this.displayColumns.find((entry) => entry.column.id === id)?.pinned;
+    if (!dragged || dragged === id || !sameGroup) return;
+
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = "move";
+
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const position = event.clientX < rect.left + rect.width / 2 ? "before" : "after";
+    if (this.dropTarget?.id !== id || this.dropTarget.position !== position) {
+      this.dropTarget = { id, position };
+    }
+  }
+
+  private handleColumnDrop(event: DragEvent): void {
+    event.preventDefault();
+    const dragged = this.draggedColumn;
+    const target = this.dropTarget;
+    this.handleColumnDragEnd();
+
+    if (dragged && target) {
+      this.moveColumn(dragged, target.id, target.position);
+    }
+  }
+
+  private handleColumnDragEnd(): void {
+    this.draggedColumn = null;
+    this.dropTarget = null;
+  }
+
+  private toggleColumnVisibility(id: string): void {
+    this.setColumnVisible(id, this.layout.hidden.includes(id));
+  }
+
+  /**
+   * Write sticky offsets of pinned header cells as custom properties on the
+   * table, so body cells in the same position can use them.
+   */
+  private updatePinnedOffsets(): void {
+    const table = this.querySelector<HTMLElement>(".ds-data-table__table");
+    const cells = Array.from(
+      this.querySelectorAll<HTMLElement>(".ds-data-table__table > thead > tr > th")
+    );
+    if (!table) return;
+
+    let left = 0;
+    cells.forEach((cell, index) => {
+      if (cell.dataset.pinned !== "left") return;
+      table.style.setProperty(`--ds-data-table-pin-offset-${index}`, `${left}px`);
+      left += cell.getBoundingClientRect().width;
+    });
+
+    let right = 0;
+    for (let index = cells.length - 1; index >= 0; index--) {
+      const cell = cells[index] as HTMLElement;
+      if (cell.dataset.pinned !== "right") continue;
+      table.style.setProperty(`--ds-data-table-pin-offset-${index}`, `${right}px`);
+      right += cell.getBoundingClientRect().width;
+    }
+  }
+
+  /**
+   * Announce sort state changes to screen readers.
+   * Uses a live region to provide immediate feedback.
+   */
+  private announceSortChange(): void {
+    const keys = this.tableBehavior.sortState.model.map(({ column, direction }) => {
+      const label = this.columns.find((col) => col.id === column)?.header ?? column;
+      const key = direction === "asc" ? "dataTable.sortAscending" : "dataTable.sortDescending";
+      return this.localize.t(key, { column: label });
+    });
+
+    this.sortAnnouncement =
+      keys.length > 0
+        ? this.localize.t("dataTable.sortedBy", {
+            columns: keys.join(this.localize.t("dataTable.sortSeparator")),
+          })
+        : this.localize.t("dataTable.sortCleared");
+
+    // Clear announcement after a brief delay to allow re-announcement on next sort
+    setTimeout(() => {
+      this.sortAnnouncement = "";
+    }, 1000);
+  }
+
+  handlePageChange(newPage: number): void {
+    if (newPage < 1 || newPage > this.totalPages) return;
+
+    this.page = newPage;
+    emitEvent(this, "page-change", { detail: { page: newPage } });
+  }
+
+  handlePageSizeChange(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const newSize = Number(select.value);
+    this.pageSize = newSize;
+    this.page = 1; // Reset to first page
+    emitEvent(this, "page-size-change", { detail: { pageSize: newSize } });
+  }
+
+  toggleRowSelection(rowId: string): void {
+    if (!this.selectable) return;
+    this.tableBehavior.toggleRowSelection(rowId);
+  }
+
+  clearSelection(): void {
+    this.tableBehavior.deselectAll();
+  }
+
+  isRowSelected(rowId: string): boolean {
+    return this.tableBehavior.isRowSelected(rowId);
+  }
+
+  private toggleAllRows(): void {
+    if (this.tableBehavior.getSelectionStatus(this.displayRows.length) === "all") {
+      this.tableBehavior.deselectAll();
+    } else {
+      this.tableBehavior.selectAll(this.displayRows.map((entry) => entry.id));
+    }
+  }
+
+  /** Whether there is a committed edit to undo */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /** Whether there is an undone edit to redo */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Open the editor of an editable cell. Returns false when the cell isn't
+   * editable, its row is in a collapsed group, or another cell is being edited.
+   */
+  editCell(rowId: string, columnId: string): boolean {
+    const column = this.columns.find((col) => col.id === columnId);
+    const index = this.rowItems.findIndex((item) => item.type === "row" && item.key === rowId);
+    const item = this.rowItems[index];
+    if (!column?.editable || item?.type !== "row" || this.editing) return false;
+
+    const { entry } = item;
+    const value = getValueAtPath(entry.row, column.accessor ?? column.id);
+    this.editToken++;
+    this.editing = {
+      rowId,
+      column: columnId,
+      draft: toEditorDraft(column.editor ?? "text", value, column.options),
+      error: "",
+      validating: false,
+    };
+    this.pendingEditFocus = { rowId, column: columnId, target: "editor" };
+    if (this.virtualWindow) this.scrollToRow(index);
+    return true;
+  }
+
+  /**
+   * Validate and commit the open editor. Resolves to false when validation
+   * fails (the editor stays open with the error) or a `ds:cell-edit`
+   * listener cancels the edit.
+   */
+  commitEdit(): Promise<boolean> {
+    return this.finishEdit(false);
+  }
+
+  /**
+   * Close the open editor without committing.
+   */
+  cancelEdit(): void {
+    this.closeEditor(false);
+  }
+
+  /**
+   * Revert the last committed edit.
+   */
+  undo(): boolean {
+    const edit = this.undoStack[this.undoStack.length - 1];
+    if (!edit) return false;
+
+    const applied = this.applyCellValue(edit.rowId, edit.column, edit.previousValue, "undo");
+    if (applied === "cancelled") return false;
+
+    // Edits of rows or columns that no longer exist are dropped
+    this.undoStack.pop();
+    if (applied === "applied") this.redoStack.push(edit);
+    return applied === "applied";
+  }
+
+  /**
+   * Re-apply the last undone edit.
+   */
+  redo(): boolean {
+    const edit = this.redoStack[this.redoStack.length - 1];
+    if (!edit) return false;
+
+    const applied = this.applyCellValue(edit.rowId, edit.column, edit.value, "redo");
+    if (applied === "cancelled") return false;
+
+    this.redoStack.pop();
+    if (applied === "applied") this.undoStack.push(edit);
+    return applied === "applied";
+  }
+
+  private async finishEdit(refocus: boolean): Promise<boolean> {
+    const editing = this.editing;
+    if (!editing || editing.validating) return false;
+
+    const column = this.columns.find((col) => col.id === editing.column);
+    const entry = this.displayRows.find((row) => row.id === editing.rowId);
+    if (!column || !entry) {
+      this.closeEditor(false);
+      return false;
+    }
+
+    const previousValue = getValueAtPath(entry.row, column.accessor ?? column.id);
+    const value = fromEditorDraft(
+      column.editor ?? "text",
+      editing.draft,
+      previousValue,
+      column.options
+    );
+    if (isSameCellValue(value, previousValue)) {
+      this.closeEditor(refocus);
+      return true;
+    }
+
+    if (column.validate) {
+      const token = this.editToken;
+      this.editing = { ...editing, error: "", validating: true };
+
+      let error: DataTableValidationResult;
+      try {
+        error = await column.validate(value, entry.row);
+      } catch (cause) {
+        error = cause instanceof Error ? cause.message : String(cause);
+      }
+
+      // The editor was closed or moved while validating
+      if (token !== this.editToken || !this.editing) return false;
+
+      // Typed while validating: validate the newer draft instead
+      if (this.editing.draft !== editing.draft) {
+        this.editing = { ...this.editing, validating: false };
+        return this.finishEdit(refocus);
+      }
+
+      this.editing = { ...this.editing, error: error ?? "", validating: false };
+      if (error) {
+        if (refocus) {
+          this.pendingEditFocus = {
+            rowId: editing.rowId,
+            column: editing.column,
+            target: "editor",
+          };
+        }
+        return false;
+      }
+    }
+
+    if (this.applyCellValue(editing.rowId, editing.column, value, "edit") !== "applied") {
+      this.closeEditor(refocus);
+      return false;
+    }
+
+    this.undoStack.push({ rowId: editing.rowId, column: editing.column, previousValue, value });
+    if (this.undoStack.length > UNDO_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+    this.closeEditor(refocus);
+    return true;
+  }
+
+  private closeEditor(refocus: boolean): void {
+    const editing = this.editing;
+    if (!editing) return;
+
+    this.editToken++;
+    this.editing = null;
+    if (refocus) {
+      this.pendingEditFocus = { rowId: editing.rowId, column: editing.column, target: "cell" };
+    }
+  }
+
+  /**
+   * Replace a cell value in `rows` unless a `ds:cell-edit` listener cancels it.
+   */
+  private applyCellValue(
+    rowId: string,
+    columnId: string,
+    value: unknown,
+    source: DataTableCellEditDetail["source"]
+  ): "applied" | "cancelled" | "missing" {
+    const column = this.columns.find((col) => col.id === columnId);
+    const index = this.rows.findIndex((row, i) => this.getRowId(row, i) === rowId);
+    const row = this.rows[index];
+    if (!column || index === -1) return "missing";
+
+    const path = column.accessor ?? column.id;
+    const event = emitEvent<DataTableCellEditDetail>(this, "cell-edit", {
+      detail: {
+        rowId,
+        column: columnId,
+        row,
+        value,
+        previousValue: getValueAtPath(row, path),
+        source,
+      },
+      cancelable: true,
+    });
+    if (event.defaultPrevented) return "cancelled";
+
+    const rows = [...this.rows];
+    rows[index] = setValueAtPath(row, path, value);
+    this.rows = rows;
+    return "applied";
+  }
+
+  private focusEditTarget(): void {
+    const focus = this.pendingEditFocus;
+    this.pendingEditFocus = null;
+    if (!focus) return;
+
+    const row = Array.from(this.querySelectorAll<HTMLElement>("tbody > tr[data-row-id]")).find(
+      (candidate) => candidate.dataset.rowId === focus.rowId
+    );
+    const cell = Array.from(row?.children ?? []).find(
+      (candidate): candidate is HTMLElement =>
+        (candidate as HTMLElement).dataset.column === focus.column
+    );
+    if (!cell) return;
+
+    if (focus.target === "cell") {
+      if (cell.hasAttribute("tabindex")) cell.focus();
+      return;
+    }
+
+    // ds-number-input renders its field after this table's update
+    const editor = cell.querySelector<HTMLElement & { updateComplete?: Promise<unknown> }>(
+      ".ds-data-table__editor"
+    );
+    void Promise.resolve(editor?.updateComplete).then(() => {
+      const field = editor?.matches("input, select") ? editor : editor?.querySelector("input");
+      field?.focus();
+      if (field instanceof HTMLInputElement && field.type === "text") field.select();
+    });
+  }
+
+  private handleEditableCellKeyDown(event: KeyboardEvent, rowId: string, columnId: string): void {
+    if (event.target !== event.currentTarget) return;
+    if (event.key !== "Enter" && event.key !== "F2") return;
+
+    if (this.editCell(rowId, columnId)) {
+      event.preventDefault();
+      // Keep grid navigation from treating the key as its own
+      event.stopPropagation();
+    }
+  }
+
+  private handleEditorKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      event.stopPropagation();
+      void this.finishEdit(true);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      event.stopPropagation();
+      this.closeEditor(true);
+    }
+  }
+
+  private handleEditorInput(event: Event): void {
+    if (this.editing) {
+      this.editing.draft = (event.target as HTMLInputElement | HTMLSelectElement).value;
+    }
+  }
+
+  private handleNumberEditorChange(event: CustomEvent<{ value: number | undefined | null }>): void {
+    if (this.editing) {
+      this.editing.draft = event.detail.value == null ? "" : String(event.detail.value);
+    }
+  }
+
+  /**
+   * Commit when focus leaves the edited cell, e.g. on Tab or a click elsewhere.
+   */
+  private handleEditorFocusOut(event: FocusEvent): void {
+    const cell = event.currentTarget as HTMLElement;
+    const next = event.relatedTarget as Node | null;
+    if (next && cell.contains(next)) return;
+
+    // Let the editor commit its own value first (ds-number-input does on blur)
+    queueMicrotask(() => {
+      if (this.editing && !cell.contains(document.activeElement)) {
+        void this.finishEdit(false);
+      }
+    });
+  }
+
+  /**
+   * Ctrl/Cmd+Z undoes the last edit, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it.
+   */
+  private handleTableKeyDown(event: KeyboardEvent): void {
+    if (this.editing || !(event.ctrlKey || event.metaKey)) return;
+    if ((event.target as HTMLElement).closest("input, select, textarea, [contenteditable]")) return;
+
+    const key = event.key.toLowerCase();
+    const handled =
+      key === "z" && !event.shiftKey
+        ? this.undo()
+        : (key === "z" && event.shiftKey) || key === "y"
+          ? this.redo()
+          : false;
+    if (handled) event.preventDefault();
+  }
+
+  /**
+   * Re-collect body rows after rows were added or removed while virtualized.
+   */
+  refreshRows(): void {
+    if (!this.virtualized || this.manualRows || this.isDataMode) return;
+    this.teardownVirtualization();
+    this.setupVirtualization();
+  }
+
+  /**
+   * Scroll a row into view by index, mounting it if needed. In the
+   * data-driven mode, group header and detail rows count as rows.
+   */
+  scrollToRow(index: number, align: "start" | "center" | "end" | "nearest" = "nearest"): void {
+    if (!this.virtualWindow) {
+      const rows = this.querySelectorAll<HTMLElement>("ds-table-body ds-table-row");
+      rows[index]?.scrollIntoView({ block: align });
+      return;
+    }
+
+    const viewport = Math.max(0, this.clientHeight - this.getListStart());
+    this.scrollTop = this.virtualWindow.getScrollOffsetForIndex(
+      index,
+      viewport,
+      this.scrollTop,
+      align
+    );
+    this.renderWindow();
+  }
+
+  private syncGridNavigation(): void {
+    const table = this.querySelector<HTMLElement>(".ds-data-table__table");
+    if (table !== this.gridTable) {
+      this.teardownGridNavigation();
+      if (!table) return;
+
+      this.gridTable = table;
+      this.gridNavigation = createGridNavigation({
+        container: table,
+        rowSelector: "tr",
+        cellSelector: "th, td",
+        pageSize: () => this.gridPageSize,
+        onFocus: (cell) => cell.scrollIntoView?.({ block: "nearest", inline: "nearest" }),
+      });
+      table.addEventListener("keydown", this.handleGridKeyDown, { capture: true });
+    }
+
+    this.gridNavigation?.refresh();
+    this.restoreGridCell();
+  }
+
+  private teardownGridNavigation(): void {
+    this.gridTable?.removeEventListener("keydown", this.handleGridKeyDown, { capture: true });
+    this.gridNavigation?.destroy();
+    this.gridNavigation = null;
+    this.gridTable = null;
+    this.activeGridCell = null;
+    this.pendingGridFocus = false;
+  }
+
+  /** Rows moved by PageUp/PageDown: about the number of rows in view */
+  private get gridPageSize(): number {
+    const viewport = Math.min(this.clientHeight, window.innerHeight) - this.getListStart();
+    return viewport > 0 ? Math.max(1, Math.floor(viewport / this.rowHeight)) : 10;
+  }
+
+  /**
+   * Remember the active grid cell before a render, which may reuse its
+   * element for another row.
+   */
+  private captureGridCell(): void {
+    // A keyboard move to an unmounted row already set the target
+    if (this.pendingGridFocus || !this.gridTable) return;
+
+    const cell = this.gridTable.querySelector<HTMLElement>('th[tabindex="0"], td[tabindex="0"]');
+    const row = cell?.parentElement;
+    if (!cell || !row) return;
+
+    this.activeGridCell = {
+      rowKey: row.dataset.rowKey ?? null,
+      column: Array.from(row.children).indexOf(cell),
+    };
+    this.pendingGridFocus = document.activeElement === cell;
+  }
+
+  private restoreGridCell(): void {
+    const navigation = this.gridNavigation;
+    const target = this.activeGridCell;
+    if (!navigation || !target || !this.gridTable) return;
+
+    const row =
+      target.rowKey === null
+        ? this.gridTable.querySelector<HTMLElement>("thead > tr")
+        : Array.from(this.gridTable.querySelectorAll<HTMLElement>("tr[data-row-key]")).find(
+            (candidate) => candidate.dataset.rowKey === target.rowKey
+          );
+    const cell = row?.children[Math.min(target.column, row.children.length - 1)];
+    const position = cell ? navigation.getCellPosition(cell) : null;
+
+    if (position && this.pendingGridFocus) {
+      navigation.focusCell(position.row, position.column);
+    } else if (position) {
+      navigation.setActiveCell(position.row, position.column);
+    }
+    this.pendingGridFocus = false;
+  }
+
+  /**
+   * While virtualized, vertical moves to rows outside the mounted window
+   * scroll the target row into view and focus it after the next render.
+   * Moves within the window are left to the grid navigation.
+   */
+  private handleGridKeyDown = (event: KeyboardEvent): void => {
+    const navigation = this.gridNavigation;
+    const cell = event.target as HTMLElement;
+    const row = cell.parentElement;
+    if (!this.virtualWindow || !navigation || navigation.isActionable() || !row) return;
+    if (!navigation.getCellPosition(cell)) return;
+
+    const last = this.rowItems.length - 1;
+    const current =
+      row.dataset.rowIndex !== undefined
+        ? Number(row.dataset.rowIndex)
+        : row.dataset.rowKey === FOOTER_ROW_KEY
+          ? last + 1
+          : -1;
+    let column = Array.from(row.children).indexOf(cell);
+    let target: number;
+
+    switch (event.key) {
+      case "ArrowDown":
+        target = current + 1;
+        break;
+      case "ArrowUp":
+        target = current - 1;
+        break;
+      case "PageDown":
+        target = current + this.gridPageSize;
+        break;
+      case "PageUp":
+        target = current - this.gridPageSize;
+        break;
+      case "End":
+        // The footer row is always mounted
+        if ((!event.ctrlKey && !event.metaKey) || this.hasAggregates) return;
+        target = last;
+        column = Number.POSITIVE_INFINITY;
+        break;
+      default:
+        return;
+    }
+
+    target = Math.max(-1, Math.min(target, last));
+    if (target === -1 || this.querySelector(`tr[data-row-index="${target}"]`)) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.activeGridCell = { rowKey: this.rowItems[target]?.key ?? null, column };
+    this.pendingGridFocus = true;
+    this.scrollToRow(target);
+  };
+
+  private setupDataVirtualization(): void {
+    this.virtualWindow = createVirtualWindow({
+      count: this.rowItems.length,
+      estimateSize: this.rowHeight,
+      overscan: this.overscan,
+      getItemKey: (index) => this.rowItems[index]?.key ?? index,
+    });
+    this.listenForVirtualScroll();
+  }
+
+  private listenForVirtualScroll(): void {
+    this.addEventListener("scroll", this.handleVirtualScroll, { passive: true });
+    if (typeof ResizeObserver !== "undefined") {
+      this.resizeObserver = new ResizeObserver(this.handleVirtualScroll);
+      this.resizeObserver.observe(this);
+    }
+  }
+
+  private computeDataRange(): { start: number; end: number } {
+    if (!this.virtualWindow) return { start: 0, end: this.rowItems.length };
+
+    const viewport = Math.max(0, this.clientHeight - this.getListStart());
+    const { start, end } = this.virtualWindow.getRange(this.scrollTop, viewport);
+    return { start, end };
+  }
+
+  /**
+   * Refine row height estimates from the rendered data rows.
+   */
+  private measureDataRows(): void {
+    const virtual = this.virtualWindow;
+    if (!virtual) return;
+
+    let changed = false;
+    for (const row of this.querySelectorAll<HTMLElement>("tr[data-row-index]")) {
+      const index = Number(row.dataset.rowIndex);
+      changed = virtual.measure(index, row.getBoundingClientRect().height) || changed;
+    }
+    if (changed) this.requestUpdate();
+  }
+
+  private setupVirtualization(): void {
+    const body = this.querySelector<HTMLElement>("ds-table-body");
+    if (!body) return;
+
+    const rows = Array.from(body.children).filter(
+      (child): child is HTMLElement => child.localName === "ds-table-row"
+    );
+
+    this.virtualBody = body;
+    this.virtualRows = rows;
+    this.virtualWindow = createVirtualWindow({
+      count: rows.length,
+      estimateSize: this.rowHeight,
+      overscan: this.overscan,
+      getItemKey: (index) =>
+        (this.virtualRows[index] as HTMLElement & { rowId?: string }).rowId || index,
+    });
+
+    this.spacerBefore = this.createSpacer();
+    this.spacerAfter = this.createSpacer();
+    body.insertBefore(this.spacerBefore, rows[0] ?? null);
+    body.insertBefore(this.spacerAfter, rows[rows.length - 1]?.nextSibling ?? null);
+
+    for (const row of rows) {
+      row.remove();
+    }
+
+    this.listenForVirtualScroll();
+    this.renderWindow();
+  }
+
+  private teardownVirtualization(): void {
+    if (this.virtualFrame !== null) {
+      cancelAnimationFrame(this.virtualFrame);
+      this.virtualFrame = null;
+    }
+    this.removeEventListener("scroll", this.handleVirtualScroll);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+
+    // Restore every row in its original order
+    if (this.virtualBody && this.spacerAfter) {
+      for (const row of this.virtualRows) {
+        this.virtualBody.insertBefore(row, this.spacerAfter);
+      }
+    }
+    this.spacerBefore?.remove();
+    this.spacerAfter?.remove();
+
+    this.spacerBefore = null;
+    this.spacerAfter = null;
+    this.virtualBody = null;
+    this.virtualRows = [];
+    this.virtualWindow = null;
+  }
+
+  private createSpacer(): HTMLElement {
+    const spacer = document.createElement("div");
+    spacer.className = "ds-data-table__spacer";
+    spacer.setAttribute("aria-hidden", "true");
+    return spacer;
+  }
+
+  private handleVirtualScroll = (): void => {
+    if (this.virtualFrame !== null) return;
+    this.virtualFrame = requestAnimationFrame(() => {
+      this.virtualFrame = null;
+      this.renderWindow();
+    });
+  };
+
+  /**
+   * Offset of the first body row within the scroll content, i.e. the header height.
+   */
+  private getListStart(): number {
+    const spacer =
+      this.spacerBefore ?? this.querySelector<HTMLElement>("tbody > tr.ds-data-table__spacer");
+    if (!spacer) return 0;
+    return spacer.getBoundingClientRect().top - this.getBoundingClientRect().top + this.scrollTop;
+  }
+
+  private renderWindow(): void {
+    if (this.isDataMode) {
+      // willUpdate recomputes the range from the scroll position
+      this.requestUpdate();
+      return;
+    }
+
+    const virtual = this.virtualWindow;
+    const body = this.virtualBody;
+    const before = this.spacerBefore;
+    const after = this.spacerAfter;
+    if (!virtual || !body || !before || !after) return;
+
+    // The sticky header covers the top of the viewport
+    const viewport = Math.max(0, this.clientHeight - this.getListStart());
+    const range = virtual.getRange(this.scrollTop, viewport);
+    const wanted = this.virtualRows.slice(range.start, range.end);
+    const wantedSet = new Set(wanted);
+
+    // Unmount rows that left the window
+    let node = before.nextSibling;
+    while (node && node !== after) {
+      const next = node.nextSibling;
+      if (!wantedSet.has(node as HTMLElement)) {
+        node.remove();
+      }
+      node = next;
+    }
+
+    // Mount rows that entered the window, keeping order
+    let cursor = before.nextSibling;
+    for (const row of wanted) {
+      if (row === cursor) {
+        cursor = cursor.nextSibling;
+      } else {
+        body.insertBefore(row, cursor);
+      }
+    }
+
+    // Refine estimates with the real heights of mounted rows
+    wanted.forEach((row, i) => {
+      virtual.measure(range.start + i, row.getBoundingClientRect().height);
+    });
+
+    before.style.height = `${virtual.getOffset(range.start)}px`;
+    after.style.height = `${virtual.getTotalSize() - virtual.getOffset(range.end)}px`;
+  }
+
+  private renderDataTable(): TemplateResult {
+    const virtual = this.virtualWindow;
+    const { start, end } = virtual ? this.dataRange : { start: 0, end: this.rowItems.length };
+    const visibleItems = this.rowItems.slice(start, end);
+    const leadingCells = this.leadingCellCount;
+    const colCount = this.displayColumns.length + leadingCells;
+    const footerRows = this.hasAggregates ? 1 : 0;
+
+    return html`
+      <table
+        class="ds-data-table__table"
+        role=${this.grid ? "grid" : nothing}
+        @keydown=${this.handleTableKeyDown}
+        aria-rowcount=${virtual ? this.rowItems.length + 1 + footerRows : nothing}
+        aria-multiselectable=${
+          this.selectable && this.selectionMode === "multiple" ? "true" : nothing
+        }
+      >
+        <thead>
+          <tr aria-rowindex=${virtual ? 1 : nothing}>
+            ${this.selectable ? this.renderSelectAllCell() : nothing}
+            ${this.renderDetail ? this.renderExpanderHeaderCell() : nothing}
+            ${this.displayColumns.map((entry, i) => this.renderHeaderCell(entry, leadingCells + i))}
+          </tr>
+        </thead>
+        <tbody>
+          ${
+            virtual
+              ? html`<tr
+                  class="ds-data-table__spacer"
+                  aria-hidden="true"
+                  style="height: ${virtual.getOffset(start)}px"
+                ></tr>`
+              : nothing
+          }
+          ${visibleItems.map((item, i) => {
+            const index = start + i;
+            switch (item.type) {
+              case "group":
+                return this.renderGroupRow(item.group, index, colCount, virtual !== null);
+              case "detail":
+                return this.renderDetailRow(item, index, colCount, virtual !== null);
+              default:
+                return this.renderDataRow(item, index, virtual !== null);
+            }
+          })}
+          ${
+            virtual
+              ? html`<tr
+                  class="ds-data-table__spacer"
+                  aria-hidden="true"
+                  style="height: ${virtual.getTotalSize() - virtual.getOffset(end)}px"
+                ></tr>`
+              : nothing
+          }
+          ${
+            this.displayRows.length === 0 && !this.loading
+              ? html`
+                <tr>
+                  <td class="ds-data-table__empty" colspan=${colCount}>${this.emptyMessage ?? this.localize.t("dataTable.empty")}</td>
+                </tr>
+              `
+              : nothing
+          }
+        </tbody>
+        ${this.hasAggregates ? this.renderFooterRow(virtual !== null) : nothing}
+      </table>
+    `;
+  }
+
+  /** Selection and expander cells before the column cells */
+  private get leadingCellCount(): number {
+    return (this.selectable ? 1 : 0) + (this.renderDetail ? 1 : 0);
+  }
+
+  /** The selection and expander columns stick with left-pinned columns */
+  private get leadingCellPinned(): DataTablePinSide | null {
+    return this.displayColumns[0]?.pinned === "left" ? "left" : null;
+  }
+
+  private get hasAggregates(): boolean {
+    return this.isDataMode && this.displayColumns.some(({ column }) => column.aggregate);
+  }
+
+  private renderSelectAllCell(): TemplateResult {
+    const pinned = this.leadingCellPinned;
+
+    if (this.selectionMode !== "multiple") {
+      return html`<th
+        scope="col"
+        class="ds-data-table__select-cell"
+        data-pinned=${pinned ?? nothing}
+        style=${styleMap(pinnedCellStyle(pinned, 0))}
+      >
+        <span class="ds-visually-hidden">${this.localize.t("dataTable.selectColumn")}</span>
+      </th>`;
+    }
+
+    const status = this.tableBehavior.getSelectionStatus(this.displayRows.length);
+    return html`
+      <th
+        scope="col"
+        class="ds-data-table__select-cell"
+        data-pinned=${pinned ?? nothing}
+        style=${styleMap(pinnedCellStyle(pinned, 0))}
+      >
+        <input
+          type="checkbox"
+          class="ds-data-table__checkbox"
+          aria-label=${this.localize.t("dataTable.selectAll")}
+          .checked=${status === "all"}
+          .indeterminate=${status === "some"}
+          ?disabled=${this.displayRows.length === 0}
+          @change=${this.toggleAllRows}
+        />
+      </th>
+    `;
+  }
+
+  private renderHeaderCell(
+    { column, pinned }: LaidOutColumn<DataTableColumn>,
+    cellIndex: number
+  ): TemplateResult {
+    const sorted = this.tableBehavior.getSortDirection(column.id);
+    const priority = this.tableBehavior.getSortPriority(column.id);
+    const showPriority = priority > 0 && this.tableBehavior.sortState.model.length > 1;
+    // Per APG, only the primary sort column carries aria-sort other than "none"
+    const ariaSort =
+      priority !== 1 ? "none" : sorted === "asc" ? "ascending" : ("descending" as const);
+    const resizedWidth = this.layout.widths[column.id];
+    const style = {
+      width: resizedWidth !== undefined ? `${resizedWidth}px` : column.width,
+      "min-width": resizedWidth !== undefined ? `${resizedWidth}px` : column.minWidth,
+      "max-width": resizedWidth !== undefined ? `${resizedWidth}px` : column.maxWidth,
+      "text-align": column.align,
+      ...pinnedCellStyle(pinned, cellIndex),
+    };
+    const dropPosition = this.dropTarget?.id === column.id ? this.dropTarget.position : null;
+
+    return html`
+      <th
+        scope="col"
+        class="ds-data-table__header-cell"
+        data-column=${column.id}
+        data-pinned=${pinned ?? nothing}
+        data-drop-position=${dropPosition ?? nothing}
+        ?data-sortable=${column.sortable}
+        data-sort-direction=${column.sortable ? sorted : nothing}
+        aria-sort=${column.sortable ? ariaSort : nothing}
+        draggable=${this.reorderable ? "true" : nothing}
+        style=${styleMap(style)}
+        @dragstart=${(event: DragEvent) => this.handleColumnDragStart(event, column.id)}
+        @dragover=${(event: DragEvent) => this.handleColumnDragOver(event, column.id)}
+        @drop=${this.handleColumnDrop}
+        @dragend=${this.handleColumnDragEnd}
+      >
+        ${
+          column.sortable
+            ? html`
+              <button
+                type="button"
+                class="ds-data-table__sort-button"
+                @click=${(event: MouseEvent) => this.handleSort(column.id, event.shiftKey)}
+              >
+                ${column.header}
+                <span class="ds-data-table__sort-icon" aria-hidden="true">${sortIcon}</span>
+                ${
+                  showPriority
+                    ? html`
+                      <span class="ds-data-table__sort-priority" aria-hidden="true">${priority}</span>
+                      <span class="ds-visually-hidden">(sort priority ${priority})</span>
+                    `
+                    : nothing
+                }
+              </button>
+            `
+            : column.header
+        }
+        ${column.resizable ? this.renderResizeHandle(column) : nothing}
+      </th>
+    `;
+  }
+
+  private renderResizeHandle(column: DataTableColumn): TemplateResult {
+    const { min, max } = this.getColumnBounds(column);
+    const width = this.layout.widths[column.id] ?? toPixels(column.width);
+
+    // Window splitter pattern: a focusable separator whose value is the column width
+    return html`
+      <span
+        class="ds-data-table__resize-handle"
+        role="separator"
+        aria-orientation="vertical"
+        aria-label=${this.localize.t("dataTable.resizeColumn", { column: column.header })}
+        aria-valuenow=${width !== undefined ? Math.round(width) : nothing}
+        aria-valuemin=${Math.round(min)}
+        aria-valuemax=${Number.isFinite(max) ? Math.round(max) : nothing}
+        tabindex="0"
+        @pointerdown=${(event: PointerEvent) => this.handleResizeStart(event, column)}
+        @pointermove=${this.handleResizeMove}
+        @pointerup=${this.handleResizeEnd}
+        @pointercancel=${this.handleResizeEnd}
+        @keydown=${(event: KeyboardEvent) => this.handleResizeKeyDown(event, column)}
+        @dblclick=${() => this.setColumnWidth(column.id, null)}
+      ></span>
+    `;
+  }
+
+  private renderExpanderHeaderCell(): TemplateResult {
+    const pinned = this.leadingCellPinned;
+    return html`<th
+      scope="col"
+      class="ds-data-table__expander-cell"
+      data-pinned=${pinned ?? nothing}
+      style=${styleMap(pinnedCellStyle(pinned, this.selectable ? 1 : 0))}
+    >
+      <span class="ds-visually-hidden">${this.localize.t("dataTable.detailsColumn")}</span>
+    </th>`;
+  }
+
+  private renderGroupRow(
+    group: DataTableGroup,
+    index: number,
+    colCount: number,
+    virtual: boolean
+  ): TemplateResult {
+    const expanded = this.expansion.expandedIds.has(group.id);
+    const header =
+      this.columns.find((column) => column.id === group.column)?.header ?? group.column;
+
+    return html`
+      <tr
+        class="ds-data-table__group-row"
+        data-row-key=${group.id}
+        data-row-index=${index}
+        data-depth=${group.depth}
+        aria-rowindex=${virtual ? index + 2 : nothing}
+      >
+        <td
+          class="ds-data-table__group-cell"
+          colspan=${colCount}
+          style=${styleMap({ "--ds-data-table-group-depth": String(group.depth) })}
+        >
+          <button
+            type="button"
+            class="ds-data-table__group-toggle"
+            aria-expanded=${String(expanded)}
+            @click=${() => this.toggleGroup(group.id)}
+          >
+            <span class="ds-data-table__expand-icon" aria-hidden="true">${chevronIcon}</span>
+            <span class="ds-data-table__group-label">${header}: ${String(group.value ?? "")}</span>
+            <span class="ds-data-table__group-count">(${group.count})</span>
+          </button>
+        </td>
+      </tr>
+    `;
+  }
+
+  private renderDetailRow(
+    item: Extract<DataTableRowItem, { type: "detail" }>,
+    index: number,
+    colCount: number,
+    virtual: boolean
+  ): TemplateResult {
+    return html`
+      <tr
+        class="ds-data-table__detail-row"
+        id=${this.getDetailRowId(item.entry.id)}
+        data-row-key=${item.key}
+        data-row-index=${index}
+        aria-rowindex=${virtual ? index + 2 : nothing}
+      >
+        <td class="ds-data-table__detail-cell" colspan=${colCount}>
+          ${this.renderDetail?.(item.entry.row, item.index)}
+        </td>
+      </tr>
+    `;
+  }
+
+  private getDetailRowId(rowId: string): string {
+    return `${this.detailIdPrefix}-${encodeURIComponent(rowId)}`;
+  }
+
+  private renderFooterRow(virtual: boolean): TemplateResult {
+    const pinned = this.leadingCellPinned;
+    const rows = this.displayRows.map((entry) => entry.row);
+    const formatter = new Intl.NumberFormat(this.locale || undefined, {
+      maximumFractionDigits: 2,
+    });
+
+    return html`
+      <tfoot>
+        <tr
+          class="ds-data-table__footer-row"
+          data-row-key=${FOOTER_ROW_KEY}
+          aria-rowindex=${virtual ? this.rowItems.length + 2 : nothing}
+        >
+          ${Array.from(
+            { length: this.leadingCellCount },
+            (_, i) => html`<td
+              class="ds-data-table__footer-cell"
+              data-pinned=${pinned ?? nothing}
+              style=${styleMap(pinnedCellStyle(pinned, i))}
+            ></td>`
+          )}
+          ${this.displayColumns.map(({ column, pinned: columnPinned }, i) => {
+            let content: unknown = "";
+            if (column.aggregate) {
+              const path = column.accessor ?? column.id;
+              const value = computeAggregate(
+                column.aggregate,
+                rows.map((row) => getValueAtPath(row, path)),
+                rows
+              );
+              content = column.formatAggregate
+                ? column.formatAggregate(value)
+                : typeof value === "number"
+                  ? formatter.format(value)
+                  : (value ?? "");
+            }
+
+            return html`<td
+              class="ds-data-table__footer-cell"
+              data-column=${column.id}
+              data-pinned=${columnPinned ?? nothing}
+              style=${styleMap({
+                "text-align": column.align,
+                ...pinnedCellStyle(columnPinned, this.leadingCellCount + i),
+              })}
+            >
+              ${content}
+            </td>`;
+          })}
+        </tr>
+      </tfoot>
+    `;
+  }
+
+  private renderDataRow(
+    item: Extract<DataTableRowItem, { type: "row" }>,
+    itemIndex: number,
+    virtual: boolean
+  ): TemplateResult {
+    const { row, id: rowId } = item.entry;
+    const index = item.index;
+    const selected = this.selectable && this.tableBehavior.isRowSelected(rowId);
+    const detailExpanded = this.isRowDetailExpanded(rowId);
+
+    return html`
+      <tr
+        data-row-id=${rowId}
+        data-row-key=${item.key}
+        data-row-index=${itemIndex}
+        data-depth=${this.groups.length > 0 ? item.depth : nothing}
+        ?data-selected=${selected}
+        aria-selected=${this.selectable ? String(selected) : nothing}
+        aria-rowindex=${virtual ? itemIndex + 2 : nothing}
+      >
+        ${
+          this.selectable
+            ? html`
+              <td
+                class="ds-data-table__select-cell"
+                data-pinned=${this.leadingCellPinned ?? nothing}
+                style=${styleMap(pinnedCellStyle(this.leadingCellPinned, 0))}
+              >
+                <input
+                  type=${this.selectionMode === "single" ? "radio" : "checkbox"}
+                  class="ds-data-table__checkbox"
+                  name=${this.selectionMode === "single" ? "ds-data-table-selection" : nothing}
+                  aria-label=${this.localize.t("dataTable.selectRow")}
+                  .checked=${selected}
+                  @change=${() => this.toggleRowSelection(rowId)}
+                />
+              </td>
+            `
+            : nothing
+        }
+        ${
+          this.renderDetail
+            ? html`
+              <td
+                class="ds-data-table__expander-cell"
+                data-pinned=${this.leadingCellPinned ?? nothing}
+                style=${styleMap(pinnedCellStyle(this.leadingCellPinned, this.selectable ? 1 : 0))}
+              >
+                <button
+                  type="button"
+                  class="ds-data-table__expander"
+                  aria-label=${this.localize.t("dataTable.showDetails")}
+                  aria-expanded=${String(detailExpanded)}
+                  aria-controls=${detailExpanded ? this.getDetailRowId(rowId) : nothing}
+                  @click=${() => this.toggleRowDetail(rowId)}
+                >
+                  <span class="ds-data-table__expand-icon" aria-hidden="true">${chevronIcon}</span>
+                </button>
+              </td>
+            `
+            : nothing
+        }
+        ${this.displayColumns.map(({ column, pinned }, i) => {
+          const value = getValueAtPath(row, column.accessor ?? column.id);
+          const style = {
+            "text-align": column.align,
+            ...pinnedCellStyle(pinned, this.leadingCellCount + i),
+          };
+          const editing =
+            this.editing?.rowId === rowId && this.editing.column === column.id
+              ? this.editing
+              : null;
+
+          return html`
+            <td
+              data-column=${column.id}
+              data-pinned=${pinned ?? nothing}
+              ?data-editable=${column.editable}
+              ?data-editing=${!!editing}
+              ?data-invalid=${!!editing?.error}
+              aria-busy=${editing?.validating ? "true" : nothing}
+              style=${styleMap(style)}
+              @dblclick=${column.editable ? () => this.editCell(rowId, column.id) : nothing}
+              @keydown=${
+                column.editable
+                  ? (event: KeyboardEvent) =>
+                      this.handleEditableCellKeyDown(event, rowId, column.id)
+                  : nothing
+              }
+              @focusout=${editing ? this.handleEditorFocusOut : nothing}
+            >
+              ${
+                editing
+                  ? this.renderCellEditor(column, editing)
+                  : column.cell
+                    ? column.cell(value, row, index)
+                    : (value ?? "")
+              }
+              ${
+                editing?.error
+                  ? html`
+                    <div class="ds-data-table__cell-error" id=${this.editErrorId} role="alert">
+                      ${editing.error}
+                    </div>
+                  `
+                  : nothing
+              }
+            </td>
+          `;
+        })}
+      </tr>
+    `;
+  }
+
+  private renderCellEditor(column: DataTableColumn, editing: CellEditorState): TemplateResult {
+    const describedBy = editing.error ? this.editErrorId : nothing;
+    const invalid = editing.error ? "true" : nothing;
+
+    switch (column.editor ?? "text") {
+      case "number":
+        return html`
+          <ds-number-input
+            class="ds-data-table__editor"
+            allow-empty
+            .showButtons=${false}
+            .value=${editing.draft === "" ? undefined : Number(editing.draft)}
+            aria-label=${column.header}
+            @ds:change=${this.handleNumberEditorChange}
+            @keydown=${this.handleEditorKeyDown}
+          ></ds-number-input>
+        `;
+      case "select":
+        return html`
+          <select
+            class="ds-data-table__editor"
+            aria-label=${column.header}
+            aria-invalid=${invalid}
+            aria-describedby=${describedBy}
+            @change=${this.handleEditorInput}
+            @keydown=${this.handleEditorKeyDown}
+          >
+            ${editing.draft === "" ? html`<option value="" selected disabled></option>` : nothing}
+            ${(column.options ?? []).map(
+              (option, i) => html`
+                <option value=${i} ?selected=${String(i) === editing.draft}>${option.label}</option>
+              `
+            )}
+          </select>
+        `;
+      default:
+        return html`
+          <input
+            class="ds-data-table__editor"
+            type=${column.editor === "date" ? "date" : "text"}
+            aria-label=${column.header}
+            aria-invalid=${invalid}
+            aria-describedby=${describedBy}
+            .value=${editing.draft}
+            @input=${this.handleEditorInput}
+            @keydown=${this.handleEditorKeyDown}
+          />
+        `;
+    }
+  }
+
+  private renderColumnMenu(): TemplateResult {
+    const columns = this.layout.order
+      .map((id) => this.columns.find((column) => column.id === id))
+      .filter((column): column is DataTableColumn => !!column && column.hideable !== false);
+
+    return html`
+      <div class="ds-data-table__toolbar">
+        <ds-dropdown-menu class="ds-data-table__column-menu" placement="bottom-end">
+          <button slot="trigger" type="button" class="ds-data-table__column-menu-trigger">
+            Columns
+          </button>
+          <ds-dropdown-menu-content>
+            <ds-dropdown-menu-label>${this.localize.t("dataTable.toggleColumns")}</ds-dropdown-menu-label>
+            ${columns.map((column) => {
+              const visible = !this.layout.hidden.includes(column.id);
+              const isLastVisible = visible && this.displayColumns.length === 1;
+              return html`
+                <ds-dropdown-menu-checkbox-item
+                  data-column=${column.id}
+                  .checked=${visible}
+                  ?disabled=${isLastVisible}
+                  @click=${() => this.toggleColumnVisibility(column.id)}
+                  @keydown=${(event: KeyboardEvent) => {
+                    if (event.key === "Enter" || event.key === " ") {
+                      this.toggleColumnVisibility(column.id);
+                    }
+                  }}
+                >
+                  ${column.header}
+                </ds-dropdown-menu-checkbox-item>
+              `;
+            })}
+          </ds-dropdown-menu-content>
+        </ds-dropdown-menu>
+      </div>
+    `;
+  }
+
+  private renderPagination(): TemplateResult {
+    const pages: number[] = [];
+    const maxButtons = 5;
+    let start = Math.max(1, this.page - Math.floor(maxButtons / 2));
+    const end = Math.min(this.totalPages, start + maxButtons - 1);
+
+    if (end - start + 1 < maxButtons) {
+      start = Math.max(1, end - maxButtons + 1);
+    }
+
+    for (let i = start; i <= end; i++) {
+      pages.push(i);
+    }
+
+    return html`
       <div class="ds-data-table__pagination">
         <button
           type="button"
           class="ds-data-table__page-button"
           ?disabled=${this.page === 1}
           @click=${() => this.handlePageChange(this.page - 1)}
-          aria-label="Previous page"
+          aria-label=${this.localize.t("dataTable.previousPage")}
         >
           ${chevronIcon}
         </button>
@@ -283,7 +2292,7 @@ export class DsDataTable extends DSElement {
               class="ds-data-table__page-button"
               ?data-active=${p === this.page}
               @click=${() => this.handlePageChange(p)}
-              aria-label="Page ${p}"
+              aria-label=${this.localize.t("dataTable.page", { page: p })}
               aria-current=${p === this.page ? "page" : nothing}
             >
               ${p}
@@ -296,7 +2305,7 @@ export class DsDataTable extends DSElement {
           class="ds-data-table__page-button"
           ?disabled=${this.page === this.totalPages}
           @click=${() => this.handlePageChange(this.page + 1)}
-          aria-label="Next page"
+          aria-label=${this.localize.t("dataTable.nextPage")}
           style="transform: rotate(180deg)"
         >
           ${chevronIcon}
@@ -309,12 +2318,13 @@ export class DsDataTable extends DSElement {
     const classes = {
       "ds-data-table": true,
     };
+    const selectedCount = this.tableBehavior.selectionState.selectedRows.size;
 
     return html`
       <div
         class=${classMap(classes)}
         role="region"
-        aria-label="Data table"
+        aria-label=${this.localize.t("dataTable.label")}
         aria-busy=${this.loading ? "true" : nothing}
         ?data-loading=${this.loading}
       >
@@ -329,28 +2339,30 @@ export class DsDataTable extends DSElement {
           ${this.sortAnnouncement}
         </div>
         ${
-          this.selectedRows.size > 0
+          selectedCount > 0
             ? html`
               <div class="ds-data-table__selection-info">
                 <span class="ds-data-table__selection-count">
-                  ${this.selectedRows.size} selected
+                  ${this.localize.t("dataTable.selectedCount", { count: selectedCount })}
                 </span>
                 <button
                   type="button"
                   class="ds-data-table__clear-selection"
                   @click=${this.clearSelection}
                 >
-                  Clear
+                  ${this.localize.t("dataTable.clearSelection")}
                 </button>
               </div>
             `
             : nothing
         }
 
+        ${this.isDataMode && this.columnMenu ? this.renderColumnMenu() : nothing}
+
         <div
           class=${this.virtualized ? "ds-data-table__virtualized" : "ds-data-table__container"}
         >
-          <slot></slot>
+          ${this.isDataMode ? this.renderDataTable() : html`<slot></slot>`}
 
           ${
             this.loading
@@ -368,11 +2380,15 @@ export class DsDataTable extends DSElement {
             ? html`
               <div class="ds-data-table__footer">
                 <div class="ds-data-table__info">
-                  Showing ${this.startRow}-${this.endRow} of ${this.totalRows}
+                  ${this.localize.t("dataTable.showing", {
+                    start: this.startRow,
+                    end: this.endRow,
+                    total: this.totalRows,
+                  })}
                 </div>
 
                 <div class="ds-data-table__per-page">
-                  <span>Rows per page:</span>
+                  <span>${this.localize.t("dataTable.rowsPerPage")}</span>
                   <select @change=${this.handlePageSizeChange}>
                     ${this.pageSizeOptions.map(
                       (size) => html`
@@ -7,4 +7,16 @@ export {
   type DataTableSort,
   type DataTablePagination,
   type DataTableSortDirection,
+  type DataTableColumnState,
+  type DataTableColumnStateReason,
+  type DataTablePinSide,
+  type DataTableCellEditDetail,
+  type DataTableCellEditSource,
+  type DataTableEditorOption,
+  type DataTableEditorType,
+  type DataTableValidationResult,
+  type DataTableAggregate,
+  type DataTableAggregateFunction,
+  type DataTableExpandChangeDetail,
+  type DataTableExpandKind,
 } from "./data-table.js";
@@ -0,0 +1,172 @@
+/**
+ * Row grouping, detail rows and aggregates for the data-driven mode.
+ *
+ * Sorted rows are grouped by one or more columns and flattened into the
+ * rendered row items: group headers, data rows and detail rows. Collapsed
+ * groups and detail rows are left out, so virtualization only ever sees
+ * the visible items.
+ */
+
+export type DataTableAggregateFunction = "sum" | "avg" | "min" | "max" | "count";
+
+/**
+ * Footer aggregate of a column: a built-in function, or a custom reducer
+ * receiving the column values and rows.
+ */
+export type DataTableAggregate<T = unknown> =
+  | DataTableAggregateFunction
+  | ((values: unknown[], rows: T[]) => unknown);
+
+export interface DataTableRowEntry {
+  row: unknown;
+  id: string;
+}
+
+export interface DataTableGroup {
+  /** Stable ID from the column/value path, e.g. `group:status=active/region=EU` */
+  id: string;
+  column: string;
+  value: unknown;
+  /** Nesting level, 0 for top-level groups */
+  depth: number;
+  /** Number of data rows in the group and its subgroups */
+  count: number;
+  rows: DataTableRowEntry[];
+  groups: DataTableGroup[];
+}
+
+/** What an expand change applies to */
+export type DataTableExpandKind = "group" | "detail";
+
+export interface DataTableExpandChangeDetail {
+  kind: DataTableExpandKind;
+  /** Group ID, or the row ID of a detail row */
+  id: string;
+  expanded: boolean;
+}
+
+export type DataTableRowItem =
+  | { type: "group"; key: string; group: DataTableGroup }
+  | { type: "row"; key: string; entry: DataTableRowEntry; index: number; depth: number }
+  | { type: "detail"; key: string; entry: DataTableRowEntry; index: number };
+
+/**
+ * Prefix of detail row expansion IDs, which share one expanded set with groups.
+ */
+export const DETAIL_ID_PREFIX = "detail:";
+
+/**
+ * Group rows by columns, keeping groups in order of their first row.
+ * Rows sorted by a grouped column therefore also sort its groups.
+ */
+export function groupRows(
+  entries: DataTableRowEntry[],
+  groupBy: string[],
+  getValue: (row: unknown, columnId: string) => unknown,
+  parentId = "group:",
+  depth = 0
+): DataTableGroup[] {
+  const [column, ...rest] = groupBy;
+  if (column === undefined) return [];
+
+  const groups = new Map<string, DataTableGroup>();
+  for (const entry of entries) {
+    const value = getValue(entry.row, column);
+    const id = `${parentId}${depth > 0 ? "/" : ""}${column}=${encodeURIComponent(String(value ?? ""))}`;
+
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, column, value, depth, count: 0, rows: [], groups: [] };
+      groups.set(id, group);
+    }
+    group.rows.push(entry);
+    group.count++;
+  }
+
+  for (const group of groups.values()) {
+    group.groups = groupRows(group.rows, rest, getValue, group.id, depth + 1);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Flatten rows (grouped or not) into the rendered row items.
+ */
+export function flattenRows(
+  entries: DataTableRowEntry[],
+  groups: DataTableGroup[],
+  options: { isExpanded: (id: string) => boolean; hasDetail: boolean }
+): DataTableRowItem[] {
+  const items: DataTableRowItem[] = [];
+  const indexes = new Map(entries.map((entry, index) => [entry, index]));
+
+  const pushRows = (rows: DataTableRowEntry[], depth: number) => {
+    for (const entry of rows) {
+      const index = indexes.get(entry) ?? -1;
+      items.push({ type: "row", key: entry.id, entry, index, depth });
+      if (options.hasDetail && options.isExpanded(DETAIL_ID_PREFIX + entry.id)) {
+        items.push({ type: "detail", key: DETAIL_ID_PREFIX + entry.id, entry, index });
+      }
+    }
+  };
+
+  const pushGroups = (list: DataTableGroup[]) => {
+    for (const group of list) {
+      items.push({ type: "group", key: group.id, group });
+      if (!options.isExpanded(group.id)) continue;
+
+      if (group.groups.length > 0) {
+        pushGroups(group.groups);
+      } else {
+        pushRows(group.rows, group.depth + 1);
+      }
+    }
+  };
+
+  if (groups.length > 0) {
+    pushGroups(groups);
+  } else {
+    pushRows(entries, 0);
+  }
+  return items;
+}
+
+/**
+ * Every group ID in a grouping, parents before children.
+ */
+export function getGroupIds(groups: DataTableGroup[]): string[] {
+  return groups.flatMap((group) => [group.id, ...getGroupIds(group.groups)]);
+}
+
+/**
+ * Compute a column aggregate. Built-in numeric functions ignore values that
+ * aren't finite numbers and return null when none are left; `count` counts
+ * non-empty values.
+ */
+export function computeAggregate<T>(
+  aggregate: DataTableAggregate<T>,
+  values: unknown[],
+  rows: T[]
+): unknown {
+  if (typeof aggregate === "function") return aggregate(values, rows);
+
+  if (aggregate === "count") {
+    return values.filter((value) => value != null && value !== "").length;
+  }
+
+  const numbers = values.filter(
+    (value): value is number => typeof value === "number" && Number.isFinite(value)
+  );
+  if (numbers.length === 0) return null;
+
+  switch (aggregate) {
+    case "sum":
+      return numbers.reduce((total, value) => total + value, 0);
+    case "avg":
+      return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+    case "min":
+      return numbers.reduce((min, value) => Math.min(min, value));
+    case "max":
+      return numbers.reduce((max, value) => Math.max(max, value));
+  }
+}
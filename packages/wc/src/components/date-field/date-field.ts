@@ -0,0 +1,272 @@
+/**
+ * DateField component for typed date entry with locale-ordered segments.
+ *
+ * @element ds-date-field
+ * @fires ds:change - Fired on date change with { value } (ISO date, or "" while incomplete)
+ *
+ * @example
+ * ```html
+ * <!-- Segments follow the locale: mm/dd/yyyy -->
+ * <ds-date-field locale="en-US"></ds-date-field>
+ *
+ * <!-- dd.mm.yyyy with an initial value -->
+ * <ds-date-field locale="de-DE" value="2026-03-15"></ds-date-field>
+ *
+ * <!-- As the trigger of a date picker -->
+ * <ds-date-picker>
+ *   <ds-date-field slot="trigger"></ds-date-field>
+ *   <ds-date-picker-calendar></ds-date-picker-calendar>
+ * </ds-date-picker>
+ * ```
+ */
+
+import {
+  type DateFieldBehavior,
+  type DateSegment,
+  type Messages,
+  createDateFieldBehavior,
+  getDirection,
+  mirrorArrowKey,
+} from "@hypoth-ui/primitives-dom";
+import { html, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
+import { StandardEvents, emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
+
+/**
+ * Parse a YYYY-MM-DD string as a local date.
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number) as [number, number, number, number];
+  const date = new Date(year, month - 1, day);
+  date.setFullYear(year);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Format a local date as YYYY-MM-DD.
+ */
+function formatIsoDate(date: Date | null): string {
+  if (!date) return "";
+  const year = String(date.getFullYear()).padStart(4, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export class DsDateField extends DSElement {
+  /** Date value in ISO format (YYYY-MM-DD) */
+  @property({ type: String, reflect: true })
+  value = "";
+
+  /** Locale for segment order and separators */
+  @property({ type: String })
+  locale = "en-US";
+
+  /** Minimum valid date in ISO format */
+  @property({ type: String, attribute: "min-date" })
+  minDate = "";
+
+  /** Maximum valid date in ISO format */
+  @property({ type: String, attribute: "max-date" })
+  maxDate = "";
+
+  /** Disabled state */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /** Read-only state */
+  @property({ type: Boolean, reflect: true })
+  readonly = false;
+
+  /** ARIA label */
+  @property({ type: String, attribute: "aria-label" })
+  override ariaLabel: string | null = null;
+
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
+  @state()
+  private behavior: DateFieldBehavior | null = null;
+
+  @state()
+  private focusedSegment: DateSegment | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.initBehavior();
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.behavior?.destroy();
+    this.behavior = null;
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>): void {
+    super.willUpdate(changedProperties);
+
+    if (
+      changedProperties.has("locale") ||
+      changedProperties.has("minDate") ||
+      changedProperties.has("maxDate") ||
+      changedProperties.has("disabled") ||
+      changedProperties.has("readonly") ||
+      changedProperties.has("messages")
+    ) {
+      this.initBehavior();
+    } else if (
+      changedProperties.has("value") &&
+      this.behavior &&
+      this.value !== formatIsoDate(this.behavior.state.value)
+    ) {
+      this.behavior.setValue(parseIsoDate(this.value));
+    }
+  }
+
+  /**
+   * Focuses the first segment.
+   */
+  override focus(options?: FocusOptions): void {
+    const segment = this.querySelector<HTMLElement>(".ds-date-field__segment");
+    if (segment) {
+      segment.focus(options);
+    } else {
+      super.focus(options);
+    }
+  }
+
+  /**
+   * Clears every segment.
+   */
+  public clear(): void {
+    this.behavior?.clear();
+    this.requestUpdate();
+  }
+
+  private initBehavior(): void {
+    this.behavior?.destroy();
+
+    this.behavior = createDateFieldBehavior({
+      defaultValue: parseIsoDate(this.value),
+      locale: this.locale,
+      minDate: parseIsoDate(this.minDate) ?? undefined,
+      maxDate: parseIsoDate(this.maxDate) ?? undefined,
+      disabled: this.disabled,
+      readOnly: this.readonly,
+      messages: this.messages,
+      onValueChange: (date) => {
+        const value = formatIsoDate(date);
+        if (value === this.value) return;
+        this.value = value;
+        emitEvent(this, StandardEvents.CHANGE, { detail: { value } });
+      },
+      onFocusedSegmentChange: (segment) => {
+        this.focusedSegment = segment;
+        // Follow keyboard navigation and auto-advance with DOM focus
+        if (segment && this.contains(document.activeElement)) {
+          this.querySelector<HTMLElement>(`[data-segment="${segment}"]`)?.focus();
+        }
+      },
+    });
+  }
+
+  private handleSegmentFocus(segment: DateSegment): void {
+    this.behavior?.focusSegment(segment);
+  }
+
+  private handleSegmentBlur(event: FocusEvent): void {
+    // Moving between segments keeps the behavior's focus state
+    const next = event.relatedTarget as Element | null;
+    if (next && this.contains(next)) return;
+    this.behavior?.blur();
+  }
+
+  private handleSegmentKeyDown(segment: DateSegment, event: KeyboardEvent): void {
+    if (!this.behavior) return;
+
+    const key = mirrorArrowKey(event.key, getDirection(this));
+    if (key !== event.key) {
+      // Horizontal arrows follow the visual order in right-to-left layouts
+      event.preventDefault();
+      if (key === "ArrowRight") this.behavior.focusNextSegment();
+      else this.behavior.focusPreviousSegment();
+    } else {
+      this.behavior.handleSegmentKeyDown(segment, event);
+    }
+    this.requestUpdate();
+  }
+
+  private renderSegment(segment: DateSegment) {
+    if (!this.behavior) return nothing;
+
+    const props = this.behavior.getSegmentProps(segment);
+    const displayValue = this.behavior.getSegmentDisplayValue(segment);
+    const isPlaceholder = this.behavior.state.segments[segment] === null;
+    const isFocused = this.focusedSegment === segment;
+
+    return html`
+      <span
+        class="ds-date-field__segment"
+        role=${props.role}
+        tabindex=${props.tabIndex}
+        inputmode=${props.inputMode}
+        aria-valuemin=${props["aria-valuemin"]}
+        aria-valuemax=${props["aria-valuemax"]}
+        aria-valuenow=${props["aria-valuenow"] ?? nothing}
+        aria-valuetext=${props["aria-valuetext"]}
+        aria-label=${props["aria-label"]}
+        aria-invalid=${props["aria-invalid"] ?? nothing}
+        aria-disabled=${props["aria-disabled"] ?? nothing}
+        aria-readonly=${props["aria-readonly"] ?? nothing}
+        data-segment=${segment}
+        data-placeholder=${isPlaceholder || nothing}
+        data-focused=${isFocused || nothing}
+        @focus=${() => this.handleSegmentFocus(segment)}
+        @blur=${this.handleSegmentBlur}
+        @keydown=${(e: KeyboardEvent) => this.handleSegmentKeyDown(segment, e)}
+      >
+        ${displayValue}
+      </span>
+    `;
+  }
+
+  override render() {
+    if (!this.behavior) return nothing;
+
+    return html`
+      <div
+        class="ds-date-field"
+        role="group"
+        aria-label=${this.ariaLabel || this.localize.t("dateField.label")}
+        data-disabled=${this.disabled || nothing}
+        data-readonly=${this.readonly || nothing}
+        data-invalid=${this.behavior.state.invalid || nothing}
+      >
+        ${this.behavior
+          .getParts()
+          .map((part) =>
+            part.type === "literal"
+              ? html`<span class="ds-date-field__separator" aria-hidden="true">${part.value}</span>`
+              : this.renderSegment(part.type)
+          )}
+      </div>
+    `;
+  }
+}
+
+define("ds-date-field", DsDateField);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-date-field": DsDateField;
+  }
+}
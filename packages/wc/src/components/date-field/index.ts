@@ -0,0 +1 @@
+export { DsDateField } from "./date-field.js";
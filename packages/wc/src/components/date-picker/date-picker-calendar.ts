@@ -1,6 +1,15 @@
+import {
+  type DateRangePreset,
+  type DateUnavailablePredicate,
+  type Messages,
+  getDirection,
+  mirrorArrowKey,
+  resolveDateRangePreset,
+} from "@hypoth-ui/primitives-dom";
 import { html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export type CalendarState = "open" | "closed";
@@ -14,6 +23,7 @@ export type CalendarState = "open" | "closed";
  *
  * @fires ds:date-select - Fired when a date is selected
  * @fires ds:navigate - Fired when month/year navigation occurs
+ * @fires ds:preset-select - Fired when a range preset is chosen with { label, start, end }
  *
  * @example
  * ```html
@@ -22,6 +32,9 @@ export type CalendarState = "open" | "closed";
  *   selected-date="2026-01-15"
  *   min-date="2026-01-01"
  * ></ds-date-picker-calendar>
+ *
+ * <!-- Two months side by side for range selection -->
+ * <ds-date-picker-calendar range months="2" min-nights="2"></ds-date-picker-calendar>
  * ```
  */
 export class DsDatePickerCalendar extends DSElement {
@@ -65,9 +78,39 @@ export class DsDatePickerCalendar extends DSElement {
   @property({ type: Boolean, reflect: true })
   range = false;
 
+  /** Number of months shown side by side */
+  @property({ type: Number })
+  months = 1;
+
+  /** Minimum nights between range start and end (0 for none) */
+  @property({ type: Number, attribute: "min-nights" })
+  minNights = 0;
+
+  /** Maximum nights between range start and end (0 for none) */
+  @property({ type: Number, attribute: "max-nights" })
+  maxNights = 0;
+
+  /** Marks dates unavailable; return a string to give the reason read by screen readers */
+  @property({ attribute: false })
+  isDateUnavailable?: DateUnavailablePredicate;
+
+  /** Range presets shown in a rail beside the months (range mode) */
+  @property({ attribute: false })
+  presets?: DateRangePreset[];
+
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private focusedDate = "";
 
+  /** Date under the pointer, previewed as the range end */
+  @state()
+  private hoveredDate = "";
+
   private monthFormatter: Intl.DateTimeFormat | null = null;
   private weekdayFormatter: Intl.DateTimeFormat | null = null;
 
@@ -132,6 +175,18 @@ export class DsDatePickerCalendar extends DSElement {
     return new Date(year ?? 2026, (month ?? 1) - 1, 1);
   }
 
+  private formatViewingMonth(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  }
+
+  private getVisibleMonths(): Date[] {
+    const first = this.getViewingDate();
+    return Array.from(
+      { length: Math.max(1, this.months) },
+      (_, i) => new Date(first.getFullYear(), first.getMonth() + i, 1)
+    );
+  }
+
   private getWeekdayNames(): string[] {
     if (!this.weekdayFormatter) return [];
     const names: string[] = [];
@@ -144,8 +199,7 @@ export class DsDatePickerCalendar extends DSElement {
     return names;
   }
 
-  private getMonthDays(): Date[] {
-    const viewDate = this.getViewingDate();
+  private getMonthDays(viewDate: Date): Date[] {
     const days: Date[] = [];
 
     // Get first day of month
@@ -176,7 +230,60 @@ export class DsDatePickerCalendar extends DSElement {
     const isoDate = this.formatIso(date);
     if (this.minDate && isoDate < this.minDate) return true;
     if (this.maxDate && isoDate > this.maxDate) return true;
-    return false;
+    return this.getUnavailableReason(date) !== null;
+  }
+
+  private get isSelectingRangeEnd(): boolean {
+    return this.range && !!this.rangeStart && !this.rangeEnd;
+  }
+
+  private getPredicateReason(date: Date): string | null {
+    const result = this.isDateUnavailable?.(date);
+    if (!result) return null;
+    return typeof result === "string" ? result : this.localize.t("calendar.unavailable");
+  }
+
+  /**
+   * Reason a date can't be picked: the predicate's, or a stay-length or
+   * contiguity rule while the range end is being chosen.
+   */
+  private getUnavailableReason(date: Date): string | null {
+    const reason = this.getPredicateReason(date);
+    if (reason) return reason;
+
+    if (!this.isSelectingRangeEnd) return null;
+
+    // Compare ISO days so the count matches the rendered cells
+    const isoDate = this.formatIso(date);
+    const nights = Math.abs(Date.parse(isoDate) - Date.parse(this.rangeStart)) / 86_400_000;
+    if (this.minNights && nights < this.minNights) {
+      return this.localize.t("calendar.minNights", { count: this.minNights });
+    }
+    if (this.maxNights && nights > this.maxNights) {
+      return this.localize.t("calendar.maxNights", { count: this.maxNights });
+    }
+    if (this.isDateUnavailable) {
+      const step = isoDate < this.rangeStart ? 1 : -1;
+      for (let i = 1; i < nights; i++) {
+        const between = new Date(date);
+        between.setDate(between.getDate() + i * step);
+        if (this.getPredicateReason(between)) return this.localize.t("calendar.rangeUnavailable");
+      }
+    }
+    return null;
+  }
+
+  private isDateInPreview(date: Date): boolean {
+    const target = this.hoveredDate || this.focusedDate;
+    if (!this.isSelectingRangeEnd || !target || target === this.rangeStart) return false;
+
+    const targetDate = this.parseDate(target);
+    if (!targetDate || this.isDateDisabled(targetDate)) return false;
+
+    const isoDate = this.formatIso(date);
+    const [from, to] =
+      target < this.rangeStart ? [target, this.rangeStart] : [this.rangeStart, target];
+    return isoDate >= from && isoDate <= to;
   }
 
   private isDateSelected(date: Date): boolean {
@@ -197,8 +304,7 @@ export class DsDatePickerCalendar extends DSElement {
     return this.formatIso(date) === this.getTodayIso();
   }
 
-  private isDateInCurrentMonth(date: Date): boolean {
-    const viewDate = this.getViewingDate();
+  private isDateInCurrentMonth(date: Date, viewDate: Date): boolean {
     return date.getMonth() === viewDate.getMonth() && date.getFullYear() === viewDate.getFullYear();
   }
 
@@ -207,6 +313,7 @@ export class DsDatePickerCalendar extends DSElement {
 
     const isoDate = this.formatIso(date);
     this.focusedDate = isoDate;
+    this.hoveredDate = "";
 
     this.dispatchEvent(
       new CustomEvent("ds:date-select", {
@@ -223,7 +330,7 @@ export class DsDatePickerCalendar extends DSElement {
 
     let newFocused: Date | null = null;
 
-    switch (event.key) {
+    switch (mirrorArrowKey(event.key, getDirection(this))) {
       case "ArrowLeft":
         event.preventDefault();
         newFocused = new Date(focused);
@@ -279,10 +386,16 @@ export class DsDatePickerCalendar extends DSElement {
 
     if (newFocused) {
       this.focusedDate = this.formatIso(newFocused);
-      // Update viewing month if needed
-      const newMonth = `${newFocused.getFullYear()}-${String(newFocused.getMonth() + 1).padStart(2, "0")}`;
-      if (newMonth !== this.viewingMonth) {
-        this.viewingMonth = newMonth;
+      // Scroll the visible months only when focus leaves them
+      const visible = this.getVisibleMonths();
+      const first = visible[0] as Date;
+      const afterLast = new Date(first.getFullYear(), first.getMonth() + visible.length, 1);
+      if (newFocused < first) {
+        this.viewingMonth = this.formatViewingMonth(newFocused);
+      } else if (newFocused >= afterLast) {
+        this.viewingMonth = this.formatViewingMonth(
+          new Date(newFocused.getFullYear(), newFocused.getMonth() - visible.length + 1, 1)
+        );
       }
       this.requestUpdate();
     }
@@ -320,6 +433,19 @@ export class DsDatePickerCalendar extends DSElement {
     );
   }
 
+  private handlePresetClick(preset: DateRangePreset): void {
+    const { start, end } = resolveDateRangePreset(preset);
+    if (!start || !end) return;
+
+    this.dispatchEvent(
+      new CustomEvent("ds:preset-select", {
+        bubbles: true,
+        composed: true,
+        detail: { label: preset.label, start: this.formatIso(start), end: this.formatIso(end) },
+      })
+    );
+  }
+
   override updated(changedProperties: Map<string, unknown>): void {
     super.updated(changedProperties);
 
@@ -333,10 +459,14 @@ export class DsDatePickerCalendar extends DSElement {
   }
 
   override render() {
-    const viewDate = this.getViewingDate();
-    const monthLabel = this.monthFormatter?.format(viewDate) ?? "";
-    const weekdays = this.getWeekdayNames();
-    const days = this.getMonthDays();
+    const months = this.getVisibleMonths();
+    const first = months[0] as Date;
+    const last = months[months.length - 1] as Date;
+    const headerLabel =
+      months.length > 1
+        ? (this.monthFormatter?.formatRange(first, last) ?? "")
+        : (this.monthFormatter?.format(first) ?? "");
+    const showPresets = this.range && !!this.presets?.length;
 
     return html`
       <div class="ds-date-picker-calendar" part="container">
@@ -346,7 +476,7 @@ export class DsDatePickerCalendar extends DSElement {
             type="button"
             class="ds-date-picker-nav-button"
             part="prev-year"
-            aria-label="Previous year"
+            aria-label=${this.localize.t("calendar.previousYear")}
             @click=${() => this.navigateYear(-1)}
           >
             <slot name="prev-year-icon">«</slot>
@@ -355,17 +485,17 @@ export class DsDatePickerCalendar extends DSElement {
             type="button"
             class="ds-date-picker-nav-button"
             part="prev-month"
-            aria-label="Previous month"
+            aria-label=${this.localize.t("calendar.previousMonth")}
             @click=${() => this.navigateMonth(-1)}
           >
             <slot name="prev-month-icon">‹</slot>
           </button>
-          <span class="ds-date-picker-month-label" part="month-label">${monthLabel}</span>
+          <span class="ds-date-picker-month-label" part="month-label">${headerLabel}</span>
           <button
             type="button"
             class="ds-date-picker-nav-button"
             part="next-month"
-            aria-label="Next month"
+            aria-label=${this.localize.t("calendar.nextMonth")}
             @click=${() => this.navigateMonth(1)}
           >
             <slot name="next-month-icon">›</slot>
@@ -374,14 +504,66 @@ export class DsDatePickerCalendar extends DSElement {
             type="button"
             class="ds-date-picker-nav-button"
             part="next-year"
-            aria-label="Next year"
+            aria-label=${this.localize.t("calendar.nextYear")}
             @click=${() => this.navigateYear(1)}
           >
             <slot name="next-year-icon">»</slot>
           </button>
         </div>
 
-        <!-- Calendar grid -->
+        <div class="ds-date-picker-calendar-body" part="body">
+          ${
+            showPresets
+              ? html`
+                <div
+                  class="ds-date-picker-presets"
+                  part="presets"
+                  role="group"
+                  aria-label=${this.localize.t("calendar.presets")}
+                >
+                  ${this.presets?.map(
+                    (preset) => html`
+                      <button
+                        type="button"
+                        class="ds-date-picker-preset"
+                        part="preset"
+                        @click=${() => this.handlePresetClick(preset)}
+                      >
+                        ${preset.label}
+                      </button>
+                    `
+                  )}
+                </div>
+              `
+              : nothing
+          }
+          <div
+            class="ds-date-picker-months"
+            part="months"
+            @pointerleave=${() => {
+              this.hoveredDate = "";
+            }}
+          >
+            ${months.map((month) => this.renderMonth(month, months.length > 1))}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderMonth(month: Date, showCaption: boolean) {
+    const monthLabel = this.monthFormatter?.format(month) ?? "";
+    const weekdays = this.getWeekdayNames();
+
+    return html`
+      <div class="ds-date-picker-month" part="month">
+        ${
+          showCaption
+            ? html`<span class="ds-date-picker-month-caption" part="month-caption" aria-hidden="true"
+                >${monthLabel}</span
+              >`
+            : nothing
+        }
         <table class="ds-date-picker-grid" part="grid" role="grid" aria-label="${monthLabel}">
           <thead>
             <tr class="ds-date-picker-weekdays" part="weekdays">
@@ -395,14 +577,14 @@ export class DsDatePickerCalendar extends DSElement {
             </tr>
           </thead>
           <tbody>
-            ${this.renderWeeks(days)}
+            ${this.renderWeeks(this.getMonthDays(month), month, showCaption)}
           </tbody>
         </table>
       </div>
     `;
   }
 
-  private renderWeeks(days: Date[]) {
+  private renderWeeks(days: Date[], month: Date, hideOutsideDays: boolean) {
     const weeks: Date[][] = [];
     for (let i = 0; i < days.length; i += 7) {
       weeks.push(days.slice(i, i + 7));
@@ -411,20 +593,28 @@ export class DsDatePickerCalendar extends DSElement {
     return weeks.map(
       (week) => html`
         <tr class="ds-date-picker-week" part="week">
-          ${week.map((day) => this.renderDay(day))}
+          ${week.map((day) => this.renderDay(day, month, hideOutsideDays))}
         </tr>
       `
     );
   }
 
-  private renderDay(date: Date) {
+  private renderDay(date: Date, month: Date, hideOutsideDays: boolean) {
+    const isCurrentMonth = this.isDateInCurrentMonth(date, month);
+
+    // With several months, a date belongs to its own month's grid only
+    if (hideOutsideDays && !isCurrentMonth) {
+      return html`<td class="ds-date-picker-day" part="day" role="gridcell" data-outside></td>`;
+    }
+
     const isoDate = this.formatIso(date);
     const isDisabled = this.isDateDisabled(date);
     const isSelected = this.isDateSelected(date);
     const isInRange = this.isDateInRange(date);
+    const isInPreview = this.isDateInPreview(date);
     const isToday = this.isDateToday(date);
-    const isCurrentMonth = this.isDateInCurrentMonth(date);
     const isFocused = isoDate === this.focusedDate;
+    const reason = this.getUnavailableReason(date);
 
     return html`
       <td
@@ -436,13 +626,19 @@ export class DsDatePickerCalendar extends DSElement {
         data-date="${isoDate}"
         data-selected="${isSelected || nothing}"
         data-in-range="${isInRange || nothing}"
+        data-in-preview="${isInPreview || nothing}"
+        data-unavailable="${reason !== null || nothing}"
         data-today="${isToday || nothing}"
         data-current-month="${isCurrentMonth || nothing}"
         data-focused="${isFocused || nothing}"
         tabindex="${isFocused ? 0 : -1}"
         @click=${() => this.handleDateClick(date)}
+        @pointerenter=${() => {
+          if (this.isSelectingRangeEnd) this.hoveredDate = isoDate;
+        }}
       >
         <span class="ds-date-picker-day-number" part="day-number">${date.getDate()}</span>
+        ${reason ? html`<span class="ds-visually-hidden">${reason}</span>` : nothing}
       </td>
     `;
   }
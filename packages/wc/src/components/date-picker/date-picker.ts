@@ -1,6 +1,9 @@
 import {
   type AnchorPosition,
+  type DateRangePreset,
+  type DateUnavailablePredicate,
   type DismissableLayer,
+  type Messages,
   type Placement,
   type Presence,
   createAnchorPosition,
@@ -8,13 +11,16 @@ import {
   createPresence,
   prefersReducedMotion,
 } from "@hypoth-ui/primitives-dom";
-import { html } from "lit";
+import { type PropertyValues, html } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { FormAssociatedMixin, type ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
 // Import child components
+import type { DsDateField } from "../date-field/date-field.js";
 import type { DsDatePickerCalendar } from "./date-picker-calendar.js";
 import "./date-picker-calendar.js";
 import {
@@ -36,9 +42,20 @@ export type DatePickerMode = "single" | "range";
  * - Enter/Space to select date
  * - Escape to close
  *
+ * A `ds-date-field` trigger takes typed entry itself: Alt+ArrowDown, or a
+ * click outside its segments, opens the calendar.
+ *
+ * Availability, month count, stay length and presets are passed to the
+ * calendar when it opens.
+ *
+ * The picker is form-associated: it submits `value` under `name`, or in
+ * range mode both dates under `name-start` and `name-end` (defaulting to
+ * `<name>-start` and `<name>-end`). `required`, `min-date` and `max-date`
+ * set `valueMissing`, `rangeUnderflow` and `rangeOverflow`.
+ *
  * @element ds-date-picker
  *
- * @slot trigger - Trigger element (button or input)
+ * @slot trigger - Trigger element (button, input or ds-date-field)
  * @slot - Calendar content (ds-date-picker-calendar)
  *
  * @fires ds:open-change - Fired when open state changes (detail: { open, reason })
@@ -50,9 +67,20 @@ export type DatePickerMode = "single" | "range";
  *   <button slot="trigger">Select date</button>
  *   <ds-date-picker-calendar></ds-date-picker-calendar>
  * </ds-date-picker>
+ *
+ * <ds-date-picker locale="de-DE">
+ *   <ds-date-field slot="trigger"></ds-date-field>
+ *   <ds-date-picker-calendar></ds-date-picker-calendar>
+ * </ds-date-picker>
+ *
+ * <!-- Booking: two months, 2-14 nights -->
+ * <ds-date-picker mode="range" months="2" min-nights="2" max-nights="14">
+ *   <button slot="trigger">Select dates</button>
+ *   <ds-date-picker-calendar></ds-date-picker-calendar>
+ * </ds-date-picker>
  * ```
  */
-export class DsDatePicker extends DSElement {
+export class DsDatePicker extends FormAssociatedMixin(DSElement) {
   /** Whether the calendar is open */
   @property({ type: Boolean, reflect: true })
   open = false;
@@ -73,6 +101,14 @@ export class DsDatePicker extends DSElement {
   @property({ type: String, attribute: "range-end" })
   rangeEnd = "";
 
+  /** Form field name of the range start (defaults to `<name>-start`) */
+  @property({ type: String, attribute: "name-start" })
+  nameStart = "";
+
+  /** Form field name of the range end (defaults to `<name>-end`) */
+  @property({ type: String, attribute: "name-end" })
+  nameEnd = "";
+
   /** Minimum selectable date in ISO format */
   @property({ type: String, attribute: "min-date" })
   minDate = "";
@@ -85,6 +121,26 @@ export class DsDatePicker extends DSElement {
   @property({ type: String })
   locale = "en-US";
 
+  /** Number of months shown side by side */
+  @property({ type: Number })
+  months = 1;
+
+  /** Minimum nights between range start and end (0 for none) */
+  @property({ type: Number, attribute: "min-nights" })
+  minNights = 0;
+
+  /** Maximum nights between range start and end (0 for none) */
+  @property({ type: Number, attribute: "max-nights" })
+  maxNights = 0;
+
+  /** Marks dates unavailable; return a string to give the reason read by screen readers */
+  @property({ attribute: false })
+  isDateUnavailable?: DateUnavailablePredicate;
+
+  /** Range presets shown beside the calendar in range mode */
+  @property({ attribute: false })
+  presets?: DateRangePreset[];
+
   /** First day of week (0=Sunday, 1=Monday) */
   @property({ type: Number, attribute: "first-day-of-week" })
   firstDayOfWeek: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0;
@@ -117,6 +173,10 @@ export class DsDatePicker extends DSElement {
   @property({ type: Boolean, attribute: "typed-input" })
   typedInput = false;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
   /** Current text value of the input (for typed input mode) */
   @state()
   inputValue = "";
@@ -131,9 +191,12 @@ export class DsDatePicker extends DSElement {
   private resizeObserver: ResizeObserver | null = null;
   private scrollHandler: (() => void) | null = null;
   private isSelectingRange = false;
+  private localize = new LocalizeController(this);
+  private _defaultRange = { start: "", end: "" };
 
   override connectedCallback(): void {
     super.connectedCallback();
+    this._defaultRange = { start: this.rangeStart, end: this.rangeEnd };
 
     // Listen for trigger interactions
     this.addEventListener("click", this.handleTriggerClick);
@@ -141,6 +204,10 @@ export class DsDatePicker extends DSElement {
 
     // Listen for date selection from calendar
     this.addEventListener("ds:date-select", this.handleDateSelect);
+    this.addEventListener("ds:preset-select", this.handlePresetSelect);
+
+    // Listen for typed dates from a ds-date-field trigger
+    this.addEventListener("ds:change", this.handleFieldChange);
 
     // Listen for input events (typed input mode)
     this.addEventListener("input", this.handleTypedInput);
@@ -159,6 +226,8 @@ export class DsDatePicker extends DSElement {
     this.removeEventListener("click", this.handleTriggerClick);
     this.removeEventListener("keydown", this.handleTriggerKeyDown);
     this.removeEventListener("ds:date-select", this.handleDateSelect);
+    this.removeEventListener("ds:preset-select", this.handlePresetSelect);
+    this.removeEventListener("ds:change", this.handleFieldChange);
     this.removeEventListener("input", this.handleTypedInput);
     this.removeEventListener("blur", this.handleInputBlur, true);
     this.cleanup();
@@ -179,7 +248,9 @@ export class DsDatePicker extends DSElement {
    * Closes the calendar.
    * @param reason - The reason for closing (default: "programmatic")
    */
-  public close(reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"): void {
+  public close(
+    reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"
+  ): void {
     if (!this.open) return;
 
     // Emit cancelable open-change event before closing
@@ -270,11 +341,18 @@ export class DsDatePicker extends DSElement {
     return triggerSlot as HTMLElement | null;
   }
 
+  private getFieldTrigger(): DsDateField | null {
+    const trigger = this.getTriggerElement();
+    return trigger?.tagName === "DS-DATE-FIELD" ? (trigger as DsDateField) : null;
+  }
+
   private handleTriggerClick = (event: Event): void => {
     const target = event.target as HTMLElement;
     const trigger = target.closest('[slot="trigger"]');
 
     if (trigger && this.contains(trigger)) {
+      // Segments of a date field trigger take clicks for typed entry
+      if (trigger === this.getFieldTrigger() && target.closest('[role="spinbutton"]')) return;
       event.preventDefault();
       if (!this.disabled) {
         this.toggle();
@@ -289,6 +367,15 @@ export class DsDatePicker extends DSElement {
     if (!trigger || !this.contains(trigger)) return;
     if (this.disabled) return;
 
+    // Arrow keys and typing belong to the date field's segments
+    if (trigger === this.getFieldTrigger()) {
+      if (event.key === "ArrowDown" && event.altKey) {
+        event.preventDefault();
+        if (!this.open) this.show();
+      }
+      return;
+    }
+
     switch (event.key) {
       case "Enter":
       case " ":
@@ -334,6 +421,28 @@ export class DsDatePicker extends DSElement {
     }
   };
 
+  private handlePresetSelect = (event: Event): void => {
+    if (this.mode !== "range" || this.readonly) return;
+
+    const { start, end } = (event as CustomEvent<{ start: string; end: string }>).detail;
+    this.isSelectingRange = false;
+    this.setRange(start, end);
+    this.close();
+  };
+
+  private handleFieldChange = (event: Event): void => {
+    const field = this.getFieldTrigger();
+    if (!field || event.target !== field) return;
+
+    // Re-emit as the date picker's own change event
+    event.stopImmediatePropagation();
+    if (this.mode !== "single" || this.readonly) return;
+
+    const { value } = (event as CustomEvent<{ value: string }>).detail;
+    this.value = value;
+    emitEvent(this, StandardEvents.CHANGE, { detail: { date: value } });
+  };
+
   private handleDismiss = (): void => {
     this.close();
   };
@@ -355,7 +464,12 @@ export class DsDatePicker extends DSElement {
     const result = await parseTypedDate(target.value, this.locale);
     if (result.valid && result.date) {
       // Validate against min/max
-      const validation = await validateTypedDate(result.date, this.minDate, this.maxDate, this.locale);
+      const validation = await validateTypedDate(
+        result.date,
+        this.minDate,
+        this.maxDate,
+        this.locale
+      );
       if (validation.valid) {
         this.inputError = null;
       } else {
@@ -398,7 +512,12 @@ export class DsDatePicker extends DSElement {
     }
 
     // Validate against min/max
-    const validation = await validateTypedDate(result.date, this.minDate, this.maxDate, this.locale);
+    const validation = await validateTypedDate(
+      result.date,
+      this.minDate,
+      this.maxDate,
+      this.locale
+    );
     if (!validation.valid) {
       this.inputError = validation.error;
       return;
@@ -521,6 +640,11 @@ export class DsDatePicker extends DSElement {
           calendar.selectedDate = this.value;
           calendar.rangeStart = this.rangeStart;
           calendar.rangeEnd = this.rangeEnd;
+          calendar.months = this.months;
+          calendar.minNights = this.minNights;
+          calendar.maxNights = this.maxNights;
+          calendar.isDateUnavailable = this.isDateUnavailable;
+          calendar.presets = this.presets;
 
           // Set initial viewing month
           const initialDate =
@@ -546,6 +670,8 @@ export class DsDatePicker extends DSElement {
       }
     }
 
+    this.syncFieldTrigger(changedProperties);
+
     // Sync typed input value when value changes externally
     if (changedProperties.has("value") && this.typedInput) {
       // Only update inputValue if it wasn't set from typed input
@@ -582,6 +708,21 @@ export class DsDatePicker extends DSElement {
         if (changedProperties.has("maxDate")) {
           calendar.maxDate = this.maxDate;
         }
+        if (changedProperties.has("months")) {
+          calendar.months = this.months;
+        }
+        if (changedProperties.has("minNights")) {
+          calendar.minNights = this.minNights;
+        }
+        if (changedProperties.has("maxNights")) {
+          calendar.maxNights = this.maxNights;
+        }
+        if (changedProperties.has("isDateUnavailable")) {
+          calendar.isDateUnavailable = this.isDateUnavailable;
+        }
+        if (changedProperties.has("presets")) {
+          calendar.presets = this.presets;
+        }
       }
     }
 
@@ -592,6 +733,107 @@ export class DsDatePicker extends DSElement {
     }
   }
 
+  /** The ISO date, or `{ start, end }` in range mode */
+  get typedValue(): string | { start: string; end: string } {
+    return this.mode === "range" ? { start: this.rangeStart, end: this.rangeEnd } : this.value;
+  }
+
+  protected getFormValue(): FormData | string | null {
+    if (this.mode !== "range") return this.value || null;
+
+    const startName = this.nameStart || (this.name && `${this.name}-start`);
+    const endName = this.nameEnd || (this.name && `${this.name}-end`);
+    if (!startName && !endName) return null;
+
+    const data = new FormData();
+    if (startName && this.rangeStart) data.append(startName, this.rangeStart);
+    if (endName && this.rangeEnd) data.append(endName, this.rangeEnd);
+    return data;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.getTriggerElement() ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    const [start, end] =
+      this.mode === "range" ? [this.rangeStart, this.rangeEnd] : [this.value, this.value];
+    if (!start || !end) {
+      return this.required ? { valueMissing: true } : {};
+    }
+    // ISO dates compare in calendar order
+    return {
+      rangeUnderflow: Boolean(this.minDate) && start < this.minDate,
+      rangeOverflow: Boolean(this.maxDate) && end > this.maxDate,
+    };
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t(
+        this.mode === "range" ? "validation.dateRangeRequired" : "validation.dateRequired"
+      );
+    }
+    if (flags.rangeUnderflow) {
+      return this.localize.t("validation.dateUnderflow", { min: this.minDate });
+    }
+    if (flags.rangeOverflow) {
+      return this.localize.t("validation.dateOverflow", { max: this.maxDate });
+    }
+    return "";
+  }
+
+  protected shouldUpdateFormValue(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("mode") ||
+      changedProperties.has("rangeStart") ||
+      changedProperties.has("rangeEnd") ||
+      changedProperties.has("name") ||
+      changedProperties.has("nameStart") ||
+      changedProperties.has("nameEnd")
+    );
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("value") ||
+      changedProperties.has("mode") ||
+      changedProperties.has("rangeStart") ||
+      changedProperties.has("rangeEnd") ||
+      changedProperties.has("minDate") ||
+      changedProperties.has("maxDate")
+    );
+  }
+
+  protected onFormReset(): void {
+    this.rangeStart = this._defaultRange.start;
+    this.rangeEnd = this._defaultRange.end;
+    this.isSelectingRange = false;
+    this.inputError = null;
+  }
+
+  protected onFormStateRestore(state: string | File | FormData | null): void {
+    if (!(state instanceof FormData)) return;
+    const [start = "", end = ""] = [...state.values()].map(String);
+    this.rangeStart = start;
+    this.rangeEnd = end;
+  }
+
+  /**
+   * Pushes value, locale and constraints to a ds-date-field trigger.
+   */
+  private syncFieldTrigger(changedProperties: Map<string, unknown>): void {
+    const field = this.getFieldTrigger();
+    if (!field) return;
+
+    if (changedProperties.has("value")) field.value = this.value;
+    if (changedProperties.has("locale")) field.locale = this.locale;
+    if (changedProperties.has("minDate")) field.minDate = this.minDate;
+    if (changedProperties.has("maxDate")) field.maxDate = this.maxDate;
+    if (changedProperties.has("disabled")) field.disabled = this.disabled;
+    if (changedProperties.has("readonly")) field.readonly = this.readonly;
+  }
+
   override render() {
     return html`
       <slot name="trigger"></slot>
@@ -0,0 +1,546 @@
+/**
+ * DateTimePicker component for picking a timestamp in one control.
+ *
+ * Composes the date picker and time picker behaviors: a trigger opens a
+ * calendar for the day, and spinbutton segments edit the time. The value is
+ * an ISO 8601 date-time that submits with native forms.
+ *
+ * @element ds-date-time-picker
+ * @fires ds:change - Fired on value change with { value, date } (date is the instant as ISO 8601, or null)
+ * @fires ds:open-change - Fired when the calendar opens or closes (detail: { open, reason })
+ * @fires ds:invalid - Fired when customValidation is true and validation fails
+ *
+ * @example
+ * ```html
+ * <form>
+ *   <ds-date-time-picker name="starts-at" required minute-step="15"></ds-date-time-picker>
+ * </form>
+ *
+ * <!-- Wall-clock time in a zone, submitted with its offset -->
+ * <ds-date-time-picker
+ *   time-zone="Europe/Berlin"
+ *   include-offset
+ *   value="2026-03-14T09:30+01:00"
+ * ></ds-date-time-picker>
+ * ```
+ */
+
+import {
+  type AnchorPosition,
+  type DateTimePicker,
+  type DateUnavailablePredicate,
+  type DismissableLayer,
+  type Messages,
+  type TimeSegment,
+  createAnchorPosition,
+  createDateTimePicker,
+  createDismissableLayer,
+} from "@hypoth-ui/primitives-dom";
+import { html, nothing } from "lit";
+import type { PropertyValues } from "lit";
+import { property, state } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { FormAssociatedMixin } from "../../base/form-associated.js";
+import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
+import { StandardEvents, emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
+
+/** Properties that rebuild the picker when they change */
+const PICKER_OPTIONS = [
+  "minDate",
+  "maxDate",
+  "isDateUnavailable",
+  "firstDayOfWeek",
+  "hourFormat",
+  "showSeconds",
+  "minuteStep",
+  "secondStep",
+  "locale",
+  "timeZone",
+  "includeOffset",
+  "disabled",
+  "messages",
+];
+
+function parseIsoDate(value: string): Date | undefined {
+  const [year, month, day] = value.split("-").map(Number);
+  if (!year || !month || !day) return undefined;
+  return new Date(year, month - 1, day);
+}
+
+export class DsDateTimePicker extends FormAssociatedMixin(DSElement) {
+  /** ISO 8601 date-time (`YYYY-MM-DDTHH:mm`), with the UTC offset when `include-offset` is set */
+  @property({ type: String, reflect: true })
+  value = "";
+
+  /** Whether the calendar is open */
+  @property({ type: Boolean, reflect: true })
+  open = false;
+
+  /** Minimum selectable day in ISO format (YYYY-MM-DD) */
+  @property({ type: String, attribute: "min-date" })
+  minDate = "";
+
+  /** Maximum selectable day in ISO format (YYYY-MM-DD) */
+  @property({ type: String, attribute: "max-date" })
+  maxDate = "";
+
+  /** Marks days unavailable; return a string to give the reason read by screen readers */
+  @property({ attribute: false })
+  isDateUnavailable?: DateUnavailablePredicate;
+
+  /** First day of week (0=Sunday, 1=Monday) */
+  @property({ type: Number, attribute: "first-day-of-week" })
+  firstDayOfWeek: 0 | 1 | 2 | 3 | 4 | 5 | 6 = 0;
+
+  /** 12-hour or 24-hour format; defaults to the locale's hour cycle */
+  @property({ type: Number, reflect: true, attribute: "hour-format" })
+  hourFormat?: 12 | 24;
+
+  /** Show the seconds segment and include seconds in the value */
+  @property({ type: Boolean, reflect: true, attribute: "show-seconds" })
+  showSeconds = false;
+
+  /** Minute step; values are snapped down to it */
+  @property({ type: Number, attribute: "minute-step" })
+  minuteStep = 1;
+
+  /** Second step; values are snapped down to it */
+  @property({ type: Number, attribute: "second-step" })
+  secondStep = 1;
+
+  /** Locale for the calendar and time segments */
+  @property({ type: String })
+  locale = "en-US";
+
+  /** IANA time zone the value is expressed in; defaults to the browser's zone */
+  @property({ type: String, attribute: "time-zone" })
+  timeZone = "";
+
+  /** Append the time zone's UTC offset to the value (e.g. `+01:00`) */
+  @property({ type: Boolean, attribute: "include-offset" })
+  includeOffset = false;
+
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
+  @state()
+  private picker: DateTimePicker | null = null;
+
+  @state()
+  private focusedSegment: TimeSegment | null = null;
+
+  private dismissLayer: DismissableLayer | null = null;
+  private anchorPosition: AnchorPosition | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    // The picker is built on the next update
+    this.requestUpdate();
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.cleanup();
+    this.picker?.destroy();
+    this.picker = null;
+  }
+
+  /**
+   * The selected instant. Setting a Date shows its wall-clock time in the
+   * time zone without emitting `ds:change`.
+   */
+  get valueAsDate(): Date | null {
+    return this.picker?.toDate() ?? null;
+  }
+
+  set valueAsDate(date: Date | null) {
+    this.picker?.setValue(date);
+    this.value = this.picker?.state.value ?? "";
+  }
+
+  /**
+   * Opens the calendar.
+   */
+  public show(): void {
+    if (this.open || this.disabled) return;
+    this.picker?.datePicker.open();
+  }
+
+  /**
+   * Closes the calendar.
+   */
+  public close(): void {
+    this.picker?.datePicker.close();
+  }
+
+  /**
+   * Clears the day; the time segments keep their value.
+   */
+  public clear(): void {
+    this.picker?.clear();
+  }
+
+  private initPicker(): void {
+    this.cleanup();
+    this.picker?.destroy();
+    this.open = false;
+
+    this.picker = createDateTimePicker({
+      defaultValue: this.value || null,
+      minDate: parseIsoDate(this.minDate),
+      maxDate: parseIsoDate(this.maxDate),
+      isDateUnavailable: this.isDateUnavailable,
+      firstDayOfWeek: this.firstDayOfWeek,
+      hourFormat: this.hourFormat,
+      showSeconds: this.showSeconds,
+      minuteStep: this.minuteStep,
+      secondStep: this.secondStep,
+      locale: this.locale,
+      timeZone: this.timeZone || undefined,
+      includeOffset: this.includeOffset,
+      disabled: this.disabled,
+      messages: this.messages,
+      onValueChange: (value, date) => {
+        this.value = value;
+        emitEvent(this, StandardEvents.CHANGE, {
+          detail: { value, date: date?.toISOString() ?? null },
+        });
+      },
+      onOpenChange: (open) => {
+        this.open = open;
+        emitEvent(this, StandardEvents.OPEN_CHANGE, {
+          detail: { open, reason: open ? "trigger" : "programmatic" },
+        });
+      },
+    });
+
+    // Normalize the value (step snapping, offset) without emitting
+    this.value = this.picker.state.value;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    const optionsChanged = PICKER_OPTIONS.some((name) => changedProperties.has(name));
+    const valueChangedExternally =
+      changedProperties.has("value") && this.value !== (this.picker?.state.value ?? "");
+
+    if (!this.picker || optionsChanged || valueChangedExternally) {
+      this.initPicker();
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has("open")) {
+      if (this.open) {
+        this.setupPositioning();
+        this.setupDismissLayer();
+        this.focusCalendarDay();
+      } else if (changedProperties.get("open") === true) {
+        this.cleanup();
+        this.getTrigger()?.focus();
+      }
+    }
+  }
+
+  protected getFormValue(): FormData | string | null {
+    return this.value || null;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.getTrigger() ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    if (this.required && !this.value) {
+      return { valueMissing: true };
+    }
+    return {};
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t("validation.dateTimeRequired");
+    }
+    return "";
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return changedProperties.has("value");
+  }
+
+  protected onFormReset(): void {
+    this.initPicker();
+  }
+
+  private getTrigger(): HTMLButtonElement | null {
+    return this.querySelector(".ds-date-time-picker__trigger");
+  }
+
+  private getCalendar(): HTMLElement | null {
+    return this.querySelector(".ds-date-time-picker__content");
+  }
+
+  private setupPositioning(): void {
+    const calendar = this.getCalendar();
+    const trigger = this.getTrigger();
+    if (!calendar || !trigger || this.anchorPosition) return;
+
+    this.anchorPosition = createAnchorPosition({
+      anchor: trigger,
+      floating: calendar,
+      placement: "bottom-start",
+      offset: 4,
+      flip: true,
+      shift: true,
+      autoUpdate: true,
+      onPositionChange: (pos) => {
+        calendar.setAttribute("data-placement", pos.placement);
+      },
+    });
+  }
+
+  private setupDismissLayer(): void {
+    const calendar = this.getCalendar();
+    const trigger = this.getTrigger();
+    if (!calendar || this.dismissLayer) return;
+
+    this.dismissLayer = createDismissableLayer({
+      container: calendar,
+      excludeElements: trigger ? [trigger] : [],
+      onDismiss: () => this.close(),
+      closeOnEscape: true,
+      closeOnOutsideClick: true,
+    });
+    this.dismissLayer.activate();
+  }
+
+  private cleanup(): void {
+    this.anchorPosition?.destroy();
+    this.anchorPosition = null;
+
+    this.dismissLayer?.deactivate();
+    this.dismissLayer = null;
+  }
+
+  private focusCalendarDay(): void {
+    this.querySelector<HTMLElement>('.ds-date-time-picker__content [tabindex="0"]')?.focus();
+  }
+
+  private handleTriggerClick(): void {
+    if (this.disabled) return;
+    this.picker?.datePicker.toggle();
+    this.requestUpdate();
+  }
+
+  private handleTriggerKeyDown(event: KeyboardEvent): void {
+    if (event.key === "ArrowDown" && !this.open) {
+      event.preventDefault();
+      this.show();
+    }
+  }
+
+  private handleCalendarKeyDown(event: KeyboardEvent): void {
+    if (!this.picker?.handleCalendarKeyDown(event)) return;
+    this.requestUpdate();
+    this.updateComplete.then(() => {
+      if (this.open) this.focusCalendarDay();
+    });
+  }
+
+  private handleDayClick(date: Date): void {
+    this.picker?.datePicker.selectDate(date);
+    this.requestUpdate();
+  }
+
+  private handleNavigate(step: -1 | 1): void {
+    const datePicker = this.picker?.datePicker;
+    if (!datePicker) return;
+    if (step < 0) {
+      datePicker.previousMonth();
+    } else {
+      datePicker.nextMonth();
+    }
+    this.requestUpdate();
+  }
+
+  private handleSegmentKeyDown(segment: TimeSegment, event: KeyboardEvent): void {
+    this.picker?.timePicker.handleSegmentKeyDown(segment, event);
+    this.requestUpdate();
+  }
+
+  private renderSegment(segment: TimeSegment) {
+    const timePicker = this.picker?.timePicker;
+    if (!timePicker) return nothing;
+
+    const props = timePicker.getSegmentProps(segment);
+
+    return html`
+      <span
+        class="ds-time-picker-segment"
+        role=${props.role}
+        tabindex=${props.tabIndex}
+        aria-valuemin=${props["aria-valuemin"]}
+        aria-valuemax=${props["aria-valuemax"]}
+        aria-valuenow=${props["aria-valuenow"]}
+        aria-valuetext=${props["aria-valuetext"]}
+        aria-label=${props["aria-label"]}
+        aria-disabled=${props["aria-disabled"] ?? nothing}
+        data-segment=${segment}
+        data-focused=${this.focusedSegment === segment || nothing}
+        @focus=${() => {
+          this.focusedSegment = segment;
+          timePicker.focusSegment(segment);
+        }}
+        @blur=${() => {
+          this.focusedSegment = null;
+          timePicker.blur();
+        }}
+        @keydown=${(e: KeyboardEvent) => this.handleSegmentKeyDown(segment, e)}
+      >
+        ${timePicker.getSegmentDisplayValue(segment)}
+      </span>
+    `;
+  }
+
+  private renderCalendar(picker: DateTimePicker) {
+    const { datePicker } = picker;
+    const days = datePicker.getMonthDays();
+    const weeks: Date[][] = [];
+    for (let i = 0; i < days.length; i += 7) {
+      weeks.push(days.slice(i, i + 7));
+    }
+    const viewingMonth = datePicker.state.viewingMonth.getMonth();
+    const gridLabel = datePicker.getGridProps()["aria-label"];
+
+    return html`
+      <div
+        id="${datePicker.gridId}-dialog"
+        class="ds-date-picker-content ds-date-time-picker__content"
+        role="dialog"
+        aria-label=${this.localize.t("datePicker.dialogLabel")}
+      >
+        <div class="ds-calendar__header">
+          <button
+            type="button"
+            class="ds-calendar__nav-button"
+            aria-label=${this.localize.t("calendar.previousMonth")}
+            @click=${() => this.handleNavigate(-1)}
+          >
+            ‹
+          </button>
+          <span class="ds-calendar__title" aria-live="polite">${gridLabel}</span>
+          <button
+            type="button"
+            class="ds-calendar__nav-button"
+            aria-label=${this.localize.t("calendar.nextMonth")}
+            @click=${() => this.handleNavigate(1)}
+          >
+            ›
+          </button>
+        </div>
+        <div
+          id=${datePicker.gridId}
+          class="ds-calendar__grid"
+          role="grid"
+          aria-label=${gridLabel}
+          @keydown=${this.handleCalendarKeyDown}
+        >
+          <div class="ds-date-time-picker__week" role="row">
+            ${datePicker
+              .getWeekdayNames()
+              .map(
+                (day) => html`<span class="ds-calendar__weekday" role="columnheader">${day}</span>`
+              )}
+          </div>
+          ${weeks.map(
+            (week) => html`
+              <div class="ds-date-time-picker__week" role="row">
+                ${week.map((date) => {
+                  const props = datePicker.getCellProps(date);
+                  const reason = datePicker.getUnavailableReason(date);
+                  return html`
+                    <span
+                      class="ds-calendar-cell"
+                      role=${props.role}
+                      tabindex=${props.tabIndex}
+                      aria-selected=${props["aria-selected"]}
+                      aria-disabled=${props["aria-disabled"] ?? nothing}
+                      data-selected=${props["aria-selected"] || nothing}
+                      data-disabled=${props["aria-disabled"] || nothing}
+                      data-outside-month=${date.getMonth() !== viewingMonth || nothing}
+                      @click=${() => this.handleDayClick(date)}
+                    >
+                      ${date.getDate()}
+                      ${reason ? html`<span class="ds-visually-hidden">${reason}</span>` : nothing}
+                    </span>
+                  `;
+                })}
+              </div>
+            `
+          )}
+        </div>
+      </div>
+    `;
+  }
+
+  override render() {
+    const picker = this.picker;
+    if (!picker) return nothing;
+
+    const { date } = picker.state;
+
+    return html`
+      <div
+        class="ds-date-time-picker"
+        role="group"
+        aria-label=${this.localize.t("dateTimePicker.label")}
+        data-disabled=${this.disabled || nothing}
+      >
+        <button
+          type="button"
+          class="ds-date-picker-trigger ds-date-time-picker__trigger"
+          aria-haspopup="dialog"
+          aria-expanded=${this.open ? "true" : "false"}
+          aria-controls="${picker.datePicker.gridId}-dialog"
+          ?disabled=${this.disabled}
+          data-placeholder=${!date || nothing}
+          @click=${this.handleTriggerClick}
+          @keydown=${this.handleTriggerKeyDown}
+        >
+          ${date ? picker.datePicker.formatDate(date) : this.localize.t("dateTimePicker.placeholder")}
+        </button>
+        <div
+          class="ds-time-picker ds-date-time-picker__time"
+          role="group"
+          aria-label=${this.localize.t("timePicker.label")}
+          data-disabled=${this.disabled || nothing}
+        >
+          ${picker.timePicker
+            .getParts()
+            .map((part) =>
+              part.type === "literal"
+                ? html`<span class="ds-time-picker__separator" aria-hidden="true">${part.value}</span>`
+                : this.renderSegment(part.type)
+            )}
+        </div>
+        ${this.open ? this.renderCalendar(picker) : nothing}
+      </div>
+    `;
+  }
+}
+
+define("ds-date-time-picker", DsDateTimePicker);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-date-time-picker": DsDateTimePicker;
+  }
+}
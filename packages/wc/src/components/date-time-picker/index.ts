@@ -0,0 +1 @@
+export { DsDateTimePicker } from "./date-time-picker.js";
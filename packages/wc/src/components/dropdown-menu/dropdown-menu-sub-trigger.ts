@@ -0,0 +1,47 @@
+/**
+ * DropdownMenuSubTrigger component - menu item that opens a submenu.
+ *
+ * @element ds-dropdown-menu-sub-trigger
+ *
+ * @slot - Item content
+ */
+
+import { html } from "lit";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+
+export class DsDropdownMenuSubTrigger extends DSElement {
+  /** Disabled state */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Set ARIA role; the parent submenu sets aria-haspopup/expanded/controls
+    this.setAttribute("role", "menuitem");
+    this.setAttribute("tabindex", "-1");
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    if (changedProperties.has("disabled")) {
+      this.setAttribute("aria-disabled", String(this.disabled));
+    }
+  }
+
+  override render() {
+    return html`
+      <slot></slot>
+      <span class="ds-dropdown-menu-sub-trigger__indicator" aria-hidden="true">›</span>
+    `;
+  }
+}
+
+define("ds-dropdown-menu-sub-trigger", DsDropdownMenuSubTrigger);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-dropdown-menu-sub-trigger": DsDropdownMenuSubTrigger;
+  }
+}
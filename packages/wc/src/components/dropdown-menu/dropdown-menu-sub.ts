@@ -0,0 +1,45 @@
+import { SubmenuElement } from "../../base/submenu-element.js";
+import { define } from "../../registry/define.js";
+import "./dropdown-menu-sub-content.js";
+import "./dropdown-menu-sub-trigger.js";
+
+/**
+ * DropdownMenuSub component - nested submenu opened from a sub-trigger item.
+ *
+ * Opens with ArrowRight, Enter, Space, click or hover, and closes with
+ * ArrowLeft or Escape, returning focus to the sub-trigger; the arrow keys swap
+ * in RTL. The pointer can cross other items on its way into the submenu
+ * without closing it.
+ *
+ * @element ds-dropdown-menu-sub
+ *
+ * @slot - Sub-trigger (ds-dropdown-menu-sub-trigger) and sub-content (ds-dropdown-menu-sub-content)
+ *
+ * @fires ds:open-change - Fired when the submenu opens or closes (detail: { open }), doesn't bubble
+ *
+ * @example
+ * ```html
+ * <ds-dropdown-menu-sub>
+ *   <ds-dropdown-menu-sub-trigger>Share</ds-dropdown-menu-sub-trigger>
+ *   <ds-dropdown-menu-sub-content>
+ *     <ds-dropdown-menu-item value="email">Email</ds-dropdown-menu-item>
+ *     <ds-dropdown-menu-item value="link">Copy link</ds-dropdown-menu-item>
+ *   </ds-dropdown-menu-sub-content>
+ * </ds-dropdown-menu-sub>
+ * ```
+ */
+export class DsDropdownMenuSub extends SubmenuElement {
+  protected readonly tagNames = {
+    sub: "ds-dropdown-menu-sub",
+    trigger: "ds-dropdown-menu-sub-trigger",
+    content: "ds-dropdown-menu-sub-content",
+  };
+}
+
+define("ds-dropdown-menu-sub", DsDropdownMenuSub);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-dropdown-menu-sub": DsDropdownMenuSub;
+  }
+}
@@ -19,6 +19,12 @@
  *     <ds-dropdown-menu-label>Actions</ds-dropdown-menu-label>
  *     <ds-dropdown-menu-item value="edit">Edit</ds-dropdown-menu-item>
  *     <ds-dropdown-menu-item value="copy">Copy</ds-dropdown-menu-item>
+ *     <ds-dropdown-menu-sub>
+ *       <ds-dropdown-menu-sub-trigger>Share</ds-dropdown-menu-sub-trigger>
+ *       <ds-dropdown-menu-sub-content>
+ *         <ds-dropdown-menu-item value="email">Email</ds-dropdown-menu-item>
+ *       </ds-dropdown-menu-sub-content>
+ *     </ds-dropdown-menu-sub>
  *     <ds-dropdown-menu-separator></ds-dropdown-menu-separator>
  *     <ds-dropdown-menu-item value="delete" variant="destructive">Delete</ds-dropdown-menu-item>
  *   </ds-dropdown-menu-content>
@@ -49,6 +55,8 @@ import "./dropdown-menu-label.js";
 import "./dropdown-menu-checkbox-item.js";
 import "./dropdown-menu-radio-group.js";
 import "./dropdown-menu-radio-item.js";
+import type { DsDropdownMenuSub } from "./dropdown-menu-sub.js";
+import "./dropdown-menu-sub.js";
 
 export class DsDropdownMenu extends DSElement {
   /** Whether the menu is open */
@@ -180,7 +188,9 @@ export class DsDropdownMenu extends DSElement {
    * Closes the menu.
    * @param reason - The reason for closing (default: "programmatic")
    */
-  public close(reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"): void {
+  public close(
+    reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"
+  ): void {
     if (!this.open) return;
 
     // Emit cancelable open-change event before closing
@@ -300,10 +310,12 @@ export class DsDropdownMenu extends DSElement {
     if (!content || !this.menuBehavior) return;
 
     const items = content.querySelectorAll<HTMLElement>(
-      "ds-dropdown-menu-item:not([disabled]), ds-dropdown-menu-checkbox-item:not([disabled]), ds-dropdown-menu-radio-item:not([disabled])"
+      "ds-dropdown-menu-item:not([disabled]), ds-dropdown-menu-checkbox-item:not([disabled]), ds-dropdown-menu-radio-item:not([disabled]), ds-dropdown-menu-sub-trigger:not([disabled])"
     );
 
     items.forEach((item) => {
+      // Items of submenus belong to their submenu
+      if (item.closest('[role="menu"]') !== content) return;
       this.menuBehavior?.registerItem(item);
     });
   }
@@ -340,6 +352,11 @@ export class DsDropdownMenu extends DSElement {
         // Set content element (activates positioning, dismiss layer, roving focus, type-ahead)
         this.menuBehavior?.setContentElement(content);
       } else {
+        // Submenus close with the menu
+        for (const sub of this.querySelectorAll<DsDropdownMenuSub>("ds-dropdown-menu-sub[open]")) {
+          sub.open = false;
+        }
+
         content?.setAttribute("hidden", "");
 
         // Clear content element
@@ -10,3 +10,6 @@ export { DsDropdownMenuLabel } from "./dropdown-menu-label.js";
 export { DsDropdownMenuCheckboxItem } from "./dropdown-menu-checkbox-item.js";
 export { DsDropdownMenuRadioGroup } from "./dropdown-menu-radio-group.js";
 export { DsDropdownMenuRadioItem } from "./dropdown-menu-radio-item.js";
+export { DsDropdownMenuSub } from "./dropdown-menu-sub.js";
+export { DsDropdownMenuSubTrigger } from "./dropdown-menu-sub-trigger.js";
+export { DsDropdownMenuSubContent } from "./dropdown-menu-sub-content.js";
@@ -1,4 +1,5 @@
 import { html } from "lit";
+import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
 import { define } from "../../registry/define.js";
 
@@ -8,6 +9,8 @@ import { define } from "../../registry/define.js";
  * Used within ds-field to display validation error messages that are
  * automatically associated with the form control via aria-describedby.
  * Error messages take precedence over descriptions in the ARIA description.
+ * Inside a ds-form, leave it empty: the form sets `message` to the field's
+ * validation error.
  *
  * @element ds-field-error
  *
@@ -23,6 +26,10 @@ import { define } from "../../registry/define.js";
  * ```
  */
 export class DsFieldError extends DSElement {
+  /** Error message shown after the slotted content, e.g. set by ds-form */
+  @property({ type: String })
+  message = "";
+
   override render() {
     return html`
       <div
@@ -31,7 +38,7 @@ export class DsFieldError extends DSElement {
         role="alert"
         aria-live="polite"
       >
-        <slot></slot>
+        <slot></slot>${this.message}
       </div>
     `;
   }
@@ -63,9 +63,10 @@ export class DsField extends DSElement {
     // Generate unique ID for this field instance
     this.fieldId = `field-${crypto.randomUUID().slice(0, 8)}`;
 
-    // Set up mutation observer to track child changes
+    // Set up mutation observer to track child changes, including error text
+    // that changes in place (e.g. ds-field-error's message)
     this.observer = new MutationObserver(() => this.updateChildComponents());
-    this.observer.observe(this, { childList: true, subtree: true });
+    this.observer.observe(this, { childList: true, subtree: true, characterData: true });
 
     // Initial setup after first render
     this.updateComplete.then(() => {
@@ -88,7 +89,7 @@ export class DsField extends DSElement {
     const description = this.querySelector("ds-field-description");
     const error = this.querySelector("ds-field-error");
     const formControl = this.querySelector(
-      "ds-input, ds-textarea, ds-checkbox, ds-radio-group, ds-switch, ds-select, ds-combobox, ds-date-picker, ds-slider, ds-number-input, ds-file-upload, ds-time-picker, ds-pin-input, input, textarea, select"
+      "ds-input, ds-textarea, ds-checkbox, ds-radio-group, ds-switch, ds-select, ds-combobox, ds-date-picker, ds-date-field, ds-date-time-picker, ds-slider, ds-number-input, ds-file-upload, ds-time-picker, ds-pin-input, input, textarea, select"
     );
 
     // Track which components are present
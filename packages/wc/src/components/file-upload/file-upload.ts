@@ -1,9 +1,22 @@
 /**
  * FileUpload component for file selection with drag-and-drop support.
  *
+ * Set `endpoint` (or a custom `transport`) to upload files as they are
+ * added. Each file then shows its progress with cancel and retry controls;
+ * failed attempts are retried with exponential backoff. `resumable` switches
+ * to chunked tus uploads that continue where they stopped; with
+ * `urlStorage` they also continue after a page reload. Changing options
+ * never interrupts running uploads.
+ *
+ * The component is form-associated and submits the selected files under
+ * `name`, like `<input type="file">`. `required` sets `valueMissing`, and a
+ * file that no longer matches `accept` sets `typeMismatch`.
+ *
  * @element ds-file-upload
  * @fires ds:change - Fired when files change with { files }
  * @fires ds:error - Fired on validation error
+ * @fires ds:upload-success - Fired when a file is uploaded with { file, response }
+ * @fires ds:upload-error - Fired when a file fails after its retries with { file, error }
  *
  * @slot - Custom dropzone content
  * @slot file-list - Custom file list rendering
@@ -16,6 +29,9 @@
  * <!-- Multiple files -->
  * <ds-file-upload multiple max-files="5"></ds-file-upload>
  *
+ * <!-- Upload to a server, resuming in 2 MiB chunks -->
+ * <ds-file-upload multiple endpoint="/files/" resumable chunk-size="2097152"></ds-file-upload>
+ *
  * <!-- Custom content -->
  * <ds-file-upload>
  *   <span slot="dropzone">Drop your files here</span>
@@ -26,16 +42,24 @@
 import {
   type FileInfo,
   type FileUploadBehavior,
+  type FileUploadBehaviorSettings,
+  type Messages,
+  type UploadTransport,
+  type UploadUrlStorage,
   createFileUploadBehavior,
+  createHttpTransport,
+  createTusTransport,
   formatBytes,
 } from "@hypoth-ui/primitives-dom";
-import { html, nothing } from "lit";
+import { type PropertyValues, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { FormAssociatedMixin, type ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
-export class DsFileUpload extends DSElement {
+export class DsFileUpload extends FormAssociatedMixin(DSElement) {
   /** Accepted file types (MIME types or extensions) */
   @property({ type: String, reflect: true })
   accept = "";
@@ -68,10 +92,52 @@ export class DsFileUpload extends DSElement {
   @property({ type: Boolean, attribute: "show-remove" })
   showRemove = true;
 
+  /** Upload URL for the built-in transport; files are only uploaded with an endpoint or transport */
+  @property({ type: String })
+  endpoint = "";
+
+  /** Upload in resumable chunks with the tus protocol instead of one request per file */
+  @property({ type: Boolean })
+  resumable = false;
+
+  /** Bytes per chunk for resumable uploads */
+  @property({ type: Number, attribute: "chunk-size" })
+  chunkSize = 5 * 1024 * 1024;
+
+  /** Keeps resumable upload URLs, e.g. `localStorage`, so uploads resume after a reload */
+  @property({ attribute: false })
+  urlStorage?: UploadUrlStorage;
+
+  /** Custom upload transport; takes precedence over `endpoint` */
+  @property({ attribute: false })
+  transport?: UploadTransport;
+
+  /** Start uploading as soon as files are added */
+  @property({ type: Boolean, attribute: "auto-upload" })
+  autoUpload = true;
+
+  /** Maximum simultaneous uploads */
+  @property({ type: Number })
+  concurrency = 3;
+
+  /** Automatic retries after a failed upload attempt */
+  @property({ type: Number })
+  retries = 3;
+
+  /** Delay in ms before the first retry, doubled for each retry */
+  @property({ type: Number, attribute: "retry-delay" })
+  retryDelay = 1000;
+
   /** ARIA label */
   @property({ type: String, attribute: "aria-label" })
   override ariaLabel: string | null = null;
 
+  /** Overrides for built-in strings and validation messages */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private behavior: FileUploadBehavior | null = null;
 
@@ -84,6 +150,9 @@ export class DsFileUpload extends DSElement {
   @state()
   private announcement = "";
 
+  /** Transport resolved on update, kept while the element is moved */
+  private uploadTransport: UploadTransport | undefined;
+
   private inputRef: HTMLInputElement | null = null;
   private announcementTimeout: number | null = null;
 
@@ -116,8 +185,20 @@ export class DsFileUpload extends DSElement {
     }, 1000);
   }
 
-  override updated(changedProperties: Map<string, unknown>): void {
-    super.updated(changedProperties);
+  override willUpdate(changedProperties: Map<string, unknown>): void {
+    super.willUpdate(changedProperties);
+
+    // Options change in place, so running uploads continue
+    if (
+      changedProperties.has("endpoint") ||
+      changedProperties.has("resumable") ||
+      changedProperties.has("chunkSize") ||
+      changedProperties.has("urlStorage") ||
+      changedProperties.has("transport")
+    ) {
+      this.uploadTransport = this.resolveTransport();
+      this.behavior?.setOptions({ transport: this.uploadTransport });
+    }
 
     if (
       changedProperties.has("accept") ||
@@ -125,24 +206,130 @@ export class DsFileUpload extends DSElement {
       changedProperties.has("maxSize") ||
       changedProperties.has("minSize") ||
       changedProperties.has("multiple") ||
-      changedProperties.has("disabled")
+      changedProperties.has("disabled") ||
+      changedProperties.has("messages") ||
+      changedProperties.has("autoUpload") ||
+      changedProperties.has("concurrency") ||
+      changedProperties.has("retries") ||
+      changedProperties.has("retryDelay")
     ) {
-      this.initBehavior();
+      this.behavior?.setOptions(this.getBehaviorSettings());
     }
   }
 
-  private initBehavior(): void {
-    // Preserve existing files
-    const existingFiles = this.files;
-    this.behavior?.destroy();
+  /** The selected files */
+  get typedValue(): File[] {
+    return this.files.map(({ file }) => file);
+  }
 
-    this.behavior = createFileUploadBehavior({
+  protected getFormValue(): FormData | string | null {
+    if (!this.name || this.files.length === 0) return null;
+    const data = new FormData();
+    for (const { file } of this.files) {
+      data.append(this.name, file, file.name);
+    }
+    return data;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.querySelector<HTMLElement>(".ds-file-upload__dropzone") ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    if (this.files.length === 0) {
+      return this.required ? { valueMissing: true } : {};
+    }
+    return { typeMismatch: this.getMismatchedFile() !== undefined };
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t("validation.fileRequired");
+    }
+    if (flags.typeMismatch) {
+      return this.localize.t("validation.fileType", { name: this.getMismatchedFile()?.name ?? "" });
+    }
+    return "";
+  }
+
+  protected shouldUpdateFormValue(changedProperties: PropertyValues): boolean {
+    return changedProperties.has("files") || changedProperties.has("name");
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("files") ||
+      changedProperties.has("behavior") ||
+      changedProperties.has("accept")
+    );
+  }
+
+  protected onFormReset(): void {
+    this.behavior?.clearFiles();
+  }
+
+  protected onFormStateRestore(state: string | File | FormData | null): void {
+    if (!(state instanceof FormData)) return;
+    const files = [...state.values()].filter((entry): entry is File => entry instanceof File);
+    if (files.length > 0) this.behavior?.addFiles(files);
+  }
+
+  /** First selected file that `accept` rejects, e.g. after `accept` changed */
+  private getMismatchedFile(): File | undefined {
+    return this.files.find(({ file }) => this.behavior?.validateFile(file)?.type === "invalid-type")
+      ?.file;
+  }
+
+  private resolveTransport(): UploadTransport | undefined {
+    if (this.transport) return this.transport;
+    if (!this.endpoint) return undefined;
+    return this.resumable
+      ? createTusTransport({
+          endpoint: this.endpoint,
+          chunkSize: this.chunkSize,
+          storage: this.urlStorage,
+        })
+      : createHttpTransport({ url: this.endpoint });
+  }
+
+  private getBehaviorSettings(): FileUploadBehaviorSettings {
+    return {
       accept: this.accept,
       maxFiles: this.maxFiles,
       maxSize: this.maxSize,
       minSize: this.minSize,
       multiple: this.multiple,
       disabled: this.disabled,
+      messages: this.messages,
+      autoUpload: this.autoUpload,
+      concurrency: this.concurrency,
+      retries: this.retries,
+      retryDelay: this.retryDelay,
+    };
+  }
+
+  private initBehavior(): void {
+    // Carry files over when the element is moved; the old behavior's
+    // destroy() revoked their preview URLs
+    const existingFiles = this.files.map((file) =>
+      file.preview ? { ...file, preview: URL.createObjectURL(file.file) } : file
+    );
+
+    this.behavior = createFileUploadBehavior({
+      ...this.getBehaviorSettings(),
+      transport: this.uploadTransport,
+      files: existingFiles,
+      onFileUpdate: () => {
+        this.files = this.behavior?.state.files ?? [];
+      },
+      onUploadSuccess: (file, response) => {
+        this.announce(this.localize.t("fileUpload.uploadComplete", { name: file.name }));
+        emitEvent(this, "upload-success", { detail: { file, response } });
+      },
+      onUploadError: (file, error) => {
+        this.announce(`${file.name}: ${this.localize.t("fileUpload.uploadFailed")}`);
+        emitEvent(this, "upload-error", { detail: { file, error } });
+      },
       onFilesChange: (files) => {
         const previousCount = this.files.length;
         const newCount = files.length;
@@ -153,7 +340,7 @@ export class DsFileUpload extends DSElement {
           const added = newCount - previousCount;
           const lastFile = files[files.length - 1];
           this.announce(
-            added === 1 && lastFile ? `${lastFile.name} added` : `${added} files added`
+            this.localize.t("fileUpload.filesAdded", { count: added, name: lastFile?.name ?? "" })
           );
         }
 
@@ -164,10 +351,8 @@ export class DsFileUpload extends DSElement {
       },
     });
 
-    // Restore files if re-initializing
-    if (existingFiles.length > 0) {
-      // Files are managed by behavior, need to re-add them
-    }
+    // The new behavior restarts interrupted uploads
+    this.files = this.behavior.state.files;
   }
 
   /** Public method to get current files */
@@ -185,6 +370,21 @@ export class DsFileUpload extends DSElement {
     this.behavior?.removeFile(id);
   }
 
+  /** Public method to upload pending files (when `auto-upload` is off), or one file */
+  upload(id?: string): void {
+    this.behavior?.upload(id);
+  }
+
+  /** Public method to cancel a file's upload */
+  cancelUpload(id: string): void {
+    this.behavior?.cancelUpload(id);
+  }
+
+  /** Public method to upload a failed or canceled file again */
+  retryUpload(id: string): void {
+    this.behavior?.retryUpload(id);
+  }
+
   private handleClick(): void {
     if (this.disabled) return;
     this.inputRef?.click();
@@ -227,7 +427,7 @@ export class DsFileUpload extends DSElement {
   private handleRemoveFile(id: string): void {
     const file = this.files.find((f) => f.id === id);
     if (file) {
-      this.announce(`${file.name} removed`);
+      this.announce(this.localize.t("fileUpload.fileRemoved", { name: file.name }));
     }
     this.behavior?.removeFile(id);
   }
@@ -262,18 +462,28 @@ export class DsFileUpload extends DSElement {
                 class="ds-file-upload__progress"
                 value=${file.progress}
                 max="100"
+                aria-label=${this.localize.t("fileUpload.uploadProgress", { name: file.name })}
               ></progress>`
               : nothing
           }
+          ${
+            file.status === "canceled"
+              ? html`<span class="ds-file-upload__file-error">
+                  ${this.localize.t("fileUpload.uploadCanceled")}
+                </span>`
+              : nothing
+          }
         </div>
 
+        ${this.renderUploadAction(file)}
+
         ${
           this.showRemove && !this.disabled
             ? html`
               <button
                 type="button"
                 class="ds-file-upload__remove"
-                aria-label="Remove ${file.name}"
+                aria-label=${this.localize.t("fileUpload.removeFile", { name: file.name })}
                 @click=${() => this.handleRemoveFile(file.id)}
               >
                 ×
@@ -285,6 +495,38 @@ export class DsFileUpload extends DSElement {
     `;
   }
 
+  private renderUploadAction(file: FileInfo) {
+    if (!this.transport && !this.endpoint) return nothing;
+
+    if (file.status === "uploading") {
+      return html`
+        <button
+          type="button"
+          class="ds-file-upload__cancel"
+          aria-label=${this.localize.t("fileUpload.cancelUpload", { name: file.name })}
+          @click=${() => this.cancelUpload(file.id)}
+        >
+          ${this.localize.t("fileUpload.cancel")}
+        </button>
+      `;
+    }
+
+    if (file.status === "error" || file.status === "canceled") {
+      return html`
+        <button
+          type="button"
+          class="ds-file-upload__retry"
+          aria-label=${this.localize.t("fileUpload.retryUpload", { name: file.name })}
+          @click=${() => this.retryUpload(file.id)}
+        >
+          ${this.localize.t("fileUpload.retry")}
+        </button>
+      `;
+    }
+
+    return nothing;
+  }
+
   override render() {
     if (!this.behavior) return nothing;
 
@@ -297,7 +539,9 @@ export class DsFileUpload extends DSElement {
           class="ds-file-upload__dropzone"
           role=${dropzoneProps.role}
           tabindex=${dropzoneProps.tabIndex}
-          aria-label=${this.ariaLabel || dropzoneProps["aria-label"]}
+          aria-label=${
+            this.ariaLabel || this.localize.t("fileUpload.dropzone", { multiple: this.multiple })
+          }
           aria-disabled=${dropzoneProps["aria-disabled"] ?? nothing}
           data-dragging=${this.isDragging || nothing}
           @click=${this.handleClick}
@@ -312,20 +556,22 @@ export class DsFileUpload extends DSElement {
             <span class="ds-file-upload__text">
               ${
                 this.isDragging
-                  ? "Drop files here"
-                  : this.multiple
-                    ? "Drop files here or click to upload"
-                    : "Drop file here or click to upload"
+                  ? this.localize.t("fileUpload.dropActive")
+                  : this.localize.t("fileUpload.dropzone", { multiple: this.multiple })
               }
             </span>
             ${
               this.accept
-                ? html`<span class="ds-file-upload__hint">Accepted: ${this.accept}</span>`
+                ? html`<span class="ds-file-upload__hint">
+                    ${this.localize.t("fileUpload.accepted", { types: this.accept })}
+                  </span>`
                 : nothing
             }
             ${
               this.maxSize
-                ? html`<span class="ds-file-upload__hint">Max size: ${formatBytes(this.maxSize)}</span>`
+                ? html`<span class="ds-file-upload__hint">
+                    ${this.localize.t("fileUpload.maxSize", { size: formatBytes(this.maxSize) })}
+                  </span>`
                 : nothing
             }
           </slot>
@@ -348,7 +594,7 @@ export class DsFileUpload extends DSElement {
         ${
           this.showFileList && this.files.length > 0
             ? html`
-              <div class="ds-file-upload__list" role="list" aria-label="Selected files">
+              <div class="ds-file-upload__list" role="list" aria-label=${this.localize.t("fileUpload.fileList")}>
                 <slot name="file-list">
                   ${this.files.map((file) => this.renderFileItem(file))}
                 </slot>
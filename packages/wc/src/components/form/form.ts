@@ -0,0 +1,465 @@
+import {
+  type FieldValidators,
+  type FormController,
+  type FormErrors,
+  type FormFlags,
+  type FormState,
+  type FormSubmitResult,
+  type FormValidateOn,
+  type FormValidator,
+  type FormValues,
+  type StandardSchemaV1,
+  areFieldValuesEqual,
+  createFormController,
+  createFormValidators,
+} from "@hypoth-ui/primitives-dom";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import type { FormAssociatedInterface } from "../../base/form-associated.js";
+import { emitEvent } from "../../events/emit.js";
+import { define } from "../../registry/define.js";
+
+export interface DsFormSubmitEventDetail<TValues extends FormValues = FormValues> {
+  values: TValues;
+  /** Fields whose value differs from the initial value */
+  dirty: FormFlags<TValues>;
+  /** Fields that have lost focus at least once */
+  touched: FormFlags<TValues>;
+  isDirty: boolean;
+}
+
+export interface DsFormInvalidSubmitEventDetail<TValues extends FormValues = FormValues> {
+  values: TValues;
+  errors: FormErrors<TValues>;
+}
+
+/** Design system controls that ds-form collects values from */
+const DS_CONTROLS =
+  "ds-input, ds-textarea, ds-checkbox, ds-switch, ds-radio-group, ds-select, ds-combobox, ds-date-picker, ds-date-field, ds-date-time-picker, ds-time-picker, ds-slider, ds-number-input, ds-pin-input, ds-file-upload";
+
+const NATIVE_CONTROLS = "input, select, textarea";
+
+const FOCUSABLE =
+  "input:not([type='hidden']), select, textarea, button, [tabindex]:not([tabindex='-1'])";
+
+type Control = HTMLElement & { name: string; value?: unknown; disabled?: boolean };
+
+function isFormAssociated(control: Control): control is Control & FormAssociatedInterface {
+  return (control.constructor as { formAssociated?: boolean }).formAssociated === true;
+}
+
+function isNativeControl(
+  control: Element
+): control is HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement {
+  return control.matches(NATIVE_CONTROLS);
+}
+
+/**
+ * Reads a control's value with its natural type: booleans for checkboxes,
+ * numbers for numeric controls, files for file inputs.
+ */
+function getControlValue(control: Control): unknown {
+  if (isFormAssociated(control)) return control.typedValue;
+  if (control instanceof HTMLInputElement) {
+    if (control.type === "checkbox") return control.checked;
+    if (control.type === "file") return Array.from(control.files ?? []);
+  }
+  if (control instanceof HTMLSelectElement && control.multiple) {
+    return Array.from(control.selectedOptions, (option) => option.value);
+  }
+  return control.value;
+}
+
+/**
+ * Built-in constraint errors (required, min/max, pattern, ...) of a control.
+ * ds-input and ds-textarea validate through their native field.
+ */
+function getConstraintError(control: Control): string {
+  if (isFormAssociated(control)) {
+    return control.checkValidity() ? "" : control.validationMessage;
+  }
+  const field = isNativeControl(control)
+    ? control
+    : control.querySelector<HTMLInputElement | HTMLTextAreaElement>("input, textarea");
+  return field && !field.checkValidity() ? field.validationMessage : "";
+}
+
+/**
+ * Form controller for a whole form.
+ *
+ * Wraps a native `<form>` and collects typed values from the ds controls
+ * (and native fields) inside it by `name`. Runs the controls' built-in
+ * constraints, per-field validators, a Standard Schema (Zod, Valibot,
+ * ArkType, ...) and a whole-form validator, sync or async, and shows each
+ * field's error in its `ds-field-error`, where ds-field wires
+ * `aria-invalid` and `aria-describedby`. A `ds-field-error` outside any
+ * ds-field shows errors that concern the whole form.
+ *
+ * Submitting validates every field. When any is invalid the first invalid
+ * control is focused and `ds:invalid-submit` fires; otherwise `ds:submit`
+ * fires with the values. The native submission is always prevented.
+ *
+ * @element ds-form
+ *
+ * @slot - A `<form>` with the form's fields
+ *
+ * @fires ds:submit - Fired on a valid submit with { values, dirty, touched, isDirty }
+ * @fires ds:invalid-submit - Fired on an invalid submit with { values, errors }
+ *
+ * @example
+ * ```html
+ * <ds-form validate-on="blur">
+ *   <form>
+ *     <ds-field required>
+ *       <ds-label>Email</ds-label>
+ *       <ds-input type="email" name="email"></ds-input>
+ *       <ds-field-error></ds-field-error>
+ *     </ds-field>
+ *     <ds-button type="submit">Sign up</ds-button>
+ *   </form>
+ * </ds-form>
+ *
+ * <script type="module">
+ *   const form = document.querySelector("ds-form");
+ *   form.schema = z.object({ email: z.string().email("Enter a valid email") });
+ *   form.addEventListener("ds:submit", (event) => save(event.detail.values));
+ * </script>
+ * ```
+ */
+export class DsForm<TValues extends FormValues = FormValues> extends DSElement {
+  /** Standard Schema that validates all values, e.g. a Zod object */
+  @property({ attribute: false })
+  schema?: StandardSchemaV1;
+
+  /** Validators for single fields, by name */
+  @property({ attribute: false })
+  fieldValidators?: FieldValidators<TValues>;
+
+  /** Validates all values; returns errors by field name */
+  @property({ attribute: false })
+  validator?: FormValidator<TValues>;
+
+  /** When fields are validated before the first submit; set before connecting */
+  @property({ type: String, attribute: "validate-on" })
+  validateOn: FormValidateOn = "blur";
+
+  /** Skips the controls' built-in constraints (required, min, pattern, ...) */
+  @property({ type: Boolean, reflect: true })
+  novalidate = false;
+
+  private controller: FormController<TValues> | null = null;
+  private controllerValidateOn: FormValidateOn | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private observer: MutationObserver | null = null;
+
+  /** Controls that got aria-invalid from this form rather than from ds-field */
+  private markedInvalid = new WeakSet<Element>();
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    this.addEventListener("ds:change", this.handleValueChange);
+    this.addEventListener("input", this.handleValueChange);
+    this.addEventListener("change", this.handleValueChange);
+    this.addEventListener("focusout", this.handleFocusOut);
+    this.addEventListener("submit", this.handleSubmit);
+    this.addEventListener("reset", this.handleReset);
+
+    this.createController();
+
+    // Register controls added later with their initial values
+    this.observer = new MutationObserver(() => this.registerControls());
+    this.observer.observe(this, { childList: true, subtree: true });
+
+    this.updateComplete.then(() => this.registerControls());
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+
+    this.removeEventListener("ds:change", this.handleValueChange);
+    this.removeEventListener("input", this.handleValueChange);
+    this.removeEventListener("change", this.handleValueChange);
+    this.removeEventListener("focusout", this.handleFocusOut);
+    this.removeEventListener("submit", this.handleSubmit);
+    this.removeEventListener("reset", this.handleReset);
+
+    this.observer?.disconnect();
+    this.observer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.controller?.destroy();
+    this.controller = null;
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    super.updated(changedProperties);
+
+    if (
+      changedProperties.has("validateOn") &&
+      this.controller &&
+      this.controllerValidateOn !== this.validateOn
+    ) {
+      this.controller.destroy();
+      this.createController();
+      this.registerControls();
+    }
+  }
+
+  /**
+   * Current values, errors, and dirty/touched state.
+   */
+  get state(): FormState<TValues> {
+    return this.requireController().state;
+  }
+
+  /**
+   * Reads the current values, including ones set in code without an event.
+   */
+  public getValues(): TValues {
+    this.syncValues();
+    return this.requireController().state.values;
+  }
+
+  /**
+   * Validates every field and shows the errors, without submitting.
+   * Resolves with the errors by field name.
+   */
+  public async validate(): Promise<FormErrors<TValues>> {
+    this.syncValues();
+    return this.requireController().validate();
+  }
+
+  /**
+   * Sets or clears a field's error, e.g. from a server response.
+   * Use the empty string as name for an error about the whole form.
+   */
+  public setError(name: (keyof TValues & string) | "", message: string | null): void {
+    this.requireController().setError(name, message);
+  }
+
+  /**
+   * Validates and submits the form, like pressing its submit button.
+   */
+  public async submit(): Promise<FormSubmitResult<TValues>> {
+    const controller = this.requireController();
+    this.syncValues();
+
+    const result = await controller.submit();
+    if (!result.valid) {
+      this.focusFirstInvalid(result.errors);
+      emitEvent<DsFormInvalidSubmitEventDetail<TValues>>(this, "invalid-submit", {
+        detail: { values: result.values, errors: result.errors },
+      });
+      return result;
+    }
+
+    const { dirty, touched, isDirty } = controller.state;
+    emitEvent<DsFormSubmitEventDetail<TValues>>(this, "submit", {
+      detail: { values: result.values, dirty, touched, isDirty },
+    });
+    return result;
+  }
+
+  /**
+   * Resets the fields to their initial values and clears errors.
+   */
+  public reset(): void {
+    const form = this.querySelector("form");
+    if (form) {
+      // The reset event restores the controls, then the state
+      form.reset();
+    } else {
+      this.controller?.reset();
+    }
+  }
+
+  private createController(): void {
+    this.unsubscribe?.();
+    this.controller = createFormController<TValues>({
+      validateOn: this.validateOn,
+      ...createFormValidators(() => ({
+        schema: this.schema,
+        fieldValidators: this.getFieldValidators(),
+        validate: this.validator,
+      })),
+    });
+    this.controllerValidateOn = this.validateOn;
+    this.unsubscribe = this.controller.subscribe((state) => this.showErrors(state.errors));
+  }
+
+  private requireController(): FormController<TValues> {
+    if (!this.controller) this.createController();
+    return this.controller as FormController<TValues>;
+  }
+
+  /**
+   * Named, enabled controls in document order. Native fields rendered
+   * inside ds controls belong to those controls.
+   */
+  private getControls(): Control[] {
+    return Array.from(this.querySelectorAll<Control>(`${DS_CONTROLS}, ${NATIVE_CONTROLS}`)).filter(
+      (control) =>
+        !!control.name &&
+        !control.disabled &&
+        !(isNativeControl(control) && control.parentElement?.closest(DS_CONTROLS))
+    );
+  }
+
+  /** Maps an event target to the control it belongs to */
+  private getControlFor(target: EventTarget | null): Control | null {
+    if (!(target instanceof Element)) return null;
+    const control =
+      target.closest<Control>(DS_CONTROLS) ?? (isNativeControl(target) ? target : null);
+    return control?.name && this.contains(control) ? control : null;
+  }
+
+  /**
+   * Reads a named control's value. Radio buttons sharing a name give the
+   * checked one's value.
+   */
+  private readValue(control: Control): unknown {
+    if (control instanceof HTMLInputElement && control.type === "radio") {
+      const checked = this.getControls().find(
+        (other) =>
+          other instanceof HTMLInputElement &&
+          other.type === "radio" &&
+          other.name === control.name &&
+          other.checked
+      );
+      return (checked as HTMLInputElement | undefined)?.value ?? "";
+    }
+    return getControlValue(control);
+  }
+
+  private registerControls(): void {
+    const controller = this.controller;
+    if (!controller) return;
+
+    // The form validates; browser validation bubbles would block the submit event
+    const form = this.querySelector("form");
+    if (form) form.noValidate = true;
+
+    for (const control of this.getControls()) {
+      const name = control.name as keyof TValues & string;
+      controller.register(name, this.readValue(control) as TValues[typeof name]);
+    }
+  }
+
+  /** Copies control values that changed without an event, e.g. set in code */
+  private syncValues(): void {
+    const controller = this.requireController();
+    for (const control of this.getControls()) {
+      const name = control.name as keyof TValues & string;
+      const value = this.readValue(control);
+      if (!(name in controller.state.values)) {
+        controller.register(name, value as TValues[typeof name]);
+      } else if (!areFieldValuesEqual(value, controller.state.values[name])) {
+        controller.setValue(name, value as TValues[typeof name]);
+      }
+    }
+  }
+
+  /**
+   * The field validators, each behind its controls' built-in constraints, so
+   * validating a field checks only its own controls.
+   */
+  private getFieldValidators(): FieldValidators<TValues> {
+    const validators: FieldValidators<TValues> = Object.assign({}, this.fieldValidators);
+    if (this.novalidate) return validators;
+
+    const controls = this.getControls();
+    for (const name of new Set(controls.map((control) => control.name as keyof TValues & string))) {
+      const validator = validators[name];
+      validators[name] = (value, values) => {
+        for (const control of controls) {
+          if (control.name !== name) continue;
+          const message = getConstraintError(control);
+          if (message) return message;
+        }
+        return validator?.(value, values);
+      };
+    }
+    return validators;
+  }
+
+  /**
+   * Shows each field's error in its ds-field-error; ds-field then updates the
+   * control's aria-invalid and aria-describedby. Controls without one get
+   * aria-invalid directly.
+   */
+  private showErrors(errors: FormErrors<TValues>): void {
+    for (const control of this.getControls()) {
+      const message = errors[control.name] ?? "";
+      const errorElement = control.closest("ds-field")?.querySelector("ds-field-error");
+
+      if (errorElement) {
+        errorElement.message = message;
+      } else if (message) {
+        control.setAttribute("aria-invalid", "true");
+        this.markedInvalid.add(control);
+      } else if (this.markedInvalid.has(control)) {
+        control.removeAttribute("aria-invalid");
+        this.markedInvalid.delete(control);
+      }
+    }
+
+    for (const errorElement of this.querySelectorAll("ds-field-error")) {
+      if (!errorElement.closest("ds-field")) errorElement.message = errors[""] ?? "";
+    }
+  }
+
+  private focusFirstInvalid(errors: FormErrors<TValues>): void {
+    const control = this.getControls().find((control) => errors[control.name]);
+    if (!control) return;
+    const target = isNativeControl(control)
+      ? control
+      : (control.querySelector<HTMLElement>(FOCUSABLE) ?? control);
+    target.focus();
+  }
+
+  private handleValueChange = (event: Event): void => {
+    const control = this.getControlFor(event.target);
+    if (!control) return;
+    this.requireController().setValue(
+      control.name as keyof TValues & string,
+      this.readValue(control) as TValues[keyof TValues & string]
+    );
+  };
+
+  private handleFocusOut = (event: FocusEvent): void => {
+    const control = this.getControlFor(event.target);
+    // Moving between the parts of one control (e.g. pin fields) is not a blur
+    if (!control || control.contains(event.relatedTarget as Node | null)) return;
+    this.requireController().setTouched(control.name as keyof TValues & string);
+  };
+
+  private handleSubmit = (event: Event): void => {
+    event.preventDefault();
+    void this.submit();
+  };
+
+  private handleReset = (): void => {
+    // The reset event fires before the controls restore their defaults
+    queueMicrotask(() => {
+      const controller = this.requireController();
+      controller.reset();
+
+      // ds-input and ds-textarea are not form-associated, so the native reset skips them
+      for (const control of this.getControls()) {
+        if (!isFormAssociated(control) && !isNativeControl(control)) {
+          control.value = controller.state.values[control.name];
+        }
+      }
+      this.syncValues();
+    });
+  };
+}
+
+define("ds-form", DsForm);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-form": DsForm;
+  }
+}
@@ -0,0 +1,2 @@
+export { DsForm } from "./form.js";
+export type { DsFormSubmitEventDetail, DsFormInvalidSubmitEventDetail } from "./form.js";
@@ -0,0 +1,55 @@
+import { html } from "lit";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+import type { MenuContentState } from "./menu-content.js";
+
+/**
+ * Submenu content container with role="menu".
+ *
+ * @element ds-menu-sub-content
+ *
+ * @slot - Menu items (ds-menu-item elements)
+ *
+ * @attr {string} data-state - Animation state ("open" or "closed")
+ *
+ * @example
+ * ```html
+ * <ds-menu-sub-content>
+ *   <ds-menu-item value="email">Email</ds-menu-item>
+ *   <ds-menu-item value="link">Copy link</ds-menu-item>
+ * </ds-menu-sub-content>
+ * ```
+ */
+export class DsMenuSubContent extends DSElement {
+  /** Animation state (open or closed) - set by parent ds-menu-sub */
+  @property({ type: String, reflect: true, attribute: "data-state" })
+  dataState: MenuContentState = "closed";
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Set ARIA role for menu (ID and aria-labelledby are set by ds-menu-sub)
+    this.setAttribute("role", "menu");
+    this.setAttribute("aria-orientation", "vertical");
+
+    // Hidden by default (parent submenu controls visibility)
+    this.setAttribute("hidden", "");
+  }
+
+  override render() {
+    return html`
+      <div class="ds-menu-content" part="container">
+        <slot></slot>
+      </div>
+    `;
+  }
+}
+
+define("ds-menu-sub-content", DsMenuSubContent);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-menu-sub-content": DsMenuSubContent;
+  }
+}
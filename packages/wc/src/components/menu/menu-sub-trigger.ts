@@ -0,0 +1,71 @@
+import { html } from "lit";
+import { property } from "lit/decorators.js";
+import { DSElement } from "../../base/ds-element.js";
+import { define } from "../../registry/define.js";
+
+/**
+ * Menu item with role="menuitem" that opens a submenu.
+ * The parent ds-menu-sub sets aria-haspopup, aria-expanded and aria-controls.
+ *
+ * @element ds-menu-sub-trigger
+ *
+ * @slot - Item content (text, icon, etc.)
+ *
+ * @attr {string} data-state - Submenu state ("open" or "closed")
+ *
+ * @example
+ * ```html
+ * <ds-menu-sub-trigger>Share</ds-menu-sub-trigger>
+ * ```
+ */
+export class DsMenuSubTrigger extends DSElement {
+  /** Whether the item is disabled */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Set ARIA role
+    this.setAttribute("role", "menuitem");
+
+    // Set tabIndex for roving focus (will be managed by parent)
+    this.tabIndex = -1;
+
+    // Update aria-disabled
+    this.updateAriaDisabled();
+  }
+
+  private updateAriaDisabled(): void {
+    if (this.disabled) {
+      this.setAttribute("aria-disabled", "true");
+    } else {
+      this.removeAttribute("aria-disabled");
+    }
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has("disabled")) {
+      this.updateAriaDisabled();
+    }
+  }
+
+  override render() {
+    return html`
+      <div class="ds-menu-item ds-menu-sub-trigger" part="container">
+        <slot></slot>
+        <span class="ds-menu-sub-trigger__indicator" aria-hidden="true">›</span>
+      </div>
+    `;
+  }
+}
+
+define("ds-menu-sub-trigger", DsMenuSubTrigger);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-menu-sub-trigger": DsMenuSubTrigger;
+  }
+}
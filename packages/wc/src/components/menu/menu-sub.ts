@@ -0,0 +1,45 @@
+import { SubmenuElement } from "../../base/submenu-element.js";
+import { define } from "../../registry/define.js";
+import "./menu-sub-content.js";
+import "./menu-sub-trigger.js";
+
+/**
+ * Nested submenu opened from a ds-menu-sub-trigger item.
+ *
+ * Opens with ArrowRight, Enter, Space, click or hover, and closes with
+ * ArrowLeft or Escape, returning focus to the sub-trigger; the arrow keys swap
+ * in RTL. The pointer can cross other items on its way into the submenu
+ * without closing it.
+ *
+ * @element ds-menu-sub
+ *
+ * @slot - Sub-trigger (ds-menu-sub-trigger) and sub-content (ds-menu-sub-content)
+ *
+ * @fires ds:open-change - Fired when the submenu opens or closes (detail: { open }), doesn't bubble
+ *
+ * @example
+ * ```html
+ * <ds-menu-sub>
+ *   <ds-menu-sub-trigger>Share</ds-menu-sub-trigger>
+ *   <ds-menu-sub-content>
+ *     <ds-menu-item value="email">Email</ds-menu-item>
+ *     <ds-menu-item value="link">Copy link</ds-menu-item>
+ *   </ds-menu-sub-content>
+ * </ds-menu-sub>
+ * ```
+ */
+export class DsMenuSub extends SubmenuElement {
+  protected readonly tagNames = {
+    sub: "ds-menu-sub",
+    trigger: "ds-menu-sub-trigger",
+    content: "ds-menu-sub-content",
+  };
+}
+
+define("ds-menu-sub", DsMenuSub);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "ds-menu-sub": DsMenuSub;
+  }
+}
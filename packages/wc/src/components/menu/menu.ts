@@ -22,6 +22,20 @@ import { define } from "../../registry/define.js";
 import type { DsMenuContent } from "./menu-content.js";
 import "./menu-content.js";
 import "./menu-item.js";
+import type { DsMenuSub } from "./menu-sub.js";
+import "./menu-sub.js";
+
+/** Items of the menu, including sub-triggers */
+const ITEM_SELECTOR = "ds-menu-item:not([disabled]), ds-menu-sub-trigger:not([disabled])";
+
+/**
+ * Own items of a menu content, leaving out those of nested submenus.
+ */
+function getMenuItems(content: Element): HTMLElement[] {
+  return Array.from(content.querySelectorAll<HTMLElement>(ITEM_SELECTOR)).filter(
+    (item) => item.closest('[role="menu"]') === content
+  );
+}
 
 /**
  * Menu component with roving focus and type-ahead.
@@ -31,6 +45,8 @@ import "./menu-item.js";
  * - Type-ahead search to jump to items
  * - Enter/Space/Click to select items
  * - Escape to close
+ * - Nested submenus (ds-menu-sub), opened with ArrowRight and closed with ArrowLeft
+ *   (swapped in RTL)
  *
  * @element ds-menu
  *
@@ -122,7 +138,9 @@ export class DsMenu extends DSElement {
    * Closes the menu.
    * @param reason - The reason for closing (default: "programmatic")
    */
-  public close(reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"): void {
+  public close(
+    reason: "escape" | "outside-click" | "trigger" | "programmatic" = "programmatic"
+  ): void {
     if (!this.open) return;
 
     // Emit cancelable open-change event before closing
@@ -311,10 +329,11 @@ export class DsMenu extends DSElement {
 
     this.rovingFocus = createRovingFocus({
       container: content,
-      selector: "ds-menu-item:not([disabled])",
+      selector: ITEM_SELECTOR,
       direction: "vertical",
       loop: true,
       skipDisabled: true,
+      filter: (item) => item.closest('[role="menu"]') === content,
     });
   }
 
@@ -324,8 +343,7 @@ export class DsMenu extends DSElement {
     if (!content) return;
 
     this.typeAhead = createTypeAhead({
-      items: () =>
-        Array.from(content.querySelectorAll<HTMLElement>("ds-menu-item:not([disabled])")),
+      items: () => getMenuItems(content),
       getText: (item) => item.textContent?.trim() || "",
       onMatch: (_item, index) => {
         this.rovingFocus?.setFocusedIndex(index);
@@ -344,7 +362,7 @@ export class DsMenu extends DSElement {
     const content = this.querySelector("ds-menu-content");
     if (!content) return;
 
-    const items = content.querySelectorAll<HTMLElement>("ds-menu-item:not([disabled])");
+    const items = getMenuItems(content);
     if (items.length === 0) return;
 
     if (this.focusFirstOnOpen === "last") {
@@ -428,6 +446,11 @@ export class DsMenu extends DSElement {
         // Focus initial item
         this.focusInitialItem();
       } else {
+        // Submenus close with the menu
+        for (const sub of this.querySelectorAll<DsMenuSub>("ds-menu-sub[open]")) {
+          sub.open = false;
+        }
+
         // Hide content
         content?.setAttribute("hidden", "");
       }
@@ -4,6 +4,10 @@
  * @element ds-number-input
  * @fires ds:change - Fired on value change with { value }
  *
+ * The input is form-associated and submits the unformatted number under
+ * `name`. `required`, `min`, `max` and `step` set `valueMissing`,
+ * `rangeUnderflow`, `rangeOverflow` and `stepMismatch`.
+ *
  * @example
  * ```html
  * <!-- Basic number input -->
@@ -17,16 +21,28 @@
  * ```
  */
 
-import { type NumberInputBehavior, createNumberInputBehavior } from "@hypoth-ui/primitives-dom";
-import { html, nothing } from "lit";
+import {
+  type Messages,
+  type NumberInputBehavior,
+  createNumberInputBehavior,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import {
+  FormAssociatedMixin,
+  type ValidationFlags,
+  getNumericValidationFlags,
+} from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
 export type NumberInputFormat = "decimal" | "currency" | "percent";
 
-export class DsNumberInput extends DSElement {
+export class DsNumberInput extends FormAssociatedMixin<typeof DSElement, number | undefined>(
+  DSElement
+) {
   /** Minimum allowed value */
   @property({ type: Number, reflect: true })
   min: number | undefined = undefined;
@@ -67,10 +83,6 @@ export class DsNumberInput extends DSElement {
   @property({ type: String })
   placeholder = "";
 
-  /** Form field name */
-  @property({ type: String, reflect: true })
-  name = "";
-
   /** ARIA label */
   @property({ type: String, attribute: "aria-label" })
   override ariaLabel: string | null = null;
@@ -91,6 +103,12 @@ export class DsNumberInput extends DSElement {
   @property({ type: String })
   suffix = "";
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private behavior: NumberInputBehavior | null = null;
 
@@ -100,8 +118,11 @@ export class DsNumberInput extends DSElement {
   @state()
   private isFocused = false;
 
+  private _defaultNumber: number | undefined = undefined;
+
   override connectedCallback(): void {
     super.connectedCallback();
+    this._defaultNumber = this.value;
     this.initBehavior();
   }
 
@@ -130,6 +151,61 @@ export class DsNumberInput extends DSElement {
     }
   }
 
+  protected getFormValue(): FormData | string | null {
+    return this.value === undefined ? null : String(this.value);
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.querySelector<HTMLElement>(".ds-number-input__field") ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    if (this.value === undefined) {
+      return this.required ? { valueMissing: true } : {};
+    }
+    return getNumericValidationFlags([this.value], {
+      min: this.min,
+      max: this.max,
+      step: this.step,
+    });
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t("validation.valueMissing");
+    }
+    if (flags.rangeUnderflow) {
+      return this.localize.t("validation.rangeUnderflow", { min: this.min ?? "" });
+    }
+    if (flags.rangeOverflow) {
+      return this.localize.t("validation.rangeOverflow", { max: this.max ?? "" });
+    }
+    if (flags.stepMismatch) {
+      return this.localize.t("validation.stepMismatch", { step: this.step });
+    }
+    return "";
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("value") ||
+      changedProperties.has("min") ||
+      changedProperties.has("max") ||
+      changedProperties.has("step")
+    );
+  }
+
+  protected onFormReset(): void {
+    this.value = this._defaultNumber;
+    this.initBehavior();
+  }
+
+  protected onFormStateRestore(state: string | File | FormData | null): void {
+    if (typeof state !== "string") return;
+    this.value = state === "" ? undefined : Number(state);
+    this.initBehavior();
+  }
+
   private initBehavior(): void {
     this.behavior?.destroy();
 
@@ -209,7 +285,7 @@ export class DsNumberInput extends DSElement {
               <button
                 type="button"
                 class="ds-number-input__decrement"
-                aria-label="Decrement"
+                aria-label=${this.localize.t("numberInput.decrement")}
                 tabindex="-1"
                 ?disabled=${this.disabled || isAtMin}
                 @click=${this.handleDecrement}
@@ -233,7 +309,6 @@ export class DsNumberInput extends DSElement {
           class="ds-number-input__field"
           .value=${this.inputValue}
           placeholder=${this.placeholder || nothing}
-          name=${this.name || nothing}
           aria-label=${this.ariaLabel || nothing}
           aria-valuemin=${inputProps["aria-valuemin"] ?? nothing}
           aria-valuemax=${inputProps["aria-valuemax"] ?? nothing}
@@ -259,7 +334,7 @@ export class DsNumberInput extends DSElement {
               <button
                 type="button"
                 class="ds-number-input__increment"
-                aria-label="Increment"
+                aria-label=${this.localize.t("numberInput.increment")}
                 tabindex="-1"
                 ?disabled=${this.disabled || isAtMax}
                 @click=${this.handleIncrement}
@@ -6,9 +6,11 @@
  * @slot - Button content (defaults to "Next")
  */
 
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export class DsPaginationNext extends DSElement {
@@ -16,11 +18,16 @@ export class DsPaginationNext extends DSElement {
   @property({ type: Boolean, reflect: true })
   disabled = false;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   override connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute("role", "button");
     this.setAttribute("tabindex", "0");
-    this.setAttribute("aria-label", "Go to next page");
 
     this.addEventListener("click", this.handleClick);
     this.addEventListener("keydown", this.handleKeyDown);
@@ -49,6 +56,8 @@ export class DsPaginationNext extends DSElement {
   };
 
   override updated(changedProperties: Map<string, unknown>): void {
+    this.setAttribute("aria-label", this.localize.t("pagination.next"));
+
     if (changedProperties.has("disabled")) {
       this.setAttribute("aria-disabled", String(this.disabled));
       this.setAttribute("tabindex", this.disabled ? "-1" : "0");
@@ -56,7 +65,7 @@ export class DsPaginationNext extends DSElement {
   }
 
   override render() {
-    return html`<slot>Next</slot>`;
+    return html`<slot>${this.localize.t("pagination.nextText")}</slot>`;
   }
 }
 
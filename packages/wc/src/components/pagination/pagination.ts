@@ -22,9 +22,11 @@
  * ```
  */
 
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -53,10 +55,15 @@ export class DsPagination extends DSElement {
   @property({ type: Number, attribute: "boundary-count" })
   boundaryCount = 1;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   override connectedCallback(): void {
     super.connectedCallback();
     this.setAttribute("role", "navigation");
-    this.setAttribute("aria-label", "Pagination");
 
     this.addEventListener("ds:page-select", this.handlePageSelect as EventListener);
   }
@@ -137,6 +144,8 @@ export class DsPagination extends DSElement {
   }
 
   override updated(changedProperties: Map<string, unknown>): void {
+    this.setAttribute("aria-label", this.localize.t("pagination.label"));
+
     if (changedProperties.has("page") || changedProperties.has("totalPages")) {
       this.updateActiveState();
     }
@@ -5,6 +5,9 @@
  * @fires ds:change - Fired on value change with { value }
  * @fires ds:complete - Fired when all digits entered
  *
+ * The input is form-associated and submits `value` under `name`. `required`
+ * sets `valueMissing`; a partly entered code sets `tooShort`.
+ *
  * @example
  * ```html
  * <!-- 6-digit PIN -->
@@ -18,14 +21,22 @@
  * ```
  */
 
-import { type PinInputBehavior, createPinInputBehavior } from "@hypoth-ui/primitives-dom";
-import { html, nothing } from "lit";
+import {
+  type Messages,
+  type PinInputBehavior,
+  createPinInputBehavior,
+  getDirection,
+  mirrorArrowKey,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { FormAssociatedMixin, type ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
-export class DsPinInput extends DSElement {
+export class DsPinInput extends FormAssociatedMixin(DSElement) {
   /** Number of input fields */
   @property({ type: Number, reflect: true })
   length = 6;
@@ -50,6 +61,13 @@ export class DsPinInput extends DSElement {
   @property({ type: String, attribute: "aria-label" })
   override ariaLabel: string | null = null;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  // Field labels come from the behavior; the controller re-renders on catalog changes
+  private localize = new LocalizeController(this);
+
   @state()
   private behavior: PinInputBehavior | null = null;
 
@@ -75,12 +93,50 @@ export class DsPinInput extends DSElement {
     if (
       changedProperties.has("length") ||
       changedProperties.has("alphanumeric") ||
-      changedProperties.has("disabled")
+      changedProperties.has("disabled") ||
+      changedProperties.has("messages")
     ) {
       this.initBehavior();
     }
   }
 
+  protected getFormValue(): FormData | string | null {
+    return this.value || null;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.querySelector<HTMLElement>(".ds-pin-input__field") ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    if (!this.value) {
+      return this.required ? { valueMissing: true } : {};
+    }
+    return this.value.length < this.length ? { tooShort: true } : {};
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t("validation.pinRequired");
+    }
+    if (flags.tooShort) {
+      return this.localize.t("validation.pinIncomplete", { length: this.length });
+    }
+    return "";
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return changedProperties.has("value") || changedProperties.has("length");
+  }
+
+  protected onFormReset(): void {
+    this.initBehavior();
+  }
+
+  protected onFormStateRestore(): void {
+    this.initBehavior();
+  }
+
   private initBehavior(): void {
     this.behavior?.destroy();
 
@@ -89,6 +145,7 @@ export class DsPinInput extends DSElement {
       defaultValue: this.value,
       alphanumeric: this.alphanumeric,
       disabled: this.disabled,
+      messages: this.messages,
       onValueChange: (value) => {
         this.value = value;
         emitEvent(this, StandardEvents.CHANGE, { detail: { value } });
@@ -143,7 +200,7 @@ export class DsPinInput extends DSElement {
   private handleKeyDown(index: number, event: KeyboardEvent): void {
     if (!this.behavior) return;
 
-    switch (event.key) {
+    switch (mirrorArrowKey(event.key, getDirection(this))) {
       case "Backspace": {
         event.preventDefault();
         this.behavior.backspace(index);
@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export type ProgressVariant = "linear" | "circular";
@@ -59,6 +61,14 @@ export class DsProgress extends DSElement {
   @property({ type: Boolean, attribute: "show-value" })
   showValue = false;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   private get isIndeterminate(): boolean {
     return this.value === undefined || this.value === null;
   }
@@ -70,9 +80,9 @@ export class DsProgress extends DSElement {
 
   private get valueText(): string {
     if (this.isIndeterminate) {
-      return this.label || "Loading...";
+      return this.label || this.localize.t("progress.loading");
     }
-    return `${Math.round(this.percentage)}% complete`;
+    return this.localize.t("progress.complete", { percent: Math.round(this.percentage) });
   }
 
   private renderLinear(): TemplateResult {
@@ -1,10 +1,11 @@
-import { type RovingFocus, createRovingFocus } from "@hypoth-ui/primitives-dom";
+import { type Messages, type RovingFocus, createRovingFocus } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import type { PropertyValues } from "lit";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
 import { FormAssociatedMixin } from "../../base/form-associated.js";
 import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 import type { DsRadio } from "./radio.js";
@@ -47,6 +48,12 @@ export class DsRadioGroup extends FormAssociatedMixin(DSElement) {
   @property({ type: String, reflect: true })
   orientation: RadioOrientation = "vertical";
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   /** Default value for form reset */
   private _defaultValue = "";
 
@@ -211,7 +218,7 @@ export class DsRadioGroup extends FormAssociatedMixin(DSElement) {
 
   protected getValidationMessage(flags: ValidationFlags): string {
     if (flags.valueMissing) {
-      return "Please select an option";
+      return this.localize.t("validation.selectRequired");
     }
     return "";
   }
@@ -1,6 +1,7 @@
 import {
   type AnchorPosition,
   type DismissableLayer,
+  type Messages,
   type Option,
   type Placement,
   type Presence,
@@ -23,6 +24,7 @@ import { repeat } from "lit/directives/repeat.js";
 import { DSElement } from "../../base/ds-element.js";
 import { FormAssociatedMixin } from "../../base/form-associated.js";
 import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -137,6 +139,12 @@ export class DsSelect extends FormAssociatedMixin(DSElement) {
   @property({ attribute: false })
   items: Option<string>[] = [];
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   /** Visible item IDs for virtualization */
   @state()
   private visibleItemIds = new Set<string>();
@@ -151,8 +159,6 @@ export class DsSelect extends FormAssociatedMixin(DSElement) {
   private rovingFocus: RovingFocus | null = null;
   private typeAhead: TypeAhead | null = null;
   private virtualizedList: VirtualizedList | null = null;
-  private resizeObserver: ResizeObserver | null = null;
-  private scrollHandler: (() => void) | null = null;
   private focusFirstOnOpen: "first" | "last" | "selected" | null = null;
 
   override connectedCallback(): void {
@@ -484,31 +490,22 @@ export class DsSelect extends FormAssociatedMixin(DSElement) {
 
     if (!trigger || !content) return;
 
-    // Setup anchor positioning
+    // Setup anchor positioning. The available height caps long option
+    // lists; the listbox hides while the trigger is scrolled out of view.
     this.anchorPosition = createAnchorPosition({
       anchor: trigger,
       floating: content,
       placement: this.placement,
       offset: this.offset,
       flip: this.flip,
+      padding: 8,
+      size: true,
+      hide: true,
+      autoUpdate: true,
       onPositionChange: (pos) => {
         content.setAttribute("data-placement", pos.placement);
       },
     });
-
-    // Setup resize observer for repositioning
-    this.resizeObserver = new ResizeObserver(() => {
-      this.anchorPosition?.update();
-    });
-    this.resizeObserver.observe(trigger);
-    this.resizeObserver.observe(content);
-
-    // Setup scroll handler for repositioning
-    this.scrollHandler = () => {
-      this.anchorPosition?.update();
-    };
-    window.addEventListener("scroll", this.scrollHandler, { passive: true });
-    window.addEventListener("resize", this.scrollHandler, { passive: true });
   }
 
   private setupDismissLayer(): void {
@@ -629,17 +626,6 @@ export class DsSelect extends FormAssociatedMixin(DSElement) {
     // Cleanup virtualized list
     this.virtualizedList?.destroy();
     this.virtualizedList = null;
-
-    // Cleanup resize observer
-    this.resizeObserver?.disconnect();
-    this.resizeObserver = null;
-
-    // Cleanup scroll handler
-    if (this.scrollHandler) {
-      window.removeEventListener("scroll", this.scrollHandler);
-      window.removeEventListener("resize", this.scrollHandler);
-      this.scrollHandler = null;
-    }
   }
 
   override async updated(changedProperties: Map<string, unknown>): Promise<void> {
@@ -735,7 +721,7 @@ export class DsSelect extends FormAssociatedMixin(DSElement) {
 
   protected getValidationMessage(flags: ValidationFlags): string {
     if (flags.valueMissing) {
-      return "Please select an option";
+      return this.localize.t("validation.selectRequired");
     }
     return "";
   }
@@ -1,8 +1,10 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export type SkeletonVariant = "text" | "circular" | "rectangular" | "rounded";
@@ -59,10 +61,18 @@ export class DsSkeleton extends DSElement {
   animation: SkeletonAnimation = "wave";
 
   /**
-   * Accessible label for screen readers.
+   * Accessible label for screen readers. Defaults to the `skeleton.loading` message.
    */
   @property({ type: String })
-  label = "Loading...";
+  label?: string;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
 
   override render(): TemplateResult {
     const classes = {
@@ -77,12 +87,14 @@ export class DsSkeleton extends DSElement {
       styles.height = this.customHeight;
     }
 
+    const label = this.label ?? this.localize.t("skeleton.loading");
+
     return html`
       <div
         class=${classMap(classes)}
         role="status"
         aria-busy="true"
-        aria-label=${this.label}
+        aria-label=${label}
         data-variant=${this.variant}
         data-size=${this.size || nothing}
         data-width=${!this.customWidth && this.width ? this.width : nothing}
@@ -90,7 +102,7 @@ export class DsSkeleton extends DSElement {
         ?data-no-animation=${this.animation === "none"}
         style=${Object.keys(styles).length > 0 ? styleMap(styles) : nothing}
       >
-        <span class="ds-visually-hidden">${this.label}</span>
+        <span class="ds-visually-hidden">${label}</span>
       </div>
     `;
   }
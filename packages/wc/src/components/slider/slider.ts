@@ -4,6 +4,11 @@
  * @element ds-slider
  * @fires ds:change - Fired on value change with { value } or { min, max } for range mode
  *
+ * The slider is form-associated: it submits `value` under `name`, or in
+ * range mode both ends under `name-start` and `name-end` (defaulting to
+ * `<name>-start` and `<name>-end`). Values outside `min`/`max` or off the
+ * `step` grid set `rangeUnderflow`, `rangeOverflow` and `stepMismatch`.
+ *
  * @example
  * ```html
  * <!-- Single value slider -->
@@ -12,19 +17,35 @@
  * <!-- Range slider -->
  * <ds-slider range min="0" max="1000" range-min="200" range-max="800"></ds-slider>
  *
+ * <!-- In a form: submits price-start=200 and price-end=800 -->
+ * <ds-slider name="price" range max="1000" range-min="200" range-max="800"></ds-slider>
+ *
  * <!-- Vertical slider -->
  * <ds-slider orientation="vertical" min="0" max="100"></ds-slider>
  * ```
  */
 
-import { type SliderBehavior, type ThumbType, createSliderBehavior } from "@hypoth-ui/primitives-dom";
-import { html, nothing } from "lit";
+import {
+  type Messages,
+  type SliderBehavior,
+  type ThumbType,
+  createSliderBehavior,
+  getDirection,
+  mirrorArrowKey,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import {
+  FormAssociatedMixin,
+  type ValidationFlags,
+  getNumericValidationFlags,
+} from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
-export class DsSlider extends DSElement {
+export class DsSlider extends FormAssociatedMixin<typeof DSElement, number>(DSElement) {
   /** Minimum allowed value */
   @property({ type: Number, reflect: true })
   min = 0;
@@ -53,6 +74,14 @@ export class DsSlider extends DSElement {
   @property({ type: Number, reflect: true, attribute: "range-max" })
   rangeMax = 100;
 
+  /** Form field name of the range start (defaults to `<name>-start`) */
+  @property({ type: String, attribute: "name-start" })
+  nameStart = "";
+
+  /** Form field name of the range end (defaults to `<name>-end`) */
+  @property({ type: String, attribute: "name-end" })
+  nameEnd = "";
+
   /** Orientation */
   @property({ type: String, reflect: true })
   orientation: "horizontal" | "vertical" = "horizontal";
@@ -85,6 +114,12 @@ export class DsSlider extends DSElement {
   @property({ type: Number, attribute: "tick-count" })
   tickCount?: number;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private behavior: SliderBehavior | null = null;
 
@@ -97,9 +132,11 @@ export class DsSlider extends DSElement {
   private trackRef: HTMLElement | null = null;
   private boundHandlePointerMove: ((e: PointerEvent) => void) | null = null;
   private boundHandlePointerUp: (() => void) | null = null;
+  private _defaultRange = { min: 0, max: 100 };
 
   override connectedCallback(): void {
     super.connectedCallback();
+    this._defaultRange = { min: this.rangeMin, max: this.rangeMax };
     this.initBehavior();
   }
 
@@ -126,6 +163,89 @@ export class DsSlider extends DSElement {
     }
   }
 
+  /** The value, or `{ min, max }` in range mode */
+  get typedValue(): number | { min: number; max: number } {
+    return this.range ? { min: this.rangeMin, max: this.rangeMax } : this.value;
+  }
+
+  protected getFormValue(): FormData | string | null {
+    if (!this.range) return String(this.value);
+
+    const startName = this.nameStart || (this.name && `${this.name}-start`);
+    const endName = this.nameEnd || (this.name && `${this.name}-end`);
+    if (!startName && !endName) return null;
+
+    const data = new FormData();
+    if (startName) data.append(startName, String(this.rangeMin));
+    if (endName) data.append(endName, String(this.rangeMax));
+    return data;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.querySelector<HTMLElement>("[role='slider']") ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    return getNumericValidationFlags(this.range ? [this.rangeMin, this.rangeMax] : [this.value], {
+      min: this.min,
+      max: this.max,
+      step: this.step,
+    });
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.rangeUnderflow) {
+      return this.localize.t("validation.rangeUnderflow", { min: this.min });
+    }
+    if (flags.rangeOverflow) {
+      return this.localize.t("validation.rangeOverflow", { max: this.max });
+    }
+    if (flags.stepMismatch) {
+      return this.localize.t("validation.stepMismatch", { step: this.step });
+    }
+    return "";
+  }
+
+  protected shouldUpdateFormValue(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("range") ||
+      changedProperties.has("rangeMin") ||
+      changedProperties.has("rangeMax") ||
+      changedProperties.has("name") ||
+      changedProperties.has("nameStart") ||
+      changedProperties.has("nameEnd")
+    );
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("value") ||
+      changedProperties.has("range") ||
+      changedProperties.has("rangeMin") ||
+      changedProperties.has("rangeMax") ||
+      changedProperties.has("min") ||
+      changedProperties.has("max") ||
+      changedProperties.has("step")
+    );
+  }
+
+  protected onFormReset(): void {
+    this.rangeMin = this._defaultRange.min;
+    this.rangeMax = this._defaultRange.max;
+    this.initBehavior();
+  }
+
+  protected onFormStateRestore(state: string | File | FormData | null): void {
+    if (typeof state === "string") {
+      this.value = Number(state);
+    } else if (state instanceof FormData) {
+      const [start, end] = [...state.values()].map(Number);
+      if (start !== undefined) this.rangeMin = start;
+      if (end !== undefined) this.rangeMax = end;
+    }
+    this.initBehavior();
+  }
+
   private initBehavior(): void {
     this.behavior?.destroy();
 
@@ -206,6 +326,7 @@ export class DsSlider extends DSElement {
 
     if (orientation === "horizontal") {
       percent = ((event.clientX - rect.left) / rect.width) * 100;
+      if (getDirection(this) === "rtl") percent = 100 - percent;
     } else {
       percent = 100 - ((event.clientY - rect.top) / rect.height) * 100;
     }
@@ -221,12 +342,14 @@ export class DsSlider extends DSElement {
     if (this.disabled || !this.behavior) return;
 
     const isVertical = this.orientation === "vertical";
+    // A horizontal slider fills from the right in RTL
+    const key = isVertical ? event.key : mirrorArrowKey(event.key, getDirection(this));
 
-    switch (event.key) {
+    switch (key) {
       case "ArrowRight":
       case "ArrowUp":
         event.preventDefault();
-        if (isVertical ? event.key === "ArrowUp" : event.key === "ArrowRight") {
+        if (isVertical ? key === "ArrowUp" : key === "ArrowRight") {
           this.behavior.increment(thumb);
         } else {
           this.behavior.decrement(thumb);
@@ -235,7 +358,7 @@ export class DsSlider extends DSElement {
       case "ArrowLeft":
       case "ArrowDown":
         event.preventDefault();
-        if (isVertical ? event.key === "ArrowDown" : event.key === "ArrowLeft") {
+        if (isVertical ? key === "ArrowDown" : key === "ArrowLeft") {
           this.behavior.decrement(thumb);
         } else {
           this.behavior.increment(thumb);
@@ -319,7 +442,7 @@ export class DsSlider extends DSElement {
           (pos) => html`
             <div
               class="ds-slider__tick"
-              style=${isVertical ? `bottom: ${pos}%` : `left: ${pos}%`}
+              style=${isVertical ? `bottom: ${pos}%` : `inset-inline-start: ${pos}%`}
             ></div>
           `
         )}
@@ -354,12 +477,12 @@ export class DsSlider extends DSElement {
 
     const isVertical = this.orientation === "vertical";
     const thumbStyle = (percent: number) =>
-      isVertical ? `bottom: ${percent}%` : `left: ${percent}%`;
+      isVertical ? `bottom: ${percent}%` : `inset-inline-start: ${percent}%`;
 
     const rangeStyle = this.range
       ? isVertical
         ? `bottom: ${minPercent}%; height: ${maxPercent - minPercent}%`
-        : `left: ${minPercent}%; width: ${maxPercent - minPercent}%`
+        : `inset-inline-start: ${minPercent}%; width: ${maxPercent - minPercent}%`
       : isVertical
         ? `height: ${singlePercent}%`
         : `width: ${singlePercent}%`;
@@ -387,7 +510,7 @@ export class DsSlider extends DSElement {
                   class="ds-slider__thumb"
                   role="slider"
                   tabindex=${this.disabled ? -1 : 0}
-                  aria-label=${this.ariaLabel || this.label || "Minimum value"}
+                  aria-label=${this.ariaLabel || this.label || this.localize.t("slider.minimum")}
                   aria-valuemin=${this.min}
                   aria-valuemax=${state.rangeValue.max}
                   aria-valuenow=${state.rangeValue.min}
@@ -409,7 +532,7 @@ export class DsSlider extends DSElement {
                   class="ds-slider__thumb"
                   role="slider"
                   tabindex=${this.disabled ? -1 : 0}
-                  aria-label=${this.ariaLabel || this.label || "Maximum value"}
+                  aria-label=${this.ariaLabel || this.label || this.localize.t("slider.maximum")}
                   aria-valuemin=${state.rangeValue.min}
                   aria-valuemax=${this.max}
                   aria-valuenow=${state.rangeValue.max}
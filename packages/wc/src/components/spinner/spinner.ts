@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 
 export type SpinnerSize = "sm" | "md" | "lg";
@@ -39,9 +41,18 @@ export class DsSpinner extends DSElement {
   /**
    * Accessible label for the spinner.
    * Announced by screen readers to indicate loading state.
+   * Defaults to the `spinner.label` message.
    */
   @property({ type: String })
-  label = "Loading";
+  label?: string;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
 
   override render(): TemplateResult {
     const classes = {
@@ -53,7 +64,7 @@ export class DsSpinner extends DSElement {
       <span
         class=${classMap(classes)}
         role="status"
-        aria-label=${this.label}
+        aria-label=${this.label ?? this.localize.t("spinner.label")}
       ></span>
     `;
   }
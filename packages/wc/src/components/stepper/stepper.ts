@@ -27,9 +27,11 @@
  * ```
  */
 
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import { property } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -58,18 +60,26 @@ export class DsStepper extends DSElement {
   linear = false;
 
   /**
-   * Accessible label for the stepper.
+   * Accessible label for the stepper. Defaults to the `stepper.label` message.
    * Per APG, the stepper should have a clear label describing its purpose.
    */
   @property({ type: String, attribute: "aria-label" })
-  override ariaLabel = "Progress steps";
+  override ariaLabel: string | null = null;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
 
   override connectedCallback(): void {
     super.connectedCallback();
     // Use role="list" for ordered sequence of steps per APG
     // Combined with aria-current="step" on active item for process indication
     this.setAttribute("role", "list");
-    this.setAttribute("aria-label", this.ariaLabel);
+    this.setAttribute("aria-label", this.ariaLabel ?? this.localize.t("stepper.label"));
 
     this.addEventListener("ds:step-select", this.handleStepSelect as EventListener);
   }
@@ -1,3 +1,4 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { html } from "lit";
 import type { PropertyValues } from "lit";
 import { property, state } from "lit/decorators.js";
@@ -5,6 +6,7 @@ import { ifDefined } from "lit/directives/if-defined.js";
 import { DSElement } from "../../base/ds-element.js";
 import { FormAssociatedMixin } from "../../base/form-associated.js";
 import type { ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -40,6 +42,12 @@ export class DsSwitch extends FormAssociatedMixin(DSElement) {
   @property({ type: Boolean, reflect: true })
   checked = false;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   /** ARIA describedby - IDs of elements that describe this switch */
   @state()
   private ariaDescribedBy?: string;
@@ -145,6 +153,11 @@ export class DsSwitch extends FormAssociatedMixin(DSElement) {
 
   // Form association implementation
 
+  /** Whether the switch is on */
+  get typedValue(): boolean {
+    return this.checked;
+  }
+
   protected getFormValue(): string | null {
     return this.checked ? this.value : null;
   }
@@ -162,7 +175,7 @@ export class DsSwitch extends FormAssociatedMixin(DSElement) {
 
   protected getValidationMessage(flags: ValidationFlags): string {
     if (flags.valueMissing) {
-      return "Please turn this switch on to proceed";
+      return this.localize.t("validation.switchRequired");
     }
     return "";
   }
@@ -50,19 +50,27 @@ export class DsTableHead extends DSElement {
   @property({ type: String, attribute: "sort-direction", reflect: true })
   sortDirection: SortDirection = "none";
 
+  /**
+   * 1-based position of this column in a multi-column sort (0 hides the indicator).
+   */
+  @property({ type: Number, attribute: "sort-priority" })
+  sortPriority = 0;
+
   /**
    * Column width (CSS value).
    */
   @property({ type: String })
   width = "";
 
-  private handleClick(): void {
+  private handleClick(event: MouseEvent | KeyboardEvent): void {
     if (!this.sortable) return;
 
     emitEvent(this, "sort", {
       detail: {
         column: this.column,
         direction: this.getNextDirection(),
+        // Shift adds the column as a secondary sort key
+        additive: event.shiftKey,
       },
     });
   }
@@ -71,7 +79,7 @@ export class DsTableHead extends DSElement {
     if (!this.sortable) return;
     if (event.key === "Enter" || event.key === " ") {
       event.preventDefault();
-      this.handleClick();
+      this.handleClick(event);
     }
   }
 
@@ -86,9 +94,10 @@ export class DsTableHead extends DSElement {
    * Per APG, sortable columns should always have aria-sort:
    * - "ascending" for A-Z or low-high sort
    * - "descending" for Z-A or high-low sort
-   * - "none" when sortable but not currently sorted
+   * - "none" when sortable but not currently sorted, or a secondary sort key
    */
   private getAriaSort(): "ascending" | "descending" | "none" {
+    if (this.sortPriority > 1) return "none";
     if (this.sortDirection === "asc") return "ascending";
     if (this.sortDirection === "desc") return "descending";
     return "none";
@@ -113,6 +122,14 @@ export class DsTableHead extends DSElement {
       >
         <slot></slot>
         ${this.sortable ? html`<span class="ds-table__sort-icon">${sortIcon}</span>` : nothing}
+        ${
+          this.sortable && this.sortPriority > 0
+            ? html`
+              <span class="ds-table__sort-priority" aria-hidden="true">${this.sortPriority}</span>
+              <span class="ds-visually-hidden">(sort priority ${this.sortPriority})</span>
+            `
+            : nothing
+        }
       </th>
     `;
   }
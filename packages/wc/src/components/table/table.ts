@@ -1,14 +1,28 @@
-import { type TemplateResult, html, nothing } from "lit";
+import {
+  type GridNavigation,
+  type SortModel,
+  createGridNavigation,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
 import { define } from "../../registry/define.js";
+import type { DsTableHead } from "./table-head.js";
 
 export type TableSize = "compact" | "default" | "spacious";
 
 /**
  * Table root component.
  *
+ * With `grid`, the table follows the APG data grid pattern: cells are
+ * focusable with a single tab stop, arrow keys, Home/End, Ctrl+Home/End and
+ * PageUp/PageDown move between them, and Enter or F2 moves focus into a
+ * cell's interactive content until Escape.
+ *
+ * Set `sortModel` from `ds:sort` events to show the sort on the slotted
+ * heads, with priority numbers once more than one column is sorted.
+ *
  * @element ds-table
  *
  * @slot - Table content (thead, tbody, tfoot)
@@ -56,6 +70,83 @@ export class DsTable extends DSElement {
   @property({ type: String })
   caption = "";
 
+  /**
+   * Interactive grid mode with cell-level keyboard navigation (role="grid").
+   */
+  @property({ type: Boolean, reflect: true })
+  grid = false;
+
+  /**
+   * Sort keys, primary first. Sets the sort direction and priority of each
+   * `ds-table-head` by its `column`.
+   */
+  @property({ attribute: false })
+  sortModel: SortModel = [];
+
+  private gridNavigation: GridNavigation | null = null;
+  private rowObserver: MutationObserver | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Resume grid navigation when re-attached after a disconnect
+    if (this.hasUpdated && this.grid) {
+      this.setupGridNavigation();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.teardownGridNavigation();
+  }
+
+  override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has("grid")) {
+      this.teardownGridNavigation();
+      if (this.grid) this.setupGridNavigation();
+    }
+
+    // Leave heads sorted by attribute alone until a model is set
+    if (
+      changedProperties.has("sortModel") &&
+      (this.sortModel.length > 0 || changedProperties.get("sortModel") !== undefined)
+    ) {
+      this.syncSortHeads();
+    }
+  }
+
+  private syncSortHeads(): void {
+    const model = this.sortModel;
+    for (const head of this.querySelectorAll<DsTableHead>("ds-table-head")) {
+      if (head.closest("ds-table") !== this) continue;
+      const index = model.findIndex((sort) => sort.column === head.column);
+      head.sortDirection = model[index]?.direction ?? "none";
+      head.sortPriority = index !== -1 && model.length > 1 ? index + 1 : 0;
+    }
+  }
+
+  private setupGridNavigation(): void {
+    this.gridNavigation = createGridNavigation({
+      container: this,
+      rowSelector: "ds-table-row",
+      cellSelector: "ds-table-head, ds-table-cell",
+      onFocus: (cell) => cell.scrollIntoView?.({ block: "nearest", inline: "nearest" }),
+    });
+
+    // Rows added or re-rendered after setup join the grid
+    this.rowObserver = new MutationObserver(() => this.gridNavigation?.refresh());
+    this.rowObserver.observe(this, { childList: true, subtree: true });
+  }
+
+  private teardownGridNavigation(): void {
+    this.rowObserver?.disconnect();
+    this.rowObserver = null;
+    this.gridNavigation?.destroy();
+    this.gridNavigation = null;
+  }
+
   override render(): TemplateResult {
     const classes = {
       "ds-table": true,
@@ -64,7 +155,7 @@ export class DsTable extends DSElement {
     return html`
       <table
         class=${classMap(classes)}
-        role="grid"
+        role=${this.grid ? "grid" : nothing}
         data-size=${this.size !== "default" ? this.size : nothing}
         ?data-striped=${this.striped}
         ?data-borderless=${this.borderless}
@@ -1,7 +1,9 @@
+import type { Messages } from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
@@ -81,6 +83,14 @@ export class DsTag extends DSElement {
   @property({ type: String })
   value = "";
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   private handleRemove(event: Event): void {
     event.stopPropagation();
     if (this.disabled) return;
@@ -141,7 +151,7 @@ export class DsTag extends DSElement {
               <button
                 type="button"
                 class="ds-tag__remove"
-                aria-label="Remove"
+                aria-label=${this.localize.t("tag.remove")}
                 ?disabled=${this.disabled}
                 @click=${this.handleRemove}
               >
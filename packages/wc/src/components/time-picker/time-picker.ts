@@ -2,11 +2,18 @@
  * TimePicker component for time selection with segmented input.
  *
  * @element ds-time-picker
- * @fires ds:change - Fired on time change with { value }
+ * @fires ds:change - Fired on time change with { value, date } (date is today's instant for the time in `time-zone`, as ISO 8601)
+ *
+ * The picker is form-associated and submits `value` under `name`.
+ * `required`, `min` and `max` set `valueMissing`, `rangeUnderflow` and
+ * `rangeOverflow`.
  *
  * @example
  * ```html
- * <!-- Basic time picker (12h format) -->
+ * <!-- Hour cycle, AM/PM labels and segment order follow the locale -->
+ * <ds-time-picker locale="ja-JP"></ds-time-picker>
+ *
+ * <!-- Force 12h format -->
  * <ds-time-picker hour-format="12"></ds-time-picker>
  *
  * <!-- 24h format with seconds -->
@@ -14,25 +21,42 @@
  *
  * <!-- With initial value -->
  * <ds-time-picker value="14:30"></ds-time-picker>
+ *
+ * <!-- Display and emit times in a specific zone -->
+ * <ds-time-picker time-zone="America/New_York"></ds-time-picker>
+ *
+ * <!-- Required, within opening hours -->
+ * <ds-time-picker name="pickup" required min="09:00" max="17:30"></ds-time-picker>
  * ```
  */
 
 import {
+  type Messages,
   type TimePickerBehavior,
   type TimeSegment,
   type TimeValue,
   createTimePickerBehavior,
 } from "@hypoth-ui/primitives-dom";
-import { html, nothing } from "lit";
+import { type PropertyValues, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { DSElement } from "../../base/ds-element.js";
+import { FormAssociatedMixin, type ValidationFlags } from "../../base/form-associated.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { StandardEvents, emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 
-export class DsTimePicker extends DSElement {
-  /** 12-hour or 24-hour format */
+export class DsTimePicker extends FormAssociatedMixin(DSElement) {
+  /** 12-hour or 24-hour format; defaults to the locale's hour cycle */
   @property({ type: Number, reflect: true, attribute: "hour-format" })
-  hourFormat: 12 | 24 = 12;
+  hourFormat?: 12 | 24;
+
+  /** Locale for the hour cycle, AM/PM labels and segment order */
+  @property({ type: String })
+  locale = "en-US";
+
+  /** IANA time zone the value is expressed in; defaults to the browser's zone */
+  @property({ type: String, attribute: "time-zone" })
+  timeZone = "";
 
   /** Show seconds segment */
   @property({ type: Boolean, reflect: true, attribute: "show-seconds" })
@@ -42,6 +66,14 @@ export class DsTimePicker extends DSElement {
   @property({ type: String, reflect: true })
   value = "";
 
+  /** Earliest valid time as HH:MM or HH:MM:SS */
+  @property({ type: String })
+  min = "";
+
+  /** Latest valid time as HH:MM or HH:MM:SS */
+  @property({ type: String })
+  max = "";
+
   /** Minute step */
   @property({ type: Number, attribute: "minute-step" })
   minuteStep = 1;
@@ -58,6 +90,12 @@ export class DsTimePicker extends DSElement {
   @property({ type: String, attribute: "aria-label" })
   override ariaLabel: string | null = null;
 
+  /** Overrides for built-in strings */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private behavior: TimePickerBehavior | null = null;
 
@@ -80,21 +118,93 @@ export class DsTimePicker extends DSElement {
 
     if (
       changedProperties.has("hourFormat") ||
+      changedProperties.has("locale") ||
+      changedProperties.has("timeZone") ||
       changedProperties.has("showSeconds") ||
       changedProperties.has("minuteStep") ||
       changedProperties.has("secondStep") ||
-      changedProperties.has("disabled")
+      changedProperties.has("disabled") ||
+      changedProperties.has("messages")
     ) {
       this.initBehavior();
     }
   }
 
-  private initBehavior(): void {
+  /**
+   * The value as today's instant in the time zone. Setting a Date shows its
+   * wall-clock time in the time zone.
+   */
+  get valueAsDate(): Date | null {
+    if (!this.value || !this.behavior) return null;
+    const parsed = this.parseTimeString(this.value);
+    return parsed ? this.behavior.toDate(parsed) : null;
+  }
+
+  set valueAsDate(date: Date | null) {
+    this.initBehavior(date ?? undefined);
+    this.value = date ? (this.behavior?.formatTime() ?? "") : "";
+  }
+
+  protected getFormValue(): FormData | string | null {
+    return this.value || null;
+  }
+
+  protected getValidationAnchor(): HTMLElement | undefined {
+    return this.querySelector<HTMLElement>(".ds-time-picker__segment") ?? undefined;
+  }
+
+  protected getValidationFlags(): ValidationFlags {
+    if (!this.value) {
+      return this.required ? { valueMissing: true } : {};
+    }
+    const seconds = this.toSeconds(this.value);
+    const min = this.toSeconds(this.min);
+    const max = this.toSeconds(this.max);
+    if (seconds === null) return {};
+    return {
+      rangeUnderflow: min !== null && seconds < min,
+      rangeOverflow: max !== null && seconds > max,
+    };
+  }
+
+  protected getValidationMessage(flags: ValidationFlags): string {
+    if (flags.valueMissing) {
+      return this.localize.t("validation.timeRequired");
+    }
+    if (flags.rangeUnderflow) {
+      return this.localize.t("validation.timeUnderflow", { min: this.min });
+    }
+    if (flags.rangeOverflow) {
+      return this.localize.t("validation.timeOverflow", { max: this.max });
+    }
+    return "";
+  }
+
+  protected shouldUpdateValidity(changedProperties: PropertyValues): boolean {
+    return (
+      changedProperties.has("value") || changedProperties.has("min") || changedProperties.has("max")
+    );
+  }
+
+  protected onFormReset(): void {
+    this.initBehavior();
+  }
+
+  protected onFormStateRestore(): void {
+    this.initBehavior();
+  }
+
+  private toSeconds(str: string): number | null {
+    const time = str ? this.parseTimeString(str) : null;
+    return time ? time.hour * 3600 + time.minute * 60 + time.second : null;
+  }
+
+  private initBehavior(initialDate?: Date): void {
     this.behavior?.destroy();
 
     // Parse initial value
-    let defaultValue: TimeValue = { hour: 0, minute: 0, second: 0 };
-    if (this.value) {
+    let defaultValue: TimeValue | Date = initialDate ?? { hour: 0, minute: 0, second: 0 };
+    if (this.value && !initialDate) {
       const parsed = this.parseTimeString(this.value);
       if (parsed) defaultValue = parsed;
     }
@@ -102,13 +212,17 @@ export class DsTimePicker extends DSElement {
     this.behavior = createTimePickerBehavior({
       defaultValue,
       hourFormat: this.hourFormat,
+      locale: this.locale,
+      timeZone: this.timeZone || undefined,
       showSeconds: this.showSeconds,
       minuteStep: this.minuteStep,
+      messages: this.messages,
       secondStep: this.secondStep,
       disabled: this.disabled,
       onValueChange: (value) => {
         this.value = this.behavior?.formatTime(value) ?? "";
-        emitEvent(this, StandardEvents.CHANGE, { detail: { value } });
+        const date = this.behavior?.toDate(value).toISOString();
+        emitEvent(this, StandardEvents.CHANGE, { detail: { value, date } });
       },
     });
   }
@@ -149,7 +263,7 @@ export class DsTimePicker extends DSElement {
     this.requestUpdate();
   }
 
-  private renderSegment(segment: TimeSegment, _label: string) {
+  private renderSegment(segment: TimeSegment) {
     if (!this.behavior) return nothing;
 
     const props = this.behavior.getSegmentProps(segment);
@@ -185,28 +299,16 @@ export class DsTimePicker extends DSElement {
       <div
         class="ds-time-picker"
         role="group"
-        aria-label=${this.ariaLabel || "Time picker"}
+        aria-label=${this.ariaLabel || this.localize.t("timePicker.label")}
         data-disabled=${this.disabled || nothing}
       >
-        ${this.renderSegment("hour", "Hour")}
-        <span class="ds-time-picker__separator" aria-hidden="true">:</span>
-        ${this.renderSegment("minute", "Minute")}
-        ${
-          this.showSeconds
-            ? html`
-              <span class="ds-time-picker__separator" aria-hidden="true">:</span>
-              ${this.renderSegment("second", "Second")}
-            `
-            : nothing
-        }
-        ${
-          this.hourFormat === 12
-            ? html`
-              <span class="ds-time-picker__separator" aria-hidden="true">&nbsp;</span>
-              ${this.renderSegment("period", "AM/PM")}
-            `
-            : nothing
-        }
+        ${this.behavior
+          .getParts()
+          .map((part) =>
+            part.type === "literal"
+              ? html`<span class="ds-time-picker__separator" aria-hidden="true">${part.value}</span>`
+              : this.renderSegment(part.type)
+          )}
       </div>
     `;
   }
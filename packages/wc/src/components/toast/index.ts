@@ -12,4 +12,6 @@ export {
   type ToastState,
   type ToastAction,
   type ToastControllerOptions,
+  type ToastContent,
+  type ToastPromiseOptions,
 } from "./toast-controller.js";
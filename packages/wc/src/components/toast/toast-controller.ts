@@ -5,7 +5,7 @@
  * for showing and dismissing toasts.
  */
 
-export type ToastVariant = "info" | "success" | "warning" | "error";
+export type ToastVariant = "info" | "success" | "warning" | "error" | "loading";
 export type ToastPosition =
   | "top-left"
   | "top-center"
@@ -32,6 +32,20 @@ export interface ToastOptions {
   duration?: number;
   /** Optional action button */
   action?: ToastAction;
+  /** Completion percentage (0-100) shown as a determinate bar, for progress toasts */
+  progress?: number;
+}
+
+/** Toast content for a promise state: a title or full options */
+export type ToastContent = string | ToastOptions;
+
+export interface ToastPromiseOptions<T> {
+  /** Shown while the promise is pending */
+  loading: ToastContent;
+  /** Shown when the promise resolves */
+  success: ToastContent | ((value: T) => ToastContent);
+  /** Shown when the promise rejects */
+  error: ToastContent | ((error: unknown) => ToastContent);
 }
 
 export interface ToastData extends ToastOptions {
@@ -43,6 +57,8 @@ export interface ToastData extends ToastOptions {
   createdAt: number;
   /** Timer ID for auto-dismiss */
   timerId?: ReturnType<typeof setTimeout>;
+  /** Timestamp when the auto-dismiss countdown last started */
+  timerStartedAt?: number;
 }
 
 export interface ToastControllerOptions {
@@ -62,6 +78,10 @@ function generateId(): string {
   return `toast-${++toastIdCounter}-${Date.now()}`;
 }
 
+function toOptions(content: ToastContent): ToastOptions {
+  return typeof content === "string" ? { title: content } : content;
+}
+
 /**
  * ToastController manages the toast queue and lifecycle.
  *
@@ -76,6 +96,16 @@ function generateId(): string {
  * // Show a toast
  * const id = controller.show({ title: "Saved!", variant: "success" });
  *
+ * // Update it in place
+ * controller.update(id, { description: "All changes synced" });
+ *
+ * // Morph one toast through a promise's states
+ * controller.promise(upload(file), {
+ *   loading: "Uploading…",
+ *   success: (result) => `Uploaded ${result.name}`,
+ *   error: "Upload failed",
+ * });
+ *
  * // Dismiss a specific toast
  * controller.dismiss(id);
  *
@@ -110,6 +140,7 @@ export class ToastController {
       variant: options.variant ?? "info",
       duration,
       action: options.action,
+      progress: options.progress,
       state: "entering",
       createdAt: Date.now(),
     };
@@ -132,13 +163,79 @@ export class ToastController {
     }, 200);
 
     // Set up auto-dismiss
-    if (duration > 0) {
-      toast.timerId = setTimeout(() => {
-        this.dismiss(id);
-      }, duration);
+    this.startTimer(toast, duration);
+
+    this.notify();
+    return id;
+  }
+
+  /**
+   * Update a toast in place. Passing `duration` restarts its auto-dismiss
+   * countdown.
+   */
+  update(id: string, options: Partial<ToastOptions>): void {
+    const toast = this.toasts.find((t) => t.id === id);
+    if (!toast || toast.state === "exiting" || toast.state === "dismissed") {
+      return;
+    }
+
+    Object.assign(toast, options);
+
+    if (options.duration !== undefined) {
+      if (toast.timerId) {
+        clearTimeout(toast.timerId);
+        toast.timerId = undefined;
+      }
+      this.startTimer(toast, options.duration);
     }
 
     this.notify();
+  }
+
+  /**
+   * Show a loading toast that turns into a success or error toast when the
+   * promise settles. Returns the toast ID.
+   */
+  promise<T>(promise: Promise<T>, options: ToastPromiseOptions<T>): string {
+    const id = this.show({ variant: "loading", ...toOptions(options.loading), duration: 0 });
+
+    const settle = (content: ToastContent, variant: ToastVariant) => {
+      const { duration, ...rest } = toOptions(content);
+      this.update(id, {
+        variant,
+        description: undefined,
+        progress: undefined,
+        ...rest,
+        duration: duration ?? this.options.defaultDuration,
+      });
+    };
+
+    // A mapper that throws must not leave the toast loading
+    const errorContent = (error: unknown): ToastContent => {
+      try {
+        return typeof options.error === "function" ? options.error(error) : options.error;
+      } catch {
+        return error instanceof Error ? error.message : String(error);
+      }
+    };
+
+    promise.then(
+      (value) => {
+        let content: ToastContent;
+        try {
+          content =
+            typeof options.success === "function" ? options.success(value) : options.success;
+        } catch (error) {
+          settle(errorContent(error), "error");
+          return;
+        }
+        settle(content, "success");
+      },
+      (error: unknown) => {
+        settle(errorContent(error), "error");
+      }
+    );
+
     return id;
   }
 
@@ -192,9 +289,9 @@ export class ToastController {
    */
   resume(id: string): void {
     const toast = this.toasts.find((t) => t.id === id);
-    if (toast?.duration && toast.duration > 0 && toast.state === "visible") {
+    if (toast?.duration && toast.duration > 0 && toast.state === "visible" && !toast.timerId) {
       // Calculate remaining time based on elapsed time
-      const elapsed = Date.now() - toast.createdAt;
+      const elapsed = Date.now() - (toast.timerStartedAt ?? toast.createdAt);
       const remaining = Math.max(toast.duration - elapsed, 1000);
 
       toast.timerId = setTimeout(() => {
@@ -224,6 +321,15 @@ export class ToastController {
     this.options = { ...this.options, ...options };
   }
 
+  private startTimer(toast: ToastData, duration: number): void {
+    toast.timerStartedAt = Date.now();
+    if (duration > 0) {
+      toast.timerId = setTimeout(() => {
+        this.dismiss(toast.id);
+      }, duration);
+    }
+  }
+
   private updateState(id: string, state: ToastState): void {
     const toast = this.toasts.find((t) => t.id === id);
     if (toast) {
@@ -270,11 +376,20 @@ export function setGlobalToastController(controller: ToastController): void {
  *   variant: "error",
  *   action: { label: "Retry", onClick: () => retry() },
  * });
+ *
+ * dsToast.promise(save(), { loading: "Saving…", success: "Saved!", error: "Save failed" });
  * ```
  */
-export function dsToast(options: ToastOptions): string {
-  return getGlobalToastController().show(options);
-}
+export const dsToast = Object.assign(
+  (options: ToastOptions): string => getGlobalToastController().show(options),
+  {
+    promise: <T>(promise: Promise<T>, options: ToastPromiseOptions<T>): string =>
+      getGlobalToastController().promise(promise, options),
+    update: (id: string, options: Partial<ToastOptions>): void =>
+      getGlobalToastController().update(id, options),
+    dismiss: (id: string): void => getGlobalToastController().dismiss(id),
+  }
+);
 
 // Make dsToast available globally
 if (typeof window !== "undefined") {
@@ -1,7 +1,14 @@
+import {
+  type Hotkey,
+  type Messages,
+  type SwipeDirection,
+  createHotkey,
+} from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html } from "lit";
 import { property, state } from "lit/decorators.js";
 import { repeat } from "lit/directives/repeat.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { define } from "../../registry/define.js";
 import {
   ToastController,
@@ -11,9 +18,22 @@ import {
 } from "./toast-controller.js";
 import "./toast.js";
 
+/**
+ * Swipe direction that moves a toast toward the nearest screen edge.
+ */
+function swipeDirectionFor(position: ToastPosition): SwipeDirection {
+  if (position.endsWith("right")) return "right";
+  if (position.endsWith("left")) return "left";
+  return position.startsWith("top") ? "up" : "down";
+}
+
 /**
  * Toast provider component that manages toast queue and rendering.
  *
+ * Toasts are stacked and collapsed, newest in front, and expand while the
+ * region is hovered or focused. Pressing the `hotkey` (F8 by default) moves
+ * focus into the region; Escape returns it.
+ *
  * @element ds-toast-provider
  * @slot - Default slot for app content
  *
@@ -49,11 +69,40 @@ export class DsToastProvider extends DSElement {
   @property({ type: Number })
   duration = 5000;
 
+  /**
+   * Keep toasts expanded instead of collapsing them into a stack
+   */
+  @property({ type: Boolean })
+  expand = false;
+
+  /**
+   * Shortcut that moves focus into the toast region (empty to disable)
+   */
+  @property({ type: String })
+  hotkey = "F8";
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private toasts: ToastData[] = [];
 
+  /** Whether the stack is expanded by hover or focus */
+  @state()
+  private expanded = false;
+
   private controller!: ToastController;
 
+  private hotkeyHandle: Hotkey | null = null;
+
+  /** Element focused before the hotkey moved focus into the region */
+  private returnFocus: HTMLElement | null = null;
+
   override connectedCallback(): void {
     super.connectedCallback();
 
@@ -68,11 +117,25 @@ export class DsToastProvider extends DSElement {
 
     // Set as global controller
     setGlobalToastController(this.controller);
+
+    if (this.hasUpdated) {
+      this.registerHotkey();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.hotkeyHandle?.destroy();
+    this.hotkeyHandle = null;
   }
 
   override updated(changedProperties: Map<string, unknown>): void {
     super.updated(changedProperties);
 
+    if (changedProperties.has("hotkey")) {
+      this.registerHotkey();
+    }
+
     if (
       changedProperties.has("max") ||
       changedProperties.has("duration") ||
@@ -86,6 +149,48 @@ export class DsToastProvider extends DSElement {
     }
   }
 
+  private registerHotkey(): void {
+    this.hotkeyHandle?.destroy();
+    this.hotkeyHandle = this.hotkey
+      ? createHotkey({ hotkey: this.hotkey, onTrigger: () => this.focusRegion() })
+      : null;
+  }
+
+  /**
+   * Moves focus into the toast region, remembering where it came from.
+   */
+  focusRegion(): void {
+    const viewport = this.querySelector<HTMLElement>(".ds-toast-viewport");
+    if (!viewport || this.toasts.length === 0) return;
+
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && !viewport.contains(active)) {
+      this.returnFocus = active;
+    }
+    viewport.focus();
+  }
+
+  private handleViewportKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Escape" && this.returnFocus) {
+      event.preventDefault();
+      this.returnFocus.focus();
+      this.returnFocus = null;
+    }
+  }
+
+  private handleViewportEnter(): void {
+    this.expanded = true;
+  }
+
+  private handleViewportLeave(event: Event): void {
+    const viewport = event.currentTarget as HTMLElement;
+    const related = (event as FocusEvent).relatedTarget as Node | null;
+    if (related && viewport.contains(related)) return;
+    // Stay expanded while focus is inside
+    if (event.type === "mouseleave" && viewport.contains(document.activeElement)) return;
+    this.expanded = false;
+  }
+
   private handleDismiss(event: CustomEvent<{ id: string }>): void {
     this.controller.dismiss(event.detail.id);
   }
@@ -110,21 +215,35 @@ export class DsToastProvider extends DSElement {
       <div
         class="ds-toast-viewport"
         data-position=${this.position}
+        ?data-expanded=${this.expand || this.expanded}
         role="region"
-        aria-label="Notifications"
+        tabindex="-1"
+        aria-label=${
+          this.hotkey
+            ? this.localize.t("toast.regionHotkey", { hotkey: this.hotkey })
+            : this.localize.t("toast.region")
+        }
         aria-live="polite"
+        @mouseenter=${this.handleViewportEnter}
+        @mouseleave=${this.handleViewportLeave}
+        @focusin=${this.handleViewportEnter}
+        @focusout=${this.handleViewportLeave}
+        @keydown=${this.handleViewportKeyDown}
       >
         ${repeat(
           this.toasts,
           (toast) => toast.id,
-          (toast) => html`
+          (toast, index) => html`
             <ds-toast
+              style="--ds-toast-index: ${index}"
+              swipe-direction=${swipeDirectionFor(this.position)}
               .toastId=${toast.id}
               .toastTitle=${toast.title}
               .description=${toast.description ?? ""}
               .variant=${toast.variant ?? "info"}
               .toastState=${toast.state}
               .duration=${toast.duration ?? 0}
+              .progress=${toast.progress}
               @ds:dismiss=${this.handleDismiss}
               @ds:pause=${this.handlePause}
               @ds:resume=${this.handleResume}
@@ -1,7 +1,14 @@
+import {
+  type Messages,
+  type SwipeDirection,
+  type SwipeDismiss,
+  createSwipeDismiss,
+} from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
 import type { ToastState, ToastVariant } from "./toast-controller.js";
@@ -22,6 +29,10 @@ const VARIANT_ICONS: Record<ToastVariant, TemplateResult> = {
   error: html`<svg class="ds-toast__icon" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
     <path fill-rule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.28 7.22a.75.75 0 00-1.06 1.06L8.94 10l-1.72 1.72a.75.75 0 101.06 1.06L10 11.06l1.72 1.72a.75.75 0 101.06-1.06L11.06 10l1.72-1.72a.75.75 0 00-1.06-1.06L10 8.94 8.28 7.22z" clip-rule="evenodd" />
   </svg>`,
+  loading: html`<svg class="ds-toast__icon ds-toast__spinner" viewBox="0 0 20 20" fill="none" aria-hidden="true">
+    <circle cx="10" cy="10" r="7" stroke="currentColor" stroke-width="2" opacity="0.25" />
+    <path d="M17 10a7 7 0 00-7-7" stroke="currentColor" stroke-width="2" stroke-linecap="round" />
+  </svg>`,
 };
 
 const CLOSE_ICON = html`<svg class="ds-toast__close-icon" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
@@ -31,12 +42,16 @@ const CLOSE_ICON = html`<svg class="ds-toast__close-icon" viewBox="0 0 20 20" fi
 /**
  * Individual toast notification element.
  *
+ * Can be swiped away with a pointer in `swipe-direction`.
+ *
  * @element ds-toast
  * @slot action - Action button slot
  *
- * @fires ds:dismiss - Fired when toast is dismissed
- * @fires ds:pause - Fired when mouse enters (for pause)
- * @fires ds:resume - Fired when mouse leaves (for resume)
+ * @fires ds:dismiss - Fired when toast is dismissed or swiped away
+ * @fires ds:pause - Fired when mouse enters or a swipe starts (for pause)
+ * @fires ds:resume - Fired when mouse leaves or a swipe is cancelled (for resume)
+ *
+ * @attr {string} data-swipe - Swipe state ("move", "cancel" or "end")
  */
 export class DsToast extends DSElement {
   static override styles = [];
@@ -77,15 +92,67 @@ export class DsToast extends DSElement {
   @property({ type: Number })
   duration = 5000;
 
+  /**
+   * Completion percentage (0-100). Replaces the countdown with a determinate bar.
+   */
+  @property({ type: Number })
+  progress?: number;
+
+  /**
+   * Direction a pointer swipe dismisses the toast
+   */
+  @property({ type: String, attribute: "swipe-direction" })
+  swipeDirection: SwipeDirection = "right";
+
   /**
    * Hide the icon
    */
   @property({ type: Boolean, attribute: "hide-icon" })
   hideIcon = false;
 
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private isPaused = false;
 
+  private swipe: SwipeDismiss | null = null;
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    if (this.hasUpdated) {
+      this.setupSwipe();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.swipe?.destroy();
+    this.swipe = null;
+  }
+
+  override updated(changedProperties: Map<string, unknown>): void {
+    super.updated(changedProperties);
+    if (changedProperties.has("swipeDirection")) {
+      this.setupSwipe();
+    }
+  }
+
+  private setupSwipe(): void {
+    this.swipe?.destroy();
+    this.swipe = createSwipeDismiss(this, {
+      direction: this.swipeDirection,
+      onDismiss: () => this.handleDismiss(),
+      onSwipeStart: () => emitEvent(this, "pause", { detail: { id: this.toastId } }),
+      onSwipeCancel: () => emitEvent(this, "resume", { detail: { id: this.toastId } }),
+    });
+  }
+
   private handleDismiss(): void {
     emitEvent(this, "dismiss", { detail: { id: this.toastId } });
   }
@@ -131,15 +198,24 @@ export class DsToast extends DSElement {
         <button
           class="ds-toast__close"
           type="button"
-          aria-label="Dismiss notification"
+          aria-label=${this.localize.t("toast.dismiss")}
           @click=${this.handleDismiss}
         >
           ${CLOSE_ICON}
         </button>
 
         ${
-          this.duration > 0
+          this.progress !== undefined
             ? html`
+              <div class="ds-toast__progress" data-determinate>
+                <div
+                  class="ds-toast__progress-bar"
+                  style="transform: scaleX(${Math.min(Math.max(this.progress, 0), 100) / 100})"
+                ></div>
+              </div>
+            `
+            : this.duration > 0
+              ? html`
               <div class="ds-toast__progress">
                 <div
                   class="ds-toast__progress-bar"
@@ -147,7 +223,7 @@ export class DsToast extends DSElement {
                 ></div>
               </div>
             `
-            : nothing
+              : nothing
         }
       </div>
     `;
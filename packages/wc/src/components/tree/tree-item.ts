@@ -1,18 +1,18 @@
+import {
+  type Messages,
+  type TreeLoadState,
+  getDirection,
+  mirrorArrowKey,
+} from "@hypoth-ui/primitives-dom";
 import { type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
+import { calculateTreeItemPosition, checkIcon, chevronIcon, mixedIcon } from "./tree-utils.js";
 import type { DsTree } from "./tree.js";
-import { calculateTreeItemPosition } from "./tree-utils.js";
-
-// Chevron icon
-const chevronIcon = html`
-  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
-    <path d="M9 18l6-6-6-6" />
-  </svg>
-`;
 
 /**
  * Tree item component for hierarchical nodes.
@@ -21,7 +21,7 @@ const chevronIcon = html`
  *
  * @slot - Item content (label)
  * @slot icon - Optional leading icon
- * @slot children - Nested TreeItem elements
+ * @slot children - Nested TreeItem elements; with `lazy`, added by the tree's `loadChildren`
  *
  * @fires ds-expand - When expand state changes
  * @fires ds-select - When item is selected
@@ -61,6 +61,21 @@ export class DsTreeItem extends DSElement {
   @property({ type: Boolean, reflect: true })
   loading = false;
 
+  /**
+   * Whether the item has children that the tree's `loadChildren` loads on
+   * first expand.
+   */
+  @property({ type: Boolean, reflect: true })
+  lazy = false;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
+  private localize = new LocalizeController(this);
+
   @state()
   private hasChildren = false;
 
@@ -84,11 +99,22 @@ export class DsTreeItem extends DSElement {
     if (this.loading) return true;
     const tree = this.treeRoot;
     if (tree && this.itemId) {
-      return tree.isNodeLoading(this.itemId);
+      return tree.isNodeLoading(this.itemId) || this.loadState === "loading";
     }
     return false;
   }
 
+  /** Load state of lazily loaded children; always "idle" without `lazy` */
+  private get loadState(): TreeLoadState {
+    if (!this.lazy || !this.itemId) return "idle";
+    return this.treeRoot?.getItemLoadState?.(this.itemId) ?? "idle";
+  }
+
+  /** Whether the item shows an expand button: it has children, or may after loading */
+  private get isExpandable(): boolean {
+    return this.hasChildren || (this.lazy && this.loadState !== "loaded");
+  }
+
   /**
    * Returns true if the tree root is in a loading state.
    */
@@ -99,6 +125,7 @@ export class DsTreeItem extends DSElement {
   override connectedCallback(): void {
     super.connectedCallback();
     this.updateHasChildren();
+    this.treeRoot?.handleItemConnected?.(this);
     // Calculate position after DOM is ready
     requestAnimationFrame(() => {
       this.updateAriaPosition();
@@ -108,8 +135,9 @@ export class DsTreeItem extends DSElement {
   /**
    * Update ARIA position attributes for APG compliance.
    * Provides screen readers with context like "Item 3 of 5, level 2".
+   * @internal Called by ds-tree after a move
    */
-  private updateAriaPosition(): void {
+  updateAriaPosition(): void {
     const position = calculateTreeItemPosition(this as unknown as HTMLElement);
     this._level = position.level;
     this._setSize = position.setSize;
@@ -123,15 +151,26 @@ export class DsTreeItem extends DSElement {
 
   private handleExpandClick(event: Event): void {
     event.stopPropagation();
-    if (this.disabled || this.isTreeLoading || this.isLoading || !this.hasChildren) return;
+    if (this.disabled || this.isTreeLoading || this.isLoading || !this.isExpandable) return;
 
-    this.expanded = !this.expanded;
+    this.setExpanded(!this.expanded);
+  }
+
+  private setExpanded(expanded: boolean): void {
+    this.expanded = expanded;
     emitEvent(this, "expand", {
       detail: {
         itemId: this.itemId,
-        expanded: this.expanded,
+        expanded,
       },
     });
+    // Loads lazy children on first expand
+    this.treeRoot?.handleItemExpand(this.itemId, expanded);
+  }
+
+  private handleRetryClick(event: Event): void {
+    event.stopPropagation();
+    void this.treeRoot?.retryLoad(this.itemId);
   }
 
   private handleContentClick(): void {
@@ -154,30 +193,26 @@ export class DsTreeItem extends DSElement {
   private handleKeyDown(event: KeyboardEvent): void {
     if (this.disabled || this.isTreeLoading) return;
 
-    switch (event.key) {
+    // Alt+Arrow keys move the item in a reorderable tree
+    const tree = this.treeRoot;
+    if (event.altKey && tree?.reorderable) {
+      tree.handleItemKeyDown(event, this.itemId);
+      return;
+    }
+
+    // In RTL ArrowLeft expands and ArrowRight collapses
+    switch (mirrorArrowKey(event.key, getDirection(this))) {
       case "ArrowRight":
-        if (this.hasChildren && !this.expanded) {
+        if (this.isExpandable && !this.expanded) {
           event.preventDefault();
-          this.expanded = true;
-          emitEvent(this, "expand", {
-            detail: {
-              itemId: this.itemId,
-              expanded: true,
-            },
-          });
+          this.setExpanded(true);
         }
         break;
 
       case "ArrowLeft":
-        if (this.hasChildren && this.expanded) {
+        if (this.isExpandable && this.expanded) {
           event.preventDefault();
-          this.expanded = false;
-          emitEvent(this, "expand", {
-            detail: {
-              itemId: this.itemId,
-              expanded: false,
-            },
-          });
+          this.setExpanded(false);
         }
         break;
 
@@ -201,14 +236,26 @@ export class DsTreeItem extends DSElement {
     // Check for children via slot
     this.updateHasChildren();
 
+    const tree = this.treeRoot;
     const itemLoading = this.isLoading;
+    const expandable = this.isExpandable;
+    const loadState = this.loadState;
+    const checkedState =
+      tree?.selectionMode === "checkbox" ? tree.getItemCheckedState(this.itemId) : null;
 
     return html`
       <li
         class=${classMap(classes)}
         role="treeitem"
-        aria-expanded=${this.hasChildren ? (this.expanded ? "true" : "false") : nothing}
-        aria-selected=${this.selected ? "true" : "false"}
+        aria-expanded=${expandable ? (this.expanded ? "true" : "false") : nothing}
+        aria-selected=${checkedState ? nothing : this.selected ? "true" : "false"}
+        aria-checked=${
+          checkedState
+            ? checkedState === "mixed"
+              ? "mixed"
+              : String(checkedState === "checked")
+            : nothing
+        }
         aria-busy=${itemLoading ? "true" : nothing}
         aria-level=${this._level}
         aria-setsize=${this._setSize}
@@ -221,16 +268,17 @@ export class DsTreeItem extends DSElement {
         <div
           class="ds-tree-item__content"
           tabindex=${this.disabled ? -1 : 0}
+          draggable=${tree?.reorderable && !this.disabled ? "true" : nothing}
           @click=${this.handleContentClick}
           @keydown=${this.handleKeyDown}
         >
           ${
-            this.hasChildren
+            expandable
               ? html`
                 <button
                   type="button"
                   class="ds-tree-item__expand"
-                  aria-label=${this.expanded ? "Collapse" : "Expand"}
+                  aria-label=${this.localize.t(this.expanded ? "tree.collapse" : "tree.expand")}
                   tabindex="-1"
                   @click=${this.handleExpandClick}
                 >
@@ -239,11 +287,42 @@ export class DsTreeItem extends DSElement {
               `
               : html`<span class="ds-tree-item__spacer"></span>`
           }
+          ${
+            checkedState
+              ? html`
+                <span class="ds-tree-item__checkbox" data-state=${checkedState} aria-hidden="true">
+                  ${checkedState === "checked" ? checkIcon : checkedState === "mixed" ? mixedIcon : nothing}
+                </span>
+              `
+              : nothing
+          }
           <slot name="icon"></slot>
           <span class="ds-tree-item__label">
             <slot></slot>
           </span>
         </div>
+        ${
+          this.expanded && (loadState === "loading" || loadState === "error")
+            ? html`
+              <div class="ds-tree-item__status" role="status" data-state=${loadState}>
+                ${
+                  loadState === "loading"
+                    ? this.localize.t("tree.loading")
+                    : html`
+                      <span>${this.localize.t("tree.loadError")}</span>
+                      <button
+                        type="button"
+                        class="ds-tree-item__retry"
+                        @click=${this.handleRetryClick}
+                      >
+                        ${this.localize.t("tree.retry")}
+                      </button>
+                    `
+                }
+              </div>
+            `
+            : nothing
+        }
         ${
           this.hasChildren
             ? html`
@@ -3,8 +3,11 @@
  *
  * Calculates aria-level, aria-setsize, and aria-posinset for tree items
  * to provide proper screen reader context (e.g., "Item 3 of 5, level 2").
+ * Also holds the icons shared by tree items and data-driven rows.
  */
 
+import { html } from "lit";
+
 export interface TreeItemPosition {
   /** Nesting depth (1-based, root items are level 1) */
   level: number;
@@ -117,6 +120,29 @@ function getSiblingTreeItems(element: HTMLElement): HTMLElement[] {
   return items.length > 0 ? items : [element];
 }
 
+/**
+ * Get a tree item's own label text, without its nested items.
+ *
+ * @param element - The ds-tree-item element
+ * @returns The trimmed label text
+ */
+export function getTreeItemLabel(element: HTMLElement): string {
+  let label = "";
+  for (const node of element.childNodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      label += node.textContent;
+    } else if (
+      node instanceof Element &&
+      // Skip nested items, the icon and the rendered item markup
+      !node.hasAttribute("slot") &&
+      node.localName !== "li"
+    ) {
+      label += node.textContent;
+    }
+  }
+  return label.trim();
+}
+
 /**
  * Update ARIA position attributes on a tree item element.
  *
@@ -141,3 +167,23 @@ export function updateAllTreeItemAriaAttributes(treeRoot: HTMLElement): void {
     updateTreeItemAriaAttributes(item as unknown as HTMLElement);
   }
 }
+
+// Chevron icon
+export const chevronIcon = html`
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
+    <path d="M9 18l6-6-6-6" />
+  </svg>
+`;
+
+// Checkbox marks
+export const checkIcon = html`
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" aria-hidden="true">
+    <path d="M5 12l5 5L20 7" />
+  </svg>
+`;
+
+export const mixedIcon = html`
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" aria-hidden="true">
+    <path d="M6 12h12" />
+  </svg>
+`;
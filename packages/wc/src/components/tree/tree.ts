@@ -1,21 +1,64 @@
-import { type TemplateResult, html, nothing } from "lit";
+import {
+  type FlatTreeNode,
+  type Messages,
+  type TreeBehavior,
+  type TreeCheckedState,
+  type TreeDataNode,
+  type TreeDropPosition,
+  type TreeItem,
+  type TreeLoadState,
+  type TreeMove,
+  type TypeAhead,
+  type VirtualWindow,
+  announce,
+  createTreeBehavior,
+  createTypeAhead,
+  createVirtualWindow,
+  flattenTree,
+} from "@hypoth-ui/primitives-dom";
+import { type PropertyValues, type TemplateResult, html, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { DSElement } from "../../base/ds-element.js";
+import { LocalizeController } from "../../base/localize-controller.js";
 import { emitEvent } from "../../events/emit.js";
 import { define } from "../../registry/define.js";
+import type { DsTreeItem } from "./tree-item.js";
+import { checkIcon, chevronIcon, getTreeItemLabel, mixedIcon } from "./tree-utils.js";
 
-export type TreeSelectionMode = "single" | "multiple" | "none";
+export type TreeSelectionMode = "single" | "multiple" | "checkbox" | "none";
 export type TreeSize = "default" | "compact";
 
+/**
+ * Detail of the cancelable `ds:move` event.
+ */
+export type DsTreeMoveEventDetail = TreeMove;
+
 /**
  * Tree root component for hierarchical data display.
  *
  * @element ds-tree
  *
+ * In `selection-mode="checkbox"` items get tri-state checkboxes: checking
+ * an item checks its descendants, and parents show `aria-checked="mixed"`
+ * while only some descendants are checked. Items with `lazy` load their
+ * children through `loadChildren` on first expand. With `reorderable`,
+ * items move by drag and drop or with Alt+Arrow keys.
+ *
+ * Setting `nodes` switches to a data-driven mode for large trees: the tree
+ * flattens the expanded nodes into a list of rows with explicit
+ * `aria-level`, `aria-setsize` and `aria-posinset`. With `virtualized`, only
+ * the rows in view plus `overscan` are mounted, between two spacers that
+ * keep the full scroll height. Type-ahead and `scrollToId` reach rows that
+ * are not mounted. Reordering is not available in this mode.
+ *
  * @slot - TreeItem elements
  *
- * @fires ds-selection-change - When selection changes
+ * @fires ds-selection-change - When selection changes; in checkbox mode, lists the checked items
+ * @fires ds-move - Before an item moves (cancelable), with the new parent and index
+ * @fires ds-expand - When a node expands or collapses, in the data-driven mode
+ * @fires ds-select - When a node is clicked or toggled with Space, in the data-driven mode
+ * @fires ds-activate - When Enter is pressed on a node, in the data-driven mode
  *
  * @cssprop --ds-tree-indent - Indentation for nested items
  */
@@ -66,9 +109,687 @@ export class DsTree extends DSElement {
   @property({ attribute: false })
   loadingNodes: Set<string> | string[] = new Set();
 
+  /**
+   * Loads a node's children on its first expand, for items with `lazy`.
+   * Add the child items before the promise resolves; a rejection shows an
+   * error with a retry button.
+   */
+  @property({ attribute: false })
+  loadChildren?: (nodeId: string) => Promise<void>;
+
+  /**
+   * Whether items can be moved by drag and drop or with Alt+Arrow keys.
+   */
+  @property({ type: Boolean, reflect: true })
+  reorderable = false;
+
+  /**
+   * Nested node data. When set, the tree renders rows from the data
+   * instead of its `ds-tree-item` children; `expanded` and `selected` on a
+   * node apply when the node first appears.
+   */
+  @property({ attribute: false })
+  nodes: TreeDataNode[] = [];
+
+  /**
+   * Mount only the rows in view, for `nodes`.
+   */
+  @property({ type: Boolean, reflect: true })
+  virtualized = false;
+
+  /**
+   * Estimated row height for virtualization (in pixels).
+   */
+  @property({ type: Number, attribute: "item-height" })
+  itemHeight = 32;
+
+  /**
+   * Number of rows mounted beyond the viewport for virtualization.
+   */
+  @property({ type: Number })
+  overscan = 5;
+
+  /**
+   * Overrides for built-in strings.
+   */
+  @property({ attribute: false })
+  messages?: Partial<Messages>;
+
   @state()
   private selectedItems: Set<string> = new Set();
 
+  /** Range of `visibleNodes` rendered while the data-driven mode is virtualized */
+  @state()
+  private dataRange = { start: 0, end: 0 };
+
+  private localize = new LocalizeController(this);
+
+  /** Checked items, lazy loading and moves; recreated when the selection mode changes */
+  private behavior: TreeBehavior = this.createBehavior();
+
+  /** Items connected since the last sync, to pick up their initial checks */
+  private pendingItems = new Set<DsTreeItem>();
+  private pendingSync = false;
+  /** Suppresses selection events while syncing checks from the DOM */
+  private syncingChecks = false;
+
+  private dragSourceId: string | null = null;
+  private dropTarget: DsTreeItem | null = null;
+
+  /** Every node of `nodes` by ID, expanded or not */
+  private nodeIndex = new Map<string, FlatTreeNode>();
+  /** Every node as a behavior item, in display order */
+  private nodeItems: TreeItem[] = [];
+  /** Node IDs seen since `nodes` first changed; new ones pick up their initial state */
+  private knownNodeIds = new Set<string>();
+  /** Rows shown for the current expansion, and their behavior items */
+  private visibleNodes: FlatTreeNode[] = [];
+  private visibleItems: TreeItem[] = [];
+  private visibleDirty = false;
+  /** Check states of all nodes, cleared when checks change */
+  private nodeCheckedStates: Map<string, TreeCheckedState> | null = null;
+  /** Suppresses events while applying initial node state */
+  private syncingNodes = false;
+  /** Focus this node's row once it is rendered */
+  private pendingFocusId: string | null = null;
+
+  private virtualWindow: VirtualWindow | null = null;
+  private virtualFrame: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  private typeAhead: TypeAhead = createTypeAhead<FlatTreeNode>({
+    items: () => this.visibleNodes.filter((flat) => !flat.node.disabled),
+    getText: (flat) => flat.node.label,
+    onMatch: (flat) => this.focusNode(flat.id),
+  });
+
+  /**
+   * Whether the tree renders rows from `nodes`.
+   */
+  get isDataMode(): boolean {
+    return this.nodes.length > 0;
+  }
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    // Resume windowing when re-attached after a disconnect
+    if (this.hasUpdated && this.virtualized && this.isDataMode && !this.virtualWindow) {
+      this.setupVirtualization();
+      this.requestUpdate();
+    }
+
+    this.addEventListener("dragstart", this.handleDragStart);
+    this.addEventListener("dragover", this.handleDragOver);
+    this.addEventListener("drop", this.handleDrop);
+    this.addEventListener("dragend", this.handleDragEnd);
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.removeEventListener("dragstart", this.handleDragStart);
+    this.removeEventListener("dragover", this.handleDragOver);
+    this.removeEventListener("drop", this.handleDrop);
+    this.removeEventListener("dragend", this.handleDragEnd);
+    this.teardownVirtualization();
+    this.typeAhead.reset();
+  }
+
+  protected override willUpdate(changed: PropertyValues<this>): void {
+    if (changed.has("selectionMode")) {
+      this.behavior.destroy();
+      this.behavior = this.createBehavior();
+      for (const item of this.getItemElements()) {
+        this.handleItemConnected(item);
+      }
+      // Node state lived in the old behavior; apply the initial state again
+      this.knownNodeIds.clear();
+    }
+
+    if (changed.has("nodes") || changed.has("selectionMode")) {
+      this.syncNodes();
+    }
+
+    if (this.visibleDirty) {
+      this.updateVisibleNodes();
+    }
+
+    if (this.virtualizationChanged(changed)) {
+      this.teardownVirtualization();
+      if (this.virtualized && this.isDataMode) {
+        this.setupVirtualization();
+      }
+    }
+
+    if (this.virtualWindow) {
+      this.dataRange = this.computeDataRange();
+    }
+  }
+
+  protected override updated(changed: PropertyValues<this>): void {
+    super.updated(changed);
+
+    if (this.virtualWindow) {
+      this.measureRows();
+    }
+
+    if (this.pendingFocusId !== null) {
+      const row = this.getNodeContent(this.pendingFocusId);
+      if (row) {
+        this.pendingFocusId = null;
+        row.focus();
+      }
+    }
+  }
+
+  private virtualizationChanged(changed: PropertyValues<this>): boolean {
+    const previousNodes = changed.get("nodes") as TreeDataNode[] | undefined;
+    const modeChanged =
+      changed.has("nodes") && (previousNodes?.length ?? 0) > 0 !== this.isDataMode;
+
+    return (
+      modeChanged ||
+      changed.has("virtualized") ||
+      changed.has("itemHeight") ||
+      changed.has("overscan")
+    );
+  }
+
+  private createBehavior(): TreeBehavior {
+    return createTreeBehavior({
+      selectionMode: this.selectionMode,
+      reorderable: true,
+      loadChildren: async (id) => {
+        const lazy = this.isDataMode ? this.isLazyNode(id) : this.getItemElement(id)?.lazy;
+        if (lazy) await this.loadChildren?.(id);
+      },
+      onLoadStateChange: (id) => {
+        if (this.isDataMode) {
+          this.requestUpdate();
+        } else {
+          this.getItemElement(id)?.requestUpdate();
+        }
+      },
+      onExpandChange: (id, expanded) => {
+        if (this.isDataMode) {
+          this.visibleDirty = true;
+          this.requestUpdate();
+          if (!this.syncingNodes) {
+            emitEvent(this, "expand", { detail: { itemId: id, expanded } });
+          }
+          return;
+        }
+        const item = this.getItemElement(id);
+        if (!item || item.expanded === expanded) return;
+        item.expanded = expanded;
+        emitEvent(item, "expand", { detail: { itemId: id, expanded } });
+      },
+      onSelectionChange: (checkedIds) => {
+        this.nodeCheckedStates = null;
+        this.syncItemStates();
+        if (this.isDataMode) this.requestUpdate();
+        if (this.syncingChecks || this.syncingNodes) return;
+        emitEvent(this, "selection-change", {
+          detail: { selectedItems: Array.from(checkedIds) },
+        });
+      },
+      onActivate: (id) => emitEvent(this, "activate", { detail: { itemId: id } }),
+      onMove: (move) => this.applyMove(move),
+    });
+  }
+
+  private getItemElements(): DsTreeItem[] {
+    return Array.from(this.querySelectorAll("ds-tree-item"));
+  }
+
+  private getItemElement(id: string): DsTreeItem | undefined {
+    return this.getItemElements().find((item) => item.itemId === id);
+  }
+
+  /** Items in document order, for the tree behavior */
+  private getTreeItems(): TreeItem[] {
+    if (this.isDataMode) return this.nodeItems;
+    return this.getItemElements()
+      .filter((item) => item.itemId)
+      .map((item) => ({
+        id: item.itemId,
+        parentId: item.parentElement?.closest("ds-tree-item")?.itemId || undefined,
+        disabled: item.disabled,
+        hasChildren: item.lazy,
+      }));
+  }
+
+  /**
+   * Picks up a new item's `selected` state in checkbox mode, and checks it
+   * when its parent is checked.
+   * @internal
+   */
+  handleItemConnected(item: DsTreeItem): void {
+    this.pendingItems.add(item);
+    if (this.pendingSync) return;
+    this.pendingSync = true;
+    queueMicrotask(() => {
+      this.pendingSync = false;
+      const pending = Array.from(this.pendingItems);
+      this.pendingItems.clear();
+      if (this.selectionMode !== "checkbox") return;
+
+      const items = this.getTreeItems();
+      this.syncingChecks = true;
+      for (const element of pending) {
+        if (element.isConnected && element.selected && element.itemId) {
+          this.behavior.setChecked(element.itemId, true, items);
+        }
+      }
+      this.behavior.syncChecked(items);
+      this.syncingChecks = false;
+      this.syncItemStates();
+    });
+  }
+
+  /** Reflects check states onto the items */
+  private syncItemStates(): void {
+    if (this.selectionMode !== "checkbox") return;
+    for (const item of this.getItemElements()) {
+      item.selected = this.behavior.checkedIds.has(item.itemId);
+      item.requestUpdate();
+    }
+  }
+
+  /**
+   * Gets an item's check state in checkbox mode.
+   */
+  getItemCheckedState(itemId: string): TreeCheckedState {
+    return this.behavior.getCheckedState(itemId, this.getTreeItems());
+  }
+
+  /**
+   * Gets the load state of an item's lazily loaded children.
+   */
+  getItemLoadState(itemId: string): TreeLoadState {
+    return this.behavior.getLoadState(itemId);
+  }
+
+  /**
+   * Loads an item's children again, e.g. after an error.
+   */
+  retryLoad(itemId: string): Promise<void> {
+    return this.behavior.loadChildren(itemId);
+  }
+
+  /** @internal */
+  handleItemExpand(itemId: string, expanded: boolean): void {
+    if (expanded) {
+      this.behavior.expand(itemId);
+    } else {
+      this.behavior.collapse(itemId);
+    }
+  }
+
+  /** Handles Alt+Arrow moves for an item. @internal */
+  handleItemKeyDown(event: KeyboardEvent, itemId: string): void {
+    if (!this.reorderable || this.loading || this.isDataMode) return;
+    this.behavior.focus(itemId);
+    this.behavior.handleKeyDown(
+      event,
+      this.getTreeItems(),
+      (id) => this.getItemElement(id) ?? null
+    );
+  }
+
+  /**
+   * Moves an item before, after or into another item. Emits the cancelable
+   * `ds:move` first; returns false if the move is not allowed or canceled.
+   * Trees rendered from `nodes` don't move items.
+   */
+  moveItem(sourceId: string, targetId: string, position: TreeDropPosition): boolean {
+    if (this.isDataMode) return false;
+    return this.behavior.moveItem(sourceId, targetId, position, this.getTreeItems()) !== null;
+  }
+
+  private applyMove(move: TreeMove): boolean {
+    const event = emitEvent(this, "move", { detail: move, cancelable: true });
+    if (event.defaultPrevented) return false;
+
+    const source = this.getItemElement(move.sourceId);
+    const target = this.getItemElement(move.targetId);
+    if (!source || !target) return false;
+
+    const hadFocus = source.contains(document.activeElement);
+    const oldParent = source.parentElement?.closest("ds-tree-item");
+
+    if (move.position === "before") {
+      target.before(source);
+    } else if (move.position === "after") {
+      target.after(source);
+    } else {
+      let group = Array.from(target.children).find((child) => child.slot === "children");
+      if (!group) {
+        group = document.createElement("div");
+        group.setAttribute("slot", "children");
+        target.append(group);
+      }
+      group.append(source);
+      // Open the new parent so the item stays visible
+      if (!target.expanded) {
+        target.expanded = true;
+        this.behavior.expand(target.itemId);
+        emitEvent(target, "expand", { detail: { itemId: target.itemId, expanded: true } });
+      }
+    }
+
+    // Siblings, the old parent and the new parent change position or children
+    for (const item of this.getItemElements()) {
+      item.updateAriaPosition();
+      item.requestUpdate();
+    }
+    oldParent?.requestUpdate();
+
+    if (hadFocus) {
+      void target.updateComplete.then(() => {
+        source.querySelector<HTMLElement>(".ds-tree-item__content")?.focus();
+      });
+    }
+    announce(this.localize.t("tree.moved", { name: getTreeItemLabel(source) }));
+    return true;
+  }
+
+  private handleDragStart = (event: DragEvent): void => {
+    const item = (event.target as Element).closest?.("ds-tree-item");
+    if (!this.reorderable || this.loading || this.isDataMode || !item || item.disabled) return;
+
+    this.dragSourceId = item.itemId;
+    item.toggleAttribute("data-dragging", true);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", item.itemId);
+    }
+  };
+
+  private handleDragOver = (event: DragEvent): void => {
+    if (this.dragSourceId === null) return;
+
+    const item = (event.target as Element).closest?.("ds-tree-item") ?? null;
+    const position = item ? this.getDropPosition(event, item) : null;
+    const allowed =
+      item !== null &&
+      position !== null &&
+      this.behavior.getMove(this.dragSourceId, item.itemId, position, this.getTreeItems()) !== null;
+
+    this.setDropTarget(allowed ? item : null, position);
+    if (!allowed) return;
+
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = "move";
+    }
+  };
+
+  private handleDrop = (event: DragEvent): void => {
+    const target = this.dropTarget;
+    const position = target?.getAttribute("data-drop-position") as TreeDropPosition | null;
+    if (this.dragSourceId === null || !target || !position) return;
+
+    event.preventDefault();
+    this.moveItem(this.dragSourceId, target.itemId, position);
+    this.handleDragEnd();
+  };
+
+  private handleDragEnd = (): void => {
+    if (this.dragSourceId !== null) {
+      this.getItemElement(this.dragSourceId)?.removeAttribute("data-dragging");
+    }
+    this.dragSourceId = null;
+    this.setDropTarget(null, null);
+  };
+
+  /** Top quarter drops before, bottom quarter after, the rest inside */
+  private getDropPosition(event: DragEvent, item: DsTreeItem): TreeDropPosition {
+    const content = item.querySelector(".ds-tree-item__content") ?? item;
+    const rect = content.getBoundingClientRect();
+    const ratio = rect.height > 0 ? (event.clientY - rect.top) / rect.height : 0.5;
+    if (ratio < 0.25) return "before";
+    if (ratio > 0.75) return "after";
+    return "inside";
+  }
+
+  private setDropTarget(item: DsTreeItem | null, position: TreeDropPosition | null): void {
+    if (this.dropTarget && this.dropTarget !== item) {
+      this.dropTarget.removeAttribute("data-drop-position");
+    }
+    this.dropTarget = item;
+    if (item && position) {
+      item.setAttribute("data-drop-position", position);
+    }
+  }
+
+  /**
+   * Indexes `nodes` and applies `expanded` and `selected` of nodes that are
+   * new since the last sync.
+   */
+  private syncNodes(): void {
+    const all = flattenTree(this.nodes);
+    this.nodeIndex = new Map(all.map((flat) => [flat.id, flat]));
+    this.nodeItems = all.map((flat) => ({
+      id: flat.id,
+      parentId: flat.parentId,
+      disabled: flat.node.disabled,
+      hasChildren: flat.expandable,
+    }));
+    this.nodeCheckedStates = null;
+    this.visibleDirty = true;
+
+    this.syncingNodes = true;
+    for (const { id, node, expandable } of all) {
+      if (this.knownNodeIds.has(id)) continue;
+      this.knownNodeIds.add(id);
+      if (node.expanded && expandable) this.behavior.expand(id);
+      if (!node.selected) continue;
+      if (this.selectionMode === "checkbox") {
+        this.behavior.setChecked(id, true, this.nodeItems);
+      } else if (this.selectionMode !== "none") {
+        this.selectedItems.add(id);
+      }
+    }
+    // Children loaded under a checked parent start checked
+    this.behavior.syncChecked(this.nodeItems);
+    this.syncingNodes = false;
+  }
+
+  private updateVisibleNodes(): void {
+    this.visibleNodes = flattenTree(this.nodes, this.behavior.expandedIds);
+    this.visibleItems = this.visibleNodes.map((flat) => ({
+      id: flat.id,
+      parentId: flat.parentId,
+      disabled: flat.node.disabled,
+      hasChildren: flat.expandable,
+    }));
+    this.visibleDirty = false;
+    this.virtualWindow?.setCount(this.visibleNodes.length);
+  }
+
+  /** Whether a node has children that are not loaded yet */
+  private isLazyNode(id: string): boolean {
+    const node = this.nodeIndex.get(id)?.node;
+    return node?.hasChildren === true && !node.children?.length;
+  }
+
+  private getNodeContent(id: string): HTMLElement | null {
+    return (
+      Array.from(this.querySelectorAll<HTMLElement>("li[data-node-id]"))
+        .find((row) => row.dataset.nodeId === id)
+        ?.querySelector<HTMLElement>(".ds-tree-item__content") ?? null
+    );
+  }
+
+  /**
+   * Scrolls a node of `nodes` into view, expanding its ancestors and
+   * mounting its row if needed.
+   */
+  scrollToId(id: string, align: "start" | "center" | "end" | "nearest" = "nearest"): void {
+    const flat = this.nodeIndex.get(id);
+    if (!flat) return;
+
+    for (
+      let parentId = flat.parentId;
+      parentId !== undefined;
+      parentId = this.nodeIndex.get(parentId)?.parentId
+    ) {
+      if (!this.behavior.expandedIds.has(parentId)) this.behavior.expand(parentId);
+    }
+    if (this.visibleDirty) this.updateVisibleNodes();
+
+    const index = this.visibleNodes.findIndex((visible) => visible.id === id);
+    if (index === -1) return;
+
+    if (!this.virtualWindow) {
+      void this.updateComplete.then(() => {
+        this.getNodeContent(id)?.scrollIntoView({ block: align });
+      });
+      return;
+    }
+
+    this.scrollTop = this.virtualWindow.getScrollOffsetForIndex(
+      index,
+      this.clientHeight,
+      this.scrollTop,
+      align
+    );
+    this.requestUpdate();
+  }
+
+  /** Moves focus to a node, scrolling its row into view first */
+  private focusNode(id: string): void {
+    this.behavior.focus(id);
+    this.pendingFocusId = id;
+    this.scrollToId(id);
+    this.requestUpdate();
+  }
+
+  private handleNodeKeyDown = (event: KeyboardEvent): void => {
+    if (!this.isDataMode || this.loading || event.altKey) return;
+    const id = this.getEventNodeId(event, ".ds-tree-item__content");
+    if (id === null) return;
+
+    this.behavior.focus(id);
+
+    // Select with the tree's own selection, against every node for checks
+    if (event.key === " ") {
+      event.preventDefault();
+      this.selectNode(id);
+      return;
+    }
+
+    this.behavior.handleKeyDown(event, this.visibleItems, (target) => this.getNodeContent(target));
+    if (!event.defaultPrevented) {
+      this.typeAhead.handleKeyDown(event);
+    }
+
+    const focusedId = this.behavior.focusedId;
+    if (focusedId !== null && focusedId !== id) {
+      this.focusNode(focusedId);
+    }
+  };
+
+  private handleNodeClick = (event: MouseEvent): void => {
+    if (!this.isDataMode || this.loading) return;
+    const id = this.getEventNodeId(event, ".ds-tree-item__content, .ds-tree-item__retry");
+    if (id === null) return;
+
+    const target = event.target as Element;
+    if (target.closest(".ds-tree-item__retry")) {
+      void this.retryLoad(id);
+      return;
+    }
+    if (this.nodeIndex.get(id)?.node.disabled) return;
+
+    this.behavior.focus(id);
+    if (target.closest(".ds-tree-item__expand")) {
+      this.behavior.toggleExpand(id);
+    } else {
+      this.selectNode(id);
+    }
+  };
+
+  private handleNodeFocusIn = (event: FocusEvent): void => {
+    if (!this.isDataMode) return;
+    const id = this.getEventNodeId(event, ".ds-tree-item__content");
+    if (id === null || id === this.behavior.focusedId) return;
+
+    // Keep the roving tab stop on the focused row
+    this.behavior.focus(id);
+    this.requestUpdate();
+  };
+
+  /** ID of the node whose row contains the event target within `selector` */
+  private getEventNodeId(event: Event, selector: string): string | null {
+    const target = event.target as Element;
+    if (!target.closest?.(selector)) return null;
+    return target.closest<HTMLElement>("li[data-node-id]")?.dataset.nodeId ?? null;
+  }
+
+  private selectNode(id: string): void {
+    if (this.nodeIndex.get(id)?.node.disabled) return;
+    this.handleItemSelect(id);
+    emitEvent(this, "select", { detail: { itemId: id, selected: this.isItemSelected(id) } });
+  }
+
+  private setupVirtualization(): void {
+    if (this.visibleDirty) this.updateVisibleNodes();
+    this.virtualWindow = createVirtualWindow({
+      count: this.visibleNodes.length,
+      estimateSize: this.itemHeight,
+      overscan: this.overscan,
+      getItemKey: (index) => this.visibleNodes[index]?.id ?? index,
+    });
+    this.addEventListener("scroll", this.handleVirtualScroll, { passive: true });
+    if (typeof ResizeObserver !== "undefined") {
+      this.resizeObserver = new ResizeObserver(this.handleVirtualScroll);
+      this.resizeObserver.observe(this);
+    }
+  }
+
+  private teardownVirtualization(): void {
+    if (this.virtualFrame !== null) {
+      cancelAnimationFrame(this.virtualFrame);
+      this.virtualFrame = null;
+    }
+    this.removeEventListener("scroll", this.handleVirtualScroll);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.virtualWindow = null;
+  }
+
+  private handleVirtualScroll = (): void => {
+    if (this.virtualFrame !== null) return;
+    this.virtualFrame = requestAnimationFrame(() => {
+      this.virtualFrame = null;
+      // willUpdate recomputes the range from the scroll position
+      this.requestUpdate();
+    });
+  };
+
+  private computeDataRange(): { start: number; end: number } {
+    if (!this.virtualWindow) return { start: 0, end: this.visibleNodes.length };
+    const { start, end } = this.virtualWindow.getRange(this.scrollTop, this.clientHeight);
+    return { start, end };
+  }
+
+  /**
+   * Refine row height estimates from the rendered rows.
+   */
+  private measureRows(): void {
+    const virtual = this.virtualWindow;
+    if (!virtual) return;
+
+    let changed = false;
+    for (const row of this.querySelectorAll<HTMLElement>("li[data-node-index]")) {
+      const index = Number(row.dataset.nodeIndex);
+      changed = virtual.measure(index, row.getBoundingClientRect().height) || changed;
+    }
+    if (changed) this.requestUpdate();
+  }
+
   /**
    * Checks if a specific node is currently loading.
    */
@@ -84,6 +805,11 @@ export class DsTree extends DSElement {
     if (this.loading) return;
     if (this.selectionMode === "none") return;
 
+    if (this.selectionMode === "checkbox") {
+      this.behavior.toggleChecked(itemId, this.getTreeItems());
+      return;
+    }
+
     if (this.selectionMode === "single") {
       this.selectedItems.clear();
       this.selectedItems.add(itemId);
@@ -103,6 +829,9 @@ export class DsTree extends DSElement {
   }
 
   isItemSelected(itemId: string): boolean {
+    if (this.selectionMode === "checkbox") {
+      return this.behavior.checkedIds.has(itemId);
+    }
     return this.selectedItems.has(itemId);
   }
 
@@ -116,16 +845,137 @@ export class DsTree extends DSElement {
         class=${classMap(classes)}
         role="tree"
         aria-label=${this.label}
-        aria-multiselectable=${this.selectionMode === "multiple" ? "true" : nothing}
+        aria-multiselectable=${
+          this.selectionMode === "multiple" || this.selectionMode === "checkbox" ? "true" : nothing
+        }
         aria-busy=${this.loading ? "true" : nothing}
         data-size=${this.size !== "default" ? this.size : nothing}
         ?data-lines=${this.lines}
         ?data-loading=${this.loading}
+        @keydown=${this.handleNodeKeyDown}
+        @click=${this.handleNodeClick}
+        @focusin=${this.handleNodeFocusIn}
       >
-        <slot></slot>
+        ${this.isDataMode ? this.renderNodes() : html`<slot></slot>`}
       </ul>
     `;
   }
+
+  private renderNodes(): TemplateResult[] {
+    const virtual = this.virtualWindow;
+    const { start, end } = virtual ? this.dataRange : { start: 0, end: this.visibleNodes.length };
+    const rendered = this.visibleNodes.slice(start, end);
+    if (this.selectionMode === "checkbox" && !this.nodeCheckedStates) {
+      this.nodeCheckedStates = this.behavior.getCheckedStates(this.nodeItems);
+    }
+    const checkedStates = this.selectionMode === "checkbox" ? this.nodeCheckedStates : null;
+
+    // One tab stop: the focused row, or the first enabled row in view
+    const focusedId = this.behavior.focusedId;
+    const tabStopId = rendered.some((flat) => flat.id === focusedId)
+      ? focusedId
+      : (rendered.find((flat) => !flat.node.disabled)?.id ?? null);
+
+    const rows = rendered.map((flat, i) =>
+      this.renderNode(flat, start + i, checkedStates?.get(flat.id) ?? null, flat.id === tabStopId)
+    );
+    if (!virtual) return rows;
+
+    return [
+      this.renderSpacer(virtual.getOffset(start)),
+      ...rows,
+      this.renderSpacer(virtual.getTotalSize() - virtual.getOffset(end)),
+    ];
+  }
+
+  private renderSpacer(height: number): TemplateResult {
+    return html`<li class="ds-tree__spacer" role="none" aria-hidden="true" style="height: ${height}px"></li>`;
+  }
+
+  private renderNode(
+    flat: FlatTreeNode,
+    index: number,
+    checkedState: TreeCheckedState | null,
+    tabStop: boolean
+  ): TemplateResult {
+    const { id, node, expandable, expanded } = flat;
+    const selected = this.isItemSelected(id);
+    const loadState = this.behavior.getLoadState(id);
+    const loading = loadState === "loading" || this.isNodeLoading(id);
+
+    return html`
+      <li
+        class="ds-tree-item"
+        role="treeitem"
+        data-node-id=${id}
+        data-node-index=${index}
+        aria-expanded=${expandable ? (expanded ? "true" : "false") : nothing}
+        aria-selected=${checkedState ? nothing : selected ? "true" : "false"}
+        aria-checked=${
+          checkedState
+            ? checkedState === "mixed"
+              ? "mixed"
+              : String(checkedState === "checked")
+            : nothing
+        }
+        aria-disabled=${node.disabled ? "true" : nothing}
+        aria-busy=${loading ? "true" : nothing}
+        aria-level=${flat.level}
+        aria-setsize=${flat.setSize}
+        aria-posinset=${flat.posInSet}
+        ?data-expanded=${expanded}
+        ?data-selected=${selected}
+        ?data-disabled=${node.disabled}
+        ?data-loading=${loading}
+        style="--_tree-depth: ${flat.level - 1}"
+      >
+        <div class="ds-tree-item__content" tabindex=${tabStop ? 0 : -1}>
+          ${
+            expandable
+              ? html`
+                <button
+                  type="button"
+                  class="ds-tree-item__expand"
+                  aria-label=${this.localize.t(expanded ? "tree.collapse" : "tree.expand")}
+                  tabindex="-1"
+                >
+                  ${chevronIcon}
+                </button>
+              `
+              : html`<span class="ds-tree-item__spacer"></span>`
+          }
+          ${
+            checkedState
+              ? html`
+                <span class="ds-tree-item__checkbox" data-state=${checkedState} aria-hidden="true">
+                  ${checkedState === "checked" ? checkIcon : checkedState === "mixed" ? mixedIcon : nothing}
+                </span>
+              `
+              : nothing
+          }
+          <span class="ds-tree-item__label">${node.label}</span>
+        </div>
+        ${
+          expanded && (loadState === "loading" || loadState === "error")
+            ? html`
+              <div class="ds-tree-item__status" role="status" data-state=${loadState}>
+                ${
+                  loadState === "loading"
+                    ? this.localize.t("tree.loading")
+                    : html`
+                      <span>${this.localize.t("tree.loadError")}</span>
+                      <button type="button" class="ds-tree-item__retry">
+                        ${this.localize.t("tree.retry")}
+                      </button>
+                    `
+                }
+              </div>
+            `
+            : nothing
+        }
+      </li>
+    `;
+  }
 }
 
 // Register the component
@@ -5,11 +5,12 @@
 
 // Base class and mixins
 export { DSElement } from "./base/ds-element.js";
-export { FormAssociatedMixin } from "./base/form-associated.js";
+export { FormAssociatedMixin, getNumericValidationFlags } from "./base/form-associated.js";
 export type {
   FormAssociatedElement,
   FormAssociatedInterface,
   FormLifecycleCallbacks,
+  NumericConstraints,
   ValidationFlags,
 } from "./base/form-associated.js";
 
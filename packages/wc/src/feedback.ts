@@ -21,6 +21,8 @@ export {
   type ToastState,
   type ToastAction,
   type ToastControllerOptions,
+  type ToastContent,
+  type ToastPromiseOptions,
 } from "./components/toast/index.js";
 
 // Progress component
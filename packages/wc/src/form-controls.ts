@@ -28,6 +28,7 @@ export { DsCombobox } from "./components/combobox/combobox.js";
 export { DsComboboxInput } from "./components/combobox/combobox-input.js";
 export { DsComboboxContent } from "./components/combobox/combobox-content.js";
 export type { ComboboxContentState } from "./components/combobox/combobox-content.js";
+export { DsComboboxGroup } from "./components/combobox/combobox-group.js";
 export { DsComboboxOption } from "./components/combobox/combobox-option.js";
 export { DsComboboxTag } from "./components/combobox/combobox-tag.js";
 
@@ -43,6 +44,8 @@ export { DsPinInput } from "./components/pin-input/pin-input.js";
 export { DsDatePicker } from "./components/date-picker/date-picker.js";
 export type { DatePickerMode } from "./components/date-picker/date-picker.js";
 export { DsDatePickerCalendar } from "./components/date-picker/date-picker-calendar.js";
+export { DsDateField } from "./components/date-field/date-field.js";
+export { DsDateTimePicker } from "./components/date-time-picker/date-time-picker.js";
 export type { CalendarState } from "./components/date-picker/date-picker-calendar.js";
 
 // Field pattern components
@@ -50,3 +53,10 @@ export { DsField } from "./components/field/field.js";
 export { DsLabel } from "./components/field/label.js";
 export { DsFieldDescription } from "./components/field/field-description.js";
 export { DsFieldError } from "./components/field/field-error.js";
+
+// Form controller component
+export { DsForm } from "./components/form/form.js";
+export type {
+  DsFormSubmitEventDetail,
+  DsFormInvalidSubmitEventDetail,
+} from "./components/form/form.js";
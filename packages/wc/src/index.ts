@@ -1,12 +1,19 @@
 // Base class and mixins
 export { DSElement } from "./base/ds-element.js";
-export { FormAssociatedMixin } from "./base/form-associated.js";
+export { FormAssociatedMixin, getNumericValidationFlags } from "./base/form-associated.js";
 export type {
   FormAssociatedElement,
   FormAssociatedInterface,
   FormLifecycleCallbacks,
+  NumericConstraints,
   ValidationFlags,
 } from "./base/form-associated.js";
+export { LocalizeController } from "./base/localize-controller.js";
+export type { LocalizeHost } from "./base/localize-controller.js";
+
+// Localization
+export { setMessages, getLocale } from "@hypoth-ui/primitives-dom";
+export type { Messages, MessageKey, MessageValues } from "@hypoth-ui/primitives-dom";
 
 // Event utilities
 export { emitEvent, StandardEvents } from "./events/emit.js";
@@ -49,6 +56,13 @@ export { DsLabel } from "./components/field/label.js";
 export { DsFieldDescription } from "./components/field/field-description.js";
 export { DsFieldError } from "./components/field/field-error.js";
 
+// Form controller component
+export { DsForm } from "./components/form/form.js";
+export type {
+  DsFormSubmitEventDetail,
+  DsFormInvalidSubmitEventDetail,
+} from "./components/form/form.js";
+
 // Dialog components
 export { DsDialog } from "./components/dialog/dialog.js";
 export type { DialogRole } from "./components/dialog/dialog.js";
@@ -84,6 +98,9 @@ export { DsTooltipContent } from "./components/tooltip/tooltip-content.js";
 export { DsMenu } from "./components/menu/menu.js";
 export { DsMenuContent } from "./components/menu/menu-content.js";
 export { DsMenuItem } from "./components/menu/menu-item.js";
+export { DsMenuSub } from "./components/menu/menu-sub.js";
+export { DsMenuSubTrigger } from "./components/menu/menu-sub-trigger.js";
+export { DsMenuSubContent } from "./components/menu/menu-sub-content.js";
 
 // Select components
 export { DsSelect } from "./components/select/select.js";
@@ -97,6 +114,7 @@ export { DsCombobox } from "./components/combobox/combobox.js";
 export { DsComboboxInput } from "./components/combobox/combobox-input.js";
 export { DsComboboxContent } from "./components/combobox/combobox-content.js";
 export type { ComboboxContentState } from "./components/combobox/combobox-content.js";
+export { DsComboboxGroup } from "./components/combobox/combobox-group.js";
 export { DsComboboxOption } from "./components/combobox/combobox-option.js";
 export { DsComboboxTag } from "./components/combobox/combobox-tag.js";
 
@@ -106,6 +124,9 @@ export type { DatePickerMode } from "./components/date-picker/date-picker.js";
 export { DsDatePickerCalendar } from "./components/date-picker/date-picker-calendar.js";
 export type { CalendarState } from "./components/date-picker/date-picker-calendar.js";
 
+// DateField component
+export { DsDateField } from "./components/date-field/date-field.js";
+
 // Slider component
 export { DsSlider } from "./components/slider/slider.js";
 
@@ -119,6 +140,9 @@ export { DsFileUpload } from "./components/file-upload/file-upload.js";
 // TimePicker component
 export { DsTimePicker } from "./components/time-picker/time-picker.js";
 
+// DateTimePicker component
+export { DsDateTimePicker } from "./components/date-time-picker/date-time-picker.js";
+
 // PinInput component
 export { DsPinInput } from "./components/pin-input/pin-input.js";
 
@@ -204,6 +228,9 @@ export { DsDropdownMenuLabel } from "./components/dropdown-menu/dropdown-menu-la
 export { DsDropdownMenuCheckboxItem } from "./components/dropdown-menu/dropdown-menu-checkbox-item.js";
 export { DsDropdownMenuRadioGroup } from "./components/dropdown-menu/dropdown-menu-radio-group.js";
 export { DsDropdownMenuRadioItem } from "./components/dropdown-menu/dropdown-menu-radio-item.js";
+export { DsDropdownMenuSub } from "./components/dropdown-menu/dropdown-menu-sub.js";
+export { DsDropdownMenuSubTrigger } from "./components/dropdown-menu/dropdown-menu-sub-trigger.js";
+export { DsDropdownMenuSubContent } from "./components/dropdown-menu/dropdown-menu-sub-content.js";
 
 // ContextMenu components
 export { DsContextMenu } from "./components/context-menu/context-menu.js";
@@ -214,6 +241,9 @@ export {
 } from "./components/context-menu/context-menu-item.js";
 export { DsContextMenuSeparator } from "./components/context-menu/context-menu-separator.js";
 export { DsContextMenuLabel } from "./components/context-menu/context-menu-label.js";
+export { DsContextMenuSub } from "./components/context-menu/context-menu-sub.js";
+export { DsContextMenuSubTrigger } from "./components/context-menu/context-menu-sub-trigger.js";
+export { DsContextMenuSubContent } from "./components/context-menu/context-menu-sub-content.js";
 
 // HoverCard components
 export { DsHoverCard } from "./components/hover-card/hover-card.js";
@@ -274,6 +304,12 @@ export { DsCommandGroup } from "./components/command/command-group.js";
 export { DsCommandSeparator } from "./components/command/command-separator.js";
 export { DsCommandEmpty } from "./components/command/command-empty.js";
 export { DsCommandLoading } from "./components/command/command-loading.js";
+export { DsCommandPage } from "./components/command/command-page.js";
+export { DsCommandDialog } from "./components/command/command-dialog.js";
+export type {
+  CommandPaletteSource,
+  CommandSourceItem,
+} from "./components/command/command.js";
 
 // Alert component
 export { DsAlert, type AlertVariant } from "./components/alert/index.js";
@@ -293,6 +329,8 @@ export {
   type ToastState,
   type ToastAction,
   type ToastControllerOptions,
+  type ToastContent,
+  type ToastPromiseOptions,
 } from "./components/toast/index.js";
 
 // Progress component
@@ -371,6 +409,18 @@ export {
   type DataTableSort,
   type DataTablePagination,
   type DataTableSortDirection,
+  type DataTableColumnState,
+  type DataTableColumnStateReason,
+  type DataTablePinSide,
+  type DataTableCellEditDetail,
+  type DataTableCellEditSource,
+  type DataTableEditorOption,
+  type DataTableEditorType,
+  type DataTableValidationResult,
+  type DataTableAggregate,
+  type DataTableAggregateFunction,
+  type DataTableExpandChangeDetail,
+  type DataTableExpandKind,
 } from "./components/data-table/index.js";
 
 // Layout primitives
@@ -70,6 +70,12 @@ export { DsCommandGroup } from "./components/command/command-group.js";
 export { DsCommandSeparator } from "./components/command/command-separator.js";
 export { DsCommandEmpty } from "./components/command/command-empty.js";
 export { DsCommandLoading } from "./components/command/command-loading.js";
+export { DsCommandPage } from "./components/command/command-page.js";
+export { DsCommandDialog } from "./components/command/command-dialog.js";
+export type {
+  CommandPaletteSource,
+  CommandSourceItem,
+} from "./components/command/command.js";
 
 // ScrollArea components
 export { DsScrollArea, type ScrollAreaType } from "./components/scroll-area/scroll-area.js";
@@ -59,6 +59,9 @@ export { DsTooltipContent } from "./components/tooltip/tooltip-content.js";
 export { DsMenu } from "./components/menu/menu.js";
 export { DsMenuContent } from "./components/menu/menu-content.js";
 export { DsMenuItem } from "./components/menu/menu-item.js";
+export { DsMenuSub } from "./components/menu/menu-sub.js";
+export { DsMenuSubTrigger } from "./components/menu/menu-sub-trigger.js";
+export { DsMenuSubContent } from "./components/menu/menu-sub-content.js";
 
 // DropdownMenu components
 export { DsDropdownMenu } from "./components/dropdown-menu/dropdown-menu.js";
@@ -72,6 +75,9 @@ export { DsDropdownMenuLabel } from "./components/dropdown-menu/dropdown-menu-la
 export { DsDropdownMenuCheckboxItem } from "./components/dropdown-menu/dropdown-menu-checkbox-item.js";
 export { DsDropdownMenuRadioGroup } from "./components/dropdown-menu/dropdown-menu-radio-group.js";
 export { DsDropdownMenuRadioItem } from "./components/dropdown-menu/dropdown-menu-radio-item.js";
+export { DsDropdownMenuSub } from "./components/dropdown-menu/dropdown-menu-sub.js";
+export { DsDropdownMenuSubTrigger } from "./components/dropdown-menu/dropdown-menu-sub-trigger.js";
+export { DsDropdownMenuSubContent } from "./components/dropdown-menu/dropdown-menu-sub-content.js";
 
 // ContextMenu components
 export { DsContextMenu } from "./components/context-menu/context-menu.js";
@@ -82,6 +88,9 @@ export {
 } from "./components/context-menu/context-menu-item.js";
 export { DsContextMenuSeparator } from "./components/context-menu/context-menu-separator.js";
 export { DsContextMenuLabel } from "./components/context-menu/context-menu-label.js";
+export { DsContextMenuSub } from "./components/context-menu/context-menu-sub.js";
+export { DsContextMenuSubTrigger } from "./components/context-menu/context-menu-sub-trigger.js";
+export { DsContextMenuSubContent } from "./components/context-menu/context-menu-sub-content.js";
 
 // HoverCard components
 export { DsHoverCard } from "./components/hover-card/hover-card.js";
@@ -0,0 +1,44 @@
+/**
+ * Element Reordering
+ *
+ * Moves elements into a given order within their parents, for lists that
+ * rank their children (e.g. search results). Only elements that are out of
+ * place are moved, and siblings not in the list stay next to the element
+ * that followed them.
+ */
+
+/**
+ * Arrange elements so that, within each parent, they appear in the order
+ * given. Elements with different parents are arranged independently.
+ *
+ * @example
+ * arrangeElements(rankedItems); // best match first in each group
+ */
+export function arrangeElements(ordered: readonly Element[]): void {
+  const byParent = new Map<Node, Element[]>();
+  for (const element of ordered) {
+    const parent = element.parentNode;
+    if (!parent) continue;
+    const siblings = byParent.get(parent);
+    if (siblings) {
+      siblings.push(element);
+    } else {
+      byParent.set(parent, [element]);
+    }
+  }
+
+  for (const [parent, target] of byParent) {
+    const members = new Set(target);
+    const current = Array.from(parent.childNodes).filter((node): node is Element =>
+      members.has(node as Element)
+    );
+
+    target.forEach((element, index) => {
+      const occupant = current[index];
+      if (!occupant || occupant === element) return;
+      parent.insertBefore(element, occupant);
+      current.splice(current.indexOf(element), 1);
+      current.splice(index, 0, element);
+    });
+  }
+}
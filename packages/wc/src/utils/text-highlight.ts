@@ -0,0 +1,81 @@
+/**
+ * Text Match Highlighting
+ *
+ * Paints matched text ranges with the CSS Custom Highlight API, so slotted
+ * content (including framework-rendered children) is never rewritten. Style
+ * the highlight with `::highlight(<name>)`. Where the API is unsupported,
+ * highlighting is skipped.
+ */
+
+import type { MatchRange } from "@hypoth-ui/primitives-dom";
+
+/** DOM ranges currently painted for each element */
+const paintedRanges = new WeakMap<Element, Range[]>();
+
+function createTextRange(root: Element, start: number, end: number): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (!started && start < offset + length) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset += length;
+  }
+
+  return null;
+}
+
+/**
+ * Highlight ranges of an element's `textContent`, replacing any ranges
+ * previously highlighted for it. Pass an empty array to clear.
+ *
+ * @param name - Highlight name, styled with `::highlight(name)`
+ * @param element - Element whose text the ranges refer to
+ * @param ranges - Offsets into `element.textContent`
+ * @param offset - Added to every range, e.g. to skip trimmed leading whitespace
+ *
+ * @example
+ * setTextHighlights("ds-command-match", item, [{ start: 0, end: 2 }]);
+ */
+export function setTextHighlights(
+  name: string,
+  element: Element,
+  ranges: readonly MatchRange[],
+  offset = 0
+): void {
+  if (typeof CSS === "undefined" || !CSS.highlights || typeof Highlight === "undefined") return;
+
+  let highlight = CSS.highlights.get(name);
+  if (!highlight) {
+    highlight = new Highlight();
+    CSS.highlights.set(name, highlight);
+  }
+
+  for (const range of paintedRanges.get(element) ?? []) {
+    highlight.delete(range);
+  }
+
+  const painted: Range[] = [];
+  for (const { start, end } of ranges) {
+    const range = createTextRange(element, start + offset, end + offset);
+    if (range) {
+      highlight.add(range);
+      painted.push(range);
+    }
+  }
+
+  if (painted.length > 0) {
+    paintedRanges.set(element, painted);
+  } else {
+    paintedRanges.delete(element);
+  }
+}
@@ -0,0 +1,61 @@
+import { toHaveNoViolations } from "jest-axe";
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { axe } from "./setup.js";
+import "../../src/components/date-field/index.js";
+
+expect.extend(toHaveNoViolations);
+
+describe("DateField accessibility", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it("should have no accessibility violations when empty", async () => {
+    render(html`<ds-date-field></ds-date-field>`, container);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it("should have no accessibility violations with value", async () => {
+    render(html`<ds-date-field locale="de-DE" value="2026-03-15"></ds-date-field>`, container);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it("should have no accessibility violations when disabled", async () => {
+    render(html`<ds-date-field value="2026-03-15" disabled></ds-date-field>`, container);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it("should have spinbutton role on every segment", async () => {
+    render(html`<ds-date-field></ds-date-field>`, container);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const segments = container.querySelectorAll("[data-segment]");
+    expect(segments.length).toBe(3);
+    for (const segment of segments) {
+      expect(segment.getAttribute("role")).toBe("spinbutton");
+      expect(segment.getAttribute("aria-label")).toBeTruthy();
+      expect(segment.getAttribute("aria-valuetext")).toBeTruthy();
+    }
+  });
+});
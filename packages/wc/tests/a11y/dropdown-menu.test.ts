@@ -1,7 +1,7 @@
 import { toHaveNoViolations } from "jest-axe";
-import { axe } from "./setup.js";
 import { html, render } from "lit";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { axe } from "./setup.js";
 import "../../src/components/dropdown-menu/dropdown-menu.js";
 
 expect.extend(toHaveNoViolations);
@@ -118,6 +118,37 @@ describe("DropdownMenu Accessibility", () => {
     });
   });
 
+  describe("dropdown menu with submenus", () => {
+    it("should have no violations with an open submenu", async () => {
+      render(
+        html`
+          <ds-dropdown-menu open>
+            <ds-dropdown-menu-trigger>Actions</ds-dropdown-menu-trigger>
+            <ds-dropdown-menu-content>
+              <ds-dropdown-menu-item>Edit</ds-dropdown-menu-item>
+              <ds-dropdown-menu-sub open>
+                <ds-dropdown-menu-sub-trigger>Share</ds-dropdown-menu-sub-trigger>
+                <ds-dropdown-menu-sub-content>
+                  <ds-dropdown-menu-item>Email</ds-dropdown-menu-item>
+                  <ds-dropdown-menu-item>Copy link</ds-dropdown-menu-item>
+                </ds-dropdown-menu-sub-content>
+              </ds-dropdown-menu-sub>
+            </ds-dropdown-menu-content>
+          </ds-dropdown-menu>
+        `,
+        container
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      const subTrigger = container.querySelector("ds-dropdown-menu-sub-trigger");
+      expect(subTrigger?.getAttribute("aria-expanded")).toBe("true");
+
+      const results = await axe(container);
+      expect(results).toHaveNoViolations();
+    });
+  });
+
   describe("dropdown menu with radio group", () => {
     it("should have no violations with radio items", async () => {
       render(
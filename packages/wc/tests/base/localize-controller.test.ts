@@ -0,0 +1,66 @@
+import { setMessages } from "@hypoth-ui/primitives-dom";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "../../src/components/data-table/data-table.js";
+import "../../src/components/pagination/pagination.js";
+import type { DsDataTable } from "../../src/components/data-table/data-table.js";
+import type { DsPagination } from "../../src/components/pagination/pagination.js";
+
+describe("LocalizeController", () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    setMessages({}, "en");
+  });
+
+  it("should render English messages by default", async () => {
+    const pagination = document.createElement("ds-pagination") as DsPagination;
+    container.appendChild(pagination);
+    await pagination.updateComplete;
+
+    expect(pagination.getAttribute("aria-label")).toBe("Pagination");
+  });
+
+  it("should re-render when the global catalog changes", async () => {
+    const pagination = document.createElement("ds-pagination") as DsPagination;
+    container.appendChild(pagination);
+    await pagination.updateComplete;
+
+    setMessages({ "pagination.label": "Seitennummerierung" }, "de");
+    await pagination.updateComplete;
+
+    expect(pagination.getAttribute("aria-label")).toBe("Seitennummerierung");
+  });
+
+  it("should prefer per-instance overrides", async () => {
+    setMessages({ "dataTable.empty": "Keine Daten verfügbar" }, "de");
+
+    const table = document.createElement("ds-data-table") as DsDataTable;
+    table.columns = [{ id: "name", header: "Name" }];
+    table.rows = [];
+    table.messages = { "dataTable.empty": "Nothing here yet" };
+    container.appendChild(table);
+    await table.updateComplete;
+
+    expect(table.querySelector(".ds-data-table__empty")?.textContent?.trim()).toBe(
+      "Nothing here yet"
+    );
+  });
+
+  it("should stop updating once disconnected", async () => {
+    const pagination = document.createElement("ds-pagination") as DsPagination;
+    container.appendChild(pagination);
+    await pagination.updateComplete;
+    pagination.remove();
+
+    setMessages({ "pagination.label": "Pagination (fr)" }, "fr");
+    await pagination.updateComplete;
+
+    expect(pagination.getAttribute("aria-label")).toBe("Pagination");
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Form Value Recorder
+ *
+ * The test polyfill for ElementInternals drops submitted values, so form
+ * integration tests record them instead. Call inside a describe block.
+ */
+import { afterEach, beforeEach, vi } from "vitest";
+
+export type RecordedFormValue = File | string | FormData | null;
+
+/**
+ * Spies on attachInternals for each test in the enclosing describe block and
+ * records the last value each element passed to setFormValue.
+ */
+export function recordFormValues(): WeakMap<HTMLElement, RecordedFormValue> {
+  const formValues = new WeakMap<HTMLElement, RecordedFormValue>();
+
+  beforeEach(() => {
+    const attachInternals = HTMLElement.prototype.attachInternals;
+    vi.spyOn(HTMLElement.prototype, "attachInternals").mockImplementation(function (
+      this: HTMLElement
+    ) {
+      const internals = attachInternals.call(this);
+      const setFormValue = internals.setFormValue.bind(internals);
+      internals.setFormValue = (value, state) => {
+        formValues.set(this, value);
+        setFormValue(value, state);
+      };
+      return internals;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  return formValues;
+}
@@ -118,6 +118,74 @@ describe("DsCombobox", () => {
       const visibleOptions = container.querySelectorAll("ds-combobox-option:not([hidden])");
       expect(visibleOptions.length).toBe(1);
     });
+
+    it("should rank fuzzy matches and restore the order when cleared", async () => {
+      render(
+        html`
+          <ds-combobox>
+            <ds-combobox-input>
+              <input />
+            </ds-combobox-input>
+            <ds-combobox-content>
+              <ds-combobox-option value="pineapple">Pineapple</ds-combobox-option>
+              <ds-combobox-option value="grape" keywords="purple">Grape</ds-combobox-option>
+              <ds-combobox-option value="plum">Plum</ds-combobox-option>
+              <ds-combobox-option value="cherry">Cherry</ds-combobox-option>
+            </ds-combobox-content>
+          </ds-combobox>
+        `,
+        container
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const input = container.querySelector("input") as HTMLInputElement;
+      const values = (selector: string) =>
+        Array.from(container.querySelectorAll(selector)).map((opt) => opt.getAttribute("value"));
+
+      input.value = "pl";
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(values("ds-combobox-option:not([hidden])")).toEqual(["plum", "pineapple", "grape"]);
+
+      input.value = "";
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(values("ds-combobox-option")).toEqual(["pineapple", "grape", "plum", "cherry"]);
+    });
+
+    it("should use a custom filter", async () => {
+      render(
+        html`
+          <ds-combobox
+            .filter=${(query: string, { text }: { text: string }) =>
+              text.toLowerCase().endsWith(query) ? { score: 1, ranges: [] } : null}
+          >
+            <ds-combobox-input>
+              <input />
+            </ds-combobox-input>
+            <ds-combobox-content>
+              <ds-combobox-option value="apple">Apple</ds-combobox-option>
+              <ds-combobox-option value="banana">Banana</ds-combobox-option>
+            </ds-combobox-content>
+          </ds-combobox>
+        `,
+        container
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const input = container.querySelector("input") as HTMLInputElement;
+      input.value = "na";
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const visible = container.querySelectorAll("ds-combobox-option:not([hidden])");
+      expect(visible).toHaveLength(1);
+      expect(visible[0]?.getAttribute("value")).toBe("banana");
+    });
   });
 
   describe("selection", () => {
@@ -819,5 +887,228 @@ describe("DsCombobox", () => {
       expect(combobox.virtualizationThreshold).toBe(200);
       expect(combobox.items.length < combobox.virtualizationThreshold).toBe(true);
     });
+
+    it("should mount only the options in view and keep the set size", async () => {
+      const items: Option<string>[] = Array.from({ length: 20000 }, (_, i) => ({
+        value: `customer-${i}`,
+        label: `Customer ${i}`,
+      }));
+
+      render(
+        html`<ds-combobox .items=${items} virtualize>
+          <ds-combobox-input slot="input"><input /></ds-combobox-input>
+        </ds-combobox>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const options = container.querySelectorAll("ds-combobox-option");
+      expect(options.length).toBeGreaterThan(0);
+      expect(options.length).toBeLessThan(100);
+      expect(options[0]?.getAttribute("aria-posinset")).toBe("1");
+      expect(options[0]?.getAttribute("aria-setsize")).toBe("20000");
+    });
+
+    it("should mount the highlighted option for aria-activedescendant", async () => {
+      const items: Option<string>[] = Array.from({ length: 500 }, (_, i) => ({
+        value: `customer-${i}`,
+        label: `Customer ${i}`,
+      }));
+
+      render(
+        html`<ds-combobox .items=${items} virtualize>
+          <ds-combobox-input slot="input"><input /></ds-combobox-input>
+        </ds-combobox>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const combobox = container.querySelector("ds-combobox") as HTMLElement & {
+        show: () => void;
+      };
+      const input = container.querySelector("input") as HTMLInputElement;
+      combobox.show();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "End", bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const last = container.querySelector('ds-combobox-option[value="customer-499"]');
+      expect(last).not.toBeNull();
+      expect(last?.getAttribute("aria-posinset")).toBe("500");
+      expect(input.getAttribute("aria-activedescendant")).toBe(last?.id);
+    });
+  });
+
+  describe("groups", () => {
+    it("should label slotted groups and order them by best match", async () => {
+      render(
+        html`
+          <ds-combobox>
+            <ds-combobox-input>
+              <input />
+            </ds-combobox-input>
+            <ds-combobox-content>
+              <ds-combobox-group label="Fruit">
+                <ds-combobox-option value="apple">Apple</ds-combobox-option>
+                <ds-combobox-option value="banana">Banana</ds-combobox-option>
+              </ds-combobox-group>
+              <ds-combobox-group label="Vegetables">
+                <ds-combobox-option value="carrot">Carrot</ds-combobox-option>
+                <ds-combobox-option value="cabbage">Cabbage</ds-combobox-option>
+              </ds-combobox-group>
+            </ds-combobox-content>
+          </ds-combobox>
+        `,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const group = container.querySelector("ds-combobox-group") as HTMLElement;
+      const label = document.getElementById(group.getAttribute("aria-labelledby") ?? "");
+      expect(group.getAttribute("role")).toBe("group");
+      expect(label?.textContent).toBe("Fruit");
+
+      const input = container.querySelector("input") as HTMLInputElement;
+      input.value = "ca";
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const groups = container.querySelectorAll("ds-combobox-group");
+      expect(groups[0]?.getAttribute("label")).toBe("Vegetables");
+      expect(groups[1]?.hasAttribute("hidden")).toBe(true);
+    });
+
+    it("should render data-driven groups with labelled containers", async () => {
+      const items: Option<string>[] = [
+        { value: "apple", label: "Apple", group: "Fruit" },
+        { value: "carrot", label: "Carrot", group: "Vegetables" },
+        { value: "banana", label: "Banana", group: "Fruit" },
+      ];
+
+      render(
+        html`<ds-combobox .items=${items}>
+          <ds-combobox-input slot="input"><input /></ds-combobox-input>
+        </ds-combobox>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const groups = Array.from(container.querySelectorAll('[role="group"]'));
+      const labels = groups.map(
+        (group) => document.getElementById(group.getAttribute("aria-labelledby") ?? "")?.textContent
+      );
+      expect(labels.map((text) => text?.trim())).toEqual(["Fruit", "Vegetables"]);
+      expect(
+        Array.from(groups[0]?.querySelectorAll("ds-combobox-option") ?? []).map((opt) =>
+          opt.getAttribute("value")
+        )
+      ).toEqual(["apple", "banana"]);
+    });
+
+    it("should move aria-activedescendant with the arrow keys", async () => {
+      render(
+        html`
+          <ds-combobox>
+            <ds-combobox-input>
+              <input />
+            </ds-combobox-input>
+            <ds-combobox-content>
+              <ds-combobox-group label="Fruit">
+                <ds-combobox-option value="apple">Apple</ds-combobox-option>
+              </ds-combobox-group>
+              <ds-combobox-group label="Vegetables">
+                <ds-combobox-option value="carrot">Carrot</ds-combobox-option>
+              </ds-combobox-group>
+            </ds-combobox-content>
+          </ds-combobox>
+        `,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const combobox = container.querySelector("ds-combobox") as HTMLElement & {
+        show: () => void;
+      };
+      const input = container.querySelector("input") as HTMLInputElement;
+      combobox.show();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowDown", bubbles: true }));
+
+      const carrot = container.querySelector('ds-combobox-option[value="carrot"]');
+      expect(input.getAttribute("aria-activedescendant")).toBe(carrot?.id);
+    });
+  });
+
+  describe("pagination", () => {
+    it("should load further pages with the cursor", async () => {
+      const loadItems = vi.fn(async (_query: string, _signal: AbortSignal, cursor?: string) =>
+        cursor
+          ? { items: [{ value: "c", label: "Carol" }] }
+          : {
+              items: [
+                { value: "a", label: "Alice" },
+                { value: "b", label: "Bob" },
+              ],
+              nextCursor: "page-2",
+            }
+      );
+
+      render(
+        html`<ds-combobox .loadItems=${loadItems} debounce="0">
+          <ds-combobox-input slot="input"><input /></ds-combobox-input>
+        </ds-combobox>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const combobox = container.querySelector("ds-combobox") as HTMLElement & {
+        load: (query: string) => Promise<void>;
+        loadMore: () => Promise<void>;
+        items: Option<string>[];
+        updateComplete: Promise<boolean>;
+      };
+
+      await combobox.load("");
+      await combobox.updateComplete;
+      expect(container.querySelector("ds-combobox-option")?.getAttribute("aria-setsize")).toBe(
+        "-1"
+      );
+
+      await combobox.loadMore();
+      await combobox.updateComplete;
+
+      expect(loadItems).toHaveBeenLastCalledWith("", expect.any(AbortSignal), "page-2");
+      expect(combobox.items.map((item) => item.value)).toEqual(["a", "b", "c"]);
+      expect(container.querySelector("ds-combobox-option")?.getAttribute("aria-setsize")).toBe("3");
+
+      await combobox.loadMore();
+      expect(loadItems).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use a loader set after connecting", async () => {
+      render(
+        html`<ds-combobox debounce="0">
+          <ds-combobox-input slot="input"><input /></ds-combobox-input>
+        </ds-combobox>`,
+        container
+      );
+      const combobox = container.querySelector("ds-combobox") as HTMLElement & {
+        load: (query: string) => Promise<void>;
+        loadItems?: LoadItemsFn;
+        items: Option<string>[];
+        updateComplete: Promise<boolean>;
+      };
+      await combobox.updateComplete;
+
+      const loadItems = vi.fn<LoadItemsFn>().mockResolvedValue([{ value: "a", label: "Alice" }]);
+      combobox.loadItems = loadItems;
+      await combobox.updateComplete;
+      await combobox.load("al");
+
+      expect(loadItems).toHaveBeenCalledWith("al", expect.any(AbortSignal));
+      expect(combobox.items.map((item) => item.value)).toEqual(["a"]);
+    });
   });
 });
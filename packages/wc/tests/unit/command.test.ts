@@ -0,0 +1,346 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/command/command.js";
+import "../../src/components/command/command-dialog.js";
+import type { CommandPaletteSource, DsCommand } from "../../src/components/command/command.js";
+
+describe("DsCommand", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function renderPalette(): Promise<DsCommand> {
+    render(
+      html`
+        <ds-command>
+          <ds-command-input></ds-command-input>
+          <ds-command-list>
+            <ds-command-empty hidden>No results found.</ds-command-empty>
+            <ds-command-group heading="Edit">
+              <ds-command-item value="select-all">Select All</ds-command-item>
+              <ds-command-item value="copy" keywords="duplicate clone">Copy</ds-command-item>
+            </ds-command-group>
+            <ds-command-group heading="Preferences">
+              <ds-command-item value="reset">Reset Layout</ds-command-item>
+              <ds-command-item value="settings">Settings</ds-command-item>
+            </ds-command-group>
+          </ds-command-list>
+        </ds-command>
+      `,
+      container
+    );
+    const command = container.querySelector("ds-command") as DsCommand;
+    await command.updateComplete;
+    return command;
+  }
+
+  function visibleValues(): (string | null)[] {
+    return Array.from(container.querySelectorAll("ds-command-item:not([data-filtered])")).map(
+      (item) => item.getAttribute("value")
+    );
+  }
+
+  describe("filtering", () => {
+    it("should rank items and groups by match score", async () => {
+      const command = await renderPalette();
+
+      command.setValue("set");
+
+      expect(visibleValues()).toEqual(["settings", "reset", "select-all"]);
+      const groups = container.querySelectorAll("ds-command-group");
+      expect(groups[0]?.getAttribute("heading")).toBe("Preferences");
+    });
+
+    it("should restore the original order when cleared", async () => {
+      const command = await renderPalette();
+
+      command.setValue("set");
+      command.clear();
+
+      expect(visibleValues()).toEqual(["select-all", "copy", "reset", "settings"]);
+      expect(container.querySelector("ds-command-group")?.getAttribute("heading")).toBe("Edit");
+    });
+
+    it("should match keywords and ignore diacritics", async () => {
+      const command = await renderPalette();
+
+      command.setValue("clone");
+      expect(visibleValues()).toEqual(["copy"]);
+
+      command.setValue("séttings");
+      expect(visibleValues()[0]).toBe("settings");
+    });
+
+    it("should hide empty groups and show the empty state", async () => {
+      const command = await renderPalette();
+
+      command.setValue("copy");
+      expect(container.querySelectorAll("ds-command-group[data-empty]")).toHaveLength(1);
+
+      command.setValue("zzz");
+      expect(container.querySelector("ds-command-empty")?.hasAttribute("hidden")).toBe(false);
+    });
+
+    it("should use a custom filter function", async () => {
+      const command = await renderPalette();
+      command.filter = (query, { text }) =>
+        text.trim().toLowerCase().endsWith(query) ? { score: 1, ranges: [] } : null;
+
+      command.setValue("all");
+
+      expect(visibleValues()).toEqual(["select-all"]);
+    });
+  });
+
+  describe("pages", () => {
+    async function renderPages(): Promise<DsCommand> {
+      render(
+        html`
+          <ds-command>
+            <ds-command-input></ds-command-input>
+            <ds-command-list>
+              <ds-command-group heading="General">
+                <ds-command-item value="theme" page="theme">Change theme…</ds-command-item>
+                <ds-command-item value="settings">Settings</ds-command-item>
+              </ds-command-group>
+              <ds-command-page name="theme" heading="Theme">
+                <ds-command-item value="theme-light">Light</ds-command-item>
+                <ds-command-item value="theme-dark">Dark</ds-command-item>
+              </ds-command-page>
+            </ds-command-list>
+          </ds-command>
+        `,
+        container
+      );
+      const command = container.querySelector("ds-command") as DsCommand;
+      await command.updateComplete;
+      command.clear();
+      return command;
+    }
+
+    function pressBackspace(): void {
+      container
+        .querySelector("ds-command-input input")
+        ?.dispatchEvent(new KeyboardEvent("keydown", { key: "Backspace", bubbles: true }));
+    }
+
+    it("should only show root items until a page is opened", async () => {
+      await renderPages();
+
+      expect(visibleValues()).toEqual(["theme", "settings"]);
+    });
+
+    it("should push a page when selecting an item with a page", async () => {
+      const command = await renderPages();
+      const onSelect = vi.fn();
+      const onPageChange = vi.fn();
+      command.addEventListener("ds:select", onSelect);
+      command.addEventListener("ds:page-change", onPageChange);
+
+      (container.querySelector('ds-command-item[page="theme"]') as HTMLElement).click();
+      await command.updateComplete;
+
+      expect(onSelect).not.toHaveBeenCalled();
+      expect(onPageChange.mock.calls[0]?.[0].detail).toEqual({ page: "theme", pages: ["theme"] });
+      expect(command.getAttribute("data-page")).toBe("theme");
+      expect(visibleValues()).toEqual(["theme-light", "theme-dark"]);
+    });
+
+    it("should scope search to the open page", async () => {
+      const command = await renderPages();
+      command.pushPage("theme");
+
+      command.setValue("set");
+      expect(visibleValues()).toEqual([]);
+
+      command.setValue("dark");
+      expect(visibleValues()).toEqual(["theme-dark"]);
+    });
+
+    it("should show breadcrumbs in the input", async () => {
+      const command = await renderPages();
+      command.pushPage("theme");
+      const input = container.querySelector("ds-command-input");
+      await input?.updateComplete;
+
+      const crumbs = container.querySelector(".ds-command-input__breadcrumbs");
+      expect(crumbs?.textContent).toBe("Theme");
+      expect(
+        container.querySelector("ds-command-input input")?.getAttribute("aria-describedby")
+      ).toBe(crumbs?.id);
+    });
+
+    it("should pop the page on Backspace in the empty input", async () => {
+      const command = await renderPages();
+      command.pushPage("theme");
+
+      pressBackspace();
+      await command.updateComplete;
+
+      expect(command.pages).toEqual([]);
+      expect(command.hasAttribute("data-page")).toBe(false);
+      expect(visibleValues()).toEqual(["theme", "settings"]);
+    });
+
+    it("should clear the search when a page opens", async () => {
+      const command = await renderPages();
+      command.setValue("theme");
+
+      command.pushPage("theme");
+
+      expect(command.value).toBe("");
+      expect((container.querySelector("ds-command-input input") as HTMLInputElement).value).toBe(
+        ""
+      );
+    });
+  });
+
+  describe("sources", () => {
+    it("should render a group per source with its own loading state", async () => {
+      let resolveSlow!: (items: { value: string; label: string }[]) => void;
+      const sources: CommandPaletteSource[] = [
+        {
+          id: "files",
+          heading: "Files",
+          fetch: async (query) => [{ value: `file-${query}`, label: `File ${query}` }],
+        },
+        {
+          id: "people",
+          heading: "People",
+          fetch: () =>
+            new Promise((resolve) => {
+              resolveSlow = resolve;
+            }),
+        },
+      ];
+      const command = await renderPalette();
+      command.sourceDebounce = 0;
+      command.sources = sources;
+      await command.updateComplete;
+
+      const files = () => container.querySelector('ds-command-group[data-source="files"]');
+      const people = () => container.querySelector('ds-command-group[data-source="people"]');
+      await vi.waitFor(() => expect(files()?.getAttribute("aria-busy")).toBeNull());
+
+      expect(files()?.querySelector("ds-command-item")?.getAttribute("value")).toBe("file-");
+      expect(people()?.getAttribute("aria-busy")).toBe("true");
+      expect(people()?.querySelector("ds-command-loading")).not.toBeNull();
+
+      resolveSlow([{ value: "ada", label: "Ada" }]);
+      await vi.waitFor(() => expect(people()?.querySelector("ds-command-loading")).toBeNull());
+      expect(people()?.querySelector("ds-command-item")?.textContent).toBe("Ada");
+    });
+
+    it("should query sources with the typed value and keep their results", async () => {
+      const fetch = vi.fn(async (query: string) => [{ value: query, label: query }]);
+      const command = await renderPalette();
+      command.sourceDebounce = 0;
+      command.sources = [{ id: "remote", heading: "Remote", fetch }];
+      await command.updateComplete;
+
+      const input = container.querySelector("ds-command-input input") as HTMLInputElement;
+      input.value = "zzz";
+      input.dispatchEvent(new Event("input", { bubbles: true }));
+
+      await vi.waitFor(() => expect(visibleValues()).toEqual(["zzz"]));
+      expect(fetch).toHaveBeenLastCalledWith("zzz", expect.any(AbortSignal));
+      expect(container.querySelector("ds-command-empty")?.hasAttribute("hidden")).toBe(true);
+    });
+  });
+
+  describe("recent commands", () => {
+    it("should list recently selected commands while the search is empty", async () => {
+      const storage = new Map<string, string>();
+      const command = await renderPalette();
+      command.recentStorage = {
+        getItem: (key) => storage.get(key) ?? null,
+        setItem: (key, value) => {
+          storage.set(key, value);
+        },
+      };
+      await command.updateComplete;
+
+      (container.querySelector('ds-command-item[value="settings"]') as HTMLElement).click();
+
+      const recent = () => container.querySelector("ds-command-group[data-recent]");
+      await vi.waitFor(() => expect(recent()).not.toBeNull());
+      expect(storage.get("ds-command-recent")).toBe('["settings"]');
+      expect(recent()?.getAttribute("heading")).toBe("Recent");
+      expect(visibleValues()).toEqual(["settings", "select-all", "copy", "reset", "settings"]);
+
+      command.setValue("set");
+      expect(recent()?.getAttribute("data-empty")).toBe("true");
+    });
+
+    it("should show no recents when the storage throws or rejects", async () => {
+      let denied = true;
+      const setItem = vi.fn(() =>
+        Promise.reject(new DOMException("Storage is full", "QuotaExceededError"))
+      );
+      const command = await renderPalette();
+      command.recentStorage = {
+        getItem: () => {
+          if (denied) throw new DOMException("Access denied", "SecurityError");
+          return '["copy"]';
+        },
+        setItem,
+      };
+      await command.updateComplete;
+
+      const onSelect = vi.fn();
+      command.addEventListener("ds:select", onSelect);
+      (container.querySelector('ds-command-item[value="settings"]') as HTMLElement).click();
+
+      denied = false;
+      (container.querySelector('ds-command-item[value="copy"]') as HTMLElement).click();
+      await vi.waitFor(() => expect(setItem).toHaveBeenCalledOnce());
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onSelect).toHaveBeenCalledTimes(2);
+      expect(container.querySelector("ds-command-group[data-recent]")).toBeNull();
+    });
+  });
+
+  describe("ds-command-dialog", () => {
+    it("should open in a dialog on the hotkey and close after selecting", async () => {
+      render(
+        html`
+          <ds-command-dialog hotkey="ctrl+k">
+            <ds-command>
+              <ds-command-input></ds-command-input>
+              <ds-command-list>
+                <ds-command-item value="copy">Copy</ds-command-item>
+              </ds-command-list>
+            </ds-command>
+          </ds-command-dialog>
+        `,
+        container
+      );
+      const palette = container.querySelector("ds-command-dialog");
+      await palette?.updateComplete;
+
+      expect(container.querySelector("ds-dialog ds-dialog-content ds-command")).not.toBeNull();
+
+      document.dispatchEvent(
+        new KeyboardEvent("keydown", { key: "k", ctrlKey: true, bubbles: true, cancelable: true })
+      );
+      await palette?.updateComplete;
+
+      const dialog = container.querySelector("ds-dialog");
+      expect(palette?.open).toBe(true);
+      expect(dialog?.open).toBe(true);
+
+      (container.querySelector("ds-command-item") as HTMLElement).click();
+      await palette?.updateComplete;
+
+      expect(palette?.open).toBe(false);
+    });
+  });
+});
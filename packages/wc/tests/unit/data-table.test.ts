@@ -0,0 +1,1029 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/data-table/data-table.js";
+import "../../src/components/table/index.js";
+import "../../src/components/dropdown-menu/index.js";
+import "../../src/components/number-input/number-input.js";
+import type { DataTableColumn, DsDataTable } from "../../src/components/data-table/data-table.js";
+
+const ROW_COUNT = 200;
+
+function renderRows(count: number) {
+  return Array.from(
+    { length: count },
+    (_, i) => html`
+      <ds-table-row row-id=${`row-${i}`}>
+        <ds-table-cell>Row ${i}</ds-table-cell>
+      </ds-table-row>
+    `
+  );
+}
+
+describe("DsDataTable", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function renderTable(virtualized: boolean): Promise<DsDataTable> {
+    render(
+      html`
+        <ds-data-table ?virtualized=${virtualized} overscan="2">
+          <ds-table>
+            <ds-table-header>
+              <ds-table-row>
+                <ds-table-head>Name</ds-table-head>
+              </ds-table-row>
+            </ds-table-header>
+            <ds-table-body>${renderRows(ROW_COUNT)}</ds-table-body>
+          </ds-table>
+        </ds-data-table>
+      `,
+      container
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return container.querySelector("ds-data-table") as DsDataTable;
+  }
+
+  function mountedRows(table: DsDataTable): HTMLElement[] {
+    return Array.from(table.querySelectorAll<HTMLElement>("ds-table-body ds-table-row"));
+  }
+
+  describe("virtualization", () => {
+    it("should keep every row mounted when not virtualized", async () => {
+      const table = await renderTable(false);
+
+      expect(mountedRows(table)).toHaveLength(ROW_COUNT);
+      expect(table.querySelector(".ds-data-table__spacer")).toBeNull();
+    });
+
+    it("should mount only the window of rows when virtualized", async () => {
+      const table = await renderTable(true);
+
+      const rows = mountedRows(table);
+      expect(rows.length).toBeGreaterThan(0);
+      expect(rows.length).toBeLessThan(ROW_COUNT);
+      expect(rows[0]?.getAttribute("row-id")).toBe("row-0");
+    });
+
+    it("should reserve the height of unmounted rows with spacers", async () => {
+      const table = await renderTable(true);
+
+      const spacers = table.querySelectorAll<HTMLElement>(".ds-data-table__spacer");
+      expect(spacers).toHaveLength(2);
+      expect(spacers[0]?.getAttribute("aria-hidden")).toBe("true");
+
+      const unmounted = ROW_COUNT - mountedRows(table).length;
+      expect(spacers[1]?.style.height).toBe(`${unmounted * table.rowHeight}px`);
+    });
+
+    it("should restore all rows in order when virtualization is turned off", async () => {
+      const table = await renderTable(true);
+
+      table.virtualized = false;
+      await table.updateComplete;
+
+      const rows = mountedRows(table);
+      expect(rows).toHaveLength(ROW_COUNT);
+      expect(rows.map((row) => row.getAttribute("row-id"))).toEqual(
+        Array.from({ length: ROW_COUNT }, (_, i) => `row-${i}`)
+      );
+      expect(table.querySelector(".ds-data-table__spacer")).toBeNull();
+    });
+
+    it("should leave rows untouched with manual-rows", async () => {
+      const table = await renderTable(false);
+
+      table.manualRows = true;
+      table.virtualized = true;
+      await table.updateComplete;
+
+      expect(mountedRows(table)).toHaveLength(ROW_COUNT);
+    });
+
+    it("should pick up rows added after setup on refreshRows", async () => {
+      const table = await renderTable(true);
+      const body = table.querySelector("ds-table-body") as HTMLElement;
+
+      const extra = document.createElement("ds-table-row");
+      extra.setAttribute("row-id", "extra");
+      body.appendChild(extra);
+      table.refreshRows();
+
+      table.virtualized = false;
+      await table.updateComplete;
+
+      const rows = mountedRows(table);
+      expect(rows).toHaveLength(ROW_COUNT + 1);
+      expect(rows[ROW_COUNT]?.getAttribute("row-id")).toBe("extra");
+    });
+  });
+
+  describe("data-driven mode", () => {
+    interface User {
+      id: string;
+      name: string;
+      age: number;
+      user: { address: { city: string } };
+    }
+
+    const users: User[] = [
+      { id: "u1", name: "Charlie", age: 35, user: { address: { city: "Oslo" } } },
+      { id: "u2", name: "alice", age: 28, user: { address: { city: "Lima" } } },
+      { id: "u3", name: "Bob", age: 42, user: { address: { city: "Pune" } } },
+    ];
+
+    const columns: DataTableColumn<User>[] = [
+      { id: "name", header: "Name", sortable: true },
+      { id: "age", header: "Age", sortable: true, align: "right" },
+      { id: "city", header: "City", accessor: "user.address.city" },
+    ];
+
+    async function renderDataTable(
+      options: { selectable?: boolean; virtualized?: boolean; manualSorting?: boolean } = {}
+    ): Promise<DsDataTable> {
+      render(
+        html`
+          <ds-data-table
+            .columns=${columns}
+            .rows=${users}
+            ?selectable=${options.selectable}
+            ?virtualized=${options.virtualized}
+            ?manual-sorting=${options.manualSorting}
+          ></ds-data-table>
+        `,
+        container
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return container.querySelector("ds-data-table") as DsDataTable;
+    }
+
+    function columnText(table: DsDataTable, column: string): string[] {
+      return Array.from(table.querySelectorAll(`tbody td[data-column="${column}"]`)).map(
+        (cell) => cell.textContent?.trim() ?? ""
+      );
+    }
+
+    it("should render headers and cells from column definitions", async () => {
+      const table = await renderDataTable();
+
+      const headers = Array.from(table.querySelectorAll("thead th")).map((th) =>
+        th.textContent?.trim()
+      );
+      expect(headers).toEqual(["Name", "Age", "City"]);
+      expect(columnText(table, "name")).toEqual(["Charlie", "alice", "Bob"]);
+    });
+
+    it("should resolve nested accessor paths", async () => {
+      const table = await renderDataTable();
+
+      expect(columnText(table, "city")).toEqual(["Oslo", "Lima", "Pune"]);
+    });
+
+    it("should use the column cell renderer", async () => {
+      const table = await renderDataTable();
+
+      table.columns = [
+        ...columns,
+        { id: "badge", header: "Badge", cell: (_value, row) => html`<b>${(row as User).age}</b>` },
+      ];
+      await table.updateComplete;
+
+      expect(table.querySelector('td[data-column="badge"] b')?.textContent).toBe("35");
+    });
+
+    it("should render sort buttons with aria-sort on sortable headers only", async () => {
+      const table = await renderDataTable();
+
+      const [name, , city] = Array.from(table.querySelectorAll("thead th"));
+      expect(name?.querySelector("button")).toBeTruthy();
+      expect(name?.getAttribute("aria-sort")).toBe("none");
+      expect(city?.querySelector("button")).toBeNull();
+      expect(city?.hasAttribute("aria-sort")).toBe(false);
+    });
+
+    it("should sort rows client-side when a header is clicked", async () => {
+      const table = await renderDataTable();
+      const sortHandler = vi.fn();
+      table.addEventListener("ds:sort", sortHandler);
+
+      const button = table.querySelector<HTMLButtonElement>('th[data-column="name"] button');
+      button?.click();
+      await table.updateComplete;
+
+      expect(columnText(table, "name")).toEqual(["alice", "Bob", "Charlie"]);
+      expect(sortHandler.mock.calls[0]?.[0].detail).toEqual({
+        column: "name",
+        direction: "asc",
+        sort: [{ column: "name", direction: "asc" }],
+      });
+      expect(table.querySelector('th[data-column="name"]')?.getAttribute("aria-sort")).toBe(
+        "ascending"
+      );
+
+      button?.click();
+      await table.updateComplete;
+      expect(columnText(table, "name")).toEqual(["Charlie", "Bob", "alice"]);
+
+      button?.click();
+      await table.updateComplete;
+      expect(columnText(table, "name")).toEqual(["Charlie", "alice", "Bob"]);
+    });
+
+    it("should sort by sort-column and sort-direction properties", async () => {
+      const table = await renderDataTable();
+
+      table.sortColumn = "age";
+      table.sortDirection = "desc";
+      await table.updateComplete;
+
+      expect(columnText(table, "age")).toEqual(["42", "35", "28"]);
+    });
+
+    it("should add secondary sort keys with Shift+click", async () => {
+      const table = await renderDataTable();
+      table.rows = [
+        { id: "a", name: "Ann", age: 40, user: { address: { city: "" } } },
+        { id: "b", name: "Ben", age: 30, user: { address: { city: "" } } },
+        { id: "c", name: "Ann", age: 20, user: { address: { city: "" } } },
+      ];
+      const sortHandler = vi.fn();
+      table.addEventListener("ds:sort", sortHandler);
+
+      table.querySelector<HTMLButtonElement>('th[data-column="name"] button')?.click();
+      await table.updateComplete;
+      table
+        .querySelector<HTMLButtonElement>('th[data-column="age"] button')
+        ?.dispatchEvent(new MouseEvent("click", { bubbles: true, shiftKey: true }));
+      await table.updateComplete;
+
+      expect(columnText(table, "age")).toEqual(["20", "40", "30"]);
+      expect(sortHandler.mock.calls[1]?.[0].detail.sort).toEqual([
+        { column: "name", direction: "asc" },
+        { column: "age", direction: "asc" },
+      ]);
+
+      const age = table.querySelector('th[data-column="age"]');
+      expect(age?.getAttribute("aria-sort")).toBe("none");
+      expect(age?.querySelector(".ds-data-table__sort-priority")?.textContent).toBe("2");
+      expect(table.sortColumn).toBe("name");
+    });
+
+    it("should sort by the sortModel property with column comparators", async () => {
+      const table = await renderDataTable();
+      table.columns = [
+        { ...columns[0], comparator: (a, b) => String(b).localeCompare(String(a)) },
+        ...columns.slice(1),
+      ] as DataTableColumn[];
+
+      table.sortModel = [{ column: "name", direction: "asc" }];
+      await table.updateComplete;
+
+      expect(columnText(table, "name")).toEqual(["Charlie", "Bob", "alice"]);
+      expect(table.querySelector('th[data-column="name"]')?.getAttribute("aria-sort")).toBe(
+        "ascending"
+      );
+    });
+
+    it("should keep the given order with manual-sorting", async () => {
+      const table = await renderDataTable({ manualSorting: true });
+
+      table.querySelector<HTMLButtonElement>('th[data-column="name"] button')?.click();
+      await table.updateComplete;
+
+      expect(table.sortDirection).toBe("asc");
+      expect(columnText(table, "name")).toEqual(["Charlie", "alice", "Bob"]);
+    });
+
+    it("should select rows with checkboxes", async () => {
+      const table = await renderDataTable({ selectable: true });
+      const selectionHandler = vi.fn();
+      table.addEventListener("ds:selection-change", selectionHandler);
+
+      const rowCheckbox = table.querySelector<HTMLInputElement>(
+        'tr[data-row-id="u2"] input[type="checkbox"]'
+      );
+      rowCheckbox?.click();
+      await table.updateComplete;
+
+      expect(table.isRowSelected("u2")).toBe(true);
+      expect(selectionHandler.mock.calls[0]?.[0].detail).toEqual({ selectedRows: ["u2"] });
+      expect(table.querySelector('tr[data-row-id="u2"]')?.getAttribute("aria-selected")).toBe(
+        "true"
+      );
+
+      const selectAll = table.querySelector<HTMLInputElement>("thead input[type='checkbox']");
+      expect(selectAll?.indeterminate).toBe(true);
+
+      selectAll?.click();
+      await table.updateComplete;
+      expect(users.every((user) => table.isRowSelected(user.id))).toBe(true);
+      expect(selectAll?.checked).toBe(true);
+
+      selectAll?.click();
+      await table.updateComplete;
+      expect(table.isRowSelected("u1")).toBe(false);
+    });
+
+    it("should show the empty message without rows", async () => {
+      const table = await renderDataTable();
+
+      table.rows = [];
+      await table.updateComplete;
+
+      expect(table.querySelector(".ds-data-table__empty")?.textContent?.trim()).toBe(
+        "No data available"
+      );
+    });
+
+    describe("column layout", () => {
+      function headerIds(table: DsDataTable): string[] {
+        return Array.from(table.querySelectorAll<HTMLElement>("thead th[data-column]")).map(
+          (th) => th.dataset.column as string
+        );
+      }
+
+      async function renderResizable(): Promise<DsDataTable> {
+        const table = await renderDataTable();
+        table.columns = [
+          { ...columns[0], resizable: true, width: "120px", maxWidth: "200px" },
+          ...columns.slice(1),
+        ] as DataTableColumn[];
+        await table.updateComplete;
+        return table;
+      }
+
+      it("should resize columns from the keyboard", async () => {
+        const table = await renderResizable();
+        const stateHandler = vi.fn();
+        table.addEventListener("ds:column-state-change", stateHandler);
+
+        const handle = table.querySelector<HTMLElement>(
+          'th[data-column="name"] .ds-data-table__resize-handle'
+        );
+        expect(handle?.getAttribute("role")).toBe("separator");
+        expect(handle?.getAttribute("aria-valuenow")).toBe("120");
+
+        handle?.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+        await table.updateComplete;
+
+        expect(table.querySelector<HTMLElement>('th[data-column="name"]')?.style.width).toBe(
+          "130px"
+        );
+        expect(handle?.getAttribute("aria-valuenow")).toBe("130");
+        expect(stateHandler.mock.calls[0]?.[0].detail).toMatchObject({
+          reason: "resize",
+          state: { widths: { name: 130 } },
+        });
+
+        handle?.dispatchEvent(new KeyboardEvent("keydown", { key: "End", bubbles: true }));
+        handle?.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+        expect(table.getColumnState().widths.name).toBe(200);
+
+        handle?.dispatchEvent(new KeyboardEvent("keydown", { key: "Home", bubbles: true }));
+        expect(table.getColumnState().widths.name).toBe(48);
+      });
+
+      it("should resize columns by dragging the handle", async () => {
+        const table = await renderResizable();
+        const stateHandler = vi.fn();
+        table.addEventListener("ds:column-state-change", stateHandler);
+
+        const handle = table.querySelector<HTMLElement>(".ds-data-table__resize-handle");
+        handle?.dispatchEvent(
+          new PointerEvent("pointerdown", { button: 0, clientX: 100, bubbles: true })
+        );
+        handle?.dispatchEvent(new PointerEvent("pointermove", { clientX: 150, bubbles: true }));
+        expect(stateHandler).not.toHaveBeenCalled();
+
+        handle?.dispatchEvent(new PointerEvent("pointerup", { clientX: 150, bubbles: true }));
+        expect(table.getColumnState().widths.name).toBe(170);
+        expect(stateHandler).toHaveBeenCalledTimes(1);
+      });
+
+      it("should reorder columns by dropping a dragged header", async () => {
+        const table = await renderDataTable();
+        table.reorderable = true;
+        await table.updateComplete;
+        const stateHandler = vi.fn();
+        table.addEventListener("ds:column-state-change", stateHandler);
+
+        const name = table.querySelector('th[data-column="name"]') as HTMLElement;
+        const city = table.querySelector('th[data-column="city"]') as HTMLElement;
+        expect(name.getAttribute("draggable")).toBe("true");
+
+        name.dispatchEvent(new Event("dragstart", { bubbles: true }));
+        const dragOver = new Event("dragover", { bubbles: true, cancelable: true });
+        city.dispatchEvent(Object.assign(dragOver, { clientX: 1 }));
+        expect(dragOver.defaultPrevented).toBe(true);
+        city.dispatchEvent(new Event("drop", { bubbles: true, cancelable: true }));
+        await table.updateComplete;
+
+        expect(headerIds(table)).toEqual(["age", "city", "name"]);
+        expect(columnText(table, "name")).toEqual(["Charlie", "alice", "Bob"]);
+        expect(stateHandler.mock.calls[0]?.[0].detail.reason).toBe("reorder");
+      });
+
+      it("should group pinned columns at the edges as sticky cells", async () => {
+        const table = await renderDataTable({ selectable: true });
+
+        table.pinColumn("city", "left");
+        table.pinColumn("name", "right");
+        await table.updateComplete;
+
+        expect(headerIds(table)).toEqual(["city", "age", "name"]);
+        const city = table.querySelector<HTMLElement>('td[data-column="city"]');
+        expect(city?.dataset.pinned).toBe("left");
+        expect(
+          table.querySelector("thead .ds-data-table__select-cell")?.getAttribute("data-pinned")
+        ).toBe("left");
+        expect(
+          table
+            .querySelector<HTMLElement>(".ds-data-table__table")
+            ?.style.getPropertyValue("--ds-data-table-pin-offset-3")
+        ).toBe("0px");
+      });
+
+      it("should toggle column visibility from the column menu", async () => {
+        const table = await renderDataTable();
+        table.columnMenu = true;
+        await table.updateComplete;
+        const stateHandler = vi.fn();
+        table.addEventListener("ds:column-state-change", stateHandler);
+
+        const items = table.querySelectorAll<HTMLElement>("ds-dropdown-menu-checkbox-item");
+        expect(items).toHaveLength(3);
+
+        table
+          .querySelector<HTMLElement>('ds-dropdown-menu-checkbox-item[data-column="age"]')
+          ?.click();
+        await table.updateComplete;
+
+        expect(headerIds(table)).toEqual(["name", "city"]);
+        expect(table.querySelector('td[data-column="age"]')).toBeNull();
+        expect(stateHandler.mock.calls[0]?.[0].detail).toMatchObject({
+          reason: "visibility",
+          state: { hidden: ["age"] },
+        });
+      });
+
+      it("should not hide the last visible column", async () => {
+        const table = await renderDataTable();
+
+        table.setColumnVisible("name", false);
+        table.setColumnVisible("age", false);
+        table.setColumnVisible("city", false);
+        await table.updateComplete;
+
+        expect(headerIds(table)).toEqual(["city"]);
+      });
+
+      it("should restore a saved column state", async () => {
+        const table = await renderDataTable();
+
+        table.columnState = {
+          order: ["city", "removed", "name"],
+          widths: { city: 90, removed: 10 },
+          hidden: ["age"],
+          pinned: { left: [], right: [] },
+        };
+        await table.updateComplete;
+
+        expect(headerIds(table)).toEqual(["city", "name"]);
+        expect(table.getColumnState()).toEqual({
+          order: ["city", "name", "age"],
+          widths: { city: 90 },
+          hidden: ["age"],
+          pinned: { left: [], right: [] },
+        });
+      });
+    });
+
+    describe("grid navigation", () => {
+      function press(key: string, init: KeyboardEventInit = {}): void {
+        (document.activeElement as HTMLElement).dispatchEvent(
+          new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init })
+        );
+      }
+
+      function cellText(): string {
+        return document.activeElement?.textContent?.trim() ?? "";
+      }
+
+      it("should only be a grid when enabled", async () => {
+        const table = await renderDataTable();
+
+        expect(table.querySelector("table")?.hasAttribute("role")).toBe(false);
+        expect(table.querySelector("th")?.hasAttribute("tabindex")).toBe(false);
+
+        table.grid = true;
+        await table.updateComplete;
+
+        expect(table.querySelector("table")?.getAttribute("role")).toBe("grid");
+        expect(table.querySelector("th")?.tabIndex).toBe(0);
+        expect(table.querySelector<HTMLElement>(".ds-data-table__sort-button")?.tabIndex).toBe(-1);
+
+        table.grid = false;
+        await table.updateComplete;
+
+        expect(table.querySelector("th")?.hasAttribute("tabindex")).toBe(false);
+        expect(table.querySelector(".ds-data-table__sort-button")?.hasAttribute("tabindex")).toBe(
+          false
+        );
+      });
+
+      it("should move between cells with the keyboard", async () => {
+        const table = await renderDataTable();
+        table.grid = true;
+        await table.updateComplete;
+
+        table.querySelector("th")?.focus();
+        press("ArrowDown");
+        expect(cellText()).toBe("Charlie");
+
+        press("End");
+        expect(cellText()).toBe("Oslo");
+
+        press("End", { ctrlKey: true });
+        expect(cellText()).toBe("Pune");
+
+        press("Home", { ctrlKey: true });
+        expect(cellText()).toBe("Name");
+      });
+
+      it("should enter header content with Enter and leave it with Escape", async () => {
+        const table = await renderDataTable();
+        table.grid = true;
+        await table.updateComplete;
+
+        const header = table.querySelector("th") as HTMLElement;
+        header.focus();
+        press("Enter");
+        expect(document.activeElement).toBe(header.querySelector(".ds-data-table__sort-button"));
+
+        press("Escape");
+        expect(document.activeElement).toBe(header);
+      });
+
+      it("should keep focus on the same row when rows are re-sorted", async () => {
+        const table = await renderDataTable();
+        table.grid = true;
+        await table.updateComplete;
+
+        const cell = table.querySelector('tr[data-row-id="u2"] td[data-column="name"]');
+        (cell as HTMLElement).focus();
+
+        table.sortModel = [{ column: "name", direction: "asc" }];
+        await table.updateComplete;
+
+        expect(document.activeElement?.closest("tr")?.getAttribute("data-row-id")).toBe("u2");
+        expect(cellText()).toBe("alice");
+      });
+
+      it("should scroll unmounted rows into view when virtualized", async () => {
+        const table = await renderDataTable({ virtualized: true });
+        table.grid = true;
+        table.overscan = 0;
+        table.rows = Array.from({ length: 500 }, (_, i) => ({
+          id: `r${i}`,
+          name: `Row ${i}`,
+          age: i,
+          user: { address: { city: "" } },
+        }));
+        await table.updateComplete;
+
+        table.querySelector<HTMLElement>('tr[data-row-id="r0"] td')?.focus();
+        press("End", { ctrlKey: true });
+        await table.updateComplete;
+
+        expect(document.activeElement?.closest("tr")?.getAttribute("data-row-id")).toBe("r499");
+        expect(document.activeElement?.getAttribute("data-column")).toBe("city");
+      });
+    });
+
+    describe("cell editing", () => {
+      const editableColumns: DataTableColumn<User>[] = [
+        {
+          id: "name",
+          header: "Name",
+          editable: true,
+          validate: async (value) => (value === "" ? "Name is required" : null),
+        },
+        { id: "age", header: "Age", editable: true, editor: "number" },
+        {
+          id: "city",
+          header: "City",
+          accessor: "user.address.city",
+          editable: true,
+          editor: "select",
+          options: [
+            { value: "Oslo", label: "Oslo" },
+            { value: "Lima", label: "Lima" },
+            { value: "Pune", label: "Pune" },
+          ],
+        },
+      ];
+
+      async function renderEditableTable(grid = false): Promise<DsDataTable> {
+        render(
+          html`<ds-data-table .columns=${editableColumns} .rows=${users} ?grid=${grid}></ds-data-table>`,
+          container
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return container.querySelector("ds-data-table") as DsDataTable;
+      }
+
+      function cell(table: DsDataTable, rowId: string, column: string): HTMLElement {
+        return table.querySelector(
+          `tr[data-row-id="${rowId}"] td[data-column="${column}"]`
+        ) as HTMLElement;
+      }
+
+      async function settle(table: DsDataTable): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        await table.updateComplete;
+      }
+
+      function typeInto(input: HTMLInputElement, value: string): void {
+        input.value = value;
+        input.dispatchEvent(new Event("input", { bubbles: true }));
+      }
+
+      function pressOn(target: Element, key: string, init: KeyboardEventInit = {}): void {
+        target.dispatchEvent(
+          new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init })
+        );
+      }
+
+      it("should open a text editor on double-click and commit with Enter", async () => {
+        const table = await renderEditableTable();
+        const onEdit = vi.fn();
+        table.addEventListener("ds:cell-edit", onEdit);
+
+        cell(table, "u1", "name").dispatchEvent(new MouseEvent("dblclick", { bubbles: true }));
+        await table.updateComplete;
+
+        const input = cell(table, "u1", "name").querySelector("input") as HTMLInputElement;
+        expect(input.value).toBe("Charlie");
+
+        typeInto(input, "Charles");
+        pressOn(input, "Enter");
+        await settle(table);
+
+        expect(onEdit).toHaveBeenCalledOnce();
+        expect(onEdit.mock.calls[0]?.[0].detail).toMatchObject({
+          rowId: "u1",
+          column: "name",
+          value: "Charles",
+          previousValue: "Charlie",
+          source: "edit",
+        });
+        expect(cell(table, "u1", "name").textContent?.trim()).toBe("Charles");
+        expect((table.rows[0] as User).name).toBe("Charles");
+        // The original row object is left untouched
+        expect(users[0]?.name).toBe("Charlie");
+      });
+
+      it("should discard the draft with Escape", async () => {
+        const table = await renderEditableTable();
+        table.editCell("u1", "name");
+        await table.updateComplete;
+
+        const input = cell(table, "u1", "name").querySelector("input") as HTMLInputElement;
+        typeInto(input, "Nope");
+        pressOn(input, "Escape");
+        await table.updateComplete;
+
+        expect(cell(table, "u1", "name").querySelector("input")).toBeNull();
+        expect(cell(table, "u1", "name").textContent?.trim()).toBe("Charlie");
+      });
+
+      it("should keep the editor open with the validation error", async () => {
+        const table = await renderEditableTable();
+        table.editCell("u1", "name");
+        await table.updateComplete;
+
+        typeInto(cell(table, "u1", "name").querySelector("input") as HTMLInputElement, "");
+        const committed = await table.commitEdit();
+        await table.updateComplete;
+
+        const editing = cell(table, "u1", "name");
+        expect(committed).toBe(false);
+        expect(editing.hasAttribute("data-invalid")).toBe(true);
+        expect(editing.querySelector(".ds-data-table__cell-error")?.textContent?.trim()).toBe(
+          "Name is required"
+        );
+        expect(editing.querySelector("input")?.getAttribute("aria-invalid")).toBe("true");
+        expect((table.rows[0] as User).name).toBe("Charlie");
+      });
+
+      it("should validate text typed while validation is pending", async () => {
+        const pending: Array<(error: string | null) => void> = [];
+        const validate = vi.fn(
+          () => new Promise<string | null>((resolve) => pending.push(resolve))
+        );
+        render(
+          html`<ds-data-table
+            .columns=${[{ id: "name", header: "Name", editable: true, validate }]}
+            .rows=${users}
+          ></ds-data-table>`,
+          container
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        const table = container.querySelector("ds-data-table") as DsDataTable;
+        table.editCell("u1", "name");
+        await table.updateComplete;
+
+        const input = cell(table, "u1", "name").querySelector("input") as HTMLInputElement;
+        typeInto(input, "Charles");
+        const committed = table.commitEdit();
+        typeInto(input, "Charles II");
+        pending.shift()?.(null);
+        await settle(table);
+
+        expect(validate).toHaveBeenLastCalledWith("Charles II", expect.anything());
+        pending.shift()?.(null);
+
+        expect(await committed).toBe(true);
+        expect((table.rows[0] as User).name).toBe("Charles II");
+      });
+
+      it("should not apply edits cancelled through ds:cell-edit", async () => {
+        const table = await renderEditableTable();
+        table.addEventListener("ds:cell-edit", (event) => event.preventDefault());
+        table.editCell("u2", "city");
+        await table.updateComplete;
+
+        const select = cell(table, "u2", "city").querySelector("select") as HTMLSelectElement;
+        expect(select.value).toBe("1");
+        select.value = "2";
+        select.dispatchEvent(new Event("change", { bubbles: true }));
+
+        expect(await table.commitEdit()).toBe(false);
+        await table.updateComplete;
+        expect(cell(table, "u2", "city").textContent?.trim()).toBe("Lima");
+        expect(table.canUndo).toBe(false);
+      });
+
+      it("should commit numbers from ds-number-input", async () => {
+        const table = await renderEditableTable();
+        table.editCell("u3", "age");
+        await table.updateComplete;
+
+        const editor = cell(table, "u3", "age").querySelector("ds-number-input");
+        editor?.dispatchEvent(
+          new CustomEvent("ds:change", { detail: { value: 43 }, bubbles: true })
+        );
+
+        expect(await table.commitEdit()).toBe(true);
+        expect((table.rows[2] as User).age).toBe(43);
+      });
+
+      it("should undo and redo edits", async () => {
+        const table = await renderEditableTable();
+        const sources: string[] = [];
+        table.addEventListener("ds:cell-edit", (event) => {
+          sources.push((event as CustomEvent).detail.source);
+        });
+
+        table.editCell("u2", "city");
+        await table.updateComplete;
+        const select = cell(table, "u2", "city").querySelector("select") as HTMLSelectElement;
+        select.value = "0";
+        select.dispatchEvent(new Event("change", { bubbles: true }));
+        await table.commitEdit();
+        await table.updateComplete;
+        expect(cell(table, "u2", "city").textContent?.trim()).toBe("Oslo");
+
+        pressOn(cell(table, "u2", "city"), "z", { ctrlKey: true });
+        await table.updateComplete;
+        expect(cell(table, "u2", "city").textContent?.trim()).toBe("Lima");
+        expect(table.canRedo).toBe(true);
+
+        expect(table.redo()).toBe(true);
+        await table.updateComplete;
+        expect(cell(table, "u2", "city").textContent?.trim()).toBe("Oslo");
+        expect(sources).toEqual(["edit", "undo", "redo"]);
+      });
+
+      it("should edit with Enter in grid mode and return focus to the cell", async () => {
+        const table = await renderEditableTable(true);
+        const target = cell(table, "u1", "name");
+        target.focus();
+
+        pressOn(target, "Enter");
+        await settle(table);
+
+        const input = cell(table, "u1", "name").querySelector("input") as HTMLInputElement;
+        expect(document.activeElement).toBe(input);
+
+        typeInto(input, "Chuck");
+        pressOn(input, "Enter");
+        await settle(table);
+
+        expect(document.activeElement).toBe(cell(table, "u1", "name"));
+        expect(cell(table, "u1", "name").textContent?.trim()).toBe("Chuck");
+      });
+    });
+
+    describe("row grouping", () => {
+      interface Order {
+        id: string;
+        region: string;
+        status: string;
+        total: number;
+      }
+
+      const orders: Order[] = [
+        { id: "o1", region: "EU", status: "open", total: 10 },
+        { id: "o2", region: "US", status: "open", total: 20 },
+        { id: "o3", region: "EU", status: "closed", total: 30 },
+        { id: "o4", region: "EU", status: "open", total: 5 },
+      ];
+
+      const orderColumns: DataTableColumn<Order>[] = [
+        { id: "id", header: "Order" },
+        { id: "region", header: "Region" },
+        { id: "status", header: "Status" },
+        { id: "total", header: "Total", align: "right" },
+      ];
+
+      async function renderOrders(
+        properties: Partial<Pick<DsDataTable, "groupBy" | "renderDetail" | "columns">>
+      ): Promise<DsDataTable> {
+        render(
+          html`<ds-data-table
+            .columns=${properties.columns ?? orderColumns}
+            .rows=${orders}
+            .groupBy=${properties.groupBy ?? []}
+            .renderDetail=${properties.renderDetail ?? null}
+          ></ds-data-table>`,
+          container
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return container.querySelector("ds-data-table") as DsDataTable;
+      }
+
+      function bodyRowKeys(table: DsDataTable): string[] {
+        return Array.from(table.querySelectorAll<HTMLElement>("tbody tr[data-row-key]")).map(
+          (row) => row.dataset.rowKey ?? ""
+        );
+      }
+
+      it("should group rows under expanded headers with counts", async () => {
+        const table = await renderOrders({ groupBy: ["region"] });
+        const toggles = table.querySelectorAll<HTMLButtonElement>(".ds-data-table__group-toggle");
+
+        expect(
+          Array.from(toggles).map((toggle) => toggle.textContent?.replace(/\s+/g, " ").trim())
+        ).toEqual(["Region: EU (3)", "Region: US (1)"]);
+        expect(toggles[0]?.getAttribute("aria-expanded")).toBe("true");
+        expect(table.querySelector(".ds-data-table__group-cell")?.getAttribute("colspan")).toBe(
+          "4"
+        );
+        expect(bodyRowKeys(table)).toEqual([
+          "group:region=EU",
+          "o1",
+          "o3",
+          "o4",
+          "group:region=US",
+          "o2",
+        ]);
+      });
+
+      it("should collapse a group and report the change", async () => {
+        const table = await renderOrders({ groupBy: ["region"] });
+        const handler = vi.fn();
+        table.addEventListener("ds:expand-change", handler);
+
+        table.querySelector<HTMLButtonElement>(".ds-data-table__group-toggle")?.click();
+        await table.updateComplete;
+
+        expect(bodyRowKeys(table)).toEqual(["group:region=EU", "group:region=US", "o2"]);
+        expect(
+          table.querySelector(".ds-data-table__group-toggle")?.getAttribute("aria-expanded")
+        ).toBe("false");
+        expect(handler.mock.calls[0]?.[0].detail).toEqual({
+          kind: "group",
+          id: "group:region=EU",
+          expanded: false,
+        });
+        expect(table.isGroupExpanded("group:region=EU")).toBe(false);
+      });
+
+      it("should nest groups for several columns and keep collapse state across row updates", async () => {
+        const table = await renderOrders({ groupBy: ["region", "status"] });
+
+        expect(bodyRowKeys(table)).toEqual([
+          "group:region=EU",
+          "group:region=EU/status=open",
+          "o1",
+          "o4",
+          "group:region=EU/status=closed",
+          "o3",
+          "group:region=US",
+          "group:region=US/status=open",
+          "o2",
+        ]);
+        expect(
+          table
+            .querySelector('tr[data-row-key="group:region=EU/status=open"]')
+            ?.getAttribute("data-depth")
+        ).toBe("1");
+
+        table.toggleGroup("group:region=US", false);
+        table.rows = [...orders, { id: "o5", region: "APAC", status: "open", total: 1 }];
+        await table.updateComplete;
+
+        expect(bodyRowKeys(table).slice(-4)).toEqual([
+          "group:region=US",
+          "group:region=APAC",
+          "group:region=APAC/status=open",
+          "o5",
+        ]);
+      });
+
+      it("should render detail rows for expanded rows", async () => {
+        const table = await renderOrders({
+          renderDetail: (row) => `Details of ${(row as Order).id}`,
+        });
+        const expander = table.querySelector<HTMLButtonElement>(
+          'tr[data-row-id="o2"] .ds-data-table__expander'
+        ) as HTMLButtonElement;
+
+        expect(table.querySelectorAll("thead th")).toHaveLength(5);
+        expect(expander.getAttribute("aria-expanded")).toBe("false");
+        expect(expander.hasAttribute("aria-controls")).toBe(false);
+
+        expander.click();
+        await table.updateComplete;
+
+        const detail = table.querySelector<HTMLElement>(
+          ".ds-data-table__detail-row"
+        ) as HTMLElement;
+        expect(expander.getAttribute("aria-expanded")).toBe("true");
+        expect(expander.getAttribute("aria-controls")).toBe(detail.id);
+        expect(detail.previousElementSibling?.getAttribute("data-row-id")).toBe("o2");
+        expect(detail.textContent?.trim()).toBe("Details of o2");
+        expect(detail.querySelector("td")?.getAttribute("colspan")).toBe("5");
+        expect(table.isRowDetailExpanded("o2")).toBe(true);
+
+        table.toggleRowDetail("o2");
+        await table.updateComplete;
+        expect(table.querySelector(".ds-data-table__detail-row")).toBeNull();
+      });
+
+      it("should render column aggregates in a footer row", async () => {
+        const table = await renderOrders({
+          columns: [
+            { id: "id", header: "Order", aggregate: "count" },
+            {
+              id: "region",
+              header: "Region",
+              aggregate: (values) => new Set(values).size,
+              formatAggregate: (value) => `${value} regions`,
+            },
+            { id: "status", header: "Status" },
+            { id: "total", header: "Total", aggregate: "avg" },
+          ],
+          groupBy: ["region"],
+        });
+        table.toggleGroup("group:region=EU", false);
+        await table.updateComplete;
+
+        const footer = Array.from(table.querySelectorAll("tfoot td")).map(
+          (cell) => cell.textContent?.trim() ?? ""
+        );
+        expect(footer).toEqual(["4", "2 regions", "", "16.25"]);
+      });
+    });
+
+    it("should window data rows when virtualized", async () => {
+      const table = await renderDataTable({ virtualized: true });
+
+      table.overscan = 0;
+      table.rows = Array.from({ length: 500 }, (_, i) => ({
+        id: `r${i}`,
+        name: `Row ${i}`,
+        age: i,
+        user: { address: { city: "" } },
+      }));
+      await table.updateComplete;
+
+      const mounted = table.querySelectorAll("tbody tr[data-row-id]");
+      expect(mounted.length).toBeGreaterThan(0);
+      expect(mounted.length).toBeLessThan(500);
+      expect(table.querySelector("table")?.getAttribute("aria-rowcount")).toBe("501");
+      expect(mounted[0]?.getAttribute("aria-rowindex")).toBe("2");
+      expect(table.querySelectorAll("tbody tr.ds-data-table__spacer")).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/date-field/index.js";
+import "../../src/components/date-picker/index.js";
+import type { DsDateField } from "../../src/components/date-field/date-field.js";
+import type { DsDatePicker } from "../../src/components/date-picker/date-picker.js";
+
+function press(target: Element, key: string, init: KeyboardEventInit = {}): void {
+  target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true, ...init }));
+}
+
+describe("DsDateField", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function renderField(template: unknown): Promise<DsDateField> {
+    render(template, container);
+    const field = container.querySelector("ds-date-field") as DsDateField;
+    await field.updateComplete;
+    return field;
+  }
+
+  function segment(field: DsDateField, name: string): HTMLElement {
+    return field.querySelector(`[data-segment="${name}"]`) as HTMLElement;
+  }
+
+  describe("rendering", () => {
+    it("should order segments and separators by locale", async () => {
+      const field = await renderField(html`<ds-date-field locale="de-DE"></ds-date-field>`);
+
+      const segments = [...field.querySelectorAll("[data-segment]")].map(
+        (el) => (el as HTMLElement).dataset.segment
+      );
+      const separators = [...field.querySelectorAll(".ds-date-field__separator")].map((el) =>
+        el.textContent?.trim()
+      );
+
+      expect(segments).toEqual(["day", "month", "year"]);
+      expect(separators).toEqual([".", "."]);
+    });
+
+    it("should render placeholders while empty", async () => {
+      const field = await renderField(html`<ds-date-field></ds-date-field>`);
+
+      expect(segment(field, "month").textContent?.trim()).toBe("mm");
+      expect(segment(field, "month").hasAttribute("data-placeholder")).toBe(true);
+      expect(segment(field, "month").getAttribute("aria-valuetext")).toBe("Empty");
+      expect(segment(field, "month").hasAttribute("aria-valuenow")).toBe(false);
+    });
+
+    it("should render the initial value", async () => {
+      const field = await renderField(
+        html`<ds-date-field locale="en-US" value="2026-03-05"></ds-date-field>`
+      );
+      const month = segment(field, "month");
+
+      expect(month.textContent?.trim()).toBe("03");
+      expect(month.getAttribute("role")).toBe("spinbutton");
+      expect(month.getAttribute("aria-valuenow")).toBe("3");
+      expect(month.getAttribute("aria-valuetext")).toBe("March");
+      expect(segment(field, "year").getAttribute("aria-valuenow")).toBe("2026");
+    });
+
+    it("should label the group", async () => {
+      const field = await renderField(html`<ds-date-field></ds-date-field>`);
+
+      const group = field.querySelector(".ds-date-field");
+      expect(group?.getAttribute("role")).toBe("group");
+      expect(group?.getAttribute("aria-label")).toBe("Date");
+    });
+  });
+
+  describe("keyboard", () => {
+    it("should increment the focused segment with ArrowUp", async () => {
+      const field = await renderField(html`<ds-date-field value="2026-03-05"></ds-date-field>`);
+      const day = segment(field, "day");
+
+      day.focus();
+      press(day, "ArrowUp");
+      await field.updateComplete;
+
+      expect(field.value).toBe("2026-03-06");
+      expect(day.getAttribute("aria-valuenow")).toBe("6");
+    });
+
+    it("should type a full date with auto-advance", async () => {
+      const field = await renderField(html`<ds-date-field locale="en-US"></ds-date-field>`);
+      const handler = vi.fn();
+      field.addEventListener("ds:change", handler);
+
+      segment(field, "month").focus();
+      for (const key of "04152026") {
+        press(document.activeElement as Element, key);
+        await field.updateComplete;
+      }
+
+      expect(field.value).toBe("2026-04-15");
+      expect(document.activeElement).toBe(segment(field, "year"));
+      expect(handler.mock.lastCall?.[0].detail).toEqual({ value: "2026-04-15" });
+    });
+
+    it("should move focus between segments with arrow keys", async () => {
+      const field = await renderField(html`<ds-date-field locale="en-US"></ds-date-field>`);
+
+      segment(field, "month").focus();
+      press(segment(field, "month"), "ArrowRight");
+
+      expect(document.activeElement).toBe(segment(field, "day"));
+    });
+
+    it("should mirror arrow keys in right-to-left layouts", async () => {
+      const field = await renderField(
+        html`<div dir="rtl"><ds-date-field locale="en-US"></ds-date-field></div>`
+      );
+
+      segment(field, "day").focus();
+      press(segment(field, "day"), "ArrowLeft");
+
+      expect(document.activeElement).toBe(segment(field, "year"));
+    });
+
+    it("should not edit when readonly", async () => {
+      const field = await renderField(
+        html`<ds-date-field readonly value="2026-03-05"></ds-date-field>`
+      );
+
+      segment(field, "day").focus();
+      press(segment(field, "day"), "ArrowUp");
+      await field.updateComplete;
+
+      expect(field.value).toBe("2026-03-05");
+      expect(segment(field, "day").getAttribute("aria-readonly")).toBe("true");
+    });
+  });
+
+  describe("value", () => {
+    it("should update segments when value is set", async () => {
+      const field = await renderField(html`<ds-date-field locale="en-US"></ds-date-field>`);
+
+      field.value = "2026-12-24";
+      await field.updateComplete;
+
+      expect(segment(field, "day").textContent?.trim()).toBe("24");
+    });
+
+    it("should mark dates outside min and max as invalid", async () => {
+      const field = await renderField(
+        html`<ds-date-field value="2026-03-05" min-date="2026-04-01"></ds-date-field>`
+      );
+
+      expect(field.querySelector(".ds-date-field")?.hasAttribute("data-invalid")).toBe(true);
+      expect(segment(field, "day").getAttribute("aria-invalid")).toBe("true");
+    });
+  });
+
+  describe("as date picker trigger", () => {
+    async function renderPicker(): Promise<{ picker: DsDatePicker; field: DsDateField }> {
+      render(
+        html`
+          <ds-date-picker locale="de-DE" value="2026-01-15">
+            <ds-date-field slot="trigger"></ds-date-field>
+            <ds-date-picker-calendar></ds-date-picker-calendar>
+          </ds-date-picker>
+        `,
+        container
+      );
+      const picker = container.querySelector("ds-date-picker") as DsDatePicker;
+      const field = container.querySelector("ds-date-field") as DsDateField;
+      await picker.updateComplete;
+      await field.updateComplete;
+      return { picker, field };
+    }
+
+    it("should take value and locale from the picker", async () => {
+      const { field } = await renderPicker();
+
+      expect(field.value).toBe("2026-01-15");
+      expect(field.querySelector("[data-segment]")?.getAttribute("data-segment")).toBe("day");
+    });
+
+    it("should update the picker value from typed entry", async () => {
+      const { picker, field } = await renderPicker();
+      const handler = vi.fn();
+      picker.addEventListener("ds:change", handler);
+
+      const day = field.querySelector('[data-segment="day"]') as HTMLElement;
+      day.focus();
+      press(day, "ArrowUp");
+
+      expect(picker.value).toBe("2026-01-16");
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]?.[0].detail).toEqual({ date: "2026-01-16" });
+    });
+
+    it("should keep ArrowDown for the segment and open on Alt+ArrowDown", async () => {
+      const { picker, field } = await renderPicker();
+      const day = field.querySelector('[data-segment="day"]') as HTMLElement;
+
+      day.focus();
+      press(day, "ArrowDown");
+      expect(picker.open).toBe(false);
+      expect(picker.value).toBe("2026-01-14");
+
+      press(day, "ArrowDown", { altKey: true });
+      expect(picker.open).toBe(true);
+      expect(picker.value).toBe("2026-01-14");
+    });
+
+    it("should not open when a segment is clicked", async () => {
+      const { picker, field } = await renderPicker();
+
+      (field.querySelector('[data-segment="day"]') as HTMLElement).click();
+
+      expect(picker.open).toBe(false);
+    });
+  });
+});
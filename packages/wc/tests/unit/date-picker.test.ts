@@ -1,6 +1,8 @@
 import { html, render } from "lit";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recordFormValues } from "../fixtures/form-values.js";
 import "../../src/components/date-picker/index.js";
+import type { DsDatePicker } from "../../src/components/date-picker/date-picker.js";
 import {
   formatTypedDate,
   getDateFormat,
@@ -290,6 +292,107 @@ describe("DsDatePicker", () => {
     });
   });
 
+  describe("availability and multiple months", () => {
+    const cell = (date: string) =>
+      container.querySelector(`td[data-date="${date}"]`) as HTMLTableCellElement;
+
+    it("should render consecutive months side by side", async () => {
+      render(
+        html`<ds-date-picker-calendar range viewing-month="2026-06" months="2"></ds-date-picker-calendar>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const grids = container.querySelectorAll("table[role='grid']");
+      expect([...grids].map((grid) => grid.getAttribute("aria-label"))).toEqual([
+        "June 2026",
+        "July 2026",
+      ]);
+      expect(container.querySelectorAll("td[data-date='2026-07-01']")).toHaveLength(1);
+    });
+
+    it("should mark unavailable dates with their reason", async () => {
+      const isDateUnavailable = (date: Date) =>
+        date.getDate() === 10 ? "Fully booked" : date.getDate() === 11;
+      render(
+        html`<ds-date-picker-calendar
+          viewing-month="2026-06"
+          .isDateUnavailable=${isDateUnavailable}
+        ></ds-date-picker-calendar>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(cell("2026-06-10").getAttribute("aria-disabled")).toBe("true");
+      expect(cell("2026-06-10").textContent).toContain("Fully booked");
+      expect(cell("2026-06-11").textContent).toContain("Unavailable");
+      expect(cell("2026-06-12").hasAttribute("data-unavailable")).toBe(false);
+    });
+
+    it("should enforce stay limits and preview the tentative range", async () => {
+      render(
+        html`<ds-date-picker-calendar
+          range
+          viewing-month="2026-06"
+          range-start="2026-06-10"
+          min-nights="2"
+          max-nights="4"
+        ></ds-date-picker-calendar>`,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(cell("2026-06-11").textContent).toContain("Minimum stay is 2 nights");
+      expect(cell("2026-06-15").textContent).toContain("Maximum stay is 4 nights");
+      expect(cell("2026-06-12").hasAttribute("aria-disabled")).toBe(false);
+
+      cell("2026-06-13").dispatchEvent(new Event("pointerenter"));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(cell("2026-06-12").hasAttribute("data-in-preview")).toBe(true);
+      expect(cell("2026-06-14").hasAttribute("data-in-preview")).toBe(false);
+    });
+
+    it("should select a preset range from the rail", async () => {
+      const presets = [
+        {
+          label: "Launch week",
+          getRange: () => ({ start: new Date(2026, 5, 1), end: new Date(2026, 5, 7) }),
+        },
+      ];
+      render(
+        html`
+          <ds-date-picker mode="range" .presets=${presets}>
+            <button slot="trigger">Select range</button>
+            <ds-date-picker-calendar></ds-date-picker-calendar>
+          </ds-date-picker>
+        `,
+        container
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const datePicker = container.querySelector("ds-date-picker") as HTMLElement & {
+        show: () => void;
+        rangeStart: string;
+        rangeEnd: string;
+      };
+      const changeHandler = vi.fn();
+      datePicker.addEventListener("ds:change", changeHandler);
+      datePicker.show();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const rail = container.querySelector(".ds-date-picker-presets");
+      expect(rail?.getAttribute("role")).toBe("group");
+      (rail?.querySelector("button") as HTMLButtonElement).click();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(datePicker.rangeStart).toBe("2026-06-01");
+      expect(datePicker.rangeEnd).toBe("2026-06-07");
+      const detail = changeHandler.mock.calls[0]?.[0].detail;
+      expect(detail).toEqual({ start: "2026-06-01", end: "2026-06-07" });
+    });
+  });
+
   describe("disabled state", () => {
     it("should not open when disabled", async () => {
       render(
@@ -482,6 +585,93 @@ describe("DsDatePicker", () => {
       expect(result?.error).toContain("Invalid");
     });
   });
+
+  describe("form integration", () => {
+    const formValues = recordFormValues();
+
+    async function mount(template: ReturnType<typeof html>): Promise<DsDatePicker> {
+      render(template, container);
+      const datePicker = container.querySelector("ds-date-picker") as DsDatePicker;
+      await datePicker.updateComplete;
+      return datePicker;
+    }
+
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-date-picker") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should submit the date under its name", async () => {
+      const datePicker = await mount(
+        html`<ds-date-picker name="due" value="2024-06-15">
+          <button slot="trigger">Select date</button>
+        </ds-date-picker>`
+      );
+
+      expect(formValues.get(datePicker)).toBe("2024-06-15");
+    });
+
+    it("should submit a range under name-start and name-end", async () => {
+      const datePicker = await mount(
+        html`<ds-date-picker mode="range" name="stay" name-end="checkout">
+          <button slot="trigger">Select range</button>
+        </ds-date-picker>`
+      );
+
+      datePicker.setRange("2024-06-01", "2024-06-15");
+      await datePicker.updateComplete;
+
+      const data = formValues.get(datePicker) as FormData;
+      expect(data.get("stay-start")).toBe("2024-06-01");
+      expect(data.get("checkout")).toBe("2024-06-15");
+    });
+
+    it("should report valueMissing until both range dates are chosen", async () => {
+      const datePicker = await mount(
+        html`<ds-date-picker mode="range" required range-start="2024-06-01">
+          <button slot="trigger">Select range</button>
+        </ds-date-picker>`
+      );
+
+      expect(datePicker.validity.valueMissing).toBe(true);
+      expect(datePicker.validationMessage).toBe("Please choose a start and end date");
+
+      datePicker.rangeEnd = "2024-06-03";
+      await datePicker.updateComplete;
+      expect(datePicker.checkValidity()).toBe(true);
+    });
+
+    it("should map min-date and max-date onto validity", async () => {
+      const datePicker = await mount(
+        html`<ds-date-picker min-date="2024-06-10" max-date="2024-06-20" value="2024-06-05">
+          <button slot="trigger">Select date</button>
+        </ds-date-picker>`
+      );
+
+      expect(datePicker.validity.rangeUnderflow).toBe(true);
+      expect(datePicker.validationMessage).toBe("Please choose a date on or after 2024-06-10");
+
+      datePicker.value = "2024-06-25";
+      await datePicker.updateComplete;
+      expect(datePicker.validity.rangeOverflow).toBe(true);
+    });
+
+    it("should restore its initial range on form reset", async () => {
+      const datePicker = await mount(
+        html`<ds-date-picker mode="range" range-start="2024-06-01" range-end="2024-06-05">
+          <button slot="trigger">Select range</button>
+        </ds-date-picker>`
+      );
+      datePicker.setRange("2024-07-01", "2024-07-05");
+      await datePicker.updateComplete;
+
+      datePicker.formResetCallback();
+
+      expect(datePicker.rangeStart).toBe("2024-06-01");
+      expect(datePicker.rangeEnd).toBe("2024-06-05");
+    });
+  });
 });
 
 describe("Date Format Utilities - Locale Support", () => {
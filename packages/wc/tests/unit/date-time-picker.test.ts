@@ -0,0 +1,158 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/date-time-picker/date-time-picker.js";
+import type { DsDateTimePicker } from "../../src/components/date-time-picker/date-time-picker.js";
+
+describe("DsDateTimePicker", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function mount(template: ReturnType<typeof html>): Promise<DsDateTimePicker> {
+    render(template, container);
+    const picker = container.querySelector("ds-date-time-picker") as DsDateTimePicker;
+    await picker.updateComplete;
+    return picker;
+  }
+
+  describe("rendering", () => {
+    it("should render a trigger and time segments", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker hour-format="24"></ds-date-time-picker>`
+      );
+
+      const trigger = picker.querySelector(".ds-date-time-picker__trigger");
+      expect(trigger?.getAttribute("aria-haspopup")).toBe("dialog");
+      expect(trigger?.textContent?.trim()).toBe("Select date");
+
+      const segments = picker.querySelectorAll("[role='spinbutton']");
+      expect(segments).toHaveLength(2);
+      expect(segments[0]?.getAttribute("data-segment")).toBe("hour");
+    });
+
+    it("should show the seconds segment when enabled", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker hour-format="24" show-seconds></ds-date-time-picker>`
+      );
+
+      expect(picker.querySelector("[data-segment='second']")).toBeTruthy();
+    });
+  });
+
+  describe("value", () => {
+    it("should emit ds:change with the ISO value when a day is picked", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker value="2026-03-14T09:30"></ds-date-time-picker>`
+      );
+      const handler = vi.fn();
+      picker.addEventListener("ds:change", handler);
+
+      picker.show();
+      await picker.updateComplete;
+
+      const day = Array.from(picker.querySelectorAll(".ds-calendar-cell")).find(
+        (cell) => cell.textContent?.trim() === "20" && !cell.hasAttribute("data-outside-month")
+      ) as HTMLElement;
+      day.click();
+      await picker.updateComplete;
+
+      expect(picker.value).toBe("2026-03-20T09:30");
+      expect(picker.open).toBe(false);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]?.[0].detail.value).toBe("2026-03-20T09:30");
+    });
+
+    it("should snap the value to the minute step", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker minute-step="15" value="2026-03-14T09:44"></ds-date-time-picker>`
+      );
+
+      expect(picker.value).toBe("2026-03-14T09:30");
+    });
+
+    it("should snap the value to the second step", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker
+          show-seconds
+          second-step="15"
+          value="2026-03-14T09:44:29"
+        ></ds-date-time-picker>`
+      );
+
+      expect(picker.value).toBe("2026-03-14T09:44:15");
+    });
+
+    it("should include the time zone offset", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker
+          time-zone="Europe/Berlin"
+          include-offset
+          value="2026-07-01T09:15"
+        ></ds-date-time-picker>`
+      );
+
+      expect(picker.value).toBe("2026-07-01T09:15+02:00");
+      expect(picker.valueAsDate?.toISOString()).toBe("2026-07-01T07:15:00.000Z");
+    });
+
+    it("should set the value from a Date", async () => {
+      const picker = await mount(html`<ds-date-time-picker></ds-date-time-picker>`);
+      const handler = vi.fn();
+      picker.addEventListener("ds:change", handler);
+
+      picker.valueAsDate = new Date(2026, 11, 31, 23, 45);
+      await picker.updateComplete;
+
+      expect(picker.value).toBe("2026-12-31T23:45");
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("calendar", () => {
+    it("should position the calendar against the trigger", async () => {
+      const picker = await mount(html`<ds-date-time-picker></ds-date-time-picker>`);
+
+      picker.show();
+      await picker.updateComplete;
+
+      const calendar = picker.querySelector(".ds-date-time-picker__content") as HTMLElement;
+      expect(calendar.style.position).toBe("fixed");
+      expect(calendar.getAttribute("data-placement")).toBe("bottom-start");
+
+      picker.close();
+      await picker.updateComplete;
+      expect(picker.querySelector(".ds-date-time-picker__content")).toBeNull();
+    });
+  });
+
+  describe("form integration", () => {
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-date-time-picker") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should report valueMissing when required and empty", async () => {
+      const picker = await mount(
+        html`<ds-date-time-picker name="starts-at" required></ds-date-time-picker>`
+      );
+
+      expect(picker.name).toBe("starts-at");
+      expect(picker.checkValidity()).toBe(false);
+      expect(picker.validity.valueMissing).toBe(true);
+      expect(picker.validationMessage).toBe("Please choose a date and time");
+
+      picker.value = "2026-03-14T09:30";
+      await picker.updateComplete;
+
+      expect(picker.checkValidity()).toBe(true);
+    });
+  });
+});
@@ -1,6 +1,13 @@
+import {
+  type UploadTransport,
+  createHttpTransport,
+  createMockUploadServer,
+} from "@hypoth-ui/primitives-dom";
 import { html, render } from "lit";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { recordFormValues } from "../fixtures/form-values.js";
 import "../../src/components/file-upload/index.js";
+import type { DsFileUpload } from "../../src/components/file-upload/file-upload.js";
 
 describe("DsFileUpload", () => {
   let container: HTMLElement;
@@ -201,4 +208,222 @@ describe("DsFileUpload", () => {
       expect(dropzone?.getAttribute("aria-label")).toBeTruthy();
     });
   });
+
+  describe("uploads", () => {
+    async function addFile(upload: DsFileUpload, file: File): Promise<void> {
+      const input = upload.querySelector("input[type='file']") as HTMLInputElement;
+      Object.defineProperty(input, "files", { value: [file], configurable: true });
+      input.dispatchEvent(new Event("change"));
+      await upload.updateComplete;
+    }
+
+    it("uploads added files through the transport", async () => {
+      const server = createMockUploadServer();
+      const transport = createHttpTransport({ url: "/api/upload", fetch: server.fetch });
+      render(html`<ds-file-upload .transport=${transport}></ds-file-upload>`, container);
+      const upload = container.querySelector("ds-file-upload") as DsFileUpload;
+      await upload.updateComplete;
+
+      const onSuccess = vi.fn();
+      upload.addEventListener("ds:upload-success", onSuccess);
+      await addFile(upload, _createMockFile("notes.txt", 12, "text/plain"));
+
+      await vi.waitFor(() => expect(onSuccess).toHaveBeenCalledOnce());
+      await upload.updateComplete;
+
+      expect(upload.getFiles()[0]?.status).toBe("success");
+      expect(onSuccess.mock.calls[0]?.[0].detail.response).toEqual({
+        url: "https://uploads.test/files/1",
+        size: 12,
+      });
+      expect(upload.querySelector(".ds-file-upload__file")?.getAttribute("data-status")).toBe(
+        "success"
+      );
+    });
+
+    it("renders progress with cancel and retry controls", async () => {
+      let abortCount = 0;
+      const transport: UploadTransport = {
+        upload: ({ signal, onProgress }) =>
+          new Promise((_resolve, reject) => {
+            onProgress(5, 10);
+            signal.addEventListener("abort", () => {
+              abortCount++;
+              reject(new Error("aborted"));
+            });
+          }),
+      };
+      render(html`<ds-file-upload .transport=${transport}></ds-file-upload>`, container);
+      const upload = container.querySelector("ds-file-upload") as DsFileUpload;
+      await upload.updateComplete;
+
+      await addFile(upload, _createMockFile("photo.txt", 10, "text/plain"));
+
+      const progress = upload.querySelector("progress") as HTMLProgressElement;
+      expect(progress.getAttribute("value")).toBe("50");
+      expect(progress.getAttribute("aria-label")).toBe("Uploading photo.txt");
+
+      (upload.querySelector(".ds-file-upload__cancel") as HTMLButtonElement).click();
+      await upload.updateComplete;
+
+      expect(abortCount).toBe(1);
+      expect(upload.getFiles()[0]?.status).toBe("canceled");
+      const retry = upload.querySelector(".ds-file-upload__retry") as HTMLButtonElement;
+      expect(retry.getAttribute("aria-label")).toBe("Retry upload of photo.txt");
+
+      retry.click();
+      await upload.updateComplete;
+      expect(upload.getFiles()[0]?.status).toBe("uploading");
+    });
+
+    it("keeps uploading when a property changes mid-upload", async () => {
+      const uploads: Array<{ resolve: (response: unknown) => void; signal: AbortSignal }> = [];
+      const transport: UploadTransport = {
+        upload: ({ signal }) =>
+          new Promise((resolve, reject) => {
+            signal.addEventListener("abort", () => reject(new Error("aborted")));
+            uploads.push({ resolve, signal });
+          }),
+      };
+      render(html`<ds-file-upload .transport=${transport}></ds-file-upload>`, container);
+      const upload = container.querySelector("ds-file-upload") as DsFileUpload;
+      await upload.updateComplete;
+
+      await addFile(upload, _createMockFile("notes.txt", 12, "text/plain"));
+      const [file] = upload.getFiles();
+      expect(file?.status).toBe("uploading");
+
+      upload.retries = 5;
+      upload.accept = "text/*";
+      await upload.updateComplete;
+
+      // The running upload is not interrupted
+      expect(uploads).toHaveLength(1);
+      expect(uploads[0]?.signal.aborted).toBe(false);
+      expect(upload.getFiles()).toEqual([
+        expect.objectContaining({ id: file?.id, status: "uploading" }),
+      ]);
+
+      const onSuccess = vi.fn();
+      upload.addEventListener("ds:upload-success", onSuccess);
+      uploads[0]?.resolve({ ok: true });
+      await vi.waitFor(() => expect(onSuccess).toHaveBeenCalledOnce());
+      expect(upload.getFiles()[0]?.status).toBe("success");
+
+      upload.removeFile(file?.id ?? "");
+      await upload.updateComplete;
+      expect(upload.getFiles()).toEqual([]);
+    });
+  });
+
+  describe("resumable uploads", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("keeps upload URLs in urlStorage", async () => {
+      const server = createMockUploadServer();
+      vi.stubGlobal("fetch", server.fetch);
+      const stored = new Map<string, string>();
+      const urlStorage = {
+        getItem: (key: string) => stored.get(key) ?? null,
+        setItem: vi.fn((key: string, value: string) => void stored.set(key, value)),
+        removeItem: (key: string) => void stored.delete(key),
+      };
+      render(
+        html`<ds-file-upload endpoint="/files/" resumable .urlStorage=${urlStorage}></ds-file-upload>`,
+        container
+      );
+      const upload = container.querySelector("ds-file-upload") as DsFileUpload;
+      await upload.updateComplete;
+
+      const onSuccess = vi.fn();
+      upload.addEventListener("ds:upload-success", onSuccess);
+      const input = upload.querySelector("input[type='file']") as HTMLInputElement;
+      Object.defineProperty(input, "files", {
+        value: [_createMockFile("notes.txt", 12, "text/plain")],
+        configurable: true,
+      });
+      input.dispatchEvent(new Event("change"));
+
+      await vi.waitFor(() => expect(onSuccess).toHaveBeenCalledOnce());
+      expect(urlStorage.setItem).toHaveBeenCalledWith(
+        expect.stringContaining("notes.txt"),
+        "https://uploads.test/files/1"
+      );
+      // Finished uploads are forgotten
+      expect(stored.size).toBe(0);
+    });
+  });
+
+  describe("form integration", () => {
+    const formValues = recordFormValues();
+
+    async function mount(template: ReturnType<typeof html>): Promise<DsFileUpload> {
+      render(template, container);
+      const upload = container.querySelector("ds-file-upload") as DsFileUpload;
+      await upload.updateComplete;
+      return upload;
+    }
+
+    async function addFiles(upload: DsFileUpload, files: File[]): Promise<void> {
+      const input = upload.querySelector("input[type='file']") as HTMLInputElement;
+      Object.defineProperty(input, "files", { value: files, configurable: true });
+      input.dispatchEvent(new Event("change"));
+      await upload.updateComplete;
+    }
+
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-file-upload") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should submit the selected files under its name", async () => {
+      const upload = await mount(
+        html`<ds-file-upload name="attachments" multiple></ds-file-upload>`
+      );
+      const files = [new File(["a"], "a.txt"), new File(["b"], "b.txt")];
+
+      await addFiles(upload, files);
+
+      const data = formValues.get(upload) as FormData;
+      expect(data.getAll("attachments").map((entry) => (entry as File).name)).toEqual([
+        "a.txt",
+        "b.txt",
+      ]);
+    });
+
+    it("should report valueMissing when required and empty", async () => {
+      const upload = await mount(html`<ds-file-upload name="cv" required></ds-file-upload>`);
+
+      expect(upload.validity.valueMissing).toBe(true);
+      expect(upload.validationMessage).toBe("Please select a file");
+
+      await addFiles(upload, [new File(["a"], "cv.pdf", { type: "application/pdf" })]);
+      expect(upload.checkValidity()).toBe(true);
+    });
+
+    it("should report typeMismatch when a file no longer matches accept", async () => {
+      const upload = await mount(html`<ds-file-upload name="cv"></ds-file-upload>`);
+      await addFiles(upload, [new File(["a"], "cv.txt", { type: "text/plain" })]);
+
+      upload.accept = ".pdf";
+      await upload.updateComplete;
+      await upload.updateComplete;
+
+      expect(upload.validity.typeMismatch).toBe(true);
+      expect(upload.validationMessage).toBe("cv.txt is not an accepted file type");
+    });
+
+    it("should clear its files on form reset", async () => {
+      const upload = await mount(html`<ds-file-upload name="cv"></ds-file-upload>`);
+      await addFiles(upload, [new File(["a"], "cv.pdf")]);
+
+      upload.formResetCallback();
+
+      expect(upload.getFiles()).toEqual([]);
+      expect(formValues.get(upload)).toBeNull();
+    });
+  });
 });
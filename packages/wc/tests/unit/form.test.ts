@@ -0,0 +1,243 @@
+import type { StandardSchemaV1 } from "@hypoth-ui/primitives-dom";
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/checkbox/checkbox.js";
+import "../../src/components/field/field.js";
+import "../../src/components/form/form.js";
+import "../../src/components/input/input.js";
+import "../../src/components/slider/slider.js";
+import type { DsForm } from "../../src/components/form/form.js";
+
+interface SignupValues {
+  [key: string]: unknown;
+  email: string;
+  terms: boolean;
+}
+
+/** Requires an email address with an "@" */
+const emailSchema: StandardSchemaV1<SignupValues> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: async (value) => {
+      const { email } = value as SignupValues;
+      return email.includes("@")
+        ? { value: value as SignupValues }
+        : { issues: [{ message: "Enter a valid email", path: ["email"] }] };
+    },
+  },
+};
+
+/** Lets validation settle and ds-field pick up error text */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("DsForm", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function mount(): Promise<DsForm<SignupValues>> {
+    render(
+      html`
+        <ds-form>
+          <form>
+            <ds-field>
+              <ds-label>Email</ds-label>
+              <ds-input name="email"></ds-input>
+              <ds-field-error></ds-field-error>
+            </ds-field>
+            <ds-checkbox name="terms">Accept the terms</ds-checkbox>
+            <ds-field-error class="form-error"></ds-field-error>
+            <button type="submit">Sign up</button>
+          </form>
+        </ds-form>
+      `,
+      container
+    );
+    const form = container.querySelector("ds-form") as DsForm<SignupValues>;
+    form.schema = emailSchema;
+    await form.updateComplete;
+    await settle();
+    return form;
+  }
+
+  function typeEmail(value: string): HTMLInputElement {
+    const input = container.querySelector("ds-input input") as HTMLInputElement;
+    input.value = value;
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+    return input;
+  }
+
+  it("collects typed initial values from named controls", async () => {
+    const form = await mount();
+
+    expect(form.state.values).toEqual({ email: "", terms: false });
+    expect(form.state.isDirty).toBe(false);
+  });
+
+  it("tracks changes as dirty values", async () => {
+    const form = await mount();
+
+    typeEmail("ada@example.com");
+    container.querySelector<HTMLElement>(".ds-checkbox")?.click();
+    await settle();
+
+    expect(form.state.values).toEqual({ email: "ada@example.com", terms: true });
+    expect(form.state.dirty).toEqual({ email: true, terms: true });
+  });
+
+  it("validates a field on blur and wires its error", async () => {
+    const form = await mount();
+
+    const input = typeEmail("ada");
+    input.dispatchEvent(new FocusEvent("focusout", { bubbles: true }));
+    await settle();
+
+    const error = container.querySelector("ds-field ds-field-error");
+    const control = container.querySelector("ds-input");
+    expect(form.state.touched.email).toBe(true);
+    expect(error?.textContent).toContain("Enter a valid email");
+    expect(control?.getAttribute("aria-invalid")).toBe("true");
+    expect(control?.getAttribute("aria-describedby")).toBe(error?.id);
+
+    // With an error showing, typing re-validates
+    typeEmail("ada@example.com");
+    await settle();
+    expect(error?.textContent?.trim()).toBe("");
+    expect(control?.getAttribute("aria-invalid")).toBe("false");
+  });
+
+  it("validates a blurred field without running the other fields' validators", async () => {
+    const form = await mount();
+    const validateTerms = vi.fn(() => "Accept the terms to continue");
+    form.fieldValidators = { terms: validateTerms };
+
+    typeEmail("ada").dispatchEvent(new FocusEvent("focusout", { bubbles: true }));
+    await settle();
+
+    expect(form.state.errors.email).toBe("Enter a valid email");
+    expect(form.state.errors.terms).toBeUndefined();
+    expect(validateTerms).not.toHaveBeenCalled();
+  });
+
+  it("focuses the first invalid field on a failed submit", async () => {
+    const form = await mount();
+    const onSubmit = vi.fn();
+    const onInvalid = vi.fn();
+    form.addEventListener("ds:submit", onSubmit);
+    form.addEventListener("ds:invalid-submit", onInvalid);
+
+    container.querySelector("form")?.requestSubmit();
+    await settle();
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+    expect(onInvalid.mock.calls[0]?.[0].detail.errors).toEqual({ email: "Enter a valid email" });
+    expect(document.activeElement).toBe(container.querySelector("ds-input input"));
+  });
+
+  it("emits ds:submit with typed values and dirty/touched state", async () => {
+    const form = await mount();
+    const onSubmit = vi.fn();
+    form.addEventListener("ds:submit", onSubmit);
+
+    typeEmail("ada@example.com");
+    const result = await form.submit();
+
+    expect(result.valid).toBe(true);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(onSubmit.mock.calls[0]?.[0].detail).toEqual({
+      values: { email: "ada@example.com", terms: false },
+      dirty: { email: true },
+      touched: { email: true, terms: true },
+      isDirty: true,
+    });
+  });
+
+  it("runs async field validators and shows form-level errors", async () => {
+    const form = await mount();
+    form.fieldValidators = {
+      terms: async (terms) => (terms ? undefined : "Accept the terms to continue"),
+    };
+    form.validator = () => ({ "": "Sign-ups are closed" });
+
+    typeEmail("ada@example.com");
+    const result = await form.submit();
+    await settle();
+
+    expect(result.errors).toEqual({
+      terms: "Accept the terms to continue",
+      "": "Sign-ups are closed",
+    });
+    expect(container.querySelector("ds-checkbox")?.getAttribute("aria-invalid")).toBe("true");
+    expect(container.querySelector(".form-error")?.textContent).toContain("Sign-ups are closed");
+  });
+
+  it("shows a form-level error when the schema throws", async () => {
+    const form = await mount();
+    form.schema = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: () => {
+          throw new Error("Schema crashed");
+        },
+      },
+    };
+    const onInvalid = vi.fn();
+    form.addEventListener("ds:invalid-submit", onInvalid);
+
+    container.querySelector("form")?.requestSubmit();
+    await settle();
+
+    expect(onInvalid.mock.calls[0]?.[0].detail.errors).toEqual({
+      "": "Something went wrong. Please try again.",
+    });
+    expect(container.querySelector(".form-error")?.textContent).toContain("Something went wrong");
+  });
+
+  it("includes the controls' built-in constraints", async () => {
+    render(
+      html`
+        <ds-form>
+          <form>
+            <ds-slider name="volume" min="10" .value=${5}></ds-slider>
+          </form>
+        </ds-form>
+      `,
+      container
+    );
+    const form = container.querySelector("ds-form") as DsForm;
+    await form.updateComplete;
+    await settle();
+
+    const { errors } = await form.submit();
+    expect(errors.volume).toBe("Value must be 10 or more");
+
+    form.novalidate = true;
+    expect((await form.submit()).valid).toBe(true);
+  });
+
+  it("restores values and clears errors on reset", async () => {
+    const form = await mount();
+
+    typeEmail("ada");
+    await form.submit();
+    form.reset();
+    await settle();
+
+    expect(form.state.errors).toEqual({});
+    expect(form.state.isDirty).toBe(false);
+    expect(container.querySelector("ds-field ds-field-error")?.textContent?.trim()).toBe("");
+  });
+});
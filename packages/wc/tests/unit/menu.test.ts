@@ -957,6 +957,139 @@ describe("DsMenu", () => {
       expect(document.activeElement).toBe(items[items.length - 1]);
     });
   });
+
+  describe("submenus", () => {
+    async function renderWithSubmenu(): Promise<void> {
+      render(
+        html`
+          <ds-menu open>
+            <button slot="trigger">Open Menu</button>
+            <ds-menu-content>
+              <ds-menu-item value="edit">Edit</ds-menu-item>
+              <ds-menu-sub>
+                <ds-menu-sub-trigger>Share</ds-menu-sub-trigger>
+                <ds-menu-sub-content>
+                  <ds-menu-item value="email">Email</ds-menu-item>
+                  <ds-menu-item value="link">Copy link</ds-menu-item>
+                </ds-menu-sub-content>
+              </ds-menu-sub>
+              <ds-menu-item value="delete">Delete</ds-menu-item>
+            </ds-menu-content>
+          </ds-menu>
+          <button id="outside">Outside</button>
+        `,
+        container
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    function press(key: string): void {
+      (document.activeElement as HTMLElement).dispatchEvent(
+        new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true })
+      );
+    }
+
+    function getSub(): HTMLElement & { open: boolean } {
+      return container.querySelector("ds-menu-sub") as HTMLElement & { open: boolean };
+    }
+
+    it("should link the sub-trigger to the sub-content", async () => {
+      await renderWithSubmenu();
+
+      const subTrigger = container.querySelector("ds-menu-sub-trigger") as HTMLElement;
+      const subContent = container.querySelector("ds-menu-sub-content") as HTMLElement;
+      expect(subTrigger.getAttribute("role")).toBe("menuitem");
+      expect(subTrigger.getAttribute("aria-haspopup")).toBe("menu");
+      expect(subTrigger.getAttribute("aria-expanded")).toBe("false");
+      expect(subTrigger.getAttribute("aria-controls")).toBe(subContent.id);
+      expect(subContent.getAttribute("role")).toBe("menu");
+      expect(subContent.getAttribute("aria-labelledby")).toBe(subTrigger.id);
+      expect(subContent.hasAttribute("hidden")).toBe(true);
+    });
+
+    it("should skip submenu items when navigating the menu", async () => {
+      await renderWithSubmenu();
+
+      press("ArrowDown");
+      expect(document.activeElement).toBe(container.querySelector("ds-menu-sub-trigger"));
+
+      press("ArrowDown");
+      expect((document.activeElement as HTMLElement).getAttribute("value")).toBe("delete");
+    });
+
+    it("should open with ArrowRight and close with ArrowLeft", async () => {
+      await renderWithSubmenu();
+      const subTrigger = container.querySelector("ds-menu-sub-trigger") as HTMLElement;
+
+      press("ArrowDown");
+      press("ArrowRight");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSub().open).toBe(true);
+      expect(subTrigger.getAttribute("aria-expanded")).toBe("true");
+      expect((document.activeElement as HTMLElement).getAttribute("value")).toBe("email");
+
+      press("ArrowDown");
+      expect((document.activeElement as HTMLElement).getAttribute("value")).toBe("link");
+
+      press("ArrowLeft");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(getSub().open).toBe(false);
+      expect(document.activeElement).toBe(subTrigger);
+      expect(container.querySelector("ds-menu-sub-content")?.hasAttribute("hidden")).toBe(true);
+    });
+
+    it("should close only the submenu on Escape", async () => {
+      await renderWithSubmenu();
+      const subTrigger = container.querySelector("ds-menu-sub-trigger") as HTMLElement;
+
+      subTrigger.focus();
+      press("Enter");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      press("Escape");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const menu = container.querySelector("ds-menu") as HTMLElement & { open: boolean };
+      expect(getSub().open).toBe(false);
+      expect(menu.open).toBe(true);
+      expect(document.activeElement).toBe(subTrigger);
+    });
+
+    it("should close the whole menu when a submenu item is selected", async () => {
+      await renderWithSubmenu();
+      const selectHandler = vi.fn();
+      container.querySelector("ds-menu")?.addEventListener("ds:select", selectHandler);
+
+      getSub().open = true;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      (container.querySelector('ds-menu-item[value="link"]') as HTMLElement).click();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const menu = container.querySelector("ds-menu") as HTMLElement & { open: boolean };
+      expect(selectHandler.mock.calls[0]?.[0].detail).toEqual({ value: "link" });
+      expect(menu.open).toBe(false);
+      expect(getSub().open).toBe(false);
+    });
+
+    it("should close every level on outside click", async () => {
+      await renderWithSubmenu();
+
+      getSub().open = true;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const outside = container.querySelector("#outside") as HTMLElement;
+      outside.dispatchEvent(new PointerEvent("pointerdown", { bubbles: true }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const menu = container.querySelector("ds-menu") as HTMLElement & { open: boolean };
+      expect(getSub().open).toBe(false);
+      expect(menu.open).toBe(false);
+    });
+  });
 });
 
 describe("DsMenuContent", () => {
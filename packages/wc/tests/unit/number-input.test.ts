@@ -1,6 +1,7 @@
 import { html, render } from "lit";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import "../../src/components/number-input/index.js";
+import type { DsNumberInput } from "../../src/components/number-input/number-input.js";
 
 describe("DsNumberInput", () => {
   let container: HTMLElement;
@@ -247,4 +248,80 @@ describe("DsNumberInput", () => {
       expect(input?.getAttribute("aria-valuenow")).toBe("50");
     });
   });
+
+  describe("form integration", () => {
+    async function mount(template: ReturnType<typeof html>): Promise<DsNumberInput> {
+      render(template, container);
+      const input = container.querySelector("ds-number-input") as DsNumberInput;
+      await input.updateComplete;
+      return input;
+    }
+
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-number-input") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should not submit the formatted text of its inner input", async () => {
+      const input = await mount(
+        html`<ds-number-input name="amount" format="currency" value="12"></ds-number-input>`
+      );
+
+      expect(input.querySelector("input")?.hasAttribute("name")).toBe(false);
+    });
+
+    it("should report valueMissing when required and empty", async () => {
+      const input = await mount(html`<ds-number-input name="amount" required></ds-number-input>`);
+
+      expect(input.validity.valueMissing).toBe(true);
+      expect(input.validationMessage).toBe("Please fill out this field");
+
+      input.value = 3;
+      await input.updateComplete;
+      expect(input.checkValidity()).toBe(true);
+    });
+
+    it("should map min, max and step onto validity", async () => {
+      const input = await mount(
+        html`<ds-number-input min="0" max="1" step="0.1" precision="1" value="0.3"></ds-number-input>`
+      );
+      expect(input.checkValidity()).toBe(true);
+
+      input.value = -1;
+      await input.updateComplete;
+      expect(input.validity.rangeUnderflow).toBe(true);
+      expect(input.validationMessage).toBe("Value must be 0 or more");
+
+      input.value = 0.25;
+      await input.updateComplete;
+      expect(input.validity.stepMismatch).toBe(true);
+    });
+
+    it("should restore its initial value on form reset", async () => {
+      const input = await mount(html`<ds-number-input value="5"></ds-number-input>`);
+      input.value = 9;
+      await input.updateComplete;
+
+      input.formResetCallback();
+      await input.updateComplete;
+
+      expect(input.value).toBe(5);
+      expect(input.querySelector("input")?.value).toBe("5");
+    });
+
+    it("should be empty and invalid after resetting a required field without a default", async () => {
+      const input = await mount(html`<ds-number-input name="amount" required></ds-number-input>`);
+      input.value = 9;
+      await input.updateComplete;
+      expect(input.checkValidity()).toBe(true);
+
+      input.formResetCallback();
+      await input.updateComplete;
+
+      expect(input.value).toBeUndefined();
+      expect(input.validity.valueMissing).toBe(true);
+      expect(input.checkValidity()).toBe(false);
+    });
+  });
 });
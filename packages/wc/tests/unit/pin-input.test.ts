@@ -1,6 +1,7 @@
 import { html, render } from "lit";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import "../../src/components/pin-input/index.js";
+import type { DsPinInput } from "../../src/components/pin-input/pin-input.js";
 
 describe("DsPinInput", () => {
   let container: HTMLElement;
@@ -315,4 +316,39 @@ describe("DsPinInput", () => {
       expect(pinInput.value).toBe("");
     });
   });
+
+  describe("form integration", () => {
+    async function mount(template: ReturnType<typeof html>): Promise<DsPinInput> {
+      render(template, container);
+      const pinInput = container.querySelector("ds-pin-input") as DsPinInput;
+      await pinInput.updateComplete;
+      return pinInput;
+    }
+
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-pin-input") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should report valueMissing when required and empty", async () => {
+      const pinInput = await mount(html`<ds-pin-input name="code" required></ds-pin-input>`);
+
+      expect(pinInput.validity.valueMissing).toBe(true);
+      expect(pinInput.validationMessage).toBe("Please enter the code");
+    });
+
+    it("should report tooShort for a partly entered code", async () => {
+      const pinInput = await mount(html`<ds-pin-input .length=${4}></ds-pin-input>`);
+      pinInput.value = "12";
+      await pinInput.updateComplete;
+
+      expect(pinInput.validity.tooShort).toBe(true);
+      expect(pinInput.validationMessage).toBe("Please enter all 4 characters");
+
+      pinInput.value = "1234";
+      await pinInput.updateComplete;
+      expect(pinInput.checkValidity()).toBe(true);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 import { html, render } from "lit";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { recordFormValues } from "../fixtures/form-values.js";
 import "../../src/components/slider/index.js";
+import type { DsSlider } from "../../src/components/slider/slider.js";
 
 describe("DsSlider", () => {
   let container: HTMLElement;
@@ -92,6 +94,23 @@ describe("DsSlider", () => {
       expect(slider?.value).toBe(40);
     });
 
+    it("should swap ArrowLeft and ArrowRight in RTL", async () => {
+      container.dir = "rtl";
+      render(html`<ds-slider min="0" max="100" step="10" value="50"></ds-slider>`, container);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const thumb = container.querySelector("[role='slider']") as HTMLElement;
+      thumb?.focus();
+      thumb?.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowLeft", bubbles: true }));
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const slider = container.querySelector("ds-slider") as HTMLElement & { value: number };
+      expect(slider?.value).toBe(60);
+      container.removeAttribute("dir");
+    });
+
     it("should go to min on Home", async () => {
       render(html`<ds-slider min="0" max="100" value="50"></ds-slider>`, container);
 
@@ -246,4 +265,81 @@ describe("DsSlider", () => {
       expect(slider?.value).toBe(55);
     });
   });
+
+  describe("form integration", () => {
+    const formValues = recordFormValues();
+
+    async function mount(template: ReturnType<typeof html>): Promise<DsSlider> {
+      render(template, container);
+      const slider = container.querySelector("ds-slider") as DsSlider;
+      await slider.updateComplete;
+      return slider;
+    }
+
+    it("should be form-associated", () => {
+      expect((customElements.get("ds-slider") as { formAssociated?: boolean }).formAssociated).toBe(
+        true
+      );
+    });
+
+    it("should submit the value under its name", async () => {
+      const slider = await mount(html`<ds-slider name="volume" value="40"></ds-slider>`);
+
+      expect(formValues.get(slider)).toBe("40");
+
+      slider.value = 60;
+      await slider.updateComplete;
+      expect(formValues.get(slider)).toBe("60");
+    });
+
+    it("should submit both ends of a range under name-start and name-end", async () => {
+      const slider = await mount(
+        html`<ds-slider name="price" range range-min="20" range-max="80"></ds-slider>`
+      );
+
+      const data = formValues.get(slider) as FormData;
+      expect(data.get("price-start")).toBe("20");
+      expect(data.get("price-end")).toBe("80");
+
+      slider.nameStart = "from";
+      slider.nameEnd = "to";
+      await slider.updateComplete;
+
+      const renamed = formValues.get(slider) as FormData;
+      expect([...renamed.keys()]).toEqual(["from", "to"]);
+    });
+
+    it("should map min, max and step onto validity", async () => {
+      const slider = await mount(
+        html`<ds-slider min="10" max="50" step="5" value="20"></ds-slider>`
+      );
+      expect(slider.checkValidity()).toBe(true);
+
+      slider.value = 22;
+      await slider.updateComplete;
+      expect(slider.validity.stepMismatch).toBe(true);
+      expect(slider.validationMessage).toBe("Value must be in steps of 5");
+
+      slider.value = 60;
+      await slider.updateComplete;
+      expect(slider.validity.rangeOverflow).toBe(true);
+      expect(slider.validationMessage).toBe("Value must be 50 or less");
+    });
+
+    it("should restore its initial values on form reset", async () => {
+      const slider = await mount(
+        html`<ds-slider name="price" range range-min="20" range-max="80"></ds-slider>`
+      );
+      slider.rangeMin = 30;
+      slider.rangeMax = 40;
+      await slider.updateComplete;
+
+      slider.formResetCallback();
+      await slider.updateComplete;
+
+      expect(slider.rangeMin).toBe(20);
+      expect(slider.rangeMax).toBe(80);
+      expect((formValues.get(slider) as FormData).get("price-end")).toBe("80");
+    });
+  });
 });
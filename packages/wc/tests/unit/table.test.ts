@@ -0,0 +1,159 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import "../../src/components/table/index.js";
+import type { DsTableHead } from "../../src/components/table/table-head.js";
+import type { DsTable } from "../../src/components/table/table.js";
+
+describe("DsTable", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function renderTable(grid: boolean): Promise<DsTable> {
+    render(
+      html`
+        <ds-table ?grid=${grid}>
+          <ds-table-header>
+            <ds-table-row>
+              <ds-table-head>Name</ds-table-head>
+              <ds-table-head>Actions</ds-table-head>
+            </ds-table-row>
+          </ds-table-header>
+          <ds-table-body>
+            <ds-table-row>
+              <ds-table-cell>Ada</ds-table-cell>
+              <ds-table-cell><button>Edit Ada</button></ds-table-cell>
+            </ds-table-row>
+            <ds-table-row>
+              <ds-table-cell>Grace</ds-table-cell>
+              <ds-table-cell><button>Edit Grace</button></ds-table-cell>
+            </ds-table-row>
+          </ds-table-body>
+        </ds-table>
+      `,
+      container
+    );
+
+    const table = container.querySelector("ds-table") as DsTable;
+    await table.updateComplete;
+    return table;
+  }
+
+  function press(key: string, init: KeyboardEventInit = {}): void {
+    (document.activeElement as HTMLElement).dispatchEvent(
+      new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init })
+    );
+  }
+
+  function cells(table: DsTable): HTMLElement[] {
+    return Array.from(table.querySelectorAll<HTMLElement>("ds-table-head, ds-table-cell"));
+  }
+
+  it("should render a plain table by default", async () => {
+    const table = await renderTable(false);
+
+    expect(table.querySelector("table")?.hasAttribute("role")).toBe(false);
+    expect(cells(table).some((cell) => cell.hasAttribute("tabindex"))).toBe(false);
+  });
+
+  describe("grid mode", () => {
+    it("should render role=grid with a single tab stop", async () => {
+      const table = await renderTable(true);
+
+      expect(table.querySelector("table")?.getAttribute("role")).toBe("grid");
+      expect(cells(table).map((cell) => cell.tabIndex)).toEqual([0, -1, -1, -1, -1, -1]);
+      expect(table.querySelector("button")?.tabIndex).toBe(-1);
+    });
+
+    it("should move focus between cells with arrow keys", async () => {
+      const table = await renderTable(true);
+      const [name, actions, ada, , grace] = cells(table);
+
+      name?.focus();
+      press("ArrowDown");
+      expect(document.activeElement).toBe(ada);
+
+      press("PageDown");
+      expect(document.activeElement).toBe(grace);
+
+      press("Home", { ctrlKey: true });
+      press("ArrowRight");
+      expect(document.activeElement).toBe(actions);
+    });
+
+    it("should enter cell content with F2 and leave it with Escape", async () => {
+      const table = await renderTable(true);
+      const editCell = cells(table)[3] as HTMLElement;
+
+      editCell.focus();
+      press("F2");
+      expect(document.activeElement).toBe(editCell.querySelector("button"));
+
+      press("Escape");
+      expect(document.activeElement).toBe(editCell);
+    });
+
+    it("should include rows added later", async () => {
+      const table = await renderTable(true);
+      const row = document.createElement("ds-table-row");
+      row.innerHTML = "<ds-table-cell><button>New</button></ds-table-cell>";
+      table.querySelector("ds-table-body")?.appendChild(row);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(row.querySelector("ds-table-cell")?.tabIndex).toBe(-1);
+      expect(row.querySelector("button")?.tabIndex).toBe(-1);
+    });
+  });
+
+  describe("sort model", () => {
+    it("should show the sort and its priority on slotted heads", async () => {
+      render(
+        html`
+          <ds-table>
+            <ds-table-header>
+              <ds-table-row>
+                <ds-table-head sortable column="name">Name</ds-table-head>
+                <ds-table-head sortable column="age">Age</ds-table-head>
+                <ds-table-head sortable column="city">City</ds-table-head>
+              </ds-table-row>
+            </ds-table-header>
+          </ds-table>
+        `,
+        container
+      );
+      const table = container.querySelector("ds-table") as DsTable;
+      const heads = Array.from(table.querySelectorAll<DsTableHead>("ds-table-head"));
+
+      table.sortModel = [
+        { column: "age", direction: "desc" },
+        { column: "name", direction: "asc" },
+      ];
+      await table.updateComplete;
+      await Promise.all(heads.map((head) => head.updateComplete));
+
+      const [name, age, city] = heads as [DsTableHead, DsTableHead, DsTableHead];
+      expect(age.sortPriority).toBe(1);
+      expect(age.querySelector("th")?.getAttribute("aria-sort")).toBe("descending");
+      expect(name.sortPriority).toBe(2);
+      expect(name.querySelector(".ds-table__sort-priority")?.textContent).toBe("2");
+      expect(name.querySelector("th")?.getAttribute("aria-sort")).toBe("none");
+      expect(city.sortDirection).toBe("none");
+
+      table.sortModel = [{ column: "name", direction: "desc" }];
+      await table.updateComplete;
+      await Promise.all(heads.map((head) => head.updateComplete));
+
+      expect(name.sortPriority).toBe(0);
+      expect(name.sortDirection).toBe("desc");
+      expect(age.sortDirection).toBe("none");
+      expect(age.querySelector(".ds-table__sort-priority")).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { html, render } from "lit";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import "../../src/components/time-picker/index.js";
+import type { DsTimePicker } from "../../src/components/time-picker/time-picker.js";
 
 describe("DsTimePicker", () => {
   let container: HTMLElement;
@@ -49,16 +50,14 @@ describe("DsTimePicker", () => {
       expect(timePicker?.hasAttribute("show-seconds")).toBe(true);
     });
 
-    it("should have default 12-hour format", async () => {
+    it("should default to 12-hour format for en-US", async () => {
       render(html`<ds-time-picker></ds-time-picker>`, container);
 
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      // Check that hourFormat property is 12 by default
-      const timePicker = container.querySelector("ds-time-picker") as HTMLElement & {
-        hourFormat: number;
-      };
-      expect(timePicker?.hourFormat).toBe(12);
+      const hourSegment = container.querySelector("[data-segment='hour']");
+      expect(hourSegment?.getAttribute("aria-valuemax")).toBe("12");
+      expect(container.querySelector("[data-segment='period']")?.textContent?.trim()).toBe("AM");
     });
 
     it("should not render AM/PM in 24-hour format", async () => {
@@ -135,6 +134,98 @@ describe("DsTimePicker", () => {
     });
   });
 
+  describe("locale", () => {
+    function segments(): (string | undefined)[] {
+      return [...container.querySelectorAll<HTMLElement>("[data-segment]")].map(
+        (el) => el.dataset.segment
+      );
+    }
+
+    it("should use the locale's 24-hour cycle", async () => {
+      render(html`<ds-time-picker locale="de-DE" value="14:30"></ds-time-picker>`, container);
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+
+      expect(segments()).toEqual(["hour", "minute"]);
+      expect(container.querySelector("[data-segment='hour']")?.textContent?.trim()).toBe("14");
+    });
+
+    it("should order segments and label periods by locale", async () => {
+      render(
+        html`<ds-time-picker locale="ja-JP" hour-format="12" value="14:30"></ds-time-picker>`,
+        container
+      );
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+
+      expect(segments()).toEqual(["period", "hour", "minute"]);
+      expect(container.querySelector("[data-segment='period']")?.textContent?.trim()).toBe("午後");
+    });
+
+    it("should re-render when the locale changes", async () => {
+      render(html`<ds-time-picker value="14:30"></ds-time-picker>`, container);
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+
+      timePicker.locale = "de-DE";
+      await timePicker.updateComplete;
+      await timePicker.updateComplete;
+
+      expect(segments()).toEqual(["hour", "minute"]);
+    });
+
+    it("should accept typed localized periods", async () => {
+      render(html`<ds-time-picker locale="ko-KR" value="9:00 AM"></ds-time-picker>`, container);
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+      const period = container.querySelector("[data-segment='period']") as HTMLElement;
+
+      for (const key of ["오", "후"]) {
+        period.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+      }
+      await timePicker.updateComplete;
+
+      expect(timePicker.value).toBe("9:00 PM");
+      expect(period.textContent?.trim()).toBe("오후");
+    });
+  });
+
+  describe("time zone", () => {
+    it("should show a Date in the time zone", async () => {
+      render(
+        html`<ds-time-picker time-zone="Asia/Tokyo" hour-format="24"></ds-time-picker>`,
+        container
+      );
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+
+      timePicker.valueAsDate = new Date("2026-07-01T12:30:00Z");
+      await timePicker.updateComplete;
+
+      expect(timePicker.value).toBe("21:30");
+      expect(container.querySelector("[data-segment='hour']")?.textContent?.trim()).toBe("21");
+    });
+
+    it("should emit the instant for the time in the time zone", async () => {
+      render(
+        html`<ds-time-picker time-zone="UTC" hour-format="24" value="10:30"></ds-time-picker>`,
+        container
+      );
+      const timePicker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await timePicker.updateComplete;
+      const handler = vi.fn();
+      timePicker.addEventListener("ds:change", handler);
+
+      const hourSegment = container.querySelector("[data-segment='hour']") as HTMLElement;
+      hourSegment.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowUp", bubbles: true }));
+
+      const detail = handler.mock.calls[0]?.[0].detail;
+      expect(detail.value).toEqual({ hour: 11, minute: 30, second: 0 });
+      expect(detail.date).toMatch(/T11:30:00\.000Z$/);
+      expect(timePicker.valueAsDate?.toISOString()).toBe(detail.date);
+    });
+  });
+
   describe("disabled state", () => {
     it("should have aria-disabled on segments when disabled", async () => {
       render(html`<ds-time-picker disabled></ds-time-picker>`, container);
@@ -188,4 +279,43 @@ describe("DsTimePicker", () => {
       expect(hourSegment?.getAttribute("aria-valuemax")).toBe("12");
     });
   });
+
+  describe("form integration", () => {
+    async function mount(template: ReturnType<typeof html>): Promise<DsTimePicker> {
+      render(template, container);
+      const picker = container.querySelector("ds-time-picker") as DsTimePicker;
+      await picker.updateComplete;
+      return picker;
+    }
+
+    it("should be form-associated", () => {
+      expect(
+        (customElements.get("ds-time-picker") as { formAssociated?: boolean }).formAssociated
+      ).toBe(true);
+    });
+
+    it("should report valueMissing when required and empty", async () => {
+      const picker = await mount(html`<ds-time-picker name="pickup" required></ds-time-picker>`);
+
+      expect(picker.validity.valueMissing).toBe(true);
+      expect(picker.validationMessage).toBe("Please choose a time");
+    });
+
+    it("should map min and max onto validity", async () => {
+      const picker = await mount(
+        html`<ds-time-picker min="09:00" max="17:30" value="08:45"></ds-time-picker>`
+      );
+
+      expect(picker.validity.rangeUnderflow).toBe(true);
+      expect(picker.validationMessage).toBe("Please choose a time at or after 09:00");
+
+      picker.value = "17:45";
+      await picker.updateComplete;
+      expect(picker.validity.rangeOverflow).toBe(true);
+
+      picker.value = "12:00";
+      await picker.updateComplete;
+      expect(picker.checkValidity()).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,217 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/toast/toast-provider.js";
+import {
+  ToastController,
+  type ToastData,
+  getGlobalToastController,
+} from "../../src/components/toast/toast-controller.js";
+import type { DsToastProvider } from "../../src/components/toast/toast-provider.js";
+import type { DsToast } from "../../src/components/toast/toast.js";
+
+describe("ToastController", () => {
+  let toasts: ToastData[];
+  let controller: ToastController;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    toasts = [];
+    controller = new ToastController({
+      defaultDuration: 5000,
+      onUpdate: (next) => {
+        toasts = next;
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("updates a toast in place", () => {
+    const id = controller.show({ title: "Uploading", progress: 0, duration: 0 });
+    controller.update(id, { progress: 40, description: "2 of 5 files" });
+
+    expect(toasts).toHaveLength(1);
+    expect(toasts[0]).toMatchObject({ id, progress: 40, description: "2 of 5 files" });
+  });
+
+  it("restarts the countdown when update sets a duration", () => {
+    const id = controller.show({ title: "Uploading", duration: 0 });
+    controller.update(id, { title: "Uploaded", duration: 1000 });
+
+    vi.advanceTimersByTime(999);
+    expect(toasts[0]?.state).not.toBe("exiting");
+
+    vi.advanceTimersByTime(1);
+    expect(toasts[0]?.state).toBe("exiting");
+  });
+
+  it("morphs one toast through a resolved promise", async () => {
+    let resolve!: (value: string) => void;
+    const pending = new Promise<string>((r) => {
+      resolve = r;
+    });
+
+    const id = controller.promise(pending, {
+      loading: "Saving…",
+      success: (name) => `Saved ${name}`,
+      error: "Save failed",
+    });
+
+    expect(toasts[0]).toMatchObject({ id, title: "Saving…", variant: "loading", duration: 0 });
+
+    resolve("report.pdf");
+    await vi.runAllTicks();
+    await pending;
+
+    expect(toasts).toHaveLength(1);
+    expect(toasts[0]).toMatchObject({
+      id,
+      title: "Saved report.pdf",
+      variant: "success",
+      duration: 5000,
+    });
+  });
+
+  it("shows the error content when the promise rejects", async () => {
+    const failing = Promise.reject(new Error("offline"));
+
+    const id = controller.promise(failing, {
+      loading: "Saving…",
+      success: "Saved",
+      error: (error) => ({ title: "Save failed", description: (error as Error).message }),
+    });
+
+    await failing.catch(() => {});
+
+    expect(toasts[0]).toMatchObject({
+      id,
+      title: "Save failed",
+      description: "offline",
+      variant: "error",
+    });
+  });
+
+  it("shows the error content when the success mapper throws", async () => {
+    const saved = Promise.resolve({ name: "report.pdf" });
+
+    const id = controller.promise(saved, {
+      loading: "Saving…",
+      success: () => {
+        throw new Error("Bad response");
+      },
+      error: (error) => ({ title: "Save failed", description: (error as Error).message }),
+    });
+
+    await saved;
+
+    expect(toasts[0]).toMatchObject({
+      id,
+      title: "Save failed",
+      description: "Bad response",
+      variant: "error",
+      duration: 5000,
+    });
+  });
+
+  it("ends the loading state when the error mapper throws", async () => {
+    const failing = Promise.reject(new Error("offline"));
+
+    const id = controller.promise(failing, {
+      loading: "Saving…",
+      success: "Saved",
+      error: () => {
+        throw new Error("Mapper crashed");
+      },
+    });
+
+    await failing.catch(() => {});
+
+    expect(toasts[0]).toMatchObject({ id, title: "offline", variant: "error", duration: 5000 });
+  });
+});
+
+describe("DsToastProvider", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  async function renderProvider(): Promise<DsToastProvider> {
+    render(
+      html`
+        <ds-toast-provider>
+          <button id="app-button">App</button>
+        </ds-toast-provider>
+      `,
+      container
+    );
+    const provider = container.querySelector("ds-toast-provider") as DsToastProvider;
+    await provider.updateComplete;
+    return provider;
+  }
+
+  it("moves focus into the region on F8 and back on Escape", async () => {
+    const provider = await renderProvider();
+    const viewport = provider.querySelector(".ds-toast-viewport") as HTMLElement;
+    const button = container.querySelector("#app-button") as HTMLButtonElement;
+
+    getGlobalToastController().show({ title: "Saved", duration: 0 });
+    await provider.updateComplete;
+
+    button.focus();
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "F8", bubbles: true }));
+    expect(document.activeElement).toBe(viewport);
+    expect(viewport.getAttribute("aria-label")).toContain("F8");
+
+    viewport.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape", bubbles: true }));
+    expect(document.activeElement).toBe(button);
+  });
+
+  it("expands the stack while hovered", async () => {
+    const provider = await renderProvider();
+    const viewport = provider.querySelector(".ds-toast-viewport") as HTMLElement;
+
+    getGlobalToastController().show({ title: "One", duration: 0 });
+    getGlobalToastController().show({ title: "Two", duration: 0 });
+    await provider.updateComplete;
+
+    expect(viewport.hasAttribute("data-expanded")).toBe(false);
+    const items = viewport.querySelectorAll<HTMLElement>("ds-toast");
+    expect(items[1]?.style.getPropertyValue("--ds-toast-index").trim()).toBe("1");
+
+    viewport.dispatchEvent(new MouseEvent("mouseenter"));
+    await provider.updateComplete;
+    expect(viewport.hasAttribute("data-expanded")).toBe(true);
+
+    viewport.dispatchEvent(new MouseEvent("mouseleave"));
+    await provider.updateComplete;
+    expect(viewport.hasAttribute("data-expanded")).toBe(false);
+  });
+
+  it("dismisses a toast swiped toward the edge", async () => {
+    const provider = await renderProvider();
+    const id = getGlobalToastController().show({ title: "Swipe me", duration: 0 });
+    await provider.updateComplete;
+
+    const toast = provider.querySelector("ds-toast") as DsToast;
+    await toast.updateComplete;
+    const onDismiss = vi.fn();
+    toast.addEventListener("ds:dismiss", onDismiss);
+
+    const pointer = { pointerId: 1, button: 0, bubbles: true };
+    toast.dispatchEvent(new PointerEvent("pointerdown", { ...pointer, clientX: 0, clientY: 0 }));
+    toast.dispatchEvent(new PointerEvent("pointermove", { ...pointer, clientX: 80, clientY: 0 }));
+    toast.dispatchEvent(new PointerEvent("pointerup", { ...pointer, clientX: 80, clientY: 0 }));
+
+    expect(onDismiss).toHaveBeenCalledOnce();
+    expect((onDismiss.mock.calls[0]?.[0] as CustomEvent).detail.id).toBe(id);
+  });
+});
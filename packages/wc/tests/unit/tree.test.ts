@@ -0,0 +1,368 @@
+import { html, render } from "lit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import "../../src/components/tree/tree-item.js";
+import "../../src/components/tree/tree.js";
+import type { TreeDataNode } from "@hypoth-ui/primitives-dom";
+import type { DsTree } from "../../src/components/tree/tree.js";
+
+/** Lets items connect, sync and render */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("DsTree", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  function row(itemId: string): HTMLElement {
+    return container.querySelector(
+      `ds-tree-item[item-id="${itemId}"] > li > .ds-tree-item__content`
+    ) as HTMLElement;
+  }
+
+  function treeItem(itemId: string): HTMLElement {
+    return container.querySelector(`ds-tree-item[item-id="${itemId}"] > li`) as HTMLElement;
+  }
+
+  describe("checkbox selection", () => {
+    async function mount(): Promise<DsTree> {
+      render(
+        html`
+          <ds-tree selection-mode="checkbox" label="Permissions">
+            <ds-tree-item item-id="admin" expanded>
+              Admin
+              <div slot="children">
+                <ds-tree-item item-id="read">Read</ds-tree-item>
+                <ds-tree-item item-id="write" selected>Write</ds-tree-item>
+              </div>
+            </ds-tree-item>
+            <ds-tree-item item-id="guest">Guest</ds-tree-item>
+          </ds-tree>
+        `,
+        container
+      );
+      const tree = container.querySelector("ds-tree") as DsTree;
+      await tree.updateComplete;
+      await settle();
+      return tree;
+    }
+
+    it("should show a mixed parent for partly checked children", async () => {
+      await mount();
+
+      expect(container.querySelector("[role=tree]")?.getAttribute("aria-multiselectable")).toBe(
+        "true"
+      );
+      expect(treeItem("write").getAttribute("aria-checked")).toBe("true");
+      expect(treeItem("read").getAttribute("aria-checked")).toBe("false");
+      expect(treeItem("admin").getAttribute("aria-checked")).toBe("mixed");
+      expect(treeItem("admin").hasAttribute("aria-selected")).toBe(false);
+    });
+
+    it("should check down and up and report checked items", async () => {
+      const tree = await mount();
+      const onChange = vi.fn();
+      tree.addEventListener("ds:selection-change", onChange);
+
+      row("read").click();
+      await settle();
+
+      expect(treeItem("admin").getAttribute("aria-checked")).toBe("true");
+      expect(onChange.mock.calls[0]?.[0].detail.selectedItems.sort()).toEqual([
+        "admin",
+        "read",
+        "write",
+      ]);
+
+      row("admin").click();
+      await settle();
+
+      expect(treeItem("read").getAttribute("aria-checked")).toBe("false");
+      expect(treeItem("write").getAttribute("aria-checked")).toBe("false");
+      expect(onChange.mock.calls[1]?.[0].detail.selectedItems).toEqual([]);
+    });
+  });
+
+  describe("lazy children", () => {
+    it("should load children on first expand and retry after an error", async () => {
+      render(
+        html`
+          <ds-tree label="Files">
+            <ds-tree-item item-id="docs" lazy>Docs</ds-tree-item>
+          </ds-tree>
+        `,
+        container
+      );
+      const tree = container.querySelector("ds-tree") as DsTree;
+      let fail = true;
+      tree.loadChildren = vi.fn(async (nodeId: string) => {
+        if (fail) throw new Error("Network error");
+        const group = document.createElement("div");
+        group.slot = "children";
+        group.innerHTML = `<ds-tree-item item-id="${nodeId}-readme">README</ds-tree-item>`;
+        container.querySelector(`ds-tree-item[item-id="${nodeId}"]`)?.append(group);
+      });
+      await tree.updateComplete;
+      await settle();
+
+      expect(treeItem("docs").getAttribute("aria-expanded")).toBe("false");
+
+      row("docs").dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight" }));
+      await settle();
+
+      expect(tree.loadChildren).toHaveBeenCalledWith("docs");
+      expect(tree.getItemLoadState("docs")).toBe("error");
+      const retry = container.querySelector<HTMLButtonElement>(".ds-tree-item__retry");
+      expect(retry?.textContent?.trim()).toBe("Retry");
+
+      fail = false;
+      retry?.click();
+      await settle();
+
+      expect(tree.getItemLoadState("docs")).toBe("loaded");
+      expect(container.querySelector(".ds-tree-item__status")).toBeNull();
+      expect(treeItem("docs-readme")).not.toBeNull();
+      expect(treeItem("docs").getAttribute("aria-expanded")).toBe("true");
+    });
+  });
+
+  describe("moves", () => {
+    async function mount(): Promise<DsTree> {
+      render(
+        html`
+          <ds-tree label="Roles" reorderable>
+            <ds-tree-item item-id="admin" expanded>
+              Admin
+              <div slot="children">
+                <ds-tree-item item-id="users">Users</ds-tree-item>
+                <ds-tree-item item-id="billing">Billing</ds-tree-item>
+              </div>
+            </ds-tree-item>
+            <ds-tree-item item-id="guest">Guest</ds-tree-item>
+          </ds-tree>
+        `,
+        container
+      );
+      const tree = container.querySelector("ds-tree") as DsTree;
+      await tree.updateComplete;
+      await settle();
+      return tree;
+    }
+
+    function itemIds(parent: Element | null): string[] {
+      return Array.from(parent?.children ?? [])
+        .filter((child) => child.localName === "ds-tree-item")
+        .map((item) => item.getAttribute("item-id") ?? "");
+    }
+
+    it("should move items with Alt+Arrow keys and emit ds:move", async () => {
+      const tree = await mount();
+      const onMove = vi.fn();
+      tree.addEventListener("ds:move", onMove);
+
+      row("billing").dispatchEvent(
+        new KeyboardEvent("keydown", { key: "ArrowUp", altKey: true, cancelable: true })
+      );
+      await settle();
+
+      expect(onMove.mock.calls[0]?.[0].detail).toEqual({
+        sourceId: "billing",
+        targetId: "users",
+        position: "before",
+        parentId: "admin",
+        index: 0,
+      });
+      expect(itemIds(container.querySelector("[slot=children]"))).toEqual(["billing", "users"]);
+      expect(treeItem("billing").getAttribute("aria-posinset")).toBe("1");
+
+      row("billing").dispatchEvent(
+        new KeyboardEvent("keydown", { key: "ArrowLeft", altKey: true, cancelable: true })
+      );
+      await settle();
+
+      expect(itemIds(tree)).toEqual(["admin", "billing", "guest"]);
+      expect(treeItem("billing").getAttribute("aria-level")).toBe("1");
+    });
+
+    it("should leave the DOM alone when ds:move is canceled", async () => {
+      const tree = await mount();
+      tree.addEventListener("ds:move", (event) => event.preventDefault());
+
+      expect(tree.moveItem("guest", "users", "inside")).toBe(false);
+      expect(itemIds(tree)).toEqual(["admin", "guest"]);
+    });
+
+    it("should refuse to move an item into its own subtree", async () => {
+      const tree = await mount();
+
+      expect(tree.moveItem("admin", "users", "inside")).toBe(false);
+    });
+
+    it("should move items by drag and drop", async () => {
+      await mount();
+      expect(row("guest").getAttribute("draggable")).toBe("true");
+
+      row("guest").dispatchEvent(new Event("dragstart", { bubbles: true }));
+      const over = new Event("dragover", { bubbles: true, cancelable: true });
+      row("users").dispatchEvent(over);
+
+      expect(over.defaultPrevented).toBe(true);
+      expect(container.querySelector("[item-id=users]")?.getAttribute("data-drop-position")).toBe(
+        "inside"
+      );
+
+      row("users").dispatchEvent(new Event("drop", { bubbles: true, cancelable: true }));
+      await settle();
+
+      const users = container.querySelector("[item-id=users]");
+      expect(itemIds(users?.querySelector("[slot=children]") ?? null)).toEqual(["guest"]);
+      expect(users?.hasAttribute("expanded")).toBe(true);
+      expect(users?.hasAttribute("data-drop-position")).toBe(false);
+    });
+  });
+
+  describe("data-driven mode", () => {
+    const FOLDER_COUNT = 200;
+
+    /** folder-0 … folder-199, each with three files */
+    const nodes: TreeDataNode[] = Array.from({ length: FOLDER_COUNT }, (_, i) => ({
+      id: `folder-${i}`,
+      label: `Folder ${i}`,
+      children: ["a", "b", "c"].map((name) => ({
+        id: `folder-${i}/${name}`,
+        label: `${name}.txt`,
+      })),
+    }));
+
+    async function mount(options: { virtualized?: boolean } = {}): Promise<DsTree> {
+      render(
+        html`<ds-tree label="Files" ?virtualized=${options.virtualized} overscan="2"></ds-tree>`,
+        container
+      );
+      const tree = container.querySelector("ds-tree") as DsTree;
+      tree.nodes = nodes;
+      await tree.updateComplete;
+      await settle();
+      return tree;
+    }
+
+    function rows(): HTMLElement[] {
+      return Array.from(container.querySelectorAll<HTMLElement>("li[role=treeitem]"));
+    }
+
+    function nodeRow(id: string): HTMLElement | undefined {
+      return rows().find((row) => row.dataset.nodeId === id);
+    }
+
+    it("should render the expanded nodes as flat rows with their position", async () => {
+      const tree = await mount();
+
+      expect(rows()).toHaveLength(FOLDER_COUNT);
+      expect(nodeRow("folder-1")?.getAttribute("aria-posinset")).toBe("2");
+      expect(nodeRow("folder-1")?.getAttribute("aria-setsize")).toBe(String(FOLDER_COUNT));
+      expect(nodeRow("folder-1")?.getAttribute("aria-expanded")).toBe("false");
+
+      const onExpand = vi.fn();
+      tree.addEventListener("ds:expand", onExpand);
+      nodeRow("folder-1")
+        ?.querySelector<HTMLElement>(".ds-tree-item__content")
+        ?.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+      await settle();
+
+      expect(onExpand.mock.calls[0]?.[0].detail).toEqual({ itemId: "folder-1", expanded: true });
+      expect(rows()).toHaveLength(FOLDER_COUNT + 3);
+      const child = nodeRow("folder-1/b");
+      expect(child?.getAttribute("aria-level")).toBe("2");
+      expect(child?.getAttribute("aria-setsize")).toBe("3");
+      expect(child?.getAttribute("aria-posinset")).toBe("2");
+    });
+
+    it("should mount only the window of rows when virtualized", async () => {
+      await mount({ virtualized: true });
+
+      expect(rows().length).toBeGreaterThan(0);
+      expect(rows().length).toBeLessThan(FOLDER_COUNT);
+      expect(rows()[0]?.dataset.nodeId).toBe("folder-0");
+      expect(container.querySelectorAll(".ds-tree__spacer")).toHaveLength(2);
+    });
+
+    it("should scroll to and mount a node inside a collapsed folder", async () => {
+      const tree = await mount({ virtualized: true });
+      const onExpand = vi.fn();
+      tree.addEventListener("ds:expand", onExpand);
+
+      tree.scrollToId("folder-150/c");
+      await settle();
+
+      expect(onExpand.mock.calls[0]?.[0].detail).toEqual({ itemId: "folder-150", expanded: true });
+      const row = nodeRow("folder-150/c");
+      expect(row?.getAttribute("aria-level")).toBe("2");
+      expect(row?.getAttribute("aria-posinset")).toBe("3");
+      expect(nodeRow("folder-0")).toBeUndefined();
+    });
+
+    it("should focus unmounted rows with type-ahead and End", async () => {
+      await mount({ virtualized: true });
+      const first = rows()[0]?.querySelector<HTMLElement>(".ds-tree-item__content");
+      first?.focus();
+
+      first?.dispatchEvent(new KeyboardEvent("keydown", { key: "End", bubbles: true }));
+      await settle();
+
+      expect(document.activeElement?.closest("li")?.dataset.nodeId).toBe(
+        `folder-${FOLDER_COUNT - 1}`
+      );
+
+      document.activeElement?.dispatchEvent(
+        new KeyboardEvent("keydown", { key: "f", bubbles: true })
+      );
+      await settle();
+
+      expect(document.activeElement?.closest("li")?.dataset.nodeId).toBe("folder-0");
+      expect(document.activeElement?.getAttribute("tabindex")).toBe("0");
+    });
+
+    it("should check whole folders in checkbox mode", async () => {
+      const tree = await mount();
+      tree.selectionMode = "checkbox";
+      await settle();
+
+      nodeRow("folder-2")?.querySelector<HTMLElement>(".ds-tree-item__content")?.click();
+      await settle();
+
+      expect(tree.getItemCheckedState("folder-2/a")).toBe("checked");
+      expect(nodeRow("folder-2")?.getAttribute("aria-checked")).toBe("true");
+    });
+
+    it("should not move nodes, even when reorderable", async () => {
+      const tree = await mount();
+      tree.reorderable = true;
+      await settle();
+      const onMove = vi.fn();
+      tree.addEventListener("ds:move", onMove);
+
+      expect(tree.moveItem("folder-2", "folder-0", "before")).toBe(false);
+
+      const content = nodeRow("folder-2")?.querySelector<HTMLElement>(".ds-tree-item__content");
+      content?.dispatchEvent(
+        new KeyboardEvent("keydown", { key: "ArrowUp", altKey: true, bubbles: true })
+      );
+      content?.dispatchEvent(new Event("dragstart", { bubbles: true }));
+      await settle();
+
+      expect(onMove).not.toHaveBeenCalled();
+      expect(container.querySelector("[draggable]")).toBeNull();
+      expect(nodeRow("folder-2")?.hasAttribute("data-dragging")).toBe(false);
+      expect(rows()[2]?.dataset.nodeId).toBe("folder-2");
+    });
+  });
+});